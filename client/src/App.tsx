@@ -1,12 +1,12 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { NavigationMenu, NavigationMenuContent, NavigationMenuItem, NavigationMenuList, NavigationMenuTrigger } from '@/components/ui/navigation-menu';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
+import { trpc, getSessionToken, setSessionToken, clearSessionToken, SESSION_EXPIRED_EVENT } from '@/utils/trpc';
 import { ContactsManager } from '@/components/ContactsManager';
 import { LedgerManager } from '@/components/LedgerManager';
 import { GroupManager } from '@/components/GroupManager';
@@ -14,16 +14,29 @@ import { FinancialYearManager } from '@/components/FinancialYearManager';
 import { TransactionEntry } from '@/components/TransactionEntry';
 import { TransactionCorrection } from '@/components/TransactionCorrection';
 import { DateRangeTransactions } from '@/components/DateRangeTransactions';
+import { InvoiceManager } from '@/components/InvoiceManager';
 import { Calculator } from '@/components/Calculator';
 import { LedgerManagement } from '@/components/LedgerManagement';
 import { DaybookManagement } from '@/components/DaybookManagement';
 import { DaybookReport } from '@/components/DaybookReport';
-import { LedgerReport } from '@/components/LedgerReport';
+import { LedgerReport, type LedgerReportFilter } from '@/components/LedgerReport';
 import { TrialBalanceReport } from '@/components/TrialBalanceReport';
 import { ProfitLossReport } from '@/components/ProfitLossReport';
 import { BalanceSheetReport } from '@/components/BalanceSheetReport';
+import { CashFlowReport } from '@/components/CashFlowReport';
+import { BankReconciliation } from '@/components/BankReconciliation';
+import { BankReconciliationReport } from '@/components/BankReconciliationReport';
+import { BillSettlement } from '@/components/BillSettlement';
+import { AgingReport } from '@/components/AgingReport';
+import { ContactStatement } from '@/components/ContactStatement';
 import { ToolsManager } from '@/components/ToolsManager';
-import type { User, LoginInput } from '../../server/src/schema';
+import { UserManager } from '@/components/UserManager';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { VoucherSeriesManager } from '@/components/VoucherSeriesManager';
+import { TaxManager } from '@/components/TaxManager';
+import { TaxReturnReport } from '@/components/TaxReturnReport';
+import { hasPermission, type Permission } from '../../server/src/permissions';
+import type { SessionUser, LoginInput } from '../../server/src/schema';
 
 type ActiveView = 
   | 'dashboard'
@@ -33,8 +46,12 @@ type ActiveView =
   | 'financial-year'
   | 'transaction-entry'
   | 'transaction-correction'
+  | 'sales-invoices'
+  | 'purchase-bills'
   | 'date-range-transactions'
   | 'calculator'
+  | 'bank-reconciliation'
+  | 'bill-settlement'
   | 'ledger-management'
   | 'daybook-management'
   | 'daybook-report'
@@ -42,16 +59,24 @@ type ActiveView =
   | 'trial-balance'
   | 'profit-loss'
   | 'balance-sheet'
-  | 'tools';
-
-// Create a type for the logged-in user (without password_hash)
-type LoggedInUser = Omit<User, 'password_hash'>;
+  | 'cash-flow'
+  | 'bank-reconciliation-report'
+  | 'aging'
+  | 'contact-statement'
+  | 'tax-returns'
+  | 'audit-log'
+  | 'tools'
+  | 'voucher-series'
+  | 'tax-rates'
+  | 'users';
 
 function App() {
-  const [user, setUser] = useState<LoggedInUser | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [activeView, setActiveView] = useState<ActiveView>('dashboard');
   const [isLoading, setIsLoading] = useState(false);
+  const [isRestoringSession, setIsRestoringSession] = useState(() => getSessionToken() !== null);
   const [error, setError] = useState<string>('');
+  const [ledgerReportFilter, setLedgerReportFilter] = useState<LedgerReportFilter | null>(null);
   
   // Login form state
   const [loginData, setLoginData] = useState<LoginInput>({
@@ -59,6 +84,36 @@ function App() {
     password: ''
   });
 
+  const can = (permission: Permission) => user !== null && hasPermission(user.role, permission);
+
+  // Drill down from a report into the ledger report for one ledger or group
+  const openLedgerReport = (filter: LedgerReportFilter) => {
+    setLedgerReportFilter(filter);
+    setActiveView('ledger-report');
+  };
+
+  // Restore the session kept in localStorage across page reloads
+  useEffect(() => {
+    if (!getSessionToken()) return;
+
+    trpc.getCurrentUser.query()
+      .then((currentUser: SessionUser) => setUser(currentUser))
+      .catch(() => clearSessionToken())
+      .finally(() => setIsRestoringSession(false));
+  }, []);
+
+  // Return to the login page when the server reports the session has expired
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null);
+      setActiveView('dashboard');
+      setError('Your session has expired. Please sign in again.');
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -66,7 +121,8 @@ function App() {
     
     try {
       const response = await trpc.login.mutate(loginData);
-      if (response.success && response.user) {
+      if (response.success && response.user && response.token) {
+        setSessionToken(response.token);
         setUser(response.user);
         setActiveView('dashboard');
       } else {
@@ -80,12 +136,26 @@ function App() {
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    clearSessionToken();
     setUser(null);
     setActiveView('dashboard');
     setLoginData({ username: '', password: '' });
   };
 
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <p className="text-gray-600">Restoring your session...</p>
+      </div>
+    );
+  }
+
   // Login page
   if (!user) {
     return (
@@ -148,7 +218,7 @@ function App() {
             <div className="flex items-center space-x-4">
               <h1 className="text-2xl font-bold text-indigo-900">📊 Accounts Manager</h1>
               <div className="text-sm text-gray-500">
-                Welcome, {user.username}
+                Welcome, {user.username} ({user.role.replace('_', ' ')})
               </div>
             </div>
             <Button variant="outline" onClick={handleLogout} className="text-red-600 hover:text-red-700">
@@ -214,132 +284,249 @@ function App() {
               </NavigationMenuItem>
 
               {/* Transactions */}
-              <NavigationMenuItem>
-                <NavigationMenuTrigger className="h-10 bg-green-600 text-white hover:bg-green-700">
-                  💰 Transactions
-                </NavigationMenuTrigger>
-                <NavigationMenuContent>
-                  <div className="grid w-48 gap-1 p-2">
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('transaction-entry')}
-                    >
-                      ➕ Entry
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('transaction-correction')}
-                    >
-                      ✏️ Correction
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('date-range-transactions')}
-                    >
-                      📅 Date to Date
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('calculator')}
-                    >
-                      🧮 Calculator
-                    </Button>
-                  </div>
-                </NavigationMenuContent>
-              </NavigationMenuItem>
+              {can('vouchers:read') && (
+                <NavigationMenuItem>
+                  <NavigationMenuTrigger className="h-10 bg-green-600 text-white hover:bg-green-700">
+                    💰 Transactions
+                  </NavigationMenuTrigger>
+                  <NavigationMenuContent>
+                    <div className="grid w-48 gap-1 p-2">
+                      {can('vouchers:create') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('transaction-entry')}
+                        >
+                          ➕ Entry
+                        </Button>
+                      )}
+                      {can('vouchers:modify') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('transaction-correction')}
+                        >
+                          ✏️ Correction
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('sales-invoices')}
+                      >
+                        🧾 Sales Invoices
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('purchase-bills')}
+                      >
+                        📥 Purchase Bills
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('date-range-transactions')}
+                      >
+                        📅 Date to Date
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('bank-reconciliation')}
+                      >
+                        🏦 Bank Reconciliation
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('bill-settlement')}
+                      >
+                        🧾 Bill Settlement
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('calculator')}
+                      >
+                        🧮 Calculator
+                      </Button>
+                    </div>
+                  </NavigationMenuContent>
+                </NavigationMenuItem>
+              )}
 
               {/* Management */}
-              <NavigationMenuItem>
-                <NavigationMenuTrigger className="h-10 bg-purple-600 text-white hover:bg-purple-700">
-                  🔧 Management
-                </NavigationMenuTrigger>
-                <NavigationMenuContent>
-                  <div className="grid w-48 gap-1 p-2">
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('ledger-management')}
-                    >
-                      📖 Ledger
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('daybook-management')}
-                    >
-                      📔 Daybook
-                    </Button>
-                  </div>
-                </NavigationMenuContent>
-              </NavigationMenuItem>
+              {can('vouchers:read') && (
+                <NavigationMenuItem>
+                  <NavigationMenuTrigger className="h-10 bg-purple-600 text-white hover:bg-purple-700">
+                    🔧 Management
+                  </NavigationMenuTrigger>
+                  <NavigationMenuContent>
+                    <div className="grid w-48 gap-1 p-2">
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('ledger-management')}
+                      >
+                        📖 Ledger
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="justify-start h-8"
+                        onClick={() => setActiveView('daybook-management')}
+                      >
+                        📔 Daybook
+                      </Button>
+                    </div>
+                  </NavigationMenuContent>
+                </NavigationMenuItem>
+              )}
 
               {/* Reports */}
-              <NavigationMenuItem>
-                <NavigationMenuTrigger className="h-10 bg-orange-600 text-white hover:bg-orange-700">
-                  📊 Reports
-                </NavigationMenuTrigger>
-                <NavigationMenuContent>
-                  <div className="grid w-48 gap-1 p-2">
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('daybook-report')}
-                    >
-                      📔 Daybook
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('ledger-report')}
-                    >
-                      📖 Ledger
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('trial-balance')}
-                    >
-                      ⚖️ Trial Balance
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('profit-loss')}
-                    >
-                      📈 P&L
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('balance-sheet')}
-                    >
-                      📋 Balance Sheet
-                    </Button>
-                  </div>
-                </NavigationMenuContent>
-              </NavigationMenuItem>
+              {(can('reports:read') || can('audit:read')) && (
+                <NavigationMenuItem>
+                  <NavigationMenuTrigger className="h-10 bg-orange-600 text-white hover:bg-orange-700">
+                    📊 Reports
+                  </NavigationMenuTrigger>
+                  <NavigationMenuContent>
+                    <div className="grid w-48 gap-1 p-2">
+                      {can('reports:read') && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('daybook-report')}
+                          >
+                            📔 Daybook
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('ledger-report')}
+                          >
+                            📖 Ledger
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('trial-balance')}
+                          >
+                            ⚖️ Trial Balance
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('profit-loss')}
+                          >
+                            📈 P&L
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('balance-sheet')}
+                          >
+                            📋 Balance Sheet
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('cash-flow')}
+                          >
+                            💵 Cash Flow
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('bank-reconciliation-report')}
+                          >
+                            🏦 Bank Reconciliation
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('aging')}
+                          >
+                            ⏳ Aging
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('contact-statement')}
+                          >
+                            📨 Statement of Account
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            className="justify-start h-8"
+                            onClick={() => setActiveView('tax-returns')}
+                          >
+                            🧾 Tax Returns
+                          </Button>
+                        </>
+                      )}
+                      {can('audit:read') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('audit-log')}
+                        >
+                          🕵️ Audit Log
+                        </Button>
+                      )}
+                    </div>
+                  </NavigationMenuContent>
+                </NavigationMenuItem>
+              )}
 
               {/* Tools */}
-              <NavigationMenuItem>
-                <NavigationMenuTrigger className="h-10 bg-red-600 text-white hover:bg-red-700">
-                  🛠️ Tools
-                </NavigationMenuTrigger>
-                <NavigationMenuContent>
-                  <div className="grid w-48 gap-1 p-2">
-                    <Button
-                      variant="ghost"
-                      className="justify-start h-8"
-                      onClick={() => setActiveView('tools')}
-                    >
-                      🔧 Manage Tools
-                    </Button>
-                  </div>
-                </NavigationMenuContent>
-              </NavigationMenuItem>
+              {(can('tools:run') || can('settings:manage') || can('users:manage')) && (
+                <NavigationMenuItem>
+                  <NavigationMenuTrigger className="h-10 bg-red-600 text-white hover:bg-red-700">
+                    🛠️ Tools
+                  </NavigationMenuTrigger>
+                  <NavigationMenuContent>
+                    <div className="grid w-48 gap-1 p-2">
+                      {can('tools:run') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('tools')}
+                        >
+                          🔧 Manage Tools
+                        </Button>
+                      )}
+                      {can('settings:manage') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('voucher-series')}
+                        >
+                          🔢 Voucher Numbering
+                        </Button>
+                      )}
+                      {can('settings:manage') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('tax-rates')}
+                        >
+                          🧾 Tax Rates
+                        </Button>
+                      )}
+                      {can('users:manage') && (
+                        <Button
+                          variant="ghost"
+                          className="justify-start h-8"
+                          onClick={() => setActiveView('users')}
+                        >
+                          👤 Users
+                        </Button>
+                      )}
+                    </div>
+                  </NavigationMenuContent>
+                </NavigationMenuItem>
+              )}
             </NavigationMenuList>
           </NavigationMenu>
         </div>
@@ -367,55 +554,71 @@ function App() {
                 </CardContent>
               </Card>
 
-              <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg text-green-800">💰 Transactions</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-green-600 mb-3">Record entries, corrections, and view transactions</p>
-                  <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => setActiveView('transaction-entry')}>
-                    New Entry
-                  </Button>
-                </CardContent>
-              </Card>
+              {can('vouchers:create') && (
+                <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg text-green-800">💰 Transactions</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-green-600 mb-3">Record entries, corrections, and view transactions</p>
+                    <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => setActiveView('transaction-entry')}>
+                      New Entry
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
 
-              <Card className="bg-gradient-to-br from-orange-50 to-orange-100 border-orange-200">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg text-orange-800">📊 Reports</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-orange-600 mb-3">Generate daybook, ledger, and financial reports</p>
-                  <Button size="sm" className="bg-orange-600 hover:bg-orange-700" onClick={() => setActiveView('daybook-report')}>
-                    View Reports
-                  </Button>
-                </CardContent>
-              </Card>
+              {can('reports:read') && (
+                <Card className="bg-gradient-to-br from-orange-50 to-orange-100 border-orange-200">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg text-orange-800">📊 Reports</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-orange-600 mb-3">Generate daybook, ledger, and financial reports</p>
+                    <Button size="sm" className="bg-orange-600 hover:bg-orange-700" onClick={() => setActiveView('daybook-report')}>
+                      View Reports
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
 
-              <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg text-red-800">🛠️ Tools</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-red-600 mb-3">Backup, clean database, and other utilities</p>
-                  <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={() => setActiveView('tools')}>
-                    Manage
-                  </Button>
-                </CardContent>
-              </Card>
+              {can('tools:run') && (
+                <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg text-red-800">🛠️ Tools</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-red-600 mb-3">Backup, clean database, and other utilities</p>
+                    <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={() => setActiveView('tools')}>
+                      Manage
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </div>
         )}
 
         {/* Masters */}
-        {activeView === 'contacts' && <ContactsManager />}
+        {activeView === 'contacts' && <ContactsManager canViewOutstanding={can('reports:read')} />}
         {activeView === 'ledger' && <LedgerManager />}
-        {activeView === 'group' && <GroupManager />}
-        {activeView === 'financial-year' && <FinancialYearManager />}
+        {activeView === 'group' && <GroupManager canApplyTemplates={can('settings:manage')} />}
+        {activeView === 'financial-year' && <FinancialYearManager canManageYears={can('settings:manage')} />}
 
         {/* Transactions */}
-        {activeView === 'transaction-entry' && <TransactionEntry />}
-        {activeView === 'transaction-correction' && <TransactionCorrection />}
+        {activeView === 'transaction-entry' && can('vouchers:create') && <TransactionEntry canOverrideLocks={can('periods:override')} />}
+        {activeView === 'transaction-correction' && can('vouchers:modify') && <TransactionCorrection canOverrideLocks={can('periods:override')} />}
+        {(activeView === 'sales-invoices' || activeView === 'purchase-bills') && can('vouchers:read') && (
+          <InvoiceManager
+            invoiceType={activeView === 'sales-invoices' ? 'sales' : 'purchase'}
+            canCreate={can('vouchers:create')}
+            canModify={can('vouchers:modify')}
+            canOverrideLocks={can('periods:override')}
+          />
+        )}
         {activeView === 'date-range-transactions' && <DateRangeTransactions />}
+        {activeView === 'bank-reconciliation' && <BankReconciliation />}
+        {activeView === 'bill-settlement' && <BillSettlement canAllocate={can('vouchers:modify')} />}
         {activeView === 'calculator' && <Calculator />}
 
         {/* Management */}
@@ -424,13 +627,22 @@ function App() {
 
         {/* Reports */}
         {activeView === 'daybook-report' && <DaybookReport />}
-        {activeView === 'ledger-report' && <LedgerReport />}
-        {activeView === 'trial-balance' && <TrialBalanceReport />}
+        {activeView === 'ledger-report' && <LedgerReport initialFilter={ledgerReportFilter} />}
+        {activeView === 'trial-balance' && <TrialBalanceReport onOpenLedgerReport={openLedgerReport} />}
         {activeView === 'profit-loss' && <ProfitLossReport />}
         {activeView === 'balance-sheet' && <BalanceSheetReport />}
+        {activeView === 'cash-flow' && <CashFlowReport />}
+        {activeView === 'bank-reconciliation-report' && <BankReconciliationReport />}
+        {activeView === 'aging' && <AgingReport />}
+        {activeView === 'contact-statement' && <ContactStatement />}
+        {activeView === 'tax-returns' && <TaxReturnReport />}
+        {activeView === 'audit-log' && can('audit:read') && <AuditLogViewer />}
 
         {/* Tools */}
-        {activeView === 'tools' && <ToolsManager />}
+        {activeView === 'tools' && can('tools:run') && <ToolsManager />}
+        {activeView === 'voucher-series' && can('settings:manage') && <VoucherSeriesManager />}
+        {activeView === 'tax-rates' && can('settings:manage') && <TaxManager />}
+        {activeView === 'users' && can('users:manage') && <UserManager currentUser={user} />}
       </main>
     </div>
   );
@@ -0,0 +1,154 @@
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { AgingBuckets, AgingItem, AgingReport as AgingReportData, AgingRow } from '../../../server/src/schema';
+
+const bucketColumns: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'days_0_30', label: '0-30 days' },
+  { key: 'days_31_60', label: '31-60 days' },
+  { key: 'days_61_90', label: '61-90 days' },
+  { key: 'days_over_90', label: '90+ days' },
+  { key: 'total', label: 'Total' }
+];
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+export function AgingReport() {
+  const [asOnDate, setAsOnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [report, setReport] = useState<AgingReportData | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.getAgingReport.query({ as_on_date: new Date(asOnDate) });
+      setReport(result);
+      setExpanded(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate aging report');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    return amount === 0 ? '' : `$${amount.toFixed(2)}`;
+  };
+
+  const renderSide = (side: string, title: string, rows: AgingRow[], total: AgingBuckets) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>Click a contact to see its open bills</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Contact</TableHead>
+              {bucketColumns.map(column => (
+                <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">Nothing outstanding</TableCell>
+              </TableRow>
+            ) : rows.map((row: AgingRow) => {
+              const key = `${side}-${row.contact_id}`;
+              return (
+                <Fragment key={key}>
+                  <TableRow className="cursor-pointer hover:bg-gray-50" onClick={() => setExpanded(expanded === key ? null : key)}>
+                    <TableCell className="font-medium">{expanded === key ? '▾' : '▸'} {row.contact_name}</TableCell>
+                    {bucketColumns.map(column => (
+                      <TableCell key={column.key} className="text-right font-mono">{formatAmount(row[column.key])}</TableCell>
+                    ))}
+                  </TableRow>
+                  {expanded === key && row.items.map((item: AgingItem, index: number) => (
+                    <TableRow key={`${key}-${item.detail_id ?? `opening-${item.ledger_id}`}-${index}`} className="text-sm text-gray-600">
+                      <TableCell className="pl-8">
+                        {item.date ? formatDate(item.date) : 'Opening'} · {item.entry_number ?? item.ledger_name} · {item.description}
+                      </TableCell>
+                      <TableCell colSpan={4} className="text-right">
+                        {item.age_days === null ? 'opening balance' : `${item.age_days} days`}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(Math.abs(item.outstanding))}</TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+          <TableFooter>
+            <TableRow className="font-bold">
+              <TableCell>Total</TableCell>
+              {bucketColumns.map(column => (
+                <TableCell key={column.key} className="text-right font-mono">${total[column.key].toFixed(2)}</TableCell>
+              ))}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">⏳ Aging Report</h2>
+        <p className="text-gray-600">Outstanding receivables and payables by age</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📊 Aging Report Generator</CardTitle>
+          <CardDescription>
+            Receipts and payments settle the bills they are allocated to, then the oldest open bills
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="aging-date">As On</Label>
+              <Input
+                id="aging-date"
+                type="date"
+                value={asOnDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAsOnDate(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGenerateReport} disabled={isLoading || !asOnDate} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <>
+          {renderSide('receivables', `📥 Receivables as on ${formatDate(report.as_on_date)}`, report.receivables, report.receivables_total)}
+          {renderSide('payables', `📤 Payables as on ${formatDate(report.as_on_date)}`, report.payables, report.payables_total)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { AuditEntity, AuditLogEntry } from '../../../server/src/schema';
+
+const entityLabels: Record<AuditEntity, string> = {
+  group: 'Group',
+  contact: 'Contact',
+  ledger: 'Ledger',
+  financial_year: 'Financial Year',
+  transaction: 'Voucher',
+  voucher_series: 'Voucher Series',
+  user: 'User',
+  bank_statement: 'Bank Statement',
+  bank_statement_line: 'Bank Statement Line',
+  invoice: 'Invoice',
+  invoice_series: 'Invoice Series',
+  tax_rate: 'Tax Rate',
+  tax_settings: 'Tax Settings',
+  database: 'Database'
+};
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  entity: AuditEntity | 'all';
+  entity_id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  overrides_only: boolean;
+}
+
+const emptyFilters: AuditFilters = {
+  entity: 'all',
+  entity_id: '',
+  user_id: '',
+  start_date: '',
+  end_date: '',
+  overrides_only: false
+};
+
+const formatSnapshot = (snapshot: unknown) => {
+  return snapshot === null || snapshot === undefined ? '—' : JSON.stringify(snapshot, null, 2);
+};
+
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  // The filters of the loaded entries; the form only applies its edits on submit
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters);
+
+  const loadEntries = useCallback(async (pageOffset: number) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.getAuditLog.query({
+        entity: appliedFilters.entity === 'all' ? undefined : appliedFilters.entity,
+        entity_id: appliedFilters.entity_id ? parseInt(appliedFilters.entity_id) : undefined,
+        user_id: appliedFilters.user_id ? parseInt(appliedFilters.user_id) : undefined,
+        lock_override: appliedFilters.overrides_only ? true : undefined,
+        start_date: appliedFilters.start_date ? new Date(appliedFilters.start_date) : undefined,
+        end_date: appliedFilters.end_date ? new Date(`${appliedFilters.end_date}T23:59:59.999`) : undefined,
+        limit: PAGE_SIZE,
+        offset: pageOffset
+      });
+      setEntries(result);
+      setOffset(pageOffset);
+    } catch (error) {
+      setError('Failed to load audit log');
+      console.error('Load audit log error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters]);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, [loadEntries]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters({ ...filters });
+  };
+
+  const getActionColor = (procedure: string) => {
+    if (procedure.startsWith('create')) return 'bg-green-100 text-green-800';
+    if (procedure.startsWith('delete') || procedure.startsWith('clean')) return 'bg-red-100 text-red-800';
+    return 'bg-blue-100 text-blue-800';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🕵️ Audit Log</h2>
+        <p className="text-gray-600">Who changed what and when, with before and after values</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">🔍 Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="entity">Entity</Label>
+              <Select
+                value={filters.entity || 'all'}
+                onValueChange={(value: AuditEntity | 'all') =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, entity: value }))
+                }
+              >
+                <SelectTrigger id="entity">
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {(Object.keys(entityLabels) as AuditEntity[]).map((entity: AuditEntity) => (
+                    <SelectItem key={entity} value={entity}>{entityLabels[entity]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="entity-id">Record ID</Label>
+              <Input
+                id="entity-id"
+                type="number"
+                min="1"
+                value={filters.entity_id}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, entity_id: e.target.value }))
+                }
+                placeholder="Any"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="user-id">User ID</Label>
+              <Input
+                id="user-id"
+                type="number"
+                min="1"
+                value={filters.user_id}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, user_id: e.target.value }))
+                }
+                placeholder="Any"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="start-date">From</Label>
+              <Input
+                id="start-date"
+                type="date"
+                value={filters.start_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, start_date: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="end-date">To</Label>
+              <Input
+                id="end-date"
+                type="date"
+                value={filters.end_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, end_date: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="overrides">Lock Overrides</Label>
+              <Select
+                value={filters.overrides_only ? 'only' : 'all'}
+                onValueChange={(value: string) =>
+                  setFilters((prev: AuditFilters) => ({ ...prev, overrides_only: value === 'only' }))
+                }
+              >
+                <SelectTrigger id="overrides">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All changes</SelectItem>
+                  <SelectItem value="only">Overrides only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Loading...' : 'Apply'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📋 Changes</CardTitle>
+          <CardDescription>Audit entries are never modified or deleted. Click a row to see the full record.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No audit entries found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Record ID</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry: AuditLogEntry) => (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <TableCell>{entry.created_at.toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{entry.username ?? 'system'}</TableCell>
+                      <TableCell>
+                        <Badge className={getActionColor(entry.procedure)}>{entry.procedure}</Badge>
+                        {entry.lock_override && (
+                          <Badge className="bg-red-100 text-red-800 ml-2">Lock override</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{entityLabels[entry.entity]}</TableCell>
+                      <TableCell>{entry.entity_id ?? '—'}</TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && (
+                      <TableRow>
+                        <TableCell colSpan={5}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-sm font-medium text-gray-700 mb-1">Before</p>
+                              <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-64">
+                                {formatSnapshot(entry.before)}
+                              </pre>
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-gray-700 mb-1">After</p>
+                              <pre className="text-xs bg-gray-50 p-2 rounded overflow-auto max-h-64">
+                                {formatSnapshot(entry.after)}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex justify-between mt-4">
+            <Button
+              variant="outline"
+              disabled={isLoading || offset === 0}
+              onClick={() => loadEntries(Math.max(0, offset - PAGE_SIZE))}
+            >
+              ← Newer
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isLoading || entries.length < PAGE_SIZE}
+              onClick={() => loadEntries(offset + PAGE_SIZE)}
+            >
+              Older →
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
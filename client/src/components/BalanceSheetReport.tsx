@@ -1,7 +1,88 @@
-
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ComparativeLayoutSelect, ComparativeTable } from '@/components/ComparativeTable';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type { BalanceSheet, ComparativeBalanceSheet, ExportFormat, StatementLine, UnclassifiedStatementLine } from '../../../server/src/schema';
+import { comparativeColumns, type ComparativeLayout } from '../../../server/src/periods';
 
 export function BalanceSheetReport() {
+  const [asOnDate, setAsOnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isComparative, setIsComparative] = useState(false);
+  const [layout, setLayout] = useState<ComparativeLayout>('year_over_year');
+  const [fromDate, setFromDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [report, setReport] = useState<BalanceSheet | null>(null);
+  const [comparison, setComparison] = useState<ComparativeBalanceSheet | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (isComparative) {
+        const result = await trpc.getComparativeBalanceSheet.query({
+          columns: comparativeColumns(layout, new Date(fromDate), new Date(asOnDate))
+        });
+        setComparison(result);
+        setReport(null);
+      } else {
+        const result = await trpc.getBalanceSheet.query({ as_on_date: new Date(asOnDate) });
+        setReport(result);
+        setComparison(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate balance sheet');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderLines = (lines: StatementLine[]) => lines.map((line: StatementLine) => (
+    <TableRow key={line.ledger_id}>
+      <TableCell>{line.ledger_name}</TableCell>
+      <TableCell className="text-gray-500">{line.group_name}</TableCell>
+      <TableCell className="text-right font-mono">${line.amount.toFixed(2)}</TableCell>
+    </TableRow>
+  ));
+
+  const renderExtraLine = (label: string, amount: number) => amount !== 0 && (
+    <TableRow>
+      <TableCell colSpan={2} className="italic">{label}</TableCell>
+      <TableCell className="text-right font-mono">${amount.toFixed(2)}</TableCell>
+    </TableRow>
+  );
+
+  const renderSection = (title: string, lines: StatementLine[], total: number, extraRows?: React.ReactNode) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead>Group</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {renderLines(lines)}
+        {extraRows}
+      </TableBody>
+      <TableFooter>
+        <TableRow className="font-bold">
+          <TableCell colSpan={2}>Total {title}</TableCell>
+          <TableCell className="text-right font-mono">${total.toFixed(2)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+
   return (
     <div className="space-y-6">
       <div>
@@ -12,17 +93,167 @@ export function BalanceSheetReport() {
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">📊 Balance Sheet Generator</CardTitle>
-          <CardDescription>Generate balance sheet as on a specific date</CardDescription>
+          <CardDescription>
+            Generate balance sheet as on a specific date, or compare it as on the end of each period
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-gray-500">Balance sheet report generator will be implemented here.</p>
-            <p className="text-sm text-gray-400 mt-2">
-              This will generate balance sheets showing assets, liabilities, and equity as on a specific date.
-            </p>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="bs-date">As On Date</Label>
+              <Input
+                id="bs-date"
+                type="date"
+                value={asOnDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAsOnDate(e.target.value)}
+              />
+            </div>
+
+            <Button
+              onClick={handleGenerateReport}
+              disabled={isLoading || !asOnDate || (isComparative && !fromDate)}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="bs-comparative" checked={isComparative} onCheckedChange={setIsComparative} />
+              <Label htmlFor="bs-comparative" className="text-sm">Compare periods</Label>
+            </div>
+
+            {isComparative && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="bs-from">Periods From</Label>
+                  <Input
+                    id="bs-from"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)}
+                  />
+                </div>
+
+                <ComparativeLayoutSelect id="bs-layout" value={layout} onChange={setLayout} />
+              </>
+            )}
           </div>
+
+          {!isComparative && (
+            <ExportButtons
+              disabled={!asOnDate}
+              onExport={(format: ExportFormat) => trpc.exportReport.query({
+                format,
+                report: { type: 'balance_sheet', filter: { as_on_date: new Date(asOnDate) } }
+              })}
+            />
+          )}
         </CardContent>
       </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Balance Sheet as on {report.as_on_date.toLocaleDateString()}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {renderSection('Assets', report.assets, report.total_assets)}
+              <div className="space-y-6">
+                {renderSection('Liabilities', report.liabilities, report.total_liabilities)}
+                {renderSection('Equity', report.equity, report.total_equity, (
+                  <>
+                    {renderExtraLine('Profit & Loss for the year', report.retained_profit)}
+                    {renderExtraLine('Difference in opening balances', report.opening_balance_difference)}
+                  </>
+                ))}
+              </div>
+            </div>
+
+            {report.unclassified.length > 0 && (
+              <Alert className="border-amber-200 bg-amber-50">
+                <AlertDescription className="text-amber-800">
+                  These ledgers belong to groups without a nature and are left out of the balance sheet:{' '}
+                  {report.unclassified.map((line: UnclassifiedStatementLine) =>
+                    `${line.ledger_name} ($${line.amount.toFixed(2)} ${line.balance_type === 'debit' ? 'Dr' : 'Cr'})`
+                  ).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report.difference === 0 ? (
+              <p className="text-sm text-green-700">✅ Assets equal liabilities plus equity</p>
+            ) : (
+              <p className="text-sm text-red-700">
+                ⚠️ Assets differ from liabilities plus equity by ${report.difference.toFixed(2)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Comparative Balance Sheet</CardTitle>
+            <CardDescription>Each column is as on the end of its period; changes are against the previous column</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ComparativeTable
+              title="Assets"
+              columns={comparison.columns}
+              lines={comparison.assets}
+              totals={[{ label: 'Total Assets', values: comparison.total_assets }]}
+            />
+            <ComparativeTable
+              title="Liabilities"
+              columns={comparison.columns}
+              lines={comparison.liabilities}
+              totals={[{ label: 'Total Liabilities', values: comparison.total_liabilities }]}
+            />
+            <ComparativeTable
+              title="Equity"
+              columns={comparison.columns}
+              lines={comparison.equity}
+              extraRows={[
+                { label: 'Profit & Loss for the year', values: comparison.retained_profit },
+                { label: 'Difference in opening balances', values: comparison.opening_balance_difference }
+              ]}
+              totals={[{ label: 'Total Equity', values: comparison.total_equity }]}
+            />
+
+            {comparison.unclassified.length > 0 && (
+              <>
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertDescription className="text-amber-800">
+                    These ledgers belong to groups without a nature and are left out of the balance sheet
+                  </AlertDescription>
+                </Alert>
+                <ComparativeTable title="Unclassified" columns={comparison.columns} lines={comparison.unclassified} signed />
+              </>
+            )}
+
+            {comparison.difference.amounts.every((amount: number) => amount === 0) ? (
+              <p className="text-sm text-green-700">✅ Assets equal liabilities plus equity in every column</p>
+            ) : (
+              <ComparativeTable
+                title="Difference"
+                columns={comparison.columns}
+                lines={[]}
+                extraRows={[{ label: 'Assets less liabilities and equity', values: comparison.difference }]}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
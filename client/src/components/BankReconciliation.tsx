@@ -0,0 +1,617 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { trpc } from '@/utils/trpc';
+import type {
+  BankBookLine,
+  BankMatchType,
+  BankReconciliation as BankReconciliationData,
+  BankStatement,
+  BankStatementFormat,
+  BankStatementLine,
+  CsvColumnMapping,
+  Ledger
+} from '../../../server/src/schema';
+import { isValidMoney, moneyToNumber, parseMoney, sumMoney } from '../../../server/src/money';
+
+const formatLabels: Record<BankStatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  mt940: 'MT940',
+  camt053: 'CAMT.053'
+};
+
+const matchTypeLabels: Record<BankMatchType, string> = {
+  auto: 'Auto',
+  manual: 'Manual',
+  voucher: 'Voucher'
+};
+
+const dateFormats: CsvColumnMapping['date_format'][] = ['yyyy-mm-dd', 'dd/mm/yyyy', 'mm/dd/yyyy', 'dd-mmm-yyyy'];
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatAmount = (amount: number) => {
+  return amount < 0 ? `($${Math.abs(amount).toFixed(2)})` : `$${amount.toFixed(2)}`;
+};
+
+export function BankReconciliation() {
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [ledgerId, setLedgerId] = useState<number | null>(null);
+  const [startDate, setStartDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [reconciliation, setReconciliation] = useState<BankReconciliationData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [format, setFormat] = useState<BankStatementFormat>('csv');
+  const [file, setFile] = useState<File | null>(null);
+  const [closingBalance, setClosingBalance] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({
+    date: 'Date',
+    description: 'Description',
+    reference: '',
+    amount: 'Amount',
+    withdrawal: '',
+    deposit: '',
+    date_format: 'yyyy-mm-dd',
+    delimiter: ','
+  });
+
+  const [dateTolerance, setDateTolerance] = useState('3');
+  const [amountTolerance, setAmountTolerance] = useState('0');
+
+  // Statement line being matched by hand, with the book lines picked for it
+  const [matchingLine, setMatchingLine] = useState<BankStatementLine | null>(null);
+  const [selectedDetails, setSelectedDetails] = useState<number[]>([]);
+  const [contraLedgerId, setContraLedgerId] = useState<number | null>(null);
+  const [clearingDates, setClearingDates] = useState<Record<number, string>>({});
+
+  const bankLedgers = ledgers.filter((ledger: Ledger) => ledger.ledger_type === 'bank');
+
+  useEffect(() => {
+    trpc.getLedgers.query()
+      .then(setLedgers)
+      .catch((error: unknown) => {
+        setError('Failed to load ledgers');
+        console.error('Load ledgers error:', error);
+      });
+  }, []);
+
+  const loadReconciliation = useCallback(async () => {
+    if (ledgerId === null || !startDate || !endDate) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [statementsResult, reconciliationResult] = await Promise.all([
+        trpc.getBankStatements.query({ ledger_id: ledgerId }),
+        trpc.getBankReconciliation.query({ ledger_id: ledgerId, start_date: new Date(startDate), end_date: new Date(endDate) })
+      ]);
+      setStatements(statementsResult);
+      setReconciliation(reconciliationResult);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the reconciliation');
+      console.error('Load reconciliation error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ledgerId, startDate, endDate]);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [loadReconciliation]);
+
+  // Runs an action, reports its outcome and reloads the reconciliation
+  const run = async (action: () => Promise<string>, failure: string) => {
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+      setMatchingLine(null);
+      setSelectedDetails([]);
+      await loadReconciliation();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : failure);
+      console.error(`${failure}:`, error);
+    }
+  };
+
+  const handleImport = () => run(async () => {
+    if (ledgerId === null || !file) {
+      throw new Error('Select a bank ledger and a statement file');
+    }
+    if (closingBalance && !isValidMoney(Number(closingBalance))) {
+      throw new Error('Closing balance must have at most two decimal places');
+    }
+
+    const statement = await trpc.importBankStatement.mutate({
+      ledger_id: ledgerId,
+      format,
+      file_name: file.name,
+      content: await file.text(),
+      csv_mapping: format === 'csv' ? {
+        ...mapping,
+        reference: mapping.reference || undefined,
+        amount: mapping.amount || undefined,
+        withdrawal: mapping.withdrawal || undefined,
+        deposit: mapping.deposit || undefined
+      } : undefined,
+      closing_balance: closingBalance ? Number(closingBalance) : undefined
+    });
+    setFile(null);
+    setClosingBalance('');
+    const skipped = statement.skipped_count > 0 ? `, ${statement.skipped_count} already imported` : '';
+    return `Imported ${statement.line_count} lines from ${statement.file_name}${skipped}`;
+  }, 'Failed to import the statement');
+
+  const handleDeleteStatement = (statement: BankStatement) => {
+    if (!confirm(`Delete ${statement.file_name} and unmatch its lines?`)) {
+      return;
+    }
+    run(async () => {
+      await trpc.deleteBankStatement.mutate({ id: statement.id });
+      return `Deleted ${statement.file_name}`;
+    }, 'Failed to delete the statement');
+  };
+
+  const handleAutoMatch = (statement: BankStatement) => run(async () => {
+    const result = await trpc.autoMatchBankStatement.mutate({
+      id: statement.id,
+      date_tolerance_days: Number(dateTolerance) || 0,
+      amount_tolerance: Number(amountTolerance) || 0
+    });
+    return `Matched ${result.matched_count} lines; ${result.unmatched_count} remain unmatched`;
+  }, 'Failed to match the statement');
+
+  const handleUnmatch = (line: BankStatementLine) => run(async () => {
+    await trpc.unmatchBankStatementLine.mutate({ id: line.id });
+    return 'Statement line unmatched';
+  }, 'Failed to unmatch the line');
+
+  const handleMatch = () => run(async () => {
+    if (!matchingLine) {
+      throw new Error('Select a statement line');
+    }
+    await trpc.matchBankStatementLine.mutate({ id: matchingLine.id, detail_ids: selectedDetails });
+    return 'Statement line matched';
+  }, 'Failed to match the line');
+
+  const handleCreateVoucher = () => run(async () => {
+    if (!matchingLine || contraLedgerId === null) {
+      throw new Error('Select the other ledger of the voucher');
+    }
+    await trpc.createVoucherFromStatementLine.mutate({ id: matchingLine.id, contra_ledger_id: contraLedgerId });
+    return 'Voucher posted and matched';
+  }, 'Failed to post the voucher');
+
+  const handleSetClearingDate = (line: BankBookLine) => run(async () => {
+    const date = clearingDates[line.detail_id];
+    await trpc.setClearingDate.mutate({ detail_id: line.detail_id, cleared_date: date ? new Date(date) : null });
+    return `${line.entry_number} cleared`;
+  }, 'Failed to set the clearing date');
+
+  const toggleDetail = (detailId: number, checked: boolean) => {
+    setSelectedDetails((current: number[]) =>
+      checked ? [...current, detailId] : current.filter((id: number) => id !== detailId)
+    );
+  };
+
+  const uncleared = reconciliation?.uncleared_lines ?? [];
+  const selectedTotal = moneyToNumber(sumMoney(
+    uncleared.filter((line: BankBookLine) => selectedDetails.includes(line.detail_id)).map((line: BankBookLine) => parseMoney(line.amount))
+  ));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🏦 Bank Reconciliation</h2>
+        <p className="text-gray-600">Import bank statements and match them to vouchers</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Bank Ledger</Label>
+              <Select
+                value={ledgerId?.toString() || 'none'}
+                onValueChange={(value: string) => setLedgerId(value === 'none' ? null : parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a bank ledger" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Select a bank ledger</SelectItem>
+                  {bankLedgers.map((ledger: Ledger) => (
+                    <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bank-start">Start Date</Label>
+              <Input
+                id="bank-start"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bank-end">End Date</Label>
+              <Input
+                id="bank-end"
+                type="date"
+                value={endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {ledgerId !== null && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">📥 Import Statement</CardTitle>
+              <CardDescription>Lines already imported into this ledger are skipped</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select value={format || 'csv'} onValueChange={(value: string) => setFormat(value as BankStatementFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(formatLabels) as BankStatementFormat[]).map((key: BankStatementFormat) => (
+                        <SelectItem key={key} value={key}>{formatLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bank-file">Statement File</Label>
+                  <Input
+                    id="bank-file"
+                    type="file"
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bank-closing">Closing Balance (optional)</Label>
+                  <Input
+                    id="bank-closing"
+                    type="number"
+                    step="0.01"
+                    value={closingBalance}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClosingBalance(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {format === 'csv' && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {(['date', 'description', 'reference', 'amount', 'withdrawal', 'deposit'] as const).map((column) => (
+                    <div key={column} className="space-y-2">
+                      <Label htmlFor={`bank-column-${column}`} className="capitalize">{column} column</Label>
+                      <Input
+                        id={`bank-column-${column}`}
+                        value={mapping[column] ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setMapping((prev: CsvColumnMapping) => ({ ...prev, [column]: e.target.value }))
+                        }
+                      />
+                    </div>
+                  ))}
+
+                  <div className="space-y-2">
+                    <Label>Date Format</Label>
+                    <Select
+                      value={mapping.date_format || 'yyyy-mm-dd'}
+                      onValueChange={(value: string) =>
+                        setMapping((prev: CsvColumnMapping) => ({ ...prev, date_format: value as CsvColumnMapping['date_format'] }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dateFormats.map((dateFormat) => (
+                          <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bank-delimiter">Delimiter</Label>
+                    <Input
+                      id="bank-delimiter"
+                      maxLength={1}
+                      value={mapping.delimiter}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setMapping((prev: CsvColumnMapping) => ({ ...prev, delimiter: e.target.value }))
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+
+              <Button onClick={handleImport} disabled={!file} className="bg-green-600 hover:bg-green-700">
+                📥 Import
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">📄 Statements</CardTitle>
+              <CardDescription>Automatic matching pairs unmatched lines with uncleared vouchers of the same amount</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 max-w-md">
+                <div className="space-y-2">
+                  <Label htmlFor="bank-date-tolerance">Date Tolerance (days)</Label>
+                  <Input
+                    id="bank-date-tolerance"
+                    type="number"
+                    min="0"
+                    value={dateTolerance}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDateTolerance(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-amount-tolerance">Amount Tolerance</Label>
+                  <Input
+                    id="bank-amount-tolerance"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amountTolerance}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmountTolerance(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Format</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Lines</TableHead>
+                    <TableHead className="text-right">Closing Balance</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500">No statements imported</TableCell>
+                    </TableRow>
+                  ) : statements.map((statement: BankStatement) => (
+                    <TableRow key={statement.id}>
+                      <TableCell>{statement.file_name}</TableCell>
+                      <TableCell>{formatLabels[statement.format]}</TableCell>
+                      <TableCell>{formatDate(statement.start_date)} – {formatDate(statement.end_date)}</TableCell>
+                      <TableCell className="text-right">{statement.line_count}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {statement.closing_balance === null ? '—' : formatAmount(statement.closing_balance)}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => handleAutoMatch(statement)}>🔗 Auto-match</Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDeleteStatement(statement)}>Delete</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">🧾 Statement Lines</CardTitle>
+              <CardDescription>Deposits are positive and withdrawals negative</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Matched To</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500">Loading...</TableCell>
+                    </TableRow>
+                  ) : (reconciliation?.statement_lines ?? []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500">No statement lines in this period</TableCell>
+                    </TableRow>
+                  ) : reconciliation?.statement_lines.map((line: BankStatementLine) => (
+                    <TableRow key={line.id} className={matchingLine?.id === line.id ? 'bg-blue-50' : ''}>
+                      <TableCell>{formatDate(line.line_date)}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell>{line.reference ?? ''}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(line.amount)}</TableCell>
+                      <TableCell>
+                        {line.match_type && (
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge variant="secondary">{matchTypeLabels[line.match_type]}</Badge>
+                            {line.matched_lines.map((book: BankBookLine) => (
+                              <span key={book.detail_id} className="text-sm">{book.entry_number}</span>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.match_type ? (
+                          <Button size="sm" variant="outline" onClick={() => handleUnmatch(line)}>Unmatch</Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setMatchingLine(line);
+                              setSelectedDetails([]);
+                              setContraLedgerId(null);
+                            }}
+                          >
+                            Match
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {matchingLine && (
+            <Card className="border-blue-200">
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  🔗 Match {formatAmount(matchingLine.amount)} on {formatDate(matchingLine.line_date)}
+                </CardTitle>
+                <CardDescription>
+                  Tick the uncleared vouchers below that make up this line, or post a new voucher for it
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-4">
+                  <span className="text-sm">Selected: <span className="font-mono">{formatAmount(selectedTotal)}</span></span>
+                  <Button onClick={handleMatch} disabled={selectedDetails.length === 0}>Match Selected</Button>
+                  <Button variant="ghost" onClick={() => setMatchingLine(null)}>Cancel</Button>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2 w-64">
+                    <Label>Other Ledger</Label>
+                    <Select
+                      value={contraLedgerId?.toString() || 'none'}
+                      onValueChange={(value: string) => setContraLedgerId(value === 'none' ? null : parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a ledger" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Select a ledger</SelectItem>
+                        {ledgers.filter((ledger: Ledger) => ledger.id !== ledgerId).map((ledger: Ledger) => (
+                          <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleCreateVoucher} disabled={contraLedgerId === null} className="bg-green-600 hover:bg-green-700">
+                    ➕ Post Voucher
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">📒 Uncleared Vouchers</CardTitle>
+              <CardDescription>Bank ledger lines up to the end date not yet matched or cleared</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {matchingLine && <TableHead></TableHead>}
+                    <TableHead>Date</TableHead>
+                    <TableHead>Voucher</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Cleared On</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {uncleared.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={matchingLine ? 6 : 5} className="text-center text-gray-500">Every voucher is cleared</TableCell>
+                    </TableRow>
+                  ) : uncleared.map((line: BankBookLine) => (
+                    <TableRow key={line.detail_id}>
+                      {matchingLine && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedDetails.includes(line.detail_id)}
+                            onCheckedChange={(checked: boolean | 'indeterminate') => toggleDetail(line.detail_id, checked === true)}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>{formatDate(line.entry_date)}</TableCell>
+                      <TableCell>{line.entry_number}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(line.amount)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="date"
+                            className="w-40"
+                            value={clearingDates[line.detail_id] ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setClearingDates((prev: Record<number, string>) => ({ ...prev, [line.detail_id]: e.target.value }))
+                            }
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!clearingDates[line.detail_id]}
+                            onClick={() => handleSetClearingDate(line)}
+                          >
+                            Clear
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { BankBookLine, BankOnlyItem, BankReconciliationStatement, Ledger } from '../../../server/src/schema';
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatAmount = (amount: number) => {
+  return amount < 0 ? `($${Math.abs(amount).toFixed(2)})` : `$${amount.toFixed(2)}`;
+};
+
+interface ReconcilingItem {
+  key: string;
+  date: Date;
+  label: string;
+  amount: number;
+}
+
+const bookItem = (line: BankBookLine): ReconcilingItem => ({
+  key: `book-${line.detail_id}`,
+  date: line.entry_date,
+  label: `${line.entry_number} ${line.description}`.trim(),
+  amount: Math.abs(line.amount)
+});
+
+const bankItem = (item: BankOnlyItem): ReconcilingItem => ({
+  key: `bank-${item.line_id}`,
+  date: item.line_date,
+  label: [item.reference, item.description].filter(Boolean).join(' '),
+  amount: item.amount
+});
+
+export function BankReconciliationReport() {
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [ledgerId, setLedgerId] = useState<number | null>(null);
+  const [asOnDate, setAsOnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [report, setReport] = useState<BankReconciliationStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    trpc.getLedgers.query()
+      .then((result: Ledger[]) => setLedgers(result.filter((ledger: Ledger) => ledger.ledger_type === 'bank')))
+      .catch((error: unknown) => {
+        setError('Failed to load ledgers');
+        console.error('Load ledgers error:', error);
+      });
+  }, []);
+
+  const handleGenerateReport = async () => {
+    if (ledgerId === null) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.getBankReconciliationStatement.query({
+        ledger_id: ledgerId,
+        as_on_date: new Date(asOnDate)
+      });
+      setReport(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate bank reconciliation statement');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // One section of reconciling items, with its total added or subtracted
+  const renderSection = (title: string, sign: '+' | '-', items: ReconcilingItem[], total: number) => (
+    <>
+      <TableRow className="font-medium">
+        <TableCell colSpan={2}>{sign === '+' ? 'Add' : 'Less'}: {title}</TableCell>
+        <TableCell></TableCell>
+        <TableCell className="text-right font-mono">{sign === '-' && total !== 0 ? `(${formatAmount(total)})` : formatAmount(total)}</TableCell>
+      </TableRow>
+      {items.map((item: ReconcilingItem) => (
+        <TableRow key={item.key}>
+          <TableCell className="pl-8">{formatDate(item.date)}</TableCell>
+          <TableCell>{item.label}</TableCell>
+          <TableCell className="text-right font-mono">{formatAmount(item.amount)}</TableCell>
+          <TableCell></TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🏦 Bank Reconciliation Statement</h2>
+        <p className="text-gray-600">Reconcile the balance as per books with the balance as per bank</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📊 Statement Generator</CardTitle>
+          <CardDescription>Vouchers are cleared by matching them to imported statement lines</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Bank Ledger</Label>
+              <Select
+                value={ledgerId?.toString() || 'none'}
+                onValueChange={(value: string) => setLedgerId(value === 'none' ? null : parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a bank ledger" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Select a bank ledger</SelectItem>
+                  {ledgers.map((ledger: Ledger) => (
+                    <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="brs-date">As On</Label>
+              <Input
+                id="brs-date"
+                type="date"
+                value={asOnDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAsOnDate(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGenerateReport} disabled={isLoading || ledgerId === null || !asOnDate} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {report.ledger_name} as on {formatDate(report.as_on_date)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={3}>Balance as per books</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(report.balance_as_per_books)}</TableCell>
+                </TableRow>
+                {renderSection('Deposits not yet cleared', '-', report.deposits_not_cleared.map(bookItem), report.deposits_not_cleared_total)}
+                {renderSection('Payments not yet presented', '+', report.payments_not_presented.map(bookItem), report.payments_not_presented_total)}
+                {renderSection('Bank credits not in books', '+', report.bank_credits_not_in_books.map(bankItem), report.bank_credits_not_in_books_total)}
+                {renderSection('Bank debits not in books', '-', report.bank_debits_not_in_books.map(bankItem), report.bank_debits_not_in_books_total)}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={3}>Balance as per bank</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(report.balance_as_per_bank)}</TableCell>
+                </TableRow>
+                {report.statement_balance !== null && (
+                  <>
+                    <TableRow>
+                      <TableCell colSpan={3}>Balance as per statement</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.statement_balance)}</TableCell>
+                    </TableRow>
+                    <TableRow className={report.difference ? 'text-red-700' : 'text-green-700'}>
+                      <TableCell colSpan={3}>Difference</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.difference ?? 0)}</TableCell>
+                    </TableRow>
+                  </>
+                )}
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import type { BillAllocation, BillwiseItem, BillwiseLedger, Ledger } from '../../../server/src/schema';
+import { isValidMoney } from '../../../server/src/money';
+
+const formatDate = (date: Date | null) => date ? date.toLocaleDateString(undefined, { timeZone: 'UTC' }) : 'Opening';
+
+const formatAmount = (amount: number) => {
+  return amount < 0 ? `$${Math.abs(amount).toFixed(2)} Cr` : `$${amount.toFixed(2)} Dr`;
+};
+
+interface BillSettlementProps {
+  canAllocate: boolean;
+}
+
+export function BillSettlement({ canAllocate }: BillSettlementProps) {
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [ledgerId, setLedgerId] = useState<number | null>(null);
+  const [billwise, setBillwise] = useState<BillwiseLedger | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Settlement being allocated, with the amount entered against each bill
+  const [settlement, setSettlement] = useState<BillwiseItem | null>(null);
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    trpc.getLedgers.query()
+      .then((result: Ledger[]) => setLedgers(result.filter((ledger: Ledger) => ledger.contact_id !== null)))
+      .catch((error: unknown) => {
+        setError('Failed to load ledgers');
+        console.error('Load ledgers error:', error);
+      });
+  }, []);
+
+  const loadBillwise = useCallback(async () => {
+    if (ledgerId === null) {
+      setBillwise(null);
+      return;
+    }
+
+    try {
+      setBillwise(await trpc.getBillwiseLedger.query({ ledger_id: ledgerId }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load bills');
+      console.error('Load bills error:', error);
+    }
+  }, [ledgerId]);
+
+  useEffect(() => {
+    setSettlement(null);
+    loadBillwise();
+  }, [loadBillwise]);
+
+  const items = billwise?.items ?? [];
+  const bills = items.filter((item: BillwiseItem) => item.kind !== 'settlement');
+  const settlements = items.filter((item: BillwiseItem) => item.kind === 'settlement');
+
+  // Bills on the other side of the settlement being allocated
+  const allocatableBills = settlement
+    ? bills.filter((bill: BillwiseItem) => bill.kind === 'bill' && (bill.amount > 0) !== (settlement.amount > 0))
+    : [];
+
+  const startAllocating = (item: BillwiseItem) => {
+    setSettlement(item);
+    setAmounts(Object.fromEntries(item.allocations.map((allocation: BillAllocation) => [allocation.bill_detail_id, allocation.amount.toString()])));
+    setError('');
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    if (!settlement || settlement.detail_id === null) {
+      return;
+    }
+
+    setError('');
+    setSuccess('');
+
+    const allocations = Object.entries(amounts)
+      .filter(([, amount]) => amount !== '' && Number(amount) !== 0)
+      .map(([billDetailId, amount]) => ({ bill_detail_id: Number(billDetailId), amount: Number(amount) }));
+
+    if (allocations.some(allocation => !isValidMoney(allocation.amount) || allocation.amount < 0)) {
+      setError('Allocated amounts must be positive with at most two decimal places');
+      return;
+    }
+
+    try {
+      await trpc.allocateBillSettlement.mutate({ detail_id: settlement.detail_id, allocations });
+      setSuccess(`Allocations of ${settlement.entry_number} saved`);
+      setSettlement(null);
+      await loadBillwise();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the allocations');
+      console.error('Allocation error:', error);
+    }
+  };
+
+  const billLabel = (detailId: number) => {
+    return items.find((item: BillwiseItem) => item.detail_id === detailId)?.entry_number ?? `#${detailId}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🧾 Bill Settlement</h2>
+        <p className="text-gray-600">Set receipts and payments against the sales and purchase bills they pay</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-2 max-w-sm">
+            <Label>Contact Ledger</Label>
+            <Select
+              value={ledgerId?.toString() || 'none'}
+              onValueChange={(value: string) => setLedgerId(value === 'none' ? null : parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a ledger" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Select a ledger</SelectItem>
+                {ledgers.map((ledger: Ledger) => (
+                  <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {billwise && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">📄 Bills</CardTitle>
+              <CardDescription>
+                Balance {formatAmount(billwise.balance)}. Unallocated settlements pay the oldest bills first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Voucher</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                    {settlement && <TableHead className="text-right">Allocate</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bills.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={settlement ? 6 : 5} className="text-center text-gray-500">No bills</TableCell>
+                    </TableRow>
+                  ) : bills.map((bill: BillwiseItem) => (
+                    <TableRow key={bill.detail_id ?? 'opening'}>
+                      <TableCell>{formatDate(bill.date)}</TableCell>
+                      <TableCell>{bill.entry_number ?? '-'}</TableCell>
+                      <TableCell>{bill.description}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(bill.amount)}</TableCell>
+                      <TableCell className="text-right font-mono">{bill.outstanding === 0 ? 'Settled' : formatAmount(bill.outstanding)}</TableCell>
+                      {settlement && (
+                        <TableCell className="text-right">
+                          {bill.detail_id !== null && allocatableBills.includes(bill) && (
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              className="w-32 ml-auto"
+                              value={amounts[bill.detail_id] ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setAmounts((prev: Record<number, string>) => ({ ...prev, [bill.detail_id as number]: e.target.value }))
+                              }
+                            />
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {settlement && (
+                <div className="flex items-center gap-4 mt-4">
+                  <span className="text-sm">
+                    Allocating {settlement.entry_number} of {formatAmount(settlement.amount)}
+                  </span>
+                  <Button onClick={handleSave}>💾 Save Allocations</Button>
+                  <Button variant="ghost" onClick={() => setSettlement(null)}>Cancel</Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">💳 Settlements</CardTitle>
+              <CardDescription>Receipts, payments, notes and journals on this ledger</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Voucher</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Allocated To</TableHead>
+                    {canAllocate && <TableHead></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settlements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canAllocate ? 6 : 5} className="text-center text-gray-500">No settlements</TableCell>
+                    </TableRow>
+                  ) : settlements.map((item: BillwiseItem) => (
+                    <TableRow key={item.detail_id} className={settlement?.detail_id === item.detail_id ? 'bg-blue-50' : ''}>
+                      <TableCell>{formatDate(item.date)}</TableCell>
+                      <TableCell>{item.entry_number}</TableCell>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(item.amount)}</TableCell>
+                      <TableCell className="text-sm">
+                        {item.allocations.length === 0
+                          ? 'Oldest bills'
+                          : item.allocations.map((allocation: BillAllocation) => `${billLabel(allocation.bill_detail_id)} $${allocation.amount.toFixed(2)}`).join(', ')}
+                      </TableCell>
+                      {canAllocate && (
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="outline" onClick={() => startAllocating(item)}>Allocate</Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { CashFlowActivity, CashFlowAdjustment, CashFlowLine, CashFlowSection, CashFlowStatement } from '../../../server/src/schema';
+
+const activityLabels: Record<CashFlowActivity, string> = {
+  operating: 'Operating Activities',
+  investing: 'Investing Activities',
+  financing: 'Financing Activities'
+};
+
+export function CashFlowReport() {
+  const [startDate, setStartDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [report, setReport] = useState<CashFlowStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.getCashFlowStatement.query({
+        start_date: new Date(startDate),
+        end_date: new Date(endDate)
+      });
+      setReport(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate cash flow statement');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    return amount < 0 ? `($${Math.abs(amount).toFixed(2)})` : `$${amount.toFixed(2)}`;
+  };
+
+  const renderSummary = (statement: CashFlowStatement) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+      <div className="rounded-md bg-gray-50 p-3">
+        <p className="text-gray-500">Opening cash and bank</p>
+        <p className="font-mono font-semibold">{formatAmount(statement.opening_cash)}</p>
+      </div>
+      <div className="rounded-md bg-gray-50 p-3">
+        <p className="text-gray-500">Net change</p>
+        <p className={`font-mono font-semibold ${statement.net_change < 0 ? 'text-red-700' : 'text-green-700'}`}>
+          {formatAmount(statement.net_change)}
+        </p>
+      </div>
+      <div className="rounded-md bg-gray-50 p-3">
+        <p className="text-gray-500">Closing cash and bank</p>
+        <p className="font-mono font-semibold">{formatAmount(statement.closing_cash)}</p>
+      </div>
+    </div>
+  );
+
+  const renderDirectSection = (section: CashFlowSection) => (
+    <Table key={section.activity}>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{activityLabels[section.activity]}</TableHead>
+          <TableHead className="text-right">Receipts</TableHead>
+          <TableHead className="text-right">Payments</TableHead>
+          <TableHead className="text-right">Net</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {section.lines.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center text-gray-500">No cash movements</TableCell>
+          </TableRow>
+        ) : section.lines.map((line: CashFlowLine) => (
+          <TableRow key={line.group_id}>
+            <TableCell>{line.group_name}</TableCell>
+            <TableCell className="text-right font-mono">{line.receipts ? formatAmount(line.receipts) : ''}</TableCell>
+            <TableCell className="text-right font-mono">{line.payments ? formatAmount(line.payments) : ''}</TableCell>
+            <TableCell className="text-right font-mono">{formatAmount(line.net)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow className="font-bold">
+          <TableCell colSpan={3}>Net cash from {activityLabels[section.activity].toLowerCase()}</TableCell>
+          <TableCell className="text-right font-mono">{formatAmount(section.total)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">💵 Cash Flow Report</h2>
+        <p className="text-gray-600">Generate cash flow statements</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📊 Cash Flow Statement Generator</CardTitle>
+          <CardDescription>
+            Cash and bank ledgers are the cash; other ledgers are classified by the cash flow activity of their group
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="cf-start">Start Date</Label>
+              <Input
+                id="cf-start"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cf-end">End Date</Label>
+              <Input
+                id="cf-end"
+                type="date"
+                value={endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGenerateReport} disabled={isLoading || !startDate || !endDate} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Cash Flow from {report.start_date.toLocaleDateString()} to {report.end_date.toLocaleDateString()}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {renderSummary(report)}
+
+            <Tabs defaultValue="direct">
+              <TabsList>
+                <TabsTrigger value="direct">Direct Method</TabsTrigger>
+                <TabsTrigger value="indirect">Indirect Method</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="direct" className="space-y-6">
+                {report.direct.map(renderDirectSection)}
+              </TabsContent>
+
+              <TabsContent value="indirect">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{activityLabels.operating}</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow className="font-medium">
+                      <TableCell>Net profit</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.indirect.net_profit)}</TableCell>
+                    </TableRow>
+                    {report.indirect.adjustments.map((adjustment: CashFlowAdjustment) => (
+                      <TableRow key={adjustment.group_id}>
+                        <TableCell className="pl-8">
+                          {adjustment.kind === 'working_capital' ? 'Change in' : 'Non-cash movements in'} {adjustment.group_name}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(adjustment.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-bold">
+                      <TableCell>Net cash from operating activities</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.indirect.operating_total)}</TableCell>
+                    </TableRow>
+                    <TableRow className="font-bold">
+                      <TableCell>Net cash from investing activities</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.indirect.investing_total)}</TableCell>
+                    </TableRow>
+                    <TableRow className="font-bold">
+                      <TableCell>Net cash from financing activities</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.indirect.financing_total)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow className="font-bold">
+                      <TableCell>Net change in cash</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(report.net_change)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
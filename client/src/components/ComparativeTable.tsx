@@ -0,0 +1,122 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ComparativeColumnHeader, ComparativeLine, ComparativeValues, Variance } from '../../../server/src/schema';
+import { comparativeLayoutLabels, comparativeLayouts, type ComparativeLayout } from '../../../server/src/periods';
+
+interface ComparativeLayoutSelectProps {
+  id: string;
+  value: ComparativeLayout;
+  onChange: (layout: ComparativeLayout) => void;
+}
+
+export function ComparativeLayoutSelect({ id, value, onChange }: ComparativeLayoutSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Columns</Label>
+      <Select value={value || 'year_over_year'} onValueChange={(layout: string) => onChange(layout as ComparativeLayout)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {comparativeLayouts.map((layout: ComparativeLayout) => (
+            <SelectItem key={layout} value={layout}>{comparativeLayoutLabels[layout]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface ComparativeRow {
+  label: string;
+  values: ComparativeValues;
+}
+
+interface ComparativeTableProps {
+  title: string;
+  columns: ComparativeColumnHeader[];
+  lines: ComparativeLine[];
+  extraRows?: ComparativeRow[];
+  totals?: ComparativeRow[];
+  // Signed line amounts show their side instead of a minus sign
+  signed?: boolean;
+}
+
+// One amount column per period, each after the first followed by its
+// change from the previous period in amount and percent
+export function ComparativeTable({ title, columns, lines, extraRows = [], totals = [], signed = false }: ComparativeTableProps) {
+  const formatAmount = (amount: number, showSide = false) => {
+    if (showSide && amount !== 0) {
+      return `$${Math.abs(amount).toFixed(2)} ${amount > 0 ? 'Dr' : 'Cr'}`;
+    }
+    return amount < 0 ? `($${Math.abs(amount).toFixed(2)})` : `$${amount.toFixed(2)}`;
+  };
+
+  const formatPercent = (variance: Variance) => variance.percent === null ? '—' : `${variance.percent.toFixed(2)}%`;
+
+  const varianceClass = (variance: Variance) => variance.amount < 0 ? 'text-red-700' : variance.amount > 0 ? 'text-green-700' : 'text-gray-500';
+
+  const renderValueCells = (values: ComparativeValues, showSide = false) => values.amounts.flatMap((amount: number, index: number) => {
+    const variance = values.variances[index];
+    const cells = [<TableCell key={`amount-${index}`} className="text-right font-mono">{formatAmount(amount, showSide)}</TableCell>];
+    if (index > 0) {
+      cells.push(
+        <TableCell key={`variance-${index}`} className={`text-right font-mono text-xs ${variance ? varianceClass(variance) : ''}`}>
+          {variance ? formatAmount(variance.amount) : ''}
+        </TableCell>,
+        <TableCell key={`percent-${index}`} className={`text-right font-mono text-xs ${variance ? varianceClass(variance) : ''}`}>
+          {variance ? formatPercent(variance) : ''}
+        </TableCell>
+      );
+    }
+    return cells;
+  });
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead>Group</TableHead>
+          {columns.map((column: ComparativeColumnHeader, index: number) => [
+            <TableHead key={`amount-${index}`} className="text-right whitespace-nowrap">{column.label}</TableHead>,
+            ...(index > 0 ? [
+              <TableHead key={`variance-${index}`} className="text-right">Change</TableHead>,
+              <TableHead key={`percent-${index}`} className="text-right">%</TableHead>
+            ] : [])
+          ])}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.length === 0 && extraRows.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={columns.length * 3} className="text-center text-gray-500">Nothing posted in these periods</TableCell>
+          </TableRow>
+        ) : lines.map((line: ComparativeLine) => (
+          <TableRow key={line.ledger_id}>
+            <TableCell>{line.ledger_name}</TableCell>
+            <TableCell className="text-gray-500">{line.group_name}</TableCell>
+            {renderValueCells(line, signed)}
+          </TableRow>
+        ))}
+        {extraRows.map((row: ComparativeRow) => (
+          <TableRow key={row.label}>
+            <TableCell colSpan={2} className="italic">{row.label}</TableCell>
+            {renderValueCells(row.values)}
+          </TableRow>
+        ))}
+      </TableBody>
+      {totals.length > 0 && (
+        <TableFooter>
+          {totals.map((row: ComparativeRow) => (
+            <TableRow key={row.label} className="font-bold">
+              <TableCell colSpan={2}>{row.label}</TableCell>
+              {renderValueCells(row.values)}
+            </TableRow>
+          ))}
+        </TableFooter>
+      )}
+    </Table>
+  );
+}
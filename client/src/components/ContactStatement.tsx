@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type {
+  Contact,
+  ContactStatement as ContactStatementData,
+  ExportFormat,
+  LedgerStatementLine
+} from '../../../server/src/schema';
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatDateForInput = (date: Date) => date.toISOString().split('T')[0];
+
+const formatBalance = (amount: number, balanceType: 'debit' | 'credit') => {
+  return `$${amount.toFixed(2)} ${balanceType === 'debit' ? 'Dr' : 'Cr'}`;
+};
+
+export function ContactStatement() {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [contactId, setContactId] = useState<number | null>(null);
+  const [startDate, setStartDate] = useState(() => new Date(new Date().getFullYear(), 0, 1));
+  const [endDate, setEndDate] = useState(() => new Date());
+  const [statement, setStatement] = useState<ContactStatementData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    trpc.getContacts.query()
+      .then(setContacts)
+      .catch((error: unknown) => {
+        setError('Failed to load contacts');
+        console.error('Load contacts error:', error);
+      });
+  }, []);
+
+  const handleGenerateStatement = async () => {
+    if (contactId === null) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setStatement(await trpc.getContactStatement.query({ contact_id: contactId, start_date: startDate, end_date: endDate }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate statement');
+      console.error('Statement error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">📨 Statement of Account</h2>
+        <p className="text-gray-600">Every voucher with a customer or supplier and the balance due</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📊 Statement Parameters</CardTitle>
+          <CardDescription>Covers all the ledgers linked to the contact</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="statement-contact">Contact</Label>
+              <Select
+                value={contactId?.toString() || 'none'}
+                onValueChange={(value: string) => setContactId(value === 'none' ? null : parseInt(value))}
+              >
+                <SelectTrigger id="statement-contact">
+                  <SelectValue placeholder="Select a contact" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Select a contact</SelectItem>
+                  {contacts.map((contact: Contact) => (
+                    <SelectItem key={contact.id} value={contact.id.toString()}>{contact.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statement-start">Start Date</Label>
+              <Input
+                id="statement-start"
+                type="date"
+                value={formatDateForInput(startDate)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(new Date(e.target.value))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statement-end">End Date</Label>
+              <Input
+                id="statement-end"
+                type="date"
+                value={formatDateForInput(endDate)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(new Date(e.target.value))}
+              />
+            </div>
+
+            <Button onClick={handleGenerateStatement} disabled={isLoading || contactId === null} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Statement'}
+            </Button>
+          </div>
+
+          <div className="mt-4">
+            <ExportButtons
+              formats={['pdf', 'html']}
+              disabled={contactId === null}
+              onExport={(format: ExportFormat) => trpc.exportContactStatement.query({
+                contact_id: contactId as number,
+                start_date: startDate,
+                end_date: endDate,
+                format
+              })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {statement && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">📋 {statement.contact.name}</CardTitle>
+            <CardDescription>
+              {formatDate(statement.start_date)} to {formatDate(statement.end_date)}
+              {statement.ledger_names.length > 0 && ` · ${statement.ledger_names.join(', ')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry No.</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="font-medium">
+                  <TableCell colSpan={5}>Opening Balance</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatBalance(statement.opening_balance, statement.opening_balance_type)}
+                  </TableCell>
+                </TableRow>
+                {statement.lines.map((line: LedgerStatementLine) => (
+                  <TableRow key={line.entry_id}>
+                    <TableCell>{formatDate(line.entry_date)}</TableCell>
+                    <TableCell className="font-mono">{line.entry_number}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-2 capitalize">{line.voucher_type.replace('_', ' ')}</Badge>
+                      {line.contra_ledgers.join(', ') || line.description}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.debit_amount > 0 ? `$${line.debit_amount.toFixed(2)}` : ''}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.credit_amount > 0 ? `$${line.credit_amount.toFixed(2)}` : ''}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatBalance(line.balance, line.balance_type)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={3}>Closing Balance Due</TableCell>
+                  <TableCell className="text-right font-mono">${statement.total_debit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">${statement.total_credit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatBalance(statement.closing_balance, statement.closing_balance_type)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -10,11 +10,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { ExportButtons } from '@/components/ExportButtons';
 import { trpc } from '@/utils/trpc';
-import type { Contact, CreateContactInput, UpdateContactInput } from '../../../server/src/schema';
+import type { Contact, ContactOutstanding, CreateContactInput, ExportFormat, UpdateContactInput } from '../../../server/src/schema';
+import { gstinStateCode, isValidTaxId } from '../../../server/src/taxes';
 
-export function ContactsManager() {
+interface ContactsManagerProps {
+  canViewOutstanding: boolean;
+}
+
+export function ContactsManager({ canViewOutstanding }: ContactsManagerProps) {
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [outstanding, setOutstanding] = useState<Map<number, ContactOutstanding>>(new Map());
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Contact[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -28,18 +35,25 @@ export function ContactsManager() {
     contact_type: 'customer',
     phone: null,
     email: null,
-    address: null
+    address: null,
+    tax_id: null,
+    state_code: null
   });
 
   const loadContacts = useCallback(async () => {
     try {
       const result = await trpc.getContacts.query();
       setContacts(result);
+
+      if (canViewOutstanding) {
+        const totals = await trpc.getContactOutstanding.query();
+        setOutstanding(new Map(totals.map((total: ContactOutstanding) => [total.contact_id, total])));
+      }
     } catch (error) {
       setError('Failed to load contacts');
       console.error('Load contacts error:', error);
     }
-  }, []);
+  }, [canViewOutstanding]);
 
   useEffect(() => {
     loadContacts();
@@ -70,7 +84,9 @@ export function ContactsManager() {
       contact_type: 'customer',
       phone: null,
       email: null,
-      address: null
+      address: null,
+      tax_id: null,
+      state_code: null
     });
     setEditingContact(null);
   };
@@ -115,7 +131,9 @@ export function ContactsManager() {
       contact_type: contact.contact_type,
       phone: contact.phone,
       email: contact.email,
-      address: contact.address
+      address: contact.address,
+      tax_id: contact.tax_id,
+      state_code: contact.state_code
     });
     setIsDialogOpen(true);
   };
@@ -144,6 +162,9 @@ export function ContactsManager() {
   };
 
   const displayedContacts = searchResults.length > 0 ? searchResults : contacts;
+  const hasInvalidTaxId = !!formData.tax_id && !isValidTaxId(formData.tax_id);
+  // A GSTIN carries its state, so the state code is only entered for other contacts
+  const hasRegisteredState = gstinStateCode(formData.tax_id || null) !== null;
 
   return (
     <div className="space-y-6">
@@ -236,11 +257,42 @@ export function ContactsManager() {
                 />
               </div>
 
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="tax-id">GSTIN / VAT Number</Label>
+                  <Input
+                    id="tax-id"
+                    value={formData.tax_id || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      const taxId = e.target.value.trim().toUpperCase() || null;
+                      setFormData((prev: CreateContactInput) => ({ ...prev, tax_id: taxId, state_code: gstinStateCode(taxId) ?? prev.state_code }));
+                    }}
+                    placeholder="e.g. 27AAPFU0939F1ZV"
+                  />
+                  {hasInvalidTaxId && (
+                    <p className="text-xs text-red-600">Not a valid GSTIN or VAT number</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="state-code">State Code</Label>
+                  <Input
+                    id="state-code"
+                    value={formData.state_code || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateContactInput) => ({ ...prev, state_code: e.target.value.trim().toUpperCase() || null }))
+                    }
+                    placeholder="e.g. 27"
+                    maxLength={2}
+                    disabled={hasRegisteredState}
+                  />
+                </div>
+              </div>
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isLoading}>
+                <Button type="submit" disabled={isLoading || hasInvalidTaxId}>
                   {isLoading ? 'Saving...' : (editingContact ? 'Update' : 'Create')}
                 </Button>
               </DialogFooter>
@@ -300,6 +352,7 @@ export function ContactsManager() {
           {searchResults.length > 0 && (
             <CardDescription>Showing search results for "{searchQuery}"</CardDescription>
           )}
+          <ExportButtons onExport={(format: ExportFormat) => trpc.exportContacts.query({ format })} />
         </CardHeader>
         <CardContent>
           {displayedContacts.length === 0 ? (
@@ -317,6 +370,13 @@ export function ContactsManager() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Address</TableHead>
+                  <TableHead>Tax ID</TableHead>
+                  {canViewOutstanding && (
+                    <>
+                      <TableHead className="text-right">Receivable</TableHead>
+                      <TableHead className="text-right">Payable</TableHead>
+                    </>
+                  )}
                   <TableHead>Created</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -333,6 +393,16 @@ export function ContactsManager() {
                     <TableCell>{contact.phone || '-'}</TableCell>
                     <TableCell>{contact.email || '-'}</TableCell>
                     <TableCell>{contact.address || '-'}</TableCell>
+                    <TableCell>
+                      {contact.tax_id || '-'}
+                      {contact.state_code && <span className="text-xs text-gray-500"> (state {contact.state_code})</span>}
+                    </TableCell>
+                    {canViewOutstanding && (
+                      <>
+                        <TableCell className="text-right font-mono">${(outstanding.get(contact.id)?.receivable ?? 0).toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">${(outstanding.get(contact.id)?.payable ?? 0).toFixed(2)}</TableCell>
+                      </>
+                    )}
                     <TableCell>{contact.created_at.toLocaleDateString()}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
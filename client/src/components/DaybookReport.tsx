@@ -6,28 +6,26 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ExportButtons } from '@/components/ExportButtons';
 import { trpc } from '@/utils/trpc';
-import type { DaybookReportInput } from '../../../server/src/schema';
-
-interface ReportData {
-  entries: Array<{
-    id: number;
-    entry_number: string;
-    entry_date: Date;
-    description: string;
-    total_amount: number;
-  }>;
-  summary: {
-    total_entries: number;
-    total_amount: number;
-  };
-}
+import type {
+  DaybookReportInput,
+  DaybookReport as DaybookReportData,
+  DaybookPeriod,
+  DaybookVoucher,
+  DaybookLine,
+  ExportFormat,
+  VoucherType
+} from '../../../server/src/schema';
+import { voucherTypeLabels, voucherTypes } from '../../../server/src/vouchers';
 
 export function DaybookReport() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [reportData, setReportData] = useState<DaybookReportData | null>(null);
 
   const [formData, setFormData] = useState<DaybookReportInput>({
     start_date: new Date(),
@@ -42,9 +40,7 @@ export function DaybookReport() {
     
     try {
       const result = await trpc.getDaybookReport.query(formData);
-      // Handle the result properly - we don't know the actual structure yet
-      // so we'll set it as unknown first, then cast or transform as needed
-      setReportData(result as unknown as ReportData);
+      setReportData(result);
     } catch (error) {
       setError('Failed to generate daybook report');
       console.error('Report error:', error);
@@ -57,6 +53,36 @@ export function DaybookReport() {
     return date.toISOString().split('T')[0];
   };
 
+  const formatAmount = (amount: number) => amount === 0 ? '' : `$${amount.toFixed(2)}`;
+
+  const formatPeriod = (period: DaybookPeriod) => {
+    if (reportData?.period === 'monthly') {
+      return period.period_start.toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    }
+    if (reportData?.period === 'weekly') {
+      return `Week of ${period.period_start.toLocaleDateString(undefined, { timeZone: 'UTC' })}`;
+    }
+    return period.period_start.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  };
+
+  const renderVoucherRows = (voucher: DaybookVoucher) => voucher.lines.map((line: DaybookLine, index: number) => (
+    <TableRow key={`${voucher.entry_id}-${index}`}>
+      <TableCell>{index === 0 ? voucher.entry_date.toLocaleDateString(undefined, { timeZone: 'UTC' }) : ''}</TableCell>
+      <TableCell className="font-mono">{index === 0 ? voucher.entry_number : ''}</TableCell>
+      <TableCell>
+        {index === 0 && <Badge variant="outline">{voucherTypeLabels[voucher.voucher_type]}</Badge>}
+      </TableCell>
+      <TableCell>
+        <div>{line.ledger_name}</div>
+        {(line.description || (index === 0 && voucher.description)) && (
+          <div className="text-xs text-gray-500">{line.description || voucher.description}</div>
+        )}
+      </TableCell>
+      <TableCell className="text-right font-mono">{formatAmount(line.debit_amount)}</TableCell>
+      <TableCell className="text-right font-mono">{formatAmount(line.credit_amount)}</TableCell>
+    </TableRow>
+  ));
+
   return (
     <div className="space-y-6">
       <div>
@@ -121,6 +147,29 @@ export function DaybookReport() {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="voucher-type">Voucher Type</Label>
+              <Select
+                value={formData.voucher_type || 'all'}
+                onValueChange={(value: string) =>
+                  setFormData((prev: DaybookReportInput) => ({
+                    ...prev,
+                    voucher_type: value === 'all' ? undefined : value as VoucherType
+                  }))
+                }
+              >
+                <SelectTrigger id="voucher-type">
+                  <SelectValue placeholder="All voucher types" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All voucher types</SelectItem>
+                  {voucherTypes.map((voucherType: VoucherType) => (
+                    <SelectItem key={voucherType} value={voucherType}>{voucherTypeLabels[voucherType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="day-summary">Day Summary</Label>
               <div className="flex items-center space-x-2">
@@ -136,10 +185,13 @@ export function DaybookReport() {
             </div>
           </div>
 
-          <div className="mt-4">
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
             <Button onClick={handleGenerateReport} disabled={isLoading} className="bg-orange-600 hover:bg-orange-700">
               {isLoading ? 'Generating...' : '📊 Generate Report'}
             </Button>
+            <ExportButtons
+              onExport={(format: ExportFormat) => trpc.exportReport.query({ format, report: { type: 'daybook', filter: formData } })}
+            />
           </div>
         </CardContent>
       </Card>
@@ -157,17 +209,49 @@ export function DaybookReport() {
           <CardHeader>
             <CardTitle className="text-lg">📋 Daybook Report Results</CardTitle>
             <CardDescription>
-              Report for {formData.start_date.toLocaleDateString()} to {formData.end_date.toLocaleDateString()}
+              Report for {reportData.start_date.toLocaleDateString()} to {reportData.end_date.toLocaleDateString()}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-center py-8">
-              <p className="text-gray-500">Report data will be displayed here once the backend returns the actual structure.</p>
-              <p className="text-sm text-gray-400 mt-2">
-                The current implementation shows a placeholder. The actual report will contain transaction details, 
-                summaries, and totals based on the selected parameters.
-              </p>
-            </div>
+            {reportData.periods.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No vouchers in this period.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry No.</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Ledger</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reportData.periods.flatMap((period: DaybookPeriod) => [
+                    ...period.vouchers.flatMap(renderVoucherRows),
+                    <TableRow key={`${period.period_start.toISOString()}-total`} className="bg-gray-50 font-medium">
+                      <TableCell colSpan={4}>
+                        {formatPeriod(period)} · {period.voucher_count} {period.voucher_count === 1 ? 'voucher' : 'vouchers'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">${period.total_debit.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">${period.total_credit.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ])}
+                </TableBody>
+                <TableFooter>
+                  <TableRow className="font-bold">
+                    <TableCell colSpan={4}>
+                      Total · {reportData.totals.voucher_count} {reportData.totals.voucher_count === 1 ? 'voucher' : 'vouchers'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">${reportData.totals.total_debit.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">${reportData.totals.total_credit.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { downloadFile } from '@/utils/download';
+import type { ExportFile, ExportFormat } from '../../../server/src/schema';
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  pdf: 'PDF',
+  html: 'HTML'
+};
+
+const allFormats = Object.keys(formatLabels) as ExportFormat[];
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => Promise<ExportFile>;
+  disabled?: boolean;
+  // Formats offered, all of them by default
+  formats?: ExportFormat[];
+}
+
+export function ExportButtons({ onExport, disabled = false, formats = allFormats }: ExportButtonsProps) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    setError('');
+
+    try {
+      downloadFile(await onExport(format));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Export failed');
+      console.error('Export error:', error);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600">Export:</span>
+      {formats.map((format: ExportFormat) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          onClick={() => handleExport(format)}
+          disabled={disabled || exportingFormat !== null}
+        >
+          {exportingFormat === format ? 'Exporting...' : `⬇️ ${formatLabels[format]}`}
+        </Button>
+      ))}
+      {error && <span className="text-sm text-red-700">{error}</span>}
+    </div>
+  );
+}
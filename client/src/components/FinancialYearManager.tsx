@@ -10,16 +10,54 @@ import { Switch } from '@/components/ui/switch';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
-import type { FinancialYear, CreateFinancialYearInput } from '../../../server/src/schema';
+import type { FinancialYear, CreateFinancialYearInput, Ledger, LedgerOpeningBalance, LockedPeriod } from '../../../server/src/schema';
 
-export function FinancialYearManager() {
+interface YearMonth {
+  year: number;
+  month: number;
+}
+
+// Calendar months a financial year spans, in order
+const monthsOf = (fy: FinancialYear): YearMonth[] => {
+  const months: YearMonth[] = [];
+  let year = fy.start_date.getUTCFullYear();
+  let month = fy.start_date.getUTCMonth() + 1;
+  const lastYear = fy.end_date.getUTCFullYear();
+  const lastMonth = fy.end_date.getUTCMonth() + 1;
+
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push({ year, month });
+    month = month === 12 ? 1 : month + 1;
+    year = month === 1 ? year + 1 : year;
+  }
+  return months;
+};
+
+const formatMonth = ({ year, month }: YearMonth) => {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+};
+
+interface FinancialYearManagerProps {
+  canManageYears: boolean;
+}
+
+export function FinancialYearManager({ canManageYears }: FinancialYearManagerProps) {
   const [financialYears, setFinancialYears] = useState<FinancialYear[]>([]);
   const [activeYear, setActiveYear] = useState<FinancialYear | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [closingYear, setClosingYear] = useState<FinancialYear | null>(null);
+  const [retainedEarningsLedgerId, setRetainedEarningsLedgerId] = useState(0);
+  const [openingsYear, setOpeningsYear] = useState<FinancialYear | null>(null);
+  const [openingBalances, setOpeningBalances] = useState<LedgerOpeningBalance[]>([]);
+  const [lockingYear, setLockingYear] = useState<FinancialYear | null>(null);
+  const [lockDate, setLockDateValue] = useState('');
+  const [lockedPeriods, setLockedPeriods] = useState<LockedPeriod[]>([]);
 
   const [formData, setFormData] = useState<CreateFinancialYearInput>({
     name: '',
@@ -77,7 +115,7 @@ export function FinancialYearManager() {
         loadData();
       }
     } catch (error) {
-      setError('Failed to create financial year');
+      setError(error instanceof Error ? error.message : 'Failed to create financial year');
       console.error('Submit error:', error);
     } finally {
       setIsLoading(false);
@@ -110,13 +148,122 @@ export function FinancialYearManager() {
         loadData();
       }
     } catch (error) {
-      setError('Failed to delete financial year');
+      setError(error instanceof Error ? error.message : 'Failed to delete financial year');
       console.error('Delete error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const openCloseDialog = async (year: FinancialYear) => {
+    setClosingYear(year);
+    setRetainedEarningsLedgerId(0);
+    try {
+      setLedgers(await trpc.getLedgers.query());
+    } catch (error) {
+      setError('Failed to load ledgers');
+      console.error('Load ledgers error:', error);
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closingYear) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const closedYear = await trpc.closeFinancialYear.mutate({
+        id: closingYear.id,
+        retained_earnings_ledger_id: retainedEarningsLedgerId
+      });
+      replaceYear(closedYear);
+      setSuccess(`${closedYear.name} closed and balances carried forward`);
+      setClosingYear(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to close financial year');
+      console.error('Close year error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showOpeningBalances = async (year: FinancialYear) => {
+    try {
+      setOpeningBalances(await trpc.getFinancialYearOpeningBalances.query({ id: year.id }));
+      setOpeningsYear(year);
+    } catch (error) {
+      setError('Failed to load opening balances');
+      console.error('Load opening balances error:', error);
+    }
+  };
+
+  const replaceYear = (updated: FinancialYear) => {
+    setFinancialYears((prev: FinancialYear[]) =>
+      prev.map((fy: FinancialYear) => fy.id === updated.id ? updated : fy)
+    );
+  };
+
+  const openLocksDialog = async (year: FinancialYear) => {
+    setLockingYear(year);
+    setLockDateValue(year.lock_date ? formatDateForInput(year.lock_date) : '');
+    try {
+      setLockedPeriods(await trpc.getLockedPeriods.query());
+    } catch (error) {
+      setError('Failed to load locked periods');
+      console.error('Load locked periods error:', error);
+    }
+  };
+
+  const handleSetLockDate = async (value: string) => {
+    if (!lockingYear) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const updated = await trpc.setLockDate.mutate({
+        id: lockingYear.id,
+        lock_date: value ? new Date(value) : null
+      });
+      replaceYear(updated);
+      setLockingYear(updated);
+      setLockDateValue(value);
+      setSuccess(value ? `Entries up to ${value} locked in ${updated.name}` : `Lock date of ${updated.name} cleared`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to set lock date');
+      console.error('Set lock date error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isMonthLocked = ({ year, month }: YearMonth) => {
+    return lockedPeriods.some((period: LockedPeriod) => period.year === year && period.month === month);
+  };
+
+  const handleToggleMonth = async (period: YearMonth, locked: boolean) => {
+    if (!lockingYear) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await trpc.setPeriodLock.mutate({ id: lockingYear.id, ...period, locked });
+      setLockedPeriods(await trpc.getLockedPeriods.query());
+      setSuccess(`${formatMonth(period)} ${locked ? 'locked' : 'unlocked'}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update period lock');
+      console.error('Set period lock error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString();
   };
@@ -250,6 +397,132 @@ export function FinancialYearManager() {
         </Alert>
       )}
 
+      {/* Close Year Dialog */}
+      <Dialog open={closingYear !== null} onOpenChange={(open: boolean) => { if (!open) setClosingYear(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Close {closingYear?.name}</DialogTitle>
+            <DialogDescription>
+              Asset and liability balances are carried into the next financial year. The year's profit or loss is
+              transferred to the retained earnings ledger; income and expense ledgers start the next year at zero.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleClose} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="retained-earnings">Retained Earnings Ledger *</Label>
+              <Select
+                value={retainedEarningsLedgerId.toString()}
+                onValueChange={(value: string) => setRetainedEarningsLedgerId(parseInt(value))}
+              >
+                <SelectTrigger id="retained-earnings" className="w-full">
+                  <SelectValue placeholder="Select ledger" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ledgers.map((ledger: Ledger) => (
+                    <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                      {ledger.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setClosingYear(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || retainedEarningsLedgerId === 0}>
+                {isLoading ? 'Closing...' : 'Close Year'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Period Locks Dialog */}
+      <Dialog open={lockingYear !== null} onOpenChange={(open: boolean) => { if (!open) setLockingYear(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Period Locks of {lockingYear?.name}</DialogTitle>
+            <DialogDescription>
+              Vouchers dated on or before the lock date, or in a locked month, cannot be created, corrected or deleted
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lock-date">Lock Date</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="lock-date"
+                  type="date"
+                  value={lockDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLockDateValue(e.target.value)}
+                />
+                <Button type="button" disabled={isLoading || !lockDate} onClick={() => handleSetLockDate(lockDate)}>
+                  Lock
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoading || !lockingYear?.lock_date}
+                  onClick={() => handleSetLockDate('')}
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Locked Months</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto">
+                {lockingYear && monthsOf(lockingYear).map((period: YearMonth) => (
+                  <div key={`${period.year}-${period.month}`} className="flex items-center justify-between rounded border px-3 py-2">
+                    <span className="text-sm">{formatMonth(period)}</span>
+                    <Switch
+                      checked={isMonthLocked(period)}
+                      disabled={isLoading}
+                      onCheckedChange={(checked: boolean) => handleToggleMonth(period, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Opening Balances Dialog */}
+      <Dialog open={openingsYear !== null} onOpenChange={(open: boolean) => { if (!open) setOpeningsYear(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Opening Balances of {openingsYear?.name}</DialogTitle>
+            <DialogDescription>
+              Balances carried forward from the previous year, or each ledger's own opening balance
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ledger</TableHead>
+                  <TableHead className="text-right">Opening Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openingBalances.map((opening: LedgerOpeningBalance) => (
+                  <TableRow key={opening.ledger_id}>
+                    <TableCell>{opening.ledger_name}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      ${opening.opening_balance.toFixed(2)} {opening.balance_type === 'debit' ? 'Dr' : 'Cr'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Financial Years Table */}
       <Card>
         <CardHeader>
@@ -281,9 +554,17 @@ export function FinancialYearManager() {
                     <TableCell>{formatDate(fy.start_date)}</TableCell>
                     <TableCell>{formatDate(fy.end_date)}</TableCell>
                     <TableCell>
-                      <Badge className={fy.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
-                        {fy.is_active ? 'Active' : 'Inactive'}
-                      </Badge>
+                      <div className="flex gap-2">
+                        <Badge className={fy.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {fy.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                        {fy.is_closed && (
+                          <Badge className="bg-amber-100 text-amber-800">Closed</Badge>
+                        )}
+                        {fy.lock_date && (
+                          <Badge className="bg-slate-100 text-slate-800">Locked to {formatDate(fy.lock_date)}</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>{formatDate(fy.created_at)}</TableCell>
                     <TableCell>
@@ -298,6 +579,19 @@ export function FinancialYearManager() {
                             ✅ Set Active
                           </Button>
                         )}
+                        <Button variant="outline" size="sm" onClick={() => showOpeningBalances(fy)}>
+                          📊 Openings
+                        </Button>
+                        {canManageYears && (
+                          <Button variant="outline" size="sm" onClick={() => openLocksDialog(fy)}>
+                            🔐 Locks
+                          </Button>
+                        )}
+                        {canManageYears && !fy.is_closed && (
+                          <Button variant="outline" size="sm" onClick={() => openCloseDialog(fy)}>
+                            🔒 Close Year
+                          </Button>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
@@ -9,10 +9,30 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import { trpc } from '@/utils/trpc';
-import type { Group, CreateGroupInput, UpdateGroupInput } from '../../../server/src/schema';
+import type { Group, GroupNature, CashFlowActivity, GroupTreeNode, CreateGroupInput, UpdateGroupInput, ChartTemplateId } from '../../../server/src/schema';
+import { chartTemplates, chartTemplateIds } from '../../../server/src/charts';
 
-export function GroupManager() {
+const natureLabels: Record<GroupNature, string> = {
+  asset: 'Asset',
+  liability: 'Liability',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expense'
+};
+
+const activityLabels: Record<CashFlowActivity, string> = {
+  operating: 'Operating',
+  investing: 'Investing',
+  financing: 'Financing'
+};
+
+interface GroupManagerProps {
+  canApplyTemplates: boolean;
+}
+
+export function GroupManager({ canApplyTemplates }: GroupManagerProps) {
   const [groups, setGroups] = useState<Group[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Group[]>([]);
@@ -21,11 +41,18 @@ export function GroupManager() {
   const [success, setSuccess] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingGroup, setEditingGroup] = useState<Group | null>(null);
+  const [template, setTemplate] = useState<ChartTemplateId>('indian_primary');
+  const [mergingGroup, setMergingGroup] = useState<Group | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState(0);
+  const [treeDate, setTreeDate] = useState(new Date());
+  const [tree, setTree] = useState<GroupTreeNode[]>([]);
 
   const [formData, setFormData] = useState<CreateGroupInput>({
     name: '',
     description: null,
-    parent_group_id: undefined
+    parent_group_id: undefined,
+    nature: null,
+    cash_flow_activity: null
   });
 
   const loadGroups = useCallback(async () => {
@@ -42,6 +69,20 @@ export function GroupManager() {
     loadGroups();
   }, [loadGroups]);
 
+  const loadTree = useCallback(async () => {
+    try {
+      setTree(await trpc.getGroupTree.query({ as_on_date: treeDate }));
+    } catch (error) {
+      setError('Failed to load group tree');
+      console.error('Load group tree error:', error);
+    }
+  }, [treeDate]);
+
+  // The tree follows every change to the group list
+  useEffect(() => {
+    loadTree();
+  }, [loadTree, groups]);
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
     
@@ -65,7 +106,9 @@ export function GroupManager() {
     setFormData({
       name: '',
       description: null,
-      parent_group_id: undefined
+      parent_group_id: undefined,
+      nature: null,
+      cash_flow_activity: null
     });
     setEditingGroup(null);
   };
@@ -80,7 +123,8 @@ export function GroupManager() {
       if (editingGroup) {
         const updateData: UpdateGroupInput = {
           id: editingGroup.id,
-          ...formData
+          ...formData,
+          parent_group_id: formData.parent_group_id ?? null
         };
         const updatedGroup = await trpc.updateGroup.mutate(updateData);
         setGroups((prev: Group[]) => 
@@ -96,7 +140,7 @@ export function GroupManager() {
       resetForm();
       setIsDialogOpen(false);
     } catch (error) {
-      setError(editingGroup ? 'Failed to update group' : 'Failed to create group');
+      setError(error instanceof Error ? error.message : (editingGroup ? 'Failed to update group' : 'Failed to create group'));
       console.error('Submit error:', error);
     } finally {
       setIsLoading(false);
@@ -108,7 +152,9 @@ export function GroupManager() {
     setFormData({
       name: group.name,
       description: group.description,
-      parent_group_id: group.parent_group_id || undefined
+      parent_group_id: group.parent_group_id || undefined,
+      nature: group.nature,
+      cash_flow_activity: group.cash_flow_activity
     });
     setIsDialogOpen(true);
   };
@@ -120,21 +166,97 @@ export function GroupManager() {
       setGroups((prev: Group[]) => prev.filter((g: Group) => g.id !== id));
       setSuccess('Group deleted successfully');
     } catch (error) {
-      setError('Failed to delete group');
+      setError(error instanceof Error ? error.message : 'Failed to delete group');
       console.error('Delete error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleApplyTemplate = async () => {
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const result = await trpc.applyChartTemplate.mutate({ template });
+      setSuccess(`${chartTemplates[template].name} applied: ${result.groups_created} groups and ${result.ledgers_created} ledgers created`);
+      loadGroups();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to apply chart of accounts');
+      console.error('Apply template error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const getParentGroupName = (parentId: number | null) => {
     if (!parentId) return '-';
     const parent = groups.find((g: Group) => g.id === parentId);
     return parent ? parent.name : 'Unknown';
   };
 
+  // Whether the group is the given group or lies anywhere below it
+  const isWithin = (group: Group, ancestor: Group) => {
+    const visited = new Set<number>();
+    let current: Group | undefined = group;
+    while (current && !visited.has(current.id)) {
+      if (current.id === ancestor.id) return true;
+      visited.add(current.id);
+      current = groups.find((g: Group) => g.id === current?.parent_group_id);
+    }
+    return false;
+  };
+
+  // A group cannot be placed under itself or one of its sub-groups
   const getAvailableParentGroups = () => {
-    return groups.filter((g: Group) => editingGroup ? g.id !== editingGroup.id : true);
+    return groups.filter((g: Group) => editingGroup ? !isWithin(g, editingGroup) : true);
+  };
+
+  const openMergeDialog = (group: Group) => {
+    setMergingGroup(group);
+    setMergeTargetId(0);
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mergingGroup) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const target = await trpc.mergeGroups.mutate({ id: mergingGroup.id, target_group_id: mergeTargetId });
+      setSuccess(`${mergingGroup.name} merged into ${target.name}`);
+      setMergingGroup(null);
+      loadGroups();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to merge groups');
+      console.error('Merge error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderTreeRows = (nodes: GroupTreeNode[], depth: number): React.ReactNode[] => {
+    return nodes.flatMap((node: GroupTreeNode) => [
+      <TableRow key={node.id}>
+        <TableCell style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }} className={depth === 0 ? 'font-semibold' : ''}>
+          {node.name}
+        </TableCell>
+        <TableCell className={node.nature ? '' : 'text-gray-500 italic'}>
+          {node.effective_nature ? natureLabels[node.effective_nature] : '-'}
+        </TableCell>
+        <TableCell className="text-right">{node.ledger_count}</TableCell>
+        <TableCell className="text-right font-mono">${node.total_debit.toFixed(2)}</TableCell>
+        <TableCell className="text-right font-mono">${node.total_credit.toFixed(2)}</TableCell>
+        <TableCell className="text-right font-mono">
+          ${node.closing_balance.toFixed(2)} {node.balance_type === 'debit' ? 'Dr' : 'Cr'}
+        </TableCell>
+      </TableRow>,
+      ...renderTreeRows(node.children, depth + 1)
+    ]);
   };
 
   const displayedGroups = searchResults.length > 0 ? searchResults : groups;
@@ -214,6 +336,63 @@ export function GroupManager() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="nature">Nature</Label>
+                <Select 
+                  value={formData.nature || 'inherit'} 
+                  disabled={editingGroup?.is_system}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: CreateGroupInput) => ({ 
+                      ...prev, 
+                      nature: value === 'inherit' ? null : value as GroupNature 
+                    }))
+                  }
+                >
+                  <SelectTrigger id="nature">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inherit">Same as Parent Group</SelectItem>
+                    {(Object.keys(natureLabels) as GroupNature[]).map((nature: GroupNature) => (
+                      <SelectItem key={nature} value={nature}>
+                        {natureLabels[nature]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Asset and liability balances are carried forward at year end; income and expense go to retained earnings
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cash-flow-activity">Cash Flow Activity</Label>
+                <Select
+                  value={formData.cash_flow_activity || 'inherit'}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: CreateGroupInput) => ({
+                      ...prev,
+                      cash_flow_activity: value === 'inherit' ? null : value as CashFlowActivity
+                    }))
+                  }
+                >
+                  <SelectTrigger id="cash-flow-activity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inherit">Same as Parent Group</SelectItem>
+                    {(Object.keys(activityLabels) as CashFlowActivity[]).map((activity: CashFlowActivity) => (
+                      <SelectItem key={activity} value={activity}>
+                        {activityLabels[activity]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Without one, equity groups count as financing and all others as operating
+                </p>
+              </div>
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
@@ -270,6 +449,127 @@ export function GroupManager() {
       
       )}
 
+      {/* Chart of Accounts Templates, offered until the first group exists */}
+      {canApplyTemplates && groups.length === 0 && (
+        <Card className="border-indigo-200 bg-indigo-50">
+          <CardHeader>
+            <CardTitle className="text-lg">🧭 Start from a Standard Chart of Accounts</CardTitle>
+            <CardDescription>
+              Creates the group hierarchy with natures and the system ledgers Cash, Profit &amp; Loss, Retained Earnings
+              and Round Off. System groups and ledgers cannot be deleted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 md:items-end">
+              <div className="space-y-2 md:w-72">
+                <Label htmlFor="chart-template">Template</Label>
+                <Select value={template} onValueChange={(value: string) => setTemplate(value as ChartTemplateId)}>
+                  <SelectTrigger id="chart-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {chartTemplateIds.map((id: ChartTemplateId) => (
+                      <SelectItem key={id} value={id}>
+                        {chartTemplates[id].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-gray-600 flex-1">{chartTemplates[template].description}</p>
+              <Button onClick={handleApplyTemplate} disabled={isLoading} className="bg-indigo-600 hover:bg-indigo-700">
+                {isLoading ? 'Applying...' : 'Apply Template'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Merge Dialog */}
+      <Dialog open={mergingGroup !== null} onOpenChange={(open: boolean) => { if (!open) setMergingGroup(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Merge {mergingGroup?.name}</DialogTitle>
+            <DialogDescription>
+              Its sub-groups and ledgers move to the group you choose, and {mergingGroup?.name} is deleted
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleMerge} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="merge-target">Merge Into *</Label>
+              <Select
+                value={mergeTargetId.toString()}
+                onValueChange={(value: string) => setMergeTargetId(parseInt(value))}
+              >
+                <SelectTrigger id="merge-target">
+                  <SelectValue placeholder="Select group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groups
+                    .filter((g: Group) => mergingGroup ? !isWithin(g, mergingGroup) : true)
+                    .map((g: Group) => (
+                      <SelectItem key={g.id} value={g.id.toString()}>
+                        {g.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setMergingGroup(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || mergeTargetId === 0}>
+                {isLoading ? 'Merging...' : 'Merge'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Group Tree */}
+      {tree.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-end justify-between">
+              <div>
+                <CardTitle className="text-lg">🌳 Group Tree</CardTitle>
+                <CardDescription>Balances include every sub-group; inherited natures are shown in italics</CardDescription>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tree-date">As on</Label>
+                <Input
+                  id="tree-date"
+                  type="date"
+                  value={treeDate.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    if (e.target.value) setTreeDate(new Date(e.target.value));
+                  }}
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Nature</TableHead>
+                  <TableHead className="text-right">Ledgers</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Closing Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {renderTreeRows(tree, 0)}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Groups Table */}
       <Card>
         <CardHeader>
@@ -294,6 +594,7 @@ export function GroupManager() {
                   <TableHead>Name</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Parent Group</TableHead>
+                  <TableHead>Nature</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Updated</TableHead>
                   <TableHead>Actions</TableHead>
@@ -302,9 +603,13 @@ export function GroupManager() {
               <TableBody>
                 {displayedGroups.map((group: Group) => (
                   <TableRow key={group.id}>
-                    <TableCell className="font-medium">{group.name}</TableCell>
+                    <TableCell className="font-medium">
+                      {group.name}
+                      {group.is_system && <Badge className="bg-gray-100 text-gray-700 ml-2">System</Badge>}
+                    </TableCell>
                     <TableCell>{group.description || '-'}</TableCell>
                     <TableCell>{getParentGroupName(group.parent_group_id)}</TableCell>
+                    <TableCell>{group.nature ? natureLabels[group.nature] : '-'}</TableCell>
                     <TableCell>{group.created_at.toLocaleDateString()}</TableCell>
                     <TableCell>{group.updated_at.toLocaleDateString()}</TableCell>
                     <TableCell>
@@ -312,30 +617,37 @@ export function GroupManager() {
                         <Button variant="outline" size="sm" onClick={() => handleEdit(group)}>
                           ✏️ Edit
                         </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                              🗑️ Delete
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Group</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete "{group.name}"? This action cannot be undone and may affect related ledgers.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(group.id)}
-                                className="bg-red-600 hover:bg-red-700"
-                              >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                        {!group.is_system && (
+                          <Button variant="outline" size="sm" onClick={() => openMergeDialog(group)}>
+                            🔀 Merge
+                          </Button>
+                        )}
+                        {!group.is_system && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                                🗑️ Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Group</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{group.name}"? This action cannot be undone and may affect related ledgers.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(group.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,688 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type {
+  Contact,
+  ExportFormat,
+  Invoice,
+  InvoiceLine,
+  InvoiceLineInput,
+  InvoiceType,
+  InvoiceWithLines,
+  Ledger,
+  TaxComponent,
+  TaxRate
+} from '../../../server/src/schema';
+import { isValidMoney, formatMoney, sumMoney, ZERO_MONEY } from '../../../server/src/money';
+import { invoiceTypeLabels } from '../../../server/src/vouchers';
+import { type LinePrice, priceInvoiceLine } from '../../../server/src/invoices';
+import { chargedComponents, supplyTypeFor, supplyTypeLabels } from '../../../server/src/taxes';
+
+interface InvoiceFormData {
+  contact_id: number;
+  ledger_id: number;
+  invoice_date: Date;
+  due_date: Date;
+  reference: string;
+  notes: string;
+  lines: InvoiceLineInput[];
+}
+
+const emptyLine = (): InvoiceLineInput => ({
+  description: '',
+  ledger_id: 0,
+  quantity: 1,
+  rate: 0,
+  discount_percent: 0,
+  tax_rate_id: null
+});
+
+const emptyForm = (): InvoiceFormData => ({
+  contact_id: 0,
+  ledger_id: 0,
+  invoice_date: new Date(),
+  due_date: new Date(),
+  reference: '',
+  notes: '',
+  lines: [emptyLine()]
+});
+
+const isValidQuantity = (quantity: number) => quantity > 0 && /^\d+(\.\d{1,3})?$/.test(String(quantity));
+
+// Lines with amounts the server would reject are left out of the totals and block saving
+const isValidLine = (line: InvoiceLineInput) => {
+  return isValidQuantity(line.quantity)
+    && isValidMoney(line.rate) && line.rate >= 0
+    && isValidMoney(line.discount_percent) && line.discount_percent >= 0 && line.discount_percent <= 100;
+};
+
+const priceLine = (line: InvoiceLineInput, components: TaxComponent[]): LinePrice => {
+  return isValidLine(line) ? priceInvoiceLine(line, components) : { discount: ZERO_MONEY, amount: ZERO_MONEY, taxes: [], tax: ZERO_MONEY };
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatDateForInput = (date: Date) => date.toISOString().split('T')[0];
+
+// Sales invoices are raised to customers, purchase bills come from suppliers
+const excludedContactType: Record<InvoiceType, Contact['contact_type']> = {
+  sales: 'supplier',
+  purchase: 'customer'
+};
+
+interface InvoiceManagerProps {
+  invoiceType: InvoiceType;
+  canCreate: boolean;
+  canModify: boolean;
+  canOverrideLocks: boolean;
+}
+
+export function InvoiceManager({ invoiceType, canCreate, canModify, canOverrideLocks }: InvoiceManagerProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [homeStateCode, setHomeStateCode] = useState<string | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceWithLines | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState<InvoiceFormData>(emptyForm);
+  const [overrideLock, setOverrideLock] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const label = invoiceTypeLabels[invoiceType];
+
+  const loadData = useCallback(async () => {
+    try {
+      const [invoicesResult, contactsResult, ledgersResult, taxRatesResult, taxSettings] = await Promise.all([
+        trpc.getInvoices.query({ invoice_type: invoiceType }),
+        trpc.getContacts.query(),
+        trpc.getLedgers.query(),
+        trpc.getTaxRates.query(),
+        trpc.getTaxSettings.query()
+      ]);
+      setInvoices(invoicesResult);
+      setContacts(contactsResult.filter((contact: Contact) => contact.contact_type !== excludedContactType[invoiceType]));
+      setLedgers(ledgersResult);
+      setTaxRates(taxRatesResult);
+      setHomeStateCode(taxSettings.state_code);
+    } catch (error) {
+      setError('Failed to load invoices');
+      console.error('Load invoices error:', error);
+    }
+  }, [invoiceType]);
+
+  useEffect(() => {
+    setSelectedInvoice(null);
+    setIsFormOpen(false);
+    loadData();
+  }, [loadData]);
+
+  const contactLedgers = ledgers.filter((ledger: Ledger) => ledger.contact_id === formData.contact_id);
+  const lineLedgers = ledgers.filter((ledger: Ledger) => ledger.contact_id === null);
+
+  // Lines are taxed by the place of supply of the contact, as the server prices them
+  const supplyType = supplyTypeFor(homeStateCode, contacts.find((contact: Contact) => contact.id === formData.contact_id)?.state_code ?? null);
+  const lineComponents = (line: InvoiceLineInput): TaxComponent[] => {
+    const taxRate = taxRates.find((rate: TaxRate) => rate.id === line.tax_rate_id);
+    return taxRate ? chargedComponents(taxRate.components, supplyType) : [];
+  };
+
+  const prices = formData.lines.map((line: InvoiceLineInput) => priceLine(line, lineComponents(line)));
+  const taxable = sumMoney(prices.map((price: LinePrice) => price.amount));
+  const tax = sumMoney(prices.map((price: LinePrice) => price.tax));
+
+  const hasInvalidLines = formData.lines.some((line: InvoiceLineInput) => !isValidLine(line));
+  const hasMissingLedgers = formData.lines.some((line: InvoiceLineInput) => line.ledger_id === 0);
+
+  const changeContact = (contactId: number) => {
+    // The contact's only ledger is picked for it
+    const linked = ledgers.filter((ledger: Ledger) => ledger.contact_id === contactId);
+    setFormData((prev: InvoiceFormData) => ({
+      ...prev,
+      contact_id: contactId,
+      ledger_id: linked.length === 1 ? linked[0].id : 0
+    }));
+  };
+
+  const updateLine = (index: number, changes: Partial<InvoiceLineInput>) => {
+    setFormData((prev: InvoiceFormData) => ({
+      ...prev,
+      lines: prev.lines.map((line: InvoiceLineInput, i: number) => i === index ? { ...line, ...changes } : line)
+    }));
+  };
+
+  const addLine = () => {
+    setFormData((prev: InvoiceFormData) => ({ ...prev, lines: [...prev.lines, emptyLine()] }));
+  };
+
+  const removeLine = (index: number) => {
+    setFormData((prev: InvoiceFormData) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i: number) => i !== index)
+    }));
+  };
+
+  const openNewInvoice = () => {
+    setFormData(emptyForm());
+    setEditingId(null);
+    setOverrideLock(false);
+    setIsFormOpen(true);
+    setError('');
+    setSuccess('');
+  };
+
+  const openEditInvoice = (invoice: InvoiceWithLines) => {
+    setFormData({
+      contact_id: invoice.contact_id,
+      ledger_id: invoice.ledger_id,
+      invoice_date: invoice.invoice_date,
+      due_date: invoice.due_date,
+      reference: invoice.reference ?? '',
+      notes: invoice.notes ?? '',
+      lines: invoice.lines.map((line: InvoiceLine) => ({
+        description: line.description,
+        ledger_id: line.ledger_id,
+        quantity: line.quantity,
+        rate: line.rate,
+        discount_percent: line.discount_percent,
+        tax_rate_id: line.tax_rate_id
+      }))
+    });
+    setEditingId(invoice.id);
+    setOverrideLock(false);
+    setIsFormOpen(true);
+    setError('');
+    setSuccess('');
+  };
+
+  const handleView = async (id: number) => {
+    setError('');
+    try {
+      setSelectedInvoice(await trpc.getInvoice.query({ id }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the invoice');
+      console.error('Load invoice error:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (hasInvalidLines) {
+      setError('Quantities can have at most three decimal places, rates two, and percentages must be between 0 and 100.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    const input = {
+      contact_id: formData.contact_id,
+      ledger_id: formData.ledger_id,
+      invoice_date: formData.invoice_date,
+      due_date: formData.due_date,
+      reference: formData.reference || null,
+      notes: formData.notes || null,
+      lines: formData.lines,
+      override_lock: overrideLock || undefined
+    };
+
+    try {
+      const saved = editingId === null
+        ? await trpc.createInvoice.mutate({ ...input, invoice_type: invoiceType })
+        : await trpc.updateInvoice.mutate({ ...input, id: editingId });
+      setSuccess(`${label} ${saved.invoice_number} ${editingId === null ? 'created' : 'updated'} successfully`);
+      setIsFormOpen(false);
+      setSelectedInvoice(await trpc.getInvoice.query({ id: saved.id }));
+      await loadData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to save the ${label.toLowerCase()}`);
+      console.error('Submit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    setError('');
+    setSuccess('');
+
+    try {
+      await trpc.deleteInvoice.mutate({ id: invoice.id, override_lock: overrideLock || undefined });
+      setSuccess(`${label} ${invoice.invoice_number} deleted successfully`);
+      setSelectedInvoice(null);
+      await loadData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to delete the ${label.toLowerCase()}`);
+      console.error('Delete error:', error);
+    }
+  };
+
+  const ledgerName = (id: number | null) => ledgers.find((ledger: Ledger) => ledger.id === id)?.name ?? '';
+  const taxRateName = (id: number | null) => taxRates.find((taxRate: TaxRate) => taxRate.id === id)?.name ?? '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">🧾 {label}s</h2>
+          <p className="text-gray-600">
+            {invoiceType === 'sales'
+              ? 'Raise itemised invoices to customers; each one posts a sales voucher'
+              : 'Record itemised bills from suppliers; each one posts a purchase voucher'}
+          </p>
+        </div>
+        {canCreate && !isFormOpen && (
+          <Button onClick={openNewInvoice} className="bg-green-600 hover:bg-green-700">
+            ➕ New {label}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {isFormOpen && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{editingId === null ? `➕ New ${label}` : `✏️ Edit ${label}`}</CardTitle>
+            <CardDescription>
+              {editingId === null
+                ? 'The number is assigned when the invoice is saved'
+                : 'Saving posts a correction of the invoice voucher; the invoice keeps its number'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-contact">{invoiceType === 'sales' ? 'Customer' : 'Supplier'} *</Label>
+                  <Select
+                    value={formData.contact_id.toString()}
+                    onValueChange={(value: string) => changeContact(parseInt(value))}
+                  >
+                    <SelectTrigger id="invoice-contact" className="w-full">
+                      <SelectValue placeholder="Select a contact" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {contacts.map((contact: Contact) => (
+                        <SelectItem key={contact.id} value={contact.id.toString()}>{contact.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-ledger">Contact Ledger *</Label>
+                  <Select
+                    value={formData.ledger_id.toString()}
+                    onValueChange={(value: string) => setFormData((prev: InvoiceFormData) => ({ ...prev, ledger_id: parseInt(value) }))}
+                  >
+                    <SelectTrigger id="invoice-ledger" className="w-full">
+                      <SelectValue placeholder="Select a ledger" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {contactLedgers.map((ledger: Ledger) => (
+                        <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.contact_id !== 0 && contactLedgers.length === 0 && (
+                    <div className="text-sm text-red-600">Link a ledger to this contact first</div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-reference">Reference</Label>
+                  <Input
+                    id="invoice-reference"
+                    value={formData.reference}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: InvoiceFormData) => ({ ...prev, reference: e.target.value }))
+                    }
+                    placeholder={invoiceType === 'sales' ? 'Customer order number' : "Supplier's bill number"}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-date">{label} Date *</Label>
+                  <Input
+                    id="invoice-date"
+                    type="date"
+                    value={formatDateForInput(formData.invoice_date)}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: InvoiceFormData) => ({ ...prev, invoice_date: new Date(e.target.value) }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="due-date">Due Date *</Label>
+                  <Input
+                    id="due-date"
+                    type="date"
+                    value={formatDateForInput(formData.due_date)}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: InvoiceFormData) => ({ ...prev, due_date: new Date(e.target.value) }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-notes">Notes</Label>
+                  <Input
+                    id="invoice-notes"
+                    value={formData.notes}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: InvoiceFormData) => ({ ...prev, notes: e.target.value }))
+                    }
+                    placeholder="Printed on the invoice"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-semibold">Line Items</Label>
+                  <Button type="button" variant="outline" onClick={addLine}>
+                    ➕ Add Line
+                  </Button>
+                </div>
+
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Description</TableHead>
+                        <TableHead>{invoiceType === 'sales' ? 'Income Ledger' : 'Expense Ledger'}</TableHead>
+                        <TableHead>Qty</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Disc %</TableHead>
+                        <TableHead>Tax Rate</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {formData.lines.map((line: InvoiceLineInput, index: number) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { description: e.target.value })}
+                              placeholder="Item or service"
+                              required
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={line.ledger_id.toString()}
+                              onValueChange={(value: string) => updateLine(index, { ledger_id: parseInt(value) })}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue placeholder="Select ledger" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {lineLedgers.map((ledger: Ledger) => (
+                                  <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.001"
+                              min="0"
+                              className="w-24"
+                              value={line.quantity}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              className="w-28"
+                              value={line.rate}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { rate: parseFloat(e.target.value) || 0 })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="100"
+                              className="w-20"
+                              value={line.discount_percent}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { discount_percent: parseFloat(e.target.value) || 0 })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={line.tax_rate_id?.toString() || 'none'}
+                              onValueChange={(value: string) => updateLine(index, { tax_rate_id: value === 'none' ? null : parseInt(value) })}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue placeholder="No tax" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No tax</SelectItem>
+                                {taxRates.map((taxRate: TaxRate) => (
+                                  <SelectItem key={taxRate.id} value={taxRate.id.toString()}>{taxRate.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            ${formatMoney(prices[index].amount + prices[index].tax)}
+                          </TableCell>
+                          <TableCell>
+                            {formData.lines.length > 1 && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeLine(index)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                🗑️
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex justify-end text-sm">
+                  <div className="text-right">
+                    <div>Taxable: <span className="font-semibold">${formatMoney(taxable)}</span></div>
+                    <div>Tax ({supplyTypeLabels[supplyType]}): <span className="font-semibold">${formatMoney(tax)}</span></div>
+                    <div className="font-semibold">Total: ${formatMoney(taxable + tax)}</div>
+                    {hasInvalidLines && (
+                      <div className="text-red-600">Check the quantities, rates and percentages</div>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {canOverrideLocks && (
+                <div className="flex items-center space-x-2">
+                  <Switch id="invoice-override-lock" checked={overrideLock} onCheckedChange={setOverrideLock} />
+                  <Label htmlFor="invoice-override-lock" className="text-sm">Override period lock (recorded in the audit log)</Label>
+                </div>
+              )}
+
+              <div className="flex space-x-2">
+                <Button
+                  type="submit"
+                  disabled={isLoading || formData.ledger_id === 0 || hasMissingLedgers || hasInvalidLines || taxable + tax <= ZERO_MONEY}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {isLoading ? 'Saving...' : `💾 Save ${label}`}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedInvoice && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">📄 {label} {selectedInvoice.invoice_number}</CardTitle>
+            <CardDescription>
+              {selectedInvoice.contact_name} · Dated {formatDate(selectedInvoice.invoice_date)}, due {formatDate(selectedInvoice.due_date)}
+              {selectedInvoice.reference && ` · Reference ${selectedInvoice.reference}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Ledger</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedInvoice.lines.map((line: InvoiceLine) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell>{ledgerName(line.ledger_id)}</TableCell>
+                    <TableCell className="text-right font-mono">{line.quantity}</TableCell>
+                    <TableCell className="text-right font-mono">${line.rate.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.discount_amount > 0 ? `$${line.discount_amount.toFixed(2)} (${line.discount_percent}%)` : ''}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">${line.amount.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.tax_amount > 0 ? `$${line.tax_amount.toFixed(2)} (${taxRateName(line.tax_rate_id)}, ${line.tax_rate}%)` : ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={5}>Total</TableCell>
+                  <TableCell className="text-right font-mono">${selectedInvoice.taxable_amount.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">${selectedInvoice.tax_amount.toFixed(2)}</TableCell>
+                </TableRow>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={6}>Amount Due</TableCell>
+                  <TableCell className="text-right font-mono">${selectedInvoice.total_amount.toFixed(2)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            {selectedInvoice.notes && <p className="text-sm text-gray-600">{selectedInvoice.notes}</p>}
+
+            <div className="flex flex-wrap items-start gap-2">
+              <ExportButtons
+                formats={['pdf', 'html']}
+                onExport={(format: ExportFormat) => trpc.exportInvoice.query({ id: selectedInvoice.id, format })}
+              />
+              {canModify && (
+                <>
+                  <Button variant="outline" onClick={() => openEditInvoice(selectedInvoice)}>✏️ Edit</Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" className="text-red-600 hover:text-red-700">🗑️ Delete</Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {label}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Deleting {selectedInvoice.invoice_number} also deletes the voucher it posted. This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(selectedInvoice)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📋 {label}s</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>{invoiceType === 'sales' ? 'Customer' : 'Supplier'}</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-gray-500">No {label.toLowerCase()}s yet</TableCell>
+                </TableRow>
+              ) : invoices.map((invoice: Invoice) => (
+                <TableRow key={invoice.id} className={selectedInvoice?.id === invoice.id ? 'bg-blue-50' : ''}>
+                  <TableCell className="font-mono">{invoice.invoice_number}</TableCell>
+                  <TableCell>{formatDate(invoice.invoice_date)}</TableCell>
+                  <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                  <TableCell>{invoice.contact_name}</TableCell>
+                  <TableCell>{invoice.reference ?? ''}</TableCell>
+                  <TableCell className="text-right font-mono">${invoice.total_amount.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => handleView(invoice.id)}>View</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
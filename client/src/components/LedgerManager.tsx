@@ -11,7 +11,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { trpc } from '@/utils/trpc';
-import type { Ledger, CreateLedgerInput, UpdateLedgerInput, Group, Contact } from '../../../server/src/schema';
+import type { Ledger, CreateLedgerInput, UpdateLedgerInput, LedgerType, Group, Contact } from '../../../server/src/schema';
 
 export function LedgerManager() {
   const [ledgers, setLedgers] = useState<Ledger[]>([]);
@@ -30,7 +30,8 @@ export function LedgerManager() {
     group_id: 0,
     contact_id: undefined,
     opening_balance: 0,
-    balance_type: 'debit'
+    balance_type: 'debit',
+    ledger_type: 'general'
   });
 
   const loadData = useCallback(async () => {
@@ -78,7 +79,8 @@ export function LedgerManager() {
       group_id: groups.length > 0 ? groups[0].id : 0,
       contact_id: undefined,
       opening_balance: 0,
-      balance_type: 'debit'
+      balance_type: 'debit',
+      ledger_type: 'general'
     });
     setEditingLedger(null);
   };
@@ -123,7 +125,8 @@ export function LedgerManager() {
       group_id: ledger.group_id,
       contact_id: ledger.contact_id || undefined,
       opening_balance: ledger.opening_balance,
-      balance_type: ledger.balance_type
+      balance_type: ledger.balance_type,
+      ledger_type: ledger.ledger_type
     });
     setIsDialogOpen(true);
   };
@@ -135,7 +138,7 @@ export function LedgerManager() {
       setLedgers((prev: Ledger[]) => prev.filter((l: Ledger) => l.id !== id));
       setSuccess('Ledger deleted successfully');
     } catch (error) {
-      setError('Failed to delete ledger');
+      setError(error instanceof Error ? error.message : 'Failed to delete ledger');
       console.error('Delete error:', error);
     } finally {
       setIsLoading(false);
@@ -272,6 +275,25 @@ export function LedgerManager() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="ledger-type">Ledger Type</Label>
+                <Select
+                  value={formData.ledger_type || 'general'}
+                  onValueChange={(value: LedgerType) =>
+                    setFormData((prev: CreateLedgerInput) => ({ ...prev, ledger_type: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select ledger type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="general">General</SelectItem>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="bank">Bank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
@@ -353,6 +375,7 @@ export function LedgerManager() {
                   <TableHead>Contact</TableHead>
                   <TableHead>Opening Balance</TableHead>
                   <TableHead>Balance Type</TableHead>
+                  <TableHead>Ledger Type</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -360,7 +383,10 @@ export function LedgerManager() {
               <TableBody>
                 {displayedLedgers.map((ledger: Ledger) => (
                   <TableRow key={ledger.id}>
-                    <TableCell className="font-medium">{ledger.name}</TableCell>
+                    <TableCell className="font-medium">
+                      {ledger.name}
+                      {ledger.is_system && <Badge className="bg-gray-100 text-gray-700 ml-2">System</Badge>}
+                    </TableCell>
                     <TableCell>{getGroupName(ledger.group_id)}</TableCell>
                     <TableCell>{getContactName(ledger.contact_id)}</TableCell>
                     <TableCell>{ledger.opening_balance.toFixed(2)}</TableCell>
@@ -369,36 +395,39 @@ export function LedgerManager() {
                         {ledger.balance_type}
                       </Badge>
                     </TableCell>
+                    <TableCell className="capitalize">{ledger.ledger_type}</TableCell>
                     <TableCell>{ledger.created_at.toLocaleDateString()}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
                         <Button variant="outline" size="sm" onClick={() => handleEdit(ledger)}>
                           ✏️ Edit
                         </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                              🗑️ Delete
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Ledger</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete "{ledger.name}"? This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(ledger.id)}
-                                className="bg-red-600 hover:bg-red-700"
-                              >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                        {!ledger.is_system && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                                🗑️ Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Ledger</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{ledger.name}"? This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(ledger.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
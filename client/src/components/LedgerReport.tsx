@@ -1,7 +1,134 @@
-
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type {
+  ExportFormat,
+  Group,
+  Ledger,
+  LedgerReport as LedgerReportData,
+  LedgerStatement,
+  LedgerStatementPeriod,
+  LedgerStatementLine,
+  ReportPeriod
+} from '../../../server/src/schema';
+
+// Ledger or group and period to report on; other reports open the ledger
+// report with one of these to drill down
+export interface LedgerReportFilter {
+  ledger_id?: number;
+  group_id?: number;
+  start_date: Date;
+  end_date: Date;
+}
+
+interface LedgerReportProps {
+  initialFilter: LedgerReportFilter | null;
+}
+
+export function LedgerReport({ initialFilter }: LedgerReportProps) {
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [report, setReport] = useState<LedgerReportData | null>(null);
+  const [period, setPeriod] = useState<ReportPeriod>('daily');
+  const [summaryOnly, setSummaryOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [filter, setFilter] = useState<LedgerReportFilter>(() => initialFilter ?? {
+    start_date: new Date(new Date().getFullYear(), 0, 1),
+    end_date: new Date()
+  });
+
+  const generate = useCallback(async (reportFilter: LedgerReportFilter, reportPeriod: ReportPeriod, ledgerSummary: boolean) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.getLedgerReport.query({ ...reportFilter, period: reportPeriod, ledger_summary: ledgerSummary });
+      setReport(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate ledger report');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([trpc.getLedgers.query(), trpc.getGroups.query()])
+      .then(([ledgersResult, groupsResult]) => {
+        setLedgers(ledgersResult);
+        setGroups(groupsResult);
+      })
+      .catch((error: unknown) => {
+        setError('Failed to load ledgers');
+        console.error('Load data error:', error);
+      });
+  }, []);
+
+  // A drill-down from another report runs straight away
+  useEffect(() => {
+    if (initialFilter) {
+      generate(initialFilter, 'daily', false);
+    }
+  }, [initialFilter, generate]);
+
+  const formatDateForInput = (date: Date) => {
+    return date.toISOString().split('T')[0];
+  };
+
+  const formatBalance = (amount: number, balanceType: 'debit' | 'credit') => {
+    return `$${amount.toFixed(2)} ${balanceType === 'debit' ? 'Dr' : 'Cr'}`;
+  };
+
+  const formatPeriod = (statementPeriod: LedgerStatementPeriod) => {
+    if (report?.period === 'monthly') {
+      return statementPeriod.period_start.toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    }
+    if (report?.period === 'weekly') {
+      return `Week of ${statementPeriod.period_start.toLocaleDateString(undefined, { timeZone: 'UTC' })}`;
+    }
+    return statementPeriod.period_start.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  };
+
+  const renderPeriodRows = (statementPeriod: LedgerStatementPeriod) => [
+    ...statementPeriod.lines.map((line: LedgerStatementLine, index: number) => (
+      <TableRow key={`${statementPeriod.period_start.toISOString()}-${line.entry_id}-${index}`}>
+        <TableCell>{line.entry_date.toLocaleDateString(undefined, { timeZone: 'UTC' })}</TableCell>
+        <TableCell className="font-mono">{line.entry_number}</TableCell>
+        <TableCell>{line.contra_ledgers.join(', ')}</TableCell>
+        <TableCell>
+          <Badge variant="outline" className="mr-2 capitalize">{line.voucher_type.replace('_', ' ')}</Badge>
+          {line.description}
+        </TableCell>
+        <TableCell className="text-right font-mono">
+          {line.debit_amount > 0 ? `$${line.debit_amount.toFixed(2)}` : ''}
+        </TableCell>
+        <TableCell className="text-right font-mono">
+          {line.credit_amount > 0 ? `$${line.credit_amount.toFixed(2)}` : ''}
+        </TableCell>
+        <TableCell className="text-right font-mono">{formatBalance(line.balance, line.balance_type)}</TableCell>
+      </TableRow>
+    )),
+    <TableRow key={`${statementPeriod.period_start.toISOString()}-total`} className="bg-gray-50 font-medium">
+      <TableCell colSpan={4}>{formatPeriod(statementPeriod)} total</TableCell>
+      <TableCell className="text-right font-mono">${statementPeriod.total_debit.toFixed(2)}</TableCell>
+      <TableCell className="text-right font-mono">${statementPeriod.total_credit.toFixed(2)}</TableCell>
+      <TableCell className="text-right font-mono">
+        {formatBalance(statementPeriod.closing_balance, statementPeriod.closing_balance_type)}
+      </TableCell>
+    </TableRow>
+  ];
 
-export function LedgerReport() {
   return (
     <div className="space-y-6">
       <div>
@@ -11,18 +138,172 @@ export function LedgerReport() {
 
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">📊 Ledger Report Generator</CardTitle>
+          <CardTitle className="text-lg">📊 Report Parameters</CardTitle>
           <CardDescription>Generate reports for specific ledgers or groups</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-8">
-            <p className="text-gray-500">Ledger report generator will be implemented here.</p>
-            <p className="text-sm text-gray-400 mt-2">
-              This will allow users to generate detailed reports for specific ledgers with filtering options.
-            </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="report-ledger">Ledger</Label>
+              <Select
+                value={filter.ledger_id?.toString() || 'all'}
+                onValueChange={(value: string) =>
+                  setFilter((prev: LedgerReportFilter) => ({ ...prev, ledger_id: value === 'all' ? undefined : parseInt(value) }))
+                }
+              >
+                <SelectTrigger id="report-ledger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Ledgers</SelectItem>
+                  {ledgers.map((ledger: Ledger) => (
+                    <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                      {ledger.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-group">Group</Label>
+              <Select
+                value={filter.group_id?.toString() || 'all'}
+                onValueChange={(value: string) =>
+                  setFilter((prev: LedgerReportFilter) => ({ ...prev, group_id: value === 'all' ? undefined : parseInt(value) }))
+                }
+              >
+                <SelectTrigger id="report-group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Groups</SelectItem>
+                  {groups.map((group: Group) => (
+                    <SelectItem key={group.id} value={group.id.toString()}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-start">Start Date</Label>
+              <Input
+                id="report-start"
+                type="date"
+                value={formatDateForInput(filter.start_date)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilter((prev: LedgerReportFilter) => ({ ...prev, start_date: new Date(e.target.value) }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-end">End Date</Label>
+              <Input
+                id="report-end"
+                type="date"
+                value={formatDateForInput(filter.end_date)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilter((prev: LedgerReportFilter) => ({ ...prev, end_date: new Date(e.target.value) }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-period">Subtotals</Label>
+              <Select value={period} onValueChange={(value: string) => setPeriod(value as ReportPeriod)}>
+                <SelectTrigger id="report-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="report-summary" checked={summaryOnly} onCheckedChange={setSummaryOnly} />
+              <Label htmlFor="report-summary" className="text-sm">Subtotals only</Label>
+            </div>
+
+            <Button onClick={() => generate(filter, period, summaryOnly)} disabled={isLoading} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+
+          <div className="mt-4">
+            <ExportButtons
+              onExport={(format: ExportFormat) => trpc.exportReport.query({
+                format,
+                report: { type: 'ledger', filter: { ...filter, period, ledger_summary: summaryOnly } }
+              })}
+            />
           </div>
         </CardContent>
       </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.ledgers.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No balances or entries in this period.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {report?.ledgers.map((statement: LedgerStatement) => (
+        <Card key={statement.ledger_id}>
+          <CardHeader>
+            <CardTitle className="text-lg">📋 {statement.ledger_name}</CardTitle>
+            <CardDescription>
+              {report.start_date.toLocaleDateString()} to {report.end_date.toLocaleDateString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry No.</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="font-medium">
+                  <TableCell colSpan={6}>Opening Balance</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatBalance(statement.opening_balance, statement.opening_balance_type)}
+                  </TableCell>
+                </TableRow>
+                {statement.periods.flatMap(renderPeriodRows)}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-bold">
+                  <TableCell colSpan={4}>Closing Balance</TableCell>
+                  <TableCell className="text-right font-mono">${statement.total_debit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">${statement.total_credit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatBalance(statement.closing_balance, statement.closing_balance_type)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
     </div>
   );
 }
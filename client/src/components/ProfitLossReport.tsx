@@ -1,7 +1,85 @@
-
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ComparativeLayoutSelect, ComparativeTable } from '@/components/ComparativeTable';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type { ComparativeProfitAndLoss, ExportFormat, ProfitAndLoss, StatementLine } from '../../../server/src/schema';
+import { comparativeColumns, type ComparativeLayout } from '../../../server/src/periods';
 
 export function ProfitLossReport() {
+  const [startDate, setStartDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isComparative, setIsComparative] = useState(false);
+  const [layout, setLayout] = useState<ComparativeLayout>('year_over_year');
+  const [report, setReport] = useState<ProfitAndLoss | null>(null);
+  const [comparison, setComparison] = useState<ComparativeProfitAndLoss | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (isComparative) {
+        const result = await trpc.getComparativeProfitAndLoss.query({
+          columns: comparativeColumns(layout, new Date(startDate), new Date(endDate))
+        });
+        setComparison(result);
+        setReport(null);
+      } else {
+        const result = await trpc.getProfitAndLoss.query({
+          start_date: new Date(startDate),
+          end_date: new Date(endDate)
+        });
+        setReport(result);
+        setComparison(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate profit and loss statement');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderSection = (title: string, lines: StatementLine[], total: number) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead>Group</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3} className="text-center text-gray-500">Nothing posted in this period</TableCell>
+          </TableRow>
+        ) : lines.map((line: StatementLine) => (
+          <TableRow key={line.ledger_id}>
+            <TableCell>{line.ledger_name}</TableCell>
+            <TableCell className="text-gray-500">{line.group_name}</TableCell>
+            <TableCell className="text-right font-mono">${line.amount.toFixed(2)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow className="font-bold">
+          <TableCell colSpan={2}>Total {title}</TableCell>
+          <TableCell className="text-right font-mono">${total.toFixed(2)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+
   return (
     <div className="space-y-6">
       <div>
@@ -12,17 +90,109 @@ export function ProfitLossReport() {
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">📊 P&L Statement Generator</CardTitle>
-          <CardDescription>Generate profit and loss statements for specific periods</CardDescription>
+          <CardDescription>Generate profit and loss statements for specific periods, or compare periods side by side</CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-gray-500">Profit & Loss report generator will be implemented here.</p>
-            <p className="text-sm text-gray-400 mt-2">
-              This will generate comprehensive P&L statements showing income and expenses for specified periods.
-            </p>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="pl-start">Start Date</Label>
+              <Input
+                id="pl-start"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pl-end">End Date</Label>
+              <Input
+                id="pl-end"
+                type="date"
+                value={endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGenerateReport} disabled={isLoading || !startDate || !endDate} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="pl-comparative" checked={isComparative} onCheckedChange={setIsComparative} />
+              <Label htmlFor="pl-comparative" className="text-sm">Compare periods</Label>
+            </div>
+
+            {isComparative && <ComparativeLayoutSelect id="pl-layout" value={layout} onChange={setLayout} />}
+          </div>
+
+          {!isComparative && (
+            <ExportButtons
+              disabled={!startDate || !endDate}
+              onExport={(format: ExportFormat) => trpc.exportReport.query({
+                format,
+                report: { type: 'profit_and_loss', filter: { start_date: new Date(startDate), end_date: new Date(endDate) } }
+              })}
+            />
+          )}
         </CardContent>
       </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Profit & Loss from {report.period.start_date.toLocaleDateString()} to {report.period.end_date.toLocaleDateString()}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {renderSection('Income', report.income, report.total_income)}
+            {renderSection('Expenses', report.expenses, report.total_expenses)}
+
+            <div className={`flex justify-between rounded-md p-4 font-bold ${report.net_profit >= 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              <span>{report.net_profit >= 0 ? 'Net Profit' : 'Net Loss'}</span>
+              <span className="font-mono">${(report.net_profit >= 0 ? report.net_profit : report.net_loss).toFixed(2)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Comparative Profit & Loss</CardTitle>
+            <CardDescription>Changes are measured against the previous column</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ComparativeTable
+              title="Income"
+              columns={comparison.columns}
+              lines={comparison.income}
+              totals={[{ label: 'Total Income', values: comparison.total_income }]}
+            />
+            <ComparativeTable
+              title="Expenses"
+              columns={comparison.columns}
+              lines={comparison.expenses}
+              totals={[{ label: 'Total Expenses', values: comparison.total_expenses }]}
+            />
+            <ComparativeTable
+              title="Net Profit"
+              columns={comparison.columns}
+              lines={[]}
+              extraRows={[{ label: 'Net profit, losses in brackets', values: comparison.net_profit }]}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,484 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { CreateTaxRateInput, Ledger, SupplyType, TaxComponentInput, TaxHead, TaxRate, TaxSettings, UpdateTaxSettingsInput } from '../../../server/src/schema';
+import { chargedComponents, gstinStateCode, isValidTaxId, supplyTypeLabels, taxHeadLabels, taxHeads } from '../../../server/src/taxes';
+import { formatMoney, isValidMoney, moneyToNumber, parseMoney, sumMoney } from '../../../server/src/money';
+
+const emptyRate: CreateTaxRateInput = {
+  name: '',
+  rate: 0,
+  components: []
+};
+
+const emptyComponent = (head: TaxHead, rate: number): TaxComponentInput => ({
+  head,
+  rate,
+  output_ledger_id: 0,
+  input_ledger_id: 0
+});
+
+const supplyTypes = Object.keys(supplyTypeLabels) as SupplyType[];
+
+export function TaxManager() {
+  const [settings, setSettings] = useState<TaxSettings | null>(null);
+  const [settingsForm, setSettingsForm] = useState<UpdateTaxSettingsInput>({ tax_id: null, state_code: null });
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+  const [formData, setFormData] = useState<CreateTaxRateInput>(emptyRate);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [settingsResult, ratesResult, ledgersResult] = await Promise.all([
+        trpc.getTaxSettings.query(),
+        trpc.getTaxRates.query(),
+        trpc.getLedgers.query()
+      ]);
+      setSettings(settingsResult);
+      setSettingsForm({ tax_id: settingsResult.tax_id, state_code: settingsResult.state_code });
+      setTaxRates(ratesResult);
+      setLedgers(ledgersResult);
+    } catch (error) {
+      setError('Failed to load tax rates');
+      console.error('Load tax rates error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const ledgerName = (id: number) => ledgers.find((ledger: Ledger) => ledger.id === id)?.name ?? `#${id}`;
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const updated = await trpc.updateTaxSettings.mutate(settingsForm);
+      setSettings(updated);
+      setSettingsForm({ tax_id: updated.tax_id, state_code: updated.state_code });
+      setSuccess('Tax registration saved successfully');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save tax registration');
+      console.error('Settings error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyRate);
+    setEditingRate(null);
+  };
+
+  const handleEdit = (taxRate: TaxRate) => {
+    setEditingRate(taxRate);
+    setFormData({
+      name: taxRate.name,
+      rate: taxRate.rate,
+      components: taxRate.components.map(({ head, rate, output_ledger_id, input_ledger_id }) => ({ head, rate, output_ledger_id, input_ledger_id }))
+    });
+    setIsDialogOpen(true);
+  };
+
+  // CGST and SGST share the rate within the state, IGST charges all of it
+  // on supplies to other states
+  const splitAsGst = () => {
+    setFormData((prev: CreateTaxRateInput) => {
+      const rate = parseMoney(prev.rate);
+      const cgst = rate / 2n;
+      const ledgersOf = (head: TaxHead) => prev.components.find((component: TaxComponentInput) => component.head === head);
+      return {
+        ...prev,
+        components: [
+          { ...emptyComponent('cgst', 0), ...ledgersOf('cgst'), rate: moneyToNumber(cgst) },
+          { ...emptyComponent('sgst', 0), ...ledgersOf('sgst'), rate: moneyToNumber(rate - cgst) },
+          { ...emptyComponent('igst', 0), ...ledgersOf('igst'), rate: prev.rate }
+        ]
+      };
+    });
+  };
+
+  const updateComponent = (index: number, changes: Partial<TaxComponentInput>) => {
+    setFormData((prev: CreateTaxRateInput) => ({
+      ...prev,
+      components: prev.components.map((component: TaxComponentInput, i: number) => i === index ? { ...component, ...changes } : component)
+    }));
+  };
+
+  const usedHeads = formData.components.map((component: TaxComponentInput) => component.head);
+  const unusedHead = taxHeads.find((head: TaxHead) => !usedHeads.includes(head));
+
+  // Rate charged on each kind of supply, for the check against the rate
+  const chargedTotals = supplyTypes.map((supplyType: SupplyType) => ({
+    supplyType,
+    total: sumMoney(chargedComponents(formData.components, supplyType).map((component: TaxComponentInput) => parseMoney(component.rate)))
+  }));
+  const isBalanced = formData.components.length === 0
+    ? parseMoney(formData.rate) === 0n
+    : chargedTotals.every(({ total }) => total === parseMoney(formData.rate));
+  const hasInvalidComponents = formData.components.some((component: TaxComponentInput) =>
+    !isValidMoney(component.rate) || component.rate <= 0 || component.output_ledger_id === 0 || component.input_ledger_id === 0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      if (editingRate) {
+        const updated = await trpc.updateTaxRate.mutate({ id: editingRate.id, ...formData });
+        setTaxRates((prev: TaxRate[]) => prev.map((taxRate: TaxRate) => taxRate.id === updated.id ? updated : taxRate));
+        setSuccess('Tax rate updated successfully');
+      } else {
+        const created = await trpc.createTaxRate.mutate(formData);
+        setTaxRates((prev: TaxRate[]) => [...prev, created].sort((a: TaxRate, b: TaxRate) => a.rate - b.rate || a.name.localeCompare(b.name)));
+        setSuccess('Tax rate created successfully');
+      }
+
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save tax rate');
+      console.error('Submit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await trpc.deleteTaxRate.mutate({ id: taxRate.id });
+      setTaxRates((prev: TaxRate[]) => prev.filter((item: TaxRate) => item.id !== taxRate.id));
+      setSuccess('Tax rate deleted successfully');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete tax rate');
+      console.error('Delete error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasInvalidTaxId = !!settingsForm.tax_id && !isValidTaxId(settingsForm.tax_id);
+  const hasRegisteredState = gstinStateCode(settingsForm.tax_id || null) !== null;
+
+  const ledgerSelect = (value: number, onChange: (id: number) => void) => (
+    <Select value={value === 0 ? 'none' : value.toString()} onValueChange={(id: string) => onChange(id === 'none' ? 0 : parseInt(id))}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select ledger" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">Select ledger</SelectItem>
+        {ledgers.map((ledger: Ledger) => (
+          <SelectItem key={ledger.id} value={ledger.id.toString()}>{ledger.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">🧾 Tax Rates</h2>
+          <p className="text-gray-600">GST and VAT rates and the ledgers their tax is posted to</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm} className="bg-blue-600 hover:bg-blue-700">
+              ➕ Add Tax Rate
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>{editingRate ? 'Edit Tax Rate' : 'Create New Tax Rate'}</DialogTitle>
+              <DialogDescription>
+                CGST and SGST/UTGST are charged within the state, IGST on supplies to other states, and cess and VAT on both.
+                Output tax on sales is posted to the output ledger, input tax credit on purchases to the input ledger.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="rate-name">Name *</Label>
+                  <Input
+                    id="rate-name"
+                    value={formData.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateTaxRateInput) => ({ ...prev, name: e.target.value }))
+                    }
+                    placeholder="e.g. GST 18%"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rate-percent">Rate % *</Label>
+                  <Input
+                    id="rate-percent"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.rate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateTaxRateInput) => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tax Head</TableHead>
+                    <TableHead>Rate %</TableHead>
+                    <TableHead>Output Ledger</TableHead>
+                    <TableHead>Input Ledger</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {formData.components.map((component: TaxComponentInput, index: number) => (
+                    <TableRow key={component.head}>
+                      <TableCell className="w-36">
+                        <Select value={component.head} onValueChange={(head: TaxHead) => updateComponent(index, { head })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {taxHeads
+                              .filter((head: TaxHead) => head === component.head || !usedHeads.includes(head))
+                              .map((head: TaxHead) => (
+                                <SelectItem key={head} value={head}>{taxHeadLabels[head]}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="w-24">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          value={component.rate}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateComponent(index, { rate: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {ledgerSelect(component.output_ledger_id, (output_ledger_id: number) => updateComponent(index, { output_ledger_id }))}
+                      </TableCell>
+                      <TableCell>
+                        {ledgerSelect(component.input_ledger_id, (input_ledger_id: number) => updateComponent(index, { input_ledger_id }))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setFormData((prev: CreateTaxRateInput) => ({
+                            ...prev,
+                            components: prev.components.filter((_: TaxComponentInput, i: number) => i !== index)
+                          }))}
+                        >
+                          ✖
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {formData.components.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500">
+                        No components: the rate is exempt or nil-rated
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!unusedHead}
+                  onClick={() => unusedHead && setFormData((prev: CreateTaxRateInput) => ({
+                    ...prev,
+                    components: [...prev.components, emptyComponent(unusedHead, prev.rate)]
+                  }))}
+                >
+                  ➕ Add Component
+                </Button>
+                <Button type="button" variant="outline" size="sm" disabled={formData.rate <= 0} onClick={splitAsGst}>
+                  Split as CGST + SGST / IGST
+                </Button>
+                <div className={`text-sm ${isBalanced ? 'text-gray-600' : 'text-red-600'}`}>
+                  {chargedTotals.map(({ supplyType, total }) => `${supplyTypeLabels[supplyType]}: ${formatMoney(total)}%`).join(' · ')}
+                  {!isBalanced && ` (must add up to ${formatMoney(parseMoney(formData.rate))}%)`}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading || !formData.name || !isBalanced || hasInvalidComponents}>
+                  {isLoading ? 'Saving...' : (editingRate ? 'Update' : 'Create')}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Registration */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">🏢 Tax Registration</CardTitle>
+          <CardDescription>
+            Supplies to contacts in another state are inter-state. A contact without a state is treated as within the state.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveSettings} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2 space-y-2">
+              <Label htmlFor="business-tax-id">GSTIN / VAT Number</Label>
+              <Input
+                id="business-tax-id"
+                value={settingsForm.tax_id || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const taxId = e.target.value.trim().toUpperCase() || null;
+                  setSettingsForm((prev: UpdateTaxSettingsInput) => ({ ...prev, tax_id: taxId, state_code: gstinStateCode(taxId) ?? prev.state_code }));
+                }}
+                placeholder="e.g. 33AAACH7409R1Z8"
+              />
+              {hasInvalidTaxId && (
+                <p className="text-xs text-red-600">Not a valid GSTIN or VAT number</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-state-code">State Code</Label>
+              <Input
+                id="business-state-code"
+                value={settingsForm.state_code || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setSettingsForm((prev: UpdateTaxSettingsInput) => ({ ...prev, state_code: e.target.value.trim().toUpperCase() || null }))
+                }
+                placeholder="e.g. 33"
+                maxLength={2}
+                disabled={hasRegisteredState}
+              />
+            </div>
+            <Button type="submit" disabled={isLoading || hasInvalidTaxId || settings === null}>
+              {isLoading ? 'Saving...' : '💾 Save'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Tax Rates Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📋 Tax Rates ({taxRates.length})</CardTitle>
+          <CardDescription>Vouchers and invoice lines carrying a rate post its tax to these ledgers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {taxRates.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No tax rates yet. Create one above!</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Components</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxRates.map((taxRate: TaxRate) => (
+                  <TableRow key={taxRate.id}>
+                    <TableCell className="font-medium">{taxRate.name}</TableCell>
+                    <TableCell className="text-right font-mono">{taxRate.rate.toFixed(2)}%</TableCell>
+                    <TableCell className="text-sm">
+                      {taxRate.components.length === 0 ? '—' : taxRate.components.map(component => (
+                        <div key={component.id}>
+                          {taxHeadLabels[component.head]} {component.rate}%
+                          <span className="text-gray-500"> · {ledgerName(component.output_ledger_id)} / {ledgerName(component.input_ledger_id)}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(taxRate)}>
+                          ✏️ Edit
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                              🗑️ Delete
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Tax Rate</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{taxRate.name}"? Rates used by vouchers or invoices cannot be deleted.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(taxRate)} className="bg-red-600 hover:bg-red-700">
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
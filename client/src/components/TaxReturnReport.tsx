@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { downloadFile } from '@/utils/download';
+import type { TaxHeadSummary, TaxRateSummary, TaxReturnForm, TaxSummary } from '../../../server/src/schema';
+import { taxHeadLabels } from '../../../server/src/taxes';
+
+const returnFormLabels: Record<TaxReturnForm, string> = {
+  gstr1: 'GSTR-1',
+  gstr3b: 'GSTR-3B'
+};
+
+const returnForms = Object.keys(returnFormLabels) as TaxReturnForm[];
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+export function TaxReturnReport() {
+  const today = new Date().toISOString().split('T')[0];
+  const [startDate, setStartDate] = useState(`${today.slice(0, 8)}01`);
+  const [endDate, setEndDate] = useState(today);
+  const [summary, setSummary] = useState<TaxSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exportingForm, setExportingForm] = useState<TaxReturnForm | null>(null);
+  const [error, setError] = useState('');
+
+  const period = () => ({ start_date: new Date(startDate), end_date: new Date(endDate) });
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setSummary(await trpc.getTaxSummary.query(period()));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate tax summary');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = async (form: TaxReturnForm) => {
+    setExportingForm(form);
+    setError('');
+
+    try {
+      downloadFile(await trpc.exportTaxReturn.query({ ...period(), form }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Export failed');
+      console.error('Export error:', error);
+    } finally {
+      setExportingForm(null);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    return amount < 0 ? `($${Math.abs(amount).toFixed(2)})` : `$${amount.toFixed(2)}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🧾 Tax Returns</h2>
+        <p className="text-gray-600">Output tax, input tax credit and net tax payable for a period</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📊 Tax Summary Generator</CardTitle>
+          <CardDescription>
+            Credit notes and debit notes reduce the tax of the period; a negative net payable is credit carried forward
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="tax-start-date">From</Label>
+              <Input
+                id="tax-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-end-date">To</Label>
+              <Input
+                id="tax-end-date"
+                type="date"
+                value={endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGenerateReport} disabled={isLoading || !startDate || !endDate} className="bg-orange-600 hover:bg-orange-700">
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">Return JSON:</span>
+            {returnForms.map((form: TaxReturnForm) => (
+              <Button
+                key={form}
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport(form)}
+                disabled={!startDate || !endDate || exportingForm !== null}
+              >
+                {exportingForm === form ? 'Exporting...' : `⬇️ ${returnFormLabels[form]}`}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div className="rounded-md bg-gray-50 p-3">
+              <p className="text-gray-500">Output tax</p>
+              <p className="font-mono font-semibold">{formatAmount(summary.total_output_tax)}</p>
+            </div>
+            <div className="rounded-md bg-gray-50 p-3">
+              <p className="text-gray-500">Input tax credit</p>
+              <p className="font-mono font-semibold">{formatAmount(summary.total_input_tax)}</p>
+            </div>
+            <div className="rounded-md bg-gray-50 p-3">
+              <p className="text-gray-500">Net payable</p>
+              <p className={`font-mono font-semibold ${summary.net_payable < 0 ? 'text-green-700' : 'text-red-700'}`}>
+                {formatAmount(summary.net_payable)}
+              </p>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                🧮 Tax by Head, {formatDate(summary.start_date)} to {formatDate(summary.end_date)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tax Head</TableHead>
+                    <TableHead className="text-right">Output Tax</TableHead>
+                    <TableHead className="text-right">Input Credit</TableHead>
+                    <TableHead className="text-right">Net Payable</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.heads.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-gray-500">No tax in this period</TableCell>
+                    </TableRow>
+                  ) : summary.heads.map((head: TaxHeadSummary) => (
+                    <TableRow key={head.head}>
+                      <TableCell className="font-medium">{taxHeadLabels[head.head]}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(head.output_tax)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(head.input_tax)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(head.net_payable)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow className="font-bold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(summary.total_output_tax)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(summary.total_input_tax)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(summary.net_payable)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">📋 Taxable Value by Rate</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tax Rate</TableHead>
+                    <TableHead className="text-right">Outward Taxable</TableHead>
+                    <TableHead className="text-right">Output Tax</TableHead>
+                    <TableHead className="text-right">Inward Taxable</TableHead>
+                    <TableHead className="text-right">Input Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.rates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500">No taxable supplies in this period</TableCell>
+                    </TableRow>
+                  ) : summary.rates.map((rate: TaxRateSummary) => (
+                    <TableRow key={rate.tax_rate_id}>
+                      <TableCell className="font-medium">{rate.name}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(rate.output_taxable)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(rate.output_tax)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(rate.input_taxable)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(rate.input_tax)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
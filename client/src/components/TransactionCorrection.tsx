@@ -1,28 +1,562 @@
-
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { trpc } from '@/utils/trpc';
+import type {
+  Contact,
+  CorrectionChainEntry,
+  CreateTransactionInput,
+  EntryStatus,
+  Ledger,
+  TaxRate,
+  TransactionEntry as TransactionEntryType,
+  VoucherType
+} from '../../../server/src/schema';
+import { type Money, isValidMoney, parseMoney, formatMoney, moneyToNumber, sumMoney, ZERO_MONEY } from '../../../server/src/money';
+import { voucherTypeLabels, voucherTypes } from '../../../server/src/vouchers';
+import { type TaxDetail, supplyTypeFor, taxDirections, voucherTaxLines } from '../../../server/src/taxes';
+
+interface CorrectionDetail {
+  ledger_id: number;
+  debit_amount: number;
+  credit_amount: number;
+  description: string | null;
+  tax_rate_id: number | null;
+}
+
+const statusLabels: Record<EntryStatus, string> = {
+  active: 'Active',
+  superseded: 'Superseded',
+  reversal: 'Reversal'
+};
+
+const statusVariants: Record<EntryStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  superseded: 'secondary',
+  reversal: 'outline'
+};
+
+interface TransactionCorrectionProps {
+  canOverrideLocks: boolean;
+}
+
+export function TransactionCorrection({ canOverrideLocks }: TransactionCorrectionProps) {
+  const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [homeStateCode, setHomeStateCode] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<TransactionEntryType[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<TransactionEntryType | null>(null);
+  const [chain, setChain] = useState<CorrectionChainEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [overrideLock, setOverrideLock] = useState(false);
+
+  const [formData, setFormData] = useState<CreateTransactionInput>({
+    voucher_type: 'journal',
+    entry_date: new Date(),
+    description: '',
+    details: []
+  });
+
+  const loadData = useCallback(async () => {
+    try {
+      const [ledgersResult, transactionsResult, contactsResult, taxRatesResult, taxSettings] = await Promise.all([
+        trpc.getLedgers.query(),
+        trpc.getTransactions.query(),
+        trpc.getContacts.query(),
+        trpc.getTaxRates.query(),
+        trpc.getTaxSettings.query()
+      ]);
+      setLedgers(ledgersResult);
+      setContacts(contactsResult);
+      setTaxRates(taxRatesResult);
+      setHomeStateCode(taxSettings.state_code);
+      setTransactions(transactionsResult);
+    } catch (error) {
+      setError('Failed to load data');
+      console.error('Load data error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectTransaction = async (transaction: TransactionEntryType) => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const result = await trpc.getCorrectionChain.query({ id: transaction.id });
+      const current = result.find((entry: CorrectionChainEntry) => entry.id === transaction.id);
+
+      setSelected(transaction);
+      setChain(result);
+      setFormData({
+        voucher_type: transaction.voucher_type,
+        entry_date: transaction.entry_date,
+        description: transaction.description,
+        // Tax lines are posted again from the rates of the taxed lines
+        details: (current?.details ?? []).filter(detail => detail.tax_component_id === null).map(detail => ({
+          ledger_id: detail.ledger_id,
+          debit_amount: detail.debit_amount,
+          credit_amount: detail.credit_amount,
+          description: detail.description,
+          tax_rate_id: detail.tax_rate_id
+        }))
+      });
+    } catch (error) {
+      setError('Failed to load voucher history');
+      console.error('Load correction chain error:', error);
+    }
+  };
+
+  const addDetailRow = () => {
+    setFormData((prev: CreateTransactionInput) => ({
+      ...prev,
+      details: [...prev.details, { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null, tax_rate_id: null }]
+    }));
+  };
+
+  const removeDetailRow = (index: number) => {
+    if (formData.details.length <= 2) return; // Keep at least 2 rows
+
+    setFormData((prev: CreateTransactionInput) => ({
+      ...prev,
+      details: prev.details.filter((_, i) => i !== index)
+    }));
+  };
+
+  const updateDetail = (index: number, field: keyof CorrectionDetail, value: string | number | null) => {
+    setFormData((prev: CreateTransactionInput) => ({
+      ...prev,
+      details: prev.details.map((detail, i) =>
+        i === index ? { ...detail, [field]: value } : detail
+      )
+    }));
+  };
+
+  // Amounts with more than two decimals are left out of the totals and block saving
+  const toMoney = (amount: number): Money => {
+    return isValidMoney(amount) ? parseMoney(amount) : ZERO_MONEY;
+  };
+
+  const hasInvalidAmounts = () => {
+    return formData.details.some(detail => !isValidMoney(detail.debit_amount) || !isValidMoney(detail.credit_amount));
+  };
+
+  // Lines as they will be posted; only taxable vouchers keep their tax rates
+  const isTaxable = taxDirections[formData.voucher_type] !== undefined;
+  const details = formData.details.map(detail => ({ ...detail, tax_rate_id: isTaxable ? detail.tax_rate_id ?? null : null }));
+
+  // Tax lines the server adds, by the place of supply of the first contact ledger
+  const partyLedger = ledgers.find((ledger: Ledger) => ledger.contact_id !== null && details.some(detail => detail.ledger_id === ledger.id));
+  const partyStateCode = contacts.find((contact: Contact) => contact.id === partyLedger?.contact_id)?.state_code ?? null;
+  const taxLines: TaxDetail[] = isTaxable ? voucherTaxLines(
+    formData.voucher_type,
+    details.map(detail => ({ ...detail, debit_amount: moneyToNumber(toMoney(detail.debit_amount)), credit_amount: moneyToNumber(toMoney(detail.credit_amount)) })),
+    taxRates,
+    supplyTypeFor(homeStateCode, partyStateCode)
+  ) : [];
+
+  const totalDebits = sumMoney([...details, ...taxLines].map(detail => toMoney(detail.debit_amount)));
+  const totalCredits = sumMoney([...details, ...taxLines].map(detail => toMoney(detail.credit_amount)));
+  const isBalanced = !hasInvalidAmounts() && totalDebits === totalCredits && totalDebits > ZERO_MONEY;
+
+  const getLedgerName = (ledgerId: number) => {
+    return ledgers.find((ledger: Ledger) => ledger.id === ledgerId)?.name ?? `Ledger #${ledgerId}`;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    if (hasInvalidAmounts()) {
+      setError('Amounts can have at most two decimal places.');
+      return;
+    }
+
+    if (!isBalanced) {
+      setError('Correction is not balanced. Total debits must equal total credits.');
+      return;
+    }
+
+    if (formData.details.some(detail => detail.ledger_id === 0)) {
+      setError('Select a ledger for every line.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const correction = await trpc.correctTransaction.mutate({
+        id: selected.id,
+        correction_data: { ...formData, details },
+        override_lock: overrideLock || undefined
+      });
+      setSuccess(`${selected.entry_number} reversed and replaced by ${correction.entry_number}`);
+      setSelected(null);
+      setChain([]);
+      loadData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to correct transaction');
+      console.error('Submit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDateForInput = (date: Date) => {
+    return date.toISOString().split('T')[0];
+  };
+
+  const filteredTransactions = transactions.filter((transaction: TransactionEntryType) => {
+    const term = search.trim().toLowerCase();
+    return term === ''
+      || transaction.entry_number.toLowerCase().includes(term)
+      || transaction.description.toLowerCase().includes(term);
+  });
 
-export function TransactionCorrection() {
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold text-gray-900">✏️ Transaction Correction</h2>
-        <p className="text-gray-600">Correct existing transaction entries</p>
+        <p className="text-gray-600">Correct a voucher by reversing it and posting a replacement</p>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Voucher List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">🔍 Vouchers</CardTitle>
+            <CardDescription>Only active vouchers can be corrected</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              value={search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+              placeholder="Search by number or description"
+            />
+            {filteredTransactions.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No vouchers found.</p>
+              </div>
+            ) : (
+              <div className="max-h-[32rem] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Number</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredTransactions.map((transaction: TransactionEntryType) => (
+                      <TableRow
+                        key={transaction.id}
+                        className={selected?.id === transaction.id ? 'bg-blue-50' : undefined}
+                      >
+                        <TableCell>
+                          <div className="font-mono text-sm">{transaction.entry_number}</div>
+                          <div className="text-xs text-gray-500">{transaction.description}</div>
+                        </TableCell>
+                        <TableCell>{transaction.entry_date.toLocaleDateString()}</TableCell>
+                        <TableCell>${formatMoney(parseMoney(transaction.total_amount))}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[transaction.status]}>{statusLabels[transaction.status]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={transaction.status !== 'active'}
+                            onClick={() => selectTransaction(transaction)}
+                          >
+                            ✏️ Correct
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Voucher History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">🕘 History</CardTitle>
+            <CardDescription>Every version of the selected voucher with its reversals</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {chain.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Select a voucher to see its history.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {chain.map((entry: CorrectionChainEntry) => (
+                  <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-mono text-sm font-semibold">{entry.entry_number}</span>
+                        <span className="text-sm text-gray-500 ml-2">{entry.entry_date.toLocaleDateString()}</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Badge variant="outline">{voucherTypeLabels[entry.voucher_type]}</Badge>
+                        <Badge variant={statusVariants[entry.status]}>{statusLabels[entry.status]}</Badge>
+                      </div>
+                    </div>
+                    <div className="text-sm text-gray-600">{entry.description}</div>
+                    <div className="text-sm space-y-1">
+                      {entry.details.map(detail => (
+                        <div key={detail.id} className="flex justify-between">
+                          <span>{getLedgerName(detail.ledger_id)}</span>
+                          <span className="font-mono">
+                            {detail.debit_amount > 0
+                              ? `Dr $${formatMoney(parseMoney(detail.debit_amount))}`
+                              : `Cr $${formatMoney(parseMoney(detail.credit_amount))}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">🔧 Transaction Correction Tool</CardTitle>
-          <CardDescription>Search and correct existing transactions</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-gray-500">Transaction correction interface will be implemented here.</p>
-            <p className="text-sm text-gray-400 mt-2">
-              This will allow users to search for transactions and create correction entries.
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      {/* Correction Form */}
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">🔧 Correct {selected.entry_number}</CardTitle>
+            <CardDescription>
+              The original is reversed on its own date and the corrected voucher is posted with a new number
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="correction-voucher-type">Voucher Type *</Label>
+                  <Select
+                    value={formData.voucher_type || 'journal'}
+                    onValueChange={(value: string) =>
+                      setFormData((prev: CreateTransactionInput) => ({ ...prev, voucher_type: value as VoucherType }))
+                    }
+                  >
+                    <SelectTrigger id="correction-voucher-type" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {voucherTypes.map((voucherType: VoucherType) => (
+                        <SelectItem key={voucherType} value={voucherType}>
+                          {voucherTypeLabels[voucherType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="correction-date">Entry Date *</Label>
+                  <Input
+                    id="correction-date"
+                    type="date"
+                    value={formatDateForInput(formData.entry_date)}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateTransactionInput) => ({ ...prev, entry_date: new Date(e.target.value) }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="correction-description">Description *</Label>
+                  <Input
+                    id="correction-description"
+                    value={formData.description}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateTransactionInput) => ({ ...prev, description: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-semibold">Corrected Details</Label>
+                  <Button type="button" variant="outline" onClick={addDetailRow}>
+                    ➕ Add Row
+                  </Button>
+                </div>
+
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ledger</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Debit</TableHead>
+                        <TableHead>Credit</TableHead>
+                        {isTaxable && <TableHead>Tax Rate</TableHead>}
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {formData.details.map((detail, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Select
+                              value={detail.ledger_id.toString()}
+                              onValueChange={(value: string) => updateDetail(index, 'ledger_id', parseInt(value))}
+                            >
+                              <SelectTrigger className="w-full">
+                                <SelectValue placeholder="Select ledger" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ledgers.map((ledger: Ledger) => (
+                                  <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                                    {ledger.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={detail.description || ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                updateDetail(index, 'description', e.target.value || null)
+                              }
+                              placeholder="Line description"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={detail.debit_amount}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                updateDetail(index, 'debit_amount', parseFloat(e.target.value) || 0)
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={detail.credit_amount}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                updateDetail(index, 'credit_amount', parseFloat(e.target.value) || 0)
+                              }
+                            />
+                          </TableCell>
+                          {isTaxable && (
+                            <TableCell>
+                              <Select
+                                value={detail.tax_rate_id?.toString() ?? 'none'}
+                                onValueChange={(value: string) => updateDetail(index, 'tax_rate_id', value === 'none' ? null : parseInt(value))}
+                              >
+                                <SelectTrigger className="w-full">
+                                  <SelectValue placeholder="No tax" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">No tax</SelectItem>
+                                  {taxRates.map((taxRate: TaxRate) => (
+                                    <SelectItem key={taxRate.id} value={taxRate.id.toString()}>{taxRate.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeDetailRow(index)}
+                              disabled={formData.details.length <= 2}
+                            >
+                              🗑️
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      {taxLines.map((line: TaxDetail) => (
+                        <TableRow key={`tax-${line.tax_component_id}`} className="text-sm text-gray-600">
+                          <TableCell>{getLedgerName(line.ledger_id)}</TableCell>
+                          <TableCell>{line.description}</TableCell>
+                          <TableCell className="font-mono">{line.debit_amount > 0 ? line.debit_amount.toFixed(2) : ''}</TableCell>
+                          <TableCell className="font-mono">{line.credit_amount > 0 ? line.credit_amount.toFixed(2) : ''}</TableCell>
+                          <TableCell colSpan={2}>Added automatically</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex justify-end gap-6 text-sm">
+                  <span>Total Debits: <span className="font-semibold">${formatMoney(totalDebits)}</span></span>
+                  <span>Total Credits: <span className="font-semibold">${formatMoney(totalCredits)}</span></span>
+                  <span className={isBalanced ? 'text-green-600' : 'text-red-600'}>
+                    {isBalanced ? '✅ Balanced' : '❌ Not balanced'}
+                  </span>
+                </div>
+              </div>
+
+              {canOverrideLocks && (
+                <div className="flex items-center space-x-2">
+                  <Switch id="override-lock" checked={overrideLock} onCheckedChange={setOverrideLock} />
+                  <Label htmlFor="override-lock" className="text-sm">Override period lock (recorded in the audit log)</Label>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => { setSelected(null); setChain([]); }}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading || !isBalanced}>
+                  {isLoading ? 'Posting...' : 'Post Correction'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
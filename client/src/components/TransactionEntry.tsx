@@ -7,39 +7,97 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { trpc } from '@/utils/trpc';
-import type { CreateTransactionInput, Ledger, TransactionEntry as TransactionEntryType } from '../../../server/src/schema';
+import type { Contact, CreateTransactionInput, Ledger, SupplyType, TaxRate, TransactionEntry as TransactionEntryType, VoucherType } from '../../../server/src/schema';
+import { type Money, isValidMoney, parseMoney, formatMoney, moneyToNumber, sumMoney, absMoney, ZERO_MONEY } from '../../../server/src/money';
+import { voucherTypeLabels, voucherTypes, isMoneyLedgerType } from '../../../server/src/vouchers';
+import { type TaxDetail, supplyTypeFor, supplyTypeLabels, taxDirections, voucherTaxLines } from '../../../server/src/taxes';
 
 interface TransactionDetail {
   ledger_id: number;
   debit_amount: number;
   credit_amount: number;
   description: string | null;
+  tax_rate_id: number | null;
 }
 
-export function TransactionEntry() {
+type LedgerFilter = 'money' | 'non-money' | 'any';
+
+// Vouchers that move one amount from one ledger to another get a two-ledger
+// form; the remaining types use the multi-line grid
+interface SimpleVoucherForm {
+  debitLabel: string;
+  creditLabel: string;
+  debitLedgers: LedgerFilter;
+  creditLedgers: LedgerFilter;
+  // Side of the line that carries the tax rate, on taxable vouchers
+  taxedSide?: 'debit' | 'credit';
+}
+
+const simpleVoucherForms: Partial<Record<VoucherType, SimpleVoucherForm>> = {
+  payment: { debitLabel: 'Paid To', creditLabel: 'Paid From (Cash/Bank)', debitLedgers: 'any', creditLedgers: 'money' },
+  receipt: { debitLabel: 'Received Into (Cash/Bank)', creditLabel: 'Received From', debitLedgers: 'money', creditLedgers: 'any' },
+  contra: { debitLabel: 'Deposit To (Cash/Bank)', creditLabel: 'Withdraw From (Cash/Bank)', debitLedgers: 'money', creditLedgers: 'money' },
+  sales: { debitLabel: 'Customer / Cash', creditLabel: 'Sales Ledger', debitLedgers: 'any', creditLedgers: 'any', taxedSide: 'credit' },
+  purchase: { debitLabel: 'Purchase Ledger', creditLabel: 'Supplier / Cash', debitLedgers: 'any', creditLedgers: 'any', taxedSide: 'debit' }
+};
+
+interface SimpleVoucherData {
+  debit_ledger_id: number;
+  credit_ledger_id: number;
+  amount: number;
+  tax_rate_id: number | null;
+}
+
+const emptyDetail = (): TransactionDetail => ({ ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null, tax_rate_id: null });
+
+const emptyDetails = (): TransactionDetail[] => [emptyDetail(), emptyDetail()];
+
+const emptySimpleData: SimpleVoucherData = { debit_ledger_id: 0, credit_ledger_id: 0, amount: 0, tax_rate_id: null };
+
+interface TransactionEntryProps {
+  canOverrideLocks: boolean;
+}
+
+export function TransactionEntry({ canOverrideLocks }: TransactionEntryProps) {
   const [ledgers, setLedgers] = useState<Ledger[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [homeStateCode, setHomeStateCode] = useState<string | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<TransactionEntryType[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [overrideLock, setOverrideLock] = useState(false);
 
   const [formData, setFormData] = useState<CreateTransactionInput>({
+    voucher_type: 'payment',
     entry_date: new Date(),
     description: '',
-    details: [
-      { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null },
-      { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null }
-    ]
+    details: emptyDetails()
   });
 
+  const [simpleData, setSimpleData] = useState<SimpleVoucherData>(emptySimpleData);
+
+  const simpleForm = simpleVoucherForms[formData.voucher_type];
+  const isTaxable = taxDirections[formData.voucher_type] !== undefined;
+
   const loadData = useCallback(async () => {
     try {
-      const [ledgersResult, transactionsResult] = await Promise.all([
+      const [ledgersResult, transactionsResult, contactsResult, taxRatesResult, taxSettings] = await Promise.all([
         trpc.getLedgers.query(),
-        trpc.getTransactions.query()
+        trpc.getTransactions.query(),
+        trpc.getContacts.query(),
+        trpc.getTaxRates.query(),
+        trpc.getTaxSettings.query()
       ]);
       setLedgers(ledgersResult);
+      setContacts(contactsResult);
+      setTaxRates(taxRatesResult);
+      setHomeStateCode(taxSettings.state_code);
       setRecentTransactions(transactionsResult.slice(0, 10)); // Show only recent 10
     } catch (error) {
       setError('Failed to load data');
@@ -51,10 +109,78 @@ export function TransactionEntry() {
     loadData();
   }, [loadData]);
 
+  const getLedgerOptions = (filter: LedgerFilter) => {
+    switch (filter) {
+      case 'money': return ledgers.filter((ledger: Ledger) => isMoneyLedgerType(ledger.ledger_type));
+      case 'non-money': return ledgers.filter((ledger: Ledger) => !isMoneyLedgerType(ledger.ledger_type));
+      case 'any': return ledgers;
+    }
+  };
+
+  const changeVoucherType = (voucherType: VoucherType) => {
+    setFormData((prev: CreateTransactionInput) => ({ ...prev, voucher_type: voucherType, details: emptyDetails() }));
+    setSimpleData(emptySimpleData);
+    setError('');
+  };
+
+  // Amounts with more than two decimals are left out of the totals and block saving
+  const toMoney = (amount: number): Money => {
+    return isValidMoney(amount) ? parseMoney(amount) : ZERO_MONEY;
+  };
+
+  // Place of supply of the contact of the first contact ledger, as the server
+  // works it out
+  const getSupplyType = (details: TransactionDetail[]): SupplyType => {
+    const partyLedger = ledgers.find((ledger: Ledger) =>
+      ledger.contact_id !== null && details.some((detail: TransactionDetail) => detail.ledger_id === ledger.id)
+    );
+    const contact = contacts.find((item: Contact) => item.id === partyLedger?.contact_id);
+    return supplyTypeFor(homeStateCode, contact?.state_code ?? null);
+  };
+
+  // Tax lines the server adds for the lines carrying a tax rate
+  const getTaxLines = (details: TransactionDetail[]): TaxDetail[] => {
+    const taxedDetails = details
+      .filter((detail: TransactionDetail) => detail.tax_rate_id !== null)
+      .map((detail: TransactionDetail) => ({ ...detail, debit_amount: moneyToNumber(toMoney(detail.debit_amount)), credit_amount: moneyToNumber(toMoney(detail.credit_amount)) }));
+    return isTaxable ? voucherTaxLines(formData.voucher_type, taxedDetails, taxRates, getSupplyType(details)) : [];
+  };
+
+  // Detail lines that will be posted, built from the two-ledger form when the
+  // voucher type has one. The party side of a taxed two-ledger voucher
+  // includes the tax.
+  const getDetails = (): TransactionDetail[] => {
+    if (!simpleForm) {
+      return formData.details.map(detail => ({ ...detail, description: detail.description ?? null, tax_rate_id: isTaxable ? detail.tax_rate_id ?? null : null }));
+    }
+
+    const taxRateId = simpleForm.taxedSide ? simpleData.tax_rate_id : null;
+    const details: TransactionDetail[] = [
+      { ledger_id: simpleData.debit_ledger_id, debit_amount: simpleData.amount, credit_amount: 0, description: null, tax_rate_id: simpleForm.taxedSide === 'debit' ? taxRateId : null },
+      { ledger_id: simpleData.credit_ledger_id, debit_amount: 0, credit_amount: simpleData.amount, description: null, tax_rate_id: simpleForm.taxedSide === 'credit' ? taxRateId : null }
+    ];
+    if (taxRateId === null || !isValidMoney(simpleData.amount)) {
+      return details;
+    }
+
+    const tax = absMoney(sumMoney(getTaxLines(details).map((line: TaxDetail) => parseMoney(line.credit_amount) - parseMoney(line.debit_amount))));
+    const partyIndex = simpleForm.taxedSide === 'credit' ? 0 : 1;
+    const partyField = partyIndex === 0 ? 'debit_amount' : 'credit_amount';
+    return details.map((detail: TransactionDetail, index: number) =>
+      index === partyIndex ? { ...detail, [partyField]: moneyToNumber(parseMoney(simpleData.amount) + tax) } : detail
+    );
+  };
+
+  // Lines and tax lines, which together have to balance
+  const getPostedLines = (): (TransactionDetail | TaxDetail)[] => {
+    const details = getDetails();
+    return [...details, ...getTaxLines(details)];
+  };
+
   const addDetailRow = () => {
     setFormData((prev: CreateTransactionInput) => ({
       ...prev,
-      details: [...prev.details, { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null }]
+      details: [...prev.details, emptyDetail()]
     }));
   };
 
@@ -76,56 +202,93 @@ export function TransactionEntry() {
     }));
   };
 
+  const hasInvalidAmounts = () => {
+    return getDetails().some(detail => !isValidMoney(detail.debit_amount) || !isValidMoney(detail.credit_amount));
+  };
+
   const getTotalDebits = () => {
-    return formData.details.reduce((sum, detail) => sum + detail.debit_amount, 0);
+    return sumMoney(getPostedLines().map(detail => toMoney(detail.debit_amount)));
   };
 
   const getTotalCredits = () => {
-    return formData.details.reduce((sum, detail) => sum + detail.credit_amount, 0);
+    return sumMoney(getPostedLines().map(detail => toMoney(detail.credit_amount)));
+  };
+
+  const hasMissingLedgers = () => {
+    return getDetails().some(detail => detail.ledger_id === 0);
   };
 
   const isBalanced = () => {
     const totalDebits = getTotalDebits();
     const totalCredits = getTotalCredits();
-    return Math.abs(totalDebits - totalCredits) < 0.01 && totalDebits > 0;
+    return !hasInvalidAmounts() && totalDebits === totalCredits && totalDebits > ZERO_MONEY;
   };
 
   const resetForm = () => {
-    setFormData({
+    setFormData((prev: CreateTransactionInput) => ({
+      voucher_type: prev.voucher_type,
       entry_date: new Date(),
       description: '',
-      details: [
-        { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null },
-        { ledger_id: 0, debit_amount: 0, credit_amount: 0, description: null }
-      ]
-    });
+      details: emptyDetails()
+    }));
+    setSimpleData((prev: SimpleVoucherData) => ({ ...emptySimpleData, tax_rate_id: prev.tax_rate_id }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (hasInvalidAmounts()) {
+      setError('Amounts can have at most two decimal places.');
+      return;
+    }
+
     if (!isBalanced()) {
       setError('Transaction is not balanced. Total debits must equal total credits.');
       return;
     }
 
+    if (hasMissingLedgers()) {
+      setError('Select a ledger for every line.');
+      return;
+    }
+
     setIsLoading(true);
     setError('');
     setSuccess('');
 
     try {
-      const newTransaction = await trpc.createTransaction.mutate(formData);
-      setSuccess(`Transaction created successfully! Entry Number: ${newTransaction.entry_number}`);
+      const newTransaction = await trpc.createTransaction.mutate({
+        ...formData,
+        details: getDetails(),
+        override_lock: overrideLock || undefined
+      });
+      setSuccess(`${voucherTypeLabels[newTransaction.voucher_type]} voucher created successfully! Entry Number: ${newTransaction.entry_number}`);
       resetForm();
       loadData(); // Reload recent transactions
     } catch (error) {
-      setError('Failed to create transaction');
+      setError(error instanceof Error ? error.message : 'Failed to create transaction');
       console.error('Submit error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const ledgerName = (id: number) => ledgers.find((ledger: Ledger) => ledger.id === id)?.name ?? `#${id}`;
+
+  const taxRateSelect = (value: number | null, onChange: (taxRateId: number | null) => void) => (
+    <Select value={value?.toString() ?? 'none'} onValueChange={(id: string) => onChange(id === 'none' ? null : parseInt(id))}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="No tax" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">No tax</SelectItem>
+        {taxRates.map((taxRate: TaxRate) => (
+          <SelectItem key={taxRate.id} value={taxRate.id.toString()}>{taxRate.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   const formatDateForInput = (date: Date) => {
     return date.toISOString().split('T')[0];
   };
@@ -142,11 +305,22 @@ export function TransactionEntry() {
         <div className="lg:col-span-2">
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">💰 New Transaction</CardTitle>
-              <CardDescription>Fill in the transaction details below</CardDescription>
+              <CardTitle className="text-lg">💰 New {voucherTypeLabels[formData.voucher_type]} Voucher</CardTitle>
+              <CardDescription>Choose the voucher type, then fill in the details below</CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Voucher Type */}
+                <Tabs value={formData.voucher_type} onValueChange={(value: string) => changeVoucherType(value as VoucherType)}>
+                  <TabsList className="flex flex-wrap h-auto">
+                    {voucherTypes.map((voucherType: VoucherType) => (
+                      <TabsTrigger key={voucherType} value={voucherType}>
+                        {voucherTypeLabels[voucherType]}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+
                 {/* Header Information */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -182,110 +356,218 @@ export function TransactionEntry() {
                 </div>
 
                 {/* Transaction Details */}
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <Label className="text-base font-semibold">Transaction Details</Label>
-                    <Button type="button" variant="outline" onClick={addDetailRow}>
-                      ➕ Add Row
-                    </Button>
+                {simpleForm ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="debit-ledger">{simpleForm.debitLabel} *</Label>
+                      <Select
+                        value={simpleData.debit_ledger_id.toString()}
+                        onValueChange={(value: string) =>
+                          setSimpleData((prev: SimpleVoucherData) => ({ ...prev, debit_ledger_id: parseInt(value) }))
+                        }
+                      >
+                        <SelectTrigger id="debit-ledger" className="w-full">
+                          <SelectValue placeholder="Select ledger" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getLedgerOptions(simpleForm.debitLedgers).map((ledger: Ledger) => (
+                            <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                              {ledger.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="credit-ledger">{simpleForm.creditLabel} *</Label>
+                      <Select
+                        value={simpleData.credit_ledger_id.toString()}
+                        onValueChange={(value: string) =>
+                          setSimpleData((prev: SimpleVoucherData) => ({ ...prev, credit_ledger_id: parseInt(value) }))
+                        }
+                      >
+                        <SelectTrigger id="credit-ledger" className="w-full">
+                          <SelectValue placeholder="Select ledger" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getLedgerOptions(simpleForm.creditLedgers).map((ledger: Ledger) => (
+                            <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                              {ledger.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="amount">Amount *</Label>
+                      <Input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={simpleData.amount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setSimpleData((prev: SimpleVoucherData) => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))
+                        }
+                        placeholder="0.00"
+                      />
+                      {hasInvalidAmounts() && (
+                        <div className="text-sm text-red-600">Amounts can have at most two decimal places</div>
+                      )}
+                    </div>
+                    {simpleForm.taxedSide && (
+                      <div className="space-y-2">
+                        <Label htmlFor="tax-rate">Tax Rate</Label>
+                        {taxRateSelect(simpleData.tax_rate_id, (taxRateId: number | null) =>
+                          setSimpleData((prev: SimpleVoucherData) => ({ ...prev, tax_rate_id: taxRateId }))
+                        )}
+                      </div>
+                    )}
+                    {simpleForm.taxedSide && simpleData.tax_rate_id !== null && (
+                      <div className="md:col-span-2 space-y-1 text-sm text-gray-600">
+                        <div>Place of supply: {supplyTypeLabels[getSupplyType(getDetails())]}</div>
+                        {getTaxLines(getDetails()).map((line: TaxDetail) => (
+                          <div key={line.tax_component_id}>
+                            {line.description} to {ledgerName(line.ledger_id)}: ${formatMoney(absMoney(parseMoney(line.credit_amount) - parseMoney(line.debit_amount)))}
+                          </div>
+                        ))}
+                        <div className="font-semibold">
+                          Voucher total: ${formatMoney(getTotalDebits())}
+                        </div>
+                      </div>
+                    )}
                   </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-base font-semibold">Transaction Details</Label>
+                      <Button type="button" variant="outline" onClick={addDetailRow}>
+                        ➕ Add Row
+                      </Button>
+                    </div>
 
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Ledger</TableHead>
-                          <TableHead>Description</TableHead>
-                          <TableHead>Debit</TableHead>
-                          <TableHead>Credit</TableHead>
-                          <TableHead>Actions</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {formData.details.map((detail, index) => (
-                          <TableRow key={index}>
-                            <TableCell>
-                              <Select
-                                value={detail.ledger_id.toString()}
-                                onValueChange={(value: string) =>
-                                  updateDetail(index, 'ledger_id', parseInt(value))
-                                }
-                              >
-                                <SelectTrigger className="w-full">
-                                  <SelectValue placeholder="Select ledger" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {ledgers.map((ledger: Ledger) => (
-                                    <SelectItem key={ledger.id} value={ledger.id.toString()}>
-                                      {ledger.name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            </TableCell>
-                            <TableCell>
-                              <Input
-                                value={detail.description || ''}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                                  updateDetail(index, 'description', e.target.value || null)
-                                }
-                                placeholder="Line description"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <Input
-                                type="number"
-                                step="0.01"
-                                min="0"
-                                value={detail.debit_amount}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                                  updateDetail(index, 'debit_amount', parseFloat(e.target.value) || 0)
-                                }
-                                placeholder="0.00"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <Input
-                                type="number"
-                                step="0.01"
-                                min="0"
-                                value={detail.credit_amount}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                                  updateDetail(index, 'credit_amount', parseFloat(e.target.value) || 0)
-                                }
-                                placeholder="0.00"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              {formData.details.length > 2 && (
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => removeDetailRow(index)}
-                                  className="text-red-600 hover:text-red-700"
+                    <div className="border rounded-lg overflow-hidden">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Ledger</TableHead>
+                            <TableHead>Description</TableHead>
+                            <TableHead>Debit</TableHead>
+                            <TableHead>Credit</TableHead>
+                            {isTaxable && <TableHead>Tax Rate</TableHead>}
+                            <TableHead>Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {formData.details.map((detail, index) => (
+                            <TableRow key={index}>
+                              <TableCell>
+                                <Select
+                                  value={detail.ledger_id.toString()}
+                                  onValueChange={(value: string) =>
+                                    updateDetail(index, 'ledger_id', parseInt(value))
+                                  }
                                 >
-                                  🗑️
-                                </Button>
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue placeholder="Select ledger" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {getLedgerOptions('non-money').map((ledger: Ledger) => (
+                                      <SelectItem key={ledger.id} value={ledger.id.toString()}>
+                                        {ledger.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  value={detail.description || ''}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                    updateDetail(index, 'description', e.target.value || null)
+                                  }
+                                  placeholder="Line description"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={detail.debit_amount}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                    updateDetail(index, 'debit_amount', parseFloat(e.target.value) || 0)
+                                  }
+                                  placeholder="0.00"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={detail.credit_amount}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                    updateDetail(index, 'credit_amount', parseFloat(e.target.value) || 0)
+                                  }
+                                  placeholder="0.00"
+                                />
+                              </TableCell>
+                              {isTaxable && (
+                                <TableCell>
+                                  {taxRateSelect(detail.tax_rate_id ?? null, (taxRateId: number | null) => updateDetail(index, 'tax_rate_id', taxRateId))}
+                                </TableCell>
                               )}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
+                              <TableCell>
+                                {formData.details.length > 2 && (
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => removeDetailRow(index)}
+                                    className="text-red-600 hover:text-red-700"
+                                  >
+                                    🗑️
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          {getTaxLines(getDetails()).map((line: TaxDetail) => (
+                            <TableRow key={`tax-${line.tax_component_id}`} className="text-sm text-gray-600">
+                              <TableCell>{ledgerName(line.ledger_id)}</TableCell>
+                              <TableCell>{line.description} ({supplyTypeLabels[getSupplyType(getDetails())]})</TableCell>
+                              <TableCell className="font-mono">{line.debit_amount > 0 ? line.debit_amount.toFixed(2) : ''}</TableCell>
+                              <TableCell className="font-mono">{line.credit_amount > 0 ? line.credit_amount.toFixed(2) : ''}</TableCell>
+                              <TableCell colSpan={2}>Added automatically</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
 
-                  {/* Totals */}
-                  <div className="flex justify-end space-x-4 text-sm">
-                    <div className="text-right">
-                      <div>Total Debits: <span className="font-semibold">${getTotalDebits().toFixed(2)}</span></div>
-                      <div>Total Credits: <span className="font-semibold">${getTotalCredits().toFixed(2)}</span></div>
-                      <div className={`font-semibold ${isBalanced() ? 'text-green-600' : 'text-red-600'}`}>
-                        Difference: ${(getTotalDebits() - getTotalCredits()).toFixed(2)}
+                    {/* Totals */}
+                    <div className="flex justify-end space-x-4 text-sm">
+                      <div className="text-right">
+                        <div>Total Debits: <span className="font-semibold">${formatMoney(getTotalDebits())}</span></div>
+                        <div>Total Credits: <span className="font-semibold">${formatMoney(getTotalCredits())}</span></div>
+                        <div className={`font-semibold ${isBalanced() ? 'text-green-600' : 'text-red-600'}`}>
+                          Difference: ${formatMoney(getTotalDebits() - getTotalCredits())}
+                        </div>
+                        {hasInvalidAmounts() && (
+                          <div className="text-red-600">Amounts can have at most two decimal places</div>
+                        )}
                       </div>
                     </div>
                   </div>
-                </div>
+                )}
+
+                {canOverrideLocks && (
+                  <div className="flex items-center space-x-2">
+                    <Switch id="override-lock" checked={overrideLock} onCheckedChange={setOverrideLock} />
+                    <Label htmlFor="override-lock" className="text-sm">Override period lock (recorded in the audit log)</Label>
+                  </div>
+                )}
 
                 {/* Alerts */}
                 {error && (
@@ -330,7 +612,10 @@ export function TransactionEntry() {
                 <div className="space-y-2">
                   {recentTransactions.map((transaction: TransactionEntryType) => (
                     <div key={transaction.id} className="border rounded p-3 text-sm">
-                      <div className="font-semibold">{transaction.entry_number}</div>
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold">{transaction.entry_number}</span>
+                        <Badge variant="outline">{voucherTypeLabels[transaction.voucher_type]}</Badge>
+                      </div>
                       <div className="text-gray-600">{transaction.description}</div>
                       <div className="text-xs text-gray-500">
                         {transaction.entry_date.toLocaleDateString()} • ${transaction.total_amount.toFixed(2)}
@@ -1,7 +1,149 @@
-
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ComparativeLayoutSelect, ComparativeTable } from '@/components/ComparativeTable';
+import { ExportButtons } from '@/components/ExportButtons';
+import { trpc } from '@/utils/trpc';
+import type { ComparativeTrialBalance, ExportFormat, GroupedTrialBalance, TrialBalanceAmounts, TrialBalanceGroupLine, TrialBalanceLedgerLine } from '../../../server/src/schema';
+import type { LedgerReportFilter } from '@/components/LedgerReport';
+import { comparativeColumns, type ComparativeLayout } from '../../../server/src/periods';
+
+type Column = 'opening' | 'period' | 'closing';
+
+const columnLabels: Record<Column, string> = {
+  opening: 'Opening Balance',
+  period: 'Transactions',
+  closing: 'Closing Balance'
+};
+
+const columns = Object.keys(columnLabels) as Column[];
+
+interface TrialBalanceReportProps {
+  onOpenLedgerReport: (filter: LedgerReportFilter) => void;
+}
+
+export function TrialBalanceReport({ onOpenLedgerReport }: TrialBalanceReportProps) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [hideZeroBalances, setHideZeroBalances] = useState(true);
+  const [shownColumns, setShownColumns] = useState<Column[]>(['closing']);
+  const [isComparative, setIsComparative] = useState(false);
+  const [layout, setLayout] = useState<ComparativeLayout>('year_over_year');
+  const [report, setReport] = useState<GroupedTrialBalance | null>(null);
+  const [comparison, setComparison] = useState<ComparativeTrialBalance | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerateReport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (isComparative) {
+        const result = await trpc.getComparativeTrialBalance.query({
+          columns: comparativeColumns(layout, new Date(startDate), new Date(endDate))
+        });
+        setComparison(result);
+        setReport(null);
+      } else {
+        const result = await trpc.getGroupedTrialBalance.query({
+          start_date: startDate ? new Date(startDate) : undefined,
+          end_date: new Date(endDate),
+          hide_zero_balances: hideZeroBalances
+        });
+        setReport(result);
+        setComparison(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate trial balance');
+      console.error('Report error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleColumn = (column: Column, shown: boolean) => {
+    setShownColumns((prev: Column[]) => columns.filter((c: Column) => c === column ? shown : prev.includes(c)));
+  };
+
+  // Drill-downs cover the report period; without a financial year the
+  // report runs from the first posting, so the ledger report starts with
+  // the calendar year
+  const openLedgerReport = (filter: { ledger_id?: number; group_id?: number }) => {
+    if (!report) return;
+    onOpenLedgerReport({
+      ...filter,
+      start_date: report.start_date ?? new Date(report.end_date.getFullYear(), 0, 1),
+      end_date: report.end_date
+    });
+  };
+
+  const formatAmount = (amount: number) => amount === 0 ? '' : `$${amount.toFixed(2)}`;
+
+  const renderAmountCells = (amounts: TrialBalanceAmounts) => {
+    const cells: React.ReactNode[] = [];
+    if (shownColumns.includes('opening')) {
+      cells.push(
+        <TableCell key="opening-dr" className="text-right font-mono">
+          {amounts.balance_type === 'debit' ? formatAmount(amounts.opening_balance) : ''}
+        </TableCell>,
+        <TableCell key="opening-cr" className="text-right font-mono">
+          {amounts.balance_type === 'credit' ? formatAmount(amounts.opening_balance) : ''}
+        </TableCell>
+      );
+    }
+    if (shownColumns.includes('period')) {
+      cells.push(
+        <TableCell key="debit" className="text-right font-mono">{formatAmount(amounts.total_debit)}</TableCell>,
+        <TableCell key="credit" className="text-right font-mono">{formatAmount(amounts.total_credit)}</TableCell>
+      );
+    }
+    if (shownColumns.includes('closing')) {
+      cells.push(
+        <TableCell key="closing-dr" className="text-right font-mono">
+          {amounts.closing_balance_type === 'debit' ? formatAmount(amounts.closing_balance) : ''}
+        </TableCell>,
+        <TableCell key="closing-cr" className="text-right font-mono">
+          {amounts.closing_balance_type === 'credit' ? formatAmount(amounts.closing_balance) : ''}
+        </TableCell>
+      );
+    }
+    return cells;
+  };
+
+  const renderGroupRows = (lines: TrialBalanceGroupLine[], depth: number): React.ReactNode[] => {
+    return lines.flatMap((line: TrialBalanceGroupLine) => [
+      <TableRow
+        key={`group-${line.group_id}`}
+        className="cursor-pointer bg-gray-50 hover:bg-gray-100 font-semibold"
+        onClick={() => openLedgerReport({ group_id: line.group_id })}
+      >
+        <TableCell style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}>{line.group_name}</TableCell>
+        {renderAmountCells(line)}
+      </TableRow>,
+      ...line.ledgers.map((ledger: TrialBalanceLedgerLine) => (
+        <TableRow
+          key={`ledger-${ledger.ledger_id}`}
+          className="cursor-pointer hover:bg-blue-50"
+          onClick={() => openLedgerReport({ ledger_id: ledger.ledger_id })}
+        >
+          <TableCell style={{ paddingLeft: `${(depth + 1) * 1.5 + 0.5}rem` }}>{ledger.ledger_name}</TableCell>
+          {renderAmountCells(ledger)}
+        </TableRow>
+      )),
+      ...renderGroupRows(line.children, depth + 1)
+    ]);
+  };
+
+  const formatDifference = (difference: number) => {
+    return `$${Math.abs(difference).toFixed(2)} ${difference > 0 ? 'Dr' : 'Cr'}`;
+  };
 
-export function TrialBalanceReport() {
   return (
     <div className="space-y-6">
       <div>
@@ -11,18 +153,177 @@ export function TrialBalanceReport() {
 
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">📊 Trial Balance Generator</CardTitle>
-          <CardDescription>Generate trial balance as on a specific date</CardDescription>
+          <CardTitle className="text-lg">📊 Report Parameters</CardTitle>
+          <CardDescription>
+            Leave the start date empty to start with the financial year; comparing periods needs a start date
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-gray-500">Trial balance report generator will be implemented here.</p>
-            <p className="text-sm text-gray-400 mt-2">
-              This will generate trial balance showing all ledger balances as on a specific date.
-            </p>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="tb-start">Start Date</Label>
+              <Input
+                id="tb-start"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tb-end">End Date *</Label>
+              <Input
+                id="tb-end"
+                type="date"
+                value={endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="tb-hide-zero" checked={hideZeroBalances} onCheckedChange={setHideZeroBalances} />
+              <Label htmlFor="tb-hide-zero" className="text-sm">Hide zero balances</Label>
+            </div>
+
+            <Button
+              onClick={handleGenerateReport}
+              disabled={isLoading || !endDate || (isComparative && !startDate)}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {isLoading ? 'Generating...' : '📊 Generate Report'}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="tb-comparative" checked={isComparative} onCheckedChange={setIsComparative} />
+              <Label htmlFor="tb-comparative" className="text-sm">Compare periods</Label>
+            </div>
+
+            {isComparative && <ComparativeLayoutSelect id="tb-layout" value={layout} onChange={setLayout} />}
           </div>
+
+          {!isComparative && (
+            <div className="flex flex-wrap gap-6">
+              {columns.map((column: Column) => (
+                <div key={column} className="flex items-center space-x-2">
+                  <Switch
+                    id={`tb-column-${column}`}
+                    checked={shownColumns.includes(column)}
+                    onCheckedChange={(checked: boolean) => toggleColumn(column, checked)}
+                  />
+                  <Label htmlFor={`tb-column-${column}`} className="text-sm">{columnLabels[column]}</Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isComparative && (
+            <ExportButtons
+              disabled={!endDate}
+              onExport={(format: ExportFormat) => trpc.exportReport.query({
+                format,
+                report: {
+                  type: 'trial_balance',
+                  filter: {
+                    start_date: startDate ? new Date(startDate) : undefined,
+                    end_date: new Date(endDate),
+                    hide_zero_balances: hideZeroBalances
+                  }
+                }
+              })}
+            />
+          )}
         </CardContent>
       </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Trial Balance {report.start_date ? `from ${report.start_date.toLocaleDateString()} ` : ''}to {report.end_date.toLocaleDateString()}
+            </CardTitle>
+            <CardDescription>Click a group or ledger to open its ledger report</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead rowSpan={2}>Particulars</TableHead>
+                  {shownColumns.map((column: Column) => (
+                    <TableHead key={column} colSpan={2} className="text-center">{columnLabels[column]}</TableHead>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  {shownColumns.map((column: Column) => [
+                    <TableHead key={`${column}-dr`} className="text-right">Debit</TableHead>,
+                    <TableHead key={`${column}-cr`} className="text-right">Credit</TableHead>
+                  ])}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {renderGroupRows(report.groups, 0)}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-bold">
+                  <TableCell>Grand Total</TableCell>
+                  {shownColumns.includes('opening') && [
+                    <TableCell key="opening-dr" className="text-right font-mono">${report.totals.opening_debit.toFixed(2)}</TableCell>,
+                    <TableCell key="opening-cr" className="text-right font-mono">${report.totals.opening_credit.toFixed(2)}</TableCell>
+                  ]}
+                  {shownColumns.includes('period') && [
+                    <TableCell key="debit" className="text-right font-mono">${report.totals.total_debit.toFixed(2)}</TableCell>,
+                    <TableCell key="credit" className="text-right font-mono">${report.totals.total_credit.toFixed(2)}</TableCell>
+                  ]}
+                  {shownColumns.includes('closing') && [
+                    <TableCell key="closing-dr" className="text-right font-mono">${report.totals.closing_debit.toFixed(2)}</TableCell>,
+                    <TableCell key="closing-cr" className="text-right font-mono">${report.totals.closing_credit.toFixed(2)}</TableCell>
+                  ]}
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            {(report.opening_difference !== 0 || report.closing_difference !== 0) ? (
+              <Alert className="border-amber-200 bg-amber-50 mt-4">
+                <AlertDescription className="text-amber-800">
+                  Difference in opening balances: {formatDifference(report.opening_difference)}.
+                  {' '}Difference in closing balances: {formatDifference(report.closing_difference)}.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-sm text-green-700 mt-4">✅ Debits equal credits</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Comparative Trial Balance</CardTitle>
+            <CardDescription>Closing balances at the end of each period; changes are against the previous column</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ComparativeTable
+              title="Ledger"
+              columns={comparison.columns}
+              lines={comparison.ledgers}
+              totals={[
+                { label: 'Total Debit', values: comparison.closing_debit },
+                { label: 'Total Credit', values: comparison.closing_credit }
+              ]}
+              signed
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
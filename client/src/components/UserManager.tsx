@@ -0,0 +1,376 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { CreateUserInput, SessionUser, UserRole } from '../../../server/src/schema';
+
+const roleLabels: Record<UserRole, string> = {
+  admin: 'Admin',
+  accountant: 'Accountant',
+  data_entry: 'Data Entry',
+  auditor: 'Auditor (read-only)'
+};
+
+interface UserFormData extends CreateUserInput {
+  is_active: boolean;
+}
+
+interface UserManagerProps {
+  currentUser: SessionUser;
+}
+
+export function UserManager({ currentUser }: UserManagerProps) {
+  const [users, setUsers] = useState<SessionUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<SessionUser | null>(null);
+  const [resetUser, setResetUser] = useState<SessionUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const [formData, setFormData] = useState<UserFormData>({
+    username: '',
+    email: '',
+    password: '',
+    role: 'data_entry',
+    is_active: true
+  });
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const result = await trpc.getUsers.query();
+      setUsers(result);
+    } catch (error) {
+      setError('Failed to load users');
+      console.error('Load users error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const resetForm = () => {
+    setFormData({
+      username: '',
+      email: '',
+      password: '',
+      role: 'data_entry',
+      is_active: true
+    });
+    setEditingUser(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      if (editingUser) {
+        const updatedUser = await trpc.updateUser.mutate({
+          id: editingUser.id,
+          email: formData.email,
+          role: formData.role,
+          is_active: formData.is_active
+        });
+        setUsers((prev: SessionUser[]) =>
+          prev.map((u: SessionUser) => u.id === updatedUser.id ? updatedUser : u)
+        );
+        setSuccess('User updated successfully');
+      } else {
+        const newUser = await trpc.createUser.mutate({
+          username: formData.username,
+          email: formData.email,
+          password: formData.password,
+          role: formData.role
+        });
+        setUsers((prev: SessionUser[]) => [...prev, newUser]);
+        setSuccess('User created successfully');
+      }
+
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save user');
+      console.error('Submit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (user: SessionUser) => {
+    setEditingUser(user);
+    setFormData({
+      username: user.username,
+      email: user.email,
+      password: '',
+      role: user.role,
+      is_active: user.is_active
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetUser) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await trpc.resetUserPassword.mutate({ id: resetUser.id, new_password: newPassword });
+      setSuccess(`Password reset for ${resetUser.username}`);
+      setResetUser(null);
+      setNewPassword('');
+    } catch (error) {
+      setError('Failed to reset password');
+      console.error('Reset password error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getRoleColor = (role: UserRole) => {
+    switch (role) {
+      case 'admin': return 'bg-red-100 text-red-800';
+      case 'accountant': return 'bg-blue-100 text-blue-800';
+      case 'data_entry': return 'bg-green-100 text-green-800';
+      case 'auditor': return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">👤 User Management</h2>
+          <p className="text-gray-600">Create users, assign roles and manage access</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm} className="bg-red-600 hover:bg-red-700">
+              ➕ Add New User
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingUser ? 'Edit User' : 'Create New User'}</DialogTitle>
+              <DialogDescription>
+                {editingUser ? 'Update role, email or access' : 'Fill in the user details below'}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username *</Label>
+                <Input
+                  id="username"
+                  value={formData.username}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: UserFormData) => ({ ...prev, username: e.target.value }))
+                  }
+                  placeholder="Username"
+                  disabled={editingUser !== null}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email *</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: UserFormData) => ({ ...prev, email: e.target.value }))
+                  }
+                  placeholder="Email address"
+                  required
+                />
+              </div>
+
+              {!editingUser && (
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password *</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={formData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: UserFormData) => ({ ...prev, password: e.target.value }))
+                    }
+                    placeholder="At least 8 characters"
+                    minLength={8}
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="role">Role *</Label>
+                <Select
+                  value={formData.role || 'data_entry'}
+                  onValueChange={(value: UserRole) =>
+                    setFormData((prev: UserFormData) => ({ ...prev, role: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">{roleLabels.admin}</SelectItem>
+                    <SelectItem value="accountant">{roleLabels.accountant}</SelectItem>
+                    <SelectItem value="data_entry">{roleLabels.data_entry}</SelectItem>
+                    <SelectItem value="auditor">{roleLabels.auditor}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {editingUser && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="is-active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked: boolean) =>
+                      setFormData((prev: UserFormData) => ({ ...prev, is_active: checked }))
+                    }
+                    disabled={editingUser.id === currentUser.id}
+                  />
+                  <Label htmlFor="is-active">Active</Label>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? 'Saving...' : (editingUser ? 'Update' : 'Create')}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Reset Password Dialog */}
+      <Dialog open={resetUser !== null} onOpenChange={(open: boolean) => { if (!open) setResetUser(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {resetUser?.username}. Their existing sessions will be signed out.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password *</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                placeholder="At least 8 characters"
+                minLength={8}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setResetUser(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Reset Password'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Users Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            📋 Users ({users.length} {users.length === 1 ? 'user' : 'users'})
+          </CardTitle>
+          <CardDescription>Admins manage users and tools; auditors can only run reports</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {users.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No users found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user: SessionUser) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Badge className={getRoleColor(user.role)}>
+                        {roleLabels[user.role]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {user.is_active ? (
+                        <Badge className="bg-green-100 text-green-800">Active</Badge>
+                      ) : (
+                        <Badge className="bg-gray-100 text-gray-500">Disabled</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.created_at.toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(user)}>
+                          ✏️ Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setResetUser(user)}>
+                          🔑 Reset Password
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
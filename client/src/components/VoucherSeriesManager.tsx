@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { InvoiceSeries, VoucherSeries } from '../../../server/src/schema';
+import { voucherTypeLabels, invoiceTypeLabels, formatVoucherNumber, FINANCIAL_YEAR_PLACEHOLDER } from '../../../server/src/vouchers';
+
+interface SeriesFormData {
+  prefix: string;
+  suffix: string;
+  padding: number;
+}
+
+// Series being edited: voucher and invoice series share the same format
+interface EditingSeries {
+  kind: 'voucher' | 'invoice';
+  id: number;
+  label: string;
+}
+
+// Year name used in the previews
+const SAMPLE_YEAR = '2024-25';
+
+export function VoucherSeriesManager() {
+  const [series, setSeries] = useState<VoucherSeries[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [invoiceSeries, setInvoiceSeries] = useState<InvoiceSeries[]>([]);
+  const [editingSeries, setEditingSeries] = useState<EditingSeries | null>(null);
+
+  const [formData, setFormData] = useState<SeriesFormData>({
+    prefix: '',
+    suffix: '',
+    padding: 4
+  });
+
+  const loadSeries = useCallback(async () => {
+    try {
+      const [voucherResult, invoiceResult] = await Promise.all([
+        trpc.getVoucherSeries.query(),
+        trpc.getInvoiceSeries.query()
+      ]);
+      setSeries(voucherResult);
+      setInvoiceSeries(invoiceResult);
+    } catch (error) {
+      setError('Failed to load voucher series');
+      console.error('Load voucher series error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const handleEdit = (editing: EditingSeries, item: VoucherSeries | InvoiceSeries) => {
+    setEditingSeries(editing);
+    setFormData({
+      prefix: item.prefix,
+      suffix: item.suffix,
+      padding: item.padding
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingSeries) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      if (editingSeries.kind === 'voucher') {
+        const updated = await trpc.updateVoucherSeries.mutate({ id: editingSeries.id, ...formData });
+        setSeries((prev: VoucherSeries[]) =>
+          prev.map((item: VoucherSeries) => item.id === updated.id ? updated : item)
+        );
+      } else {
+        const updated = await trpc.updateInvoiceSeries.mutate({ id: editingSeries.id, ...formData });
+        setInvoiceSeries((prev: InvoiceSeries[]) =>
+          prev.map((item: InvoiceSeries) => item.id === updated.id ? updated : item)
+        );
+      }
+      setSuccess(`${editingSeries.label} series updated successfully`);
+      setEditingSeries(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update voucher series');
+      console.error('Submit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasYearPlaceholder = `${formData.prefix}${formData.suffix}`.includes(FINANCIAL_YEAR_PLACEHOLDER);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🔢 Voucher Numbering</h2>
+        <p className="text-gray-600">Define the number format of each voucher and invoice type</p>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Edit Dialog */}
+      <Dialog open={editingSeries !== null} onOpenChange={(open: boolean) => { if (!open) setEditingSeries(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Edit {editingSeries?.label} Series
+            </DialogTitle>
+            <DialogDescription>
+              {FINANCIAL_YEAR_PLACEHOLDER} is replaced with the financial year name. Numbers restart at 1 every financial year.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="prefix">Prefix</Label>
+              <Input
+                id="prefix"
+                value={formData.prefix}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SeriesFormData) => ({ ...prev, prefix: e.target.value }))
+                }
+                placeholder="e.g. PMT/{FY}/"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="suffix">Suffix</Label>
+              <Input
+                id="suffix"
+                value={formData.suffix}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SeriesFormData) => ({ ...prev, suffix: e.target.value }))
+                }
+                placeholder="Optional"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="padding">Number Width</Label>
+              <Input
+                id="padding"
+                type="number"
+                min="1"
+                max="10"
+                value={formData.padding}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SeriesFormData) => ({ ...prev, padding: parseInt(e.target.value) || 1 }))
+                }
+              />
+            </div>
+
+            <div className="text-sm">
+              Preview: <span className="font-mono font-semibold">{formatVoucherNumber(formData, SAMPLE_YEAR, 1)}</span>
+              {!hasYearPlaceholder && (
+                <div className="text-red-600">Prefix or suffix must contain {FINANCIAL_YEAR_PLACEHOLDER}</div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingSeries(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || !hasYearPlaceholder}>
+                {isLoading ? 'Saving...' : 'Update'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Series Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">📋 Numbering Series</CardTitle>
+          <CardDescription>Each voucher type is numbered sequentially without gaps within a financial year</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {series.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No voucher series found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Voucher Type</TableHead>
+                  <TableHead>Prefix</TableHead>
+                  <TableHead>Suffix</TableHead>
+                  <TableHead>Width</TableHead>
+                  <TableHead>Example</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {series.map((item: VoucherSeries) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{voucherTypeLabels[item.voucher_type]}</TableCell>
+                    <TableCell className="font-mono">{item.prefix}</TableCell>
+                    <TableCell className="font-mono">{item.suffix || '—'}</TableCell>
+                    <TableCell>{item.padding}</TableCell>
+                    <TableCell className="font-mono">{formatVoucherNumber(item, SAMPLE_YEAR, 1)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit({ kind: 'voucher', id: item.id, label: voucherTypeLabels[item.voucher_type] }, item)}
+                      >
+                        ✏️ Edit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invoice Series Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">🧾 Invoice Numbering</CardTitle>
+          <CardDescription>Invoice numbers run separately from the numbers of the vouchers they post</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice Type</TableHead>
+                <TableHead>Prefix</TableHead>
+                <TableHead>Suffix</TableHead>
+                <TableHead>Width</TableHead>
+                <TableHead>Example</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoiceSeries.map((item: InvoiceSeries) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{invoiceTypeLabels[item.invoice_type]}</TableCell>
+                  <TableCell className="font-mono">{item.prefix}</TableCell>
+                  <TableCell className="font-mono">{item.suffix || '—'}</TableCell>
+                  <TableCell>{item.padding}</TableCell>
+                  <TableCell className="font-mono">{formatVoucherNumber(item, SAMPLE_YEAR, 1)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit({ kind: 'invoice', id: item.id, label: invoiceTypeLabels[item.invoice_type] }, item)}
+                    >
+                      ✏️ Edit
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import type { ExportFile } from '../../../server/src/schema';
+
+// Saves an exported file through a temporary link
+export const downloadFile = (file: ExportFile) => {
+  const bytes = Uint8Array.from(atob(file.content), (character: string) => character.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mime_type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -2,9 +2,35 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const SESSION_TOKEN_KEY = 'accounts.sessionToken';
+
+// Dispatched on window when the server rejects the stored session
+export const SESSION_EXPIRED_EVENT = 'accounts:session-expired';
+
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string) => localStorage.setItem(SESSION_TOKEN_KEY, token);
+
+export const clearSessionToken = () => localStorage.removeItem(SESSION_TOKEN_KEY);
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = getSessionToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+      async fetch(url, options) {
+        const response = await fetch(url, options);
+        if (response.status === 401 && getSessionToken()) {
+          clearSessionToken();
+          window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+        }
+        return response;
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
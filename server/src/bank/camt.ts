@@ -0,0 +1,84 @@
+import { type Money } from '../money';
+import { type ParsedStatement, type ParsedStatementLine, cleanText, decodeXmlText, parseStatementAmount, utcDate } from './statement';
+
+// Contents of every element with the name, ignoring namespace prefixes. The
+// elements read here never nest inside an element of the same name.
+const elements = (xml: string, name: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+};
+
+// Text of the first element along the path, e.g. ['BookgDt', 'Dt']
+const textAt = (xml: string, path: string[]): string | null => {
+  let content: string | undefined = xml;
+  for (const name of path) {
+    content = content === undefined ? undefined : elements(content, name)[0];
+  }
+  if (content === undefined) {
+    return null;
+  }
+  const text = cleanText(decodeXmlText(content.replace(/<[^>]*>/g, ' ')));
+  return text === '' ? null : text;
+};
+
+// ISO dates, or date-times whose time is ignored
+const parseIsoDate = (text: string | null): Date | null => {
+  const match = text ? /^(\d{4})-(\d{2})-(\d{2})/.exec(text) : null;
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+const bookingDate = (xml: string, name: string): Date | null => {
+  return parseIsoDate(textAt(xml, [name, 'Dt']) ?? textAt(xml, [name, 'DtTm']));
+};
+
+// Amount signed by its CRDT/DBIT indicator
+const signedAmount = (xml: string): Money | null => {
+  const amount = parseStatementAmount(textAt(xml, ['Amt']) ?? '');
+  if (amount === null) {
+    return null;
+  }
+  return textAt(xml, ['CdtDbtInd']) === 'DBIT' ? -amount : amount;
+};
+
+const balanceOfType = (statement: string, codes: string[]): Money | null => {
+  const balance = elements(statement, 'Bal').find(block => codes.includes(textAt(block, ['Tp', 'CdOrPrtry', 'Cd']) ?? ''));
+  return balance ? signedAmount(balance) : null;
+};
+
+// ISO 20022 CAMT.053 bank-to-customer statement. Entries (Ntry) carry the
+// amount and a credit or debit indicator; the end-to-end id or the bank's
+// reference is kept as the reference, and the remittance information as the
+// description.
+export const parseCamtStatement = (text: string): ParsedStatement => {
+  const statements = elements(text, 'Stmt');
+  if (statements.length === 0) {
+    throw new Error('The file is not a CAMT.053 statement');
+  }
+
+  // A file may hold several statements; balances come from the first and last
+  const lines = statements.flatMap(statement => elements(statement, 'Ntry')).map((entry, index): ParsedStatementLine => {
+    const date = bookingDate(entry, 'BookgDt') ?? bookingDate(entry, 'ValDt');
+    const amount = signedAmount(entry);
+    if (!date || amount === null) {
+      throw new Error(`Entry ${index + 1}: missing booking date or amount`);
+    }
+
+    const endToEndId = textAt(entry, ['Refs', 'EndToEndId']);
+    const remittance = elements(entry, 'Ustrd').map(part => cleanText(decodeXmlText(part))).join(' ');
+
+    return {
+      date,
+      value_date: bookingDate(entry, 'ValDt'),
+      amount,
+      description: remittance || textAt(entry, ['AddtlNtryInf']) || textAt(entry, ['RltdPties', 'Nm']) || '',
+      reference: (endToEndId !== 'NOTPROVIDED' ? endToEndId : null) ?? textAt(entry, ['AcctSvcrRef'])
+    };
+  });
+
+  return {
+    account: textAt(statements[0], ['Acct', 'Id', 'IBAN']) ?? textAt(statements[0], ['Acct', 'Othr', 'Id']),
+    opening_balance: balanceOfType(statements[0], ['OPBD', 'PRCD']),
+    closing_balance: balanceOfType(statements[statements.length - 1], ['CLBD']),
+    lines
+  };
+};
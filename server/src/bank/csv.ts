@@ -0,0 +1,140 @@
+import { type CsvColumnMapping } from '../schema';
+import { type Money, ZERO_MONEY, absMoney } from '../money';
+import { type ParsedStatement, type ParsedStatementLine, cleanText, parseStatementAmount, utcDate } from './statement';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Splits RFC 4180 text into rows of fields. Quoted fields may hold the
+// delimiter, doubled quotes and line breaks.
+export const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const character = text[i];
+
+    if (quoted) {
+      if (character === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        field += character;
+      }
+    } else if (character === '"') {
+      quoted = true;
+    } else if (character === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += character;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no fields
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const parseCsvDate = (text: string, format: CsvColumnMapping['date_format']): Date | null => {
+  const parts = text.trim().split(/[-/. ]/);
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [first, second, third] = parts;
+  switch (format) {
+    case 'yyyy-mm-dd':
+      return utcDate(Number(first), Number(second), Number(third));
+    case 'dd/mm/yyyy':
+      return utcDate(Number(third), Number(second), Number(first));
+    case 'mm/dd/yyyy':
+      return utcDate(Number(third), Number(first), Number(second));
+    case 'dd-mmm-yyyy': {
+      const month = MONTHS.indexOf(second.slice(0, 3).toLowerCase());
+      const year = third.length === 2 ? 2000 + Number(third) : Number(third);
+      return month < 0 ? null : utcDate(year, month + 1, Number(first));
+    }
+  }
+};
+
+// Statement exported by a bank as CSV. The mapping names the header of each
+// column; amounts come from one signed column or from separate withdrawal and
+// deposit columns.
+export const parseCsvStatement = (text: string, mapping: CsvColumnMapping): ParsedStatement => {
+  const rows = parseCsvRows(text.replace(/^\ufeff/, ''), mapping.delimiter);
+  if (rows.length === 0) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const headers = rows[0].map(header => header.trim().toLowerCase());
+  const columnIndex = (name: string | undefined): number | null => {
+    if (!name) {
+      return null;
+    }
+    const index = headers.indexOf(name.trim().toLowerCase());
+    if (index < 0) {
+      throw new Error(`Column "${name}" is not in the CSV header`);
+    }
+    return index;
+  };
+
+  const dateColumn = columnIndex(mapping.date);
+  const descriptionColumn = columnIndex(mapping.description);
+  const referenceColumn = columnIndex(mapping.reference);
+  const amountColumn = columnIndex(mapping.amount);
+  const withdrawalColumn = columnIndex(mapping.withdrawal);
+  const depositColumn = columnIndex(mapping.deposit);
+
+  const cell = (cells: string[], index: number | null): string => index === null ? '' : (cells[index] ?? '').trim();
+
+  const lines = rows.slice(1).map((cells, index): ParsedStatementLine => {
+    const rowNumber = index + 2;
+    const dateText = cell(cells, dateColumn);
+    const date = parseCsvDate(dateText, mapping.date_format);
+    if (!date) {
+      throw new Error(`Row ${rowNumber}: invalid date "${dateText}"`);
+    }
+
+    const readAmount = (column: number | null): Money => {
+      const text = cell(cells, column);
+      if (text === '') {
+        return ZERO_MONEY;
+      }
+      const amount = parseStatementAmount(text);
+      if (amount === null) {
+        throw new Error(`Row ${rowNumber}: invalid amount "${text}"`);
+      }
+      return amount;
+    };
+
+    const amount = amountColumn !== null
+      ? readAmount(amountColumn)
+      : absMoney(readAmount(depositColumn)) - absMoney(readAmount(withdrawalColumn));
+
+    return {
+      date,
+      value_date: null,
+      amount,
+      description: cleanText(cell(cells, descriptionColumn)),
+      reference: cell(cells, referenceColumn) || null
+    };
+  });
+
+  return { account: null, opening_balance: null, closing_balance: null, lines };
+};
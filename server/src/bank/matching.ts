@@ -0,0 +1,102 @@
+import { type Money, absMoney } from '../money';
+
+// Automatic matching of bank statement lines to book lines of a bank ledger.
+// Book amounts are signed with debits positive, so a deposit on the statement
+// matches a debit to the bank ledger.
+
+export interface MatchableStatementLine {
+  id: number;
+  date: Date;
+  amount: Money;
+  description: string;
+  reference: string | null;
+}
+
+export interface MatchableBookLine {
+  detail_id: number;
+  date: Date;
+  amount: Money;
+  entry_number: string;
+  description: string;
+}
+
+export interface MatchTolerance {
+  date_tolerance_days: number;
+  amount_tolerance: Money;
+}
+
+const DAY = 86400000;
+
+// References shorter than this match too many unrelated lines
+const MIN_REFERENCE_LENGTH = 3;
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Parts of a reference worth looking for: the whole reference and each run
+// of letters and digits with a digit in it, such as a cheque number, so that
+// "CHQ 000457" is found in "Cheque 000457"
+const referenceKeys = (reference: string): string[] => {
+  const parts = reference.split(/[^A-Za-z0-9]+/).filter(part => /\d/.test(part)).map(normalize);
+  return [normalize(reference), ...parts].filter(key => key.length >= MIN_REFERENCE_LENGTH);
+};
+
+// True when the statement reference appears in the voucher, or the voucher
+// number in the statement line, ignoring case, spaces and punctuation
+export const referencesMatch = (line: MatchableStatementLine, book: MatchableBookLine): boolean => {
+  const voucherText = normalize(`${book.entry_number} ${book.description}`);
+  if (referenceKeys(line.reference ?? '').some(key => voucherText.includes(key))) {
+    return true;
+  }
+
+  const entryNumber = normalize(book.entry_number);
+  return entryNumber.length >= MIN_REFERENCE_LENGTH && normalize(`${line.reference ?? ''} ${line.description}`).includes(entryNumber);
+};
+
+// Pairs each statement line with at most one book line and each book line
+// with at most one statement line. Candidates have the same sign and fall
+// within the date and amount tolerances; the best pairs are taken first:
+// a matching reference, then the smallest amount difference, then the
+// closest date, then the earliest lines.
+export const autoMatchLines = (
+  lines: MatchableStatementLine[],
+  bookLines: MatchableBookLine[],
+  tolerance: MatchTolerance
+): { line_id: number; detail_id: number }[] => {
+  const candidates: { line: MatchableStatementLine; book: MatchableBookLine; reference: boolean; amountDifference: Money; days: number }[] = [];
+
+  for (const line of lines) {
+    for (const book of bookLines) {
+      const amountDifference = absMoney(line.amount - book.amount);
+      const days = Math.round(Math.abs(line.date.getTime() - book.date.getTime()) / DAY);
+      const sameSign = (line.amount > 0n) === (book.amount > 0n);
+
+      if (sameSign && amountDifference <= tolerance.amount_tolerance && days <= tolerance.date_tolerance_days) {
+        candidates.push({ line, book, reference: referencesMatch(line, book), amountDifference, days });
+      }
+    }
+  }
+
+  candidates.sort((a, b) =>
+    Number(b.reference) - Number(a.reference) ||
+    (a.amountDifference < b.amountDifference ? -1 : a.amountDifference > b.amountDifference ? 1 : 0) ||
+    a.days - b.days ||
+    a.line.date.getTime() - b.line.date.getTime() ||
+    a.line.id - b.line.id ||
+    a.book.date.getTime() - b.book.date.getTime() ||
+    a.book.detail_id - b.book.detail_id
+  );
+
+  const matchedLines = new Set<number>();
+  const matchedDetails = new Set<number>();
+  const matches: { line_id: number; detail_id: number }[] = [];
+
+  for (const candidate of candidates) {
+    if (!matchedLines.has(candidate.line.id) && !matchedDetails.has(candidate.book.detail_id)) {
+      matchedLines.add(candidate.line.id);
+      matchedDetails.add(candidate.book.detail_id);
+      matches.push({ line_id: candidate.line.id, detail_id: candidate.book.detail_id });
+    }
+  }
+
+  return matches.sort((a, b) => a.line_id - b.line_id);
+};
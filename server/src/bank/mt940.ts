@@ -0,0 +1,119 @@
+import { type Money } from '../money';
+import { type ParsedStatement, type ParsedStatementLine, cleanText, parseStatementAmount, utcDate } from './statement';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// Splits the message into :tag: fields; a field runs on over the following
+// lines until the next tag. The SWIFT block wrapper, if any, is dropped.
+const mt940Fields = (text: string): Mt940Field[] => {
+  const fields: Mt940Field[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && !/^-}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+};
+
+const parseShortDate = (text: string): Date | null => {
+  const year = Number(text.slice(0, 2));
+  return utcDate(year < 70 ? 2000 + year : 1900 + year, Number(text.slice(2, 4)), Number(text.slice(4, 6)));
+};
+
+// Balance fields :60F:, :62F: and friends: mark, date, currency and amount,
+// e.g. C240131EUR1234,56
+const parseBalance = (value: string): Money | null => {
+  const match = /^([CD])\d{6}[A-Z]{3}([\d,]+)/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const amount = parseStatementAmount(match[2]);
+  return amount === null ? null : match[1] === 'D' ? -amount : amount;
+};
+
+// Statement line :61: value date YYMMDD, optional booking date MMDD, mark
+// (C, D, or RC/RD for reversals), optional funds code, amount with a decimal
+// comma, transaction type, customer reference and //bank reference
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[CD])[A-Z]?([\d,]+)[A-Z][A-Z0-9]{3}([^/\n]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+const parseStatementLine = (value: string, information: string | null, index: number): ParsedStatementLine => {
+  const match = STATEMENT_LINE.exec(value.trim());
+  if (!match) {
+    throw new Error(`Statement line ${index + 1}: cannot read ":61:${value.split('\n')[0]}"`);
+  }
+
+  const [, valueDateText, bookingDateText, mark, amountText, customerReference, bankReference, supplementary] = match;
+  const valueDate = parseShortDate(valueDateText);
+  const amount = parseStatementAmount(amountText);
+  if (!valueDate || amount === null) {
+    throw new Error(`Statement line ${index + 1}: invalid date or amount`);
+  }
+
+  // The booking date has no year; it may fall in the year before or after
+  // the value date around the new year
+  let date = valueDate;
+  if (bookingDateText) {
+    const month = Number(bookingDateText.slice(0, 2));
+    const valueMonth = valueDate.getUTCMonth() + 1;
+    const year = valueDate.getUTCFullYear() + (month === 12 && valueMonth === 1 ? -1 : month === 1 && valueMonth === 12 ? 1 : 0);
+    date = utcDate(year, month, Number(bookingDateText.slice(2, 4))) ?? valueDate;
+  }
+
+  // A reversed credit takes money out and a reversed debit puts it back
+  const isCredit = mark === 'C' || mark === 'RD';
+  const reference = customerReference.trim();
+
+  return {
+    date,
+    value_date: valueDate,
+    amount: isCredit ? amount : -amount,
+    description: cleanText(information ?? supplementary ?? ''),
+    reference: reference !== '' && reference !== 'NONREF' ? reference : bankReference?.trim() || null
+  };
+};
+
+// SWIFT MT940 customer statement. Each :61: line may be followed by an :86:
+// field with the narrative, which becomes the description.
+export const parseMt940Statement = (text: string): ParsedStatement => {
+  const fields = mt940Fields(text);
+  if (!fields.some(field => field.tag === '61') && !fields.some(field => field.tag === '20')) {
+    throw new Error('The file is not an MT940 statement');
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  let openingBalance: Money | null = null;
+  let closingBalance: Money | null = null;
+  let account: string | null = null;
+
+  fields.forEach((field, index) => {
+    switch (field.tag) {
+      case '25':
+        account = account ?? cleanText(field.value);
+        break;
+      case '60F':
+      case '60M':
+        // Only the first opening balance counts when a statement spans several messages
+        openingBalance = openingBalance ?? parseBalance(field.value);
+        break;
+      case '62F':
+      case '62M':
+        closingBalance = parseBalance(field.value);
+        break;
+      case '61': {
+        const next = fields[index + 1];
+        lines.push(parseStatementLine(field.value, next?.tag === '86' ? next.value : null, lines.length));
+        break;
+      }
+    }
+  });
+
+  return { account, opening_balance: openingBalance, closing_balance: closingBalance, lines };
+};
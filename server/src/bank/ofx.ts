@@ -0,0 +1,67 @@
+import { type ParsedStatement, type ParsedStatementLine, cleanText, decodeXmlText, parseStatementAmount, utcDate } from './statement';
+
+// Value of the first element with the tag. OFX 1.x is SGML and leaves leaf
+// elements unclosed, so the value runs to the next tag or line break; this
+// reads OFX 2.x XML as well.
+const tagValue = (block: string, tag: string): string | null => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  if (!match) {
+    return null;
+  }
+  const value = cleanText(decodeXmlText(match[1]));
+  return value === '' ? null : value;
+};
+
+// Aggregates are always closed, in both versions
+const aggregates = (text: string, tag: string): string[] => {
+  return Array.from(text.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), match => match[1]);
+};
+
+// OFX dates start YYYYMMDD; the time and time zone that may follow are ignored
+const parseOfxDate = (text: string | null): Date | null => {
+  const match = text ? /^(\d{4})(\d{2})(\d{2})/.exec(text) : null;
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+// Open Financial Exchange download: one STMTTRN per transaction, with signed
+// TRNAMT amounts. The cheque or reference number is kept as the reference.
+export const parseOfxStatement = (text: string): ParsedStatement => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error('The file is not an OFX statement');
+  }
+
+  const lines = aggregates(text, 'STMTTRN').map((block, index): ParsedStatementLine => {
+    const date = parseOfxDate(tagValue(block, 'DTPOSTED'));
+    if (!date) {
+      throw new Error(`Transaction ${index + 1}: missing or invalid DTPOSTED`);
+    }
+
+    const amountText = tagValue(block, 'TRNAMT') ?? '';
+    const amount = parseStatementAmount(amountText);
+    if (amount === null) {
+      throw new Error(`Transaction ${index + 1}: invalid amount "${amountText}"`);
+    }
+
+    const name = tagValue(block, 'NAME');
+    const memo = tagValue(block, 'MEMO');
+
+    return {
+      date,
+      value_date: parseOfxDate(tagValue(block, 'DTAVAIL')),
+      amount,
+      // Banks often repeat the payee in the memo
+      description: [...new Set([name, memo].filter((part): part is string => part !== null))].join(' - '),
+      reference: tagValue(block, 'CHECKNUM') ?? tagValue(block, 'REFNUM')
+    };
+  });
+
+  const ledgerBalance = aggregates(text, 'LEDGERBAL')[0];
+  const closingBalance = ledgerBalance ? parseStatementAmount(tagValue(ledgerBalance, 'BALAMT') ?? '') : null;
+
+  return {
+    account: tagValue(text, 'ACCTID'),
+    opening_balance: null,
+    closing_balance: closingBalance,
+    lines
+  };
+};
@@ -0,0 +1,69 @@
+import { type Money, parseMoney } from '../money';
+
+// Bank statement parsing shared by the import formats.
+//
+// Amounts are signed from the account holder's side: deposits are positive
+// and withdrawals negative, so a line matches a book line of the same sign
+// with debits positive. Dates are calendar days at midnight UTC, like entry
+// dates.
+
+export interface ParsedStatementLine {
+  date: Date;
+  value_date: Date | null;
+  amount: Money;
+  description: string;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  account: string | null;
+  opening_balance: Money | null;
+  closing_balance: Money | null;
+  lines: ParsedStatementLine[];
+}
+
+export const utcDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+// Parses an amount written with either decimal mark, dropping currency
+// symbols and thousands separators: "1,234.50", "1.234,50", "(50.00)", "50,"
+export const parseStatementAmount = (text: string): Money | null => {
+  let cleaned = text.trim();
+  const bracketed = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[^\d.,-]/g, '');
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  // The right-most mark is the decimal mark when two or fewer digits follow it
+  const decimalMark = lastComma > lastDot && cleaned.length - lastComma <= 3 ? ',' : '.';
+  cleaned = decimalMark === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  cleaned = cleaned.replace(/\.$/, '');
+
+  if (!/^-?\d+(\.\d{1,2})?$/.test(cleaned)) {
+    return null;
+  }
+
+  const amount = parseMoney(cleaned);
+  return bracketed ? -amount : amount;
+};
+
+// Collapses runs of whitespace, including line breaks inside fields
+export const cleanText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export const decodeXmlText = (text: string): string => {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity: string, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
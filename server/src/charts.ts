@@ -0,0 +1,107 @@
+// Chart of accounts templates shared by the server and the client.
+
+import { type CashFlowActivity, type ChartTemplateId, type GroupNature, type LedgerType } from './schema';
+
+export interface ChartGroupTemplate {
+  name: string;
+  nature: GroupNature;
+  cash_flow_activity?: CashFlowActivity;
+  children?: Omit<ChartGroupTemplate, 'nature' | 'cash_flow_activity'>[];
+}
+
+export interface ChartLedgerTemplate {
+  name: string;
+  group: string;
+  ledger_type: LedgerType;
+  balance_type: 'debit' | 'credit';
+}
+
+export interface ChartTemplate {
+  name: string;
+  description: string;
+  groups: ChartGroupTemplate[];
+  ledgers: ChartLedgerTemplate[];
+}
+
+// Primary groups carry the nature and, where it differs from the default
+// for the nature, the cash flow activity; sub-groups inherit both. Every template
+// reserves the same system ledgers.
+export const chartTemplates: Record<ChartTemplateId, ChartTemplate> = {
+  indian_primary: {
+    name: 'Indian primary groups',
+    description: 'The primary groups and sub-groups of Tally, with capital, current and fixed assets, loans, and direct and indirect incomes and expenses',
+    groups: [
+      { name: 'Capital Account', nature: 'equity', children: [{ name: 'Reserves & Surplus' }] },
+      {
+        name: 'Current Assets',
+        nature: 'asset',
+        children: [
+          { name: 'Bank Accounts' },
+          { name: 'Cash-in-Hand' },
+          { name: 'Deposits (Asset)' },
+          { name: 'Loans & Advances (Asset)' },
+          { name: 'Stock-in-Hand' },
+          { name: 'Sundry Debtors' }
+        ]
+      },
+      {
+        name: 'Current Liabilities',
+        nature: 'liability',
+        children: [{ name: 'Duties & Taxes' }, { name: 'Provisions' }, { name: 'Sundry Creditors' }]
+      },
+      { name: 'Fixed Assets', nature: 'asset', cash_flow_activity: 'investing' },
+      { name: 'Investments', nature: 'asset', cash_flow_activity: 'investing' },
+      {
+        name: 'Loans (Liability)',
+        nature: 'liability',
+        cash_flow_activity: 'financing',
+        children: [{ name: 'Bank OD A/c' }, { name: 'Secured Loans' }, { name: 'Unsecured Loans' }]
+      },
+      { name: 'Branch / Divisions', nature: 'liability' },
+      { name: 'Suspense A/c', nature: 'liability' },
+      { name: 'Misc. Expenses (Asset)', nature: 'asset' },
+      { name: 'Sales Accounts', nature: 'income' },
+      { name: 'Direct Incomes', nature: 'income' },
+      { name: 'Indirect Incomes', nature: 'income' },
+      { name: 'Purchase Accounts', nature: 'expense' },
+      { name: 'Direct Expenses', nature: 'expense' },
+      { name: 'Indirect Expenses', nature: 'expense' }
+    ],
+    ledgers: [
+      { name: 'Cash', group: 'Cash-in-Hand', ledger_type: 'cash', balance_type: 'debit' },
+      { name: 'Profit & Loss', group: 'Reserves & Surplus', ledger_type: 'general', balance_type: 'credit' },
+      { name: 'Retained Earnings', group: 'Reserves & Surplus', ledger_type: 'general', balance_type: 'credit' },
+      { name: 'Round Off', group: 'Indirect Expenses', ledger_type: 'general', balance_type: 'debit' }
+    ]
+  },
+  small_business: {
+    name: 'Small business',
+    description: 'A short generic chart: current and fixed assets, payables, owner\'s equity, revenue, cost of sales and operating expenses',
+    groups: [
+      {
+        name: 'Current Assets',
+        nature: 'asset',
+        children: [{ name: 'Cash & Bank' }, { name: 'Accounts Receivable' }, { name: 'Inventory' }]
+      },
+      { name: 'Fixed Assets', nature: 'asset', cash_flow_activity: 'investing' },
+      {
+        name: 'Current Liabilities',
+        nature: 'liability',
+        children: [{ name: 'Accounts Payable' }, { name: 'Taxes Payable' }]
+      },
+      { name: 'Long-term Liabilities', nature: 'liability', cash_flow_activity: 'financing' },
+      { name: 'Owner\'s Equity', nature: 'equity' },
+      { name: 'Revenue', nature: 'income', children: [{ name: 'Sales' }, { name: 'Other Income' }] },
+      { name: 'Cost of Sales', nature: 'expense' },
+      { name: 'Operating Expenses', nature: 'expense' }
+    ],
+    ledgers: [
+      { name: 'Cash', group: 'Cash & Bank', ledger_type: 'cash', balance_type: 'debit' },
+      { name: 'Profit & Loss', group: 'Owner\'s Equity', ledger_type: 'general', balance_type: 'credit' },
+      { name: 'Retained Earnings', group: 'Owner\'s Equity', ledger_type: 'general', balance_type: 'credit' },
+      { name: 'Round Off', group: 'Operating Expenses', ledger_type: 'general', balance_type: 'debit' }
+    ]
+  }
+};
+
+export const chartTemplateIds = Object.keys(chartTemplates) as ChartTemplateId[];
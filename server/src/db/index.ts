@@ -1,5 +1,7 @@
 import 'dotenv/config';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/node-postgres';
+import { sql } from 'drizzle-orm';
 import { Pool } from 'pg';
 import * as schema from './schema';
 
@@ -8,4 +10,43 @@ const pool = new Pool({
 });
 
 // Pass schema to drizzle for relation queries
-export const db = drizzle(pool, { schema });
+const database = drizzle(pool, { schema });
+
+// Handle passed to callbacks of db.transaction(), used by helpers that must
+// take part in the caller's all-or-nothing unit of work
+export type DbTransaction = Parameters<Parameters<typeof database.transaction>[0]>[0];
+
+const currentTransaction = new AsyncLocalStorage<DbTransaction>();
+
+// Inside runInTransaction() every query made through db joins the open
+// transaction, and db.transaction() opens a savepoint within it
+export const db = new Proxy(database, {
+  get: (target, property) => {
+    const executor = currentTransaction.getStore() ?? target;
+    const value = Reflect.get(executor, property, executor);
+    return typeof value === 'function' ? value.bind(executor) : value;
+  }
+});
+
+// Runs work in one transaction that every db call it makes takes part in
+export const runInTransaction = <T>(work: (tx: DbTransaction) => Promise<T>): Promise<T> => {
+  return database.transaction(tx => currentTransaction.run(tx, () => work(tx)));
+};
+
+// The audit trail is append-only: the database itself refuses to change or
+// remove its rows. Safe to run on every start.
+export const protectAuditLog = async (): Promise<void> => {
+  await database.execute(sql`
+    CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_log rows cannot be changed or removed';
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+  await database.execute(sql`DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log`);
+  await database.execute(sql`
+    CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE OR TRUNCATE ON audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only()
+  `);
+};
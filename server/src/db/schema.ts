@@ -1,10 +1,21 @@
 
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, jsonb, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
 export const contactTypeEnum = pgEnum('contact_type', ['customer', 'supplier', 'both']);
 export const balanceTypeEnum = pgEnum('balance_type', ['debit', 'credit']);
+export const groupNatureEnum = pgEnum('group_nature', ['asset', 'liability', 'equity', 'income', 'expense']);
+export const cashFlowActivityEnum = pgEnum('cash_flow_activity', ['operating', 'investing', 'financing']);
+export const ledgerTypeEnum = pgEnum('ledger_type', ['general', 'cash', 'bank']);
+export const voucherTypeEnum = pgEnum('voucher_type', ['journal', 'payment', 'receipt', 'contra', 'sales', 'purchase', 'debit_note', 'credit_note']);
+export const invoiceTypeEnum = pgEnum('invoice_type', ['sales', 'purchase']);
+export const taxHeadEnum = pgEnum('tax_head', ['cgst', 'sgst', 'igst', 'cess', 'vat']);
+export const entryStatusEnum = pgEnum('entry_status', ['active', 'superseded', 'reversal']);
+export const userRoleEnum = pgEnum('user_role', ['admin', 'accountant', 'data_entry', 'auditor']);
+export const bankStatementFormatEnum = pgEnum('bank_statement_format', ['csv', 'ofx', 'mt940', 'camt053']);
+export const bankMatchTypeEnum = pgEnum('bank_match_type', ['auto', 'manual', 'voucher']);
+export const auditEntityEnum = pgEnum('audit_entity', ['group', 'contact', 'ledger', 'financial_year', 'transaction', 'voucher_series', 'user', 'bank_statement', 'bank_statement_line', 'invoice', 'invoice_series', 'tax_rate', 'tax_settings', 'database']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -12,16 +23,30 @@ export const usersTable = pgTable('users', {
   username: text('username').notNull().unique(),
   email: text('email').notNull().unique(),
   password_hash: text('password_hash').notNull(),
+  role: userRoleEnum('role').notNull().default('auditor'),
+  is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Sessions table (only a hash of the session token is stored)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Groups table
 export const groupsTable = pgTable('groups', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'),
   parent_group_id: integer('parent_group_id'),
+  nature: groupNatureEnum('nature'),
+  cash_flow_activity: cashFlowActivityEnum('cash_flow_activity'),
+  is_system: boolean('is_system').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -34,6 +59,10 @@ export const contactsTable = pgTable('contacts', {
   phone: text('phone'),
   email: text('email'),
   address: text('address'),
+  // GSTIN or VAT number, and the state it is registered in for the place of
+  // supply; a GSTIN fills in its own state
+  tax_id: text('tax_id'),
+  state_code: text('state_code'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -46,6 +75,8 @@ export const ledgersTable = pgTable('ledgers', {
   contact_id: integer('contact_id'),
   opening_balance: numeric('opening_balance', { precision: 15, scale: 2 }).notNull().default('0'),
   balance_type: balanceTypeEnum('balance_type').notNull().default('debit'),
+  ledger_type: ledgerTypeEnum('ledger_type').notNull().default('general'),
+  is_system: boolean('is_system').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -53,23 +84,52 @@ export const ledgersTable = pgTable('ledgers', {
 // Financial years table
 export const financialYearsTable = pgTable('financial_years', {
   id: serial('id').primaryKey(),
-  name: text('name').notNull(),
+  name: text('name').notNull().unique(),
   start_date: timestamp('start_date').notNull(),
   end_date: timestamp('end_date').notNull(),
   is_active: boolean('is_active').notNull().default(false),
+  is_closed: boolean('is_closed').notNull().default(false),
+  closed_at: timestamp('closed_at'),
+  lock_date: timestamp('lock_date'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Months of a financial year closed to posting, on top of the year's lock date
+export const lockedPeriodsTable = pgTable('locked_periods', {
+  id: serial('id').primaryKey(),
+  financial_year_id: integer('financial_year_id').notNull(),
+  year: integer('year').notNull(),
+  month: integer('month').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('locked_periods_year_month_unique').on(table.financial_year_id, table.year, table.month)
+]);
+
+// Opening balance of each ledger in a financial year, written when the
+// previous year is closed. Years without rows fall back to the ledger's own
+// opening balance.
+export const ledgerOpeningBalancesTable = pgTable('ledger_opening_balances', {
+  id: serial('id').primaryKey(),
+  financial_year_id: integer('financial_year_id').notNull(),
+  ledger_id: integer('ledger_id').notNull(),
+  opening_balance: numeric('opening_balance', { precision: 15, scale: 2 }).notNull().default('0'),
+  balance_type: balanceTypeEnum('balance_type').notNull().default('debit')
+}, (table) => [
+  unique('ledger_opening_balances_year_ledger_unique').on(table.financial_year_id, table.ledger_id)
+]);
+
 // Transaction entries table
 export const transactionEntriesTable = pgTable('transaction_entries', {
   id: serial('id').primaryKey(),
   entry_number: text('entry_number').notNull().unique(),
+  voucher_type: voucherTypeEnum('voucher_type').notNull().default('journal'),
   entry_date: timestamp('entry_date').notNull(),
   description: text('description').notNull(),
   total_amount: numeric('total_amount', { precision: 15, scale: 2 }).notNull(),
   is_correction: boolean('is_correction').notNull().default(false),
   original_entry_id: integer('original_entry_id'),
+  status: entryStatusEnum('status').notNull().default('active'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -81,10 +141,210 @@ export const transactionDetailsTable = pgTable('transaction_details', {
   ledger_id: integer('ledger_id').notNull(),
   debit_amount: numeric('debit_amount', { precision: 15, scale: 2 }).notNull().default('0'),
   credit_amount: numeric('credit_amount', { precision: 15, scale: 2 }).notNull().default('0'),
-  description: text('description')
+  description: text('description'),
+  // Date the bank cleared a line of a bank ledger, from the statement line it
+  // is matched to or entered by hand; null while uncleared
+  cleared_date: timestamp('cleared_date'),
+  // Tax rate charged on a taxed line, and the tax component of a tax line
+  // posted for it
+  tax_rate_id: integer('tax_rate_id'),
+  tax_component_id: integer('tax_component_id')
+});
+
+// Bank statements imported into bank ledgers. Balances are those stated in
+// the file, when it has them.
+export const bankStatementsTable = pgTable('bank_statements', {
+  id: serial('id').primaryKey(),
+  ledger_id: integer('ledger_id').notNull(),
+  format: bankStatementFormatEnum('format').notNull(),
+  file_name: text('file_name').notNull(),
+  account: text('account'),
+  start_date: timestamp('start_date').notNull(),
+  end_date: timestamp('end_date').notNull(),
+  opening_balance: numeric('opening_balance', { precision: 15, scale: 2 }),
+  closing_balance: numeric('closing_balance', { precision: 15, scale: 2 }),
+  skipped_count: integer('skipped_count').notNull().default(0),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Statement lines; amounts are signed with deposits positive
+export const bankStatementLinesTable = pgTable('bank_statement_lines', {
+  id: serial('id').primaryKey(),
+  statement_id: integer('statement_id').notNull(),
+  ledger_id: integer('ledger_id').notNull(),
+  line_date: timestamp('line_date').notNull(),
+  value_date: timestamp('value_date'),
+  description: text('description').notNull(),
+  reference: text('reference'),
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull()
+});
+
+// Book lines a statement line is matched to. A statement line may clear
+// several book lines, but a book line is cleared by one statement line only.
+export const bankMatchesTable = pgTable('bank_matches', {
+  id: serial('id').primaryKey(),
+  statement_line_id: integer('statement_line_id').notNull(),
+  detail_id: integer('detail_id').notNull().unique(),
+  match_type: bankMatchTypeEnum('match_type').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Amounts of bills that a settling line, such as a receipt from a customer,
+// is set against. Whatever a settling line leaves unallocated settles the
+// oldest open bills of its ledger.
+export const billAllocationsTable = pgTable('bill_allocations', {
+  id: serial('id').primaryKey(),
+  detail_id: integer('detail_id').notNull(),
+  bill_detail_id: integer('bill_detail_id').notNull(),
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('bill_allocations_detail_bill_unique').on(table.detail_id, table.bill_detail_id)
+]);
+
+// Voucher numbering series, one per voucher type
+export const voucherSeriesTable = pgTable('voucher_series', {
+  id: serial('id').primaryKey(),
+  voucher_type: voucherTypeEnum('voucher_type').notNull().unique(),
+  prefix: text('prefix').notNull(),
+  suffix: text('suffix').notNull().default(''),
+  padding: integer('padding').notNull().default(4),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Last number issued per voucher type and financial year. Dates outside every
+// financial year share the row whose financial_year_id is null.
+export const voucherSequencesTable = pgTable('voucher_sequences', {
+  id: serial('id').primaryKey(),
+  voucher_type: voucherTypeEnum('voucher_type').notNull(),
+  financial_year_id: integer('financial_year_id'),
+  last_number: integer('last_number').notNull().default(0)
+}, (table) => [
+  unique('voucher_sequences_type_year_unique').on(table.voucher_type, table.financial_year_id).nullsNotDistinct()
+]);
+
+// Sales invoices and purchase bills. Each posts a sales or purchase voucher,
+// entry_id, debiting or crediting the contact's ledger; editing an invoice
+// corrects that voucher and moves entry_id to the replacement.
+export const invoicesTable = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  invoice_type: invoiceTypeEnum('invoice_type').notNull(),
+  invoice_number: text('invoice_number').notNull().unique(),
+  contact_id: integer('contact_id').notNull(),
+  ledger_id: integer('ledger_id').notNull(),
+  invoice_date: timestamp('invoice_date').notNull(),
+  due_date: timestamp('due_date').notNull(),
+  // The supplier's own number of a purchase bill, or the customer's order
+  reference: text('reference'),
+  notes: text('notes'),
+  discount_amount: numeric('discount_amount', { precision: 15, scale: 2 }).notNull(),
+  taxable_amount: numeric('taxable_amount', { precision: 15, scale: 2 }).notNull(),
+  tax_amount: numeric('tax_amount', { precision: 15, scale: 2 }).notNull(),
+  total_amount: numeric('total_amount', { precision: 15, scale: 2 }).notNull(),
+  entry_id: integer('entry_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Invoice line items. ledger_id is the sales or purchase ledger the line is
+// posted to. amount is after the discount and before tax, and tax_rate the
+// total of the tax rate's components charged on it.
+export const invoiceLinesTable = pgTable('invoice_lines', {
+  id: serial('id').primaryKey(),
+  invoice_id: integer('invoice_id').notNull(),
+  description: text('description').notNull(),
+  ledger_id: integer('ledger_id').notNull(),
+  quantity: numeric('quantity', { precision: 15, scale: 3 }).notNull(),
+  rate: numeric('rate', { precision: 15, scale: 2 }).notNull(),
+  discount_percent: numeric('discount_percent', { precision: 5, scale: 2 }).notNull().default('0'),
+  discount_amount: numeric('discount_amount', { precision: 15, scale: 2 }).notNull(),
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull(),
+  tax_rate: numeric('tax_rate', { precision: 5, scale: 2 }).notNull().default('0'),
+  tax_rate_id: integer('tax_rate_id'),
+  tax_amount: numeric('tax_amount', { precision: 15, scale: 2 }).notNull()
+});
+
+// Invoice numbering series, one per invoice type
+export const invoiceSeriesTable = pgTable('invoice_series', {
+  id: serial('id').primaryKey(),
+  invoice_type: invoiceTypeEnum('invoice_type').notNull().unique(),
+  prefix: text('prefix').notNull(),
+  suffix: text('suffix').notNull().default(''),
+  padding: integer('padding').notNull().default(4),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Last number issued per invoice type and financial year, as for vouchers
+export const invoiceSequencesTable = pgTable('invoice_sequences', {
+  id: serial('id').primaryKey(),
+  invoice_type: invoiceTypeEnum('invoice_type').notNull(),
+  financial_year_id: integer('financial_year_id'),
+  last_number: integer('last_number').notNull().default(0)
+}, (table) => [
+  unique('invoice_sequences_type_year_unique').on(table.invoice_type, table.financial_year_id).nullsNotDistinct()
+]);
+
+// The business's own tax registration; a single row. Supplies to contacts in
+// state_code are intra-state.
+export const taxSettingsTable = pgTable('tax_settings', {
+  id: serial('id').primaryKey(),
+  tax_id: text('tax_id'),
+  state_code: text('state_code'),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Tax rates such as GST 18% or VAT 20%
+export const taxRatesTable = pgTable('tax_rates', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  rate: numeric('rate', { precision: 5, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Components of a tax rate, one per tax head. Output tax on sales is
+// credited to output_ledger_id and input tax credit on purchases debited to
+// input_ledger_id.
+export const taxComponentsTable = pgTable('tax_components', {
+  id: serial('id').primaryKey(),
+  tax_rate_id: integer('tax_rate_id').notNull(),
+  head: taxHeadEnum('head').notNull(),
+  rate: numeric('rate', { precision: 5, scale: 2 }).notNull(),
+  output_ledger_id: integer('output_ledger_id').notNull(),
+  input_ledger_id: integer('input_ledger_id').notNull()
+}, (table) => [
+  unique('tax_components_rate_head_unique').on(table.tax_rate_id, table.head)
+]);
+
+// Audit log table. Rows are only ever inserted; the trigger installed by
+// protectAuditLog() refuses updates and deletes.
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'),
+  username: text('username'),
+  procedure: text('procedure').notNull(),
+  entity: auditEntityEnum('entity').notNull(),
+  entity_id: integer('entity_id'),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  lock_override: boolean('lock_override').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
 // Relations
+export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
 export const groupsRelations = relations(groupsTable, ({ one, many }) => ({
   parentGroup: one(groupsTable, {
     fields: [groupsTable.parent_group_id],
@@ -133,10 +393,27 @@ export const transactionDetailsRelations = relations(transactionDetailsTable, ({
 // Export all tables
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
   groups: groupsTable,
   contacts: contactsTable,
   ledgers: ledgersTable,
   financialYears: financialYearsTable,
+  ledgerOpeningBalances: ledgerOpeningBalancesTable,
+  lockedPeriods: lockedPeriodsTable,
   transactionEntries: transactionEntriesTable,
-  transactionDetails: transactionDetailsTable
+  transactionDetails: transactionDetailsTable,
+  voucherSeries: voucherSeriesTable,
+  voucherSequences: voucherSequencesTable,
+  bankStatements: bankStatementsTable,
+  bankStatementLines: bankStatementLinesTable,
+  bankMatches: bankMatchesTable,
+  billAllocations: billAllocationsTable,
+  invoices: invoicesTable,
+  invoiceLines: invoiceLinesTable,
+  invoiceSeries: invoiceSeriesTable,
+  invoiceSequences: invoiceSequencesTable,
+  taxSettings: taxSettingsTable,
+  taxRates: taxRatesTable,
+  taxComponents: taxComponentsTable,
+  auditLog: auditLogTable
 };
@@ -0,0 +1,36 @@
+import { type ExportCell, type ExportColumn, type ExportDocument, isoDate } from './document';
+
+// Spreadsheets run text starting with one of these as a formula, so such text
+// gets a leading apostrophe. Amounts are numbers, never text, so negative
+// amounts keep their sign.
+const formulaStart = /^[=+\-@\t\r]/;
+
+const quote = (text: string): string => {
+  const safe = formulaStart.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) || safe !== safe.trim() ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const csvCell = (cell: ExportCell, column: ExportColumn): string => {
+  if (cell === null) {
+    return '';
+  }
+  if (cell instanceof Date) {
+    return isoDate(cell);
+  }
+  if (typeof cell === 'number') {
+    return column.type === 'amount' ? cell.toFixed(2) : String(cell);
+  }
+  return quote(cell);
+};
+
+// RFC 4180 CSV of the column headers and rows. Amounts are plain numbers and
+// dates ISO dates, so spreadsheets read them as values; the UTF-8 byte order
+// mark makes Excel read names with accents correctly.
+export const toCsv = (document: ExportDocument): Buffer => {
+  const lines = [
+    document.columns.map(column => quote(column.header)),
+    ...document.rows.map(row => document.columns.map((column, index) => csvCell(row.cells[index] ?? null, column)))
+  ].map(cells => cells.join(','));
+
+  return Buffer.from(`\ufeff${lines.join('\r\n')}\r\n`, 'utf8');
+};
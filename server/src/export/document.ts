@@ -0,0 +1,69 @@
+import { formatDay } from '../periods';
+
+// Report exports are built as one table, which the CSV, XLSX, PDF and HTML
+// writers lay out in their own format.
+
+export interface ExportColumn {
+  header: string;
+  type: 'text' | 'date' | 'amount' | 'count';
+  // Rough width in characters
+  width: number;
+  // Amount columns that subtotal and total rows add up; false for running
+  // balances and other amounts that do not add up
+  summed?: boolean;
+}
+
+export type ExportCell = string | number | Date | null;
+
+// heading and period rows start a section and a sub-section. Subtotals add up
+// the lines since the last heading or period row, totals the lines since the
+// last heading. group and note rows are shown as they are.
+export type ExportRowKind = 'heading' | 'period' | 'line' | 'group' | 'note' | 'subtotal' | 'total';
+
+export interface ExportRow {
+  kind: ExportRowKind;
+  cells: ExportCell[];
+  // Indent of the first cell, in levels
+  indent?: number;
+}
+
+export interface ExportDocument {
+  company: string;
+  title: string;
+  // Period or date the report covers, e.g. "1 Apr 2024 to 31 Mar 2025"
+  period: string;
+  // File name without the extension
+  filename: string;
+  // Name and address lines of whom the document is addressed to, printed by
+  // the PDF and HTML writers
+  recipient?: string[];
+  columns: ExportColumn[];
+  rows: ExportRow[];
+}
+
+export const isBoldRow = (row: ExportRow): boolean => {
+  return row.kind !== 'line' && row.kind !== 'note';
+};
+
+// Plain ISO date, as used in CSV cells and file names
+export const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+// Amount with thousands separators; negative amounts in brackets
+export const formatAmount = (amount: number): string => {
+  const text = Math.abs(amount).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return amount < 0 ? `(${text})` : text;
+};
+
+// Cell as printed: dates as days and amounts with separators
+export const displayText = (cell: ExportCell, column: ExportColumn): string => {
+  if (cell === null) {
+    return '';
+  }
+  if (cell instanceof Date) {
+    return formatDay(cell);
+  }
+  if (typeof cell === 'number') {
+    return column.type === 'amount' ? formatAmount(cell) : String(cell);
+  }
+  return cell;
+};
@@ -0,0 +1,71 @@
+import { type ExportColumn, type ExportDocument, type ExportRow, displayText, isBoldRow } from './document';
+
+// Standalone HTML page with the styles inline, so it can be opened, printed
+// or attached to an email as it is.
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+};
+
+const isRightAligned = (column: ExportColumn): boolean => column.type === 'amount' || column.type === 'count';
+
+const STYLES = `
+body { font-family: Helvetica, Arial, sans-serif; font-size: 13px; color: #111; margin: 32px; }
+header { display: flex; justify-content: space-between; margin-bottom: 20px; }
+h1 { font-size: 20px; margin: 0; }
+h2 { font-size: 15px; margin: 6px 0 2px; }
+.period, .recipient { font-size: 12px; }
+.recipient { text-align: right; }
+.recipient div:first-child { font-weight: bold; }
+table { width: 100%; border-collapse: collapse; }
+th { text-align: left; border-bottom: 1.5px solid #111; padding: 4px 6px; }
+td { padding: 3px 6px; }
+.right { text-align: right; }
+.bold { font-weight: bold; }
+.note { font-style: italic; }
+.summed { border-top: 1px solid #111; }
+@media print { body { margin: 0; } }
+`;
+
+const rowHtml = (row: ExportRow, columns: ExportColumn[]): string => {
+  const cells = columns.map((column, index) => {
+    const classes = [
+      isRightAligned(column) ? 'right' : '',
+      (row.kind === 'subtotal' || row.kind === 'total') && column.summed ? 'summed' : ''
+    ].filter(Boolean);
+    const indent = index === 0 && row.indent ? ` style="padding-left: ${6 + row.indent * 16}px"` : '';
+    const text = escapeHtml(displayText(row.cells[index] ?? null, column));
+    return `<td${classes.length > 0 ? ` class="${classes.join(' ')}"` : ''}${indent}>${text}</td>`;
+  });
+  return `<tr class="${row.kind}${isBoldRow(row) ? ' bold' : ''}">${cells.join('')}</tr>`;
+};
+
+export const toHtml = (document: ExportDocument): Buffer => {
+  const recipient = (document.recipient ?? []).map(line => `<div>${escapeHtml(line)}</div>`).join('');
+  const headers = document.columns
+    .map(column => `<th${isRightAligned(column) ? ' class="right"' : ''}>${escapeHtml(column.header)}</th>`)
+    .join('');
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(`${document.company} - ${document.title}`)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<div><h1>${escapeHtml(document.company)}</h1><h2>${escapeHtml(document.title)}</h2><div class="period">${escapeHtml(document.period)}</div></div>`,
+    recipient ? `<div class="recipient">${recipient}</div>` : '',
+    '</header>',
+    '<table>',
+    `<thead><tr>${headers}</tr></thead>`,
+    `<tbody>${document.rows.map(row => rowHtml(row, document.columns)).join('\n')}</tbody>`,
+    '</table>',
+    '</body>',
+    '</html>'
+  ];
+
+  return Buffer.from(`${html.join('\n')}\n`, 'utf8');
+};
@@ -0,0 +1,221 @@
+import { type ExportColumn, type ExportDocument, type ExportRow, displayText, isBoldRow } from './document';
+
+// Print-ready PDF on A4 using the standard Helvetica fonts, so nothing needs
+// to be embedded. Wide tables are printed in landscape.
+
+// Advance widths of the printable ASCII characters, space to tilde, in
+// thousandths of the font size; the oblique font has the regular widths
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsiEncoding codes of the punctuation outside Latin-1 that names and
+// labels use; other characters outside Latin-1 are printed as "?"
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+type Font = 'regular' | 'bold' | 'italic';
+
+const fontNames: Record<Font, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+const PORTRAIT = { width: 595, height: 842 };
+const LANDSCAPE = { width: 842, height: 595 };
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 12;
+const CELL_PADDING = 3;
+const INDENT = 8;
+// Points per character of column width at the table font size
+const CHARACTER_WIDTH = 4.6;
+
+// Heights of the page header above the table and the footer below it
+const HEADER_HEIGHT = 58;
+const FOOTER_HEIGHT = 24;
+
+const toWinAnsi = (text: string): string => {
+  return Array.from(text, character => {
+    const code = character.charCodeAt(0);
+    if (character.length === 1 && ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff))) {
+      return character;
+    }
+    const winAnsi = WIN_ANSI_CODES[character];
+    return winAnsi ? String.fromCharCode(winAnsi) : code < 0x20 ? ' ' : '?';
+  }).join('');
+};
+
+const textWidth = (text: string, font: Font, size: number): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+  for (const character of text) {
+    const code = character.charCodeAt(0);
+    width += code >= 0x20 && code < 0x7f ? widths[code - 0x20] : 556;
+  }
+  return (width * size) / 1000;
+};
+
+// Cuts text to the width, ending it with an ellipsis
+const fitText = (text: string, font: Font, size: number, width: number): string => {
+  if (textWidth(text, font, size) <= width) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, font, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted.length > 0 ? `${fitted}...` : '';
+};
+
+const escapePdfText = (text: string): string => text.replace(/([\\()])/g, '\\$1');
+
+const rowFont = (row: ExportRow): Font => row.kind === 'note' ? 'italic' : isBoldRow(row) ? 'bold' : 'regular';
+
+const isRightAligned = (column: ExportColumn): boolean => column.type === 'amount' || column.type === 'count';
+
+class PageContent {
+  private readonly operations: string[] = [];
+
+  text(text: string, x: number, y: number, font: Font, size: number) {
+    if (text) {
+      this.operations.push(`BT /${fontNames[font]} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`);
+    }
+  }
+
+  rightText(text: string, right: number, y: number, font: Font, size: number) {
+    this.text(text, right - textWidth(text, font, size), y, font, size);
+  }
+
+  line(x1: number, x2: number, y: number, width: number) {
+    this.operations.push(`${width} w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+
+  toString(): string {
+    return this.operations.join('\n');
+  }
+}
+
+export const toPdf = (document: ExportDocument): Buffer => {
+  const naturalWidth = document.columns.reduce((total, column) => total + column.width * CHARACTER_WIDTH, 0);
+  const page = naturalWidth > PORTRAIT.width - 2 * MARGIN ? LANDSCAPE : PORTRAIT;
+  const tableWidth = page.width - 2 * MARGIN;
+
+  // Columns are stretched or squeezed to the width of the page
+  const scale = tableWidth / naturalWidth;
+  const columnLefts: number[] = [];
+  const columnWidths = document.columns.map(column => column.width * CHARACTER_WIDTH * scale);
+  columnWidths.reduce((left, width) => {
+    columnLefts.push(left);
+    return left + width;
+  }, MARGIN);
+
+  const tableTop = page.height - MARGIN - HEADER_HEIGHT;
+  const rowsPerPage = Math.max(1, Math.floor((tableTop - ROW_HEIGHT - (MARGIN + FOOTER_HEIGHT)) / ROW_HEIGHT));
+  const pageCount = Math.max(1, Math.ceil(document.rows.length / rowsPerPage));
+  const company = toWinAnsi(document.company);
+  const title = toWinAnsi(document.title);
+
+  const pages = Array.from({ length: pageCount }, (_, pageIndex) => {
+    const content = new PageContent();
+
+    content.text(company, MARGIN, page.height - MARGIN - 14, 'bold', 14);
+    content.text(title, MARGIN, page.height - MARGIN - 32, 'bold', 11);
+    content.text(toWinAnsi(document.period), MARGIN, page.height - MARGIN - 46, 'regular', 9);
+
+    // The recipient's name and address sit opposite the company, at most
+    // four lines of them
+    (document.recipient ?? []).slice(0, 4).forEach((line, index) => {
+      const font = index === 0 ? 'bold' : 'regular';
+      const text = fitText(toWinAnsi(line), font, 9, tableWidth / 2);
+      content.rightText(text, MARGIN + tableWidth, page.height - MARGIN - 14 - index * 11, font, 9);
+    });
+
+    // Column headers are repeated on every page
+    let y = tableTop;
+    document.columns.forEach((column, index) => {
+      const width = columnWidths[index] - 2 * CELL_PADDING;
+      const header = fitText(toWinAnsi(column.header), 'bold', FONT_SIZE, width);
+      if (isRightAligned(column)) {
+        content.rightText(header, columnLefts[index] + columnWidths[index] - CELL_PADDING, y, 'bold', FONT_SIZE);
+      } else {
+        content.text(header, columnLefts[index] + CELL_PADDING, y, 'bold', FONT_SIZE);
+      }
+    });
+    content.line(MARGIN, MARGIN + tableWidth, y - 4, 0.75);
+
+    document.rows.slice(pageIndex * rowsPerPage, (pageIndex + 1) * rowsPerPage).forEach(row => {
+      y -= ROW_HEIGHT;
+      const font = rowFont(row);
+
+      if (row.kind === 'subtotal' || row.kind === 'total') {
+        document.columns.forEach((column, index) => {
+          if (column.summed) {
+            content.line(columnLefts[index] + CELL_PADDING, columnLefts[index] + columnWidths[index] - CELL_PADDING, y + ROW_HEIGHT - 3, 0.5);
+          }
+        });
+      }
+
+      document.columns.forEach((column, index) => {
+        const indent = index === 0 ? (row.indent ?? 0) * INDENT : 0;
+        const width = columnWidths[index] - 2 * CELL_PADDING - indent;
+        const text = fitText(toWinAnsi(displayText(row.cells[index] ?? null, column)), font, FONT_SIZE, width);
+        if (isRightAligned(column)) {
+          content.rightText(text, columnLefts[index] + columnWidths[index] - CELL_PADDING, y, font, FONT_SIZE);
+        } else {
+          content.text(text, columnLefts[index] + CELL_PADDING + indent, y, font, FONT_SIZE);
+        }
+      });
+    });
+
+    content.line(MARGIN, MARGIN + tableWidth, MARGIN + FOOTER_HEIGHT - 6, 0.5);
+    content.text(fitText(`${company} - ${title}`, 'regular', FONT_SIZE, tableWidth / 2), MARGIN, MARGIN + 6, 'regular', FONT_SIZE);
+    content.rightText(`Page ${pageIndex + 1} of ${pageCount}`, MARGIN + tableWidth, MARGIN + 6, 'regular', FONT_SIZE);
+
+    return content.toString();
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, then a page and its content
+  // stream for every page
+  const fontObject = (name: string) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    fontObject('Helvetica'),
+    fontObject('Helvetica-Bold'),
+    fontObject('Helvetica-Oblique'),
+    ...pages.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    ])
+  ];
+
+  // Text is WinAnsi, one byte per character, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
@@ -0,0 +1,206 @@
+import { type ExportCell, type ExportColumn, type ExportDocument, type ExportRow, isBoldRow } from './document';
+import { createZip } from './zip';
+
+// Rows above the table: company, title, period and a blank row
+const HEADER_ROWS = 4;
+
+const MAX_FORMULA_LENGTH = 8000;
+
+const escapeXml = (text: string): string => {
+  return text
+    // Control characters other than tabs and line breaks are not allowed in XML
+    .replace(/[^\t\n\r\u0020-\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Days since 30 Dec 1899, Excel's date serial
+const toDateSerial = (date: Date): number => date.getTime() / 86400000 + 25569;
+
+const sheetName = (title: string): string => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+interface CellStyle {
+  font: 'regular' | 'bold' | 'italic' | 'title';
+  format: 'general' | 'amount' | 'date';
+  indent: number;
+  topBorder: boolean;
+}
+
+const fontIds: Record<CellStyle['font'], number> = { regular: 0, bold: 1, italic: 2, title: 3 };
+const formatIds: Record<CellStyle['format'], number> = { general: 0, amount: 164, date: 165 };
+
+// Cell formats are added as the sheet uses them; index 0 is the default
+class StyleRegistry {
+  private readonly keys = ['regular-general-0-false'];
+  private readonly formats = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+
+  id(style: CellStyle): number {
+    const key = `${style.font}-${style.format}-${style.indent}-${style.topBorder}`;
+    const existing = this.keys.indexOf(key);
+    if (existing >= 0) {
+      return existing;
+    }
+
+    const alignment = style.indent > 0 ? `<alignment indent="${style.indent}"/>` : '';
+    this.keys.push(key);
+    this.formats.push(
+      `<xf numFmtId="${formatIds[style.format]}" fontId="${fontIds[style.font]}" fillId="0" borderId="${style.topBorder ? 1 : 0}" xfId="0"` +
+      ` applyNumberFormat="1" applyFont="1" applyBorder="1"${alignment ? ' applyAlignment="1"' : ''}>${alignment}</xf>`
+    );
+    return this.keys.length - 1;
+  }
+
+  toXml(): string {
+    const font = (attributes: string, size = 11) => `<font>${attributes}<sz val="${size}"/><name val="Calibri"/></font>`;
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="2"><numFmt numFmtId="164" formatCode="#,##0.00;(#,##0.00)"/><numFmt numFmtId="165" formatCode="d mmm yyyy"/></numFmts>' +
+      `<fonts count="4">${font('')}${font('<b/>')}${font('<i/>')}${font('<b/>', 14)}</fonts>` +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>' +
+      '<border><left/><right/><top style="thin"/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${this.formats.length}">${this.formats.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>';
+  }
+}
+
+// Sheet row numbers of the lines a subtotal or total row adds up, as ranges
+// of consecutive rows, e.g. "E7:E9,E12:E12"
+const summedRanges = (rows: ExportRow[], index: number, letter: string): string | null => {
+  const sectionStarts = rows[index].kind === 'subtotal' ? ['heading', 'period'] : ['heading'];
+  const lineNumbers: number[] = [];
+
+  for (let i = index - 1; i >= 0 && !sectionStarts.includes(rows[i].kind); i--) {
+    if (rows[i].kind === 'line') {
+      lineNumbers.unshift(HEADER_ROWS + 2 + i);
+    }
+  }
+  if (lineNumbers.length === 0) {
+    return null;
+  }
+
+  const ranges: string[] = [];
+  let first = lineNumbers[0];
+  lineNumbers.forEach((rowNumber, i) => {
+    const next = lineNumbers[i + 1];
+    if (next !== rowNumber + 1) {
+      ranges.push(`${letter}${first}:${letter}${rowNumber}`);
+      first = next;
+    }
+  });
+
+  const formula = ranges.join(',');
+  return formula.length <= MAX_FORMULA_LENGTH ? formula : null;
+};
+
+const cellXml = (reference: string, cell: ExportCell, styleId: number, formula: string | null): string => {
+  if (cell === null) {
+    return styleId ? `<c r="${reference}" s="${styleId}"/>` : '';
+  }
+  if (cell instanceof Date) {
+    return `<c r="${reference}" s="${styleId}"><v>${toDateSerial(cell)}</v></c>`;
+  }
+  if (typeof cell === 'number') {
+    return `<c r="${reference}" s="${styleId}">${formula ? `<f>SUM(${formula})</f>` : ''}<v>${cell}</v></c>`;
+  }
+  return `<c r="${reference}" s="${styleId}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+};
+
+const headerRowXml = (rowNumber: number, text: string, styleId: number): string => {
+  return `<row r="${rowNumber}">${cellXml(`A${rowNumber}`, text, styleId, null)}</row>`;
+};
+
+// Excel workbook with one sheet: a header with the company, title and period
+// above the table. Amounts and dates are numeric cells with number formats,
+// and subtotals and totals are SUM formulas over the lines they add up.
+export const toXlsx = (document: ExportDocument): Buffer => {
+  const styles = new StyleRegistry();
+  const plain = { indent: 0, topBorder: false };
+
+  const columnStyle = (column: ExportColumn, row: ExportRow, columnIndex: number): number => styles.id({
+    font: row.kind === 'note' ? 'italic' : isBoldRow(row) ? 'bold' : 'regular',
+    format: column.type === 'amount' ? 'amount' : column.type === 'date' ? 'date' : 'general',
+    indent: columnIndex === 0 ? row.indent ?? 0 : 0,
+    topBorder: row.kind === 'subtotal' || row.kind === 'total'
+  });
+
+  const tableHeaderNumber = HEADER_ROWS + 1;
+  const headerStyle = styles.id({ ...plain, font: 'bold', format: 'general' });
+
+  const rowsXml = [
+    headerRowXml(1, document.company, styles.id({ ...plain, font: 'title', format: 'general' })),
+    headerRowXml(2, document.title, headerStyle),
+    headerRowXml(3, document.period, 0),
+    `<row r="${tableHeaderNumber}">${document.columns.map((column, index) =>
+      cellXml(`${columnLetter(index)}${tableHeaderNumber}`, column.header, headerStyle, null)
+    ).join('')}</row>`,
+    ...document.rows.map((row, rowIndex) => {
+      const rowNumber = tableHeaderNumber + 1 + rowIndex;
+      const cells = document.columns.map((column, columnIndex) => {
+        const letter = columnLetter(columnIndex);
+        const formula = (row.kind === 'subtotal' || row.kind === 'total') && column.summed
+          ? summedRanges(document.rows, rowIndex, letter)
+          : null;
+        return cellXml(`${letter}${rowNumber}`, row.cells[columnIndex] ?? null, columnStyle(column, row, columnIndex), formula);
+      });
+      return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    })
+  ];
+
+  const sheet = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    `<pane ySplit="${tableHeaderNumber}" topLeftCell="A${tableHeaderNumber + 1}" activePane="bottomLeft" state="frozen"/>` +
+    '</sheetView></sheetViews>' +
+    `<cols>${document.columns.map((column, index) =>
+      `<col min="${index + 1}" max="${index + 1}" width="${column.width + 2}" customWidth="1"/>`
+    ).join('')}</cols>` +
+    `<sheetData>${rowsXml.join('')}</sheetData>` +
+    '</worksheet>';
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName(document.title))}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>';
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>';
+
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`;
+  const relationships = (items: string) => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf8') },
+    { name: '_rels/.rels', data: Buffer.from(relationships(relationship('rId1', 'officeDocument', 'xl/workbook.xml')), 'utf8') },
+    { name: 'xl/workbook.xml', data: Buffer.from(workbook, 'utf8') },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: Buffer.from(relationships(
+        relationship('rId1', 'worksheet', 'worksheets/sheet1.xml') + relationship('rId2', 'styles', 'styles.xml')
+      ), 'utf8')
+    },
+    { name: 'xl/styles.xml', data: Buffer.from(styles.toXml(), 'utf8') },
+    { name: 'xl/worksheets/sheet1.xml', data: Buffer.from(sheet, 'utf8') }
+  ]);
+};
@@ -0,0 +1,260 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  groupsTable,
+  contactsTable,
+  ledgersTable,
+  financialYearsTable,
+  lockedPeriodsTable,
+  transactionEntriesTable,
+  transactionDetailsTable,
+  voucherSeriesTable,
+  usersTable,
+  bankStatementsTable,
+  bankStatementLinesTable,
+  bankMatchesTable,
+  billAllocationsTable,
+  invoicesTable,
+  invoiceLinesTable,
+  invoiceSeriesTable,
+  taxRatesTable,
+  taxComponentsTable,
+  taxSettingsTable
+} from '../db/schema';
+import { type AuditEntity, type AuditLogEntry, type AuditLogInput, type SessionUser } from '../schema';
+import { toSessionUser } from './auth';
+import { and, asc, desc, eq, gte, inArray, lte, type SQL } from 'drizzle-orm';
+
+export interface RecordAuditInput {
+  user: SessionUser | null;
+  procedure: string;
+  entity: AuditEntity;
+  entity_id: number | null;
+  before: unknown;
+  after: unknown;
+  lock_override?: boolean;
+}
+
+// Input field naming the audited row: the row's own id, or the id of a
+// voucher line, audited as the voucher it belongs to
+export type AuditKey = 'id' | 'detail_id';
+
+export const resolveAuditEntityId = async (key: AuditKey, value: number): Promise<number | null> => {
+  try {
+    if (key === 'id') {
+      return value;
+    }
+
+    const rows = await db.select({ entry_id: transactionDetailsTable.entry_id })
+      .from(transactionDetailsTable)
+      .where(eq(transactionDetailsTable.id, value))
+      .execute();
+
+    return rows[0]?.entry_id ?? null;
+  } catch (error) {
+    console.error('Failed to resolve audited row:', error);
+    throw error;
+  }
+};
+
+// Statement lines with the ids of the book lines matched to each
+const withMatchedDetails = async (lines: typeof bankStatementLinesTable.$inferSelect[]) => {
+  const matches = lines.length === 0 ? [] : await db.select()
+    .from(bankMatchesTable)
+    .where(inArray(bankMatchesTable.statement_line_id, lines.map(line => line.id)))
+    .orderBy(asc(bankMatchesTable.id))
+    .execute();
+
+  return lines.map(line => ({
+    ...line,
+    matched_detail_ids: matches.filter(match => match.statement_line_id === line.id).map(match => match.detail_id)
+  }));
+};
+
+// Loads the current state of an entity for the before/after columns.
+// Returns null when the row does not exist (e.g. after a delete).
+export const loadAuditSnapshot = async (entity: AuditEntity, id: number): Promise<unknown> => {
+  try {
+    switch (entity) {
+      case 'group': {
+        const rows = await db.select().from(groupsTable).where(eq(groupsTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'contact': {
+        const rows = await db.select().from(contactsTable).where(eq(contactsTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'ledger': {
+        const rows = await db.select().from(ledgersTable).where(eq(ledgersTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'financial_year': {
+        const rows = await db.select().from(financialYearsTable).where(eq(financialYearsTable.id, id)).execute();
+        if (rows.length === 0) {
+          return null;
+        }
+
+        // Locked months are part of the year's state so locking shows up as a change
+        const lockedPeriods = await db.select({ year: lockedPeriodsTable.year, month: lockedPeriodsTable.month })
+          .from(lockedPeriodsTable)
+          .where(eq(lockedPeriodsTable.financial_year_id, id))
+          .orderBy(lockedPeriodsTable.year, lockedPeriodsTable.month)
+          .execute();
+
+        return { ...rows[0], locked_periods: lockedPeriods };
+      }
+      case 'transaction': {
+        const rows = await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, id)).execute();
+        if (rows.length === 0) {
+          return null;
+        }
+
+        const details = await db.select()
+          .from(transactionDetailsTable)
+          .where(eq(transactionDetailsTable.entry_id, id))
+          .orderBy(transactionDetailsTable.id)
+          .execute();
+
+        // Bill allocations made by its lines, so allocating shows up as a change
+        const billAllocations = details.length === 0 ? [] : await db.select()
+          .from(billAllocationsTable)
+          .where(inArray(billAllocationsTable.detail_id, details.map(detail => detail.id)))
+          .orderBy(asc(billAllocationsTable.id))
+          .execute();
+
+        return { ...rows[0], details, bill_allocations: billAllocations };
+      }
+      case 'voucher_series': {
+        const rows = await db.select().from(voucherSeriesTable).where(eq(voucherSeriesTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'user': {
+        // Never copy password hashes into the audit trail
+        const rows = await db.select().from(usersTable).where(eq(usersTable.id, id)).execute();
+        return rows.length > 0 ? toSessionUser(rows[0]) : null;
+      }
+      case 'bank_statement': {
+        const rows = await db.select().from(bankStatementsTable).where(eq(bankStatementsTable.id, id)).execute();
+        if (rows.length === 0) {
+          return null;
+        }
+
+        const lines = await db.select()
+          .from(bankStatementLinesTable)
+          .where(eq(bankStatementLinesTable.statement_id, id))
+          .orderBy(asc(bankStatementLinesTable.id))
+          .execute();
+
+        return { ...rows[0], lines: await withMatchedDetails(lines) };
+      }
+      case 'bank_statement_line': {
+        const rows = await db.select().from(bankStatementLinesTable).where(eq(bankStatementLinesTable.id, id)).execute();
+        return rows.length > 0 ? (await withMatchedDetails(rows))[0] : null;
+      }
+      case 'invoice': {
+        const rows = await db.select().from(invoicesTable).where(eq(invoicesTable.id, id)).execute();
+        if (rows.length === 0) {
+          return null;
+        }
+
+        const lines = await db.select()
+          .from(invoiceLinesTable)
+          .where(eq(invoiceLinesTable.invoice_id, id))
+          .orderBy(asc(invoiceLinesTable.id))
+          .execute();
+
+        return { ...rows[0], lines };
+      }
+      case 'invoice_series': {
+        const rows = await db.select().from(invoiceSeriesTable).where(eq(invoiceSeriesTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'tax_rate': {
+        const rows = await db.select().from(taxRatesTable).where(eq(taxRatesTable.id, id)).execute();
+        if (rows.length === 0) {
+          return null;
+        }
+
+        const components = await db.select()
+          .from(taxComponentsTable)
+          .where(eq(taxComponentsTable.tax_rate_id, id))
+          .orderBy(asc(taxComponentsTable.id))
+          .execute();
+
+        return { ...rows[0], components };
+      }
+      case 'tax_settings': {
+        const rows = await db.select().from(taxSettingsTable).where(eq(taxSettingsTable.id, id)).execute();
+        return rows[0] ?? null;
+      }
+      case 'database':
+        return null;
+    }
+  } catch (error) {
+    console.error('Failed to load audit snapshot:', error);
+    throw error;
+  }
+};
+
+export const recordAuditEntry = async (input: RecordAuditInput): Promise<void> => {
+  try {
+    await db.insert(auditLogTable)
+      .values({
+        user_id: input.user?.id ?? null,
+        username: input.user?.username ?? null,
+        procedure: input.procedure,
+        entity: input.entity,
+        entity_id: input.entity_id,
+        before: input.before ?? null,
+        after: input.after ?? null,
+        lock_override: input.lock_override ?? false
+      })
+      .execute();
+  } catch (error) {
+    console.error('Failed to record audit entry:', error);
+    throw error;
+  }
+};
+
+export const getAuditLog = async (input: AuditLogInput): Promise<AuditLogEntry[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.entity) {
+      conditions.push(eq(auditLogTable.entity, input.entity));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(auditLogTable.user_id, input.user_id));
+    }
+
+    if (input.lock_override !== undefined) {
+      conditions.push(eq(auditLogTable.lock_override, input.lock_override));
+    }
+
+    if (input.start_date) {
+      conditions.push(gte(auditLogTable.created_at, input.start_date));
+    }
+
+    if (input.end_date) {
+      conditions.push(lte(auditLogTable.created_at, input.end_date));
+    }
+
+    const results = await db.select()
+      .from(auditLogTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get audit log:', error);
+    throw error;
+  }
+};
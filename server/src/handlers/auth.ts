@@ -1,8 +1,100 @@
-
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type LoginInput, type LoginResponse } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type LoginInput, type LoginResponse, type SessionUser } from '../schema';
+import { and, eq, lt, notLike } from 'drizzle-orm';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: { N: number; r: number; p: number }) => Promise<Buffer>;
+
+// scrypt cost parameters; they are stored with each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+const SESSION_TTL_MS = Number(process.env['SESSION_TTL_HOURS'] || 8) * 60 * 60 * 1000;
+
+// Produces a salted hash in the form scrypt$N$r$p$salt$hash
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+// A malformed hash, e.g. with cost parameters scrypt refuses, never matches
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [algorithm, n, r, p, salt, hash] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  if (expected.length === 0) {
+    return false;
+  }
+
+  try {
+    const key = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p)
+    });
+
+    return timingSafeEqual(key, expected);
+  } catch {
+    return false;
+  }
+};
+
+// Checked when the username is unknown, so that a login for an unknown user
+// takes as long as one with a wrong password and does not reveal which
+// usernames exist
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = (): Promise<string> => {
+  dummyPasswordHash ??= hashPassword(randomBytes(16).toString('base64'));
+  return dummyPasswordHash;
+};
+
+// Accounts created before passwords were hashed hold the password itself and
+// cannot log in; this hashes those passwords in place. Safe to run on every
+// start.
+export const rehashPlaintextPasswords = async (): Promise<number> => {
+  try {
+    const users = await db.select({ id: usersTable.id, password_hash: usersTable.password_hash })
+      .from(usersTable)
+      .where(notLike(usersTable.password_hash, 'scrypt$%'))
+      .execute();
+
+    for (const user of users) {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword(user.password_hash), updated_at: new Date() })
+        .where(and(eq(usersTable.id, user.id), eq(usersTable.password_hash, user.password_hash)))
+        .execute();
+    }
+
+    return users.length;
+  } catch (error) {
+    console.error('Failed to rehash plaintext passwords:', error);
+    throw error;
+  }
+};
+
+// Session tokens are only ever stored hashed, so a database leak does not expose live sessions
+const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+export const toSessionUser = (user: typeof usersTable.$inferSelect): SessionUser => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  role: user.role,
+  is_active: user.is_active,
+  created_at: user.created_at,
+  updated_at: user.updated_at
+});
 
 export const login = async (input: LoginInput): Promise<LoginResponse> => {
   try {
@@ -13,6 +105,7 @@ export const login = async (input: LoginInput): Promise<LoginResponse> => {
       .execute();
 
     if (users.length === 0) {
+      await verifyPassword(input.password, await getDummyPasswordHash());
       return {
         success: false,
         message: 'Invalid username or password'
@@ -21,29 +114,92 @@ export const login = async (input: LoginInput): Promise<LoginResponse> => {
 
     const user = users[0];
 
-    // In a real implementation, you would hash the input password and compare
-    // For this basic implementation, we'll do a simple comparison
-    // Note: This is NOT secure and should use proper password hashing (bcrypt, etc.)
-    if (user.password_hash !== input.password) {
+    if (!(await verifyPassword(input.password, user.password_hash))) {
       return {
         success: false,
         message: 'Invalid username or password'
       };
     }
 
+    if (!user.is_active) {
+      return {
+        success: false,
+        message: 'This account has been disabled'
+      };
+    }
+
+    // Drop expired sessions so the table does not grow without bound
+    await db.delete(sessionsTable)
+      .where(lt(sessionsTable.expires_at, new Date()))
+      .execute();
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
     // Return success response with user data (excluding password_hash)
     return {
       success: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      }
+      user: toSessionUser(user),
+      token,
+      expires_at: expiresAt
     };
   } catch (error) {
     console.error('Login failed:', error);
     throw error;
   }
 };
+
+// Resolves a session token to its user, or null when unknown, expired or disabled
+export const getSessionUser = async (token: string): Promise<SessionUser | null> => {
+  try {
+    const results = await db.select({
+      session_id: sessionsTable.id,
+      expires_at: sessionsTable.expires_at,
+      user: usersTable
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const session = results[0];
+
+    if (session.expires_at <= new Date() || !session.user.is_active) {
+      await db.delete(sessionsTable)
+        .where(eq(sessionsTable.id, session.session_id))
+        .execute();
+      return null;
+    }
+
+    return toSessionUser(session.user);
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+};
+
+export const logout = async (input: { token: string }): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(input.token)))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    return { success: result.length > 0 };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
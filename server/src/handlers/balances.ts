@@ -0,0 +1,167 @@
+import { db, type DbTransaction } from '../db';
+import { transactionEntriesTable, transactionDetailsTable, ledgersTable, financialYearsTable, ledgerOpeningBalancesTable } from '../db/schema';
+import { type FinancialYear } from '../schema';
+import { eq, and, gte, lt, lte, desc, sum, SQL } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, absMoney } from '../money';
+
+type Executor = typeof db | DbTransaction;
+
+type BalanceType = 'debit' | 'credit';
+
+// Superseded vouchers and the reversals that cancel them net to zero, so
+// every report leaves both out and shows only the current version
+export const isCurrentEntry = eq(transactionEntriesTable.status, 'active');
+
+// Detail lines of current vouchers matching the given entry conditions, for
+// joining onto ledgers. Filtering here rather than in the ledger join keeps
+// lines of out-of-range vouchers out of the sums.
+export const postedDetails = (entryConditions: SQL<unknown>[]) => db.select({
+  ledger_id: transactionDetailsTable.ledger_id,
+  debit_amount: transactionDetailsTable.debit_amount,
+  credit_amount: transactionDetailsTable.credit_amount
+})
+  .from(transactionDetailsTable)
+  .innerJoin(transactionEntriesTable, and(
+    eq(transactionDetailsTable.entry_id, transactionEntriesTable.id),
+    isCurrentEntry,
+    ...entryConditions
+  ))
+  .as('posted_details');
+
+// Balances below are signed with debits positive and credits negative
+export const toNetBalance = (amount: Money, balanceType: BalanceType): Money => {
+  return balanceType === 'debit' ? amount : -amount;
+};
+
+// Splits a signed balance into an amount and its side. A zero balance keeps
+// the given side.
+export const fromNetBalance = (balance: Money, zeroBalanceType: BalanceType): { amount: Money; balance_type: BalanceType } => {
+  return {
+    amount: absMoney(balance),
+    balance_type: balance > 0n ? 'debit' : balance < 0n ? 'credit' : zeroBalanceType
+  };
+};
+
+// Debit and credit totals of current vouchers matching the entry conditions,
+// per ledger. Ledgers without postings are absent from the map.
+export const getPostingTotals = async (executor: Executor, entryConditions: SQL<unknown>[]): Promise<Map<number, { debit: Money; credit: Money }>> => {
+  const results = await executor.select({
+    ledger_id: transactionDetailsTable.ledger_id,
+    total_debit: sum(transactionDetailsTable.debit_amount),
+    total_credit: sum(transactionDetailsTable.credit_amount)
+  })
+    .from(transactionDetailsTable)
+    .innerJoin(transactionEntriesTable, and(
+      eq(transactionDetailsTable.entry_id, transactionEntriesTable.id),
+      isCurrentEntry,
+      ...entryConditions
+    ))
+    .groupBy(transactionDetailsTable.ledger_id)
+    .execute();
+
+  return new Map(results.map(result => [
+    result.ledger_id,
+    { debit: parseMoney(result.total_debit), credit: parseMoney(result.total_credit) }
+  ]));
+};
+
+// Debits minus credits of current vouchers matching the entry conditions,
+// per ledger. Ledgers without postings are absent from the map.
+export const getNetMovements = async (executor: Executor, entryConditions: SQL<unknown>[]): Promise<Map<number, Money>> => {
+  const totals = await getPostingTotals(executor, entryConditions);
+
+  return new Map([...totals].map(([ledgerId, total]) => [ledgerId, total.debit - total.credit]));
+};
+
+// The financial year containing the date. Should years overlap, the one that
+// starts last wins.
+export const findFinancialYear = async (executor: Executor, date: Date): Promise<FinancialYear | null> => {
+  const results = await executor.select()
+    .from(financialYearsTable)
+    .where(and(
+      lte(financialYearsTable.start_date, date),
+      gte(financialYearsTable.end_date, date)
+    ))
+    .orderBy(desc(financialYearsTable.start_date))
+    .limit(1)
+    .execute();
+
+  return results[0] ?? null;
+};
+
+// Signed opening balance of every ledger at the start of the year. Closing
+// the previous year stores the carried-forward balances; ledgers without a
+// stored balance start from their own opening balance plus everything posted
+// before the year. Without a year only the ledgers' own opening balances count.
+export const getYearOpeningBalances = async (executor: Executor, year: FinancialYear | null): Promise<Map<number, Money>> => {
+  const ledgers = await executor.select({
+    id: ledgersTable.id,
+    opening_balance: ledgersTable.opening_balance,
+    balance_type: ledgersTable.balance_type
+  })
+    .from(ledgersTable)
+    .execute();
+
+  const openings = new Map<number, Money>();
+  if (year === null) {
+    ledgers.forEach(ledger => {
+      openings.set(ledger.id, toNetBalance(parseMoney(ledger.opening_balance), ledger.balance_type));
+    });
+    return openings;
+  }
+
+  const [stored, priorMovements] = await Promise.all([
+    executor.select()
+      .from(ledgerOpeningBalancesTable)
+      .where(eq(ledgerOpeningBalancesTable.financial_year_id, year.id))
+      .execute(),
+    getNetMovements(executor, [lt(transactionEntriesTable.entry_date, year.start_date)])
+  ]);
+
+  const storedByLedger = new Map(stored.map(row => [row.ledger_id, row]));
+
+  ledgers.forEach(ledger => {
+    const row = storedByLedger.get(ledger.id);
+    openings.set(ledger.id, row
+      ? toNetBalance(parseMoney(row.opening_balance), row.balance_type)
+      : toNetBalance(parseMoney(ledger.opening_balance), ledger.balance_type) + (priorMovements.get(ledger.id) ?? ZERO_MONEY)
+    );
+  });
+
+  return openings;
+};
+
+// Signed balance of every ledger at the start of the given date: the opening
+// balance of the financial year containing it plus postings between the
+// start of that year and the date
+export const getOpeningBalancesAt = async (executor: Executor, date: Date): Promise<Map<number, Money>> => {
+  const year = await findFinancialYear(executor, date);
+  const openings = await getYearOpeningBalances(executor, year);
+
+  const conditions: SQL<unknown>[] = [lt(transactionEntriesTable.entry_date, date)];
+  if (year) {
+    conditions.push(gte(transactionEntriesTable.entry_date, year.start_date));
+  }
+
+  const movements = await getNetMovements(executor, conditions);
+  movements.forEach((movement, ledgerId) => {
+    openings.set(ledgerId, (openings.get(ledgerId) ?? ZERO_MONEY) + movement);
+  });
+
+  return openings;
+};
+
+// Opening balances of the financial year containing the date, and the entry
+// conditions selecting postings from the start of that year up to and
+// including the date. Without a year every posting up to the date counts.
+export const getYearToDate = async (executor: Executor, asOnDate: Date): Promise<{ openings: Map<number, Money>; entryConditions: SQL<unknown>[] }> => {
+  const year = await findFinancialYear(executor, asOnDate);
+  const openings = await getYearOpeningBalances(executor, year);
+
+  const entryConditions: SQL<unknown>[] = [lte(transactionEntriesTable.entry_date, asOnDate)];
+  if (year) {
+    entryConditions.push(gte(transactionEntriesTable.entry_date, year.start_date));
+  }
+
+  return { openings, entryConditions };
+};
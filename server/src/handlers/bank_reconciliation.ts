@@ -0,0 +1,695 @@
+import { db, type DbTransaction } from '../db';
+import {
+  bankStatementsTable,
+  bankStatementLinesTable,
+  bankMatchesTable,
+  ledgersTable,
+  transactionEntriesTable,
+  transactionDetailsTable
+} from '../db/schema';
+import {
+  type AutoMatchBankStatementInput,
+  type AutoMatchResult,
+  type BankBookLine,
+  type BankMatchType,
+  type BankOnlyItem,
+  type BankReconciliation,
+  type BankReconciliationInput,
+  type BankReconciliationStatement,
+  type BankReconciliationStatementInput,
+  type BankStatement,
+  type BankStatementLine,
+  type BankStatementsInput,
+  type CreateVoucherFromStatementLineInput,
+  type DeleteInput,
+  type ImportBankStatementInput,
+  type LockOverrideInput,
+  type MatchBankStatementLineInput,
+  type SetClearingDateInput,
+  type TransactionEntry
+} from '../schema';
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lte, or, type SQL } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, formatMoney, moneyToNumber, sumMoney, absMoney } from '../money';
+import { type ParsedStatement } from '../bank/statement';
+import { parseCsvStatement } from '../bank/csv';
+import { parseOfxStatement } from '../bank/ofx';
+import { parseMt940Statement } from '../bank/mt940';
+import { parseCamtStatement } from '../bank/camt';
+import { autoMatchLines } from '../bank/matching';
+import { isMoneyLedgerType } from '../vouchers';
+import { formatDay } from '../periods';
+import { isCurrentEntry, getYearToDate, getNetMovements } from './balances';
+import { postVoucher } from './transactions';
+
+type Executor = typeof db | DbTransaction;
+
+const parseStatementFile = (input: ImportBankStatementInput): ParsedStatement => {
+  switch (input.format) {
+    case 'csv':
+      if (!input.csv_mapping) {
+        throw new Error('CSV statements need a column mapping');
+      }
+      return parseCsvStatement(input.content, input.csv_mapping);
+    case 'ofx':
+      return parseOfxStatement(input.content);
+    case 'mt940':
+      return parseMt940Statement(input.content);
+    case 'camt053':
+      return parseCamtStatement(input.content);
+  }
+};
+
+const toNullableNumber = (amount: string | null): number | null => {
+  return amount === null ? null : moneyToNumber(parseMoney(amount));
+};
+
+const loadBankLedger = async (executor: Executor, ledgerId: number) => {
+  const ledgers = await executor.select({ id: ledgersTable.id, name: ledgersTable.name, ledger_type: ledgersTable.ledger_type })
+    .from(ledgersTable)
+    .where(eq(ledgersTable.id, ledgerId))
+    .execute();
+
+  if (ledgers.length === 0) {
+    throw new Error('Ledger not found');
+  }
+
+  if (ledgers[0].ledger_type !== 'bank') {
+    throw new Error(`${ledgers[0].name} is not a bank ledger`);
+  }
+
+  return ledgers[0];
+};
+
+// Book lines of current vouchers, oldest first
+const selectBookLines = (executor: Executor, conditions: SQL<unknown>[]) => executor.select({
+  detail_id: transactionDetailsTable.id,
+  ledger_id: transactionDetailsTable.ledger_id,
+  entry_id: transactionEntriesTable.id,
+  entry_number: transactionEntriesTable.entry_number,
+  voucher_type: transactionEntriesTable.voucher_type,
+  entry_date: transactionEntriesTable.entry_date,
+  entry_description: transactionEntriesTable.description,
+  detail_description: transactionDetailsTable.description,
+  debit_amount: transactionDetailsTable.debit_amount,
+  credit_amount: transactionDetailsTable.credit_amount,
+  cleared_date: transactionDetailsTable.cleared_date
+})
+  .from(transactionDetailsTable)
+  .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+  .where(and(isCurrentEntry, ...conditions))
+  .orderBy(asc(transactionEntriesTable.entry_date), asc(transactionEntriesTable.id), asc(transactionDetailsTable.id))
+  .execute();
+
+type BookLineRow = Awaited<ReturnType<typeof selectBookLines>>[number];
+
+const bookLineAmount = (row: BookLineRow): Money => parseMoney(row.debit_amount) - parseMoney(row.credit_amount);
+
+const toBookLine = (row: BookLineRow): BankBookLine => ({
+  detail_id: row.detail_id,
+  entry_id: row.entry_id,
+  entry_number: row.entry_number,
+  voucher_type: row.voucher_type,
+  entry_date: row.entry_date,
+  description: row.detail_description || row.entry_description,
+  amount: moneyToNumber(bookLineAmount(row)),
+  cleared_date: row.cleared_date
+});
+
+// Statement lines with the book lines of current vouchers they are matched to
+const loadStatementLines = async (executor: Executor, conditions: SQL<unknown>[]): Promise<BankStatementLine[]> => {
+  const lines = await executor.select()
+    .from(bankStatementLinesTable)
+    .where(and(...conditions))
+    .orderBy(asc(bankStatementLinesTable.line_date), asc(bankStatementLinesTable.id))
+    .execute();
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const matches = await executor.select({ statement_line_id: bankMatchesTable.statement_line_id, detail_id: bankMatchesTable.detail_id, match_type: bankMatchesTable.match_type })
+    .from(bankMatchesTable)
+    .where(inArray(bankMatchesTable.statement_line_id, lines.map(line => line.id)))
+    .execute();
+
+  const bookLines = matches.length === 0 ? [] : await selectBookLines(executor, [
+    inArray(transactionDetailsTable.id, matches.map(match => match.detail_id))
+  ]);
+  const bookLinesById = new Map(bookLines.map(row => [row.detail_id, row]));
+
+  return lines.map(line => {
+    const lineMatches = matches.filter(match => match.statement_line_id === line.id && bookLinesById.has(match.detail_id));
+    return {
+      ...line,
+      amount: moneyToNumber(parseMoney(line.amount)),
+      match_type: lineMatches[0]?.match_type ?? null,
+      matched_lines: lineMatches.map(match => toBookLine(bookLinesById.get(match.detail_id)!))
+    };
+  });
+};
+
+const loadStatementLine = async (executor: Executor, id: number): Promise<BankStatementLine> => {
+  const lines = await loadStatementLines(executor, [eq(bankStatementLinesTable.id, id)]);
+  if (lines.length === 0) {
+    throw new Error(`Bank statement line with id ${id} not found`);
+  }
+  return lines[0];
+};
+
+// Locks the statement line so two users cannot match it at the same time
+const lockUnmatchedLine = async (tx: DbTransaction, id: number): Promise<BankStatementLine> => {
+  await tx.select({ id: bankStatementLinesTable.id })
+    .from(bankStatementLinesTable)
+    .where(eq(bankStatementLinesTable.id, id))
+    .for('update')
+    .execute();
+
+  const line = await loadStatementLine(tx, id);
+  if (line.matched_lines.length > 0) {
+    throw new Error('The statement line is already matched; unmatch it first');
+  }
+  return line;
+};
+
+// Records the matches and clears the book lines on the statement line's date
+const clearBookLines = async (tx: DbTransaction, line: { id: number; line_date: Date }, detailIds: number[], matchType: BankMatchType) => {
+  await tx.insert(bankMatchesTable)
+    .values(detailIds.map(detailId => ({ statement_line_id: line.id, detail_id: detailId, match_type: matchType })))
+    .execute();
+
+  await tx.update(transactionDetailsTable)
+    .set({ cleared_date: line.line_date })
+    .where(inArray(transactionDetailsTable.id, detailIds))
+    .execute();
+};
+
+const toBankStatement = (row: typeof bankStatementsTable.$inferSelect, lineCount: number): BankStatement => ({
+  ...row,
+  opening_balance: toNullableNumber(row.opening_balance),
+  closing_balance: toNullableNumber(row.closing_balance),
+  line_count: lineCount
+});
+
+// Lines are told apart by date, amount, reference and description
+const lineKey = (date: Date, amount: Money, reference: string | null, description: string): string => {
+  return `${date.toISOString()}|${formatMoney(amount)}|${reference ?? ''}|${description}`;
+};
+
+// Imports a statement file into a bank ledger. Lines already imported are
+// skipped, so overlapping statements can be imported safely; a line repeated
+// in the file is only skipped as often as it was imported before.
+export const importBankStatement = async (input: ImportBankStatementInput): Promise<BankStatement> => {
+  try {
+    const parsed = parseStatementFile(input);
+    const lines = parsed.lines.filter(line => line.amount !== ZERO_MONEY);
+
+    if (lines.length === 0) {
+      throw new Error('The statement has no transactions');
+    }
+
+    const { statement, lineCount } = await db.transaction(async (tx) => {
+      await loadBankLedger(tx, input.ledger_id);
+
+      const existing = await tx.select({
+        line_date: bankStatementLinesTable.line_date,
+        amount: bankStatementLinesTable.amount,
+        reference: bankStatementLinesTable.reference,
+        description: bankStatementLinesTable.description
+      })
+        .from(bankStatementLinesTable)
+        .where(eq(bankStatementLinesTable.ledger_id, input.ledger_id))
+        .execute();
+
+      const existingCounts = new Map<string, number>();
+      for (const line of existing) {
+        const key = lineKey(line.line_date, parseMoney(line.amount), line.reference, line.description);
+        existingCounts.set(key, (existingCounts.get(key) ?? 0) + 1);
+      }
+
+      const newLines = lines.filter(line => {
+        const key = lineKey(line.date, line.amount, line.reference, line.description);
+        const remaining = existingCounts.get(key) ?? 0;
+        existingCounts.set(key, remaining - 1);
+        return remaining <= 0;
+      });
+
+      if (newLines.length === 0) {
+        throw new Error('Every line of this statement has already been imported');
+      }
+
+      const times = lines.map(line => line.date.getTime());
+      const closingBalance = input.closing_balance !== undefined ? parseMoney(input.closing_balance) : parsed.closing_balance;
+
+      const [statement] = await tx.insert(bankStatementsTable)
+        .values({
+          ledger_id: input.ledger_id,
+          format: input.format,
+          file_name: input.file_name,
+          account: parsed.account,
+          start_date: new Date(Math.min(...times)),
+          end_date: new Date(Math.max(...times)),
+          opening_balance: parsed.opening_balance === null ? null : formatMoney(parsed.opening_balance),
+          closing_balance: closingBalance === null ? null : formatMoney(closingBalance),
+          skipped_count: lines.length - newLines.length
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(bankStatementLinesTable)
+        .values(newLines.map(line => ({
+          statement_id: statement.id,
+          ledger_id: input.ledger_id,
+          line_date: line.date,
+          value_date: line.value_date,
+          description: line.description,
+          reference: line.reference,
+          amount: formatMoney(line.amount)
+        })))
+        .execute();
+
+      return { statement, lineCount: newLines.length };
+    });
+
+    return toBankStatement(statement, lineCount);
+  } catch (error) {
+    console.error('Bank statement import failed:', error);
+    throw error;
+  }
+};
+
+export const getBankStatements = async (input: BankStatementsInput): Promise<BankStatement[]> => {
+  try {
+    const statements = await db.select()
+      .from(bankStatementsTable)
+      .where(eq(bankStatementsTable.ledger_id, input.ledger_id))
+      .orderBy(desc(bankStatementsTable.end_date), desc(bankStatementsTable.id))
+      .execute();
+
+    const lineCounts = await db.select({ statement_id: bankStatementLinesTable.statement_id, line_count: count() })
+      .from(bankStatementLinesTable)
+      .where(eq(bankStatementLinesTable.ledger_id, input.ledger_id))
+      .groupBy(bankStatementLinesTable.statement_id)
+      .execute();
+    const countsById = new Map(lineCounts.map(row => [row.statement_id, row.line_count]));
+
+    return statements.map(statement => toBankStatement(statement, countsById.get(statement.id) ?? 0));
+  } catch (error) {
+    console.error('Failed to get bank statements:', error);
+    throw error;
+  }
+};
+
+// Deletes a statement and its lines. Book lines they cleared become
+// uncleared; vouchers created from the lines stay.
+export const deleteBankStatement = async (input: DeleteInput): Promise<{ success: boolean }> => {
+  try {
+    await db.transaction(async (tx) => {
+      const statements = await tx.select({ id: bankStatementsTable.id })
+        .from(bankStatementsTable)
+        .where(eq(bankStatementsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (statements.length === 0) {
+        throw new Error(`Bank statement with id ${input.id} not found`);
+      }
+
+      const lineIds = tx.select({ id: bankStatementLinesTable.id })
+        .from(bankStatementLinesTable)
+        .where(eq(bankStatementLinesTable.statement_id, input.id));
+
+      await tx.update(transactionDetailsTable)
+        .set({ cleared_date: null })
+        .where(inArray(transactionDetailsTable.id, tx.select({ id: bankMatchesTable.detail_id })
+          .from(bankMatchesTable)
+          .where(inArray(bankMatchesTable.statement_line_id, lineIds))))
+        .execute();
+
+      await tx.delete(bankMatchesTable)
+        .where(inArray(bankMatchesTable.statement_line_id, lineIds))
+        .execute();
+
+      await tx.delete(bankStatementLinesTable)
+        .where(eq(bankStatementLinesTable.statement_id, input.id))
+        .execute();
+
+      await tx.delete(bankStatementsTable)
+        .where(eq(bankStatementsTable.id, input.id))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Bank statement deletion failed:', error);
+    throw error;
+  }
+};
+
+export const getBankReconciliation = async (input: BankReconciliationInput): Promise<BankReconciliation> => {
+  try {
+    await loadBankLedger(db, input.ledger_id);
+
+    const [statementLines, unclearedRows] = await Promise.all([
+      loadStatementLines(db, [
+        eq(bankStatementLinesTable.ledger_id, input.ledger_id),
+        gte(bankStatementLinesTable.line_date, input.start_date),
+        lte(bankStatementLinesTable.line_date, input.end_date)
+      ]),
+      selectBookLines(db, [
+        eq(transactionDetailsTable.ledger_id, input.ledger_id),
+        isNull(transactionDetailsTable.cleared_date),
+        lte(transactionEntriesTable.entry_date, input.end_date)
+      ])
+    ]);
+
+    return {
+      ledger_id: input.ledger_id,
+      statement_lines: statementLines,
+      uncleared_lines: unclearedRows.map(toBookLine)
+    };
+  } catch (error) {
+    console.error('Failed to get bank reconciliation:', error);
+    throw error;
+  }
+};
+
+export const autoMatchBankStatement = async (input: AutoMatchBankStatementInput): Promise<AutoMatchResult> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const statements = await tx.select()
+        .from(bankStatementsTable)
+        .where(eq(bankStatementsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (statements.length === 0) {
+        throw new Error(`Bank statement with id ${input.id} not found`);
+      }
+
+      const statement = statements[0];
+      const unmatched = (await loadStatementLines(tx, [eq(bankStatementLinesTable.statement_id, statement.id)]))
+        .filter(line => line.matched_lines.length === 0);
+      const bookRows = await selectBookLines(tx, [
+        eq(transactionDetailsTable.ledger_id, statement.ledger_id),
+        isNull(transactionDetailsTable.cleared_date)
+      ]);
+
+      const pairs = autoMatchLines(
+        unmatched.map(line => ({
+          id: line.id,
+          date: line.line_date,
+          amount: parseMoney(line.amount),
+          description: line.description,
+          reference: line.reference
+        })),
+        bookRows.map(row => ({
+          detail_id: row.detail_id,
+          date: row.entry_date,
+          amount: bookLineAmount(row),
+          entry_number: row.entry_number,
+          description: `${row.entry_description} ${row.detail_description ?? ''}`
+        })),
+        { date_tolerance_days: input.date_tolerance_days, amount_tolerance: parseMoney(input.amount_tolerance) }
+      );
+
+      const linesById = new Map(unmatched.map(line => [line.id, line]));
+      for (const pair of pairs) {
+        await clearBookLines(tx, linesById.get(pair.line_id)!, [pair.detail_id], 'auto');
+      }
+
+      return {
+        statement_id: statement.id,
+        matched_count: pairs.length,
+        unmatched_count: unmatched.length - pairs.length
+      };
+    });
+  } catch (error) {
+    console.error('Bank statement auto-match failed:', error);
+    throw error;
+  }
+};
+
+// Matches a statement line to uncleared book lines of its ledger whose
+// amounts add up to the line's amount exactly
+export const matchBankStatementLine = async (input: MatchBankStatementLineInput): Promise<BankStatementLine> => {
+  try {
+    await db.transaction(async (tx) => {
+      const line = await lockUnmatchedLine(tx, input.id);
+      const detailIds = [...new Set(input.detail_ids)];
+      const bookRows = await selectBookLines(tx, [inArray(transactionDetailsTable.id, detailIds)]);
+
+      if (bookRows.length !== detailIds.length) {
+        throw new Error('Only lines of current vouchers can be matched');
+      }
+
+      for (const row of bookRows) {
+        if (row.ledger_id !== line.ledger_id) {
+          throw new Error(`Voucher ${row.entry_number} is not on the statement's bank ledger`);
+        }
+        if (row.cleared_date !== null) {
+          throw new Error(`Voucher ${row.entry_number} is already cleared`);
+        }
+      }
+
+      const bookTotal = sumMoney(bookRows.map(bookLineAmount));
+      if (bookTotal !== parseMoney(line.amount)) {
+        throw new Error(`The selected lines add up to ${formatMoney(bookTotal)}, not the statement amount ${formatMoney(parseMoney(line.amount))}`);
+      }
+
+      await clearBookLines(tx, line, detailIds, 'manual');
+    });
+
+    return await loadStatementLine(db, input.id);
+  } catch (error) {
+    console.error('Bank statement line match failed:', error);
+    throw error;
+  }
+};
+
+export const unmatchBankStatementLine = async (input: DeleteInput): Promise<BankStatementLine> => {
+  try {
+    await db.transaction(async (tx) => {
+      const matches = await tx.delete(bankMatchesTable)
+        .where(eq(bankMatchesTable.statement_line_id, input.id))
+        .returning()
+        .execute();
+
+      if (matches.length === 0) {
+        await loadStatementLine(tx, input.id);
+        throw new Error('The statement line is not matched');
+      }
+
+      await tx.update(transactionDetailsTable)
+        .set({ cleared_date: null })
+        .where(inArray(transactionDetailsTable.id, matches.map(match => match.detail_id)))
+        .execute();
+    });
+
+    return await loadStatementLine(db, input.id);
+  } catch (error) {
+    console.error('Bank statement line unmatch failed:', error);
+    throw error;
+  }
+};
+
+// Books an unmatched statement line, such as bank charges or interest, and
+// matches the new voucher to it. The voucher is dated on the line's date.
+export const createVoucherFromStatementLine = async (input: CreateVoucherFromStatementLineInput & LockOverrideInput): Promise<BankStatementLine> => {
+  try {
+    await db.transaction(async (tx) => {
+      const line = await lockUnmatchedLine(tx, input.id);
+
+      if (input.contra_ledger_id === line.ledger_id) {
+        throw new Error('The other ledger must differ from the bank ledger');
+      }
+
+      const contraLedgers = await tx.select({ ledger_type: ledgersTable.ledger_type })
+        .from(ledgersTable)
+        .where(eq(ledgersTable.id, input.contra_ledger_id))
+        .execute();
+
+      if (contraLedgers.length === 0) {
+        throw new Error(`Ledger with id ${input.contra_ledger_id} does not exist`);
+      }
+
+      const amount = parseMoney(line.amount);
+      const lineAmount = moneyToNumber(absMoney(amount));
+      const isDeposit = amount > ZERO_MONEY;
+
+      const entry = await postVoucher(tx, {
+        voucher_type: isMoneyLedgerType(contraLedgers[0].ledger_type) ? 'contra' : isDeposit ? 'receipt' : 'payment',
+        entry_date: line.line_date,
+        description: input.description ?? (line.description || `Bank statement line of ${formatDay(line.line_date)}`),
+        details: [
+          {
+            ledger_id: line.ledger_id,
+            debit_amount: isDeposit ? lineAmount : 0,
+            credit_amount: isDeposit ? 0 : lineAmount,
+            description: line.reference
+          },
+          {
+            ledger_id: input.contra_ledger_id,
+            debit_amount: isDeposit ? 0 : lineAmount,
+            credit_amount: isDeposit ? lineAmount : 0
+          }
+        ],
+        override_lock: input.override_lock
+      });
+
+      const [bankDetail] = await tx.select({ id: transactionDetailsTable.id })
+        .from(transactionDetailsTable)
+        .where(and(eq(transactionDetailsTable.entry_id, entry.id), eq(transactionDetailsTable.ledger_id, line.ledger_id)))
+        .execute();
+
+      await clearBookLines(tx, line, [bankDetail.id], 'voucher');
+    });
+
+    return await loadStatementLine(db, input.id);
+  } catch (error) {
+    console.error('Voucher creation from statement line failed:', error);
+    throw error;
+  }
+};
+
+// Returns the voucher of the cleared line
+export const setClearingDate = async (input: SetClearingDateInput): Promise<TransactionEntry> => {
+  try {
+    const rows = await db.select({
+      entry_id: transactionDetailsTable.entry_id,
+      entry_date: transactionEntriesTable.entry_date,
+      ledger_type: ledgersTable.ledger_type,
+      match_id: bankMatchesTable.id
+    })
+      .from(transactionDetailsTable)
+      .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+      .innerJoin(ledgersTable, eq(transactionDetailsTable.ledger_id, ledgersTable.id))
+      .leftJoin(bankMatchesTable, eq(bankMatchesTable.detail_id, transactionDetailsTable.id))
+      .where(and(eq(transactionDetailsTable.id, input.detail_id), isCurrentEntry))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error(`Book line with id ${input.detail_id} not found`);
+    }
+
+    const row = rows[0];
+    if (row.ledger_type !== 'bank') {
+      throw new Error('Only lines of bank ledgers can be cleared');
+    }
+    if (row.match_id !== null) {
+      throw new Error('The line is matched to a statement line; unmatch the statement line instead');
+    }
+    if (input.cleared_date !== null && input.cleared_date < row.entry_date) {
+      throw new Error('A line cannot be cleared before its voucher date');
+    }
+
+    await db.update(transactionDetailsTable)
+      .set({ cleared_date: input.cleared_date })
+      .where(eq(transactionDetailsTable.id, input.detail_id))
+      .execute();
+
+    const [entry] = await db.select()
+      .from(transactionEntriesTable)
+      .where(eq(transactionEntriesTable.id, row.entry_id))
+      .execute();
+
+    return {
+      ...entry,
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
+    };
+  } catch (error) {
+    console.error('Failed to set clearing date:', error);
+    throw error;
+  }
+};
+
+export const getBankReconciliationStatement = async (input: BankReconciliationStatementInput): Promise<BankReconciliationStatement> => {
+  try {
+    const ledger = await loadBankLedger(db, input.ledger_id);
+    const asOnDate = input.as_on_date;
+
+    const { openings, entryConditions } = await getYearToDate(db, asOnDate);
+    const movements = await getNetMovements(db, entryConditions);
+    const booksBalance = (openings.get(ledger.id) ?? ZERO_MONEY) + (movements.get(ledger.id) ?? ZERO_MONEY);
+
+    // Book lines up to the date that the bank had not cleared by then
+    const unclearedRows = await selectBookLines(db, [
+      eq(transactionDetailsTable.ledger_id, ledger.id),
+      lte(transactionEntriesTable.entry_date, asOnDate),
+      or(isNull(transactionDetailsTable.cleared_date), gt(transactionDetailsTable.cleared_date, asOnDate))!
+    ]);
+    const deposits = unclearedRows.filter(row => bookLineAmount(row) > ZERO_MONEY);
+    const payments = unclearedRows.filter(row => bookLineAmount(row) < ZERO_MONEY);
+    const depositsTotal = sumMoney(deposits.map(bookLineAmount));
+    const paymentsTotal = -sumMoney(payments.map(bookLineAmount));
+
+    // Statement lines up to the date not yet in the books by then: unmatched
+    // lines, lines matched to later vouchers, and the difference left by a
+    // match within the amount tolerance
+    const statementLines = await loadStatementLines(db, [
+      eq(bankStatementLinesTable.ledger_id, ledger.id),
+      lte(bankStatementLinesTable.line_date, asOnDate)
+    ]);
+    const bankItems = statementLines.flatMap(line => {
+      const recorded = sumMoney(line.matched_lines
+        .filter(bookLine => bookLine.entry_date <= asOnDate)
+        .map(bookLine => parseMoney(bookLine.amount)));
+      const signed = parseMoney(line.amount) - recorded;
+
+      return signed === ZERO_MONEY ? [] : [{ line, signed }];
+    });
+    const credits = bankItems.filter(item => item.signed > ZERO_MONEY);
+    const debits = bankItems.filter(item => item.signed < ZERO_MONEY);
+    const creditsTotal = sumMoney(credits.map(item => item.signed));
+    const debitsTotal = -sumMoney(debits.map(item => item.signed));
+
+    const bankBalance = booksBalance - depositsTotal + paymentsTotal + creditsTotal - debitsTotal;
+
+    // Closing balance of the last statement ending by the date, carried
+    // forward by the lines imported after it
+    const [lastStatement] = await db.select({ end_date: bankStatementsTable.end_date, closing_balance: bankStatementsTable.closing_balance })
+      .from(bankStatementsTable)
+      .where(and(
+        eq(bankStatementsTable.ledger_id, ledger.id),
+        isNotNull(bankStatementsTable.closing_balance),
+        lte(bankStatementsTable.end_date, asOnDate)
+      ))
+      .orderBy(desc(bankStatementsTable.end_date), desc(bankStatementsTable.id))
+      .limit(1)
+      .execute();
+
+    const statementBalance = lastStatement
+      ? parseMoney(lastStatement.closing_balance) + sumMoney(statementLines
+        .filter(line => line.line_date > lastStatement.end_date)
+        .map(line => parseMoney(line.amount)))
+      : null;
+
+    const toItem = ({ line, signed }: { line: BankStatementLine; signed: Money }): BankOnlyItem => ({
+      line_id: line.id,
+      line_date: line.line_date,
+      description: line.description,
+      reference: line.reference,
+      amount: moneyToNumber(absMoney(signed))
+    });
+
+    return {
+      ledger_id: ledger.id,
+      ledger_name: ledger.name,
+      as_on_date: asOnDate,
+      balance_as_per_books: moneyToNumber(booksBalance),
+      deposits_not_cleared: deposits.map(toBookLine),
+      deposits_not_cleared_total: moneyToNumber(depositsTotal),
+      payments_not_presented: payments.map(toBookLine),
+      payments_not_presented_total: moneyToNumber(paymentsTotal),
+      bank_credits_not_in_books: credits.map(toItem),
+      bank_credits_not_in_books_total: moneyToNumber(creditsTotal),
+      bank_debits_not_in_books: debits.map(toItem),
+      bank_debits_not_in_books_total: moneyToNumber(debitsTotal),
+      balance_as_per_bank: moneyToNumber(bankBalance),
+      statement_balance: statementBalance === null ? null : moneyToNumber(statementBalance),
+      difference: statementBalance === null ? null : moneyToNumber(statementBalance - bankBalance)
+    };
+  } catch (error) {
+    console.error('Failed to get bank reconciliation statement:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,488 @@
+import { db, type DbTransaction } from '../db';
+import { billAllocationsTable, contactsTable, ledgersTable, transactionEntriesTable, transactionDetailsTable } from '../db/schema';
+import {
+  type AgingBuckets,
+  type AgingItem,
+  type AgingReport,
+  type AgingReportInput,
+  type AgingRow,
+  type AllocateBillSettlementInput,
+  type BillwiseItem,
+  type BillwiseItemKind,
+  type BillwiseLedger,
+  type BillwiseLedgerInput,
+  type ContactOutstanding,
+  type TransactionEntry,
+  type VoucherType
+} from '../schema';
+import { and, asc, eq, inArray, isNotNull, lte, ne, type SQL } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, formatMoney, moneyToNumber, sumMoney, absMoney } from '../money';
+import { isCurrentEntry, toNetBalance } from './balances';
+
+type Executor = typeof db | DbTransaction;
+
+const DAY = 86400000;
+
+// Sales and purchase vouchers raise bills; every other voucher settles them
+const isBillVoucher = (voucherType: VoucherType): boolean => voucherType === 'sales' || voucherType === 'purchase';
+
+const minMoney = (...values: Money[]): Money => values.reduce((min, value) => value < min ? value : min);
+
+// Moves a signed amount towards zero by the given positive amount
+const reduceBy = (value: Money, amount: Money): Money => value > ZERO_MONEY ? value - amount : value + amount;
+
+interface LedgerItem {
+  kind: BillwiseItemKind;
+  detail_id: number | null;
+  entry_id: number | null;
+  entry_number: string | null;
+  voucher_type: VoucherType | null;
+  ledger_id: number;
+  date: Date | null;
+  description: string;
+  amount: Money;
+  outstanding: Money;
+  allocations: { bill_detail_id: number; amount: Money }[];
+}
+
+interface ContactLedger {
+  id: number;
+  name: string;
+  contact_id: number;
+  items: LedgerItem[];
+}
+
+// Voucher lines with their entry and ledger, oldest first
+const selectLedgerLines = (executor: Executor, conditions: SQL<unknown>[]) => executor.select({
+  detail_id: transactionDetailsTable.id,
+  ledger_id: transactionDetailsTable.ledger_id,
+  ledger_name: ledgersTable.name,
+  contact_id: ledgersTable.contact_id,
+  entry_id: transactionEntriesTable.id,
+  entry_number: transactionEntriesTable.entry_number,
+  voucher_type: transactionEntriesTable.voucher_type,
+  entry_date: transactionEntriesTable.entry_date,
+  status: transactionEntriesTable.status,
+  entry_description: transactionEntriesTable.description,
+  detail_description: transactionDetailsTable.description,
+  debit_amount: transactionDetailsTable.debit_amount,
+  credit_amount: transactionDetailsTable.credit_amount
+})
+  .from(transactionDetailsTable)
+  .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+  .innerJoin(ledgersTable, eq(transactionDetailsTable.ledger_id, ledgersTable.id))
+  .where(and(...conditions))
+  .orderBy(asc(transactionEntriesTable.entry_date), asc(transactionEntriesTable.id), asc(transactionDetailsTable.id))
+  .execute();
+
+type LedgerLineRow = Awaited<ReturnType<typeof selectLedgerLines>>[number];
+
+const lineAmount = (row: LedgerLineRow): Money => parseMoney(row.debit_amount) - parseMoney(row.credit_amount);
+
+// Sets each settlement against the bills it is allocated to, then nets what
+// is left of the debit items against the credit items, oldest first. Items
+// must be in date order with the opening balance first.
+const settleItems = (items: LedgerItem[]): void => {
+  const itemsByDetail = new Map(items.filter(item => item.detail_id !== null).map(item => [item.detail_id, item]));
+
+  for (const item of items) {
+    for (const allocation of item.allocations) {
+      const bill = itemsByDetail.get(allocation.bill_detail_id);
+      if (!bill || (bill.outstanding > ZERO_MONEY) === (item.outstanding > ZERO_MONEY)) {
+        continue;
+      }
+
+      const amount = minMoney(allocation.amount, absMoney(item.outstanding), absMoney(bill.outstanding));
+      item.outstanding = reduceBy(item.outstanding, amount);
+      bill.outstanding = reduceBy(bill.outstanding, amount);
+    }
+  }
+
+  const debits = items.filter(item => item.outstanding > ZERO_MONEY);
+  const credits = items.filter(item => item.outstanding < ZERO_MONEY);
+  let debit = 0;
+  let credit = 0;
+
+  while (debit < debits.length && credit < credits.length) {
+    const amount = minMoney(debits[debit].outstanding, -credits[credit].outstanding);
+    debits[debit].outstanding -= amount;
+    credits[credit].outstanding += amount;
+
+    if (debits[debit].outstanding === ZERO_MONEY) {
+      debit++;
+    }
+    if (credits[credit].outstanding === ZERO_MONEY) {
+      credit++;
+    }
+  }
+};
+
+// Bill-wise items of the ledgers linked to contacts that meet the ledger
+// conditions, from vouchers up to the date when one is given
+const loadContactLedgers = async (executor: Executor, ledgerConditions: SQL<unknown>[], asOnDate: Date | null): Promise<ContactLedger[]> => {
+  const ledgers = await executor.select({
+    id: ledgersTable.id,
+    name: ledgersTable.name,
+    contact_id: ledgersTable.contact_id,
+    opening_balance: ledgersTable.opening_balance,
+    balance_type: ledgersTable.balance_type
+  })
+    .from(ledgersTable)
+    .where(and(isNotNull(ledgersTable.contact_id), ...ledgerConditions))
+    .orderBy(asc(ledgersTable.name), asc(ledgersTable.id))
+    .execute();
+
+  if (ledgers.length === 0) {
+    return [];
+  }
+
+  const lineConditions: SQL<unknown>[] = [isCurrentEntry, inArray(transactionDetailsTable.ledger_id, ledgers.map(ledger => ledger.id))];
+  if (asOnDate) {
+    lineConditions.push(lte(transactionEntriesTable.entry_date, asOnDate));
+  }
+
+  const lines = await selectLedgerLines(executor, lineConditions);
+  const lineIds = new Set(lines.map(line => line.detail_id));
+
+  // Allocations count only while both of their lines are in view
+  const allocations = lines.length === 0 ? [] : await executor.select()
+    .from(billAllocationsTable)
+    .where(inArray(billAllocationsTable.detail_id, [...lineIds]))
+    .orderBy(asc(billAllocationsTable.id))
+    .execute();
+
+  return ledgers.map(ledger => {
+    const items: LedgerItem[] = [];
+    const opening = toNetBalance(parseMoney(ledger.opening_balance), ledger.balance_type);
+
+    if (opening !== ZERO_MONEY) {
+      items.push({
+        kind: 'opening',
+        detail_id: null,
+        entry_id: null,
+        entry_number: null,
+        voucher_type: null,
+        ledger_id: ledger.id,
+        date: null,
+        description: 'Opening balance',
+        amount: opening,
+        outstanding: opening,
+        allocations: []
+      });
+    }
+
+    lines.filter(line => line.ledger_id === ledger.id).forEach(line => {
+      const amount = lineAmount(line);
+      items.push({
+        kind: isBillVoucher(line.voucher_type) ? 'bill' : 'settlement',
+        detail_id: line.detail_id,
+        entry_id: line.entry_id,
+        entry_number: line.entry_number,
+        voucher_type: line.voucher_type,
+        ledger_id: ledger.id,
+        date: line.entry_date,
+        description: line.detail_description || line.entry_description,
+        amount,
+        outstanding: amount,
+        allocations: allocations
+          .filter(allocation => allocation.detail_id === line.detail_id && lineIds.has(allocation.bill_detail_id))
+          .map(allocation => ({ bill_detail_id: allocation.bill_detail_id, amount: parseMoney(allocation.amount) }))
+      });
+    });
+
+    settleItems(items);
+
+    return { id: ledger.id, name: ledger.name, contact_id: ledger.contact_id!, items };
+  });
+};
+
+const toBillwiseItem = (item: LedgerItem): BillwiseItem => ({
+  ...item,
+  amount: moneyToNumber(item.amount),
+  outstanding: moneyToNumber(item.outstanding),
+  allocations: item.allocations.map(allocation => ({ ...allocation, amount: moneyToNumber(allocation.amount) }))
+});
+
+interface BucketTotals {
+  days_0_30: Money;
+  days_31_60: Money;
+  days_61_90: Money;
+  days_over_90: Money;
+  total: Money;
+}
+
+const emptyBuckets = (): BucketTotals => ({
+  days_0_30: ZERO_MONEY,
+  days_31_60: ZERO_MONEY,
+  days_61_90: ZERO_MONEY,
+  days_over_90: ZERO_MONEY,
+  total: ZERO_MONEY
+});
+
+// The opening balance has no date and is taken to be the oldest
+const bucketOf = (ageDays: number | null): Exclude<keyof BucketTotals, 'total'> => {
+  if (ageDays === null || ageDays > 90) {
+    return 'days_over_90';
+  }
+  return ageDays > 60 ? 'days_61_90' : ageDays > 30 ? 'days_31_60' : 'days_0_30';
+};
+
+const addToBuckets = (buckets: BucketTotals, ageDays: number | null, amount: Money): void => {
+  buckets[bucketOf(ageDays)] += amount;
+  buckets.total += amount;
+};
+
+const toAgingBuckets = (buckets: BucketTotals): AgingBuckets => ({
+  days_0_30: moneyToNumber(buckets.days_0_30),
+  days_31_60: moneyToNumber(buckets.days_31_60),
+  days_61_90: moneyToNumber(buckets.days_61_90),
+  days_over_90: moneyToNumber(buckets.days_over_90),
+  total: moneyToNumber(buckets.total)
+});
+
+export const getBillwiseLedger = async (input: BillwiseLedgerInput): Promise<BillwiseLedger> => {
+  try {
+    const ledgers = await db.select({ name: ledgersTable.name, contact_id: ledgersTable.contact_id })
+      .from(ledgersTable)
+      .where(eq(ledgersTable.id, input.ledger_id))
+      .execute();
+
+    if (ledgers.length === 0) {
+      throw new Error('Ledger not found');
+    }
+
+    if (ledgers[0].contact_id === null) {
+      throw new Error(`${ledgers[0].name} is not linked to a contact`);
+    }
+
+    const [ledger] = await loadContactLedgers(db, [eq(ledgersTable.id, input.ledger_id)], input.as_on_date ?? null);
+
+    return {
+      ledger_id: ledger.id,
+      ledger_name: ledger.name,
+      contact_id: ledger.contact_id,
+      balance: moneyToNumber(sumMoney(ledger.items.map(item => item.amount))),
+      items: ledger.items.map(toBillwiseItem)
+    };
+  } catch (error) {
+    console.error('Failed to get bill-wise ledger:', error);
+    throw error;
+  }
+};
+
+// Replaces the allocations of a settling line with the given ones. Each bill
+// must be a current sales or purchase line on the same ledger and on the
+// other side, and neither the line nor any bill may be over-allocated.
+export const allocateBillSettlement = async (input: AllocateBillSettlementInput): Promise<TransactionEntry> => {
+  try {
+    const entry = await db.transaction(async (tx) => {
+      const settlements = await selectLedgerLines(tx, [eq(transactionDetailsTable.id, input.detail_id)]);
+
+      if (settlements.length === 0) {
+        throw new Error(`Voucher line with id ${input.detail_id} not found`);
+      }
+
+      const settlement = settlements[0];
+      if (settlement.status !== 'active') {
+        throw new Error('Only lines of current vouchers can settle bills');
+      }
+      if (settlement.contact_id === null) {
+        throw new Error(`${settlement.ledger_name} is not linked to a contact`);
+      }
+      if (isBillVoucher(settlement.voucher_type)) {
+        throw new Error(`${settlement.entry_number} is a bill; only other vouchers settle bills`);
+      }
+
+      // Allocations of one ledger are made one at a time
+      await tx.select({ id: ledgersTable.id })
+        .from(ledgersTable)
+        .where(eq(ledgersTable.id, settlement.ledger_id))
+        .for('update')
+        .execute();
+
+      const billIds = input.allocations.map(allocation => allocation.bill_detail_id);
+      if (new Set(billIds).size !== billIds.length) {
+        throw new Error('A bill can only be listed once');
+      }
+
+      const settlementAmount = lineAmount(settlement);
+      const bills = billIds.length === 0 ? [] : await selectLedgerLines(tx, [inArray(transactionDetailsTable.id, billIds)]);
+      const billsById = new Map(bills.map(bill => [bill.detail_id, bill]));
+
+      // What other current settlements have already allocated to each bill
+      const otherAllocations = billIds.length === 0 ? [] : await tx.select({
+        bill_detail_id: billAllocationsTable.bill_detail_id,
+        amount: billAllocationsTable.amount
+      })
+        .from(billAllocationsTable)
+        .innerJoin(transactionDetailsTable, eq(billAllocationsTable.detail_id, transactionDetailsTable.id))
+        .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+        .where(and(
+          inArray(billAllocationsTable.bill_detail_id, billIds),
+          ne(billAllocationsTable.detail_id, input.detail_id),
+          isCurrentEntry
+        ))
+        .execute();
+
+      for (const allocation of input.allocations) {
+        const bill = billsById.get(allocation.bill_detail_id);
+        if (!bill) {
+          throw new Error(`Bill line with id ${allocation.bill_detail_id} not found`);
+        }
+        if (bill.status !== 'active') {
+          throw new Error('Only bills of current vouchers can be settled');
+        }
+        if (bill.ledger_id !== settlement.ledger_id) {
+          throw new Error(`${bill.entry_number} is not on ${settlement.ledger_name}`);
+        }
+        if (!isBillVoucher(bill.voucher_type)) {
+          throw new Error(`${bill.entry_number} is not a bill`);
+        }
+
+        const billAmount = lineAmount(bill);
+        if ((billAmount > ZERO_MONEY) === (settlementAmount > ZERO_MONEY)) {
+          throw new Error(`${bill.entry_number} is on the same side as ${settlement.entry_number}`);
+        }
+
+        const allocated = sumMoney(otherAllocations
+          .filter(other => other.bill_detail_id === bill.detail_id)
+          .map(other => parseMoney(other.amount)));
+        const available = absMoney(billAmount) - allocated;
+        if (parseMoney(allocation.amount) > available) {
+          throw new Error(`Only ${formatMoney(available)} of ${bill.entry_number} is left to allocate`);
+        }
+      }
+
+      const total = sumMoney(input.allocations.map(allocation => parseMoney(allocation.amount)));
+      if (total > absMoney(settlementAmount)) {
+        throw new Error(`The allocations add up to ${formatMoney(total)}, more than the line amount ${formatMoney(absMoney(settlementAmount))}`);
+      }
+
+      await tx.delete(billAllocationsTable)
+        .where(eq(billAllocationsTable.detail_id, input.detail_id))
+        .execute();
+
+      if (input.allocations.length > 0) {
+        await tx.insert(billAllocationsTable)
+          .values(input.allocations.map(allocation => ({
+            detail_id: input.detail_id,
+            bill_detail_id: allocation.bill_detail_id,
+            amount: formatMoney(parseMoney(allocation.amount))
+          })))
+          .execute();
+      }
+
+      const [entry] = await tx.select()
+        .from(transactionEntriesTable)
+        .where(eq(transactionEntriesTable.id, settlement.entry_id))
+        .execute();
+
+      return entry;
+    });
+
+    return {
+      ...entry,
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
+    };
+  } catch (error) {
+    console.error('Bill allocation failed:', error);
+    throw error;
+  }
+};
+
+// Open items of every contact's ledgers as on the date, aged from their
+// voucher dates
+export const getAgingReport = async (input: AgingReportInput): Promise<AgingReport> => {
+  try {
+    const ledgerConditions: SQL<unknown>[] = input.contact_id === undefined ? [] : [eq(ledgersTable.contact_id, input.contact_id)];
+    const [ledgers, contacts] = await Promise.all([
+      loadContactLedgers(db, ledgerConditions, input.as_on_date),
+      db.select().from(contactsTable).execute()
+    ]);
+    const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+    const receivables = new Map<number, { buckets: BucketTotals; items: AgingItem[] }>();
+    const payables = new Map<number, { buckets: BucketTotals; items: AgingItem[] }>();
+
+    ledgers.forEach(ledger => {
+      ledger.items.filter(item => item.outstanding !== ZERO_MONEY).forEach(item => {
+        const side = item.outstanding > ZERO_MONEY ? receivables : payables;
+        const row = side.get(ledger.contact_id) ?? { buckets: emptyBuckets(), items: [] };
+        const ageDays = item.date === null ? null : Math.floor((input.as_on_date.getTime() - item.date.getTime()) / DAY);
+
+        addToBuckets(row.buckets, ageDays, absMoney(item.outstanding));
+        row.items.push({ ...toBillwiseItem(item), ledger_name: ledger.name, age_days: ageDays });
+        side.set(ledger.contact_id, row);
+      });
+    });
+
+    const toRows = (side: typeof receivables): { rows: AgingRow[]; total: AgingBuckets } => {
+      const total = emptyBuckets();
+      const rows = [...side].flatMap(([contactId, row]): AgingRow[] => {
+        const contact = contactsById.get(contactId);
+        if (!contact) {
+          return [];
+        }
+
+        (Object.keys(total) as (keyof BucketTotals)[]).forEach(key => {
+          total[key] += row.buckets[key];
+        });
+
+        return [{
+          contact_id: contact.id,
+          contact_name: contact.name,
+          contact_type: contact.contact_type,
+          ...toAgingBuckets(row.buckets),
+          items: row.items
+        }];
+      });
+
+      rows.sort((a, b) => a.contact_name.localeCompare(b.contact_name) || a.contact_id - b.contact_id);
+      return { rows, total: toAgingBuckets(total) };
+    };
+
+    const receivableRows = toRows(receivables);
+    const payableRows = toRows(payables);
+
+    return {
+      as_on_date: input.as_on_date,
+      receivables: receivableRows.rows,
+      receivables_total: receivableRows.total,
+      payables: payableRows.rows,
+      payables_total: payableRows.total
+    };
+  } catch (error) {
+    console.error('Aging report generation failed:', error);
+    throw error;
+  }
+};
+
+// What each contact with a linked ledger owes and is owed across all of its
+// ledgers
+export const getContactOutstanding = async (): Promise<ContactOutstanding[]> => {
+  try {
+    const ledgers = await loadContactLedgers(db, [], null);
+    const totals = new Map<number, { receivable: Money; payable: Money }>();
+
+    ledgers.forEach(ledger => {
+      const total = totals.get(ledger.contact_id) ?? { receivable: ZERO_MONEY, payable: ZERO_MONEY };
+      ledger.items.forEach(item => {
+        if (item.outstanding > ZERO_MONEY) {
+          total.receivable += item.outstanding;
+        } else {
+          total.payable -= item.outstanding;
+        }
+      });
+      totals.set(ledger.contact_id, total);
+    });
+
+    return [...totals].map(([contactId, total]) => ({
+      contact_id: contactId,
+      receivable: moneyToNumber(total.receivable),
+      payable: moneyToNumber(total.payable)
+    }));
+  } catch (error) {
+    console.error('Failed to get contact outstanding:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { groupsTable, ledgersTable } from '../db/schema';
+import { type ApplyChartTemplateInput } from '../schema';
+import { sql } from 'drizzle-orm';
+import { chartTemplates } from '../charts';
+
+// Creates the groups and reserved ledgers of a template on a database that has
+// no groups or ledgers yet. Everything created is marked as a system entry.
+export const applyChartTemplate = async (input: ApplyChartTemplateInput): Promise<{ groups_created: number; ledgers_created: number }> => {
+  try {
+    const template = chartTemplates[input.template];
+
+    return await db.transaction(async (tx) => {
+      // Blocks concurrent group and ledger inserts until the template is in
+      await tx.execute(sql`LOCK TABLE ${groupsTable}, ${ledgersTable} IN SHARE ROW EXCLUSIVE MODE`);
+
+      const [existingGroups, existingLedgers] = await Promise.all([
+        tx.select({ id: groupsTable.id }).from(groupsTable).limit(1).execute(),
+        tx.select({ id: ledgersTable.id }).from(ledgersTable).limit(1).execute()
+      ]);
+
+      if (existingGroups.length > 0 || existingLedgers.length > 0) {
+        throw new Error('A chart of accounts can only be applied before any groups or ledgers exist');
+      }
+
+      const groupIds = new Map<string, number>();
+
+      for (const primary of template.groups) {
+        const [group] = await tx.insert(groupsTable)
+          .values({ name: primary.name, nature: primary.nature, cash_flow_activity: primary.cash_flow_activity ?? null, is_system: true })
+          .returning()
+          .execute();
+        groupIds.set(group.name, group.id);
+
+        const children = primary.children ?? [];
+        if (children.length > 0) {
+          const subGroups = await tx.insert(groupsTable)
+            .values(children.map(child => ({ name: child.name, parent_group_id: group.id, is_system: true })))
+            .returning()
+            .execute();
+          subGroups.forEach(subGroup => groupIds.set(subGroup.name, subGroup.id));
+        }
+      }
+
+      const ledgers = await tx.insert(ledgersTable)
+        .values(template.ledgers.map(ledger => {
+          const groupId = groupIds.get(ledger.group);
+          if (groupId === undefined) {
+            throw new Error(`Template group ${ledger.group} not found`);
+          }
+
+          return {
+            name: ledger.name,
+            group_id: groupId,
+            ledger_type: ledger.ledger_type,
+            balance_type: ledger.balance_type,
+            is_system: true
+          };
+        }))
+        .returning()
+        .execute();
+
+      return { groups_created: groupIds.size, ledgers_created: ledgers.length };
+    });
+  } catch (error) {
+    console.error('Chart of accounts setup failed:', error);
+    throw error;
+  }
+};
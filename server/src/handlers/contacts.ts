@@ -3,6 +3,7 @@ import { db } from '../db';
 import { contactsTable } from '../db/schema';
 import { type CreateContactInput, type UpdateContactInput, type DeleteInput, type SearchInput, type Contact } from '../schema';
 import { eq, or, ilike } from 'drizzle-orm';
+import { resolveStateCode } from './taxes';
 
 export const createContact = async (input: CreateContactInput): Promise<Contact> => {
   try {
@@ -12,7 +13,9 @@ export const createContact = async (input: CreateContactInput): Promise<Contact>
         contact_type: input.contact_type,
         phone: input.phone || null,
         email: input.email || null,
-        address: input.address || null
+        address: input.address || null,
+        tax_id: input.tax_id || null,
+        state_code: resolveStateCode(input.tax_id || null, input.state_code || null)
       })
       .returning()
       .execute();
@@ -65,6 +68,12 @@ export const updateContact = async (input: UpdateContactInput): Promise<Contact>
     if (input.email !== undefined) updateData.email = input.email;
     if (input.address !== undefined) updateData.address = input.address;
 
+    if (input.tax_id !== undefined || input.state_code !== undefined) {
+      const existing = await getContact({ id: input.id });
+      updateData.tax_id = input.tax_id !== undefined ? input.tax_id : existing.tax_id;
+      updateData.state_code = resolveStateCode(updateData.tax_id, input.state_code !== undefined ? input.state_code : existing.state_code);
+    }
+
     const result = await db.update(contactsTable)
       .set(updateData)
       .where(eq(contactsTable.id, input.id))
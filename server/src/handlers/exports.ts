@@ -0,0 +1,491 @@
+import {
+  type ExportReportInput,
+  type ExportContactsInput,
+  type ExportContactStatementInput,
+  type ExportInvoiceInput,
+  type ExportFile,
+  type ExportFormat,
+  type DaybookReport,
+  type LedgerReport,
+  type GroupedTrialBalance,
+  type TrialBalanceAmounts,
+  type TrialBalanceGroupLine,
+  type ProfitAndLoss,
+  type BalanceSheet,
+  type StatementLine,
+  type Contact,
+  type ContactStatement,
+  type InvoiceWithLines,
+  type ReportPeriod
+} from '../schema';
+import { type ExportCell, type ExportColumn, type ExportDocument, type ExportRow, formatAmount, isoDate } from '../export/document';
+import { toCsv } from '../export/csv';
+import { toXlsx } from '../export/xlsx';
+import { toPdf } from '../export/pdf';
+import { toHtml } from '../export/html';
+import { formatDay, formatMonth } from '../periods';
+import { parseMoney, moneyToNumber } from '../money';
+import { voucherTypeLabels, invoiceTypeLabels } from '../vouchers';
+import { getDaybookReport, getLedgerReport, getContactStatement, getGroupedTrialBalance, getProfitAndLoss, getBalanceSheet } from './reports';
+import { getContacts, getContact } from './contacts';
+import { getInvoice } from './invoices';
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+  html: 'text/html'
+};
+
+// Printed at the top of every exported report
+const companyName = (): string => process.env['COMPANY_NAME'] || 'Accounts';
+
+const toExportFile = (document: ExportDocument, format: ExportFormat): ExportFile => {
+  const writers: Record<ExportFormat, (document: ExportDocument) => Buffer> = { csv: toCsv, xlsx: toXlsx, pdf: toPdf, html: toHtml };
+  const content = writers[format](document);
+  return {
+    filename: `${document.filename}.${format}`,
+    mime_type: mimeTypes[format],
+    content: content.toString('base64')
+  };
+};
+
+const slug = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const dateRange = (startDate: Date, endDate: Date): string => `${formatDay(startDate)} to ${formatDay(endDate)}`;
+
+const periodLabel = (periodStart: Date, period: ReportPeriod): string => {
+  if (period === 'monthly') {
+    return formatMonth(periodStart);
+  }
+  return period === 'weekly' ? `Week of ${formatDay(periodStart)}` : formatDay(periodStart);
+};
+
+// Zero amounts are left blank, as on the report screens
+const amountOrBlank = (amount: number): number | null => amount === 0 ? null : amount;
+
+const sideOf = (balanceType: 'debit' | 'credit'): string => balanceType === 'debit' ? 'Dr' : 'Cr';
+
+const amountColumn = (header: string, summed = true): ExportColumn => ({ header, type: 'amount', width: 14, summed });
+
+const daybookDocument = (report: DaybookReport): ExportDocument => {
+  const rows: ExportRow[] = [];
+  const blanks = [null, null, null];
+
+  report.periods.forEach(period => {
+    const label = periodLabel(period.period_start, report.period);
+    const vouchers = `${period.voucher_count} voucher${period.voucher_count === 1 ? '' : 's'}`;
+
+    if (report.day_summary) {
+      rows.push({ kind: 'subtotal', cells: [period.period_start, null, null, `${label} (${vouchers})`, period.total_debit, period.total_credit] });
+      return;
+    }
+
+    rows.push({ kind: 'period', cells: [label] });
+    period.vouchers.forEach(voucher => {
+      rows.push({
+        kind: 'group',
+        cells: [voucher.entry_date, voucher.entry_number, voucherTypeLabels[voucher.voucher_type], voucher.description],
+        indent: 1
+      });
+      voucher.lines.forEach(line => {
+        rows.push({
+          kind: 'line',
+          cells: [...blanks, line.description ? `${line.ledger_name} - ${line.description}` : line.ledger_name, amountOrBlank(line.debit_amount), amountOrBlank(line.credit_amount)],
+          indent: 2
+        });
+      });
+    });
+    rows.push({ kind: 'subtotal', cells: [...blanks, `Total for ${label} (${vouchers})`, period.total_debit, period.total_credit] });
+  });
+
+  rows.push({
+    kind: 'total',
+    cells: [...blanks, `Grand total (${report.totals.voucher_count} vouchers)`, report.totals.total_debit, report.totals.total_credit]
+  });
+
+  return {
+    company: companyName(),
+    title: 'Daybook',
+    period: dateRange(report.start_date, report.end_date),
+    filename: `daybook-${isoDate(report.start_date)}-${isoDate(report.end_date)}`,
+    columns: [
+      { header: 'Date', type: 'date', width: 11 },
+      { header: 'Voucher No.', type: 'text', width: 16 },
+      { header: 'Type', type: 'text', width: 11 },
+      { header: 'Particulars', type: 'text', width: 40 },
+      amountColumn('Debit'),
+      amountColumn('Credit')
+    ],
+    rows
+  };
+};
+
+const ledgerDocument = (report: LedgerReport): ExportDocument => {
+  const rows: ExportRow[] = [];
+  const blanks = [null, null, null];
+
+  report.ledgers.forEach(ledger => {
+    rows.push({ kind: 'heading', cells: [ledger.ledger_name] });
+    rows.push({
+      kind: 'note',
+      cells: [report.start_date, null, null, 'Opening balance', null, null, ledger.opening_balance, sideOf(ledger.opening_balance_type)]
+    });
+
+    ledger.periods.forEach(period => {
+      const label = periodLabel(period.period_start, report.period);
+      const closing = [period.closing_balance, sideOf(period.closing_balance_type)];
+
+      if (period.lines.length === 0) {
+        rows.push({ kind: 'subtotal', cells: [period.period_start, null, null, label, period.total_debit, period.total_credit, ...closing] });
+        return;
+      }
+
+      rows.push({ kind: 'period', cells: [label] });
+      period.lines.forEach(line => {
+        rows.push({
+          kind: 'line',
+          cells: [
+            line.entry_date,
+            line.entry_number,
+            voucherTypeLabels[line.voucher_type],
+            line.contra_ledgers.join(', ') || line.description,
+            amountOrBlank(line.debit_amount),
+            amountOrBlank(line.credit_amount),
+            line.balance,
+            sideOf(line.balance_type)
+          ]
+        });
+      });
+      rows.push({ kind: 'subtotal', cells: [...blanks, `Total for ${label}`, period.total_debit, period.total_credit, ...closing] });
+    });
+
+    rows.push({
+      kind: 'total',
+      cells: [...blanks, 'Closing balance', ledger.total_debit, ledger.total_credit, ledger.closing_balance, sideOf(ledger.closing_balance_type)]
+    });
+  });
+
+  const name = report.ledgers.length === 1 ? slug(report.ledgers[0].ledger_name) : 'statement';
+
+  return {
+    company: companyName(),
+    title: report.ledgers.length === 1 ? `Ledger Statement: ${report.ledgers[0].ledger_name}` : 'Ledger Statement',
+    period: dateRange(report.start_date, report.end_date),
+    filename: `ledger-${name}-${isoDate(report.start_date)}-${isoDate(report.end_date)}`,
+    columns: [
+      { header: 'Date', type: 'date', width: 11 },
+      { header: 'Voucher No.', type: 'text', width: 16 },
+      { header: 'Type', type: 'text', width: 11 },
+      { header: 'Particulars', type: 'text', width: 34 },
+      amountColumn('Debit'),
+      amountColumn('Credit'),
+      amountColumn('Balance', false),
+      { header: 'Dr/Cr', type: 'text', width: 5 }
+    ],
+    rows
+  };
+};
+
+// Opening and closing balances go in the column of their side
+const trialBalanceCells = (amounts: TrialBalanceAmounts): ExportCell[] => [
+  amounts.balance_type === 'debit' ? amountOrBlank(amounts.opening_balance) : null,
+  amounts.balance_type === 'credit' ? amountOrBlank(amounts.opening_balance) : null,
+  amountOrBlank(amounts.total_debit),
+  amountOrBlank(amounts.total_credit),
+  amounts.closing_balance_type === 'debit' ? amountOrBlank(amounts.closing_balance) : null,
+  amounts.closing_balance_type === 'credit' ? amountOrBlank(amounts.closing_balance) : null
+];
+
+const trialBalanceDocument = (report: GroupedTrialBalance): ExportDocument => {
+  const rows: ExportRow[] = [];
+
+  const addGroup = (group: TrialBalanceGroupLine, depth: number) => {
+    rows.push({ kind: 'group', cells: [group.group_name, ...trialBalanceCells(group)], indent: depth });
+    group.ledgers.forEach(ledger => {
+      rows.push({ kind: 'line', cells: [ledger.ledger_name, ...trialBalanceCells(ledger)], indent: depth + 1 });
+    });
+    group.children.forEach(child => addGroup(child, depth + 1));
+  };
+  report.groups.forEach(group => addGroup(group, 0));
+
+  const totals = report.totals;
+  rows.push({
+    kind: 'total',
+    cells: ['Grand total', totals.opening_debit, totals.opening_credit, totals.total_debit, totals.total_credit, totals.closing_debit, totals.closing_credit]
+  });
+
+  return {
+    company: companyName(),
+    title: 'Trial Balance',
+    period: report.start_date ? dateRange(report.start_date, report.end_date) : `Financial year to ${formatDay(report.end_date)}`,
+    filename: `trial-balance-${isoDate(report.end_date)}`,
+    columns: [
+      { header: 'Particulars', type: 'text', width: 36 },
+      amountColumn('Opening Dr'),
+      amountColumn('Opening Cr'),
+      amountColumn('Debit'),
+      amountColumn('Credit'),
+      amountColumn('Closing Dr'),
+      amountColumn('Closing Cr')
+    ],
+    rows
+  };
+};
+
+const statementColumns: ExportColumn[] = [
+  { header: 'Particulars', type: 'text', width: 36 },
+  { header: 'Group', type: 'text', width: 26 },
+  amountColumn('Amount')
+];
+
+const statementSection = (title: string, lines: StatementLine[], total: number, extraLines: ExportRow[] = []): ExportRow[] => [
+  { kind: 'heading', cells: [title] },
+  ...lines.map((line): ExportRow => ({ kind: 'line', cells: [line.ledger_name, line.group_name, line.amount], indent: 1 })),
+  ...extraLines,
+  { kind: 'total', cells: [`Total ${title.toLowerCase()}`, null, total] }
+];
+
+const profitAndLossDocument = (report: ProfitAndLoss): ExportDocument => ({
+  company: companyName(),
+  title: 'Profit & Loss',
+  period: dateRange(report.period.start_date, report.period.end_date),
+  filename: `profit-and-loss-${isoDate(report.period.start_date)}-${isoDate(report.period.end_date)}`,
+  columns: statementColumns,
+  rows: [
+    ...statementSection('Income', report.income, report.total_income),
+    ...statementSection('Expenses', report.expenses, report.total_expenses),
+    { kind: 'group', cells: [report.net_profit >= 0 ? 'Net profit' : 'Net loss', null, report.net_profit >= 0 ? report.net_profit : report.net_loss] }
+  ]
+});
+
+const balanceSheetDocument = (report: BalanceSheet): ExportDocument => {
+  // Profit for the year and opening differences are part of equity, so they
+  // are lines that the equity total adds up
+  const equityExtras: ExportRow[] = [
+    { kind: 'line', cells: ['Profit & Loss for the year', null, report.retained_profit], indent: 1 },
+    { kind: 'line', cells: ['Difference in opening balances', null, report.opening_balance_difference], indent: 1 }
+  ];
+
+  const rows: ExportRow[] = [
+    ...statementSection('Assets', report.assets, report.total_assets),
+    ...statementSection('Liabilities', report.liabilities, report.total_liabilities),
+    ...statementSection('Equity', report.equity, report.total_equity, equityExtras.filter(row => row.cells[2] !== 0))
+  ];
+
+  if (report.difference !== 0) {
+    rows.push({ kind: 'group', cells: ['Difference (assets less liabilities and equity)', null, report.difference] });
+  }
+
+  if (report.unclassified.length > 0) {
+    rows.push({ kind: 'heading', cells: ['Left out: groups without a nature'] });
+    report.unclassified.forEach(line => {
+      rows.push({ kind: 'note', cells: [`${line.ledger_name} (${sideOf(line.balance_type)})`, line.group_name, line.amount], indent: 1 });
+    });
+  }
+
+  return {
+    company: companyName(),
+    title: 'Balance Sheet',
+    period: `As on ${formatDay(report.as_on_date)}`,
+    filename: `balance-sheet-${isoDate(report.as_on_date)}`,
+    columns: statementColumns,
+    rows
+  };
+};
+
+const contactsDocument = (contacts: Contact[]): ExportDocument => {
+  const today = new Date();
+  return {
+    company: companyName(),
+    title: 'Contacts',
+    period: `As on ${formatDay(today)}`,
+    filename: `contacts-${isoDate(today)}`,
+    columns: [
+      { header: 'Name', type: 'text', width: 28 },
+      { header: 'Type', type: 'text', width: 10 },
+      { header: 'Phone', type: 'text', width: 16 },
+      { header: 'Email', type: 'text', width: 28 },
+      { header: 'Address', type: 'text', width: 40 }
+    ],
+    rows: [...contacts]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((contact): ExportRow => ({
+        kind: 'line',
+        cells: [contact.name, contact.contact_type, contact.phone, contact.email, contact.address]
+      }))
+  };
+};
+
+// Name, address and contact details of whom a document is sent to
+const addressLines = (contact: Contact): string[] => {
+  return [contact.name, ...(contact.address?.split(/\r?\n/) ?? []), contact.phone, contact.email]
+    .filter((line): line is string => Boolean(line?.trim()));
+};
+
+// Statement of account sent to a contact: their name and address, the balance
+// brought forward, every voucher and the balance due at the end
+const contactStatementDocument = (statement: ContactStatement): ExportDocument => {
+  const { contact } = statement;
+  const blanks = [null, null, null];
+  const rows: ExportRow[] = [
+    {
+      kind: 'note',
+      cells: [statement.start_date, null, null, 'Opening balance', null, null, statement.opening_balance, sideOf(statement.opening_balance_type)]
+    },
+    ...statement.lines.map((line): ExportRow => ({
+      kind: 'line',
+      cells: [
+        line.entry_date,
+        line.entry_number,
+        voucherTypeLabels[line.voucher_type],
+        line.contra_ledgers.join(', ') || line.description,
+        amountOrBlank(line.debit_amount),
+        amountOrBlank(line.credit_amount),
+        line.balance,
+        sideOf(line.balance_type)
+      ]
+    })),
+    {
+      kind: 'total',
+      cells: [
+        ...blanks,
+        `Closing balance due on ${formatDay(statement.end_date)}`,
+        statement.total_debit,
+        statement.total_credit,
+        statement.closing_balance,
+        sideOf(statement.closing_balance_type)
+      ]
+    }
+  ];
+
+  return {
+    company: companyName(),
+    title: `Statement of Account: ${contact.name}`,
+    period: dateRange(statement.start_date, statement.end_date),
+    filename: `statement-${slug(contact.name)}-${isoDate(statement.start_date)}-${isoDate(statement.end_date)}`,
+    recipient: addressLines(contact),
+    columns: [
+      { header: 'Date', type: 'date', width: 11 },
+      { header: 'Voucher No.', type: 'text', width: 16 },
+      { header: 'Type', type: 'text', width: 11 },
+      { header: 'Particulars', type: 'text', width: 34 },
+      amountColumn('Debit'),
+      amountColumn('Credit'),
+      amountColumn('Balance', false),
+      { header: 'Dr/Cr', type: 'text', width: 5 }
+    ],
+    rows
+  };
+};
+
+// Printable invoice: the line items, then the taxable amount, tax and total
+const invoiceDocument = (invoice: InvoiceWithLines, contact: Contact): ExportDocument => {
+  const blanks = [null, null, null, null];
+  const rows: ExportRow[] = invoice.lines.map((line, index): ExportRow => ({
+    kind: 'line',
+    cells: [
+      index + 1,
+      line.description,
+      line.quantity,
+      line.rate,
+      line.discount_percent || null,
+      line.amount,
+      line.tax_rate || null,
+      amountOrBlank(line.tax_amount),
+      moneyToNumber(parseMoney(line.amount) + parseMoney(line.tax_amount))
+    ]
+  }));
+
+  rows.push({
+    kind: 'total',
+    cells: [null, 'Total', ...blanks, invoice.taxable_amount, null, invoice.tax_amount, invoice.total_amount]
+  });
+  if (invoice.discount_amount > 0) {
+    rows.push({ kind: 'note', cells: [null, `Includes discounts of ${formatAmount(invoice.discount_amount)}`] });
+  }
+  if (invoice.notes) {
+    rows.push({ kind: 'note', cells: [null, invoice.notes] });
+  }
+
+  const reference = invoice.reference ? `, reference ${invoice.reference}` : '';
+
+  return {
+    company: companyName(),
+    title: `${invoiceTypeLabels[invoice.invoice_type]} ${invoice.invoice_number}`,
+    period: `Dated ${formatDay(invoice.invoice_date)}, due ${formatDay(invoice.due_date)}${reference}`,
+    filename: `${invoice.invoice_type === 'sales' ? 'invoice' : 'bill'}-${slug(invoice.invoice_number)}`,
+    recipient: addressLines(contact),
+    columns: [
+      { header: '#', type: 'count', width: 4 },
+      { header: 'Description', type: 'text', width: 30 },
+      { header: 'Qty', type: 'count', width: 8 },
+      amountColumn('Rate', false),
+      { header: 'Disc %', type: 'count', width: 7 },
+      amountColumn('Taxable'),
+      { header: 'Tax %', type: 'count', width: 6 },
+      amountColumn('Tax'),
+      amountColumn('Amount')
+    ],
+    rows
+  };
+};
+
+export const exportReport = async (input: ExportReportInput): Promise<ExportFile> => {
+  try {
+    const report = input.report;
+    let document: ExportDocument;
+
+    switch (report.type) {
+      case 'daybook':
+        document = daybookDocument(await getDaybookReport(report.filter));
+        break;
+      case 'ledger':
+        document = ledgerDocument(await getLedgerReport(report.filter));
+        break;
+      case 'trial_balance':
+        document = trialBalanceDocument(await getGroupedTrialBalance(report.filter));
+        break;
+      case 'profit_and_loss':
+        document = profitAndLossDocument(await getProfitAndLoss(report.filter));
+        break;
+      case 'balance_sheet':
+        document = balanceSheetDocument(await getBalanceSheet(report.filter));
+        break;
+    }
+
+    return toExportFile(document, input.format);
+  } catch (error) {
+    console.error('Report export failed:', error);
+    throw error;
+  }
+};
+
+export const exportContacts = async (input: ExportContactsInput): Promise<ExportFile> => {
+  try {
+    return toExportFile(contactsDocument(await getContacts()), input.format);
+  } catch (error) {
+    console.error('Contact export failed:', error);
+    throw error;
+  }
+};
+
+export const exportContactStatement = async (input: ExportContactStatementInput): Promise<ExportFile> => {
+  try {
+    const { format, ...filter } = input;
+    return toExportFile(contactStatementDocument(await getContactStatement(filter)), format);
+  } catch (error) {
+    console.error('Contact statement export failed:', error);
+    throw error;
+  }
+};
+
+export const exportInvoice = async (input: ExportInvoiceInput): Promise<ExportFile> => {
+  try {
+    const invoice = await getInvoice({ id: input.id });
+    return toExportFile(invoiceDocument(invoice, await getContact({ id: invoice.contact_id })), input.format);
+  } catch (error) {
+    console.error('Invoice export failed:', error);
+    throw error;
+  }
+};
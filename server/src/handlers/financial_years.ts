@@ -1,11 +1,64 @@
 
-import { db } from '../db';
-import { financialYearsTable } from '../db/schema';
-import { type FinancialYear, type CreateFinancialYearInput, type DeleteInput } from '../schema';
-import { eq } from 'drizzle-orm';
+import { db, type DbTransaction } from '../db';
+import {
+  financialYearsTable,
+  groupsTable,
+  invoiceSequencesTable,
+  ledgersTable,
+  ledgerOpeningBalancesTable,
+  lockedPeriodsTable,
+  transactionEntriesTable,
+  voucherSequencesTable
+} from '../db/schema';
+import {
+  type FinancialYear,
+  type CreateFinancialYearInput,
+  type CloseFinancialYearInput,
+  type LedgerOpeningBalance,
+  type LockedPeriod,
+  type SetLockDateInput,
+  type SetPeriodLockInput,
+  type DeleteInput
+} from '../schema';
+import { and, asc, desc, eq, gt, gte, lt, lte } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, formatMoney, moneyToNumber } from '../money';
+import { fromNetBalance, getNetMovements, getYearOpeningBalances } from './balances';
+import { resolveGroupNatures } from './groups';
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
 
 export const createFinancialYear = async (input: CreateFinancialYearInput): Promise<FinancialYear> => {
   try {
+    if (input.end_date <= input.start_date) {
+      throw new Error('End date must be after start date');
+    }
+
+    // Every date belongs to at most one year, so vouchers, numbering and
+    // opening balances are never ambiguous
+    const overlapping = await db.select()
+      .from(financialYearsTable)
+      .where(and(
+        lte(financialYearsTable.start_date, input.end_date),
+        gte(financialYearsTable.end_date, input.start_date)
+      ))
+      .limit(1)
+      .execute();
+
+    if (overlapping.length > 0) {
+      throw new Error(`Financial year overlaps ${overlapping[0].name}`);
+    }
+
+    // Voucher and invoice numbers carry the year name, so it must be unique
+    const sameName = await db.select({ id: financialYearsTable.id })
+      .from(financialYearsTable)
+      .where(eq(financialYearsTable.name, input.name))
+      .limit(1)
+      .execute();
+
+    if (sameName.length > 0) {
+      throw new Error(`A financial year named ${input.name} already exists`);
+    }
+
     const result = await db.insert(financialYearsTable)
       .values({
         name: input.name,
@@ -77,6 +130,57 @@ export const setActiveFinancialYear = async (input: { id: number }): Promise<Fin
 
 export const deleteFinancialYear = async (input: DeleteInput): Promise<{ success: boolean }> => {
   try {
+    const existing = await db.select()
+      .from(financialYearsTable)
+      .where(eq(financialYearsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      return { success: false };
+    }
+
+    // Carried-forward balances tie a closed year to the year after it
+    const carried = await db.select({ id: ledgerOpeningBalancesTable.id })
+      .from(ledgerOpeningBalancesTable)
+      .where(eq(ledgerOpeningBalancesTable.financial_year_id, input.id))
+      .limit(1)
+      .execute();
+
+    if (existing[0].is_closed || carried.length > 0) {
+      throw new Error('Closed financial years and years with carried-forward balances cannot be deleted');
+    }
+
+    // Numbers issued in the year are labelled with its name. A year recreated
+    // under that name would restart its sequences and issue them again.
+    const vouchers = await db.select({ id: transactionEntriesTable.id })
+      .from(transactionEntriesTable)
+      .where(and(
+        gte(transactionEntriesTable.entry_date, existing[0].start_date),
+        lte(transactionEntriesTable.entry_date, existing[0].end_date)
+      ))
+      .limit(1)
+      .execute();
+
+    const voucherSequences = await db.select({ id: voucherSequencesTable.id })
+      .from(voucherSequencesTable)
+      .where(eq(voucherSequencesTable.financial_year_id, input.id))
+      .limit(1)
+      .execute();
+
+    const invoiceSequences = await db.select({ id: invoiceSequencesTable.id })
+      .from(invoiceSequencesTable)
+      .where(eq(invoiceSequencesTable.financial_year_id, input.id))
+      .limit(1)
+      .execute();
+
+    if (vouchers.length > 0 || voucherSequences.length > 0 || invoiceSequences.length > 0) {
+      throw new Error(`Financial year ${existing[0].name} has issued voucher or invoice numbers and cannot be deleted`);
+    }
+
+    await db.delete(lockedPeriodsTable)
+      .where(eq(lockedPeriodsTable.financial_year_id, input.id))
+      .execute();
+
     const result = await db.delete(financialYearsTable)
       .where(eq(financialYearsTable.id, input.id))
       .returning()
@@ -88,3 +192,292 @@ export const deleteFinancialYear = async (input: DeleteInput): Promise<{ success
     throw error;
   }
 };
+
+// Closes the year and carries its closing balances into the next year.
+// Asset and liability ledgers keep their closing balance; income and expense
+// ledgers start the next year at zero and their net result, the year's profit
+// or loss, is added to the retained earnings ledger. No voucher is posted, so
+// the closed year's own reports are unchanged.
+export const closeFinancialYear = async (input: CloseFinancialYearInput): Promise<FinancialYear> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const [year] = await tx.select()
+        .from(financialYearsTable)
+        .where(eq(financialYearsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (!year) {
+        throw new Error('Financial year not found');
+      }
+
+      if (year.is_closed) {
+        throw new Error(`Financial year ${year.name} is already closed`);
+      }
+
+      // Years are closed in order so each opening builds on a final closing
+      const [openEarlierYear] = await tx.select()
+        .from(financialYearsTable)
+        .where(and(
+          lt(financialYearsTable.end_date, year.start_date),
+          eq(financialYearsTable.is_closed, false)
+        ))
+        .orderBy(asc(financialYearsTable.start_date))
+        .limit(1)
+        .execute();
+
+      if (openEarlierYear) {
+        throw new Error(`Close financial year ${openEarlierYear.name} first`);
+      }
+
+      const [nextYear] = await tx.select()
+        .from(financialYearsTable)
+        .where(gt(financialYearsTable.start_date, year.end_date))
+        .orderBy(asc(financialYearsTable.start_date))
+        .limit(1)
+        .execute();
+
+      if (!nextYear) {
+        throw new Error(`Create the financial year after ${year.name} before closing it`);
+      }
+
+      const [groups, ledgers] = await Promise.all([
+        tx.select().from(groupsTable).execute(),
+        tx.select().from(ledgersTable).execute()
+      ]);
+      const natures = resolveGroupNatures(groups);
+
+      const retainedEarnings = ledgers.find(ledger => ledger.id === input.retained_earnings_ledger_id);
+      if (!retainedEarnings) {
+        throw new Error('Retained earnings ledger not found');
+      }
+
+      const retainedEarningsNature = natures.get(retainedEarnings.group_id);
+      if (retainedEarningsNature !== 'equity' && retainedEarningsNature !== 'liability') {
+        throw new Error('Retained earnings ledger must belong to an equity or liability group');
+      }
+
+      const openings = await getYearOpeningBalances(tx, year);
+      const movements = await getNetMovements(tx, [
+        gte(transactionEntriesTable.entry_date, year.start_date),
+        lte(transactionEntriesTable.entry_date, year.end_date)
+      ]);
+
+      // Signed closing balances, debits positive. A positive result is a loss.
+      const carriedForward = new Map<number, Money>();
+      let result: Money = ZERO_MONEY;
+
+      ledgers.forEach(ledger => {
+        const closing = (openings.get(ledger.id) ?? ZERO_MONEY) + (movements.get(ledger.id) ?? ZERO_MONEY);
+        const nature = natures.get(ledger.group_id) ?? null;
+
+        if (nature === null && closing !== ZERO_MONEY) {
+          throw new Error(`Set the nature of the group of ledger ${ledger.name} before closing the year`);
+        }
+
+        if (nature === 'income' || nature === 'expense') {
+          result += closing;
+          carriedForward.set(ledger.id, ZERO_MONEY);
+        } else {
+          carriedForward.set(ledger.id, closing);
+        }
+      });
+
+      carriedForward.set(retainedEarnings.id, carriedForward.get(retainedEarnings.id)! + result);
+
+      await tx.delete(ledgerOpeningBalancesTable)
+        .where(eq(ledgerOpeningBalancesTable.financial_year_id, nextYear.id))
+        .execute();
+
+      await tx.insert(ledgerOpeningBalancesTable)
+        .values(ledgers.map(ledger => {
+          const opening = fromNetBalance(carriedForward.get(ledger.id)!, ledger.balance_type);
+          return {
+            financial_year_id: nextYear.id,
+            ledger_id: ledger.id,
+            opening_balance: formatMoney(opening.amount),
+            balance_type: opening.balance_type
+          };
+        }))
+        .execute();
+
+      const [closedYear] = await tx.update(financialYearsTable)
+        .set({ is_closed: true, closed_at: new Date(), updated_at: new Date() })
+        .where(eq(financialYearsTable.id, year.id))
+        .returning()
+        .execute();
+
+      return closedYear;
+    });
+  } catch (error) {
+    console.error('Financial year closing failed:', error);
+    throw error;
+  }
+};
+
+export const setLockDate = async (input: SetLockDateInput): Promise<FinancialYear> => {
+  try {
+    const existing = await db.select()
+      .from(financialYearsTable)
+      .where(eq(financialYearsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Financial year not found');
+    }
+
+    const year = existing[0];
+    if (input.lock_date && (input.lock_date < year.start_date || input.lock_date > year.end_date)) {
+      throw new Error(`Lock date must fall within ${year.name}`);
+    }
+
+    const result = await db.update(financialYearsTable)
+      .set({ lock_date: input.lock_date, updated_at: new Date() })
+      .where(eq(financialYearsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to set lock date:', error);
+    throw error;
+  }
+};
+
+export const setPeriodLock = async (input: SetPeriodLockInput): Promise<FinancialYear> => {
+  try {
+    const existing = await db.select()
+      .from(financialYearsTable)
+      .where(eq(financialYearsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Financial year not found');
+    }
+
+    const year = existing[0];
+    const monthStart = new Date(Date.UTC(input.year, input.month - 1, 1));
+    const monthEnd = new Date(Date.UTC(input.year, input.month, 0));
+    if (monthEnd < year.start_date || monthStart > year.end_date) {
+      throw new Error(`Month is outside ${year.name}`);
+    }
+
+    if (input.locked) {
+      await db.insert(lockedPeriodsTable)
+        .values({ financial_year_id: year.id, year: input.year, month: input.month })
+        .onConflictDoNothing()
+        .execute();
+    } else {
+      await db.delete(lockedPeriodsTable)
+        .where(and(
+          eq(lockedPeriodsTable.financial_year_id, year.id),
+          eq(lockedPeriodsTable.year, input.year),
+          eq(lockedPeriodsTable.month, input.month)
+        ))
+        .execute();
+    }
+
+    return year;
+  } catch (error) {
+    console.error('Failed to set period lock:', error);
+    throw error;
+  }
+};
+
+export const getLockedPeriods = async (): Promise<LockedPeriod[]> => {
+  try {
+    return await db.select()
+      .from(lockedPeriodsTable)
+      .orderBy(asc(lockedPeriodsTable.year), asc(lockedPeriodsTable.month))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch locked periods:', error);
+    throw error;
+  }
+};
+
+// Refuses vouchers dated outside every financial year, in a closed year,
+// outside the active year, on or before the year's lock date, or in a locked
+// month. An override lifts only the lock date and the locked months: the
+// next year's openings are carried forward from a closed year, so its books
+// stay shut. The year row is share-locked so closing or re-locking the year
+// waits for the posting to commit.
+export const assertPeriodOpen = async (tx: DbTransaction, date: Date, overrideLock: boolean): Promise<void> => {
+  const years = await tx.select()
+    .from(financialYearsTable)
+    .where(and(
+      lte(financialYearsTable.start_date, date),
+      gte(financialYearsTable.end_date, date)
+    ))
+    .orderBy(desc(financialYearsTable.start_date))
+    .limit(1)
+    .for('share')
+    .execute();
+
+  if (years.length === 0) {
+    throw new Error(`No financial year covers ${formatDate(date)}`);
+  }
+
+  const year = years[0];
+
+  if (year.is_closed) {
+    throw new Error(`Financial year ${year.name} is closed`);
+  }
+
+  if (!year.is_active) {
+    throw new Error(`${formatDate(date)} is outside the active financial year`);
+  }
+
+  if (overrideLock) {
+    return;
+  }
+
+  if (year.lock_date && date <= year.lock_date) {
+    throw new Error(`Entries up to ${formatDate(year.lock_date)} are locked in ${year.name}`);
+  }
+
+  const locked = await tx.select({ id: lockedPeriodsTable.id })
+    .from(lockedPeriodsTable)
+    .where(and(
+      eq(lockedPeriodsTable.financial_year_id, year.id),
+      eq(lockedPeriodsTable.year, date.getUTCFullYear()),
+      eq(lockedPeriodsTable.month, date.getUTCMonth() + 1)
+    ))
+    .limit(1)
+    .execute();
+
+  if (locked.length > 0) {
+    throw new Error(`${formatDate(date).slice(0, 7)} is locked in ${year.name}`);
+  }
+};
+
+export const getFinancialYearOpeningBalances = async (input: { id: number }): Promise<LedgerOpeningBalance[]> => {
+  try {
+    const years = await db.select()
+      .from(financialYearsTable)
+      .where(eq(financialYearsTable.id, input.id))
+      .execute();
+
+    if (years.length === 0) {
+      throw new Error('Financial year not found');
+    }
+
+    const [openings, ledgers] = await Promise.all([
+      getYearOpeningBalances(db, years[0]),
+      db.select().from(ledgersTable).orderBy(asc(ledgersTable.name)).execute()
+    ]);
+
+    return ledgers.map(ledger => {
+      const opening = fromNetBalance(openings.get(ledger.id) ?? ZERO_MONEY, ledger.balance_type);
+      return {
+        ledger_id: ledger.id,
+        ledger_name: ledger.name,
+        opening_balance: moneyToNumber(opening.amount),
+        balance_type: opening.balance_type
+      };
+    });
+  } catch (error) {
+    console.error('Failed to fetch opening balances:', error);
+    throw error;
+  }
+};
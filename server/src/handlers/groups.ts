@@ -1,16 +1,85 @@
 
-import { db } from '../db';
-import { groupsTable } from '../db/schema';
-import { type CreateGroupInput, type UpdateGroupInput, type DeleteInput, type SearchInput, type Group } from '../schema';
-import { eq, ilike, or } from 'drizzle-orm';
+import { db, type DbTransaction } from '../db';
+import { groupsTable, ledgersTable } from '../db/schema';
+import {
+  type CreateGroupInput,
+  type UpdateGroupInput,
+  type MoveGroupInput,
+  type MergeGroupsInput,
+  type GroupTreeInput,
+  type GroupTreeNode,
+  type DeleteInput,
+  type SearchInput,
+  type Group,
+  type GroupNature,
+  type CashFlowActivity
+} from '../schema';
+import { asc, eq, ilike, or, sql } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, moneyToNumber } from '../money';
+import { fromNetBalance, getPostingTotals, getYearToDate } from './balances';
+
+type GroupLink = Pick<Group, 'id' | 'parent_group_id'>;
+
+// Whether the group is the ancestor group itself or lies anywhere below it
+export const isWithin = (groups: Map<number, GroupLink>, groupId: number, ancestorId: number): boolean => {
+  const visited = new Set<number>();
+  let current = groups.get(groupId);
+
+  while (current && !visited.has(current.id)) {
+    if (current.id === ancestorId) {
+      return true;
+    }
+    visited.add(current.id);
+    current = current.parent_group_id !== null ? groups.get(current.parent_group_id) : undefined;
+  }
+
+  return false;
+};
+
+// Loads every group for a change to the tree. The table lock keeps two
+// concurrent moves from forming a cycle between them.
+const lockGroups = async (tx: DbTransaction): Promise<Map<number, Group>> => {
+  await tx.execute(sql`LOCK TABLE ${groupsTable} IN SHARE ROW EXCLUSIVE MODE`);
+  const groups = await tx.select().from(groupsTable).execute();
+  return new Map(groups.map(group => [group.id, group]));
+};
+
+// Refuses a parent that does not exist or that would put the group under
+// itself
+const assertValidParent = (groups: Map<number, GroupLink>, groupId: number, parentId: number) => {
+  if (parentId === groupId) {
+    throw new Error('A group cannot be its own parent');
+  }
+
+  if (!groups.has(parentId)) {
+    throw new Error('Parent group not found');
+  }
+
+  if (isWithin(groups, parentId, groupId)) {
+    throw new Error('A group cannot be moved under one of its own sub-groups');
+  }
+};
 
 export const createGroup = async (input: CreateGroupInput): Promise<Group> => {
   try {
+    if (input.parent_group_id !== undefined) {
+      const parent = await db.select({ id: groupsTable.id })
+        .from(groupsTable)
+        .where(eq(groupsTable.id, input.parent_group_id))
+        .execute();
+
+      if (parent.length === 0) {
+        throw new Error('Parent group not found');
+      }
+    }
+
     const result = await db.insert(groupsTable)
       .values({
         name: input.name,
         description: input.description ?? null,
-        parent_group_id: input.parent_group_id ?? null
+        parent_group_id: input.parent_group_id ?? null,
+        nature: input.nature ?? null,
+        cash_flow_activity: input.cash_flow_activity ?? null
       })
       .returning()
       .execute();
@@ -70,33 +139,88 @@ export const updateGroup = async (input: UpdateGroupInput): Promise<Group> => {
       updateValues.parent_group_id = input.parent_group_id;
     }
 
-    const result = await db.update(groupsTable)
-      .set(updateValues)
-      .where(eq(groupsTable.id, input.id))
-      .returning()
-      .execute();
+    if (input.nature !== undefined) {
+      updateValues.nature = input.nature;
+    }
 
-    if (result.length === 0) {
-      throw new Error('Group not found');
+    if (input.cash_flow_activity !== undefined) {
+      updateValues.cash_flow_activity = input.cash_flow_activity;
     }
 
-    return result[0];
+    return await db.transaction(async (tx) => {
+      if (input.parent_group_id !== undefined && input.parent_group_id !== null) {
+        const groups = await lockGroups(tx);
+        if (!groups.has(input.id)) {
+          throw new Error('Group not found');
+        }
+        assertValidParent(groups, input.id, input.parent_group_id);
+      }
+
+      // System groups anchor the statements, so their nature is fixed
+      if (input.nature !== undefined) {
+        const [group] = await tx.select({ is_system: groupsTable.is_system, nature: groupsTable.nature })
+          .from(groupsTable)
+          .where(eq(groupsTable.id, input.id))
+          .for('update')
+          .execute();
+
+        if (group?.is_system && input.nature !== group.nature) {
+          throw new Error('The nature of system groups cannot be changed');
+        }
+      }
+
+      const result = await tx.update(groupsTable)
+        .set(updateValues)
+        .where(eq(groupsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Group not found');
+      }
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Group update failed:', error);
     throw error;
   }
 };
 
+// Only empty groups can be deleted, so no sub-group or ledger is left
+// pointing at a missing group
 export const deleteGroup = async (input: DeleteInput): Promise<{ success: boolean }> => {
   try {
-    const result = await db.delete(groupsTable)
-      .where(eq(groupsTable.id, input.id))
-      .returning({ id: groupsTable.id })
-      .execute();
+    await db.transaction(async (tx) => {
+      const groups = await lockGroups(tx);
+      const group = groups.get(input.id);
 
-    if (result.length === 0) {
-      throw new Error('Group not found');
-    }
+      if (!group) {
+        throw new Error('Group not found');
+      }
+
+      if (group.is_system) {
+        throw new Error('System groups cannot be deleted');
+      }
+
+      if ([...groups.values()].some(other => other.parent_group_id === group.id)) {
+        throw new Error(`Move or delete the sub-groups of ${group.name} first`);
+      }
+
+      const ledgers = await tx.select({ id: ledgersTable.id })
+        .from(ledgersTable)
+        .where(eq(ledgersTable.group_id, group.id))
+        .limit(1)
+        .execute();
+
+      if (ledgers.length > 0) {
+        throw new Error(`Move or delete the ledgers of ${group.name} first`);
+      }
+
+      await tx.delete(groupsTable)
+        .where(eq(groupsTable.id, group.id))
+        .execute();
+    });
 
     return { success: true };
   } catch (error) {
@@ -105,6 +229,203 @@ export const deleteGroup = async (input: DeleteInput): Promise<{ success: boolea
   }
 };
 
+export const moveGroup = async (input: MoveGroupInput): Promise<Group> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const groups = await lockGroups(tx);
+
+      if (!groups.has(input.id)) {
+        throw new Error('Group not found');
+      }
+
+      if (input.parent_group_id !== null) {
+        assertValidParent(groups, input.id, input.parent_group_id);
+      }
+
+      const result = await tx.update(groupsTable)
+        .set({ parent_group_id: input.parent_group_id, updated_at: new Date() })
+        .where(eq(groupsTable.id, input.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Group move failed:', error);
+    throw error;
+  }
+};
+
+// Moves the sub-groups and ledgers of the source group to the target group
+// and deletes the source group. Groups whose natures differ cannot be merged,
+// as that would move their ledgers between statements.
+export const mergeGroups = async (input: MergeGroupsInput): Promise<Group> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const groups = await lockGroups(tx);
+      const source = groups.get(input.id);
+      const target = groups.get(input.target_group_id);
+
+      if (!source || !target) {
+        throw new Error('Group not found');
+      }
+
+      if (source.is_system) {
+        throw new Error('System groups cannot be merged into another group');
+      }
+
+      if (source.id === target.id) {
+        throw new Error('A group cannot be merged into itself');
+      }
+
+      if (isWithin(groups, target.id, source.id)) {
+        throw new Error(`Cannot merge ${source.name} into its own sub-group ${target.name}`);
+      }
+
+      const natures = resolveGroupNatures([...groups.values()]);
+      const sourceNature = natures.get(source.id) ?? null;
+      const targetNature = natures.get(target.id) ?? null;
+      if (sourceNature !== null && targetNature !== null && sourceNature !== targetNature) {
+        throw new Error(`Cannot merge ${source.name} (${sourceNature}) into ${target.name} (${targetNature})`);
+      }
+
+      await tx.update(groupsTable)
+        .set({ parent_group_id: target.id, updated_at: new Date() })
+        .where(eq(groupsTable.parent_group_id, source.id))
+        .execute();
+
+      await tx.update(ledgersTable)
+        .set({ group_id: target.id, updated_at: new Date() })
+        .where(eq(ledgersTable.group_id, source.id))
+        .execute();
+
+      await tx.delete(groupsTable)
+        .where(eq(groupsTable.id, source.id))
+        .execute();
+
+      // The target gained the source's members
+      const [merged] = await tx.update(groupsTable)
+        .set({ updated_at: new Date() })
+        .where(eq(groupsTable.id, target.id))
+        .returning()
+        .execute();
+
+      return merged;
+    });
+  } catch (error) {
+    console.error('Group merge failed:', error);
+    throw error;
+  }
+};
+
+// Builds the group hierarchy bottom up: visit receives each group with the
+// results for its sub-groups, in the order given. Groups caught in a parent
+// cycle are treated as primary groups so none go missing.
+export const mapGroupTree = <T>(groups: Group[], visit: (group: Group, children: T[]) => T): T[] => {
+  const byId = new Map(groups.map(group => [group.id, group]));
+  const childrenOf = new Map<number, Group[]>();
+  groups.forEach(group => {
+    if (group.parent_group_id !== null && byId.has(group.parent_group_id)) {
+      childrenOf.set(group.parent_group_id, [...(childrenOf.get(group.parent_group_id) ?? []), group]);
+    }
+  });
+
+  const visited = new Set<number>();
+  const build = (group: Group): T => {
+    visited.add(group.id);
+    const children: T[] = [];
+    for (const child of childrenOf.get(group.id) ?? []) {
+      if (!visited.has(child.id)) {
+        children.push(build(child));
+      }
+    }
+    return visit(group, children);
+  };
+
+  const tree = groups
+    .filter(group => group.parent_group_id === null || !byId.has(group.parent_group_id))
+    .map(build);
+
+  groups.forEach(group => {
+    if (!visited.has(group.id)) {
+      tree.push(build(group));
+    }
+  });
+
+  return tree;
+};
+
+// Nested groups, primary groups first, with ledger counts and balances rolled
+// up from every sub-group
+export const getGroupTree = async (input: GroupTreeInput): Promise<GroupTreeNode[]> => {
+  try {
+    const [groups, ledgers, { openings, entryConditions }] = await Promise.all([
+      db.select().from(groupsTable).orderBy(asc(groupsTable.name)).execute(),
+      db.select({ id: ledgersTable.id, group_id: ledgersTable.group_id }).from(ledgersTable).execute(),
+      getYearToDate(db, input.as_on_date)
+    ]);
+    const postings = await getPostingTotals(db, entryConditions);
+    const natures = resolveGroupNatures(groups);
+
+    interface GroupTotals {
+      ledger_count: number;
+      debit: Money;
+      credit: Money;
+      closing: Money;
+    }
+
+    const ownTotals = new Map<number, GroupTotals>(groups.map(group => [
+      group.id,
+      { ledger_count: 0, debit: ZERO_MONEY, credit: ZERO_MONEY, closing: ZERO_MONEY }
+    ]));
+
+    ledgers.forEach(ledger => {
+      const totals = ownTotals.get(ledger.group_id);
+      if (!totals) return;
+
+      const posted = postings.get(ledger.id) ?? { debit: ZERO_MONEY, credit: ZERO_MONEY };
+      totals.ledger_count += 1;
+      totals.debit += posted.debit;
+      totals.credit += posted.credit;
+      totals.closing += (openings.get(ledger.id) ?? ZERO_MONEY) + posted.debit - posted.credit;
+    });
+
+    const tree = mapGroupTree(groups, (group, children: { node: GroupTreeNode; totals: GroupTotals }[]) => {
+      const totals = { ...ownTotals.get(group.id)! };
+      children.forEach(child => {
+        totals.ledger_count += child.totals.ledger_count;
+        totals.debit += child.totals.debit;
+        totals.credit += child.totals.credit;
+        totals.closing += child.totals.closing;
+      });
+
+      const closing = fromNetBalance(totals.closing, 'debit');
+      return {
+        node: {
+          id: group.id,
+          name: group.name,
+          parent_group_id: group.parent_group_id,
+          nature: group.nature,
+          effective_nature: natures.get(group.id) ?? null,
+          is_system: group.is_system,
+          ledger_count: totals.ledger_count,
+          total_debit: moneyToNumber(totals.debit),
+          total_credit: moneyToNumber(totals.credit),
+          closing_balance: moneyToNumber(closing.amount),
+          balance_type: closing.balance_type,
+          children: children.map(child => child.node)
+        },
+        totals
+      };
+    });
+
+    return tree.map(built => built.node);
+  } catch (error) {
+    console.error('Failed to build group tree:', error);
+    throw error;
+  }
+};
+
 export const searchGroups = async (input: SearchInput): Promise<Group[]> => {
   try {
     const result = await db.select()
@@ -125,3 +446,48 @@ export const searchGroups = async (input: SearchInput): Promise<Group[]> => {
     throw error;
   }
 };
+
+// Nature of every group, taken from the nearest group up the parent chain
+// that has one. Groups with no nature anywhere above them map to null.
+export const resolveGroupNatures = (groups: Pick<Group, 'id' | 'parent_group_id' | 'nature'>[]): Map<number, GroupNature | null> => {
+  const byId = new Map(groups.map(group => [group.id, group]));
+  const natures = new Map<number, GroupNature | null>();
+
+  groups.forEach(group => {
+    const visited = new Set<number>();
+    let current: typeof group | undefined = group;
+
+    // The visited set stops at a parent cycle instead of looping forever
+    while (current && current.nature === null && current.parent_group_id !== null && !visited.has(current.id)) {
+      visited.add(current.id);
+      current = byId.get(current.parent_group_id);
+    }
+
+    natures.set(group.id, current?.nature ?? null);
+  });
+
+  return natures;
+};
+
+// Cash flow activity of every group, taken from the nearest group up the
+// parent chain that has one. Without one, equity groups count as financing
+// and all other groups as operating.
+export const resolveCashFlowActivities = (groups: Pick<Group, 'id' | 'parent_group_id' | 'nature' | 'cash_flow_activity'>[]): Map<number, CashFlowActivity> => {
+  const byId = new Map(groups.map(group => [group.id, group]));
+  const natures = resolveGroupNatures(groups);
+  const activities = new Map<number, CashFlowActivity>();
+
+  groups.forEach(group => {
+    const visited = new Set<number>();
+    let current: typeof group | undefined = group;
+
+    while (current && current.cash_flow_activity === null && current.parent_group_id !== null && !visited.has(current.id)) {
+      visited.add(current.id);
+      current = byId.get(current.parent_group_id);
+    }
+
+    activities.set(group.id, current?.cash_flow_activity ?? (natures.get(group.id) === 'equity' ? 'financing' : 'operating'));
+  });
+
+  return activities;
+};
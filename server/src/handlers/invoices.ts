@@ -0,0 +1,359 @@
+import { db, type DbTransaction } from '../db';
+import { contactsTable, invoiceLinesTable, invoicesTable, ledgersTable } from '../db/schema';
+import {
+  type CreateInvoiceInput,
+  type DeleteInput,
+  type Invoice,
+  type InvoiceLine,
+  type InvoiceLineInput,
+  type InvoicesInput,
+  type InvoiceType,
+  type InvoiceWithLines,
+  type LockOverrideInput,
+  type TaxComponent,
+  type UpdateInvoiceInput
+} from '../schema';
+import { and, asc, desc, eq, type SQL } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, formatMoney, moneyToNumber, sumMoney } from '../money';
+import { invoiceTypeLabels } from '../vouchers';
+import { type LinePrice, priceInvoiceLine } from '../invoices';
+import { chargedComponents, taxHeadLabels } from '../taxes';
+import { allocateInvoiceNumber } from './voucher_series';
+import { type PostingDetail, type PostingInput, postVoucher, postCorrection, removeVoucher } from './transactions';
+import { contactSupplyType, loadTaxRates } from './taxes';
+
+type Executor = typeof db | DbTransaction;
+
+type InvoiceInput = Omit<CreateInvoiceInput, 'invoice_type'>;
+
+interface PricedLine extends LinePrice {
+  line: InvoiceLineInput;
+  // Components of the line's tax rate charged given the place of supply
+  components: TaxComponent[];
+}
+
+interface PreparedInvoice {
+  lines: PricedLine[];
+  discount: Money;
+  taxable: Money;
+  tax: Money;
+  total: Money;
+}
+
+// Checks the contact, its ledger and the lines, and prices the lines
+const prepareInvoice = async (tx: DbTransaction, invoiceType: InvoiceType, input: InvoiceInput): Promise<PreparedInvoice> => {
+  if (input.due_date < input.invoice_date) {
+    throw new Error('Due date cannot be before the invoice date');
+  }
+
+  const contacts = await tx.select()
+    .from(contactsTable)
+    .where(eq(contactsTable.id, input.contact_id))
+    .execute();
+
+  if (contacts.length === 0) {
+    throw new Error('Contact not found');
+  }
+
+  const contact = contacts[0];
+  if (invoiceType === 'sales' && contact.contact_type === 'supplier') {
+    throw new Error(`${contact.name} is a supplier; sales invoices are raised to customers`);
+  }
+  if (invoiceType === 'purchase' && contact.contact_type === 'customer') {
+    throw new Error(`${contact.name} is a customer; purchase bills come from suppliers`);
+  }
+
+  const ledgers = await tx.select({ name: ledgersTable.name, contact_id: ledgersTable.contact_id })
+    .from(ledgersTable)
+    .where(eq(ledgersTable.id, input.ledger_id))
+    .execute();
+
+  if (ledgers.length === 0) {
+    throw new Error('Ledger not found');
+  }
+
+  if (ledgers[0].contact_id !== contact.id) {
+    throw new Error(`${ledgers[0].name} is not linked to ${contact.name}`);
+  }
+
+  input.lines.forEach((line, index) => {
+    if (line.ledger_id === input.ledger_id) {
+      throw new Error(`Line ${index + 1} cannot be posted to ${ledgers[0].name}, the contact's own ledger`);
+    }
+  });
+
+  const taxRateIds = [...new Set(input.lines.flatMap(line => line.tax_rate_id !== null ? [line.tax_rate_id] : []))];
+  const taxRates = await loadTaxRates(tx, taxRateIds);
+  const { supply_type } = await contactSupplyType(tx, contact.id);
+
+  const lines = input.lines.map((line, index) => {
+    const taxRate = taxRates.find(rate => rate.id === line.tax_rate_id);
+    if (line.tax_rate_id !== null && !taxRate) {
+      throw new Error(`Line ${index + 1} has a tax rate that does not exist`);
+    }
+
+    const components = taxRate ? chargedComponents(taxRate.components, supply_type) : [];
+    return { line, components, ...priceInvoiceLine(line, components) };
+  });
+  const taxable = sumMoney(lines.map(line => line.amount));
+  const tax = sumMoney(lines.map(line => line.tax));
+
+  if (taxable + tax === ZERO_MONEY) {
+    throw new Error('The invoice total must be more than zero');
+  }
+
+  return { lines, discount: sumMoney(lines.map(line => line.discount)), taxable, tax, total: taxable + tax };
+};
+
+// The voucher of an invoice: a sales invoice debits the contact's ledger with
+// the total, credits each sales ledger with its share per tax rate, and
+// credits the output tax of each tax component; a purchase bill the other
+// way round, with input tax
+const invoiceVoucher = (
+  invoiceType: InvoiceType,
+  invoiceNumber: string,
+  input: InvoiceInput,
+  prepared: PreparedInvoice
+): PostingInput => {
+  const isSales = invoiceType === 'sales';
+  const side = (amount: Money, debit: boolean) => ({
+    debit_amount: debit ? moneyToNumber(amount) : 0,
+    credit_amount: debit ? 0 : moneyToNumber(amount)
+  });
+
+  const shares = new Map<string, { amount: Money; detail: Omit<PostingDetail, 'debit_amount' | 'credit_amount'> }>();
+  const addShare = (key: string, amount: Money, detail: Omit<PostingDetail, 'debit_amount' | 'credit_amount'>) => {
+    shares.set(key, { amount: (shares.get(key)?.amount ?? ZERO_MONEY) + amount, detail });
+  };
+  prepared.lines.forEach(({ line, amount }) => {
+    addShare(`${line.ledger_id}|${line.tax_rate_id}`, amount, { ledger_id: line.ledger_id, description: null, tax_rate_id: line.tax_rate_id });
+  });
+  prepared.lines.forEach(({ components, taxes }) => components.forEach((component, index) => {
+    addShare(`tax|${component.id}`, taxes[index], {
+      ledger_id: isSales ? component.output_ledger_id : component.input_ledger_id,
+      description: taxHeadLabels[component.head],
+      tax_component_id: component.id
+    });
+  }));
+
+  const description = `${invoiceTypeLabels[invoiceType]} ${invoiceNumber}${input.reference ? ` (${input.reference})` : ''}`;
+
+  return {
+    voucher_type: invoiceType,
+    entry_date: input.invoice_date,
+    description,
+    details: [
+      { ledger_id: input.ledger_id, ...side(prepared.total, isSales), description: invoiceNumber },
+      ...[...shares.values()]
+        .filter(({ amount }) => amount > ZERO_MONEY)
+        .map(({ amount, detail }) => ({ ...detail, ...side(amount, !isSales) }))
+    ]
+  };
+};
+
+const invoiceValues = (input: InvoiceInput, prepared: PreparedInvoice) => ({
+  contact_id: input.contact_id,
+  ledger_id: input.ledger_id,
+  invoice_date: input.invoice_date,
+  due_date: input.due_date,
+  reference: input.reference || null,
+  notes: input.notes || null,
+  discount_amount: formatMoney(prepared.discount),
+  taxable_amount: formatMoney(prepared.taxable),
+  tax_amount: formatMoney(prepared.tax),
+  total_amount: formatMoney(prepared.total)
+});
+
+const insertLines = async (tx: DbTransaction, invoiceId: number, lines: PricedLine[]): Promise<void> => {
+  await tx.insert(invoiceLinesTable)
+    .values(lines.map(({ line, components, discount, amount, tax }) => ({
+      invoice_id: invoiceId,
+      description: line.description,
+      ledger_id: line.ledger_id,
+      quantity: String(line.quantity),
+      rate: formatMoney(parseMoney(line.rate)),
+      discount_percent: formatMoney(parseMoney(line.discount_percent)),
+      discount_amount: formatMoney(discount),
+      amount: formatMoney(amount),
+      tax_rate: formatMoney(sumMoney(components.map(component => parseMoney(component.rate)))),
+      tax_rate_id: line.tax_rate_id,
+      tax_amount: formatMoney(tax)
+    })))
+    .execute();
+};
+
+const toInvoice = (row: typeof invoicesTable.$inferSelect, contactName: string): Invoice => ({
+  ...row,
+  contact_name: contactName,
+  discount_amount: moneyToNumber(parseMoney(row.discount_amount)),
+  taxable_amount: moneyToNumber(parseMoney(row.taxable_amount)),
+  tax_amount: moneyToNumber(parseMoney(row.tax_amount)),
+  total_amount: moneyToNumber(parseMoney(row.total_amount))
+});
+
+const toInvoiceLine = (row: typeof invoiceLinesTable.$inferSelect): InvoiceLine => ({
+  ...row,
+  quantity: Number(row.quantity),
+  rate: moneyToNumber(parseMoney(row.rate)),
+  discount_percent: moneyToNumber(parseMoney(row.discount_percent)),
+  discount_amount: moneyToNumber(parseMoney(row.discount_amount)),
+  amount: moneyToNumber(parseMoney(row.amount)),
+  tax_rate: moneyToNumber(parseMoney(row.tax_rate)),
+  tax_amount: moneyToNumber(parseMoney(row.tax_amount))
+});
+
+const selectInvoices = (executor: Executor, conditions: SQL<unknown>[]) => executor.select({
+  invoice: invoicesTable,
+  contact_name: contactsTable.name
+})
+  .from(invoicesTable)
+  .innerJoin(contactsTable, eq(invoicesTable.contact_id, contactsTable.id))
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .orderBy(desc(invoicesTable.invoice_date), desc(invoicesTable.id))
+  .execute();
+
+const loadInvoice = async (executor: Executor, id: number): Promise<InvoiceWithLines> => {
+  const invoices = await selectInvoices(executor, [eq(invoicesTable.id, id)]);
+
+  if (invoices.length === 0) {
+    throw new Error('Invoice not found');
+  }
+
+  const lines = await executor.select()
+    .from(invoiceLinesTable)
+    .where(eq(invoiceLinesTable.invoice_id, id))
+    .orderBy(asc(invoiceLinesTable.id))
+    .execute();
+
+  return { ...toInvoice(invoices[0].invoice, invoices[0].contact_name), lines: lines.map(toInvoiceLine) };
+};
+
+// Locks the invoice so it cannot be edited or deleted twice concurrently
+const lockInvoice = async (tx: DbTransaction, id: number) => {
+  const invoices = await tx.select()
+    .from(invoicesTable)
+    .where(eq(invoicesTable.id, id))
+    .for('update')
+    .execute();
+
+  if (invoices.length === 0) {
+    throw new Error('Invoice not found');
+  }
+
+  return invoices[0];
+};
+
+export const createInvoice = async (input: CreateInvoiceInput & LockOverrideInput): Promise<InvoiceWithLines> => {
+  try {
+    const id = await db.transaction(async (tx) => {
+      const prepared = await prepareInvoice(tx, input.invoice_type, input);
+      const invoiceNumber = await allocateInvoiceNumber(tx, input.invoice_type, input.invoice_date);
+      const entry = await postVoucher(tx, {
+        ...invoiceVoucher(input.invoice_type, invoiceNumber, input, prepared),
+        override_lock: input.override_lock
+      });
+
+      const [invoice] = await tx.insert(invoicesTable)
+        .values({
+          invoice_type: input.invoice_type,
+          invoice_number: invoiceNumber,
+          ...invoiceValues(input, prepared),
+          entry_id: entry.id
+        })
+        .returning()
+        .execute();
+
+      await insertLines(tx, invoice.id, prepared.lines);
+      return invoice.id;
+    });
+
+    return await loadInvoice(db, id);
+  } catch (error) {
+    console.error('Invoice creation failed:', error);
+    throw error;
+  }
+};
+
+export const getInvoices = async (input: InvoicesInput): Promise<Invoice[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.invoice_type) {
+      conditions.push(eq(invoicesTable.invoice_type, input.invoice_type));
+    }
+
+    if (input.contact_id !== undefined) {
+      conditions.push(eq(invoicesTable.contact_id, input.contact_id));
+    }
+
+    const results = await selectInvoices(db, conditions);
+    return results.map(result => toInvoice(result.invoice, result.contact_name));
+  } catch (error) {
+    console.error('Failed to get invoices:', error);
+    throw error;
+  }
+};
+
+export const getInvoice = async (input: { id: number }): Promise<InvoiceWithLines> => {
+  try {
+    return await loadInvoice(db, input.id);
+  } catch (error) {
+    console.error('Failed to get invoice:', error);
+    throw error;
+  }
+};
+
+// Edits an invoice by correcting its voucher: the voucher posted last is
+// reversed and the edited invoice posted in its place
+export const updateInvoice = async (input: UpdateInvoiceInput & LockOverrideInput): Promise<InvoiceWithLines> => {
+  try {
+    await db.transaction(async (tx) => {
+      const invoice = await lockInvoice(tx, input.id);
+      const prepared = await prepareInvoice(tx, invoice.invoice_type, input);
+      const entry = await postCorrection(tx, {
+        id: invoice.entry_id,
+        correction_data: invoiceVoucher(invoice.invoice_type, invoice.invoice_number, input, prepared),
+        override_lock: input.override_lock
+      });
+
+      await tx.update(invoicesTable)
+        .set({ ...invoiceValues(input, prepared), entry_id: entry.id, updated_at: new Date() })
+        .where(eq(invoicesTable.id, invoice.id))
+        .execute();
+
+      await tx.delete(invoiceLinesTable)
+        .where(eq(invoiceLinesTable.invoice_id, invoice.id))
+        .execute();
+      await insertLines(tx, invoice.id, prepared.lines);
+    });
+
+    return await loadInvoice(db, input.id);
+  } catch (error) {
+    console.error('Invoice update failed:', error);
+    throw error;
+  }
+};
+
+// Deletes an invoice with the voucher it posted last; earlier versions stay
+// in the books as superseded vouchers and their reversals
+export const deleteInvoice = async (input: DeleteInput & LockOverrideInput): Promise<{ success: boolean }> => {
+  try {
+    await db.transaction(async (tx) => {
+      const invoice = await lockInvoice(tx, input.id);
+
+      await removeVoucher(tx, { id: invoice.entry_id, override_lock: input.override_lock });
+
+      await tx.delete(invoiceLinesTable)
+        .where(eq(invoiceLinesTable.invoice_id, invoice.id))
+        .execute();
+      await tx.delete(invoicesTable)
+        .where(eq(invoicesTable.id, invoice.id))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Invoice deletion failed:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,20 @@
 
 import { db } from '../db';
-import { ledgersTable, groupsTable, contactsTable } from '../db/schema';
+import {
+  ledgersTable,
+  groupsTable,
+  contactsTable,
+  transactionDetailsTable,
+  ledgerOpeningBalancesTable,
+  taxComponentsTable,
+  invoicesTable,
+  invoiceLinesTable,
+  bankStatementsTable
+} from '../db/schema';
 import { type CreateLedgerInput, type UpdateLedgerInput, type DeleteInput, type SearchInput, type Ledger } from '../schema';
-import { eq, ilike, and } from 'drizzle-orm';
+import { eq, ilike, and, ne, or } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
+import { parseMoney, formatMoney, moneyToNumber } from '../money';
 
 export const createLedger = async (input: CreateLedgerInput): Promise<Ledger> => {
   try {
@@ -34,8 +45,9 @@ export const createLedger = async (input: CreateLedgerInput): Promise<Ledger> =>
         name: input.name,
         group_id: input.group_id,
         contact_id: input.contact_id,
-        opening_balance: input.opening_balance.toString(),
-        balance_type: input.balance_type
+        opening_balance: formatMoney(parseMoney(input.opening_balance)),
+        balance_type: input.balance_type,
+        ledger_type: input.ledger_type
       })
       .returning()
       .execute();
@@ -43,7 +55,7 @@ export const createLedger = async (input: CreateLedgerInput): Promise<Ledger> =>
     const ledger = result[0];
     return {
       ...ledger,
-      opening_balance: parseFloat(ledger.opening_balance)
+      opening_balance: moneyToNumber(parseMoney(ledger.opening_balance))
     };
   } catch (error) {
     console.error('Ledger creation failed:', error);
@@ -59,7 +71,7 @@ export const getLedgers = async (): Promise<Ledger[]> => {
 
     return results.map(ledger => ({
       ...ledger,
-      opening_balance: parseFloat(ledger.opening_balance)
+      opening_balance: moneyToNumber(parseMoney(ledger.opening_balance))
     }));
   } catch (error) {
     console.error('Failed to get ledgers:', error);
@@ -81,7 +93,7 @@ export const getLedger = async (input: { id: number }): Promise<Ledger> => {
     const ledger = results[0];
     return {
       ...ledger,
-      opening_balance: parseFloat(ledger.opening_balance)
+      opening_balance: moneyToNumber(parseMoney(ledger.opening_balance))
     };
   } catch (error) {
     console.error('Failed to get ledger:', error);
@@ -125,12 +137,26 @@ export const updateLedger = async (input: UpdateLedgerInput): Promise<Ledger> =>
       }
     }
 
+    // Imported statements are matched against the ledger's bank lines
+    if (input.ledger_type !== undefined && input.ledger_type !== 'bank' && existingLedger[0].ledger_type === 'bank') {
+      const statements = await db.select({ id: bankStatementsTable.id })
+        .from(bankStatementsTable)
+        .where(eq(bankStatementsTable.ledger_id, input.id))
+        .limit(1)
+        .execute();
+
+      if (statements.length > 0) {
+        throw new Error('Bank statements have been imported into this ledger, so it must stay a bank ledger');
+      }
+    }
+
     const updateData: any = {};
     if (input.name !== undefined) updateData.name = input.name;
     if (input.group_id !== undefined) updateData.group_id = input.group_id;
     if (input.contact_id !== undefined) updateData.contact_id = input.contact_id;
-    if (input.opening_balance !== undefined) updateData.opening_balance = input.opening_balance.toString();
+    if (input.opening_balance !== undefined) updateData.opening_balance = formatMoney(parseMoney(input.opening_balance));
     if (input.balance_type !== undefined) updateData.balance_type = input.balance_type;
+    if (input.ledger_type !== undefined) updateData.ledger_type = input.ledger_type;
 
     const result = await db.update(ledgersTable)
       .set(updateData)
@@ -141,7 +167,7 @@ export const updateLedger = async (input: UpdateLedgerInput): Promise<Ledger> =>
     const ledger = result[0];
     return {
       ...ledger,
-      opening_balance: parseFloat(ledger.opening_balance)
+      opening_balance: moneyToNumber(parseMoney(ledger.opening_balance))
     };
   } catch (error) {
     console.error('Ledger update failed:', error);
@@ -149,14 +175,76 @@ export const updateLedger = async (input: UpdateLedgerInput): Promise<Ledger> =>
   }
 };
 
+// Nothing in the database stops rows from pointing at a deleted ledger, so
+// a ledger is only deleted once nothing uses it. Its zero carried-forward
+// opening balances, which closing a year stores for every ledger, go with it.
 export const deleteLedger = async (input: DeleteInput): Promise<{ success: boolean }> => {
   try {
-    const result = await db.delete(ledgersTable)
-      .where(eq(ledgersTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select({ name: ledgersTable.name, is_system: ledgersTable.is_system })
+        .from(ledgersTable)
+        .where(eq(ledgersTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        return { success: false };
+      }
+
+      const ledger = existing[0];
+      if (ledger.is_system) {
+        throw new Error('System ledgers cannot be deleted');
+      }
+
+      const uses: [string, () => Promise<unknown[]>][] = [
+        ['vouchers', () => tx.select({ id: transactionDetailsTable.id })
+          .from(transactionDetailsTable)
+          .where(eq(transactionDetailsTable.ledger_id, input.id))
+          .limit(1)
+          .execute()],
+        ['carried-forward opening balances', () => tx.select({ id: ledgerOpeningBalancesTable.id })
+          .from(ledgerOpeningBalancesTable)
+          .where(and(eq(ledgerOpeningBalancesTable.ledger_id, input.id), ne(ledgerOpeningBalancesTable.opening_balance, '0')))
+          .limit(1)
+          .execute()],
+        ['tax rates', () => tx.select({ id: taxComponentsTable.id })
+          .from(taxComponentsTable)
+          .where(or(eq(taxComponentsTable.output_ledger_id, input.id), eq(taxComponentsTable.input_ledger_id, input.id)))
+          .limit(1)
+          .execute()],
+        ['invoices', () => tx.select({ id: invoicesTable.id })
+          .from(invoicesTable)
+          .where(eq(invoicesTable.ledger_id, input.id))
+          .limit(1)
+          .execute()],
+        ['invoice lines', () => tx.select({ id: invoiceLinesTable.id })
+          .from(invoiceLinesTable)
+          .where(eq(invoiceLinesTable.ledger_id, input.id))
+          .limit(1)
+          .execute()],
+        ['bank statements', () => tx.select({ id: bankStatementsTable.id })
+          .from(bankStatementsTable)
+          .where(eq(bankStatementsTable.ledger_id, input.id))
+          .limit(1)
+          .execute()]
+      ];
+
+      for (const [use, find] of uses) {
+        if ((await find()).length > 0) {
+          throw new Error(`Ledger ${ledger.name} is used by ${use} and cannot be deleted`);
+        }
+      }
+
+      await tx.delete(ledgerOpeningBalancesTable)
+        .where(eq(ledgerOpeningBalancesTable.ledger_id, input.id))
+        .execute();
+
+      await tx.delete(ledgersTable)
+        .where(eq(ledgersTable.id, input.id))
+        .execute();
 
-    return { success: result.length > 0 };
+      return { success: true };
+    });
   } catch (error) {
     console.error('Ledger deletion failed:', error);
     throw error;
@@ -186,7 +274,7 @@ export const searchLedgers = async (input: SearchInput): Promise<Ledger[]> => {
 
     return results.map(ledger => ({
       ...ledger,
-      opening_balance: parseFloat(ledger.opening_balance)
+      opening_balance: moneyToNumber(parseMoney(ledger.opening_balance))
     }));
   } catch (error) {
     console.error('Ledger search failed:', error);
@@ -1,22 +1,108 @@
 
 import { db } from '../db';
-import { transactionEntriesTable, transactionDetailsTable, ledgersTable, groupsTable } from '../db/schema';
-import { type DaybookReportInput, type LedgerReportInput, type TrialBalanceInput } from '../schema';
-import { eq, and, gte, lte, desc, asc, sum, SQL } from 'drizzle-orm';
+import { transactionEntriesTable, transactionDetailsTable, ledgersTable, groupsTable, contactsTable, financialYearsTable } from '../db/schema';
+import {
+  type DaybookReportInput,
+  type DaybookReport,
+  type DaybookPeriod,
+  type DaybookVoucher,
+  type LedgerReportInput,
+  type LedgerReport,
+  type LedgerStatement,
+  type LedgerStatementPeriod,
+  type LedgerStatementLine,
+  type ContactStatementInput,
+  type ContactStatement,
+  type ReportPeriod,
+  type TrialBalanceInput,
+  type TrialBalance,
+  type ProfitAndLossInput,
+  type ProfitAndLoss,
+  type BalanceSheetInput,
+  type BalanceSheet,
+  type StatementLine,
+  type UnclassifiedStatementLine,
+  type ComparativeInput,
+  type ComparativeValues,
+  type ComparativeLine,
+  type ComparativeColumnHeader,
+  type ComparativeProfitAndLoss,
+  type ComparativeBalanceSheet,
+  type ComparativeTrialBalance,
+  type CashFlowInput,
+  type CashFlowStatement,
+  type CashFlowSection,
+  type CashFlowAdjustment,
+  type CashFlowActivity,
+  type GroupedTrialBalanceInput,
+  type GroupedTrialBalance,
+  type TrialBalanceAmounts,
+  type TrialBalanceGroupLine
+} from '../schema';
+import { eq, and, gt, gte, lte, asc, sum, inArray, SQL } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, moneyToNumber, absMoney } from '../money';
+import { isCurrentEntry, postedDetails, toNetBalance, fromNetBalance, findFinancialYear, getPostingTotals, getYearToDate, getOpeningBalancesAt, getYearOpeningBalances } from './balances';
+import { resolveGroupNatures, resolveCashFlowActivities, mapGroupTree, isWithin } from './groups';
+import { columnLabel } from '../periods';
 
-export const getDaybookReport = async (input: DaybookReportInput): Promise<any[]> => {
+// Trial balance and balance sheet start from the opening balances of the
+// financial year containing the report date and add the postings since the
+// start of that year
+const getBalancesFromYearStart = async (asOnDate: Date) => {
+  const { openings, entryConditions } = await getYearToDate(db, asOnDate);
+
+  return { openings, details: postedDetails(entryConditions) };
+};
+
+// Start of the daily, weekly or monthly period containing the date. Weeks
+// start on Monday.
+const periodStartOf = (date: Date, period: ReportPeriod): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  } else if (period === 'monthly') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+};
+
+// Last day of the period starting on the given date
+const periodEndOf = (periodStart: Date, period: ReportPeriod): Date => {
+  if (period === 'monthly') {
+    return new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 0));
+  }
+
+  const end = new Date(periodStart);
+  if (period === 'weekly') {
+    end.setUTCDate(end.getUTCDate() + 6);
+  }
+  return end;
+};
+
+// Vouchers of the period with their detail lines, grouped into daily, weekly
+// or monthly periods
+export const getDaybookReport = async (input: DaybookReportInput): Promise<DaybookReport> => {
   try {
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [isCurrentEntry];
     conditions.push(gte(transactionEntriesTable.entry_date, input.start_date));
     conditions.push(lte(transactionEntriesTable.entry_date, input.end_date));
 
+    if (input.voucher_type) {
+      conditions.push(eq(transactionEntriesTable.voucher_type, input.voucher_type));
+    }
+
     const results = await db.select({
       entry_id: transactionEntriesTable.id,
       entry_number: transactionEntriesTable.entry_number,
+      voucher_type: transactionEntriesTable.voucher_type,
       entry_date: transactionEntriesTable.entry_date,
       description: transactionEntriesTable.description,
       total_amount: transactionEntriesTable.total_amount,
+      ledger_id: ledgersTable.id,
       ledger_name: ledgersTable.name,
+      detail_description: transactionDetailsTable.description,
       debit_amount: transactionDetailsTable.debit_amount,
       credit_amount: transactionDetailsTable.credit_amount
     })
@@ -24,173 +110,648 @@ export const getDaybookReport = async (input: DaybookReportInput): Promise<any[]
     .innerJoin(transactionDetailsTable, eq(transactionEntriesTable.id, transactionDetailsTable.entry_id))
     .innerJoin(ledgersTable, eq(transactionDetailsTable.ledger_id, ledgersTable.id))
     .where(and(...conditions))
-    .orderBy(asc(transactionEntriesTable.entry_date), asc(transactionEntriesTable.entry_number))
+    .orderBy(
+      asc(transactionEntriesTable.entry_date),
+      asc(transactionEntriesTable.entry_number),
+      asc(transactionEntriesTable.id),
+      asc(transactionDetailsTable.id)
+    )
     .execute();
 
-    return results.map(result => ({
-      entry_id: result.entry_id,
-      entry_number: result.entry_number,
-      entry_date: result.entry_date,
-      description: result.description,
-      total_amount: parseFloat(result.total_amount),
-      ledger_name: result.ledger_name,
-      debit_amount: parseFloat(result.debit_amount),
-      credit_amount: parseFloat(result.credit_amount)
-    }));
+    const periods: DaybookPeriod[] = [];
+    let voucher: DaybookVoucher | null = null;
+    let totalDebit = ZERO_MONEY;
+    let totalCredit = ZERO_MONEY;
+    let voucherCount = 0;
+
+    // Money is summed exactly and converted once per period
+    let periodDebit = ZERO_MONEY;
+    let periodCredit = ZERO_MONEY;
+    const closePeriod = () => {
+      const current = periods[periods.length - 1];
+      if (!current) return;
+      current.total_debit = moneyToNumber(periodDebit);
+      current.total_credit = moneyToNumber(periodCredit);
+      if (input.day_summary) {
+        current.vouchers = [];
+      }
+    };
+
+    results.forEach(result => {
+      if (voucher === null || voucher.entry_id !== result.entry_id) {
+        const periodStart = periodStartOf(result.entry_date, input.period);
+        const current = periods[periods.length - 1];
+        if (!current || current.period_start.getTime() !== periodStart.getTime()) {
+          closePeriod();
+          periodDebit = ZERO_MONEY;
+          periodCredit = ZERO_MONEY;
+          periods.push({
+            period_start: periodStart,
+            period_end: periodEndOf(periodStart, input.period),
+            voucher_count: 0,
+            total_debit: 0,
+            total_credit: 0,
+            vouchers: []
+          });
+        }
+
+        voucher = {
+          entry_id: result.entry_id,
+          entry_number: result.entry_number,
+          voucher_type: result.voucher_type,
+          entry_date: result.entry_date,
+          description: result.description,
+          total_amount: moneyToNumber(parseMoney(result.total_amount)),
+          lines: []
+        };
+        periods[periods.length - 1].vouchers.push(voucher);
+        periods[periods.length - 1].voucher_count++;
+        voucherCount++;
+      }
+
+      const debit = parseMoney(result.debit_amount);
+      const credit = parseMoney(result.credit_amount);
+      periodDebit += debit;
+      periodCredit += credit;
+      totalDebit += debit;
+      totalCredit += credit;
+
+      voucher.lines.push({
+        ledger_id: result.ledger_id,
+        ledger_name: result.ledger_name,
+        description: result.detail_description,
+        debit_amount: moneyToNumber(debit),
+        credit_amount: moneyToNumber(credit)
+      });
+    });
+    closePeriod();
+
+    return {
+      start_date: input.start_date,
+      end_date: input.end_date,
+      period: input.period,
+      day_summary: input.day_summary,
+      periods,
+      totals: {
+        voucher_count: voucherCount,
+        total_debit: moneyToNumber(totalDebit),
+        total_credit: moneyToNumber(totalCredit)
+      }
+    };
   } catch (error) {
     console.error('Daybook report generation failed:', error);
     throw error;
   }
 };
 
-export const getLedgerReport = async (input: LedgerReportInput): Promise<any[]> => {
+const assertDateRange = (startDate: Date, endDate: Date) => {
+  if (startDate > endDate) {
+    throw new Error('Start date must not be after end date');
+  }
+};
+
+// Period trial balances may not span two financial years, since closing a
+// year resets income and expense ledgers in between
+const assertSingleFinancialYear = async (startDate: Date, endDate: Date) => {
+  assertDateRange(startDate, endDate);
+
+  const [startYear, endYear] = await Promise.all([
+    findFinancialYear(db, startDate),
+    findFinancialYear(db, endDate)
+  ]);
+  if (startYear && endYear && startYear.id !== endYear.id) {
+    throw new Error(`The period spans financial years ${startYear.name} and ${endYear.name}`);
+  }
+};
+
+// Financial years beginning after the start date and on or before the end
+// date, each with the opening balances a statement starting on it would show
+const getYearBoundaries = async (startDate: Date, endDate: Date): Promise<{ start_date: Date; openings: Map<number, Money> }[]> => {
+  const years = await db.select()
+    .from(financialYearsTable)
+    .where(and(gt(financialYearsTable.start_date, startDate), lte(financialYearsTable.start_date, endDate)))
+    .orderBy(asc(financialYearsTable.start_date))
+    .execute();
+
+  return Promise.all(years.map(async year => ({
+    start_date: year.start_date,
+    openings: await getYearOpeningBalances(db, year)
+  })));
+};
+
+// Statement of one ledger, of every ledger in a group and its sub-groups, of
+// every ledger linked to a contact, or of every ledger. Each statement starts from the balance brought forward to
+// the start date and runs the balance through the postings of the period.
+// The period may span financial years: each new year opens with the same
+// balances as a statement starting on it, the carried-forward balances once
+// the previous year is closed.
+// Unless a single ledger is asked for, ledgers without an opening balance or
+// postings are left out.
+export const getLedgerReport = async (input: LedgerReportInput): Promise<LedgerReport> => {
   try {
-    const conditions: SQL<unknown>[] = [];
-    conditions.push(gte(transactionEntriesTable.entry_date, input.start_date));
-    conditions.push(lte(transactionEntriesTable.entry_date, input.end_date));
+    assertDateRange(input.start_date, input.end_date);
 
-    if (input.ledger_id) {
-      conditions.push(eq(ledgersTable.id, input.ledger_id));
+    const [ledgers, groups, yearBoundaries] = await Promise.all([
+      db.select({
+        id: ledgersTable.id,
+        name: ledgersTable.name,
+        group_id: ledgersTable.group_id,
+        contact_id: ledgersTable.contact_id,
+        balance_type: ledgersTable.balance_type
+      })
+        .from(ledgersTable)
+        .orderBy(asc(ledgersTable.name))
+        .execute(),
+      db.select({ id: groupsTable.id, parent_group_id: groupsTable.parent_group_id })
+        .from(groupsTable)
+        .execute(),
+      getYearBoundaries(input.start_date, input.end_date)
+    ]);
+
+    if (input.ledger_id !== undefined && !ledgers.some(ledger => ledger.id === input.ledger_id)) {
+      throw new Error('Ledger not found');
     }
 
-    if (input.group_id) {
-      conditions.push(eq(ledgersTable.group_id, input.group_id));
+    const groupLinks = new Map(groups.map(group => [group.id, group]));
+    if (input.group_id !== undefined && !groupLinks.has(input.group_id)) {
+      throw new Error('Group not found');
     }
 
-    const results = await db.select({
+    const selected = ledgers.filter(ledger =>
+      (input.ledger_id === undefined || ledger.id === input.ledger_id) &&
+      (input.group_id === undefined || isWithin(groupLinks, ledger.group_id, input.group_id)) &&
+      (input.contact_id === undefined || ledger.contact_id === input.contact_id)
+    );
+    const selectedIds = selected.map(ledger => ledger.id);
+
+    const postings = selectedIds.length === 0 ? [] : await db.select({
       entry_id: transactionEntriesTable.id,
       entry_number: transactionEntriesTable.entry_number,
       entry_date: transactionEntriesTable.entry_date,
+      voucher_type: transactionEntriesTable.voucher_type,
       description: transactionEntriesTable.description,
-      ledger_id: ledgersTable.id,
-      ledger_name: ledgersTable.name,
-      opening_balance: ledgersTable.opening_balance,
-      balance_type: ledgersTable.balance_type,
+      ledger_id: transactionDetailsTable.ledger_id,
       debit_amount: transactionDetailsTable.debit_amount,
       credit_amount: transactionDetailsTable.credit_amount,
       detail_description: transactionDetailsTable.description
     })
-    .from(transactionDetailsTable)
-    .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
-    .innerJoin(ledgersTable, eq(transactionDetailsTable.ledger_id, ledgersTable.id))
-    .where(and(...conditions))
-    .orderBy(asc(ledgersTable.name), asc(transactionEntriesTable.entry_date))
-    .execute();
+      .from(transactionDetailsTable)
+      .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+      .where(and(
+        isCurrentEntry,
+        inArray(transactionDetailsTable.ledger_id, selectedIds),
+        gte(transactionEntriesTable.entry_date, input.start_date),
+        lte(transactionEntriesTable.entry_date, input.end_date)
+      ))
+      .orderBy(asc(transactionEntriesTable.entry_date), asc(transactionEntriesTable.id), asc(transactionDetailsTable.id))
+      .execute();
 
-    return results.map(result => ({
-      entry_id: result.entry_id,
-      entry_number: result.entry_number,
-      entry_date: result.entry_date,
-      description: result.description,
-      ledger_id: result.ledger_id,
-      ledger_name: result.ledger_name,
-      opening_balance: parseFloat(result.opening_balance),
-      balance_type: result.balance_type,
-      debit_amount: parseFloat(result.debit_amount),
-      credit_amount: parseFloat(result.credit_amount),
-      detail_description: result.detail_description
-    }));
+    // Ledgers on the other lines of each voucher
+    const entryIds = [...new Set(postings.map(posting => posting.entry_id))];
+    const voucherLines = entryIds.length === 0 ? [] : await db.select({
+      entry_id: transactionDetailsTable.entry_id,
+      ledger_id: transactionDetailsTable.ledger_id
+    })
+      .from(transactionDetailsTable)
+      .where(inArray(transactionDetailsTable.entry_id, entryIds))
+      .orderBy(asc(transactionDetailsTable.id))
+      .execute();
+
+    const ledgersByEntry = new Map<number, number[]>();
+    voucherLines.forEach(line => {
+      const entryLedgers = ledgersByEntry.get(line.entry_id) ?? [];
+      if (!entryLedgers.includes(line.ledger_id)) {
+        entryLedgers.push(line.ledger_id);
+      }
+      ledgersByEntry.set(line.entry_id, entryLedgers);
+    });
+    const ledgerNames = new Map(ledgers.map(ledger => [ledger.id, ledger.name]));
+
+    const postingsByLedger = new Map<number, typeof postings>();
+    postings.forEach(posting => {
+      postingsByLedger.set(posting.ledger_id, [...(postingsByLedger.get(posting.ledger_id) ?? []), posting]);
+    });
+
+    const openings = await getOpeningBalancesAt(db, input.start_date);
+
+    const statements = selected.map((ledger): LedgerStatement => {
+      const opening = openings.get(ledger.id) ?? ZERO_MONEY;
+      const openingBalance = fromNetBalance(opening, ledger.balance_type);
+      let nextBoundary = 0;
+
+      let balance = opening;
+      let balanceType = openingBalance.balance_type;
+      let totalDebit = ZERO_MONEY;
+      let totalCredit = ZERO_MONEY;
+      const periods: LedgerStatementPeriod[] = [];
+      let current: { start: Date; debit: Money; credit: Money; lines: LedgerStatementLine[] } | null = null;
+
+      const closePeriod = () => {
+        if (current === null) return;
+        const closing = fromNetBalance(balance, balanceType);
+        periods.push({
+          period_start: current.start,
+          period_end: periodEndOf(current.start, input.period),
+          lines: input.ledger_summary ? [] : current.lines,
+          total_debit: moneyToNumber(current.debit),
+          total_credit: moneyToNumber(current.credit),
+          closing_balance: moneyToNumber(closing.amount),
+          closing_balance_type: closing.balance_type
+        });
+      };
+
+      // Enters every financial year starting on or before the date
+      const crossYearsUpTo = (date: Date) => {
+        while (nextBoundary < yearBoundaries.length && yearBoundaries[nextBoundary].start_date <= date) {
+          balance = yearBoundaries[nextBoundary].openings.get(ledger.id) ?? ZERO_MONEY;
+          nextBoundary++;
+        }
+      };
+
+      (postingsByLedger.get(ledger.id) ?? []).forEach(posting => {
+        const start = periodStartOf(posting.entry_date, input.period);
+        if (current === null || current.start.getTime() !== start.getTime()) {
+          closePeriod();
+          current = { start, debit: ZERO_MONEY, credit: ZERO_MONEY, lines: [] };
+        }
+        crossYearsUpTo(posting.entry_date);
+
+        const debit = parseMoney(posting.debit_amount);
+        const credit = parseMoney(posting.credit_amount);
+        balance += debit - credit;
+        balanceType = fromNetBalance(balance, balanceType).balance_type;
+        current.debit += debit;
+        current.credit += credit;
+        totalDebit += debit;
+        totalCredit += credit;
+
+        const contraLedgerIds = (ledgersByEntry.get(posting.entry_id) ?? []).filter(ledgerId => ledgerId !== ledger.id);
+        current.lines.push({
+          entry_id: posting.entry_id,
+          entry_number: posting.entry_number,
+          entry_date: posting.entry_date,
+          voucher_type: posting.voucher_type,
+          description: posting.detail_description || posting.description,
+          contra_ledger_ids: contraLedgerIds,
+          contra_ledgers: contraLedgerIds.map(ledgerId => ledgerNames.get(ledgerId) ?? ''),
+          debit_amount: moneyToNumber(debit),
+          credit_amount: moneyToNumber(credit),
+          balance: moneyToNumber(absMoney(balance)),
+          balance_type: balanceType
+        });
+      });
+      closePeriod();
+      crossYearsUpTo(input.end_date);
+
+      const closing = fromNetBalance(balance, balanceType);
+      return {
+        ledger_id: ledger.id,
+        ledger_name: ledger.name,
+        opening_balance: moneyToNumber(openingBalance.amount),
+        opening_balance_type: openingBalance.balance_type,
+        periods,
+        total_debit: moneyToNumber(totalDebit),
+        total_credit: moneyToNumber(totalCredit),
+        closing_balance: moneyToNumber(closing.amount),
+        closing_balance_type: closing.balance_type
+      };
+    });
+
+    return {
+      start_date: input.start_date,
+      end_date: input.end_date,
+      period: input.period,
+      ledgers: input.ledger_id !== undefined
+        ? statements
+        : statements.filter(statement => statement.opening_balance !== 0 || statement.periods.length > 0)
+    };
   } catch (error) {
     console.error('Ledger report generation failed:', error);
     throw error;
   }
 };
 
-export const getTrialBalance = async (input: TrialBalanceInput): Promise<any[]> => {
+// Statement of account of a contact: the ledger statements of its linked
+// ledgers merged into one, with a running balance from their combined
+// opening balance
+export const getContactStatement = async (input: ContactStatementInput): Promise<ContactStatement> => {
   try {
-    const results = await db.select({
-      ledger_id: ledgersTable.id,
-      ledger_name: ledgersTable.name,
-      opening_balance: ledgersTable.opening_balance,
-      balance_type: ledgersTable.balance_type,
-      total_debit: sum(transactionDetailsTable.debit_amount),
-      total_credit: sum(transactionDetailsTable.credit_amount)
-    })
-    .from(ledgersTable)
-    .leftJoin(transactionDetailsTable, eq(ledgersTable.id, transactionDetailsTable.ledger_id))
-    .leftJoin(transactionEntriesTable, and(
-      eq(transactionDetailsTable.entry_id, transactionEntriesTable.id),
-      lte(transactionEntriesTable.entry_date, input.as_on_date)
-    ))
-    .groupBy(ledgersTable.id, ledgersTable.name, ledgersTable.opening_balance, ledgersTable.balance_type)
-    .orderBy(asc(ledgersTable.name))
-    .execute();
+    const contacts = await db.select()
+      .from(contactsTable)
+      .where(eq(contactsTable.id, input.contact_id))
+      .execute();
 
-    return results.map(result => {
-      const openingBalance = parseFloat(result.opening_balance);
-      const totalDebit = parseFloat(result.total_debit || '0');
-      const totalCredit = parseFloat(result.total_credit || '0');
-      
-      // Calculate closing balance based on opening balance type
-      let closingBalance = 0;
-      if (result.balance_type === 'debit') {
-        closingBalance = openingBalance + totalDebit - totalCredit;
-      } else {
-        closingBalance = openingBalance + totalCredit - totalDebit;
+    if (contacts.length === 0) {
+      throw new Error('Contact not found');
+    }
+
+    const contact = contacts[0];
+    const report = await getLedgerReport({
+      contact_id: contact.id,
+      start_date: input.start_date,
+      end_date: input.end_date,
+      period: 'daily',
+      ledger_summary: false
+    });
+
+    const ownLedgers = new Set(report.ledgers.map(ledger => ledger.ledger_id));
+    const opening = report.ledgers.reduce(
+      (total, ledger) => total + toNetBalance(parseMoney(ledger.opening_balance), ledger.opening_balance_type),
+      ZERO_MONEY
+    );
+    const openingBalance = fromNetBalance(opening, contact.contact_type === 'supplier' ? 'credit' : 'debit');
+
+    // Lines of one voucher on several of the contact's ledgers are combined
+    const postings = report.ledgers
+      .flatMap(ledger => ledger.periods.flatMap(period => period.lines))
+      .sort((a, b) => a.entry_date.getTime() - b.entry_date.getTime() || a.entry_id - b.entry_id);
+    const vouchers: { line: LedgerStatementLine; debit: Money; credit: Money }[] = [];
+    postings.forEach(posting => {
+      let voucher = vouchers[vouchers.length - 1];
+      if (voucher?.line.entry_id !== posting.entry_id) {
+        voucher = { line: { ...posting, contra_ledger_ids: [], contra_ledgers: [] }, debit: ZERO_MONEY, credit: ZERO_MONEY };
+        vouchers.push(voucher);
       }
 
+      voucher.debit += parseMoney(posting.debit_amount);
+      voucher.credit += parseMoney(posting.credit_amount);
+      posting.contra_ledger_ids.forEach((ledgerId, index) => {
+        if (!ownLedgers.has(ledgerId) && !voucher.line.contra_ledger_ids.includes(ledgerId)) {
+          voucher.line.contra_ledger_ids.push(ledgerId);
+          voucher.line.contra_ledgers.push(posting.contra_ledgers[index]);
+        }
+      });
+    });
+
+    let balance = opening;
+    let balanceType = openingBalance.balance_type;
+    const lines = vouchers.map(({ line, debit, credit }): LedgerStatementLine => {
+      balance += debit - credit;
+      balanceType = fromNetBalance(balance, balanceType).balance_type;
       return {
-        ledger_id: result.ledger_id,
-        ledger_name: result.ledger_name,
-        opening_balance: openingBalance,
-        balance_type: result.balance_type,
-        total_debit: totalDebit,
-        total_credit: totalCredit,
-        closing_balance: Math.abs(closingBalance),
-        closing_balance_type: closingBalance >= 0 ? result.balance_type : (result.balance_type === 'debit' ? 'credit' : 'debit')
+        ...line,
+        debit_amount: moneyToNumber(debit),
+        credit_amount: moneyToNumber(credit),
+        balance: moneyToNumber(absMoney(balance)),
+        balance_type: balanceType
       };
     });
+
+    const closing = fromNetBalance(balance, balanceType);
+    return {
+      contact,
+      start_date: input.start_date,
+      end_date: input.end_date,
+      ledger_names: report.ledgers.map(ledger => ledger.ledger_name),
+      opening_balance: moneyToNumber(openingBalance.amount),
+      opening_balance_type: openingBalance.balance_type,
+      lines,
+      total_debit: moneyToNumber(vouchers.reduce((total, voucher) => total + voucher.debit, ZERO_MONEY)),
+      total_credit: moneyToNumber(vouchers.reduce((total, voucher) => total + voucher.credit, ZERO_MONEY)),
+      closing_balance: moneyToNumber(closing.amount),
+      closing_balance_type: closing.balance_type
+    };
+  } catch (error) {
+    console.error('Contact statement generation failed:', error);
+    throw error;
+  }
+};
+
+// Opening balance, postings and ledger details of every ledger for a
+// period. Without a start date the period starts with the financial year
+// containing the end date.
+const getLedgerPeriodBalances = async (startDate: Date | undefined, endDate: Date) => {
+  let openings: Map<number, Money>;
+  let entryConditions: SQL<unknown>[];
+  let periodStart: Date | null = startDate ?? null;
+
+  if (startDate) {
+    await assertSingleFinancialYear(startDate, endDate);
+    openings = await getOpeningBalancesAt(db, startDate);
+    entryConditions = [
+      gte(transactionEntriesTable.entry_date, startDate),
+      lte(transactionEntriesTable.entry_date, endDate)
+    ];
+  } else {
+    const year = await findFinancialYear(db, endDate);
+    periodStart = year?.start_date ?? null;
+    ({ openings, entryConditions } = await getYearToDate(db, endDate));
+  }
+
+  const [ledgers, postings] = await Promise.all([
+    db.select({
+      id: ledgersTable.id,
+      name: ledgersTable.name,
+      group_id: ledgersTable.group_id,
+      balance_type: ledgersTable.balance_type
+    })
+      .from(ledgersTable)
+      .orderBy(asc(ledgersTable.name))
+      .execute(),
+    getPostingTotals(db, entryConditions)
+  ]);
+
+  return {
+    start_date: periodStart,
+    ledgers: ledgers.map(ledger => {
+      const posted = postings.get(ledger.id) ?? { debit: ZERO_MONEY, credit: ZERO_MONEY };
+      return {
+        ...ledger,
+        opening: openings.get(ledger.id) ?? ZERO_MONEY,
+        debit: posted.debit,
+        credit: posted.credit
+      };
+    })
+  };
+};
+
+// Balances are shown on the side they fall, defaulting to the given side
+const toTrialBalanceAmounts = (opening: Money, debit: Money, credit: Money, zeroBalanceType: 'debit' | 'credit'): TrialBalanceAmounts => {
+  const openingBalance = fromNetBalance(opening, zeroBalanceType);
+  const closingBalance = fromNetBalance(opening + debit - credit, openingBalance.balance_type);
+
+  return {
+    opening_balance: moneyToNumber(openingBalance.amount),
+    balance_type: openingBalance.balance_type,
+    total_debit: moneyToNumber(debit),
+    total_credit: moneyToNumber(credit),
+    closing_balance: moneyToNumber(closingBalance.amount),
+    closing_balance_type: closingBalance.balance_type
+  };
+};
+
+export const getTrialBalance = async (input: TrialBalanceInput): Promise<TrialBalance> => {
+  try {
+    const { ledgers } = await getLedgerPeriodBalances(undefined, input.as_on_date);
+
+    return ledgers.map(ledger => ({
+      ledger_id: ledger.id,
+      ledger_name: ledger.name,
+      ...toTrialBalanceAmounts(ledger.opening, ledger.debit, ledger.credit, ledger.balance_type)
+    }));
   } catch (error) {
     console.error('Trial balance generation failed:', error);
     throw error;
   }
 };
 
-export const getProfitAndLoss = async (input: { start_date: Date; end_date: Date }): Promise<any> => {
+// Trial balance arranged by the group hierarchy with a subtotal on every
+// group line. Hiding zero balances leaves out ledgers with no opening
+// balance and no postings in the period, and groups left empty by that.
+export const getGroupedTrialBalance = async (input: GroupedTrialBalanceInput): Promise<GroupedTrialBalance> => {
   try {
-    const results = await db.select({
-      ledger_id: ledgersTable.id,
-      ledger_name: ledgersTable.name,
-      group_name: groupsTable.name,
-      total_debit: sum(transactionDetailsTable.debit_amount),
-      total_credit: sum(transactionDetailsTable.credit_amount)
-    })
-    .from(ledgersTable)
-    .innerJoin(groupsTable, eq(ledgersTable.group_id, groupsTable.id))
-    .leftJoin(transactionDetailsTable, eq(ledgersTable.id, transactionDetailsTable.ledger_id))
-    .leftJoin(transactionEntriesTable, and(
-      eq(transactionDetailsTable.entry_id, transactionEntriesTable.id),
+    const [{ start_date, ledgers }, groups] = await Promise.all([
+      getLedgerPeriodBalances(input.start_date, input.end_date),
+      db.select().from(groupsTable).orderBy(asc(groupsTable.name)).execute()
+    ]);
+
+    interface Subtotal {
+      opening: Money;
+      debit: Money;
+      credit: Money;
+      lineCount: number;
+    }
+
+    const ledgersByGroup = new Map<number, typeof ledgers>();
+    ledgers.forEach(ledger => {
+      const isZero = ledger.opening === ZERO_MONEY && ledger.debit === ZERO_MONEY && ledger.credit === ZERO_MONEY;
+      if (input.hide_zero_balances && isZero) return;
+      ledgersByGroup.set(ledger.group_id, [...(ledgersByGroup.get(ledger.group_id) ?? []), ledger]);
+    });
+
+    const tree = mapGroupTree(groups, (group, children: { line: TrialBalanceGroupLine; subtotal: Subtotal }[]) => {
+      const groupLedgers = ledgersByGroup.get(group.id) ?? [];
+      const subtotal: Subtotal = { opening: ZERO_MONEY, debit: ZERO_MONEY, credit: ZERO_MONEY, lineCount: groupLedgers.length };
+
+      groupLedgers.forEach(ledger => {
+        subtotal.opening += ledger.opening;
+        subtotal.debit += ledger.debit;
+        subtotal.credit += ledger.credit;
+      });
+
+      const shownChildren = children.filter(child => !input.hide_zero_balances || child.subtotal.lineCount > 0);
+      shownChildren.forEach(child => {
+        subtotal.opening += child.subtotal.opening;
+        subtotal.debit += child.subtotal.debit;
+        subtotal.credit += child.subtotal.credit;
+        subtotal.lineCount += child.subtotal.lineCount;
+      });
+
+      return {
+        line: {
+          group_id: group.id,
+          group_name: group.name,
+          ...toTrialBalanceAmounts(subtotal.opening, subtotal.debit, subtotal.credit, 'debit'),
+          ledgers: groupLedgers.map(ledger => ({
+            ledger_id: ledger.id,
+            ledger_name: ledger.name,
+            ...toTrialBalanceAmounts(ledger.opening, ledger.debit, ledger.credit, ledger.balance_type)
+          })),
+          children: shownChildren.map(child => child.line)
+        },
+        subtotal
+      };
+    });
+
+    // Grand totals come from every ledger, so a ledger outside the tree
+    // still shows up as a difference
+    const totals = {
+      opening_debit: ZERO_MONEY,
+      opening_credit: ZERO_MONEY,
+      total_debit: ZERO_MONEY,
+      total_credit: ZERO_MONEY,
+      closing_debit: ZERO_MONEY,
+      closing_credit: ZERO_MONEY
+    };
+    ledgers.forEach(ledger => {
+      const closing = ledger.opening + ledger.debit - ledger.credit;
+      if (ledger.opening > 0n) totals.opening_debit += ledger.opening;
+      if (ledger.opening < 0n) totals.opening_credit -= ledger.opening;
+      if (closing > 0n) totals.closing_debit += closing;
+      if (closing < 0n) totals.closing_credit -= closing;
+      totals.total_debit += ledger.debit;
+      totals.total_credit += ledger.credit;
+    });
+
+    return {
+      start_date,
+      end_date: input.end_date,
+      groups: tree
+        .filter(built => !input.hide_zero_balances || built.subtotal.lineCount > 0)
+        .map(built => built.line),
+      totals: {
+        opening_debit: moneyToNumber(totals.opening_debit),
+        opening_credit: moneyToNumber(totals.opening_credit),
+        total_debit: moneyToNumber(totals.total_debit),
+        total_credit: moneyToNumber(totals.total_credit),
+        closing_debit: moneyToNumber(totals.closing_debit),
+        closing_credit: moneyToNumber(totals.closing_credit)
+      },
+      opening_difference: moneyToNumber(totals.opening_debit - totals.opening_credit),
+      closing_difference: moneyToNumber(totals.closing_debit - totals.closing_credit)
+    };
+  } catch (error) {
+    console.error('Grouped trial balance generation failed:', error);
+    throw error;
+  }
+};
+
+// Only ledgers under income and expense groups make up the profit and loss
+// statement. Income is shown net of debits and expenses net of credits, so a
+// return posted against a sales ledger reduces income.
+export const getProfitAndLoss = async (input: ProfitAndLossInput): Promise<ProfitAndLoss> => {
+  try {
+    const details = postedDetails([
       gte(transactionEntriesTable.entry_date, input.start_date),
       lte(transactionEntriesTable.entry_date, input.end_date)
-    ))
-    .groupBy(ledgersTable.id, ledgersTable.name, groupsTable.name)
-    .orderBy(asc(groupsTable.name), asc(ledgersTable.name))
-    .execute();
+    ]);
 
-    const income: any[] = [];
-    const expenses: any[] = [];
-    let totalIncome = 0;
-    let totalExpenses = 0;
+    const [groups, results] = await Promise.all([
+      db.select().from(groupsTable).execute(),
+      db.select({
+        ledger_id: ledgersTable.id,
+        ledger_name: ledgersTable.name,
+        group_id: groupsTable.id,
+        group_name: groupsTable.name,
+        total_debit: sum(details.debit_amount),
+        total_credit: sum(details.credit_amount)
+      })
+      .from(ledgersTable)
+      .innerJoin(groupsTable, eq(ledgersTable.group_id, groupsTable.id))
+      .leftJoin(details, eq(ledgersTable.id, details.ledger_id))
+      .groupBy(ledgersTable.id, ledgersTable.name, groupsTable.id, groupsTable.name)
+      .orderBy(asc(groupsTable.name), asc(ledgersTable.name))
+      .execute()
+    ]);
+    const natures = resolveGroupNatures(groups);
+
+    const income: StatementLine[] = [];
+    const expenses: StatementLine[] = [];
+    let totalIncome: Money = ZERO_MONEY;
+    let totalExpenses: Money = ZERO_MONEY;
 
     results.forEach(result => {
-      const totalDebit = parseFloat(result.total_debit || '0');
-      const totalCredit = parseFloat(result.total_credit || '0');
-      const netAmount = totalCredit - totalDebit;
+      const nature = natures.get(result.group_id);
+      const netCredit = parseMoney(result.total_credit) - parseMoney(result.total_debit);
 
+      if (netCredit === ZERO_MONEY || (nature !== 'income' && nature !== 'expense')) {
+        return;
+      }
+
+      const amount = nature === 'income' ? netCredit : -netCredit;
       const ledgerData = {
         ledger_id: result.ledger_id,
         ledger_name: result.ledger_name,
         group_name: result.group_name,
-        amount: Math.abs(netAmount)
+        amount: moneyToNumber(amount)
       };
 
-      // Income groups typically have credit balances
-      if (netAmount > 0) {
+      if (nature === 'income') {
         income.push(ledgerData);
-        totalIncome += Math.abs(netAmount);
-      } else if (netAmount < 0) {
+        totalIncome += amount;
+      } else {
         expenses.push(ledgerData);
-        totalExpenses += Math.abs(netAmount);
+        totalExpenses += amount;
       }
     });
 
@@ -203,10 +764,10 @@ export const getProfitAndLoss = async (input: { start_date: Date; end_date: Date
       },
       income,
       expenses,
-      total_income: totalIncome,
-      total_expenses: totalExpenses,
-      net_profit: netProfit,
-      net_loss: netProfit < 0 ? Math.abs(netProfit) : 0
+      total_income: moneyToNumber(totalIncome),
+      total_expenses: moneyToNumber(totalExpenses),
+      net_profit: moneyToNumber(netProfit),
+      net_loss: netProfit < 0n ? moneyToNumber(absMoney(netProfit)) : 0
     };
   } catch (error) {
     console.error('P&L report generation failed:', error);
@@ -214,80 +775,403 @@ export const getProfitAndLoss = async (input: { start_date: Date; end_date: Date
   }
 };
 
-export const getBalanceSheet = async (input: { as_on_date: Date }): Promise<any> => {
+// Ledgers are placed by the nature of their group. Income and expense
+// balances not yet transferred by closing a year show as retained profit,
+// and opening balances that do not net to zero show as an opening balance
+// difference, both on the equity side, so assets equal liabilities plus
+// equity. Ledgers whose group has no nature are listed as unclassified and
+// make up any remaining difference.
+export const getBalanceSheet = async (input: BalanceSheetInput): Promise<BalanceSheet> => {
   try {
-    const results = await db.select({
-      ledger_id: ledgersTable.id,
-      ledger_name: ledgersTable.name,
-      group_name: groupsTable.name,
-      opening_balance: ledgersTable.opening_balance,
-      balance_type: ledgersTable.balance_type,
-      total_debit: sum(transactionDetailsTable.debit_amount),
-      total_credit: sum(transactionDetailsTable.credit_amount)
-    })
-    .from(ledgersTable)
-    .innerJoin(groupsTable, eq(ledgersTable.group_id, groupsTable.id))
-    .leftJoin(transactionDetailsTable, eq(ledgersTable.id, transactionDetailsTable.ledger_id))
-    .leftJoin(transactionEntriesTable, and(
-      eq(transactionDetailsTable.entry_id, transactionEntriesTable.id),
-      lte(transactionEntriesTable.entry_date, input.as_on_date)
-    ))
-    .groupBy(ledgersTable.id, ledgersTable.name, groupsTable.name, ledgersTable.opening_balance, ledgersTable.balance_type)
-    .orderBy(asc(groupsTable.name), asc(ledgersTable.name))
-    .execute();
+    const { openings, details } = await getBalancesFromYearStart(input.as_on_date);
 
-    const assets: any[] = [];
-    const liabilities: any[] = [];
-    let totalAssets = 0;
-    let totalLiabilities = 0;
+    const [groups, results] = await Promise.all([
+      db.select().from(groupsTable).execute(),
+      db.select({
+        ledger_id: ledgersTable.id,
+        ledger_name: ledgersTable.name,
+        balance_type: ledgersTable.balance_type,
+        group_id: groupsTable.id,
+        group_name: groupsTable.name,
+        total_debit: sum(details.debit_amount),
+        total_credit: sum(details.credit_amount)
+      })
+      .from(ledgersTable)
+      .innerJoin(groupsTable, eq(ledgersTable.group_id, groupsTable.id))
+      .leftJoin(details, eq(ledgersTable.id, details.ledger_id))
+      .groupBy(ledgersTable.id, ledgersTable.name, ledgersTable.balance_type, groupsTable.id, groupsTable.name)
+      .orderBy(asc(groupsTable.name), asc(ledgersTable.name))
+      .execute()
+    ]);
+    const natures = resolveGroupNatures(groups);
+
+    const assets: StatementLine[] = [];
+    const liabilities: StatementLine[] = [];
+    const equity: StatementLine[] = [];
+    const unclassified: UnclassifiedStatementLine[] = [];
+    let totalAssets: Money = ZERO_MONEY;
+    let totalLiabilities: Money = ZERO_MONEY;
+    let totalEquity: Money = ZERO_MONEY;
+    let retainedProfit: Money = ZERO_MONEY;
 
     results.forEach(result => {
-      const openingBalance = parseFloat(result.opening_balance);
-      const totalDebit = parseFloat(result.total_debit || '0');
-      const totalCredit = parseFloat(result.total_credit || '0');
-      
-      let closingBalance = 0;
-      if (result.balance_type === 'debit') {
-        closingBalance = openingBalance + totalDebit - totalCredit;
-      } else {
-        closingBalance = openingBalance + totalCredit - totalDebit;
+      const totalDebit = parseMoney(result.total_debit);
+      const totalCredit = parseMoney(result.total_credit);
+      const closingBalance = (openings.get(result.ledger_id) ?? ZERO_MONEY) + totalDebit - totalCredit;
+
+      if (closingBalance === ZERO_MONEY) { // Only include ledgers with a balance
+        return;
       }
 
-      if (Math.abs(closingBalance) > 0.01) { // Only include ledgers with significant balances
-        const ledgerData = {
-          ledger_id: result.ledger_id,
-          ledger_name: result.ledger_name,
-          group_name: result.group_name,
-          amount: Math.abs(closingBalance)
-        };
+      const ledgerData = {
+        ledger_id: result.ledger_id,
+        ledger_name: result.ledger_name,
+        group_name: result.group_name
+      };
 
-        // Assets typically have debit balances, liabilities have credit balances
-        if (closingBalance > 0 && result.balance_type === 'debit') {
-          assets.push(ledgerData);
-          totalAssets += Math.abs(closingBalance);
-        } else if (closingBalance > 0 && result.balance_type === 'credit') {
-          liabilities.push(ledgerData);
-          totalLiabilities += Math.abs(closingBalance);
-        } else if (closingBalance < 0 && result.balance_type === 'debit') {
-          liabilities.push(ledgerData);
-          totalLiabilities += Math.abs(closingBalance);
-        } else if (closingBalance < 0 && result.balance_type === 'credit') {
-          assets.push(ledgerData);
-          totalAssets += Math.abs(closingBalance);
+      // Assets are shown as debit balances, the other sides as credit balances
+      switch (natures.get(result.group_id)) {
+        case 'asset':
+          assets.push({ ...ledgerData, amount: moneyToNumber(closingBalance) });
+          totalAssets += closingBalance;
+          break;
+        case 'liability':
+          liabilities.push({ ...ledgerData, amount: moneyToNumber(-closingBalance) });
+          totalLiabilities -= closingBalance;
+          break;
+        case 'equity':
+          equity.push({ ...ledgerData, amount: moneyToNumber(-closingBalance) });
+          totalEquity -= closingBalance;
+          break;
+        case 'income':
+        case 'expense':
+          retainedProfit -= closingBalance;
+          break;
+        default: {
+          const balance = fromNetBalance(closingBalance, result.balance_type);
+          unclassified.push({ ...ledgerData, amount: moneyToNumber(balance.amount), balance_type: balance.balance_type });
         }
       }
     });
 
+    // Postings always balance, so any imbalance left in the books comes from
+    // the opening balances
+    let openingDifference: Money = ZERO_MONEY;
+    openings.forEach(opening => {
+      openingDifference += opening;
+    });
+
+    totalEquity += retainedProfit + openingDifference;
+
     return {
       as_on_date: input.as_on_date,
       assets,
       liabilities,
-      total_assets: totalAssets,
-      total_liabilities: totalLiabilities,
-      difference: totalAssets - totalLiabilities
+      equity,
+      unclassified,
+      retained_profit: moneyToNumber(retainedProfit),
+      opening_balance_difference: moneyToNumber(openingDifference),
+      total_assets: moneyToNumber(totalAssets),
+      total_liabilities: moneyToNumber(totalLiabilities),
+      total_equity: moneyToNumber(totalEquity),
+      difference: moneyToNumber(totalAssets - totalLiabilities - totalEquity)
     };
   } catch (error) {
     console.error('Balance sheet generation failed:', error);
     throw error;
   }
 };
+
+// Amounts per column with the change from the previous column. Amounts are
+// converted back to Money so the variances are exact.
+const toComparativeValues = (amounts: number[]): ComparativeValues => ({
+  amounts,
+  variances: amounts.map((amount, index) => {
+    if (index === 0) return null;
+
+    const previous = parseMoney(amounts[index - 1]);
+    const change = parseMoney(amount) - previous;
+    return {
+      amount: moneyToNumber(change),
+      // Percent to two decimal places, relative to the size of the previous amount
+      percent: previous === ZERO_MONEY ? null : Number(change * 10000n / absMoney(previous)) / 100
+    };
+  })
+});
+
+const toColumnHeaders = (input: ComparativeInput): ComparativeColumnHeader[] => input.columns.map(column => ({
+  label: column.label ?? columnLabel(column.start_date, column.end_date),
+  start_date: column.start_date,
+  end_date: column.end_date
+}));
+
+// Lines of the same ledger across the columns of a statement section, in
+// group and ledger name order. A ledger missing from a column shows zero.
+const toComparativeLines = (columns: StatementLine[][]): ComparativeLine[] => {
+  const lines = new Map<number, StatementLine>();
+  columns.forEach(column => column.forEach(line => lines.set(line.ledger_id, line)));
+
+  return [...lines.values()]
+    .sort((a, b) => a.group_name.localeCompare(b.group_name) || a.ledger_name.localeCompare(b.ledger_name))
+    .map(line => ({
+      ledger_id: line.ledger_id,
+      ledger_name: line.ledger_name,
+      group_name: line.group_name,
+      ...toComparativeValues(columns.map(column => column.find(other => other.ledger_id === line.ledger_id)?.amount ?? 0))
+    }));
+};
+
+export const getComparativeProfitAndLoss = async (input: ComparativeInput): Promise<ComparativeProfitAndLoss> => {
+  try {
+    const statements = await Promise.all(input.columns.map(column =>
+      getProfitAndLoss({ start_date: column.start_date, end_date: column.end_date })
+    ));
+
+    return {
+      columns: toColumnHeaders(input),
+      income: toComparativeLines(statements.map(statement => statement.income)),
+      expenses: toComparativeLines(statements.map(statement => statement.expenses)),
+      total_income: toComparativeValues(statements.map(statement => statement.total_income)),
+      total_expenses: toComparativeValues(statements.map(statement => statement.total_expenses)),
+      net_profit: toComparativeValues(statements.map(statement => statement.net_profit))
+    };
+  } catch (error) {
+    console.error('Comparative P&L report generation failed:', error);
+    throw error;
+  }
+};
+
+export const getComparativeBalanceSheet = async (input: ComparativeInput): Promise<ComparativeBalanceSheet> => {
+  try {
+    const sheets = await Promise.all(input.columns.map(column => getBalanceSheet({ as_on_date: column.end_date })));
+
+    return {
+      columns: toColumnHeaders(input),
+      assets: toComparativeLines(sheets.map(sheet => sheet.assets)),
+      liabilities: toComparativeLines(sheets.map(sheet => sheet.liabilities)),
+      equity: toComparativeLines(sheets.map(sheet => sheet.equity)),
+      unclassified: toComparativeLines(sheets.map(sheet => sheet.unclassified.map(line => ({
+        ...line,
+        amount: line.balance_type === 'debit' ? line.amount : -line.amount
+      })))),
+      retained_profit: toComparativeValues(sheets.map(sheet => sheet.retained_profit)),
+      opening_balance_difference: toComparativeValues(sheets.map(sheet => sheet.opening_balance_difference)),
+      total_assets: toComparativeValues(sheets.map(sheet => sheet.total_assets)),
+      total_liabilities: toComparativeValues(sheets.map(sheet => sheet.total_liabilities)),
+      total_equity: toComparativeValues(sheets.map(sheet => sheet.total_equity)),
+      difference: toComparativeValues(sheets.map(sheet => sheet.difference))
+    };
+  } catch (error) {
+    console.error('Comparative balance sheet generation failed:', error);
+    throw error;
+  }
+};
+
+export const getComparativeTrialBalance = async (input: ComparativeInput): Promise<ComparativeTrialBalance> => {
+  try {
+    const [periods, groups] = await Promise.all([
+      Promise.all(input.columns.map(column => getLedgerPeriodBalances(column.start_date, column.end_date))),
+      db.select({ id: groupsTable.id, name: groupsTable.name }).from(groupsTable).execute()
+    ]);
+    const groupNames = new Map(groups.map(group => [group.id, group.name]));
+
+    const closingDebits: Money[] = periods.map(() => ZERO_MONEY);
+    const closingCredits: Money[] = periods.map(() => ZERO_MONEY);
+    const columns = periods.map((period, index) => period.ledgers
+      .map(ledger => {
+        const closing = ledger.opening + ledger.debit - ledger.credit;
+        if (closing > 0n) closingDebits[index] += closing;
+        if (closing < 0n) closingCredits[index] -= closing;
+        return {
+          ledger_id: ledger.id,
+          ledger_name: ledger.name,
+          group_name: groupNames.get(ledger.group_id) ?? '',
+          amount: moneyToNumber(closing)
+        };
+      })
+      .filter(line => line.amount !== 0)
+    );
+
+    return {
+      columns: toColumnHeaders(input),
+      ledgers: toComparativeLines(columns),
+      closing_debit: toComparativeValues(closingDebits.map(moneyToNumber)),
+      closing_credit: toComparativeValues(closingCredits.map(moneyToNumber))
+    };
+  } catch (error) {
+    console.error('Comparative trial balance generation failed:', error);
+    throw error;
+  }
+};
+
+// Shares the amount out in proportion to the weights, giving the rounding
+// remainder to the last share so the shares add up exactly
+const prorate = (amount: Money, weights: Money[]): Money[] => {
+  const totalWeight = weights.reduce((total, weight) => total + weight, ZERO_MONEY);
+  const shares = weights.map(weight => amount * weight / totalWeight);
+  shares[shares.length - 1] += amount - shares.reduce((total, share) => total + share, ZERO_MONEY);
+  return shares;
+};
+
+// Cash and bank ledgers are the cash. The direct method shares the cash of
+// every voucher out over the ledgers on the other side and totals it by
+// their groups' cash flow activity. The indirect method starts from the net
+// profit, adjusts it by the movements of the other ledgers to arrive at the
+// operating cash flow, and takes investing and financing from the direct
+// method.
+export const getCashFlowStatement = async (input: CashFlowInput): Promise<CashFlowStatement> => {
+  try {
+    assertDateRange(input.start_date, input.end_date);
+
+    const [groups, ledgers, postings, openings] = await Promise.all([
+      db.select().from(groupsTable).orderBy(asc(groupsTable.name)).execute(),
+      db.select({
+        id: ledgersTable.id,
+        group_id: ledgersTable.group_id,
+        ledger_type: ledgersTable.ledger_type
+      })
+        .from(ledgersTable)
+        .execute(),
+      db.select({
+        entry_id: transactionDetailsTable.entry_id,
+        ledger_id: transactionDetailsTable.ledger_id,
+        debit_amount: transactionDetailsTable.debit_amount,
+        credit_amount: transactionDetailsTable.credit_amount
+      })
+        .from(transactionDetailsTable)
+        .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+        .where(and(
+          isCurrentEntry,
+          gte(transactionEntriesTable.entry_date, input.start_date),
+          lte(transactionEntriesTable.entry_date, input.end_date)
+        ))
+        .orderBy(asc(transactionDetailsTable.entry_id), asc(transactionDetailsTable.id))
+        .execute(),
+      getOpeningBalancesAt(db, input.start_date)
+    ]);
+
+    const natures = resolveGroupNatures(groups);
+    const activities = resolveCashFlowActivities(groups);
+    const ledgersById = new Map(ledgers.map(ledger => [ledger.id, ledger]));
+    const isCash = (ledgerId: number) => {
+      const ledgerType = ledgersById.get(ledgerId)?.ledger_type;
+      return ledgerType === 'cash' || ledgerType === 'bank';
+    };
+
+    let openingCash = ZERO_MONEY;
+    openings.forEach((opening, ledgerId) => {
+      if (isCash(ledgerId)) openingCash += opening;
+    });
+
+    // Credits minus debits of the non-cash ledgers of each voucher
+    const vouchers = new Map<number, { cash: Money; others: Map<number, Money> }>();
+    postings.forEach(posting => {
+      const voucher = vouchers.get(posting.entry_id) ?? { cash: ZERO_MONEY, others: new Map<number, Money>() };
+      const net = parseMoney(posting.debit_amount) - parseMoney(posting.credit_amount);
+      if (isCash(posting.ledger_id)) {
+        voucher.cash += net;
+      } else {
+        voucher.others.set(posting.ledger_id, (voucher.others.get(posting.ledger_id) ?? ZERO_MONEY) - net);
+      }
+      vouchers.set(posting.entry_id, voucher);
+    });
+
+    const receipts = new Map<number, Money>();
+    const payments = new Map<number, Money>();
+    const movements = new Map<number, Money>();
+    let netChange = ZERO_MONEY;
+
+    vouchers.forEach(voucher => {
+      netChange += voucher.cash;
+
+      voucher.others.forEach((movement, ledgerId) => {
+        const groupId = ledgersById.get(ledgerId)!.group_id;
+        movements.set(groupId, (movements.get(groupId) ?? ZERO_MONEY) + movement);
+      });
+
+      if (voucher.cash === ZERO_MONEY) return;
+
+      // Cash received is shared over the ledgers credited, cash paid over the ledgers debited
+      const received = voucher.cash > 0n;
+      const counterparts = [...voucher.others].filter(([, movement]) => received ? movement > 0n : movement < 0n);
+      const shares = prorate(absMoney(voucher.cash), counterparts.map(([, movement]) => absMoney(movement)));
+      const totals = received ? receipts : payments;
+      counterparts.forEach(([ledgerId], index) => {
+        const groupId = ledgersById.get(ledgerId)!.group_id;
+        totals.set(groupId, (totals.get(groupId) ?? ZERO_MONEY) + shares[index]);
+      });
+    });
+
+    const cashNet = (groupId: number) => (receipts.get(groupId) ?? ZERO_MONEY) - (payments.get(groupId) ?? ZERO_MONEY);
+    const activityTotals: Record<CashFlowActivity, Money> = { operating: ZERO_MONEY, investing: ZERO_MONEY, financing: ZERO_MONEY };
+
+    const direct = (['operating', 'investing', 'financing'] as const).map((activity): CashFlowSection => {
+      const lines = groups
+        .filter(group => activities.get(group.id) === activity && (receipts.has(group.id) || payments.has(group.id)))
+        .map(group => {
+          activityTotals[activity] += cashNet(group.id);
+          return {
+            group_id: group.id,
+            group_name: group.name,
+            receipts: moneyToNumber(receipts.get(group.id) ?? ZERO_MONEY),
+            payments: moneyToNumber(payments.get(group.id) ?? ZERO_MONEY),
+            net: moneyToNumber(cashNet(group.id))
+          };
+        });
+
+      return { activity, lines, total: moneyToNumber(activityTotals[activity]) };
+    });
+
+    // Net profit covers the income and expense groups; every other group's
+    // movement either is a working capital change or, for investing and
+    // financing groups, differs from their cash by a non-cash movement
+    let netProfit = ZERO_MONEY;
+    let operatingTotal = ZERO_MONEY;
+    const adjustments: CashFlowAdjustment[] = [];
+
+    groups.forEach(group => {
+      const nature = natures.get(group.id);
+      const isProfitAndLoss = nature === 'income' || nature === 'expense';
+      const movement = movements.get(group.id) ?? ZERO_MONEY;
+
+      if (isProfitAndLoss) {
+        netProfit += movement;
+      }
+
+      let amount: Money;
+      let kind: CashFlowAdjustment['kind'];
+      if (activities.get(group.id) === 'operating') {
+        if (isProfitAndLoss) return;
+        amount = movement;
+        kind = 'working_capital';
+      } else {
+        amount = (isProfitAndLoss ? ZERO_MONEY : movement) - cashNet(group.id);
+        kind = 'non_cash';
+      }
+
+      if (amount === ZERO_MONEY) return;
+      operatingTotal += amount;
+      adjustments.push({ group_id: group.id, group_name: group.name, kind, amount: moneyToNumber(amount) });
+    });
+    operatingTotal += netProfit;
+
+    return {
+      start_date: input.start_date,
+      end_date: input.end_date,
+      opening_cash: moneyToNumber(openingCash),
+      closing_cash: moneyToNumber(openingCash + netChange),
+      net_change: moneyToNumber(netChange),
+      direct,
+      indirect: {
+        net_profit: moneyToNumber(netProfit),
+        adjustments,
+        operating_total: moneyToNumber(operatingTotal),
+        investing_total: moneyToNumber(activityTotals.investing),
+        financing_total: moneyToNumber(activityTotals.financing)
+      }
+    };
+  } catch (error) {
+    console.error('Cash flow statement generation failed:', error);
+    throw error;
+  }
+};
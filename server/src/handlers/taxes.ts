@@ -0,0 +1,701 @@
+import { db, type DbTransaction } from '../db';
+import {
+  contactsTable,
+  invoiceLinesTable,
+  invoicesTable,
+  ledgersTable,
+  taxComponentsTable,
+  taxRatesTable,
+  taxSettingsTable,
+  transactionDetailsTable,
+  transactionEntriesTable
+} from '../db/schema';
+import {
+  type CreateTaxRateInput,
+  type CreateTransactionInput,
+  type DeleteInput,
+  type ExportFile,
+  type ExportTaxReturnInput,
+  type SupplyType,
+  type TaxComponent,
+  type TaxDirection,
+  type TaxHead,
+  type TaxHeadSummary,
+  type TaxRate,
+  type TaxRateSummary,
+  type TaxSettings,
+  type TaxSummary,
+  type TaxSummaryInput,
+  type UpdateTaxRateInput,
+  type UpdateTaxSettingsInput,
+  type VoucherType
+} from '../schema';
+import { and, asc, eq, gte, inArray, isNotNull, lte, ne, or } from 'drizzle-orm';
+import { type Money, ZERO_MONEY, parseMoney, formatMoney, moneyToNumber, sumMoney } from '../money';
+import {
+  type TaxableDetail,
+  type TaxDetail,
+  chargedComponents,
+  gstinStateCode,
+  isGstin,
+  supplyTypeFor,
+  supplyTypeLabels,
+  taxDirections,
+  taxHeadLabels,
+  taxHeads,
+  voucherTaxLines
+} from '../taxes';
+import { isCurrentEntry } from './balances';
+
+type Executor = typeof db | DbTransaction;
+
+// A GSTIN carries the state it is registered in, which fills in the state
+// code or has to match it
+export const resolveStateCode = (taxId: string | null, stateCode: string | null): string | null => {
+  const registeredState = gstinStateCode(taxId);
+  if (registeredState !== null && stateCode !== null && stateCode !== registeredState) {
+    throw new Error(`GSTIN ${taxId} is registered in state ${registeredState}, not ${stateCode}`);
+  }
+
+  return stateCode ?? registeredState;
+};
+
+// The settings row is created on first use so a fresh database needs no seeding
+const ensureTaxSettings = async (executor: Executor) => {
+  await executor.insert(taxSettingsTable)
+    .values({ id: 1 })
+    .onConflictDoNothing()
+    .execute();
+
+  const rows = await executor.select().from(taxSettingsTable).where(eq(taxSettingsTable.id, 1)).execute();
+  return rows[0];
+};
+
+export const getTaxSettings = async (): Promise<TaxSettings> => {
+  try {
+    return await ensureTaxSettings(db);
+  } catch (error) {
+    console.error('Failed to get tax settings:', error);
+    throw error;
+  }
+};
+
+export const updateTaxSettings = async (input: UpdateTaxSettingsInput): Promise<TaxSettings> => {
+  try {
+    const existing = await ensureTaxSettings(db);
+    const taxId = input.tax_id !== undefined ? input.tax_id : existing.tax_id;
+    const stateCode = input.state_code !== undefined ? input.state_code : existing.state_code;
+
+    const result = await db.update(taxSettingsTable)
+      .set({
+        tax_id: taxId,
+        state_code: resolveStateCode(taxId, stateCode),
+        updated_at: new Date()
+      })
+      .where(eq(taxSettingsTable.id, existing.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Tax settings update failed:', error);
+    throw error;
+  }
+};
+
+const toTaxComponent = (row: typeof taxComponentsTable.$inferSelect): TaxComponent => ({
+  ...row,
+  rate: moneyToNumber(parseMoney(row.rate))
+});
+
+// Tax rates with their components in tax head order, all of them or the
+// given ones
+export const loadTaxRates = async (executor: Executor, ids?: number[]): Promise<TaxRate[]> => {
+  if (ids !== undefined && ids.length === 0) {
+    return [];
+  }
+
+  const rates = await executor.select()
+    .from(taxRatesTable)
+    .where(ids !== undefined ? inArray(taxRatesTable.id, ids) : undefined)
+    .orderBy(asc(taxRatesTable.rate), asc(taxRatesTable.name))
+    .execute();
+
+  const components = rates.length === 0 ? [] : await executor.select()
+    .from(taxComponentsTable)
+    .where(inArray(taxComponentsTable.tax_rate_id, rates.map(rate => rate.id)))
+    .execute();
+
+  return rates.map(rate => ({
+    ...rate,
+    rate: moneyToNumber(parseMoney(rate.rate)),
+    components: components
+      .filter(component => component.tax_rate_id === rate.id)
+      .sort((a, b) => taxHeads.indexOf(a.head) - taxHeads.indexOf(b.head))
+      .map(toTaxComponent)
+  }));
+};
+
+const loadTaxRate = async (executor: Executor, id: number): Promise<TaxRate> => {
+  const rates = await loadTaxRates(executor, [id]);
+
+  if (rates.length === 0) {
+    throw new Error('Tax rate not found');
+  }
+
+  return rates[0];
+};
+
+// Checks that the components charged on either kind of supply add up to the
+// rate and that their ledgers exist
+const assertTaxRate = async (tx: DbTransaction, input: CreateTaxRateInput, id: number | null): Promise<void> => {
+  const duplicates = await tx.select({ id: taxRatesTable.id })
+    .from(taxRatesTable)
+    .where(id === null ? eq(taxRatesTable.name, input.name) : and(eq(taxRatesTable.name, input.name), ne(taxRatesTable.id, id)))
+    .execute();
+
+  if (duplicates.length > 0) {
+    throw new Error(`A tax rate named ${input.name} already exists`);
+  }
+
+  const heads = input.components.map(component => component.head);
+  if (new Set(heads).size !== heads.length) {
+    throw new Error('Each tax head can appear only once in a tax rate');
+  }
+
+  const rate = parseMoney(input.rate);
+  if (rate === ZERO_MONEY && input.components.length > 0) {
+    throw new Error('A tax rate of 0% has no components');
+  }
+
+  if (rate > ZERO_MONEY) {
+    for (const supplyType of Object.keys(supplyTypeLabels) as SupplyType[]) {
+      const charged = sumMoney(chargedComponents(input.components, supplyType).map(component => parseMoney(component.rate)));
+      if (charged !== rate) {
+        throw new Error(`${supplyTypeLabels[supplyType]} components add up to ${formatMoney(charged)}%, not ${formatMoney(rate)}%`);
+      }
+    }
+  }
+
+  const ledgerIds = [...new Set(input.components.flatMap(component => [component.output_ledger_id, component.input_ledger_id]))];
+  const ledgers = ledgerIds.length === 0 ? [] : await tx.select({ id: ledgersTable.id })
+    .from(ledgersTable)
+    .where(inArray(ledgersTable.id, ledgerIds))
+    .execute();
+  const missingId = ledgerIds.find(ledgerId => !ledgers.some(ledger => ledger.id === ledgerId));
+
+  if (missingId !== undefined) {
+    throw new Error(`Ledger with id ${missingId} does not exist`);
+  }
+};
+
+const componentValues = (component: CreateTaxRateInput['components'][number]) => ({
+  head: component.head,
+  rate: formatMoney(parseMoney(component.rate)),
+  output_ledger_id: component.output_ledger_id,
+  input_ledger_id: component.input_ledger_id
+});
+
+export const createTaxRate = async (input: CreateTaxRateInput): Promise<TaxRate> => {
+  try {
+    const id = await db.transaction(async (tx) => {
+      await assertTaxRate(tx, input, null);
+
+      const [taxRate] = await tx.insert(taxRatesTable)
+        .values({ name: input.name, rate: formatMoney(parseMoney(input.rate)) })
+        .returning()
+        .execute();
+
+      if (input.components.length > 0) {
+        await tx.insert(taxComponentsTable)
+          .values(input.components.map(component => ({ tax_rate_id: taxRate.id, ...componentValues(component) })))
+          .execute();
+      }
+
+      return taxRate.id;
+    });
+
+    return await loadTaxRate(db, id);
+  } catch (error) {
+    console.error('Tax rate creation failed:', error);
+    throw error;
+  }
+};
+
+export const getTaxRates = async (): Promise<TaxRate[]> => {
+  try {
+    return await loadTaxRates(db);
+  } catch (error) {
+    console.error('Failed to get tax rates:', error);
+    throw error;
+  }
+};
+
+// Posted tax lines refer to their component, so components keep their ids
+// across edits: heads still in the rate are updated in place, and heads
+// that have been posted cannot be removed
+export const updateTaxRate = async (input: UpdateTaxRateInput): Promise<TaxRate> => {
+  try {
+    await db.transaction(async (tx) => {
+      const existing = await loadTaxRate(tx, input.id);
+      await assertTaxRate(tx, input, input.id);
+
+      await tx.update(taxRatesTable)
+        .set({ name: input.name, rate: formatMoney(parseMoney(input.rate)), updated_at: new Date() })
+        .where(eq(taxRatesTable.id, input.id))
+        .execute();
+
+      for (const component of existing.components) {
+        const replacement = input.components.find(inputComponent => inputComponent.head === component.head);
+
+        if (replacement) {
+          await tx.update(taxComponentsTable)
+            .set(componentValues(replacement))
+            .where(eq(taxComponentsTable.id, component.id))
+            .execute();
+          continue;
+        }
+
+        const posted = await tx.select({ id: transactionDetailsTable.id })
+          .from(transactionDetailsTable)
+          .where(eq(transactionDetailsTable.tax_component_id, component.id))
+          .limit(1)
+          .execute();
+
+        if (posted.length > 0) {
+          throw new Error(`${taxHeadLabels[component.head]} of ${existing.name} has been posted and cannot be removed`);
+        }
+
+        await tx.delete(taxComponentsTable)
+          .where(eq(taxComponentsTable.id, component.id))
+          .execute();
+      }
+
+      const added = input.components.filter(inputComponent => !existing.components.some(component => component.head === inputComponent.head));
+      if (added.length > 0) {
+        await tx.insert(taxComponentsTable)
+          .values(added.map(component => ({ tax_rate_id: input.id, ...componentValues(component) })))
+          .execute();
+      }
+    });
+
+    return await loadTaxRate(db, input.id);
+  } catch (error) {
+    console.error('Tax rate update failed:', error);
+    throw error;
+  }
+};
+
+export const deleteTaxRate = async (input: DeleteInput): Promise<{ success: boolean }> => {
+  try {
+    await db.transaction(async (tx) => {
+      const taxRate = await loadTaxRate(tx, input.id);
+      const componentIds = taxRate.components.map(component => component.id);
+
+      const postedLines = await tx.select({ id: transactionDetailsTable.id })
+        .from(transactionDetailsTable)
+        .where(componentIds.length > 0
+          ? or(eq(transactionDetailsTable.tax_rate_id, input.id), inArray(transactionDetailsTable.tax_component_id, componentIds))
+          : eq(transactionDetailsTable.tax_rate_id, input.id))
+        .limit(1)
+        .execute();
+      const invoiceLines = await tx.select({ id: invoiceLinesTable.id })
+        .from(invoiceLinesTable)
+        .where(eq(invoiceLinesTable.tax_rate_id, input.id))
+        .limit(1)
+        .execute();
+
+      if (postedLines.length > 0 || invoiceLines.length > 0) {
+        throw new Error(`${taxRate.name} is used by vouchers or invoices and cannot be deleted`);
+      }
+
+      await tx.delete(taxComponentsTable)
+        .where(eq(taxComponentsTable.tax_rate_id, input.id))
+        .execute();
+      await tx.delete(taxRatesTable)
+        .where(eq(taxRatesTable.id, input.id))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Tax rate deletion failed:', error);
+    throw error;
+  }
+};
+
+// Place of supply of a contact: its own state, or the business's when the
+// contact's is not known
+export const contactSupplyType = async (executor: Executor, contactId: number | null): Promise<{ supply_type: SupplyType; state_code: string | null }> => {
+  const settings = await executor.select({ state_code: taxSettingsTable.state_code }).from(taxSettingsTable).execute();
+  const homeStateCode = settings[0]?.state_code ?? null;
+
+  const contacts = contactId === null ? [] : await executor.select({ state_code: contactsTable.state_code })
+    .from(contactsTable)
+    .where(eq(contactsTable.id, contactId))
+    .execute();
+  const partyStateCode = contacts[0]?.state_code ?? null;
+
+  return { supply_type: supplyTypeFor(homeStateCode, partyStateCode), state_code: partyStateCode ?? homeStateCode };
+};
+
+// The lines of a voucher followed by the tax lines of its taxed lines. The
+// place of supply is that of the contact whose ledger the voucher posts to.
+export const withVoucherTaxes = async (tx: DbTransaction, input: CreateTransactionInput): Promise<(TaxableDetail | TaxDetail)[]> => {
+  const taxRateIds = [...new Set(input.details.flatMap(detail => detail.tax_rate_id != null ? [detail.tax_rate_id] : []))];
+  if (taxRateIds.length === 0) {
+    return input.details;
+  }
+
+  const partyLedgers = await tx.select({ contact_id: ledgersTable.contact_id })
+    .from(ledgersTable)
+    .where(and(inArray(ledgersTable.id, input.details.map(detail => detail.ledger_id)), isNotNull(ledgersTable.contact_id)))
+    .execute();
+  const { supply_type } = await contactSupplyType(tx, partyLedgers[0]?.contact_id ?? null);
+
+  const taxRates = await loadTaxRates(tx, taxRateIds);
+  return [...input.details, ...voucherTaxLines(input.voucher_type, input.details, taxRates, supply_type)];
+};
+
+interface TaxedLine {
+  entry_id: number;
+  entry_number: string;
+  entry_date: Date;
+  voucher_type: VoucherType;
+  debit_amount: string;
+  credit_amount: string;
+  tax_rate_id: number | null;
+  tax_component_id: number | null;
+}
+
+// Taxed lines and tax lines of the current vouchers in the period
+const loadTaxedLines = (input: TaxSummaryInput): Promise<TaxedLine[]> => db.select({
+  entry_id: transactionEntriesTable.id,
+  entry_number: transactionEntriesTable.entry_number,
+  entry_date: transactionEntriesTable.entry_date,
+  voucher_type: transactionEntriesTable.voucher_type,
+  debit_amount: transactionDetailsTable.debit_amount,
+  credit_amount: transactionDetailsTable.credit_amount,
+  tax_rate_id: transactionDetailsTable.tax_rate_id,
+  tax_component_id: transactionDetailsTable.tax_component_id
+})
+  .from(transactionDetailsTable)
+  .innerJoin(transactionEntriesTable, eq(transactionDetailsTable.entry_id, transactionEntriesTable.id))
+  .where(and(
+    isCurrentEntry,
+    gte(transactionEntriesTable.entry_date, input.start_date),
+    lte(transactionEntriesTable.entry_date, input.end_date),
+    or(isNotNull(transactionDetailsTable.tax_rate_id), isNotNull(transactionDetailsTable.tax_component_id))
+  ))
+  .orderBy(asc(transactionEntriesTable.entry_date), asc(transactionEntriesTable.id), asc(transactionDetailsTable.id))
+  .execute();
+
+// Amount of a line in the direction of its voucher: credits for output tax,
+// debits for input tax, so returns come out negative
+const directedAmount = (line: TaxedLine, direction: TaxDirection): Money => {
+  const credit = parseMoney(line.credit_amount) - parseMoney(line.debit_amount);
+  return direction === 'output' ? credit : -credit;
+};
+
+const componentsById = (taxRates: TaxRate[]): Map<number, TaxComponent> => {
+  return new Map(taxRates.flatMap(taxRate => taxRate.components.map(component => [component.id, component] as const)));
+};
+
+export const getTaxSummary = async (input: TaxSummaryInput): Promise<TaxSummary> => {
+  try {
+    const lines = await loadTaxedLines(input);
+    const taxRates = await loadTaxRates(db);
+    const components = componentsById(taxRates);
+
+    const rateTotals = new Map<number, Record<'output_taxable' | 'output_tax' | 'input_taxable' | 'input_tax', Money>>();
+    const headTotals = new Map<TaxHead, Record<TaxDirection, Money>>();
+    const rateTotal = (id: number) => rateTotals.get(id)
+      ?? rateTotals.set(id, { output_taxable: ZERO_MONEY, output_tax: ZERO_MONEY, input_taxable: ZERO_MONEY, input_tax: ZERO_MONEY }).get(id)!;
+    const headTotal = (head: TaxHead) => headTotals.get(head) ?? headTotals.set(head, { output: ZERO_MONEY, input: ZERO_MONEY }).get(head)!;
+
+    lines.forEach(line => {
+      const direction = taxDirections[line.voucher_type];
+      if (!direction) {
+        return;
+      }
+
+      const amount = directedAmount(line, direction);
+      if (line.tax_rate_id !== null) {
+        rateTotal(line.tax_rate_id)[`${direction}_taxable`] += amount;
+      }
+
+      const component = line.tax_component_id !== null ? components.get(line.tax_component_id) : undefined;
+      if (component) {
+        rateTotal(component.tax_rate_id)[`${direction}_tax`] += amount;
+        headTotal(component.head)[direction] += amount;
+      }
+    });
+
+    const rates: TaxRateSummary[] = taxRates
+      .filter(taxRate => rateTotals.has(taxRate.id))
+      .map(taxRate => {
+        const totals = rateTotal(taxRate.id);
+        return {
+          tax_rate_id: taxRate.id,
+          name: taxRate.name,
+          rate: taxRate.rate,
+          output_taxable: moneyToNumber(totals.output_taxable),
+          output_tax: moneyToNumber(totals.output_tax),
+          input_taxable: moneyToNumber(totals.input_taxable),
+          input_tax: moneyToNumber(totals.input_tax)
+        };
+      });
+
+    const heads: TaxHeadSummary[] = taxHeads
+      .filter(head => headTotals.has(head))
+      .map(head => {
+        const totals = headTotal(head);
+        return {
+          head,
+          output_tax: moneyToNumber(totals.output),
+          input_tax: moneyToNumber(totals.input),
+          net_payable: moneyToNumber(totals.output - totals.input)
+        };
+      });
+
+    const totalOutput = sumMoney([...headTotals.values()].map(totals => totals.output));
+    const totalInput = sumMoney([...headTotals.values()].map(totals => totals.input));
+
+    return {
+      start_date: input.start_date,
+      end_date: input.end_date,
+      rates,
+      heads,
+      total_output_tax: moneyToNumber(totalOutput),
+      total_input_tax: moneyToNumber(totalInput),
+      net_payable: moneyToNumber(totalOutput - totalInput)
+    };
+  } catch (error) {
+    console.error('Failed to get tax summary:', error);
+    throw error;
+  }
+};
+
+// Amount keys of the returns, per tax head. VAT has no GST head of its own.
+const returnAmountKeys: Record<TaxHead, string> = {
+  igst: 'iamt',
+  cgst: 'camt',
+  sgst: 'samt',
+  cess: 'csamt',
+  vat: 'vamt'
+};
+
+const headAmounts = (amounts: Map<TaxHead, Money>): Record<string, number> => {
+  return Object.fromEntries(taxHeads
+    .filter(head => head !== 'vat' || amounts.has(head))
+    .map(head => [returnAmountKeys[head], moneyToNumber(amounts.get(head) ?? ZERO_MONEY)]));
+};
+
+const returnDate = (date: Date): string => {
+  const [year, month, day] = date.toISOString().split('T')[0].split('-');
+  return `${day}-${month}-${year}`;
+};
+
+// Return period of the last month covered, e.g. 032024
+const returnPeriod = (endDate: Date): string => `${String(endDate.getUTCMonth() + 1).padStart(2, '0')}${endDate.getUTCFullYear()}`;
+
+interface ReturnItem {
+  rate: number;
+  taxable: Money;
+  taxes: Map<TaxHead, Money>;
+}
+
+interface ReturnDocument {
+  number: string;
+  date: Date;
+  voucher_type: VoucherType;
+  tax_id: string | null;
+  state_code: string | null;
+  items: Map<number, ReturnItem>;
+}
+
+// Outward supplies of the period, one document per sales voucher or credit
+// note, numbered by its invoice when it has one, with taxable values and tax
+// per rate
+const loadOutwardDocuments = async (input: TaxSummaryInput, taxRates: TaxRate[]): Promise<ReturnDocument[]> => {
+  const lines = (await loadTaxedLines(input)).filter(line => taxDirections[line.voucher_type] === 'output');
+  const entryIds = [...new Set(lines.map(line => line.entry_id))];
+  if (entryIds.length === 0) {
+    return [];
+  }
+
+  const components = componentsById(taxRates);
+  const settings = await ensureTaxSettings(db);
+
+  const parties = await db.select({
+    entry_id: transactionDetailsTable.entry_id,
+    tax_id: contactsTable.tax_id,
+    state_code: contactsTable.state_code
+  })
+    .from(transactionDetailsTable)
+    .innerJoin(ledgersTable, eq(transactionDetailsTable.ledger_id, ledgersTable.id))
+    .innerJoin(contactsTable, eq(ledgersTable.contact_id, contactsTable.id))
+    .where(inArray(transactionDetailsTable.entry_id, entryIds))
+    .orderBy(asc(transactionDetailsTable.id))
+    .execute();
+  const invoices = await db.select({ entry_id: invoicesTable.entry_id, invoice_number: invoicesTable.invoice_number })
+    .from(invoicesTable)
+    .where(inArray(invoicesTable.entry_id, entryIds))
+    .execute();
+
+  const documents = new Map<number, ReturnDocument>();
+  lines.forEach(line => {
+    const document = documents.get(line.entry_id) ?? documents.set(line.entry_id, {
+      number: invoices.find(invoice => invoice.entry_id === line.entry_id)?.invoice_number ?? line.entry_number,
+      date: line.entry_date,
+      voucher_type: line.voucher_type,
+      tax_id: parties.find(party => party.entry_id === line.entry_id)?.tax_id ?? null,
+      state_code: parties.find(party => party.entry_id === line.entry_id)?.state_code ?? settings.state_code,
+      items: new Map()
+    }).get(line.entry_id)!;
+
+    const component = line.tax_component_id !== null ? components.get(line.tax_component_id) : undefined;
+    const taxRateId = line.tax_rate_id ?? component?.tax_rate_id;
+    const taxRate = taxRates.find(rate => rate.id === taxRateId);
+    if (!taxRate) {
+      return;
+    }
+
+    const item = document.items.get(taxRate.id)
+      ?? document.items.set(taxRate.id, { rate: taxRate.rate, taxable: ZERO_MONEY, taxes: new Map() }).get(taxRate.id)!;
+    // Credit notes are listed with positive amounts of their own
+    const amount = line.voucher_type === 'credit_note' ? -directedAmount(line, 'output') : directedAmount(line, 'output');
+    if (line.tax_rate_id !== null) {
+      item.taxable += amount;
+    }
+    if (component) {
+      item.taxes.set(component.head, (item.taxes.get(component.head) ?? ZERO_MONEY) + amount);
+    }
+  });
+
+  return [...documents.values()];
+};
+
+const documentValue = (document: ReturnDocument): number => {
+  return moneyToNumber(sumMoney([...document.items.values()].flatMap(item => [item.taxable, ...item.taxes.values()])));
+};
+
+const documentItems = (document: ReturnDocument) => [...document.items.values()].map((item, index) => ({
+  num: index + 1,
+  itm_det: { rt: item.rate, txval: moneyToNumber(item.taxable), ...headAmounts(item.taxes) }
+}));
+
+// GSTR-1 style: invoices and credit notes to registered customers by
+// GSTIN, and supplies to everyone else summed by place of supply and rate
+const buildGstr1 = async (input: TaxSummaryInput, gstin: string | null, homeStateCode: string | null) => {
+  const taxRates = await loadTaxRates(db);
+  const documents = await loadOutwardDocuments(input, taxRates);
+  const registered = documents.filter(document => document.tax_id !== null && isGstin(document.tax_id));
+
+  const byCustomer = (voucherType: VoucherType) => {
+    const customers = new Map<string, ReturnDocument[]>();
+    registered
+      .filter(document => document.voucher_type === voucherType)
+      .forEach(document => customers.set(document.tax_id!, [...(customers.get(document.tax_id!) ?? []), document]));
+    return [...customers];
+  };
+
+  const b2b = byCustomer('sales').map(([ctin, customerDocuments]) => ({
+    ctin,
+    inv: customerDocuments.map(document => ({
+      inum: document.number,
+      idt: returnDate(document.date),
+      val: documentValue(document),
+      pos: document.state_code,
+      rchrg: 'N',
+      inv_typ: 'R',
+      itms: documentItems(document)
+    }))
+  }));
+
+  const cdnr = byCustomer('credit_note').map(([ctin, customerDocuments]) => ({
+    ctin,
+    nt: customerDocuments.map(document => ({
+      ntty: 'C',
+      nt_num: document.number,
+      nt_dt: returnDate(document.date),
+      val: documentValue(document),
+      pos: document.state_code,
+      itms: documentItems(document)
+    }))
+  }));
+
+  // Credit notes to unregistered customers reduce their supplies
+  const summaries = new Map<string, { sply_ty: string; pos: string | null; rt: number; taxable: Money; taxes: Map<TaxHead, Money> }>();
+  documents
+    .filter(document => !registered.includes(document))
+    .forEach(document => {
+      const supplyType = supplyTypeFor(homeStateCode, document.state_code) === 'inter_state' ? 'INTER' : 'INTRA';
+      const sign = document.voucher_type === 'credit_note' ? -1n : 1n;
+      document.items.forEach(item => {
+        const key = `${supplyType}|${document.state_code}|${item.rate}`;
+        const summary = summaries.get(key)
+          ?? summaries.set(key, { sply_ty: supplyType, pos: document.state_code, rt: item.rate, taxable: ZERO_MONEY, taxes: new Map() }).get(key)!;
+        summary.taxable += sign * item.taxable;
+        item.taxes.forEach((tax, head) => summary.taxes.set(head, (summary.taxes.get(head) ?? ZERO_MONEY) + sign * tax));
+      });
+    });
+
+  return {
+    gstin,
+    fp: returnPeriod(input.end_date),
+    b2b,
+    cdnr,
+    b2cs: [...summaries.values()].map(summary => ({
+      sply_ty: summary.sply_ty,
+      pos: summary.pos,
+      typ: 'OE',
+      rt: summary.rt,
+      txval: moneyToNumber(summary.taxable),
+      ...headAmounts(summary.taxes)
+    }))
+  };
+};
+
+// GSTR-3B style: outward taxable supplies, input tax credit and the tax
+// payable after it, per tax head
+const buildGstr3b = async (input: TaxSummaryInput, gstin: string | null) => {
+  const summary = await getTaxSummary(input);
+  const amounts = (key: 'output_tax' | 'input_tax' | 'net_payable') => {
+    return new Map(summary.heads.map(head => [head.head, parseMoney(head[key])] as const));
+  };
+
+  return {
+    gstin,
+    ret_period: returnPeriod(input.end_date),
+    sup_details: {
+      osup_det: {
+        txval: moneyToNumber(sumMoney(summary.rates.map(rate => parseMoney(rate.output_taxable)))),
+        ...headAmounts(amounts('output_tax'))
+      }
+    },
+    itc_elg: {
+      itc_avl: [{ ty: 'OTH', ...headAmounts(amounts('input_tax')) }],
+      itc_net: headAmounts(amounts('input_tax'))
+    },
+    tax_payable: headAmounts(amounts('net_payable'))
+  };
+};
+
+export const exportTaxReturn = async (input: ExportTaxReturnInput): Promise<ExportFile> => {
+  try {
+    const settings = await ensureTaxSettings(db);
+    const content = input.form === 'gstr1'
+      ? await buildGstr1(input, settings.tax_id, settings.state_code)
+      : await buildGstr3b(input, settings.tax_id);
+
+    return {
+      filename: `${input.form}-${returnPeriod(input.end_date)}.json`,
+      mime_type: 'application/json',
+      content: Buffer.from(JSON.stringify(content, null, 2)).toString('base64')
+    };
+  } catch (error) {
+    console.error('Tax return export failed:', error);
+    throw error;
+  }
+};
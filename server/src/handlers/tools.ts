@@ -1,8 +1,8 @@
 
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
-import { transactionEntriesTable, transactionDetailsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { transactionEntriesTable, transactionDetailsTable, bankMatchesTable, billAllocationsTable, invoicesTable, invoiceLinesTable } from '../db/schema';
+import { eq, inArray, or } from 'drizzle-orm';
 
 export const backupDatabase = async (): Promise<{ success: boolean; message: string }> => {
   try {
@@ -48,19 +48,29 @@ export const backupDatabase = async (): Promise<{ success: boolean; message: str
 
 export const cleanEntireDatabase = async (): Promise<{ success: boolean; message: string }> => {
   try {
-    // Delete all transaction details first (foreign key dependency)
-    await db.delete(transactionDetailsTable).execute();
+    await db.transaction(async (tx) => {
+      // Bank statements stay, unmatched, since their lines came from the bank
+      await tx.delete(bankMatchesTable).execute();
+      await tx.delete(billAllocationsTable).execute();
 
-    // Delete all transaction entries
-    await db.delete(transactionEntriesTable).execute();
+      // Invoices go with the vouchers they posted
+      await tx.delete(invoiceLinesTable).execute();
+      await tx.delete(invoicesTable).execute();
 
-    // Reset sequences for auto-incrementing IDs
-    await db.execute(sql`
-      SELECT setval(pg_get_serial_sequence('transaction_entries', 'id'), 1, false)
-    `);
-    await db.execute(sql`
-      SELECT setval(pg_get_serial_sequence('transaction_details', 'id'), 1, false)
-    `);
+      // Delete all transaction details first (foreign key dependency)
+      await tx.delete(transactionDetailsTable).execute();
+
+      // Delete all transaction entries
+      await tx.delete(transactionEntriesTable).execute();
+
+      // Reset sequences for auto-incrementing IDs
+      await tx.execute(sql`
+        SELECT setval(pg_get_serial_sequence('transaction_entries', 'id'), 1, false)
+      `);
+      await tx.execute(sql`
+        SELECT setval(pg_get_serial_sequence('transaction_details', 'id'), 1, false)
+      `);
+    });
 
     return {
       success: true,
@@ -77,34 +87,80 @@ export const cleanEntireDatabase = async (): Promise<{ success: boolean; message
 
 export const cleanCorrections = async (): Promise<{ success: boolean; message: string }> => {
   try {
-    // Find all correction entries
-    const correctionEntries = await db.select()
-      .from(transactionEntriesTable)
-      .where(eq(transactionEntriesTable.is_correction, true))
-      .execute();
+    const cleanedCount = await db.transaction(async (tx) => {
+      // Find all correction entries
+      const correctionEntries = await tx.select({ id: transactionEntriesTable.id })
+        .from(transactionEntriesTable)
+        .where(eq(transactionEntriesTable.is_correction, true))
+        .execute();
+
+      if (correctionEntries.length === 0) {
+        return 0;
+      }
+
+      const correctionIds = correctionEntries.map(entry => entry.id);
+
+      // Unmatch bank statement lines from the lines about to go
+      await tx.delete(bankMatchesTable)
+        .where(inArray(bankMatchesTable.detail_id, tx.select({ id: transactionDetailsTable.id })
+          .from(transactionDetailsTable)
+          .where(inArray(transactionDetailsTable.entry_id, correctionIds))))
+        .execute();
+
+      // And drop bill allocations made by or to them
+      const correctionDetailIds = tx.select({ id: transactionDetailsTable.id })
+        .from(transactionDetailsTable)
+        .where(inArray(transactionDetailsTable.entry_id, correctionIds));
+      await tx.delete(billAllocationsTable)
+        .where(or(
+          inArray(billAllocationsTable.detail_id, correctionDetailIds),
+          inArray(billAllocationsTable.bill_detail_id, correctionDetailIds)
+        ))
+        .execute();
+
+      // Edited invoices go back to their first voucher, one step of the
+      // correction chain at a time; their line items stay as edited
+      let repointed: { id: number }[];
+      do {
+        repointed = await tx.update(invoicesTable)
+          .set({
+            entry_id: sql`(select ${transactionEntriesTable.original_entry_id} from ${transactionEntriesTable} where ${transactionEntriesTable.id} = ${invoicesTable.entry_id})`
+          })
+          .where(inArray(invoicesTable.entry_id, correctionIds))
+          .returning({ id: invoicesTable.id })
+          .execute();
+      } while (repointed.length > 0);
+
+      // Delete transaction details for correction entries
+      await tx.delete(transactionDetailsTable)
+        .where(inArray(transactionDetailsTable.entry_id, correctionIds))
+        .execute();
+
+      // Delete correction entries
+      await tx.delete(transactionEntriesTable)
+        .where(inArray(transactionEntriesTable.id, correctionIds))
+        .execute();
+
+      // With their reversals and replacements gone, the original vouchers
+      // count again
+      await tx.update(transactionEntriesTable)
+        .set({ status: 'active', updated_at: new Date() })
+        .where(eq(transactionEntriesTable.status, 'superseded'))
+        .execute();
+
+      return correctionEntries.length;
+    });
 
-    if (correctionEntries.length === 0) {
+    if (cleanedCount === 0) {
       return {
         success: true,
         message: 'No correction entries found to clean'
       };
     }
 
-    // Delete transaction details for correction entries
-    for (const entry of correctionEntries) {
-      await db.delete(transactionDetailsTable)
-        .where(eq(transactionDetailsTable.entry_id, entry.id))
-        .execute();
-    }
-
-    // Delete correction entries
-    await db.delete(transactionEntriesTable)
-      .where(eq(transactionEntriesTable.is_correction, true))
-      .execute();
-
     return {
       success: true,
-      message: `Successfully cleaned ${correctionEntries.length} correction entries`
+      message: `Successfully cleaned ${cleanedCount} correction entries`
     };
   } catch (error) {
     console.error('Correction cleaning failed:', error);
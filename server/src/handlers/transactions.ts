@@ -1,69 +1,166 @@
 
-import { db } from '../db';
-import { transactionEntriesTable, transactionDetailsTable, ledgersTable } from '../db/schema';
-import { type CreateTransactionInput, type TransactionEntry, type DeleteInput } from '../schema';
-import { eq, and, gte, lte, desc, SQL } from 'drizzle-orm';
+import { db, type DbTransaction } from '../db';
+import { transactionEntriesTable, transactionDetailsTable, ledgersTable, bankMatchesTable, billAllocationsTable, invoicesTable } from '../db/schema';
+import {
+  type CreateTransactionInput,
+  type CorrectionChainEntry,
+  type TransactionEntry,
+  type TransactionsByDateRangeInput,
+  type DeleteInput,
+  type LockOverrideInput,
+  type LedgerType,
+  type VoucherType
+} from '../schema';
+import { eq, and, gte, lte, desc, inArray, or, SQL } from 'drizzle-orm';
+import { type Money, parseMoney, formatMoney, moneyToNumber, sumMoney } from '../money';
+import { voucherTypeLabels, invoiceTypeLabels, isMoneyLedgerType } from '../vouchers';
+import { allocateVoucherNumber } from './voucher_series';
+import { assertPeriodOpen } from './financial_years';
+import { withVoucherTaxes } from './taxes';
 
-export const createTransaction = async (input: CreateTransactionInput): Promise<TransactionEntry> => {
-  try {
-    // Validate that all ledgers exist
-    for (const detail of input.details) {
-      const ledgerExists = await db.select({ id: ledgersTable.id })
-        .from(ledgersTable)
-        .where(eq(ledgersTable.id, detail.ledger_id))
-        .execute();
-      
-      if (ledgerExists.length === 0) {
-        throw new Error(`Ledger with id ${detail.ledger_id} does not exist`);
+// A detail line as posted: tax lines added for taxed lines carry the tax
+// component they were charged under
+export type PostingDetail = CreateTransactionInput['details'][number] & { tax_component_id?: number | null };
+
+export type PostingInput = Omit<CreateTransactionInput, 'details'> & { details: PostingDetail[] };
+
+// Returns the voucher total after checking that debits equal credits exactly
+const getBalancedTotal = (details: CreateTransactionInput['details']): Money => {
+  const totalDebits = sumMoney(details.map(detail => parseMoney(detail.debit_amount)));
+  const totalCredits = sumMoney(details.map(detail => parseMoney(detail.credit_amount)));
+
+  if (totalDebits !== totalCredits) {
+    throw new Error('Total debits must equal total credits');
+  }
+
+  return totalDebits;
+};
+
+// Verifies every referenced ledger in a single query and returns each
+// ledger's type. The rows are locked FOR SHARE so a concurrent deleteLedger
+// cannot remove them before the surrounding transaction commits.
+const loadVoucherLedgers = async (tx: DbTransaction, ledgerIds: number[]): Promise<Map<number, LedgerType>> => {
+  const uniqueIds = [...new Set(ledgerIds)];
+
+  const existing = await tx.select({ id: ledgersTable.id, ledger_type: ledgersTable.ledger_type })
+    .from(ledgersTable)
+    .where(inArray(ledgersTable.id, uniqueIds))
+    .for('share')
+    .execute();
+
+  const ledgerTypes = new Map(existing.map(ledger => [ledger.id, ledger.ledger_type]));
+  const missingId = uniqueIds.find(id => !ledgerTypes.has(id));
+
+  if (missingId !== undefined) {
+    throw new Error(`Ledger with id ${missingId} does not exist`);
+  }
+
+  return ledgerTypes;
+};
+
+// Enforces the ledger rules of each voucher type:
+// - payment credits (pays out of) a cash or bank ledger
+// - receipt debits (pays into) a cash or bank ledger
+// - contra only moves money between cash and bank ledgers
+// - journal, debit note and credit note never touch cash or bank ledgers
+// - sales and purchase may be cash or credit, so they are unrestricted
+const assertVoucherRules = (
+  voucherType: VoucherType,
+  details: CreateTransactionInput['details'],
+  ledgerTypes: Map<number, LedgerType>
+): void => {
+  const label = voucherTypeLabels[voucherType];
+  const moneyLines = details.filter(detail => isMoneyLedgerType(ledgerTypes.get(detail.ledger_id)));
+
+  switch (voucherType) {
+    case 'payment':
+      if (!moneyLines.some(detail => parseMoney(detail.credit_amount) > 0n)) {
+        throw new Error(`${label} voucher must credit a cash or bank ledger`);
       }
-    }
+      break;
+    case 'receipt':
+      if (!moneyLines.some(detail => parseMoney(detail.debit_amount) > 0n)) {
+        throw new Error(`${label} voucher must debit a cash or bank ledger`);
+      }
+      break;
+    case 'contra':
+      if (moneyLines.length !== details.length) {
+        throw new Error(`${label} voucher can only use cash and bank ledgers`);
+      }
+      break;
+    case 'journal':
+    case 'debit_note':
+    case 'credit_note':
+      if (moneyLines.length > 0) {
+        throw new Error(`${label} voucher cannot use cash or bank ledgers`);
+      }
+      break;
+    case 'sales':
+    case 'purchase':
+      break;
+  }
+};
 
-    // Validate that debits equal credits
-    const totalDebits = input.details.reduce((sum, detail) => sum + detail.debit_amount, 0);
-    const totalCredits = input.details.reduce((sum, detail) => sum + detail.credit_amount, 0);
-    
-    if (Math.abs(totalDebits - totalCredits) > 0.01) {
-      throw new Error('Total debits must equal total credits');
-    }
+// Inserts an entry header and all of its detail lines. Must be called inside
+// db.transaction() so that a failure on any line rolls back the whole voucher.
+const insertEntryWithDetails = async (
+  tx: DbTransaction,
+  entryValues: typeof transactionEntriesTable.$inferInsert,
+  details: PostingDetail[]
+) => {
+  const entryResult = await tx.insert(transactionEntriesTable)
+    .values(entryValues)
+    .returning()
+    .execute();
 
-    // Calculate total amount (sum of all debits or credits)
-    const totalAmount = totalDebits;
-
-    // Generate entry number (simple timestamp-based for now)
-    const entryNumber = `TXN-${Date.now()}`;
-
-    // Insert transaction entry
-    const entryResult = await db.insert(transactionEntriesTable)
-      .values({
-        entry_number: entryNumber,
-        entry_date: input.entry_date,
-        description: input.description,
-        total_amount: totalAmount.toString(),
-        is_correction: false,
-        original_entry_id: null
-      })
-      .returning()
-      .execute();
+  const entry = entryResult[0];
 
-    const entry = entryResult[0];
-
-    // Insert transaction details
-    for (const detail of input.details) {
-      await db.insert(transactionDetailsTable)
-        .values({
-          entry_id: entry.id,
-          ledger_id: detail.ledger_id,
-          debit_amount: detail.debit_amount.toString(),
-          credit_amount: detail.credit_amount.toString(),
-          description: detail.description || null
-        })
-        .execute();
-    }
+  await tx.insert(transactionDetailsTable)
+    .values(details.map(detail => ({
+      entry_id: entry.id,
+      ledger_id: detail.ledger_id,
+      debit_amount: formatMoney(parseMoney(detail.debit_amount)),
+      credit_amount: formatMoney(parseMoney(detail.credit_amount)),
+      description: detail.description || null,
+      tax_rate_id: detail.tax_rate_id ?? null,
+      tax_component_id: detail.tax_component_id ?? null
+    })))
+    .execute();
+
+  return entry;
+};
+
+// Posts a new voucher as part of the caller's database transaction, so
+// other writes can be committed or rolled back together with it
+export const postVoucher = async (tx: DbTransaction, input: PostingInput & LockOverrideInput) => {
+  // Validate that debits equal credits; the total is the sum of either side
+  const totalAmount = getBalancedTotal(input.details);
+
+  await assertPeriodOpen(tx, input.entry_date, input.override_lock ?? false);
+
+  // Validate that all ledgers exist and suit the voucher type
+  const ledgerTypes = await loadVoucherLedgers(tx, input.details.map(detail => detail.ledger_id));
+  assertVoucherRules(input.voucher_type, input.details, ledgerTypes);
+
+  return insertEntryWithDetails(tx, {
+    entry_number: await allocateVoucherNumber(tx, input.voucher_type, input.entry_date),
+    voucher_type: input.voucher_type,
+    entry_date: input.entry_date,
+    description: input.description,
+    total_amount: formatMoney(totalAmount),
+    is_correction: false,
+    original_entry_id: null
+  }, input.details);
+};
+
+export const createTransaction = async (input: CreateTransactionInput & LockOverrideInput): Promise<TransactionEntry> => {
+  try {
+    const entry = await db.transaction(async (tx) => postVoucher(tx, { ...input, details: await withVoucherTaxes(tx, input) }));
 
     // Return the transaction entry with numeric conversion
     return {
       ...entry,
-      total_amount: parseFloat(entry.total_amount)
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
     };
   } catch (error) {
     console.error('Transaction creation failed:', error);
@@ -80,7 +177,7 @@ export const getTransactions = async (): Promise<TransactionEntry[]> => {
 
     return results.map(entry => ({
       ...entry,
-      total_amount: parseFloat(entry.total_amount)
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
     }));
   } catch (error) {
     console.error('Failed to get transactions:', error);
@@ -102,7 +199,7 @@ export const getTransaction = async (input: { id: number }): Promise<Transaction
     const entry = results[0];
     return {
       ...entry,
-      total_amount: parseFloat(entry.total_amount)
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
     };
   } catch (error) {
     console.error('Failed to get transaction:', error);
@@ -110,22 +207,26 @@ export const getTransaction = async (input: { id: number }): Promise<Transaction
   }
 };
 
-export const getTransactionsByDateRange = async (input: { start_date: Date; end_date: Date }): Promise<TransactionEntry[]> => {
+export const getTransactionsByDateRange = async (input: TransactionsByDateRangeInput): Promise<TransactionEntry[]> => {
   try {
+    const conditions: SQL<unknown>[] = [
+      gte(transactionEntriesTable.entry_date, input.start_date),
+      lte(transactionEntriesTable.entry_date, input.end_date)
+    ];
+
+    if (input.voucher_type) {
+      conditions.push(eq(transactionEntriesTable.voucher_type, input.voucher_type));
+    }
+
     const results = await db.select()
       .from(transactionEntriesTable)
-      .where(
-        and(
-          gte(transactionEntriesTable.entry_date, input.start_date),
-          lte(transactionEntriesTable.entry_date, input.end_date)
-        )
-      )
+      .where(and(...conditions))
       .orderBy(desc(transactionEntriesTable.entry_date), desc(transactionEntriesTable.id))
       .execute();
 
     return results.map(entry => ({
       ...entry,
-      total_amount: parseFloat(entry.total_amount)
+      total_amount: moneyToNumber(parseMoney(entry.total_amount))
     }));
   } catch (error) {
     console.error('Failed to get transactions by date range:', error);
@@ -133,76 +234,116 @@ export const getTransactionsByDateRange = async (input: { start_date: Date; end_
   }
 };
 
-export const correctTransaction = async (input: { id: number; correction_data: CreateTransactionInput }): Promise<TransactionEntry> => {
-  try {
-    // Verify original transaction exists
-    const originalResults = await db.select()
-      .from(transactionEntriesTable)
-      .where(eq(transactionEntriesTable.id, input.id))
-      .execute();
+// Vouchers posted by an invoice change only through the invoice, which would
+// otherwise no longer match its voucher
+const assertNotInvoiceVoucher = async (tx: DbTransaction, entryId: number, action: string): Promise<void> => {
+  const invoices = await tx.select({ invoice_type: invoicesTable.invoice_type, invoice_number: invoicesTable.invoice_number })
+    .from(invoicesTable)
+    .where(eq(invoicesTable.entry_id, entryId))
+    .execute();
 
-    if (originalResults.length === 0) {
-      throw new Error(`Original transaction with id ${input.id} not found`);
-    }
+  if (invoices.length > 0) {
+    const { invoice_type, invoice_number } = invoices[0];
+    throw new Error(`This voucher was posted by ${invoiceTypeLabels[invoice_type].toLowerCase()} ${invoice_number}; ${action} the invoice instead`);
+  }
+};
 
-    // Validate that all ledgers exist for correction
-    for (const detail of input.correction_data.details) {
-      const ledgerExists = await db.select({ id: ledgersTable.id })
-        .from(ledgersTable)
-        .where(eq(ledgersTable.id, detail.ledger_id))
-        .execute();
-      
-      if (ledgerExists.length === 0) {
-        throw new Error(`Ledger with id ${detail.ledger_id} does not exist`);
-      }
-    }
+// Corrects a voucher without altering it: the original is marked superseded,
+// a reversal entry dated on the original's date cancels its lines, and the
+// replacement entry is posted. Both new entries link back through
+// original_entry_id, so every version stays visible in getCorrectionChain.
+// Runs as part of the caller's database transaction and returns the
+// replacement entry.
+export const postCorrection = async (
+  tx: DbTransaction,
+  input: { id: number; correction_data: PostingInput } & LockOverrideInput
+) => {
+  // Validate that debits equal credits for correction
+  const totalAmount = getBalancedTotal(input.correction_data.details);
 
-    // Validate that debits equal credits for correction
-    const totalDebits = input.correction_data.details.reduce((sum, detail) => sum + detail.debit_amount, 0);
-    const totalCredits = input.correction_data.details.reduce((sum, detail) => sum + detail.credit_amount, 0);
-    
-    if (Math.abs(totalDebits - totalCredits) > 0.01) {
-      throw new Error('Total debits must equal total credits');
-    }
+  // Lock the original so it cannot be corrected twice concurrently
+  const originalResults = await tx.select()
+    .from(transactionEntriesTable)
+    .where(eq(transactionEntriesTable.id, input.id))
+    .for('update')
+    .execute();
 
-    // Calculate total amount
-    const totalAmount = totalDebits;
-
-    // Generate correction entry number
-    const entryNumber = `COR-${input.id}-${Date.now()}`;
-
-    // Insert correction entry
-    const correctionResult = await db.insert(transactionEntriesTable)
-      .values({
-        entry_number: entryNumber,
-        entry_date: input.correction_data.entry_date,
-        description: input.correction_data.description,
-        total_amount: totalAmount.toString(),
-        is_correction: true,
-        original_entry_id: input.id
-      })
-      .returning()
-      .execute();
+  if (originalResults.length === 0) {
+    throw new Error(`Original transaction with id ${input.id} not found`);
+  }
 
-    const correctionEntry = correctionResult[0];
-
-    // Insert correction details
-    for (const detail of input.correction_data.details) {
-      await db.insert(transactionDetailsTable)
-        .values({
-          entry_id: correctionEntry.id,
-          ledger_id: detail.ledger_id,
-          debit_amount: detail.debit_amount.toString(),
-          credit_amount: detail.credit_amount.toString(),
-          description: detail.description || null
-        })
-        .execute();
-    }
+  const original = originalResults[0];
+
+  if (original.status === 'superseded') {
+    throw new Error(`Transaction ${original.entry_number} has already been corrected; correct its latest version instead`);
+  }
+
+  if (original.status === 'reversal') {
+    throw new Error('Reversal entries cannot be corrected');
+  }
+
+  // The reversal is posted on the original's date, so both dates must be open
+  await assertPeriodOpen(tx, original.entry_date, input.override_lock ?? false);
+  await assertPeriodOpen(tx, input.correction_data.entry_date, input.override_lock ?? false);
+
+  // Validate that all ledgers exist and suit the voucher type
+  const ledgerTypes = await loadVoucherLedgers(tx, input.correction_data.details.map(detail => detail.ledger_id));
+  assertVoucherRules(input.correction_data.voucher_type, input.correction_data.details, ledgerTypes);
+
+  const originalDetails = await tx.select()
+    .from(transactionDetailsTable)
+    .where(eq(transactionDetailsTable.entry_id, original.id))
+    .orderBy(transactionDetailsTable.id)
+    .execute();
+
+  await tx.update(transactionEntriesTable)
+    .set({ status: 'superseded', updated_at: new Date() })
+    .where(eq(transactionEntriesTable.id, original.id))
+    .execute();
+
+  await insertEntryWithDetails(tx, {
+    entry_number: await allocateVoucherNumber(tx, original.voucher_type, original.entry_date),
+    voucher_type: original.voucher_type,
+    entry_date: original.entry_date,
+    description: `Reversal of ${original.entry_number}`,
+    total_amount: original.total_amount,
+    is_correction: true,
+    original_entry_id: original.id,
+    status: 'reversal'
+  }, originalDetails.map(detail => ({
+    ledger_id: detail.ledger_id,
+    debit_amount: moneyToNumber(parseMoney(detail.credit_amount)),
+    credit_amount: moneyToNumber(parseMoney(detail.debit_amount)),
+    description: detail.description,
+    tax_rate_id: detail.tax_rate_id,
+    tax_component_id: detail.tax_component_id
+  })));
+
+  return insertEntryWithDetails(tx, {
+    entry_number: await allocateVoucherNumber(tx, input.correction_data.voucher_type, input.correction_data.entry_date),
+    voucher_type: input.correction_data.voucher_type,
+    entry_date: input.correction_data.entry_date,
+    description: input.correction_data.description,
+    total_amount: formatMoney(totalAmount),
+    is_correction: true,
+    original_entry_id: original.id
+  }, input.correction_data.details);
+};
+
+export const correctTransaction = async (input: { id: number; correction_data: CreateTransactionInput } & LockOverrideInput): Promise<TransactionEntry> => {
+  try {
+    const correctionEntry = await db.transaction(async (tx) => {
+      await assertNotInvoiceVoucher(tx, input.id, 'edit');
+      return postCorrection(tx, {
+        ...input,
+        correction_data: { ...input.correction_data, details: await withVoucherTaxes(tx, input.correction_data) }
+      });
+    });
 
     // Return the correction entry with numeric conversion
     return {
       ...correctionEntry,
-      total_amount: parseFloat(correctionEntry.total_amount)
+      total_amount: moneyToNumber(parseMoney(correctionEntry.total_amount))
     };
   } catch (error) {
     console.error('Transaction correction failed:', error);
@@ -210,28 +351,129 @@ export const correctTransaction = async (input: { id: number; correction_data: C
   }
 };
 
-export const deleteTransaction = async (input: DeleteInput): Promise<{ success: boolean }> => {
+// Returns every version of the voucher the given entry belongs to: the first
+// posting, then each reversal and replacement in the order they were posted
+export const getCorrectionChain = async (input: { id: number }): Promise<CorrectionChainEntry[]> => {
   try {
-    // Check if transaction exists
-    const transactionExists = await db.select({ id: transactionEntriesTable.id })
+    const entries = await db.select()
       .from(transactionEntriesTable)
       .where(eq(transactionEntriesTable.id, input.id))
       .execute();
 
-    if (transactionExists.length === 0) {
+    if (entries.length === 0) {
       throw new Error(`Transaction with id ${input.id} not found`);
     }
 
-    // Delete transaction details first (due to foreign key constraint)
-    await db.delete(transactionDetailsTable)
-      .where(eq(transactionDetailsTable.entry_id, input.id))
-      .execute();
+    // Walk up to the first posting of the voucher
+    let root = entries[0];
+    while (root.original_entry_id !== null) {
+      const parents = await db.select()
+        .from(transactionEntriesTable)
+        .where(eq(transactionEntriesTable.id, root.original_entry_id))
+        .execute();
 
-    // Delete the transaction entry
-    await db.delete(transactionEntriesTable)
-      .where(eq(transactionEntriesTable.id, input.id))
+      if (parents.length === 0) {
+        break;
+      }
+
+      root = parents[0];
+    }
+
+    // Then collect every entry that descends from it
+    const chain = [root];
+    let parentIds = [root.id];
+    while (parentIds.length > 0) {
+      const children = await db.select()
+        .from(transactionEntriesTable)
+        .where(inArray(transactionEntriesTable.original_entry_id, parentIds))
+        .execute();
+
+      chain.push(...children);
+      parentIds = children.map(child => child.id);
+    }
+
+    chain.sort((a, b) => a.id - b.id);
+
+    const details = await db.select()
+      .from(transactionDetailsTable)
+      .where(inArray(transactionDetailsTable.entry_id, chain.map(entry => entry.id)))
+      .orderBy(transactionDetailsTable.id)
       .execute();
 
+    return chain.map(entry => ({
+      ...entry,
+      total_amount: moneyToNumber(parseMoney(entry.total_amount)),
+      details: details
+        .filter(detail => detail.entry_id === entry.id)
+        .map(detail => ({
+          ...detail,
+          debit_amount: moneyToNumber(parseMoney(detail.debit_amount)),
+          credit_amount: moneyToNumber(parseMoney(detail.credit_amount))
+        }))
+    }));
+  } catch (error) {
+    console.error('Failed to get correction chain:', error);
+    throw error;
+  }
+};
+
+// Deletes a current voucher with its lines as part of the caller's database
+// transaction
+export const removeVoucher = async (tx: DbTransaction, input: DeleteInput & LockOverrideInput): Promise<void> => {
+  // Check if transaction exists
+  const transactionExists = await tx.select({ status: transactionEntriesTable.status, entry_date: transactionEntriesTable.entry_date })
+    .from(transactionEntriesTable)
+    .where(eq(transactionEntriesTable.id, input.id))
+    .execute();
+
+  if (transactionExists.length === 0) {
+    throw new Error(`Transaction with id ${input.id} not found`);
+  }
+
+  // A superseded voucher and its reversal cancel each other out; deleting
+  // either one would bring half of the pair back into the books
+  if (transactionExists[0].status !== 'active') {
+    throw new Error('Superseded vouchers and reversal entries cannot be deleted');
+  }
+
+  await assertPeriodOpen(tx, transactionExists[0].entry_date, input.override_lock ?? false);
+
+  // Bank statement lines matched to the voucher become unmatched
+  await tx.delete(bankMatchesTable)
+    .where(inArray(bankMatchesTable.detail_id, tx.select({ id: transactionDetailsTable.id })
+      .from(transactionDetailsTable)
+      .where(eq(transactionDetailsTable.entry_id, input.id))))
+    .execute();
+
+  // So do bill allocations made by or to its lines
+  const entryDetailIds = tx.select({ id: transactionDetailsTable.id })
+    .from(transactionDetailsTable)
+    .where(eq(transactionDetailsTable.entry_id, input.id));
+  await tx.delete(billAllocationsTable)
+    .where(or(
+      inArray(billAllocationsTable.detail_id, entryDetailIds),
+      inArray(billAllocationsTable.bill_detail_id, entryDetailIds)
+    ))
+    .execute();
+
+  // Delete transaction details first (due to foreign key constraint)
+  await tx.delete(transactionDetailsTable)
+    .where(eq(transactionDetailsTable.entry_id, input.id))
+    .execute();
+
+  // Delete the transaction entry
+  await tx.delete(transactionEntriesTable)
+    .where(eq(transactionEntriesTable.id, input.id))
+    .execute();
+};
+
+export const deleteTransaction = async (input: DeleteInput & LockOverrideInput): Promise<{ success: boolean }> => {
+  try {
+    await db.transaction(async (tx) => {
+      await assertNotInvoiceVoucher(tx, input.id, 'delete');
+      await removeVoucher(tx, input);
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Transaction deletion failed:', error);
@@ -0,0 +1,158 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  type CreateUserInput,
+  type UpdateUserInput,
+  type ResetPasswordInput,
+  type ChangePasswordInput,
+  type SessionUser
+} from '../schema';
+import { hashPassword, verifyPassword, toSessionUser } from './auth';
+import { and, asc, eq, ne } from 'drizzle-orm';
+
+export const createUser = async (input: CreateUserInput): Promise<SessionUser> => {
+  try {
+    const result = await db.insert(usersTable)
+      .values({
+        username: input.username,
+        email: input.email,
+        password_hash: await hashPassword(input.password),
+        role: input.role
+      })
+      .returning()
+      .execute();
+
+    return toSessionUser(result[0]);
+  } catch (error) {
+    console.error('User creation failed:', error);
+    throw error;
+  }
+};
+
+export const getUsers = async (): Promise<SessionUser[]> => {
+  try {
+    const results = await db.select()
+      .from(usersTable)
+      .orderBy(asc(usersTable.username))
+      .execute();
+
+    return results.map(toSessionUser);
+  } catch (error) {
+    console.error('Failed to get users:', error);
+    throw error;
+  }
+};
+
+export const updateUser = async (input: UpdateUserInput): Promise<SessionUser> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.id))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const user = existing[0];
+      const losesAdmin = user.role === 'admin' && user.is_active &&
+        ((input.role !== undefined && input.role !== 'admin') || input.is_active === false);
+
+      // Never leave the system without an active administrator
+      if (losesAdmin) {
+        const otherAdmins = await tx.select({ id: usersTable.id })
+          .from(usersTable)
+          .where(and(
+            eq(usersTable.role, 'admin'),
+            eq(usersTable.is_active, true),
+            ne(usersTable.id, input.id)
+          ))
+          .for('update')
+          .execute();
+
+        if (otherAdmins.length === 0) {
+          throw new Error('Cannot remove the last active administrator');
+        }
+      }
+
+      const updateData: Partial<typeof usersTable.$inferInsert> = { updated_at: new Date() };
+      if (input.email !== undefined) updateData.email = input.email;
+      if (input.role !== undefined) updateData.role = input.role;
+      if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+      const result = await tx.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, input.id))
+        .returning()
+        .execute();
+
+      // A disabled user is signed out everywhere
+      if (input.is_active === false) {
+        await tx.delete(sessionsTable)
+          .where(eq(sessionsTable.user_id, input.id))
+          .execute();
+      }
+
+      return toSessionUser(result[0]);
+    });
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+};
+
+export const resetUserPassword = async (input: ResetPasswordInput): Promise<{ success: boolean }> => {
+  try {
+    const passwordHash = await hashPassword(input.new_password);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({ password_hash: passwordHash, updated_at: new Date() })
+        .where(eq(usersTable.id, input.id))
+        .returning({ id: usersTable.id })
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('User not found');
+      }
+
+      // Existing sessions were opened with the old password
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, input.id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+};
+
+export const changePassword = async (userId: number, input: ChangePasswordInput): Promise<{ success: boolean }> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (!(await verifyPassword(input.current_password, users[0].password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.new_password), updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,245 @@
+import { db, type DbTransaction } from '../db';
+import { voucherSeriesTable, voucherSequencesTable, invoiceSeriesTable, invoiceSequencesTable } from '../db/schema';
+import {
+  type VoucherSeries,
+  type UpdateVoucherSeriesInput,
+  type VoucherType,
+  type InvoiceSeries,
+  type UpdateInvoiceSeriesInput,
+  type InvoiceType
+} from '../schema';
+import { asc, eq, ne, sql } from 'drizzle-orm';
+import {
+  voucherTypes,
+  voucherTypeLabels,
+  defaultVoucherPrefixes,
+  invoiceTypes,
+  invoiceTypeLabels,
+  defaultInvoicePrefixes,
+  formatVoucherNumber,
+  seriesNumbersOverlap,
+  FINANCIAL_YEAR_PLACEHOLDER
+} from '../vouchers';
+import { findFinancialYear } from './balances';
+
+const defaultSeriesValues = (voucherType: VoucherType) => ({
+  voucher_type: voucherType,
+  prefix: defaultVoucherPrefixes[voucherType],
+  suffix: '',
+  padding: 4
+});
+
+// Series rows are created on first use so a fresh database needs no seeding
+const ensureVoucherSeries = async (executor: typeof db | DbTransaction, types: VoucherType[]): Promise<void> => {
+  await executor.insert(voucherSeriesTable)
+    .values(types.map(defaultSeriesValues))
+    .onConflictDoNothing()
+    .execute();
+};
+
+// Sequences restart every financial year, so the year must be part of the
+// number to keep numbers unique
+const assertYearInSeries = (prefix: string, suffix: string): void => {
+  if (!`${prefix}${suffix}`.includes(FINANCIAL_YEAR_PLACEHOLDER)) {
+    throw new Error(`Prefix or suffix must contain ${FINANCIAL_YEAR_PLACEHOLDER}`);
+  }
+};
+
+export const getVoucherSeries = async (): Promise<VoucherSeries[]> => {
+  try {
+    await ensureVoucherSeries(db, voucherTypes);
+
+    return await db.select()
+      .from(voucherSeriesTable)
+      .orderBy(asc(voucherSeriesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get voucher series:', error);
+    throw error;
+  }
+};
+
+export const updateVoucherSeries = async (input: UpdateVoucherSeriesInput): Promise<VoucherSeries> => {
+  try {
+    // Every type's series must exist to be compared against
+    await ensureVoucherSeries(db, voucherTypes);
+
+    const existing = await db.select()
+      .from(voucherSeriesTable)
+      .where(eq(voucherSeriesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Voucher series not found');
+    }
+
+    const prefix = input.prefix ?? existing[0].prefix;
+    const suffix = input.suffix ?? existing[0].suffix;
+
+    assertYearInSeries(prefix, suffix);
+
+    // Two types issuing the same number would block each other's postings
+    const padding = input.padding ?? existing[0].padding;
+    const others = await db.select()
+      .from(voucherSeriesTable)
+      .where(ne(voucherSeriesTable.id, input.id))
+      .execute();
+    const clashing = others.find(other => seriesNumbersOverlap(other, { prefix, suffix, padding }));
+
+    if (clashing) {
+      throw new Error(`The ${voucherTypeLabels[clashing.voucher_type]} series can issue the same numbers`);
+    }
+
+    const result = await db.update(voucherSeriesTable)
+      .set({
+        prefix,
+        suffix,
+        padding,
+        updated_at: new Date()
+      })
+      .where(eq(voucherSeriesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Voucher series update failed:', error);
+    throw error;
+  }
+};
+
+// Issues the next number of the voucher type's series for the financial year
+// containing the entry date. Must run inside the posting transaction: the
+// sequence row stays locked until commit, so concurrent postings queue up and
+// a rolled back posting gives its number back, leaving no gaps.
+export const allocateVoucherNumber = async (tx: DbTransaction, voucherType: VoucherType, entryDate: Date): Promise<string> => {
+  const year = await findFinancialYear(tx, entryDate);
+
+  await ensureVoucherSeries(tx, [voucherType]);
+
+  const [series] = await tx.select()
+    .from(voucherSeriesTable)
+    .where(eq(voucherSeriesTable.voucher_type, voucherType))
+    .execute();
+
+  const [sequence] = await tx.insert(voucherSequencesTable)
+    .values({
+      voucher_type: voucherType,
+      financial_year_id: year?.id ?? null,
+      last_number: 1
+    })
+    .onConflictDoUpdate({
+      target: [voucherSequencesTable.voucher_type, voucherSequencesTable.financial_year_id],
+      set: { last_number: sql`${voucherSequencesTable.last_number} + 1` }
+    })
+    .returning({ last_number: voucherSequencesTable.last_number })
+    .execute();
+
+  // Dates outside every financial year are labelled with the calendar year
+  const yearName = year ? year.name : String(entryDate.getUTCFullYear());
+
+  return formatVoucherNumber(series, yearName, sequence.last_number);
+};
+
+const ensureInvoiceSeries = async (executor: typeof db | DbTransaction, types: InvoiceType[]): Promise<void> => {
+  await executor.insert(invoiceSeriesTable)
+    .values(types.map(invoiceType => ({
+      invoice_type: invoiceType,
+      prefix: defaultInvoicePrefixes[invoiceType],
+      suffix: '',
+      padding: 4
+    })))
+    .onConflictDoNothing()
+    .execute();
+};
+
+export const getInvoiceSeries = async (): Promise<InvoiceSeries[]> => {
+  try {
+    await ensureInvoiceSeries(db, invoiceTypes);
+
+    return await db.select()
+      .from(invoiceSeriesTable)
+      .orderBy(asc(invoiceSeriesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get invoice series:', error);
+    throw error;
+  }
+};
+
+export const updateInvoiceSeries = async (input: UpdateInvoiceSeriesInput): Promise<InvoiceSeries> => {
+  try {
+    await ensureInvoiceSeries(db, invoiceTypes);
+
+    const existing = await db.select()
+      .from(invoiceSeriesTable)
+      .where(eq(invoiceSeriesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Invoice series not found');
+    }
+
+    const prefix = input.prefix ?? existing[0].prefix;
+    const suffix = input.suffix ?? existing[0].suffix;
+
+    assertYearInSeries(prefix, suffix);
+
+    const padding = input.padding ?? existing[0].padding;
+    const others = await db.select()
+      .from(invoiceSeriesTable)
+      .where(ne(invoiceSeriesTable.id, input.id))
+      .execute();
+    const clashing = others.find(other => seriesNumbersOverlap(other, { prefix, suffix, padding }));
+
+    if (clashing) {
+      throw new Error(`The ${invoiceTypeLabels[clashing.invoice_type]} series can issue the same numbers`);
+    }
+
+    const result = await db.update(invoiceSeriesTable)
+      .set({
+        prefix,
+        suffix,
+        padding,
+        updated_at: new Date()
+      })
+      .where(eq(invoiceSeriesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Invoice series update failed:', error);
+    throw error;
+  }
+};
+
+// Issues the next invoice number of the type's series, in the same way as
+// allocateVoucherNumber
+export const allocateInvoiceNumber = async (tx: DbTransaction, invoiceType: InvoiceType, invoiceDate: Date): Promise<string> => {
+  const year = await findFinancialYear(tx, invoiceDate);
+
+  await ensureInvoiceSeries(tx, [invoiceType]);
+
+  const [series] = await tx.select()
+    .from(invoiceSeriesTable)
+    .where(eq(invoiceSeriesTable.invoice_type, invoiceType))
+    .execute();
+
+  const [sequence] = await tx.insert(invoiceSequencesTable)
+    .values({
+      invoice_type: invoiceType,
+      financial_year_id: year?.id ?? null,
+      last_number: 1
+    })
+    .onConflictDoUpdate({
+      target: [invoiceSequencesTable.invoice_type, invoiceSequencesTable.financial_year_id],
+      set: { last_number: sql`${invoiceSequencesTable.last_number} + 1` }
+    })
+    .returning({ last_number: invoiceSequencesTable.last_number })
+    .execute();
+
+  const yearName = year ? year.name : String(invoiceDate.getUTCFullYear());
+
+  return formatVoucherNumber(series, yearName, sequence.last_number);
+};
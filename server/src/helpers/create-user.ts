@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { hashPassword } from '../handlers/auth';
+import { userRoleSchema } from '../schema';
+
+// Usage: bun src/helpers/create-user.ts <username> <email> <password> [role]
+// Creates an admin by default, which is how the first account is bootstrapped
+const [username, email, password, roleArg = 'admin'] = process.argv.slice(2);
+const role = userRoleSchema.safeParse(roleArg);
+
+if (!username || !email || !password || !role.success) {
+  console.error('Usage: bun src/helpers/create-user.ts <username> <email> <password> [admin|accountant|data_entry|auditor]');
+  process.exit(1);
+}
+
+hashPassword(password)
+  .then(password_hash => db.insert(usersTable).values({ username, email, password_hash, role: role.data }).execute())
+  .then(() => {
+    console.log(`User ${username} created successfully`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error(`Failed to create user ${username}:`, error);
+    process.exit(1);
+  });
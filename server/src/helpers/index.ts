@@ -1,4 +1,4 @@
-import { db } from '../db';
+import { db, protectAuditLog } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
@@ -15,4 +15,5 @@ export const createDB = async () => {
     generateDrizzleJson({ ...schema })
   );
   await db.execute(migrationStatements.join('\n'));
+  await protectAuditLog();
 };
@@ -1,38 +1,116 @@
 
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import { protectAuditLog } from './db';
+import { router, publicProcedure, protectedProcedure, authorizedProcedure, createContext } from './trpc';
 
 // Import schemas
 import {
   loginInputSchema,
+  createUserInputSchema,
+  updateUserInputSchema,
+  resetPasswordInputSchema,
+  changePasswordInputSchema,
   createGroupInputSchema,
   updateGroupInputSchema,
+  moveGroupInputSchema,
+  mergeGroupsInputSchema,
+  groupTreeInputSchema,
   createContactInputSchema,
   updateContactInputSchema,
   createLedgerInputSchema,
   updateLedgerInputSchema,
+  applyChartTemplateInputSchema,
   createFinancialYearInputSchema,
+  closeFinancialYearInputSchema,
+  setLockDateInputSchema,
+  setPeriodLockInputSchema,
+  lockOverrideSchema,
   createTransactionInputSchema,
+  transactionsByDateRangeInputSchema,
   searchInputSchema,
   deleteInputSchema,
+  auditLogInputSchema,
   daybookReportInputSchema,
   ledgerReportInputSchema,
-  trialBalanceInputSchema
+  trialBalanceInputSchema,
+  groupedTrialBalanceInputSchema,
+  profitAndLossInputSchema,
+  balanceSheetInputSchema,
+  daybookReportSchema,
+  ledgerReportSchema,
+  contactStatementInputSchema,
+  contactStatementSchema,
+  trialBalanceSchema,
+  groupedTrialBalanceSchema,
+  profitAndLossSchema,
+  balanceSheetSchema,
+  comparativeInputSchema,
+  comparativeTrialBalanceSchema,
+  comparativeProfitAndLossSchema,
+  comparativeBalanceSheetSchema,
+  cashFlowInputSchema,
+  cashFlowStatementSchema,
+  exportReportInputSchema,
+  exportContactsInputSchema,
+  exportContactStatementInputSchema,
+  exportFileSchema,
+  importBankStatementInputSchema,
+  bankStatementSchema,
+  bankStatementsInputSchema,
+  bankReconciliationInputSchema,
+  bankReconciliationSchema,
+  autoMatchBankStatementInputSchema,
+  matchBankStatementLineInputSchema,
+  createVoucherFromStatementLineInputSchema,
+  setClearingDateInputSchema,
+  bankReconciliationStatementInputSchema,
+  bankReconciliationStatementSchema,
+  billwiseLedgerInputSchema,
+  billwiseLedgerSchema,
+  allocateBillSettlementInputSchema,
+  agingReportInputSchema,
+  agingReportSchema,
+  contactOutstandingSchema,
+  updateVoucherSeriesInputSchema,
+  updateInvoiceSeriesInputSchema,
+  createInvoiceInputSchema,
+  updateInvoiceInputSchema,
+  invoicesInputSchema,
+  invoiceSchema,
+  invoiceWithLinesSchema,
+  exportInvoiceInputSchema,
+  updateTaxSettingsInputSchema,
+  taxSettingsSchema,
+  createTaxRateInputSchema,
+  updateTaxRateInputSchema,
+  taxRateSchema,
+  taxSummaryInputSchema,
+  taxSummarySchema,
+  exportTaxReturnInputSchema
 } from './schema';
 
 // Import handlers
-import { login } from './handlers/auth';
+import { login, logout, rehashPlaintextPasswords } from './handlers/auth';
+import {
+  createUser,
+  getUsers,
+  updateUser,
+  resetUserPassword,
+  changePassword
+} from './handlers/users';
 import {
   createGroup,
   getGroups,
   getGroup,
   updateGroup,
   deleteGroup,
-  searchGroups
+  searchGroups,
+  moveGroup,
+  mergeGroups,
+  getGroupTree
 } from './handlers/groups';
 import {
   createContact,
@@ -50,12 +128,18 @@ import {
   deleteLedger,
   searchLedgers
 } from './handlers/ledgers';
+import { applyChartTemplate } from './handlers/chart_of_accounts';
 import {
   createFinancialYear,
   getFinancialYears,
   getActiveFinancialYear,
   setActiveFinancialYear,
-  deleteFinancialYear
+  deleteFinancialYear,
+  closeFinancialYear,
+  setLockDate,
+  setPeriodLock,
+  getLockedPeriods,
+  getFinancialYearOpeningBalances
 } from './handlers/financial_years';
 import {
   createTransaction,
@@ -63,28 +147,60 @@ import {
   getTransaction,
   getTransactionsByDateRange,
   correctTransaction,
+  getCorrectionChain,
   deleteTransaction
 } from './handlers/transactions';
+import {
+  getVoucherSeries,
+  updateVoucherSeries,
+  getInvoiceSeries,
+  updateInvoiceSeries
+} from './handlers/voucher_series';
+import { createInvoice, getInvoices, getInvoice, updateInvoice, deleteInvoice } from './handlers/invoices';
+import {
+  getTaxSettings,
+  updateTaxSettings,
+  createTaxRate,
+  getTaxRates,
+  updateTaxRate,
+  deleteTaxRate,
+  getTaxSummary,
+  exportTaxReturn
+} from './handlers/taxes';
 import {
   getDaybookReport,
   getLedgerReport,
+  getContactStatement,
   getTrialBalance,
+  getGroupedTrialBalance,
   getProfitAndLoss,
-  getBalanceSheet
+  getBalanceSheet,
+  getComparativeTrialBalance,
+  getComparativeProfitAndLoss,
+  getComparativeBalanceSheet,
+  getCashFlowStatement
 } from './handlers/reports';
+import { exportReport, exportContacts, exportContactStatement, exportInvoice } from './handlers/exports';
+import {
+  importBankStatement,
+  getBankStatements,
+  deleteBankStatement,
+  getBankReconciliation,
+  autoMatchBankStatement,
+  matchBankStatementLine,
+  unmatchBankStatementLine,
+  createVoucherFromStatementLine,
+  setClearingDate,
+  getBankReconciliationStatement
+} from './handlers/bank_reconciliation';
+import { getBillwiseLedger, allocateBillSettlement, getAgingReport, getContactOutstanding } from './handlers/bills';
+import { getAuditLog } from './handlers/audit';
 import {
   backupDatabase,
   cleanEntireDatabase,
   cleanCorrections
 } from './handlers/tools';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -95,147 +211,405 @@ const appRouter = router({
   login: publicProcedure
     .input(loginInputSchema)
     .mutation(({ input }) => login(input)),
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout({ token: ctx.session_token })),
+  getCurrentUser: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+  changePassword: protectedProcedure
+    .meta({ entity: 'user' })
+    .input(changePasswordInputSchema)
+    .mutation(({ ctx, input }) => changePassword(ctx.user.id, input)),
+
+  // Users
+  createUser: authorizedProcedure('users:manage')
+    .meta({ entity: 'user' })
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+  getUsers: authorizedProcedure('users:manage')
+    .query(() => getUsers()),
+  updateUser: authorizedProcedure('users:manage')
+    .meta({ entity: 'user' })
+    .input(updateUserInputSchema)
+    .mutation(({ input }) => updateUser(input)),
+  resetUserPassword: authorizedProcedure('users:manage')
+    .meta({ entity: 'user' })
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetUserPassword(input)),
 
   // Groups
-  createGroup: publicProcedure
+  createGroup: authorizedProcedure('masters:write')
+    .meta({ entity: 'group' })
     .input(createGroupInputSchema)
     .mutation(({ input }) => createGroup(input)),
-  getGroups: publicProcedure
+  getGroups: authorizedProcedure('masters:read')
     .query(() => getGroups()),
-  getGroup: publicProcedure
+  getGroup: authorizedProcedure('masters:read')
     .input(deleteInputSchema)
     .query(({ input }) => getGroup(input)),
-  updateGroup: publicProcedure
+  updateGroup: authorizedProcedure('masters:write')
+    .meta({ entity: 'group' })
     .input(updateGroupInputSchema)
     .mutation(({ input }) => updateGroup(input)),
-  deleteGroup: publicProcedure
+  deleteGroup: authorizedProcedure('masters:write')
+    .meta({ entity: 'group' })
     .input(deleteInputSchema)
     .mutation(({ input }) => deleteGroup(input)),
-  searchGroups: publicProcedure
+  searchGroups: authorizedProcedure('masters:read')
     .input(searchInputSchema)
     .query(({ input }) => searchGroups(input)),
+  moveGroup: authorizedProcedure('masters:write')
+    .meta({ entity: 'group' })
+    .input(moveGroupInputSchema)
+    .mutation(({ input }) => moveGroup(input)),
+  mergeGroups: authorizedProcedure('masters:write')
+    .meta({ entity: 'group' })
+    .input(mergeGroupsInputSchema)
+    .mutation(({ input }) => mergeGroups(input)),
+  getGroupTree: authorizedProcedure('masters:read')
+    .input(groupTreeInputSchema)
+    .query(({ input }) => getGroupTree(input)),
 
   // Contacts
-  createContact: publicProcedure
+  createContact: authorizedProcedure('masters:write')
+    .meta({ entity: 'contact' })
     .input(createContactInputSchema)
     .mutation(({ input }) => createContact(input)),
-  getContacts: publicProcedure
+  getContacts: authorizedProcedure('masters:read')
     .query(() => getContacts()),
-  getContact: publicProcedure
+  getContact: authorizedProcedure('masters:read')
     .input(deleteInputSchema)
     .query(({ input }) => getContact(input)),
-  updateContact: publicProcedure
+  updateContact: authorizedProcedure('masters:write')
+    .meta({ entity: 'contact' })
     .input(updateContactInputSchema)
     .mutation(({ input }) => updateContact(input)),
-  deleteContact: publicProcedure
+  deleteContact: authorizedProcedure('masters:write')
+    .meta({ entity: 'contact' })
     .input(deleteInputSchema)
     .mutation(({ input }) => deleteContact(input)),
-  searchContacts: publicProcedure
+  searchContacts: authorizedProcedure('masters:read')
     .input(searchInputSchema)
     .query(({ input }) => searchContacts(input)),
 
   // Ledgers
-  createLedger: publicProcedure
+  createLedger: authorizedProcedure('masters:write')
+    .meta({ entity: 'ledger' })
     .input(createLedgerInputSchema)
     .mutation(({ input }) => createLedger(input)),
-  getLedgers: publicProcedure
+  getLedgers: authorizedProcedure('masters:read')
     .query(() => getLedgers()),
-  getLedger: publicProcedure
+  getLedger: authorizedProcedure('masters:read')
     .input(deleteInputSchema)
     .query(({ input }) => getLedger(input)),
-  updateLedger: publicProcedure
+  updateLedger: authorizedProcedure('masters:write')
+    .meta({ entity: 'ledger' })
     .input(updateLedgerInputSchema)
     .mutation(({ input }) => updateLedger(input)),
-  deleteLedger: publicProcedure
+  deleteLedger: authorizedProcedure('masters:write')
+    .meta({ entity: 'ledger' })
     .input(deleteInputSchema)
     .mutation(({ input }) => deleteLedger(input)),
-  searchLedgers: publicProcedure
+  searchLedgers: authorizedProcedure('masters:read')
     .input(searchInputSchema)
     .query(({ input }) => searchLedgers(input)),
 
+  // Chart of accounts
+  applyChartTemplate: authorizedProcedure('settings:manage')
+    .meta({ entity: 'database' })
+    .input(applyChartTemplateInputSchema)
+    .mutation(({ input }) => applyChartTemplate(input)),
+
   // Financial Years
-  createFinancialYear: publicProcedure
+  createFinancialYear: authorizedProcedure('masters:write')
+    .meta({ entity: 'financial_year' })
     .input(createFinancialYearInputSchema)
     .mutation(({ input }) => createFinancialYear(input)),
-  getFinancialYears: publicProcedure
+  getFinancialYears: authorizedProcedure('masters:read')
     .query(() => getFinancialYears()),
-  getActiveFinancialYear: publicProcedure
+  getActiveFinancialYear: authorizedProcedure('masters:read')
     .query(() => getActiveFinancialYear()),
-  setActiveFinancialYear: publicProcedure
+  setActiveFinancialYear: authorizedProcedure('masters:write')
+    .meta({ entity: 'financial_year' })
     .input(deleteInputSchema)
     .mutation(({ input }) => setActiveFinancialYear(input)),
-  deleteFinancialYear: publicProcedure
+  deleteFinancialYear: authorizedProcedure('masters:write')
+    .meta({ entity: 'financial_year' })
     .input(deleteInputSchema)
     .mutation(({ input }) => deleteFinancialYear(input)),
+  closeFinancialYear: authorizedProcedure('settings:manage')
+    .meta({ entity: 'financial_year' })
+    .input(closeFinancialYearInputSchema)
+    .mutation(({ input }) => closeFinancialYear(input)),
+  setLockDate: authorizedProcedure('settings:manage')
+    .meta({ entity: 'financial_year' })
+    .input(setLockDateInputSchema)
+    .mutation(({ input }) => setLockDate(input)),
+  setPeriodLock: authorizedProcedure('settings:manage')
+    .meta({ entity: 'financial_year' })
+    .input(setPeriodLockInputSchema)
+    .mutation(({ input }) => setPeriodLock(input)),
+  getLockedPeriods: authorizedProcedure('masters:read')
+    .query(() => getLockedPeriods()),
+  getFinancialYearOpeningBalances: authorizedProcedure('masters:read')
+    .input(deleteInputSchema)
+    .query(({ input }) => getFinancialYearOpeningBalances(input)),
 
   // Transactions
-  createTransaction: publicProcedure
-    .input(createTransactionInputSchema)
+  createTransaction: authorizedProcedure('vouchers:create')
+    .meta({ entity: 'transaction' })
+    .input(createTransactionInputSchema.merge(lockOverrideSchema))
     .mutation(({ input }) => createTransaction(input)),
-  getTransactions: publicProcedure
+  getTransactions: authorizedProcedure('vouchers:read')
     .query(() => getTransactions()),
-  getTransaction: publicProcedure
+  getTransaction: authorizedProcedure('vouchers:read')
     .input(deleteInputSchema)
     .query(({ input }) => getTransaction(input)),
-  getTransactionsByDateRange: publicProcedure
-    .input(z.object({
-      start_date: z.coerce.date(),
-      end_date: z.coerce.date()
-    }))
+  getTransactionsByDateRange: authorizedProcedure('vouchers:read')
+    .input(transactionsByDateRangeInputSchema)
     .query(({ input }) => getTransactionsByDateRange(input)),
-  correctTransaction: publicProcedure
+  correctTransaction: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'transaction' })
     .input(z.object({
       id: z.number(),
       correction_data: createTransactionInputSchema
-    }))
+    }).merge(lockOverrideSchema))
     .mutation(({ input }) => correctTransaction(input)),
-  deleteTransaction: publicProcedure
+  getCorrectionChain: authorizedProcedure('vouchers:read')
     .input(deleteInputSchema)
+    .query(({ input }) => getCorrectionChain(input)),
+  deleteTransaction: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'transaction' })
+    .input(deleteInputSchema.merge(lockOverrideSchema))
     .mutation(({ input }) => deleteTransaction(input)),
 
+  // Voucher and invoice numbering
+  getVoucherSeries: authorizedProcedure('masters:read')
+    .query(() => getVoucherSeries()),
+  updateVoucherSeries: authorizedProcedure('settings:manage')
+    .meta({ entity: 'voucher_series' })
+    .input(updateVoucherSeriesInputSchema)
+    .mutation(({ input }) => updateVoucherSeries(input)),
+  getInvoiceSeries: authorizedProcedure('masters:read')
+    .query(() => getInvoiceSeries()),
+  updateInvoiceSeries: authorizedProcedure('settings:manage')
+    .meta({ entity: 'invoice_series' })
+    .input(updateInvoiceSeriesInputSchema)
+    .mutation(({ input }) => updateInvoiceSeries(input)),
+
+  // Invoices
+  createInvoice: authorizedProcedure('vouchers:create')
+    .meta({ entity: 'invoice' })
+    .input(createInvoiceInputSchema.merge(lockOverrideSchema))
+    .mutation(({ input }) => createInvoice(input)),
+  getInvoices: authorizedProcedure('vouchers:read')
+    .input(invoicesInputSchema)
+    .output(z.array(invoiceSchema))
+    .query(({ input }) => getInvoices(input)),
+  getInvoice: authorizedProcedure('vouchers:read')
+    .input(deleteInputSchema)
+    .output(invoiceWithLinesSchema)
+    .query(({ input }) => getInvoice(input)),
+  updateInvoice: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'invoice' })
+    .input(updateInvoiceInputSchema.merge(lockOverrideSchema))
+    .mutation(({ input }) => updateInvoice(input)),
+  deleteInvoice: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'invoice' })
+    .input(deleteInputSchema.merge(lockOverrideSchema))
+    .mutation(({ input }) => deleteInvoice(input)),
+  exportInvoice: authorizedProcedure('vouchers:read')
+    .input(exportInvoiceInputSchema)
+    .output(exportFileSchema)
+    .query(({ input }) => exportInvoice(input)),
+
+  // Taxes
+  getTaxSettings: authorizedProcedure('masters:read')
+    .output(taxSettingsSchema)
+    .query(() => getTaxSettings()),
+  updateTaxSettings: authorizedProcedure('settings:manage')
+    .meta({ entity: 'tax_settings' })
+    .input(updateTaxSettingsInputSchema)
+    .output(taxSettingsSchema)
+    .mutation(({ input }) => updateTaxSettings(input)),
+  createTaxRate: authorizedProcedure('settings:manage')
+    .meta({ entity: 'tax_rate' })
+    .input(createTaxRateInputSchema)
+    .output(taxRateSchema)
+    .mutation(({ input }) => createTaxRate(input)),
+  getTaxRates: authorizedProcedure('masters:read')
+    .output(z.array(taxRateSchema))
+    .query(() => getTaxRates()),
+  updateTaxRate: authorizedProcedure('settings:manage')
+    .meta({ entity: 'tax_rate' })
+    .input(updateTaxRateInputSchema)
+    .output(taxRateSchema)
+    .mutation(({ input }) => updateTaxRate(input)),
+  deleteTaxRate: authorizedProcedure('settings:manage')
+    .meta({ entity: 'tax_rate' })
+    .input(deleteInputSchema)
+    .mutation(({ input }) => deleteTaxRate(input)),
+  getTaxSummary: authorizedProcedure('reports:read')
+    .input(taxSummaryInputSchema)
+    .output(taxSummarySchema)
+    .query(({ input }) => getTaxSummary(input)),
+  exportTaxReturn: authorizedProcedure('reports:read')
+    .input(exportTaxReturnInputSchema)
+    .output(exportFileSchema)
+    .query(({ input }) => exportTaxReturn(input)),
+
   // Reports
-  getDaybookReport: publicProcedure
+  getDaybookReport: authorizedProcedure('reports:read')
     .input(daybookReportInputSchema)
+    .output(daybookReportSchema)
     .query(({ input }) => getDaybookReport(input)),
-  getLedgerReport: publicProcedure
+  getLedgerReport: authorizedProcedure('reports:read')
     .input(ledgerReportInputSchema)
+    .output(ledgerReportSchema)
     .query(({ input }) => getLedgerReport(input)),
-  getTrialBalance: publicProcedure
+  getContactStatement: authorizedProcedure('reports:read')
+    .input(contactStatementInputSchema)
+    .output(contactStatementSchema)
+    .query(({ input }) => getContactStatement(input)),
+  getTrialBalance: authorizedProcedure('reports:read')
     .input(trialBalanceInputSchema)
+    .output(trialBalanceSchema)
     .query(({ input }) => getTrialBalance(input)),
-  getProfitAndLoss: publicProcedure
-    .input(z.object({
-      start_date: z.coerce.date(),
-      end_date: z.coerce.date()
-    }))
+  getGroupedTrialBalance: authorizedProcedure('reports:read')
+    .input(groupedTrialBalanceInputSchema)
+    .output(groupedTrialBalanceSchema)
+    .query(({ input }) => getGroupedTrialBalance(input)),
+  getProfitAndLoss: authorizedProcedure('reports:read')
+    .input(profitAndLossInputSchema)
+    .output(profitAndLossSchema)
     .query(({ input }) => getProfitAndLoss(input)),
-  getBalanceSheet: publicProcedure
-    .input(z.object({
-      as_on_date: z.coerce.date()
-    }))
+  getBalanceSheet: authorizedProcedure('reports:read')
+    .input(balanceSheetInputSchema)
+    .output(balanceSheetSchema)
     .query(({ input }) => getBalanceSheet(input)),
+  getComparativeTrialBalance: authorizedProcedure('reports:read')
+    .input(comparativeInputSchema)
+    .output(comparativeTrialBalanceSchema)
+    .query(({ input }) => getComparativeTrialBalance(input)),
+  getComparativeProfitAndLoss: authorizedProcedure('reports:read')
+    .input(comparativeInputSchema)
+    .output(comparativeProfitAndLossSchema)
+    .query(({ input }) => getComparativeProfitAndLoss(input)),
+  getComparativeBalanceSheet: authorizedProcedure('reports:read')
+    .input(comparativeInputSchema)
+    .output(comparativeBalanceSheetSchema)
+    .query(({ input }) => getComparativeBalanceSheet(input)),
+  getCashFlowStatement: authorizedProcedure('reports:read')
+    .input(cashFlowInputSchema)
+    .output(cashFlowStatementSchema)
+    .query(({ input }) => getCashFlowStatement(input)),
+
+  // Exports
+  exportReport: authorizedProcedure('reports:read')
+    .input(exportReportInputSchema)
+    .output(exportFileSchema)
+    .query(({ input }) => exportReport(input)),
+  exportContacts: authorizedProcedure('masters:read')
+    .input(exportContactsInputSchema)
+    .output(exportFileSchema)
+    .query(({ input }) => exportContacts(input)),
+  exportContactStatement: authorizedProcedure('reports:read')
+    .input(exportContactStatementInputSchema)
+    .output(exportFileSchema)
+    .query(({ input }) => exportContactStatement(input)),
+
+  // Bank reconciliation
+  importBankStatement: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'bank_statement' })
+    .input(importBankStatementInputSchema)
+    .output(bankStatementSchema)
+    .mutation(({ input }) => importBankStatement(input)),
+  getBankStatements: authorizedProcedure('vouchers:read')
+    .input(bankStatementsInputSchema)
+    .query(({ input }) => getBankStatements(input)),
+  deleteBankStatement: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'bank_statement' })
+    .input(deleteInputSchema)
+    .mutation(({ input }) => deleteBankStatement(input)),
+  getBankReconciliation: authorizedProcedure('vouchers:read')
+    .input(bankReconciliationInputSchema)
+    .output(bankReconciliationSchema)
+    .query(({ input }) => getBankReconciliation(input)),
+  autoMatchBankStatement: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'bank_statement' })
+    .input(autoMatchBankStatementInputSchema)
+    .mutation(({ input }) => autoMatchBankStatement(input)),
+  matchBankStatementLine: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'bank_statement_line' })
+    .input(matchBankStatementLineInputSchema)
+    .mutation(({ input }) => matchBankStatementLine(input)),
+  unmatchBankStatementLine: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'bank_statement_line' })
+    .input(deleteInputSchema)
+    .mutation(({ input }) => unmatchBankStatementLine(input)),
+  createVoucherFromStatementLine: authorizedProcedure('vouchers:create')
+    .meta({ entity: 'bank_statement_line' })
+    .input(createVoucherFromStatementLineInputSchema.merge(lockOverrideSchema))
+    .mutation(({ input }) => createVoucherFromStatementLine(input)),
+  setClearingDate: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'transaction', key: 'detail_id' })
+    .input(setClearingDateInputSchema)
+    .mutation(({ input }) => setClearingDate(input)),
+  getBankReconciliationStatement: authorizedProcedure('reports:read')
+    .input(bankReconciliationStatementInputSchema)
+    .output(bankReconciliationStatementSchema)
+    .query(({ input }) => getBankReconciliationStatement(input)),
+
+  // Bills and aging
+  getBillwiseLedger: authorizedProcedure('vouchers:read')
+    .input(billwiseLedgerInputSchema)
+    .output(billwiseLedgerSchema)
+    .query(({ input }) => getBillwiseLedger(input)),
+  allocateBillSettlement: authorizedProcedure('vouchers:modify')
+    .meta({ entity: 'transaction', key: 'detail_id' })
+    .input(allocateBillSettlementInputSchema)
+    .mutation(({ input }) => allocateBillSettlement(input)),
+  getAgingReport: authorizedProcedure('reports:read')
+    .input(agingReportInputSchema)
+    .output(agingReportSchema)
+    .query(({ input }) => getAgingReport(input)),
+  getContactOutstanding: authorizedProcedure('reports:read')
+    .output(z.array(contactOutstandingSchema))
+    .query(() => getContactOutstanding()),
+
+  // Audit log
+  getAuditLog: authorizedProcedure('audit:read')
+    .input(auditLogInputSchema)
+    .query(({ input }) => getAuditLog(input)),
 
   // Tools
-  backupDatabase: publicProcedure
+  backupDatabase: authorizedProcedure('tools:run')
+    .meta({ entity: 'database' })
     .mutation(() => backupDatabase()),
-  cleanEntireDatabase: publicProcedure
+  cleanEntireDatabase: authorizedProcedure('tools:run')
+    .meta({ entity: 'database' })
     .mutation(() => cleanEntireDatabase()),
-  cleanCorrections: publicProcedure
+  cleanCorrections: authorizedProcedure('tools:run')
+    .meta({ entity: 'database' })
     .mutation(() => cleanCorrections())
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await protectAuditLog();
+
+  const rehashed = await rehashPlaintextPasswords();
+  if (rehashed > 0) {
+    console.log(`Hashed ${rehashed} password(s) stored in plain text`);
+  }
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
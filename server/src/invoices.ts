@@ -0,0 +1,36 @@
+// Invoice line pricing shared by the server and the client.
+//
+// Each line is rounded to the cent on its own: the discount off quantity
+// times rate, the amount after it, and the tax of each component charged on
+// that amount.
+
+import { type InvoiceLineInput, type TaxComponent } from './schema';
+import { type Money, parseMoney, percentOf, sumMoney } from './money';
+import { componentTaxes } from './taxes';
+
+// Quantity in thousandths, from an API number or a numeric(15,3) column
+const parseQuantity = (value: number | string): bigint => {
+  const [whole, fraction = ''] = String(value).split('.');
+  return BigInt(whole) * 1000n + BigInt(fraction.padEnd(3, '0'));
+};
+
+export interface LinePrice {
+  discount: Money;
+  amount: Money;
+  // Tax of each of the components, in their order
+  taxes: Money[];
+  tax: Money;
+}
+
+export const priceInvoiceLine = (
+  line: Pick<InvoiceLineInput, 'quantity' | 'rate' | 'discount_percent'>,
+  components: Pick<TaxComponent, 'rate'>[]
+): LinePrice => {
+  // Half a cent of quantity times rate rounds up
+  const gross = (parseQuantity(line.quantity) * parseMoney(line.rate) * 2n + 1000n) / 2000n;
+  const discount = percentOf(gross, line.discount_percent);
+  const amount = gross - discount;
+  const taxes = componentTaxes(amount, components);
+
+  return { discount, amount, taxes, tax: sumMoney(taxes) };
+};
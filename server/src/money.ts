@@ -0,0 +1,80 @@
+// Exact money arithmetic.
+//
+// Amounts are stored as numeric(15,2) and travel over the API as numbers with
+// at most two decimal places. All arithmetic happens on Money values: bigint
+// counts of the minor unit (paise/cents), so sums and comparisons are exact.
+
+export type Money = bigint;
+
+export const ZERO_MONEY: Money = 0n;
+
+// numeric(15,2) holds at most 13 digits before the decimal point
+const MAX_MINOR_UNITS = 10n ** 15n - 1n;
+
+const MONEY_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+const parseMoneyText = (text: string): Money | null => {
+  const match = MONEY_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const minorUnits = BigInt(whole) * 100n + BigInt(fraction.padEnd(2, '0'));
+
+  if (minorUnits > MAX_MINOR_UNITS) {
+    return null;
+  }
+
+  return sign ? -minorUnits : minorUnits;
+};
+
+// True when the number is exactly representable as an amount with at most
+// two decimal places that fits numeric(15,2)
+export const isValidMoney = (value: number): boolean => {
+  return Number.isFinite(value) && parseMoneyText(String(value)) !== null;
+};
+
+// Parses an API number or a numeric column string. Null is treated as zero so
+// the result of SQL sum() over no rows can be passed straight in.
+export const parseMoney = (value: number | string | null): Money => {
+  if (value === null) {
+    return ZERO_MONEY;
+  }
+
+  const money = parseMoneyText(typeof value === 'number' ? String(value) : value.trim());
+  if (money === null) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  return money;
+};
+
+// Formats a Money value for a numeric(15,2) column, e.g. -1234.50
+export const formatMoney = (money: Money): string => {
+  const minorUnits = money < 0n ? -money : money;
+  const whole = minorUnits / 100n;
+  const fraction = (minorUnits % 100n).toString().padStart(2, '0');
+
+  return `${money < 0n ? '-' : ''}${whole}.${fraction}`;
+};
+
+// Converts a Money value to the number returned by the API
+export const moneyToNumber = (money: Money): number => {
+  return Number(formatMoney(money));
+};
+
+export const sumMoney = (values: Money[]): Money => {
+  return values.reduce((total, value) => total + value, ZERO_MONEY);
+};
+
+export const absMoney = (money: Money): Money => {
+  return money < 0n ? -money : money;
+};
+
+// Share of an amount at a percentage with at most two decimal places, e.g.
+// 18% of 269.97 is 48.59. Half a minor unit rounds away from zero.
+export const percentOf = (money: Money, percent: number): Money => {
+  const share = (absMoney(money) * parseMoney(percent) * 2n + 10000n) / 20000n;
+  return money < 0n ? -share : share;
+};
@@ -0,0 +1,72 @@
+// Column layouts for comparative statements, shared by the server and the client.
+//
+// Dates are calendar days at midnight UTC, like entry dates.
+
+import { type ComparativeColumn } from './schema';
+
+export type ComparativeLayout = 'year_over_year' | 'quarterly' | 'monthly';
+
+export const comparativeLayoutLabels: Record<ComparativeLayout, string> = {
+  year_over_year: 'This period vs the same period last year',
+  quarterly: 'Quarter by quarter',
+  monthly: 'Month by month'
+};
+
+export const comparativeLayouts = Object.keys(comparativeLayoutLabels) as ComparativeLayout[];
+
+const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Day of the given month, moved back to the last day for shorter months.
+// Months past December roll over into the following years.
+const dayOf = (year: number, month: number, day: number): Date => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+};
+
+export const formatDay = (date: Date) => `${date.getUTCDate()} ${monthNames[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+
+export const formatMonth = (date: Date) => `${monthNames[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+
+// Whole months are named by their months, other periods by their days
+export const columnLabel = (startDate: Date, endDate: Date): string => {
+  const startsMonth = startDate.getUTCDate() === 1;
+  const endsMonth = dayOf(endDate.getUTCFullYear(), endDate.getUTCMonth(), 31).getTime() === endDate.getTime();
+
+  if (!startsMonth || !endsMonth) {
+    return `${formatDay(startDate)} – ${formatDay(endDate)}`;
+  }
+  if (startDate.getUTCFullYear() === endDate.getUTCFullYear() && startDate.getUTCMonth() === endDate.getUTCMonth()) {
+    return formatMonth(startDate);
+  }
+  if (startDate.getUTCFullYear() === endDate.getUTCFullYear()) {
+    return `${monthNames[startDate.getUTCMonth()]} – ${formatMonth(endDate)}`;
+  }
+  return `${formatMonth(startDate)} – ${formatMonth(endDate)}`;
+};
+
+// Columns for the period, oldest first. Year over year puts the same dates
+// a year earlier before the period; quarters and months are counted from
+// the start date's month, with the first and last cut to the period.
+export const comparativeColumns = (layout: ComparativeLayout, startDate: Date, endDate: Date): ComparativeColumn[] => {
+  if (layout === 'year_over_year') {
+    const previousStart = dayOf(startDate.getUTCFullYear() - 1, startDate.getUTCMonth(), startDate.getUTCDate());
+    const previousEnd = dayOf(endDate.getUTCFullYear() - 1, endDate.getUTCMonth(), endDate.getUTCDate());
+    return [
+      { label: columnLabel(previousStart, previousEnd), start_date: previousStart, end_date: previousEnd },
+      { label: columnLabel(startDate, endDate), start_date: startDate, end_date: endDate }
+    ];
+  }
+
+  const step = layout === 'quarterly' ? 3 : 1;
+  const columns: ComparativeColumn[] = [];
+  let columnStart = startDate;
+
+  for (let months = step; columnStart <= endDate; months += step) {
+    const nextStart = dayOf(startDate.getUTCFullYear(), startDate.getUTCMonth() + months, 1);
+    const columnEnd = new Date(Math.min(nextStart.getTime() - 24 * 60 * 60 * 1000, endDate.getTime()));
+    columns.push({ label: columnLabel(columnStart, columnEnd), start_date: columnStart, end_date: columnEnd });
+    columnStart = nextStart;
+  }
+
+  return columns;
+};
@@ -0,0 +1,55 @@
+import { type UserRole } from './schema';
+
+// Actions guarded per tRPC procedure. Reading masters is granted to every
+// role because the report and entry screens need ledger and group lists.
+export type Permission =
+  | 'masters:read'
+  | 'masters:write'
+  | 'vouchers:read'
+  | 'vouchers:create'
+  | 'vouchers:modify'
+  | 'reports:read'
+  | 'audit:read'
+  | 'tools:run'
+  | 'settings:manage'
+  | 'periods:override'
+  | 'users:manage';
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: [
+    'masters:read',
+    'masters:write',
+    'vouchers:read',
+    'vouchers:create',
+    'vouchers:modify',
+    'reports:read',
+    'audit:read',
+    'tools:run',
+    'settings:manage',
+    'periods:override',
+    'users:manage'
+  ],
+  accountant: [
+    'masters:read',
+    'masters:write',
+    'vouchers:read',
+    'vouchers:create',
+    'vouchers:modify',
+    'reports:read',
+    'audit:read'
+  ],
+  data_entry: [
+    'masters:read',
+    'vouchers:read',
+    'vouchers:create'
+  ],
+  auditor: [
+    'masters:read',
+    'reports:read',
+    'audit:read'
+  ]
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return rolePermissions[role].includes(permission);
+};
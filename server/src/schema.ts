@@ -1,5 +1,21 @@
 
 import { z } from 'zod';
+import { isValidMoney } from './money';
+import { isValidTaxId } from './taxes';
+
+// Monetary amount with at most two decimal places, matching numeric(15,2)
+export const moneySchema = z.number().refine(isValidMoney, {
+  message: 'Amount must have at most two decimal places and fit numeric(15,2)'
+});
+
+export const nonNegativeMoneySchema = z.number().nonnegative().refine(isValidMoney, {
+  message: 'Amount must have at most two decimal places and fit numeric(15,2)'
+});
+
+// User role schema
+export const userRoleSchema = z.enum(['admin', 'accountant', 'data_entry', 'auditor']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
 
 // User schema
 export const userSchema = z.object({
@@ -7,12 +23,50 @@ export const userSchema = z.object({
   username: z.string(),
   email: z.string().email(),
   password_hash: z.string(),
+  role: userRoleSchema,
+  is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Create user input schema
+export const createUserInputSchema = z.object({
+  username: z.string().min(1),
+  email: z.string().email(),
+  password: z.string().min(8),
+  role: userRoleSchema
+});
+
+export type CreateUserInput = z.infer<typeof createUserInputSchema>;
+
+// Update user input schema
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  email: z.string().email().optional(),
+  role: userRoleSchema.optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+// Reset password input schema (admin sets a new password for a user)
+export const resetPasswordInputSchema = z.object({
+  id: z.number(),
+  new_password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Change password input schema (user changes their own password)
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(8)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
 // Login input schema
 export const loginInputSchema = z.object({
   username: z.string().min(1),
@@ -21,21 +75,47 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Authenticated user as exposed to the client and the tRPC context
+export const sessionUserSchema = userSchema.omit({ password_hash: true });
+
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+
 // Login response schema
 export const loginResponseSchema = z.object({
   success: z.boolean(),
-  user: userSchema.omit({ password_hash: true }).optional(),
+  user: sessionUserSchema.optional(),
+  token: z.string().optional(),
+  expires_at: z.coerce.date().optional(),
   message: z.string().optional()
 });
 
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
 
+// Group nature schema. Asset, liability and equity ledgers appear in the
+// balance sheet and are carried forward when a financial year is closed;
+// income and expense ledgers appear in the profit and loss statement and are
+// transferred to the retained earnings ledger. Sub-groups without a nature
+// take their parent's.
+export const groupNatureSchema = z.enum(['asset', 'liability', 'equity', 'income', 'expense']);
+
+export type GroupNature = z.infer<typeof groupNatureSchema>;
+
+// Cash flow activity of the ledgers in a group. Sub-groups without one take
+// their parent's; without any, equity counts as financing and everything
+// else as operating.
+export const cashFlowActivitySchema = z.enum(['operating', 'investing', 'financing']);
+
+export type CashFlowActivity = z.infer<typeof cashFlowActivitySchema>;
+
 // Group schema
 export const groupSchema = z.object({
   id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
   parent_group_id: z.number().nullable(),
+  nature: groupNatureSchema.nullable(),
+  cash_flow_activity: cashFlowActivitySchema.nullable(),
+  is_system: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -46,7 +126,9 @@ export type Group = z.infer<typeof groupSchema>;
 export const createGroupInputSchema = z.object({
   name: z.string().min(1),
   description: z.string().nullable().optional(),
-  parent_group_id: z.number().optional()
+  parent_group_id: z.number().optional(),
+  nature: groupNatureSchema.nullable().optional(),
+  cash_flow_activity: cashFlowActivitySchema.nullable().optional()
 });
 
 export type CreateGroupInput = z.infer<typeof createGroupInputSchema>;
@@ -56,11 +138,78 @@ export const updateGroupInputSchema = z.object({
   id: z.number(),
   name: z.string().min(1).optional(),
   description: z.string().nullable().optional(),
-  parent_group_id: z.number().nullable().optional()
+  parent_group_id: z.number().nullable().optional(),
+  nature: groupNatureSchema.nullable().optional(),
+  cash_flow_activity: cashFlowActivitySchema.nullable().optional()
 });
 
 export type UpdateGroupInput = z.infer<typeof updateGroupInputSchema>;
 
+// Move group input schema; a null parent makes it a primary group
+export const moveGroupInputSchema = z.object({
+  id: z.number(),
+  parent_group_id: z.number().nullable()
+});
+
+export type MoveGroupInput = z.infer<typeof moveGroupInputSchema>;
+
+// Merge group input schema. The sub-groups and ledgers of group id move to
+// the target group and group id is deleted.
+export const mergeGroupsInputSchema = z.object({
+  id: z.number(),
+  target_group_id: z.number()
+});
+
+export type MergeGroupsInput = z.infer<typeof mergeGroupsInputSchema>;
+
+export const groupTreeInputSchema = z.object({
+  as_on_date: z.coerce.date()
+});
+
+export type GroupTreeInput = z.infer<typeof groupTreeInputSchema>;
+
+// Group tree node. Counts and balances include every sub-group; debits and
+// credits are the postings from the start of the financial year, and the
+// closing balance adds them to the opening balances. effective_nature is the
+// nature inherited from the nearest parent that has one.
+export interface GroupTreeNode {
+  id: number;
+  name: string;
+  parent_group_id: number | null;
+  nature: GroupNature | null;
+  effective_nature: GroupNature | null;
+  is_system: boolean;
+  ledger_count: number;
+  total_debit: number;
+  total_credit: number;
+  closing_balance: number;
+  balance_type: 'debit' | 'credit';
+  children: GroupTreeNode[];
+}
+
+export const groupTreeNodeSchema: z.ZodType<GroupTreeNode> = z.object({
+  id: z.number(),
+  name: z.string(),
+  parent_group_id: z.number().nullable(),
+  nature: groupNatureSchema.nullable(),
+  effective_nature: groupNatureSchema.nullable(),
+  is_system: z.boolean(),
+  ledger_count: z.number().int(),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  balance_type: z.enum(['debit', 'credit']),
+  children: z.lazy(() => z.array(groupTreeNodeSchema))
+});
+
+// Tax ids are GSTINs or VAT numbers, state codes the two characters of a
+// GSTIN state code or similar
+export const taxIdSchema = z.string().refine(isValidTaxId, {
+  message: 'Tax ID must be a valid GSTIN or a VAT number such as DE123456789'
+});
+
+export const stateCodeSchema = z.string().regex(/^[0-9A-Z]{2}$/, 'State code must be two digits or capital letters');
+
 // Contact schema
 export const contactSchema = z.object({
   id: z.number(),
@@ -69,6 +218,8 @@ export const contactSchema = z.object({
   phone: z.string().nullable(),
   email: z.string().email().nullable(),
   address: z.string().nullable(),
+  tax_id: z.string().nullable(),
+  state_code: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -81,7 +232,9 @@ export const createContactInputSchema = z.object({
   contact_type: z.enum(['customer', 'supplier', 'both']),
   phone: z.string().nullable().optional(),
   email: z.string().email().nullable().optional(),
-  address: z.string().nullable().optional()
+  address: z.string().nullable().optional(),
+  tax_id: taxIdSchema.nullable().optional(),
+  state_code: stateCodeSchema.nullable().optional()
 });
 
 export type CreateContactInput = z.infer<typeof createContactInputSchema>;
@@ -93,19 +246,29 @@ export const updateContactInputSchema = z.object({
   contact_type: z.enum(['customer', 'supplier', 'both']).optional(),
   phone: z.string().nullable().optional(),
   email: z.string().email().nullable().optional(),
-  address: z.string().nullable().optional()
+  address: z.string().nullable().optional(),
+  tax_id: taxIdSchema.nullable().optional(),
+  state_code: stateCodeSchema.nullable().optional()
 });
 
 export type UpdateContactInput = z.infer<typeof updateContactInputSchema>;
 
+// Ledger type schema. Cash and bank ledgers are the money accounts that
+// payment, receipt and contra vouchers are validated against.
+export const ledgerTypeSchema = z.enum(['general', 'cash', 'bank']);
+
+export type LedgerType = z.infer<typeof ledgerTypeSchema>;
+
 // Ledger schema
 export const ledgerSchema = z.object({
   id: z.number(),
   name: z.string(),
   group_id: z.number(),
   contact_id: z.number().nullable(),
-  opening_balance: z.number(),
+  opening_balance: moneySchema,
   balance_type: z.enum(['debit', 'credit']),
+  ledger_type: ledgerTypeSchema,
+  is_system: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -117,8 +280,9 @@ export const createLedgerInputSchema = z.object({
   name: z.string().min(1),
   group_id: z.number(),
   contact_id: z.number().optional(),
-  opening_balance: z.number().default(0),
-  balance_type: z.enum(['debit', 'credit']).default('debit')
+  opening_balance: moneySchema.default(0),
+  balance_type: z.enum(['debit', 'credit']).default('debit'),
+  ledger_type: ledgerTypeSchema.default('general')
 });
 
 export type CreateLedgerInput = z.infer<typeof createLedgerInputSchema>;
@@ -129,12 +293,25 @@ export const updateLedgerInputSchema = z.object({
   name: z.string().min(1).optional(),
   group_id: z.number().optional(),
   contact_id: z.number().nullable().optional(),
-  opening_balance: z.number().optional(),
-  balance_type: z.enum(['debit', 'credit']).optional()
+  opening_balance: moneySchema.optional(),
+  balance_type: z.enum(['debit', 'credit']).optional(),
+  ledger_type: ledgerTypeSchema.optional()
 });
 
 export type UpdateLedgerInput = z.infer<typeof updateLedgerInputSchema>;
 
+// Chart of accounts templates, applied to a database without groups or
+// ledgers. The template groups and reserved ledgers are system entries.
+export const chartTemplateIdSchema = z.enum(['indian_primary', 'small_business']);
+
+export type ChartTemplateId = z.infer<typeof chartTemplateIdSchema>;
+
+export const applyChartTemplateInputSchema = z.object({
+  template: chartTemplateIdSchema
+});
+
+export type ApplyChartTemplateInput = z.infer<typeof applyChartTemplateInputSchema>;
+
 // Financial Year schema
 export const financialYearSchema = z.object({
   id: z.number(),
@@ -142,6 +319,9 @@ export const financialYearSchema = z.object({
   start_date: z.coerce.date(),
   end_date: z.coerce.date(),
   is_active: z.boolean(),
+  is_closed: z.boolean(),
+  closed_at: z.coerce.date().nullable(),
+  lock_date: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -158,15 +338,108 @@ export const createFinancialYearInputSchema = z.object({
 
 export type CreateFinancialYearInput = z.infer<typeof createFinancialYearInputSchema>;
 
+// Lock date input schema. Entries dated on or before the lock date are
+// read-only; null removes the lock.
+export const setLockDateInputSchema = z.object({
+  id: z.number(),
+  lock_date: z.coerce.date().nullable()
+});
+
+export type SetLockDateInput = z.infer<typeof setLockDateInputSchema>;
+
+// Locked month of a financial year; month runs from 1 to 12
+export const lockedPeriodSchema = z.object({
+  id: z.number(),
+  financial_year_id: z.number(),
+  year: z.number().int(),
+  month: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type LockedPeriod = z.infer<typeof lockedPeriodSchema>;
+
+export const setPeriodLockInputSchema = z.object({
+  id: z.number(),
+  year: z.number().int(),
+  month: z.number().int().min(1).max(12),
+  locked: z.boolean()
+});
+
+export type SetPeriodLockInput = z.infer<typeof setPeriodLockInputSchema>;
+
+// Administrators may post, correct or delete vouchers in locked periods by
+// setting override_lock; the audit log records every such override
+export const lockOverrideSchema = z.object({
+  override_lock: z.boolean().optional()
+});
+
+export type LockOverrideInput = z.infer<typeof lockOverrideSchema>;
+
+// Close financial year input schema. The year's profit or loss is carried
+// into the retained earnings ledger's opening balance for the next year.
+export const closeFinancialYearInputSchema = z.object({
+  id: z.number(),
+  retained_earnings_ledger_id: z.number()
+});
+
+export type CloseFinancialYearInput = z.infer<typeof closeFinancialYearInputSchema>;
+
+// Opening balance of a ledger in a financial year
+export const ledgerOpeningBalanceSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  opening_balance: moneySchema,
+  balance_type: z.enum(['debit', 'credit'])
+});
+
+export type LedgerOpeningBalance = z.infer<typeof ledgerOpeningBalanceSchema>;
+
+// Voucher type schema
+export const voucherTypeSchema = z.enum(['journal', 'payment', 'receipt', 'contra', 'sales', 'purchase', 'debit_note', 'credit_note']);
+
+export type VoucherType = z.infer<typeof voucherTypeSchema>;
+
+// Voucher series schema. The {FY} placeholder in the prefix or suffix is
+// replaced with the financial year name when a number is issued.
+export const voucherSeriesSchema = z.object({
+  id: z.number(),
+  voucher_type: voucherTypeSchema,
+  prefix: z.string(),
+  suffix: z.string(),
+  padding: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type VoucherSeries = z.infer<typeof voucherSeriesSchema>;
+
+// Update voucher series input schema
+export const updateVoucherSeriesInputSchema = z.object({
+  id: z.number(),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  padding: z.number().int().min(1).max(10).optional()
+});
+
+export type UpdateVoucherSeriesInput = z.infer<typeof updateVoucherSeriesInputSchema>;
+
+// Entry status schema. Correcting a voucher marks it superseded and posts a
+// reversal entry that cancels it, followed by the replacement entry.
+export const entryStatusSchema = z.enum(['active', 'superseded', 'reversal']);
+
+export type EntryStatus = z.infer<typeof entryStatusSchema>;
+
 // Transaction entry schema
 export const transactionEntrySchema = z.object({
   id: z.number(),
   entry_number: z.string(),
+  voucher_type: voucherTypeSchema,
   entry_date: z.coerce.date(),
   description: z.string(),
-  total_amount: z.number(),
+  total_amount: moneySchema,
   is_correction: z.boolean(),
   original_entry_id: z.number().nullable(),
+  status: entryStatusSchema,
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -178,27 +451,49 @@ export const transactionDetailSchema = z.object({
   id: z.number(),
   entry_id: z.number(),
   ledger_id: z.number(),
-  debit_amount: z.number(),
-  credit_amount: z.number(),
-  description: z.string().nullable()
+  debit_amount: nonNegativeMoneySchema,
+  credit_amount: nonNegativeMoneySchema,
+  description: z.string().nullable(),
+  cleared_date: z.coerce.date().nullable(),
+  tax_rate_id: z.number().nullable(),
+  tax_component_id: z.number().nullable()
 });
 
 export type TransactionDetail = z.infer<typeof transactionDetailSchema>;
 
-// Create transaction input schema
+// A voucher in a correction chain together with its detail lines
+export const correctionChainEntrySchema = transactionEntrySchema.extend({
+  details: z.array(transactionDetailSchema)
+});
+
+export type CorrectionChainEntry = z.infer<typeof correctionChainEntrySchema>;
+
+// Create transaction input schema. A line with a tax rate is a taxable
+// value; its tax lines are added when the voucher is posted.
 export const createTransactionInputSchema = z.object({
+  voucher_type: voucherTypeSchema.default('journal'),
   entry_date: z.coerce.date(),
   description: z.string().min(1),
   details: z.array(z.object({
     ledger_id: z.number(),
-    debit_amount: z.number().default(0),
-    credit_amount: z.number().default(0),
-    description: z.string().nullable().optional()
+    debit_amount: nonNegativeMoneySchema.default(0),
+    credit_amount: nonNegativeMoneySchema.default(0),
+    description: z.string().nullable().optional(),
+    tax_rate_id: z.number().nullable().optional()
   })).min(2)
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
 
+// Date range input schema for listing vouchers
+export const transactionsByDateRangeInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  voucher_type: voucherTypeSchema.optional()
+});
+
+export type TransactionsByDateRangeInput = z.infer<typeof transactionsByDateRangeInputSchema>;
+
 // Search input schema
 export const searchInputSchema = z.object({
   query: z.string().min(1),
@@ -209,32 +504,1097 @@ export const searchInputSchema = z.object({
 export type SearchInput = z.infer<typeof searchInputSchema>;
 
 // Report input schemas
+// Weekly periods start on Monday
+export const reportPeriodSchema = z.enum(['daily', 'weekly', 'monthly']);
+
+export type ReportPeriod = z.infer<typeof reportPeriodSchema>;
+
 export const daybookReportInputSchema = z.object({
   start_date: z.coerce.date(),
   end_date: z.coerce.date(),
-  period: z.enum(['daily', 'weekly', 'monthly']).default('daily'),
-  day_summary: z.boolean().default(false)
+  period: reportPeriodSchema.default('daily'),
+  day_summary: z.boolean().default(false),
+  voucher_type: voucherTypeSchema.optional()
 });
 
 export type DaybookReportInput = z.infer<typeof daybookReportInputSchema>;
 
+export const daybookLineSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  description: z.string().nullable(),
+  debit_amount: z.number(),
+  credit_amount: z.number()
+});
+
+export type DaybookLine = z.infer<typeof daybookLineSchema>;
+
+export const daybookVoucherSchema = z.object({
+  entry_id: z.number(),
+  entry_number: z.string(),
+  voucher_type: voucherTypeSchema,
+  entry_date: z.coerce.date(),
+  description: z.string(),
+  total_amount: z.number(),
+  lines: z.array(daybookLineSchema)
+});
+
+export type DaybookVoucher = z.infer<typeof daybookVoucherSchema>;
+
+// Vouchers of one daily, weekly or monthly period with their totals. Periods
+// without vouchers are left out.
+export const daybookPeriodSchema = z.object({
+  period_start: z.coerce.date(),
+  period_end: z.coerce.date(),
+  voucher_count: z.number(),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  vouchers: z.array(daybookVoucherSchema)
+});
+
+export type DaybookPeriod = z.infer<typeof daybookPeriodSchema>;
+
+// With day_summary the periods carry only their totals, without vouchers
+export const daybookReportSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  period: reportPeriodSchema,
+  day_summary: z.boolean(),
+  periods: z.array(daybookPeriodSchema),
+  totals: z.object({
+    voucher_count: z.number(),
+    total_debit: z.number(),
+    total_credit: z.number()
+  })
+});
+
+export type DaybookReport = z.infer<typeof daybookReportSchema>;
+
 export const ledgerReportInputSchema = z.object({
   ledger_id: z.number().optional(),
   group_id: z.number().optional(),
+  contact_id: z.number().optional(),
   start_date: z.coerce.date(),
   end_date: z.coerce.date(),
-  period: z.enum(['daily', 'weekly', 'monthly']).default('daily'),
+  period: reportPeriodSchema.default('daily'),
   ledger_summary: z.boolean().default(false)
 });
 
 export type LedgerReportInput = z.infer<typeof ledgerReportInputSchema>;
 
+// Ledger statement line; contra ledgers are the other ledgers of the voucher,
+// by id and by name in the same order, and the balance is the running balance
+// after the line
+export const ledgerStatementLineSchema = z.object({
+  entry_id: z.number(),
+  entry_number: z.string(),
+  entry_date: z.coerce.date(),
+  voucher_type: voucherTypeSchema,
+  description: z.string(),
+  contra_ledger_ids: z.array(z.number()),
+  contra_ledgers: z.array(z.string()),
+  debit_amount: z.number(),
+  credit_amount: z.number(),
+  balance: z.number(),
+  balance_type: z.enum(['debit', 'credit'])
+});
+
+export type LedgerStatementLine = z.infer<typeof ledgerStatementLineSchema>;
+
+// Subtotal of the postings in one daily, weekly or monthly period. Periods
+// without postings are left out.
+export const ledgerStatementPeriodSchema = z.object({
+  period_start: z.coerce.date(),
+  period_end: z.coerce.date(),
+  lines: z.array(ledgerStatementLineSchema),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  closing_balance_type: z.enum(['debit', 'credit'])
+});
+
+export type LedgerStatementPeriod = z.infer<typeof ledgerStatementPeriodSchema>;
+
+export const ledgerStatementSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  opening_balance: z.number(),
+  opening_balance_type: z.enum(['debit', 'credit']),
+  periods: z.array(ledgerStatementPeriodSchema),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  closing_balance_type: z.enum(['debit', 'credit'])
+});
+
+export type LedgerStatement = z.infer<typeof ledgerStatementSchema>;
+
+// With ledger_summary the periods carry only their subtotals, without lines
+export const ledgerReportSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  period: reportPeriodSchema,
+  ledgers: z.array(ledgerStatementSchema)
+});
+
+export type LedgerReport = z.infer<typeof ledgerReportSchema>;
+
+export const contactStatementInputSchema = z.object({
+  contact_id: z.number(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type ContactStatementInput = z.infer<typeof contactStatementInputSchema>;
+
+// Statement of account of a contact across the ledgers linked to it. A
+// voucher touching several of them is one line of their combined amounts,
+// and its contra ledgers leave out the contact's own.
+export const contactStatementSchema = z.object({
+  contact: contactSchema,
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  ledger_names: z.array(z.string()),
+  opening_balance: z.number(),
+  opening_balance_type: z.enum(['debit', 'credit']),
+  lines: z.array(ledgerStatementLineSchema),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  closing_balance_type: z.enum(['debit', 'credit'])
+});
+
+export type ContactStatement = z.infer<typeof contactStatementSchema>;
+
 export const trialBalanceInputSchema = z.object({
   as_on_date: z.coerce.date()
 });
 
 export type TrialBalanceInput = z.infer<typeof trialBalanceInputSchema>;
 
+// Grouped trial balance over a date range. Without a start date the period
+// runs from the start of the financial year containing the end date.
+export const groupedTrialBalanceInputSchema = z.object({
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date(),
+  hide_zero_balances: z.boolean().default(false)
+});
+
+export type GroupedTrialBalanceInput = z.infer<typeof groupedTrialBalanceInputSchema>;
+
+// Amount columns of a trial balance line. Opening and closing balances are
+// shown on the side they fall; balance_type is the side of the opening balance.
+export const trialBalanceAmountsSchema = z.object({
+  opening_balance: z.number(),
+  balance_type: z.enum(['debit', 'credit']),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  closing_balance_type: z.enum(['debit', 'credit'])
+});
+
+export type TrialBalanceAmounts = z.infer<typeof trialBalanceAmountsSchema>;
+
+export const trialBalanceLedgerLineSchema = trialBalanceAmountsSchema.extend({
+  ledger_id: z.number(),
+  ledger_name: z.string()
+});
+
+export type TrialBalanceLedgerLine = z.infer<typeof trialBalanceLedgerLineSchema>;
+
+// Flat trial balance: one line per ledger, from the start of the financial
+// year to the as-on date
+export const trialBalanceSchema = z.array(trialBalanceLedgerLineSchema);
+
+export type TrialBalance = z.infer<typeof trialBalanceSchema>;
+
+// Group line; its amounts are the subtotal of its ledgers and sub-groups
+export interface TrialBalanceGroupLine extends TrialBalanceAmounts {
+  group_id: number;
+  group_name: string;
+  ledgers: TrialBalanceLedgerLine[];
+  children: TrialBalanceGroupLine[];
+}
+
+export const trialBalanceGroupLineSchema: z.ZodType<TrialBalanceGroupLine> = trialBalanceAmountsSchema.extend({
+  group_id: z.number(),
+  group_name: z.string(),
+  ledgers: z.array(trialBalanceLedgerLineSchema),
+  children: z.lazy(() => z.array(trialBalanceGroupLineSchema))
+});
+
+// Grand totals add up the sides of every ledger line; the differences are
+// debits minus credits and are zero when the books balance
+export const groupedTrialBalanceSchema = z.object({
+  start_date: z.coerce.date().nullable(),
+  end_date: z.coerce.date(),
+  groups: z.array(trialBalanceGroupLineSchema),
+  totals: z.object({
+    opening_debit: z.number(),
+    opening_credit: z.number(),
+    total_debit: z.number(),
+    total_credit: z.number(),
+    closing_debit: z.number(),
+    closing_credit: z.number()
+  }),
+  opening_difference: z.number(),
+  closing_difference: z.number()
+});
+
+export type GroupedTrialBalance = z.infer<typeof groupedTrialBalanceSchema>;
+
+export const profitAndLossInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type ProfitAndLossInput = z.infer<typeof profitAndLossInputSchema>;
+
+export const balanceSheetInputSchema = z.object({
+  as_on_date: z.coerce.date()
+});
+
+export type BalanceSheetInput = z.infer<typeof balanceSheetInputSchema>;
+
+// Ledger line of a financial statement. Amounts are positive on the side
+// the section normally falls: income and liabilities as credits, expenses
+// and assets as debits.
+export const statementLineSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  group_name: z.string(),
+  amount: z.number()
+});
+
+export type StatementLine = z.infer<typeof statementLineSchema>;
+
+// net_profit is negative for a loss; net_loss repeats a loss as a positive amount
+export const profitAndLossSchema = z.object({
+  period: z.object({
+    start_date: z.coerce.date(),
+    end_date: z.coerce.date()
+  }),
+  income: z.array(statementLineSchema),
+  expenses: z.array(statementLineSchema),
+  total_income: z.number(),
+  total_expenses: z.number(),
+  net_profit: z.number(),
+  net_loss: z.number()
+});
+
+export type ProfitAndLoss = z.infer<typeof profitAndLossSchema>;
+
+// Unclassified ledgers belong to groups without a nature and keep the side
+// their balance falls on
+export const unclassifiedStatementLineSchema = statementLineSchema.extend({
+  balance_type: z.enum(['debit', 'credit'])
+});
+
+export type UnclassifiedStatementLine = z.infer<typeof unclassifiedStatementLineSchema>;
+
+// difference is assets minus liabilities and equity, zero when the books balance
+export const balanceSheetSchema = z.object({
+  as_on_date: z.coerce.date(),
+  assets: z.array(statementLineSchema),
+  liabilities: z.array(statementLineSchema),
+  equity: z.array(statementLineSchema),
+  unclassified: z.array(unclassifiedStatementLineSchema),
+  retained_profit: z.number(),
+  opening_balance_difference: z.number(),
+  total_assets: z.number(),
+  total_liabilities: z.number(),
+  total_equity: z.number(),
+  difference: z.number()
+});
+
+export type BalanceSheet = z.infer<typeof balanceSheetSchema>;
+
+// Comparative statements show one column per period, oldest first. The
+// balance sheet is taken as on each column's end date.
+export const comparativeColumnSchema = z.object({
+  label: z.string().optional(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type ComparativeColumn = z.infer<typeof comparativeColumnSchema>;
+
+export const comparativeInputSchema = z.object({
+  columns: z.array(comparativeColumnSchema).min(1).max(24)
+});
+
+export type ComparativeInput = z.infer<typeof comparativeInputSchema>;
+
+// Change from the previous column; percent is null when that column is zero
+export const varianceSchema = z.object({
+  amount: z.number(),
+  percent: z.number().nullable()
+});
+
+export type Variance = z.infer<typeof varianceSchema>;
+
+// One amount per column; the first column has no variance
+export const comparativeValuesSchema = z.object({
+  amounts: z.array(z.number()),
+  variances: z.array(varianceSchema.nullable())
+});
+
+export type ComparativeValues = z.infer<typeof comparativeValuesSchema>;
+
+export const comparativeLineSchema = comparativeValuesSchema.extend({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  group_name: z.string()
+});
+
+export type ComparativeLine = z.infer<typeof comparativeLineSchema>;
+
+export const comparativeColumnHeaderSchema = z.object({
+  label: z.string(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type ComparativeColumnHeader = z.infer<typeof comparativeColumnHeaderSchema>;
+
+export const comparativeProfitAndLossSchema = z.object({
+  columns: z.array(comparativeColumnHeaderSchema),
+  income: z.array(comparativeLineSchema),
+  expenses: z.array(comparativeLineSchema),
+  total_income: comparativeValuesSchema,
+  total_expenses: comparativeValuesSchema,
+  net_profit: comparativeValuesSchema
+});
+
+export type ComparativeProfitAndLoss = z.infer<typeof comparativeProfitAndLossSchema>;
+
+// Unclassified amounts are signed, debits positive, since their side can
+// change from one column to the next
+export const comparativeBalanceSheetSchema = z.object({
+  columns: z.array(comparativeColumnHeaderSchema),
+  assets: z.array(comparativeLineSchema),
+  liabilities: z.array(comparativeLineSchema),
+  equity: z.array(comparativeLineSchema),
+  unclassified: z.array(comparativeLineSchema),
+  retained_profit: comparativeValuesSchema,
+  opening_balance_difference: comparativeValuesSchema,
+  total_assets: comparativeValuesSchema,
+  total_liabilities: comparativeValuesSchema,
+  total_equity: comparativeValuesSchema,
+  difference: comparativeValuesSchema
+});
+
+export type ComparativeBalanceSheet = z.infer<typeof comparativeBalanceSheetSchema>;
+
+// Closing balance of every ledger at the end of each column, signed with
+// debits positive, with the debit and credit sides totalled per column
+export const comparativeTrialBalanceSchema = z.object({
+  columns: z.array(comparativeColumnHeaderSchema),
+  ledgers: z.array(comparativeLineSchema),
+  closing_debit: comparativeValuesSchema,
+  closing_credit: comparativeValuesSchema
+});
+
+export type ComparativeTrialBalance = z.infer<typeof comparativeTrialBalanceSchema>;
+
+export const cashFlowInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type CashFlowInput = z.infer<typeof cashFlowInputSchema>;
+
+// Cash and bank receipts and payments against the ledgers of one group.
+// Where a voucher has several ledgers on the other side, its cash is shared
+// out in proportion to their amounts.
+export const cashFlowLineSchema = z.object({
+  group_id: z.number(),
+  group_name: z.string(),
+  receipts: z.number(),
+  payments: z.number(),
+  net: z.number()
+});
+
+export type CashFlowLine = z.infer<typeof cashFlowLineSchema>;
+
+export const cashFlowSectionSchema = z.object({
+  activity: cashFlowActivitySchema,
+  lines: z.array(cashFlowLineSchema),
+  total: z.number()
+});
+
+export type CashFlowSection = z.infer<typeof cashFlowSectionSchema>;
+
+// Adjustment from net profit to operating cash flow. Working capital lines
+// are the change in operating balance sheet groups; non-cash lines take out
+// movements of investing and financing groups that did not pass through
+// cash, such as depreciation.
+export const cashFlowAdjustmentSchema = z.object({
+  group_id: z.number(),
+  group_name: z.string(),
+  kind: z.enum(['working_capital', 'non_cash']),
+  amount: z.number()
+});
+
+export type CashFlowAdjustment = z.infer<typeof cashFlowAdjustmentSchema>;
+
+// Both methods arrive at the same net change in cash; inflows are positive.
+// The direct method lists operating, investing and financing in that order.
+export const cashFlowStatementSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  opening_cash: z.number(),
+  closing_cash: z.number(),
+  net_change: z.number(),
+  direct: z.array(cashFlowSectionSchema),
+  indirect: z.object({
+    net_profit: z.number(),
+    adjustments: z.array(cashFlowAdjustmentSchema),
+    operating_total: z.number(),
+    investing_total: z.number(),
+    financing_total: z.number()
+  })
+});
+
+export type CashFlowStatement = z.infer<typeof cashFlowStatementSchema>;
+
+// Report exports
+export const exportFormatSchema = z.enum(['csv', 'xlsx', 'pdf', 'html']);
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+// The report to export, with the same filter as its report procedure
+export const exportReportInputSchema = z.object({
+  format: exportFormatSchema,
+  report: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('daybook'), filter: daybookReportInputSchema }),
+    z.object({ type: z.literal('ledger'), filter: ledgerReportInputSchema }),
+    z.object({ type: z.literal('trial_balance'), filter: groupedTrialBalanceInputSchema }),
+    z.object({ type: z.literal('profit_and_loss'), filter: profitAndLossInputSchema }),
+    z.object({ type: z.literal('balance_sheet'), filter: balanceSheetInputSchema })
+  ])
+});
+
+export type ExportReportInput = z.infer<typeof exportReportInputSchema>;
+
+export const exportContactsInputSchema = z.object({
+  format: exportFormatSchema
+});
+
+export type ExportContactsInput = z.infer<typeof exportContactsInputSchema>;
+
+export const exportContactStatementInputSchema = contactStatementInputSchema.extend({
+  format: exportFormatSchema
+});
+
+export type ExportContactStatementInput = z.infer<typeof exportContactStatementInputSchema>;
+
+export const exportInvoiceInputSchema = z.object({
+  id: z.number(),
+  format: exportFormatSchema
+});
+
+export type ExportInvoiceInput = z.infer<typeof exportInvoiceInputSchema>;
+
+// Exported file; content is base64 encoded
+export const exportFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string()
+});
+
+export type ExportFile = z.infer<typeof exportFileSchema>;
+
+// Bank reconciliation
+export const bankStatementFormatSchema = z.enum(['csv', 'ofx', 'mt940', 'camt053']);
+
+export type BankStatementFormat = z.infer<typeof bankStatementFormatSchema>;
+
+// Columns of a CSV statement, named by their header. Amounts come from one
+// signed column, deposits positive, or from withdrawal and deposit columns.
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  reference: z.string().optional(),
+  amount: z.string().optional(),
+  withdrawal: z.string().optional(),
+  deposit: z.string().optional(),
+  date_format: z.enum(['yyyy-mm-dd', 'dd/mm/yyyy', 'mm/dd/yyyy', 'dd-mmm-yyyy']).default('yyyy-mm-dd'),
+  delimiter: z.string().length(1).default(',')
+}).refine(mapping => mapping.amount || (mapping.withdrawal && mapping.deposit), {
+  message: 'Map either an amount column or both withdrawal and deposit columns'
+});
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+
+// The statement file's text. closing_balance overrides the balance stated in
+// the file, for formats such as CSV that do not carry one.
+export const importBankStatementInputSchema = z.object({
+  ledger_id: z.number(),
+  format: bankStatementFormatSchema,
+  file_name: z.string().min(1),
+  content: z.string().min(1),
+  csv_mapping: csvColumnMappingSchema.optional(),
+  closing_balance: moneySchema.optional()
+});
+
+export type ImportBankStatementInput = z.infer<typeof importBankStatementInputSchema>;
+
+// Lines already imported into the ledger are skipped and counted
+export const bankStatementSchema = z.object({
+  id: z.number(),
+  ledger_id: z.number(),
+  format: bankStatementFormatSchema,
+  file_name: z.string(),
+  account: z.string().nullable(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  opening_balance: moneySchema.nullable(),
+  closing_balance: moneySchema.nullable(),
+  line_count: z.number().int(),
+  skipped_count: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type BankStatement = z.infer<typeof bankStatementSchema>;
+
+export const bankStatementsInputSchema = z.object({
+  ledger_id: z.number()
+});
+
+export type BankStatementsInput = z.infer<typeof bankStatementsInputSchema>;
+
+export const bankMatchTypeSchema = z.enum(['auto', 'manual', 'voucher']);
+
+export type BankMatchType = z.infer<typeof bankMatchTypeSchema>;
+
+// Book line of a bank ledger; the amount is signed with debits (deposits)
+// positive
+export const bankBookLineSchema = z.object({
+  detail_id: z.number(),
+  entry_id: z.number(),
+  entry_number: z.string(),
+  voucher_type: voucherTypeSchema,
+  entry_date: z.coerce.date(),
+  description: z.string(),
+  amount: moneySchema,
+  cleared_date: z.coerce.date().nullable()
+});
+
+export type BankBookLine = z.infer<typeof bankBookLineSchema>;
+
+// Statement line with the book lines it is matched to. Matches to superseded
+// vouchers no longer count, so a corrected voucher's line shows as unmatched.
+export const bankStatementLineSchema = z.object({
+  id: z.number(),
+  statement_id: z.number(),
+  ledger_id: z.number(),
+  line_date: z.coerce.date(),
+  value_date: z.coerce.date().nullable(),
+  description: z.string(),
+  reference: z.string().nullable(),
+  amount: moneySchema,
+  match_type: bankMatchTypeSchema.nullable(),
+  matched_lines: z.array(bankBookLineSchema)
+});
+
+export type BankStatementLine = z.infer<typeof bankStatementLineSchema>;
+
+// Statement lines dated in the range, and every uncleared book line of the
+// ledger up to the end date
+export const bankReconciliationInputSchema = z.object({
+  ledger_id: z.number(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type BankReconciliationInput = z.infer<typeof bankReconciliationInputSchema>;
+
+export const bankReconciliationSchema = z.object({
+  ledger_id: z.number(),
+  statement_lines: z.array(bankStatementLineSchema),
+  uncleared_lines: z.array(bankBookLineSchema)
+});
+
+export type BankReconciliation = z.infer<typeof bankReconciliationSchema>;
+
+// Matches the unmatched lines of a statement to uncleared book lines of the
+// same sign dated within date_tolerance_days and differing in amount by no
+// more than amount_tolerance
+export const autoMatchBankStatementInputSchema = z.object({
+  id: z.number(),
+  date_tolerance_days: z.number().int().nonnegative().max(60).default(3),
+  amount_tolerance: nonNegativeMoneySchema.default(0)
+});
+
+export type AutoMatchBankStatementInput = z.infer<typeof autoMatchBankStatementInputSchema>;
+
+export const autoMatchResultSchema = z.object({
+  statement_id: z.number(),
+  matched_count: z.number().int(),
+  unmatched_count: z.number().int()
+});
+
+export type AutoMatchResult = z.infer<typeof autoMatchResultSchema>;
+
+// Manual match of a statement line to book lines whose amounts add up to it
+export const matchBankStatementLineInputSchema = z.object({
+  id: z.number(),
+  detail_ids: z.array(z.number()).min(1)
+});
+
+export type MatchBankStatementLineInput = z.infer<typeof matchBankStatementLineInputSchema>;
+
+// Posts a receipt for a deposit or a payment for a withdrawal, or a contra
+// voucher when the other ledger is a cash or bank ledger, and matches it
+export const createVoucherFromStatementLineInputSchema = z.object({
+  id: z.number(),
+  contra_ledger_id: z.number(),
+  description: z.string().min(1).optional()
+});
+
+export type CreateVoucherFromStatementLineInput = z.infer<typeof createVoucherFromStatementLineInputSchema>;
+
+// Sets or removes the clearing date of a book line by hand, for items without
+// a statement line such as those cleared before statements were imported
+export const setClearingDateInputSchema = z.object({
+  detail_id: z.number(),
+  cleared_date: z.coerce.date().nullable()
+});
+
+export type SetClearingDateInput = z.infer<typeof setClearingDateInputSchema>;
+
+export const bankReconciliationStatementInputSchema = z.object({
+  ledger_id: z.number(),
+  as_on_date: z.coerce.date()
+});
+
+export type BankReconciliationStatementInput = z.infer<typeof bankReconciliationStatementInputSchema>;
+
+export const bankOnlyItemSchema = z.object({
+  line_id: z.number(),
+  line_date: z.coerce.date(),
+  description: z.string(),
+  reference: z.string().nullable(),
+  amount: moneySchema
+});
+
+export type BankOnlyItem = z.infer<typeof bankOnlyItemSchema>;
+
+// Bank reconciliation statement as on a date, from the balance as per books
+// (debit positive) to the balance as per bank:
+//   books - deposits not cleared + payments not presented
+//         + bank credits not in books - bank debits not in books
+// Totals and bank items are positive; book lines keep their signed amounts.
+// statement_balance is the last imported closing
+// balance carried forward by later statement lines, and difference is it
+// minus the balance as per bank; both are null without a stated balance.
+export const bankReconciliationStatementSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  as_on_date: z.coerce.date(),
+  balance_as_per_books: moneySchema,
+  deposits_not_cleared: z.array(bankBookLineSchema),
+  deposits_not_cleared_total: moneySchema,
+  payments_not_presented: z.array(bankBookLineSchema),
+  payments_not_presented_total: moneySchema,
+  bank_credits_not_in_books: z.array(bankOnlyItemSchema),
+  bank_credits_not_in_books_total: moneySchema,
+  bank_debits_not_in_books: z.array(bankOnlyItemSchema),
+  bank_debits_not_in_books_total: moneySchema,
+  balance_as_per_bank: moneySchema,
+  statement_balance: moneySchema.nullable(),
+  difference: moneySchema.nullable()
+});
+
+export type BankReconciliationStatement = z.infer<typeof bankReconciliationStatementSchema>;
+
+// Bills and aging
+// On a ledger linked to a contact, the lines of sales and purchase vouchers
+// are bills and every other line settles them. The ledger's own opening
+// balance is an item of its own, dated before every voucher.
+export const billwiseItemKindSchema = z.enum(['opening', 'bill', 'settlement']);
+
+export type BillwiseItemKind = z.infer<typeof billwiseItemKindSchema>;
+
+export const billAllocationSchema = z.object({
+  bill_detail_id: z.number(),
+  amount: nonNegativeMoneySchema.refine(amount => amount > 0, { message: 'Allocated amounts must be positive' })
+});
+
+export type BillAllocation = z.infer<typeof billAllocationSchema>;
+
+// Amounts are signed with debits positive. outstanding is what remains once
+// settlements are set against the bills they are allocated to and anything
+// left over against the oldest open items on the other side. allocations are
+// those made by a settlement.
+export const billwiseItemSchema = z.object({
+  kind: billwiseItemKindSchema,
+  detail_id: z.number().nullable(),
+  entry_id: z.number().nullable(),
+  entry_number: z.string().nullable(),
+  voucher_type: voucherTypeSchema.nullable(),
+  ledger_id: z.number(),
+  date: z.coerce.date().nullable(),
+  description: z.string(),
+  amount: moneySchema,
+  outstanding: moneySchema,
+  allocations: z.array(billAllocationSchema)
+});
+
+export type BillwiseItem = z.infer<typeof billwiseItemSchema>;
+
+export const billwiseLedgerInputSchema = z.object({
+  ledger_id: z.number(),
+  as_on_date: z.coerce.date().optional()
+});
+
+export type BillwiseLedgerInput = z.infer<typeof billwiseLedgerInputSchema>;
+
+export const billwiseLedgerSchema = z.object({
+  ledger_id: z.number(),
+  ledger_name: z.string(),
+  contact_id: z.number(),
+  balance: moneySchema,
+  items: z.array(billwiseItemSchema)
+});
+
+export type BillwiseLedger = z.infer<typeof billwiseLedgerSchema>;
+
+// Replaces the allocations of a settling line
+export const allocateBillSettlementInputSchema = z.object({
+  detail_id: z.number(),
+  allocations: z.array(billAllocationSchema)
+});
+
+export type AllocateBillSettlementInput = z.infer<typeof allocateBillSettlementInputSchema>;
+
+// Outstanding amounts by age in days from the item date; the opening balance
+// falls in the oldest bucket
+export const agingBucketsSchema = z.object({
+  days_0_30: moneySchema,
+  days_31_60: moneySchema,
+  days_61_90: moneySchema,
+  days_over_90: moneySchema,
+  total: moneySchema
+});
+
+export type AgingBuckets = z.infer<typeof agingBucketsSchema>;
+
+export const agingItemSchema = billwiseItemSchema.extend({
+  ledger_name: z.string(),
+  age_days: z.number().int().nullable()
+});
+
+export type AgingItem = z.infer<typeof agingItemSchema>;
+
+export const agingRowSchema = agingBucketsSchema.extend({
+  contact_id: z.number(),
+  contact_name: z.string(),
+  contact_type: z.enum(['customer', 'supplier', 'both']),
+  items: z.array(agingItemSchema)
+});
+
+export type AgingRow = z.infer<typeof agingRowSchema>;
+
+export const agingReportInputSchema = z.object({
+  as_on_date: z.coerce.date(),
+  contact_id: z.number().optional()
+});
+
+export type AgingReportInput = z.infer<typeof agingReportInputSchema>;
+
+// Ledgers left with debit items are receivables and those left with credit
+// items payables, whatever the contact's type, so a customer's advance shows
+// among the payables. Bucket amounts are positive.
+export const agingReportSchema = z.object({
+  as_on_date: z.coerce.date(),
+  receivables: z.array(agingRowSchema),
+  receivables_total: agingBucketsSchema,
+  payables: z.array(agingRowSchema),
+  payables_total: agingBucketsSchema
+});
+
+export type AgingReport = z.infer<typeof agingReportSchema>;
+
+export const contactOutstandingSchema = z.object({
+  contact_id: z.number(),
+  receivable: moneySchema,
+  payable: moneySchema
+});
+
+export type ContactOutstanding = z.infer<typeof contactOutstandingSchema>;
+
+// Invoices
+// A sales invoice posts a sales voucher debiting the customer's ledger and
+// crediting the sales and tax ledgers of its lines; a purchase bill posts the
+// mirror image as a purchase voucher.
+export const invoiceTypeSchema = z.enum(['sales', 'purchase']);
+
+export type InvoiceType = z.infer<typeof invoiceTypeSchema>;
+
+// Quantities have at most three decimal places, matching numeric(15,3)
+export const quantitySchema = z.number().positive().refine(value => /^\d+(\.\d{1,3})?$/.test(String(value)), {
+  message: 'Quantity must have at most three decimal places'
+});
+
+// Discount and tax rates are percentages with at most two decimal places
+export const percentSchema = z.number().min(0).max(100).refine(isValidMoney, {
+  message: 'Percentage must have at most two decimal places'
+});
+
+export const invoiceSeriesSchema = voucherSeriesSchema.omit({ voucher_type: true }).extend({
+  invoice_type: invoiceTypeSchema
+});
+
+export type InvoiceSeries = z.infer<typeof invoiceSeriesSchema>;
+
+export const updateInvoiceSeriesInputSchema = updateVoucherSeriesInputSchema;
+
+export type UpdateInvoiceSeriesInput = z.infer<typeof updateInvoiceSeriesInputSchema>;
+
+export const invoiceLineInputSchema = z.object({
+  description: z.string().min(1),
+  ledger_id: z.number(),
+  quantity: quantitySchema,
+  rate: nonNegativeMoneySchema,
+  discount_percent: percentSchema.default(0),
+  tax_rate_id: z.number().nullable().default(null)
+});
+
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>;
+
+// ledger_id is the contact's ledger the invoice is posted to
+export const createInvoiceInputSchema = z.object({
+  invoice_type: invoiceTypeSchema,
+  contact_id: z.number(),
+  ledger_id: z.number(),
+  invoice_date: z.coerce.date(),
+  due_date: z.coerce.date(),
+  reference: z.string().nullable().default(null),
+  notes: z.string().nullable().default(null),
+  lines: z.array(invoiceLineInputSchema).min(1)
+});
+
+export type CreateInvoiceInput = z.infer<typeof createInvoiceInputSchema>;
+
+// Editing keeps the invoice's type and number
+export const updateInvoiceInputSchema = createInvoiceInputSchema.omit({ invoice_type: true }).extend({
+  id: z.number()
+});
+
+export type UpdateInvoiceInput = z.infer<typeof updateInvoiceInputSchema>;
+
+// Line amounts are rounded to the cent one by one: the discount off quantity
+// times rate, amount after it, and tax on the amount. tax_rate is the total
+// rate charged given the place of supply.
+export const invoiceLineSchema = invoiceLineInputSchema.extend({
+  id: z.number(),
+  invoice_id: z.number(),
+  discount_amount: moneySchema,
+  amount: moneySchema,
+  tax_rate: z.number(),
+  tax_amount: moneySchema
+});
+
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+
+export const invoiceSchema = z.object({
+  id: z.number(),
+  invoice_type: invoiceTypeSchema,
+  invoice_number: z.string(),
+  contact_id: z.number(),
+  contact_name: z.string(),
+  ledger_id: z.number(),
+  invoice_date: z.coerce.date(),
+  due_date: z.coerce.date(),
+  reference: z.string().nullable(),
+  notes: z.string().nullable(),
+  discount_amount: moneySchema,
+  taxable_amount: moneySchema,
+  tax_amount: moneySchema,
+  total_amount: moneySchema,
+  entry_id: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+export const invoiceWithLinesSchema = invoiceSchema.extend({
+  lines: z.array(invoiceLineSchema)
+});
+
+export type InvoiceWithLines = z.infer<typeof invoiceWithLinesSchema>;
+
+export const invoicesInputSchema = z.object({
+  invoice_type: invoiceTypeSchema.optional(),
+  contact_id: z.number().optional()
+});
+
+export type InvoicesInput = z.infer<typeof invoicesInputSchema>;
+
+// Taxes
+export const taxHeadSchema = z.enum(['cgst', 'sgst', 'igst', 'cess', 'vat']);
+
+export type TaxHead = z.infer<typeof taxHeadSchema>;
+
+// Whether the contact is in the business's own state
+export const supplyTypeSchema = z.enum(['intra_state', 'inter_state']);
+
+export type SupplyType = z.infer<typeof supplyTypeSchema>;
+
+// Output tax is charged on sales, input tax credit claimed on purchases
+export const taxDirectionSchema = z.enum(['output', 'input']);
+
+export type TaxDirection = z.infer<typeof taxDirectionSchema>;
+
+export const taxSettingsSchema = z.object({
+  id: z.number(),
+  tax_id: z.string().nullable(),
+  state_code: z.string().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export type TaxSettings = z.infer<typeof taxSettingsSchema>;
+
+export const updateTaxSettingsInputSchema = z.object({
+  tax_id: taxIdSchema.nullable().optional(),
+  state_code: stateCodeSchema.nullable().optional()
+});
+
+export type UpdateTaxSettingsInput = z.infer<typeof updateTaxSettingsInputSchema>;
+
+export const taxComponentInputSchema = z.object({
+  head: taxHeadSchema,
+  rate: percentSchema,
+  output_ledger_id: z.number(),
+  input_ledger_id: z.number()
+});
+
+export type TaxComponentInput = z.infer<typeof taxComponentInputSchema>;
+
+export const taxComponentSchema = taxComponentInputSchema.extend({
+  id: z.number(),
+  tax_rate_id: z.number()
+});
+
+export type TaxComponent = z.infer<typeof taxComponentSchema>;
+
+export const taxRateSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rate: z.number(),
+  components: z.array(taxComponentSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TaxRate = z.infer<typeof taxRateSchema>;
+
+// The components charged on either kind of supply add up to the rate; a
+// rate of zero has none
+export const createTaxRateInputSchema = z.object({
+  name: z.string().min(1),
+  rate: percentSchema,
+  components: z.array(taxComponentInputSchema)
+});
+
+export type CreateTaxRateInput = z.infer<typeof createTaxRateInputSchema>;
+
+export const updateTaxRateInputSchema = createTaxRateInputSchema.extend({
+  id: z.number()
+});
+
+export type UpdateTaxRateInput = z.infer<typeof updateTaxRateInputSchema>;
+
+export const taxSummaryInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type TaxSummaryInput = z.infer<typeof taxSummaryInputSchema>;
+
+// Taxable values and tax of one rate; returns reduce them
+export const taxRateSummarySchema = z.object({
+  tax_rate_id: z.number(),
+  name: z.string(),
+  rate: z.number(),
+  output_taxable: moneySchema,
+  output_tax: moneySchema,
+  input_taxable: moneySchema,
+  input_tax: moneySchema
+});
+
+export type TaxRateSummary = z.infer<typeof taxRateSummarySchema>;
+
+export const taxHeadSummarySchema = z.object({
+  head: taxHeadSchema,
+  output_tax: moneySchema,
+  input_tax: moneySchema,
+  net_payable: moneySchema
+});
+
+export type TaxHeadSummary = z.infer<typeof taxHeadSummarySchema>;
+
+// Net payable is output tax less input tax credit; below zero the credit
+// carries forward
+export const taxSummarySchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  rates: z.array(taxRateSummarySchema),
+  heads: z.array(taxHeadSummarySchema),
+  total_output_tax: moneySchema,
+  total_input_tax: moneySchema,
+  net_payable: moneySchema
+});
+
+export type TaxSummary = z.infer<typeof taxSummarySchema>;
+
+// GSTR-1 lists outward supplies, GSTR-3B summarises tax payable and credit
+export const taxReturnFormSchema = z.enum(['gstr1', 'gstr3b']);
+
+export type TaxReturnForm = z.infer<typeof taxReturnFormSchema>;
+
+export const exportTaxReturnInputSchema = taxSummaryInputSchema.extend({
+  form: taxReturnFormSchema
+});
+
+export type ExportTaxReturnInput = z.infer<typeof exportTaxReturnInputSchema>;
+
+// Audit log schemas
+export const auditEntitySchema = z.enum(['group', 'contact', 'ledger', 'financial_year', 'transaction', 'voucher_series', 'user', 'bank_statement', 'bank_statement_line', 'invoice', 'invoice_series', 'tax_rate', 'tax_settings', 'database']);
+
+export type AuditEntity = z.infer<typeof auditEntitySchema>;
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  username: z.string().nullable(),
+  procedure: z.string(),
+  entity: auditEntitySchema,
+  entity_id: z.number().nullable(),
+  before: z.unknown(),
+  after: z.unknown(),
+  lock_override: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditLogInputSchema = z.object({
+  entity: auditEntitySchema.optional(),
+  entity_id: z.number().optional(),
+  user_id: z.number().optional(),
+  lock_override: z.boolean().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(500).default(100),
+  offset: z.number().int().nonnegative().default(0)
+});
+
+export type AuditLogInput = z.infer<typeof auditLogInputSchema>;
+
 // Delete input schema
 export const deleteInputSchema = z.object({
   id: z.number()
@@ -0,0 +1,149 @@
+// Tax heads, tax ids and place of supply, shared by the server and the client.
+//
+// A tax rate is split into components, one per tax head. CGST and SGST are
+// charged on supplies within the state, IGST on supplies to another state,
+// and cess and VAT on both, so the components charged on either kind of
+// supply add up to the rate: GST at 18% is CGST 9% + SGST 9%, or IGST 18%.
+
+import { type SupplyType, type TaxComponent, type TaxDirection, type TaxHead, type TaxRate, type VoucherType } from './schema';
+import { type Money, parseMoney, moneyToNumber, percentOf, sumMoney } from './money';
+
+export const taxHeadLabels: Record<TaxHead, string> = {
+  cgst: 'CGST',
+  sgst: 'SGST/UTGST',
+  igst: 'IGST',
+  cess: 'Cess',
+  vat: 'VAT'
+};
+
+export const taxHeads = Object.keys(taxHeadLabels) as TaxHead[];
+
+export const supplyTypeLabels: Record<SupplyType, string> = {
+  intra_state: 'Intra-state',
+  inter_state: 'Inter-state'
+};
+
+const headSupplyTypes: Record<TaxHead, SupplyType[]> = {
+  cgst: ['intra_state'],
+  sgst: ['intra_state'],
+  igst: ['inter_state'],
+  cess: ['intra_state', 'inter_state'],
+  vat: ['intra_state', 'inter_state']
+};
+
+// Components of a rate charged on the given kind of supply
+export const chargedComponents = <T extends Pick<TaxComponent, 'head'>>(components: T[], supplyType: SupplyType): T[] => {
+  return components.filter(component => headSupplyTypes[component.head].includes(supplyType));
+};
+
+// Supplies stay within the state unless both states are known and differ
+export const supplyTypeFor = (homeStateCode: string | null, partyStateCode: string | null): SupplyType => {
+  return homeStateCode !== null && partyStateCode !== null && homeStateCode !== partyStateCode ? 'inter_state' : 'intra_state';
+};
+
+// Sales and credit notes (sales returns) carry output tax, purchases and
+// debit notes (purchase returns) input tax credit. Other vouchers are untaxed.
+export const taxDirections: Partial<Record<VoucherType, TaxDirection>> = {
+  sales: 'output',
+  credit_note: 'output',
+  purchase: 'input',
+  debit_note: 'input'
+};
+
+// GSTIN: state code, PAN, entity number, 'Z' and a check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// VAT number: country code and 2 to 13 letters or digits, e.g. DE123456789
+const VAT_NUMBER_PATTERN = /^[A-Z]{2}[0-9A-Z]{2,13}$/;
+
+// The check character weighs the first 14 characters alternately by 1 and 2
+// in base 36
+const gstinCheckCharacter = (gstin: string): string => {
+  const sum = [...gstin.slice(0, 14)].reduce((total, character, index) => {
+    const product = GSTIN_CHARACTERS.indexOf(character) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+};
+
+export const isGstin = (taxId: string): boolean => {
+  return GSTIN_PATTERN.test(taxId) && gstinCheckCharacter(taxId) === taxId[14];
+};
+
+export const isValidTaxId = (taxId: string): boolean => isGstin(taxId) || VAT_NUMBER_PATTERN.test(taxId);
+
+// State a GSTIN is registered in; null for other tax ids
+export const gstinStateCode = (taxId: string | null): string | null => {
+  return taxId !== null && isGstin(taxId) ? taxId.slice(0, 2) : null;
+};
+
+export interface TaxableDetail {
+  ledger_id: number;
+  debit_amount: number;
+  credit_amount: number;
+  description?: string | null;
+  tax_rate_id?: number | null;
+}
+
+export interface TaxDetail extends TaxableDetail {
+  tax_component_id: number;
+}
+
+// Tax on each component charged on an amount, rounded one by one
+export const componentTaxes = (amount: Money, components: Pick<TaxComponent, 'rate'>[]): Money[] => {
+  return components.map(component => percentOf(amount, component.rate));
+};
+
+// The tax lines of a voucher whose lines carry tax rates: the tax on each
+// taxed line is posted on the same side, to the output or input ledger of
+// each component charged, one line per component
+export const voucherTaxLines = (
+  voucherType: VoucherType,
+  details: TaxableDetail[],
+  taxRates: TaxRate[],
+  supplyType: SupplyType
+): TaxDetail[] => {
+  const taxedDetails = details.filter(detail => detail.tax_rate_id != null);
+  if (taxedDetails.length === 0) {
+    return [];
+  }
+
+  const direction = taxDirections[voucherType];
+  if (!direction) {
+    throw new Error('Tax can only be charged on sales, purchase, debit note and credit note vouchers');
+  }
+
+  // Net tax per component, credits positive
+  const shares = new Map<number, { component: TaxComponent; amount: Money }>();
+  taxedDetails.forEach(detail => {
+    const taxRate = taxRates.find(rate => rate.id === detail.tax_rate_id);
+    if (!taxRate) {
+      throw new Error(`Tax rate with id ${detail.tax_rate_id} does not exist`);
+    }
+
+    const amount = parseMoney(detail.credit_amount) - parseMoney(detail.debit_amount);
+    const components = chargedComponents(taxRate.components, supplyType);
+    componentTaxes(amount, components).forEach((tax, index) => {
+      const component = components[index];
+      shares.set(component.id, { component, amount: (shares.get(component.id)?.amount ?? 0n) + tax });
+    });
+  });
+
+  return [...shares.values()]
+    .filter(({ amount }) => amount !== 0n)
+    .map(({ component, amount }) => ({
+      ledger_id: direction === 'output' ? component.output_ledger_id : component.input_ledger_id,
+      debit_amount: amount < 0n ? moneyToNumber(-amount) : 0,
+      credit_amount: amount > 0n ? moneyToNumber(amount) : 0,
+      description: taxHeadLabels[component.head],
+      tax_rate_id: null,
+      tax_component_id: component.id
+    }));
+};
+
+// Sum of the component rates charged on the given kind of supply
+export const chargedRate = (taxRate: TaxRate, supplyType: SupplyType): number => {
+  return moneyToNumber(sumMoney(chargedComponents(taxRate.components, supplyType).map(component => parseMoney(component.rate))));
+};
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, groupsTable, ledgersTable, usersTable, financialYearsTable } from '../db/schema';
+import { loadAuditSnapshot, recordAuditEntry, getAuditLog } from '../handlers/audit';
+import { createTransaction } from '../handlers/transactions';
+import { hashPassword } from '../handlers/auth';
+import { type SessionUser } from '../schema';
+import { sql } from 'drizzle-orm';
+
+describe('Audit Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestUser = async (username: string): Promise<SessionUser> => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        username,
+        email: `${username}@example.com`,
+        password_hash: await hashPassword('password'),
+        role: 'accountant'
+      })
+      .returning()
+      .execute();
+
+    const { password_hash, ...sessionUser } = user;
+    return sessionUser;
+  };
+
+  describe('loadAuditSnapshot', () => {
+    it('should load a voucher with its detail lines', async () => {
+      const [group] = await db.insert(groupsTable).values({ name: 'Assets' }).returning().execute();
+      const [cash] = await db.insert(ledgersTable).values({ name: 'Cash', group_id: group.id }).returning().execute();
+      const [sales] = await db.insert(ledgersTable).values({ name: 'Sales', group_id: group.id }).returning().execute();
+      await db.insert(financialYearsTable)
+        .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+        .execute();
+
+      const entry = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Cash sale',
+        details: [
+          { ledger_id: cash.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: sales.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      const snapshot = await loadAuditSnapshot('transaction', entry.id) as any;
+
+      expect(snapshot.description).toEqual('Cash sale');
+      expect(snapshot.details).toHaveLength(2);
+    });
+
+    it('should never include password hashes for users', async () => {
+      const user = await createTestUser('alice');
+
+      const snapshot = await loadAuditSnapshot('user', user.id) as any;
+
+      expect(snapshot.username).toEqual('alice');
+      expect(snapshot.password_hash).toBeUndefined();
+    });
+
+    it('should return null for missing rows', async () => {
+      expect(await loadAuditSnapshot('group', 99999)).toBeNull();
+      expect(await loadAuditSnapshot('database', 1)).toBeNull();
+    });
+  });
+
+  describe('recordAuditEntry', () => {
+    it('should store actor, procedure and snapshots', async () => {
+      const user = await createTestUser('alice');
+
+      await recordAuditEntry({
+        user,
+        procedure: 'updateGroup',
+        entity: 'group',
+        entity_id: 7,
+        before: { name: 'Old' },
+        after: { name: 'New' }
+      });
+
+      const rows = await db.select().from(auditLogTable).execute();
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].user_id).toEqual(user.id);
+      expect(rows[0].username).toEqual('alice');
+      expect(rows[0].procedure).toEqual('updateGroup');
+      expect(rows[0].before).toEqual({ name: 'Old' });
+      expect(rows[0].after).toEqual({ name: 'New' });
+      expect(rows[0].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should refuse to change or remove recorded entries', async () => {
+      await recordAuditEntry({ user: null, procedure: 'updateGroup', entity: 'group', entity_id: 7, before: null, after: null });
+
+      await expect(db.update(auditLogTable).set({ procedure: 'forged' }).execute()).rejects.toThrow(/cannot be changed or removed/);
+      await expect(db.delete(auditLogTable).execute()).rejects.toThrow(/cannot be changed or removed/);
+      await expect(db.execute(sql`TRUNCATE audit_log`).execute()).rejects.toThrow(/cannot be changed or removed/);
+
+      const rows = await db.select().from(auditLogTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].procedure).toEqual('updateGroup');
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should filter by entity, entity id and user', async () => {
+      const alice = await createTestUser('alice');
+      const bob = await createTestUser('bob');
+
+      await recordAuditEntry({ user: alice, procedure: 'createLedger', entity: 'ledger', entity_id: 1, before: null, after: {} });
+      await recordAuditEntry({ user: bob, procedure: 'updateLedger', entity: 'ledger', entity_id: 1, before: {}, after: {} });
+      await recordAuditEntry({ user: bob, procedure: 'createLedger', entity: 'ledger', entity_id: 2, before: null, after: {} });
+      await recordAuditEntry({ user: alice, procedure: 'createGroup', entity: 'group', entity_id: 1, before: null, after: {} });
+
+      const ledgerHistory = await getAuditLog({ entity: 'ledger', entity_id: 1, limit: 100, offset: 0 });
+      expect(ledgerHistory.map(e => e.procedure)).toEqual(['updateLedger', 'createLedger']);
+
+      const bobEntries = await getAuditLog({ user_id: bob.id, limit: 100, offset: 0 });
+      expect(bobEntries).toHaveLength(2);
+      expect(bobEntries.every(e => e.username === 'bob')).toBe(true);
+    });
+
+    it('should filter by date range', async () => {
+      await recordAuditEntry({ user: null, procedure: 'cleanCorrections', entity: 'database', entity_id: null, before: null, after: null });
+
+      const past = await getAuditLog({ end_date: new Date('2000-01-01'), limit: 100, offset: 0 });
+      const recent = await getAuditLog({ start_date: new Date(Date.now() - 60000), limit: 100, offset: 0 });
+
+      expect(past).toHaveLength(0);
+      expect(recent).toHaveLength(1);
+    });
+  });
+});
@@ -2,15 +2,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, sessionsTable } from '../db/schema';
 import { type LoginInput } from '../schema';
-import { login } from '../handlers/auth';
+import { login, logout, getSessionUser, hashPassword, verifyPassword, rehashPlaintextPasswords } from '../handlers/auth';
+import { eq } from 'drizzle-orm';
 
 // Test user data
 const testUser = {
   username: 'testuser',
   email: 'test@example.com',
-  password_hash: 'test123' // In real app, this would be properly hashed
+  password: 'test123'
 };
 
 const validLoginInput: LoginInput = {
@@ -34,7 +35,11 @@ describe('login', () => {
     
     // Create test user
     await db.insert(usersTable)
-      .values(testUser)
+      .values({
+        username: testUser.username,
+        email: testUser.email,
+        password_hash: await hashPassword(testUser.password)
+      })
       .execute();
   });
 
@@ -51,6 +56,8 @@ describe('login', () => {
     expect(result.user!.created_at).toBeInstanceOf(Date);
     expect(result.user!.updated_at).toBeInstanceOf(Date);
     expect(result.message).toBeUndefined();
+    expect(result.token).toBeString();
+    expect(result.expires_at!.getTime()).toBeGreaterThan(Date.now());
     
     // Ensure password_hash is not included in response
     expect((result.user as any).password_hash).toBeUndefined();
@@ -100,4 +107,119 @@ describe('login', () => {
     expect(userKeys).toContain('created_at');
     expect(userKeys).toContain('updated_at');
   });
+
+  it('should reject a password stored in plain text', async () => {
+    await db.update(usersTable)
+      .set({ password_hash: 'test123' })
+      .where(eq(usersTable.username, 'testuser'))
+      .execute();
+
+    const result = await login(validLoginInput);
+
+    expect(result.success).toBe(false);
+    expect(result.token).toBeUndefined();
+  });
+
+  it('should hash passwords stored in plain text so they can log in again', async () => {
+    await db.update(usersTable)
+      .set({ password_hash: 'test123' })
+      .where(eq(usersTable.username, 'testuser'))
+      .execute();
+
+    expect(await rehashPlaintextPasswords()).toEqual(1);
+    expect(await rehashPlaintextPasswords()).toEqual(0);
+
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.username, 'testuser')).execute();
+    expect(user.password_hash).toStartWith('scrypt$');
+    expect((await login(validLoginInput)).success).toBe(true);
+  });
+});
+
+describe('password hashing', () => {
+  it('should salt each hash', async () => {
+    const first = await hashPassword('secret');
+    const second = await hashPassword('secret');
+
+    expect(first).toStartWith('scrypt$');
+    expect(first).not.toEqual(second);
+    expect(first).not.toContain('secret');
+  });
+
+  it('should verify only the matching password', async () => {
+    const hash = await hashPassword('secret');
+
+    expect(await verifyPassword('secret', hash)).toBe(true);
+    expect(await verifyPassword('Secret', hash)).toBe(false);
+    expect(await verifyPassword('secret', 'secret')).toBe(false);
+  });
+
+  it('should not match malformed hashes', async () => {
+    const [algorithm, , r, p, salt, key] = (await hashPassword('secret')).split('$');
+
+    expect(await verifyPassword('secret', [algorithm, 'abc', r, p, salt, key].join('$'))).toBe(false);
+    expect(await verifyPassword('secret', [algorithm, '3', r, p, salt, key].join('$'))).toBe(false);
+    expect(await verifyPassword('secret', [algorithm, '16384', r, p, salt, '!!!'].join('$'))).toBe(false);
+  });
+});
+
+describe('sessions', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable)
+      .values({
+        username: testUser.username,
+        email: testUser.email,
+        password_hash: await hashPassword(testUser.password)
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should resolve the user from a session token', async () => {
+    const { token } = await login(validLoginInput);
+
+    const user = await getSessionUser(token!);
+
+    expect(user).not.toBeNull();
+    expect(user!.username).toEqual('testuser');
+    expect((user as any).password_hash).toBeUndefined();
+  });
+
+  it('should store only a hash of the session token', async () => {
+    const { token } = await login(validLoginInput);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).not.toEqual(token);
+  });
+
+  it('should return null for an unknown token', async () => {
+    expect(await getSessionUser('not-a-real-token')).toBeNull();
+  });
+
+  it('should expire sessions', async () => {
+    const { token } = await login(validLoginInput);
+
+    await db.update(sessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    expect(await getSessionUser(token!)).toBeNull();
+
+    // Expired session is removed
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should invalidate the session on logout', async () => {
+    const { token } = await login(validLoginInput);
+
+    const result = await logout({ token: token! });
+
+    expect(result.success).toBe(true);
+    expect(await getSessionUser(token!)).toBeNull();
+  });
 });
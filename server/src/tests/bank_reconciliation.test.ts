@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, ledgersTable, financialYearsTable, transactionDetailsTable } from '../db/schema';
+import { type ImportBankStatementInput } from '../schema';
+import {
+  importBankStatement,
+  getBankStatements,
+  deleteBankStatement,
+  getBankReconciliation,
+  autoMatchBankStatement,
+  matchBankStatementLine,
+  unmatchBankStatementLine,
+  createVoucherFromStatementLine,
+  setClearingDate,
+  getBankReconciliationStatement
+} from '../handlers/bank_reconciliation';
+import { createTransaction, correctTransaction } from '../handlers/transactions';
+import { eq } from 'drizzle-orm';
+
+describe('bank reconciliation handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+  });
+
+  const createTestData = async () => {
+    const [assets] = await db.insert(groupsTable).values({ name: 'Assets', nature: 'asset' }).returning().execute();
+    const [income] = await db.insert(groupsTable).values({ name: 'Income', nature: 'income' }).returning().execute();
+    const [expenses] = await db.insert(groupsTable).values({ name: 'Expenses', nature: 'expense' }).returning().execute();
+
+    const [bank] = await db.insert(ledgersTable)
+      .values({ name: 'City Bank', group_id: assets.id, opening_balance: '10000', balance_type: 'debit', ledger_type: 'bank' })
+      .returning()
+      .execute();
+    const [cash] = await db.insert(ledgersTable)
+      .values({ name: 'Cash', group_id: assets.id, ledger_type: 'cash' })
+      .returning()
+      .execute();
+    const [sales] = await db.insert(ledgersTable)
+      .values({ name: 'Sales', group_id: income.id, balance_type: 'credit' })
+      .returning()
+      .execute();
+    const [rent] = await db.insert(ledgersTable)
+      .values({ name: 'Rent', group_id: expenses.id })
+      .returning()
+      .execute();
+    const [charges] = await db.insert(ledgersTable)
+      .values({ name: 'Bank Charges', group_id: expenses.id })
+      .returning()
+      .execute();
+
+    const receipt = await createTransaction({
+      voucher_type: 'receipt',
+      entry_date: new Date('2024-01-05'),
+      description: 'Receipt from Acme',
+      details: [
+        { ledger_id: bank.id, debit_amount: 1500, credit_amount: 0 },
+        { ledger_id: sales.id, debit_amount: 0, credit_amount: 1500 }
+      ]
+    });
+    const rentPayment = await createTransaction({
+      voucher_type: 'payment',
+      entry_date: new Date('2024-01-10'),
+      description: 'Rent by cheque 000457',
+      details: [
+        { ledger_id: rent.id, debit_amount: 800, credit_amount: 0 },
+        { ledger_id: bank.id, debit_amount: 0, credit_amount: 800 }
+      ]
+    });
+    const latePayment = await createTransaction({
+      voucher_type: 'payment',
+      entry_date: new Date('2024-01-30'),
+      description: 'Rent by cheque 000458',
+      details: [
+        { ledger_id: rent.id, debit_amount: 300, credit_amount: 0 },
+        { ledger_id: bank.id, debit_amount: 0, credit_amount: 300 }
+      ]
+    });
+
+    return { bank, cash, sales, rent, charges, receipt, rentPayment, latePayment };
+  };
+
+  const januaryCsv = (ledgerId: number): ImportBankStatementInput => ({
+    ledger_id: ledgerId,
+    format: 'csv',
+    file_name: 'january.csv',
+    content: [
+      'Date,Description,Reference,Amount',
+      '2024-01-06,NEFT ACME,,1500.00',
+      '2024-01-12,CHQ PAID,000457,-800.00',
+      '2024-01-31,BANK CHARGES,,-25.00'
+    ].join('\n'),
+    csv_mapping: { date: 'Date', description: 'Description', reference: 'Reference', amount: 'Amount', date_format: 'yyyy-mm-dd', delimiter: ',' },
+    closing_balance: 10675
+  });
+
+  const january = { start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') };
+
+  it('should import statements into bank ledgers only and skip lines already imported', async () => {
+    const { bank, sales } = await createTestData();
+
+    await expect(importBankStatement({ ...januaryCsv(sales.id) })).rejects.toThrow('Sales is not a bank ledger');
+
+    const statement = await importBankStatement(januaryCsv(bank.id));
+    expect(statement).toMatchObject({
+      ledger_id: bank.id,
+      format: 'csv',
+      file_name: 'january.csv',
+      start_date: new Date('2024-01-06'),
+      end_date: new Date('2024-01-31'),
+      opening_balance: null,
+      closing_balance: 10675,
+      line_count: 3,
+      skipped_count: 0
+    });
+
+    await expect(importBankStatement(januaryCsv(bank.id))).rejects.toThrow('Every line of this statement has already been imported');
+
+    // An overlapping statement only adds its new lines
+    const overlapping = await importBankStatement({
+      ...januaryCsv(bank.id),
+      file_name: 'late-january.csv',
+      content: 'Date,Description,Reference,Amount\n2024-01-31,BANK CHARGES,,-25.00\n2024-02-01,INTEREST,,4.10\n',
+      closing_balance: undefined
+    });
+    expect(overlapping).toMatchObject({ line_count: 1, skipped_count: 1, closing_balance: null });
+
+    const statements = await getBankStatements({ ledger_id: bank.id });
+    expect(statements.map(item => [item.file_name, item.line_count])).toEqual([['late-january.csv', 1], ['january.csv', 3]]);
+  });
+
+  it('should auto-match lines by amount, date and reference', async () => {
+    const { bank, receipt, rentPayment, latePayment } = await createTestData();
+    const statement = await importBankStatement(januaryCsv(bank.id));
+
+    const result = await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 });
+    expect(result).toEqual({ statement_id: statement.id, matched_count: 2, unmatched_count: 1 });
+
+    const reconciliation = await getBankReconciliation({ ledger_id: bank.id, ...january });
+    expect(reconciliation.statement_lines.map(line => [line.description, line.match_type, line.matched_lines.map(match => match.entry_id)])).toEqual([
+      ['NEFT ACME', 'auto', [receipt.id]],
+      ['CHQ PAID', 'auto', [rentPayment.id]],
+      ['BANK CHARGES', null, []]
+    ]);
+    expect(reconciliation.statement_lines[1].matched_lines[0]).toMatchObject({ amount: -800, cleared_date: new Date('2024-01-12') });
+    expect(reconciliation.uncleared_lines.map(line => [line.entry_id, line.amount])).toEqual([[latePayment.id, -300]]);
+
+    // Running it again finds nothing new
+    expect(await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 }))
+      .toEqual({ statement_id: statement.id, matched_count: 0, unmatched_count: 1 });
+  });
+
+  it('should match lines by hand only to book lines adding up to the amount', async () => {
+    const { bank, rent, latePayment } = await createTestData();
+    await importBankStatement({ ...januaryCsv(bank.id), content: 'Date,Description,Reference,Amount\n2024-01-31,CHEQUES,,-1100\n' });
+    const [line] = (await getBankReconciliation({ ledger_id: bank.id, ...january })).statement_lines;
+    const bookLines = (await getBankReconciliation({ ledger_id: bank.id, ...january })).uncleared_lines;
+    const payments = bookLines.filter(bookLine => bookLine.amount < 0);
+    const rentLine = await db.select().from(transactionDetailsTable).where(eq(transactionDetailsTable.ledger_id, rent.id)).execute();
+
+    await expect(matchBankStatementLine({ id: line.id, detail_ids: [payments[0].detail_id] }))
+      .rejects.toThrow('The selected lines add up to -800.00, not the statement amount -1100.00');
+    await expect(matchBankStatementLine({ id: line.id, detail_ids: [rentLine[0].id] }))
+      .rejects.toThrow('is not on the statement\'s bank ledger');
+
+    const matched = await matchBankStatementLine({ id: line.id, detail_ids: payments.map(payment => payment.detail_id) });
+    expect(matched.match_type).toEqual('manual');
+    expect(matched.matched_lines.map(match => match.cleared_date)).toEqual([new Date('2024-01-31'), new Date('2024-01-31')]);
+
+    await expect(matchBankStatementLine({ id: line.id, detail_ids: [latePayment.id] }))
+      .rejects.toThrow('The statement line is already matched; unmatch it first');
+
+    const unmatched = await unmatchBankStatementLine({ id: line.id });
+    expect(unmatched.matched_lines).toEqual([]);
+    const [detail] = await db.select().from(transactionDetailsTable).where(eq(transactionDetailsTable.id, payments[0].detail_id)).execute();
+    expect(detail.cleared_date).toBeNull();
+    await expect(unmatchBankStatementLine({ id: line.id })).rejects.toThrow('The statement line is not matched');
+  });
+
+  it('should book unmatched lines as vouchers', async () => {
+    const { bank, cash, charges } = await createTestData();
+    await importBankStatement({
+      ...januaryCsv(bank.id),
+      content: 'Date,Description,Reference,Amount\n2024-01-31,BANK CHARGES,SC-1,-25.00\n2024-01-31,CASH DEPOSIT,,200\n'
+    });
+    const [chargesLine, depositLine] = (await getBankReconciliation({ ledger_id: bank.id, ...january })).statement_lines;
+
+    await expect(createVoucherFromStatementLine({ id: chargesLine.id, contra_ledger_id: bank.id }))
+      .rejects.toThrow('The other ledger must differ from the bank ledger');
+
+    const booked = await createVoucherFromStatementLine({ id: chargesLine.id, contra_ledger_id: charges.id });
+    expect(booked.match_type).toEqual('voucher');
+    expect(booked.matched_lines).toEqual([expect.objectContaining({
+      voucher_type: 'payment',
+      entry_date: new Date('2024-01-31'),
+      description: 'SC-1',
+      amount: -25,
+      cleared_date: new Date('2024-01-31')
+    })]);
+
+    const deposit = await createVoucherFromStatementLine({ id: depositLine.id, contra_ledger_id: cash.id, description: 'Cash deposited' });
+    expect(deposit.matched_lines[0]).toMatchObject({ voucher_type: 'contra', amount: 200 });
+  });
+
+  it('should reconcile the books with the bank', async () => {
+    const { bank, charges } = await createTestData();
+    const statement = await importBankStatement(januaryCsv(bank.id));
+    await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 });
+
+    const report = await getBankReconciliationStatement({ ledger_id: bank.id, as_on_date: new Date('2024-01-31') });
+    const [chargesLine] = report.bank_debits_not_in_books;
+    expect(report).toMatchObject({
+      ledger_name: 'City Bank',
+      balance_as_per_books: 10400,
+      deposits_not_cleared: [],
+      deposits_not_cleared_total: 0,
+      payments_not_presented_total: 300,
+      bank_credits_not_in_books_total: 0,
+      bank_debits_not_in_books: [expect.objectContaining({ description: 'BANK CHARGES', amount: 25 })],
+      bank_debits_not_in_books_total: 25,
+      balance_as_per_bank: 10675,
+      statement_balance: 10675,
+      difference: 0
+    });
+    expect(report.payments_not_presented.map(line => line.description)).toEqual(['Rent by cheque 000458']);
+
+    // The rent cheque was only presented on the 12th
+    const earlier = await getBankReconciliationStatement({ ledger_id: bank.id, as_on_date: new Date('2024-01-10') });
+    expect(earlier).toMatchObject({
+      balance_as_per_books: 10700,
+      payments_not_presented_total: 800,
+      balance_as_per_bank: 11500,
+      statement_balance: null,
+      difference: null
+    });
+
+    await createVoucherFromStatementLine({ id: chargesLine.line_id, contra_ledger_id: charges.id });
+    expect(await getBankReconciliationStatement({ ledger_id: bank.id, as_on_date: new Date('2024-01-31') })).toMatchObject({
+      balance_as_per_books: 10375,
+      bank_debits_not_in_books: [],
+      balance_as_per_bank: 10675,
+      difference: 0
+    });
+  });
+
+  it('should report amount differences of tolerance matches as bank items', async () => {
+    const { bank } = await createTestData();
+    const statement = await importBankStatement({ ...januaryCsv(bank.id), content: 'Date,Description,Reference,Amount\n2024-01-06,NEFT ACME,,1495\n' });
+
+    expect((await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 })).matched_count).toEqual(0);
+    expect((await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 10 })).matched_count).toEqual(1);
+
+    const report = await getBankReconciliationStatement({ ledger_id: bank.id, as_on_date: new Date('2024-01-06') });
+    expect(report).toMatchObject({
+      balance_as_per_books: 11500,
+      deposits_not_cleared_total: 0,
+      bank_debits_not_in_books: [expect.objectContaining({ description: 'NEFT ACME', amount: 5 })],
+      balance_as_per_bank: 11495
+    });
+  });
+
+  it('should unmatch lines of corrected vouchers', async () => {
+    const { bank, rent, rentPayment } = await createTestData();
+    const statement = await importBankStatement(januaryCsv(bank.id));
+    await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 });
+
+    const replacement = await correctTransaction({
+      id: rentPayment.id,
+      correction_data: {
+        voucher_type: 'payment',
+        entry_date: new Date('2024-01-11'),
+        description: 'Rent by cheque 000457',
+        details: [
+          { ledger_id: rent.id, debit_amount: 800, credit_amount: 0 },
+          { ledger_id: bank.id, debit_amount: 0, credit_amount: 800 }
+        ]
+      }
+    });
+
+    const lines = (await getBankReconciliation({ ledger_id: bank.id, ...january })).statement_lines;
+    expect(lines[1].matched_lines).toEqual([]);
+
+    await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 });
+    const rematched = (await getBankReconciliation({ ledger_id: bank.id, ...january })).statement_lines;
+    expect(rematched[1].matched_lines.map(match => match.entry_id)).toEqual([replacement.id]);
+  });
+
+  it('should unclear book lines when a statement is deleted', async () => {
+    const { bank } = await createTestData();
+    const statement = await importBankStatement(januaryCsv(bank.id));
+    await autoMatchBankStatement({ id: statement.id, date_tolerance_days: 3, amount_tolerance: 0 });
+
+    expect(await deleteBankStatement({ id: statement.id })).toEqual({ success: true });
+
+    const reconciliation = await getBankReconciliation({ ledger_id: bank.id, ...january });
+    expect(reconciliation.statement_lines).toEqual([]);
+    expect(reconciliation.uncleared_lines).toHaveLength(3);
+    await expect(deleteBankStatement({ id: statement.id })).rejects.toThrow(`Bank statement with id ${statement.id} not found`);
+  });
+
+  it('should set clearing dates by hand on unmatched book lines', async () => {
+    const { bank, latePayment } = await createTestData();
+    const [bookLine] = (await getBankReconciliation({ ledger_id: bank.id, ...january })).uncleared_lines
+      .filter(line => line.entry_id === latePayment.id);
+
+    await expect(setClearingDate({ detail_id: bookLine.detail_id, cleared_date: new Date('2024-01-29') }))
+      .rejects.toThrow('A line cannot be cleared before its voucher date');
+
+    const entry = await setClearingDate({ detail_id: bookLine.detail_id, cleared_date: new Date('2024-02-02') });
+    expect(entry.id).toEqual(latePayment.id);
+
+    const report = await getBankReconciliationStatement({ ledger_id: bank.id, as_on_date: new Date('2024-02-29') });
+    expect(report.payments_not_presented.map(line => line.description)).toEqual(['Rent by cheque 000457']);
+    expect(report.deposits_not_cleared.map(line => line.description)).toEqual(['Receipt from Acme']);
+  });
+});
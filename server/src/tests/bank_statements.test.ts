@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsvStatement } from '../bank/csv';
+import { parseOfxStatement } from '../bank/ofx';
+import { parseMt940Statement } from '../bank/mt940';
+import { parseCamtStatement } from '../bank/camt';
+import { parseStatementAmount } from '../bank/statement';
+import { autoMatchLines } from '../bank/matching';
+import { csvColumnMappingSchema } from '../schema';
+
+describe('bank statements', () => {
+  describe('parseStatementAmount', () => {
+    it('should read either decimal mark and thousands separators', () => {
+      expect(parseStatementAmount('1,234.50')).toEqual(123450n);
+      expect(parseStatementAmount('1.234,50')).toEqual(123450n);
+      expect(parseStatementAmount('1,234')).toEqual(123400n);
+      expect(parseStatementAmount('-50')).toEqual(-5000n);
+      expect(parseStatementAmount('(75.25)')).toEqual(-7525n);
+      expect(parseStatementAmount('250,')).toEqual(25000n);
+      expect(parseStatementAmount('₹ 99.9')).toEqual(9990n);
+      expect(parseStatementAmount('abc')).toBeNull();
+    });
+  });
+
+  describe('parseCsvStatement', () => {
+    it('should read withdrawal and deposit columns', () => {
+      const csv = [
+        'Txn Date,Narration,Chq No,Withdrawal,Deposit,Balance',
+        '05/01/2024,"NEFT, Acme Traders",,,"1,500.00","11,500.00"',
+        '07/01/2024,CHQ PAID,000123,250.00,,"11,250.00"',
+        ''
+      ].join('\r\n');
+      const mapping = csvColumnMappingSchema.parse({
+        date: 'Txn Date',
+        description: 'narration',
+        reference: 'Chq No',
+        withdrawal: 'Withdrawal',
+        deposit: 'Deposit',
+        date_format: 'dd/mm/yyyy'
+      });
+
+      expect(parseCsvStatement(csv, mapping).lines).toEqual([
+        { date: new Date('2024-01-05'), value_date: null, amount: 150000n, description: 'NEFT, Acme Traders', reference: null },
+        { date: new Date('2024-01-07'), value_date: null, amount: -25000n, description: 'CHQ PAID', reference: '000123' }
+      ]);
+    });
+
+    it('should read a signed amount column with another delimiter', () => {
+      const mapping = csvColumnMappingSchema.parse({ date: 'Date', description: 'Text', amount: 'Amount', date_format: 'dd-mmm-yyyy', delimiter: ';' });
+      const statement = parseCsvStatement('Date;Text;Amount\n31-Dec-2023;Fee;-1,50\n', mapping);
+
+      expect(statement.lines).toEqual([{ date: new Date('2023-12-31'), value_date: null, amount: -150n, description: 'Fee', reference: null }]);
+    });
+
+    it('should report unknown columns and bad rows', () => {
+      const mapping = csvColumnMappingSchema.parse({ date: 'Date', description: 'Memo', amount: 'Amount' });
+
+      expect(() => parseCsvStatement('Date,Text,Amount\n', mapping)).toThrow('Column "Memo" is not in the CSV header');
+      expect(() => parseCsvStatement('Date,Memo,Amount\n2024-02-30,x,1\n', mapping)).toThrow('Row 2: invalid date "2024-02-30"');
+      expect(() => parseCsvStatement('Date,Memo,Amount\n2024-02-01,x,ten\n', mapping)).toThrow('Row 2: invalid amount "ten"');
+    });
+
+    it('should need an amount column or both withdrawal and deposit columns', () => {
+      expect(csvColumnMappingSchema.safeParse({ date: 'Date', description: 'Memo', deposit: 'In' }).success).toBe(false);
+    });
+  });
+
+  describe('parseOfxStatement', () => {
+    it('should read SGML transactions and the ledger balance', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        '',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<BANKACCTFROM><BANKID>123<ACCTID>987654<ACCTTYPE>CHECKING</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20240110120000[-5:EST]<TRNAMT>-200.00<FITID>1<CHECKNUM>1001<NAME>Office Rent<MEMO>Office Rent</STMTTRN>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240112<TRNAMT>350.75<FITID>2<NAME>Smith &amp; Co<MEMO>Invoice 42</STMTTRN>',
+        '</BANKTRANLIST>',
+        '<LEDGERBAL><BALAMT>5150.75<DTASOF>20240131</LEDGERBAL>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+      ].join('\n');
+
+      expect(parseOfxStatement(ofx)).toEqual({
+        account: '987654',
+        opening_balance: null,
+        closing_balance: 515075n,
+        lines: [
+          { date: new Date('2024-01-10'), value_date: null, amount: -20000n, description: 'Office Rent', reference: '1001' },
+          { date: new Date('2024-01-12'), value_date: null, amount: 35075n, description: 'Smith & Co - Invoice 42', reference: null }
+        ]
+      });
+    });
+
+    it('should reject other files', () => {
+      expect(() => parseOfxStatement('Date,Amount')).toThrow('The file is not an OFX statement');
+    });
+  });
+
+  describe('parseMt940Statement', () => {
+    it('should read statement lines, narratives and balances', () => {
+      const mt940 = [
+        ':20:STMT240131',
+        ':25:DE89370400440532013000',
+        ':28C:1/1',
+        ':60F:C231229EUR1000,00',
+        ':61:2312291230D50,00NCHGNONREF//B1',
+        ':86:Account',
+        ' maintenance fee',
+        ':61:2401020102C1200,NTRFINV-7//B2',
+        ':61:240103RC15,NMSCNONREF',
+        ':62F:C240103EUR2135,00',
+        '-'
+      ].join('\r\n');
+
+      expect(parseMt940Statement(mt940)).toEqual({
+        account: 'DE89370400440532013000',
+        opening_balance: 100000n,
+        closing_balance: 213500n,
+        lines: [
+          { date: new Date('2023-12-30'), value_date: new Date('2023-12-29'), amount: -5000n, description: 'Account maintenance fee', reference: 'B1' },
+          { date: new Date('2024-01-02'), value_date: new Date('2024-01-02'), amount: 120000n, description: '', reference: 'INV-7' },
+          { date: new Date('2024-01-03'), value_date: new Date('2024-01-03'), amount: -1500n, description: '', reference: null }
+        ]
+      });
+    });
+
+    it('should place booking dates across the new year', () => {
+      const statement = parseMt940Statement(':20:X\n:61:2401011231D10,00NTRFREF1\n');
+
+      expect(statement.lines[0].date).toEqual(new Date('2023-12-31'));
+      expect(statement.lines[0].value_date).toEqual(new Date('2024-01-01'));
+    });
+  });
+
+  describe('parseCamtStatement', () => {
+    it('should read entries with their indicators and references', () => {
+      const camt = `<?xml version="1.0" encoding="UTF-8"?>
+        <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+          <BkToCstmrStmt>
+            <Stmt>
+              <Id>S1</Id>
+              <Acct><Id><IBAN>GB29NWBK60161331926819</IBAN></Id></Acct>
+              <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="GBP">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-01</Dt></Dt></Bal>
+              <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="GBP">420.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-31</Dt></Dt></Bal>
+              <Ntry>
+                <Amt Ccy="GBP">100.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+                <BookgDt><Dt>2024-03-05</Dt></BookgDt><ValDt><Dt>2024-03-06</Dt></ValDt>
+                <AcctSvcrRef>BANK-1</AcctSvcrRef>
+                <NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+                  <RmtInf><Ustrd>Electricity</Ustrd><Ustrd>March</Ustrd></RmtInf></TxDtls></NtryDtls>
+              </Ntry>
+              <Ntry>
+                <Amt Ccy="GBP">20.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+                <BookgDt><DtTm>2024-03-09T10:15:00</DtTm></BookgDt>
+                <NtryDtls><TxDtls><Refs><EndToEndId>INV-9</EndToEndId></Refs></TxDtls></NtryDtls>
+                <AddtlNtryInf>Refund</AddtlNtryInf>
+              </Ntry>
+            </Stmt>
+          </BkToCstmrStmt>
+        </Document>`;
+
+      expect(parseCamtStatement(camt)).toEqual({
+        account: 'GB29NWBK60161331926819',
+        opening_balance: 50000n,
+        closing_balance: 42000n,
+        lines: [
+          { date: new Date('2024-03-05'), value_date: new Date('2024-03-06'), amount: -10000n, description: 'Electricity March', reference: 'BANK-1' },
+          { date: new Date('2024-03-09'), value_date: null, amount: 2000n, description: 'Refund', reference: 'INV-9' }
+        ]
+      });
+    });
+  });
+
+  describe('autoMatchLines', () => {
+    const line = (id: number, date: string, amount: bigint, reference: string | null = null) => ({
+      id, date: new Date(date), amount, description: '', reference
+    });
+    const book = (detailId: number, date: string, amount: bigint, entryNumber = `JV${detailId}`, description = '') => ({
+      detail_id: detailId, date: new Date(date), amount, entry_number: entryNumber, description
+    });
+    const exact = { date_tolerance_days: 3, amount_tolerance: 0n };
+
+    it('should match amounts of the same sign within the date tolerance', () => {
+      expect(autoMatchLines(
+        [line(1, '2024-01-10', 5000n), line(2, '2024-01-10', -5000n), line(3, '2024-01-20', 700n)],
+        [book(10, '2024-01-08', -5000n), book(11, '2024-01-07', 5000n), book(12, '2024-01-10', 700n)],
+        exact
+      )).toEqual([{ line_id: 1, detail_id: 11 }, { line_id: 2, detail_id: 10 }]);
+    });
+
+    it('should prefer a matching reference over a closer date', () => {
+      expect(autoMatchLines(
+        [line(1, '2024-01-10', -1000n, 'CHQ 000457')],
+        [book(10, '2024-01-10', -1000n), book(11, '2024-01-08', -1000n, 'PAY/0002', 'Cheque 000457')],
+        exact
+      )).toEqual([{ line_id: 1, detail_id: 11 }]);
+    });
+
+    it('should pair equal lines one to one and allow amount differences within the tolerance', () => {
+      expect(autoMatchLines(
+        [line(1, '2024-01-05', 2500n), line(2, '2024-01-05', 2500n)],
+        [book(10, '2024-01-05', 2500n), book(11, '2024-01-06', 2500n), book(12, '2024-01-05', 2600n)],
+        exact
+      )).toEqual([{ line_id: 1, detail_id: 10 }, { line_id: 2, detail_id: 11 }]);
+
+      expect(autoMatchLines([line(1, '2024-01-05', 2500n)], [book(12, '2024-01-05', 2600n)], { date_tolerance_days: 0, amount_tolerance: 100n }))
+        .toEqual([{ line_id: 1, detail_id: 12 }]);
+    });
+  });
+});
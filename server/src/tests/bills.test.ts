@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, contactsTable, ledgersTable, financialYearsTable, transactionDetailsTable, billAllocationsTable } from '../db/schema';
+import { getBillwiseLedger, allocateBillSettlement, getAgingReport, getContactOutstanding } from '../handlers/bills';
+import { createTransaction, correctTransaction, deleteTransaction } from '../handlers/transactions';
+import { and, eq } from 'drizzle-orm';
+
+describe('bill handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+  });
+
+  const detailOf = async (entryId: number, ledgerId: number): Promise<number> => {
+    const [detail] = await db.select()
+      .from(transactionDetailsTable)
+      .where(and(eq(transactionDetailsTable.entry_id, entryId), eq(transactionDetailsTable.ledger_id, ledgerId)))
+      .execute();
+    return detail.id;
+  };
+
+  const createTestData = async () => {
+    const [assets] = await db.insert(groupsTable).values({ name: 'Assets', nature: 'asset' }).returning().execute();
+    const [liabilities] = await db.insert(groupsTable).values({ name: 'Liabilities', nature: 'liability' }).returning().execute();
+    const [income] = await db.insert(groupsTable).values({ name: 'Income', nature: 'income' }).returning().execute();
+    const [expenses] = await db.insert(groupsTable).values({ name: 'Expenses', nature: 'expense' }).returning().execute();
+
+    const [acme] = await db.insert(contactsTable).values({ name: 'Acme Traders', contact_type: 'customer' }).returning().execute();
+    const [supplyco] = await db.insert(contactsTable).values({ name: 'Supplyco', contact_type: 'supplier' }).returning().execute();
+
+    const [customer] = await db.insert(ledgersTable)
+      .values({ name: 'Acme Traders', group_id: assets.id, contact_id: acme.id, opening_balance: '200', balance_type: 'debit' })
+      .returning()
+      .execute();
+    const [supplier] = await db.insert(ledgersTable)
+      .values({ name: 'Supplyco', group_id: liabilities.id, contact_id: supplyco.id, balance_type: 'credit' })
+      .returning()
+      .execute();
+    const [cash] = await db.insert(ledgersTable)
+      .values({ name: 'Cash', group_id: assets.id, ledger_type: 'cash' })
+      .returning()
+      .execute();
+    const [sales] = await db.insert(ledgersTable)
+      .values({ name: 'Sales', group_id: income.id, balance_type: 'credit' })
+      .returning()
+      .execute();
+    const [purchases] = await db.insert(ledgersTable)
+      .values({ name: 'Purchases', group_id: expenses.id })
+      .returning()
+      .execute();
+
+    const sale = (date: string, amount: number) => createTransaction({
+      voucher_type: 'sales',
+      entry_date: new Date(date),
+      description: `Sale to Acme on ${date}`,
+      details: [
+        { ledger_id: customer.id, debit_amount: amount, credit_amount: 0 },
+        { ledger_id: sales.id, debit_amount: 0, credit_amount: amount }
+      ]
+    });
+
+    const oldSale = await sale('2024-01-10', 1000);
+    const midSale = await sale('2024-03-15', 500);
+    const newSale = await sale('2024-04-20', 300);
+    const receipt = await createTransaction({
+      voucher_type: 'receipt',
+      entry_date: new Date('2024-04-25'),
+      description: 'Receipt from Acme',
+      details: [
+        { ledger_id: cash.id, debit_amount: 700, credit_amount: 0 },
+        { ledger_id: customer.id, debit_amount: 0, credit_amount: 700 }
+      ]
+    });
+    const purchase = await createTransaction({
+      voucher_type: 'purchase',
+      entry_date: new Date('2024-02-01'),
+      description: 'Purchase from Supplyco',
+      details: [
+        { ledger_id: purchases.id, debit_amount: 400, credit_amount: 0 },
+        { ledger_id: supplier.id, debit_amount: 0, credit_amount: 400 }
+      ]
+    });
+
+    return {
+      acme, supplyco, customer, supplier, cash, sales, purchases,
+      oldSale, midSale, newSale, receipt, purchase,
+      oldSaleLine: await detailOf(oldSale.id, customer.id),
+      midSaleLine: await detailOf(midSale.id, customer.id),
+      newSaleLine: await detailOf(newSale.id, customer.id),
+      receiptLine: await detailOf(receipt.id, customer.id),
+      purchaseLine: await detailOf(purchase.id, supplier.id)
+    };
+  };
+
+  describe('getAgingReport', () => {
+    it('should settle unallocated receipts against the oldest bills and bucket what remains', async () => {
+      const data = await createTestData();
+
+      const report = await getAgingReport({ as_on_date: new Date('2024-04-30') });
+
+      // The receipt clears the opening balance and 500 of the January sale
+      expect(report.receivables).toHaveLength(1);
+      const acmeRow = report.receivables[0];
+      expect(acmeRow).toMatchObject({
+        contact_id: data.acme.id,
+        contact_name: 'Acme Traders',
+        days_0_30: 300,
+        days_31_60: 500,
+        days_61_90: 0,
+        days_over_90: 500,
+        total: 1300
+      });
+      expect(acmeRow.items.map(item => [item.entry_number, item.outstanding, item.age_days])).toEqual([
+        [data.oldSale.entry_number, 500, 111],
+        [data.midSale.entry_number, 500, 46],
+        [data.newSale.entry_number, 300, 10]
+      ]);
+
+      expect(report.payables).toHaveLength(1);
+      expect(report.payables[0]).toMatchObject({ contact_name: 'Supplyco', days_61_90: 400, total: 400 });
+      expect(report.receivables_total.total).toEqual(1300);
+      expect(report.payables_total.total).toEqual(400);
+    });
+
+    it('should leave out vouchers after the date and filter by contact', async () => {
+      const data = await createTestData();
+
+      const report = await getAgingReport({ as_on_date: new Date('2024-03-31'), contact_id: data.acme.id });
+
+      expect(report.payables).toEqual([]);
+      expect(report.receivables[0]).toMatchObject({ days_0_30: 500, days_61_90: 1000, days_over_90: 200, total: 1700 });
+      expect(report.receivables[0].items[0]).toMatchObject({ kind: 'opening', description: 'Opening balance', age_days: null });
+    });
+  });
+
+  describe('allocateBillSettlement', () => {
+    it('should settle the allocated bills before the oldest ones', async () => {
+      const data = await createTestData();
+
+      const entry = await allocateBillSettlement({
+        detail_id: data.receiptLine,
+        allocations: [{ bill_detail_id: data.midSaleLine, amount: 500 }, { bill_detail_id: data.newSaleLine, amount: 200 }]
+      });
+      expect(entry.id).toEqual(data.receipt.id);
+
+      const ledger = await getBillwiseLedger({ ledger_id: data.customer.id });
+      expect(ledger.balance).toEqual(1300);
+      expect(ledger.items.map(item => [item.kind, item.amount, item.outstanding])).toEqual([
+        ['opening', 200, 200],
+        ['bill', 1000, 1000],
+        ['bill', 500, 0],
+        ['bill', 300, 100],
+        ['settlement', -700, 0]
+      ]);
+      expect(ledger.items[4].allocations).toEqual([
+        { bill_detail_id: data.midSaleLine, amount: 500 },
+        { bill_detail_id: data.newSaleLine, amount: 200 }
+      ]);
+
+      const report = await getAgingReport({ as_on_date: new Date('2024-04-30') });
+      expect(report.receivables[0]).toMatchObject({ days_0_30: 100, days_31_60: 0, days_over_90: 1200, total: 1300 });
+    });
+
+    it('should replace earlier allocations and clear them when none are given', async () => {
+      const data = await createTestData();
+
+      await allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.midSaleLine, amount: 500 }] });
+      await allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.newSaleLine, amount: 300 }] });
+
+      let allocations = await db.select().from(billAllocationsTable).execute();
+      expect(allocations.map(allocation => allocation.bill_detail_id)).toEqual([data.newSaleLine]);
+
+      await allocateBillSettlement({ detail_id: data.receiptLine, allocations: [] });
+      allocations = await db.select().from(billAllocationsTable).execute();
+      expect(allocations).toHaveLength(0);
+    });
+
+    it('should reject allocations that do not fit', async () => {
+      const data = await createTestData();
+
+      await expect(allocateBillSettlement({ detail_id: data.oldSaleLine, allocations: [] }))
+        .rejects.toThrow(`${data.oldSale.entry_number} is a bill; only other vouchers settle bills`);
+      await expect(allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.purchaseLine, amount: 100 }] }))
+        .rejects.toThrow(`${data.purchase.entry_number} is not on Acme Traders`);
+      await expect(allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.oldSaleLine, amount: 800 }] }))
+        .rejects.toThrow('The allocations add up to 800.00, more than the line amount 700.00');
+      await expect(allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.newSaleLine, amount: 400 }] }))
+        .rejects.toThrow(`Only 300.00 of ${data.newSale.entry_number} is left to allocate`);
+      await expect(allocateBillSettlement({
+        detail_id: data.receiptLine,
+        allocations: [{ bill_detail_id: data.newSaleLine, amount: 100 }, { bill_detail_id: data.newSaleLine, amount: 100 }]
+      })).rejects.toThrow('A bill can only be listed once');
+
+      const cashLine = await detailOf(data.receipt.id, data.cash.id);
+      await expect(allocateBillSettlement({ detail_id: cashLine, allocations: [] }))
+        .rejects.toThrow('Cash is not linked to a contact');
+    });
+
+    it('should count what other settlements have allocated to a bill', async () => {
+      const data = await createTestData();
+      const secondReceipt = await createTransaction({
+        voucher_type: 'receipt',
+        entry_date: new Date('2024-04-28'),
+        description: 'Second receipt from Acme',
+        details: [
+          { ledger_id: data.cash.id, debit_amount: 250, credit_amount: 0 },
+          { ledger_id: data.customer.id, debit_amount: 0, credit_amount: 250 }
+        ]
+      });
+
+      await allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.newSaleLine, amount: 200 }] });
+
+      await expect(allocateBillSettlement({
+        detail_id: await detailOf(secondReceipt.id, data.customer.id),
+        allocations: [{ bill_detail_id: data.newSaleLine, amount: 150 }]
+      })).rejects.toThrow(`Only 100.00 of ${data.newSale.entry_number} is left to allocate`);
+    });
+
+    it('should drop allocations of corrected and deleted vouchers', async () => {
+      const data = await createTestData();
+
+      await allocateBillSettlement({ detail_id: data.receiptLine, allocations: [{ bill_detail_id: data.newSaleLine, amount: 300 }] });
+      await correctTransaction({
+        id: data.receipt.id,
+        correction_data: {
+          voucher_type: 'receipt',
+          entry_date: new Date('2024-04-25'),
+          description: 'Receipt from Acme',
+          details: [
+            { ledger_id: data.cash.id, debit_amount: 700, credit_amount: 0 },
+            { ledger_id: data.customer.id, debit_amount: 0, credit_amount: 700 }
+          ]
+        }
+      });
+
+      // The replacement receipt is unallocated, so the oldest bills are settled again
+      const ledger = await getBillwiseLedger({ ledger_id: data.customer.id });
+      expect(ledger.items.filter(item => item.kind === 'bill').map(item => item.outstanding)).toEqual([500, 500, 300]);
+
+      const otherReceipt = await createTransaction({
+        voucher_type: 'receipt',
+        entry_date: new Date('2024-04-26'),
+        description: 'Receipt from Acme',
+        details: [
+          { ledger_id: data.cash.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: data.customer.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+      await allocateBillSettlement({
+        detail_id: await detailOf(otherReceipt.id, data.customer.id),
+        allocations: [{ bill_detail_id: data.newSaleLine, amount: 100 }]
+      });
+
+      await deleteTransaction({ id: data.newSale.id });
+
+      const allocations = await db.select().from(billAllocationsTable).execute();
+      expect(allocations.map(allocation => allocation.bill_detail_id)).not.toContain(data.newSaleLine);
+    });
+  });
+
+  describe('getBillwiseLedger', () => {
+    it('should only accept ledgers linked to a contact', async () => {
+      const data = await createTestData();
+
+      await expect(getBillwiseLedger({ ledger_id: data.sales.id })).rejects.toThrow('Sales is not linked to a contact');
+      await expect(getBillwiseLedger({ ledger_id: 9999 })).rejects.toThrow('Ledger not found');
+    });
+  });
+
+  describe('getContactOutstanding', () => {
+    it('should total what each contact owes and is owed', async () => {
+      const data = await createTestData();
+
+      const outstanding = await getContactOutstanding();
+
+      expect(outstanding.sort((a, b) => a.contact_id - b.contact_id)).toEqual([
+        { contact_id: data.acme.id, receivable: 1300, payable: 0 },
+        { contact_id: data.supplyco.id, receivable: 0, payable: 400 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { applyChartTemplate } from '../handlers/chart_of_accounts';
+import { createGroup, getGroups, deleteGroup, resolveGroupNatures, resolveCashFlowActivities } from '../handlers/groups';
+import { createLedger, getLedgers, deleteLedger } from '../handlers/ledgers';
+import { chartTemplates, chartTemplateIds } from '../charts';
+
+describe('Chart of accounts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should only reference groups defined in the same template', () => {
+    chartTemplateIds.forEach(id => {
+      const template = chartTemplates[id];
+      const names = template.groups.flatMap(group => [group.name, ...(group.children ?? []).map(child => child.name)]);
+
+      expect(new Set(names).size).toEqual(names.length);
+      template.ledgers.forEach(ledger => expect(names).toContain(ledger.group));
+    });
+  });
+
+  it('should create the group tree with natures', async () => {
+    const result = await applyChartTemplate({ template: 'indian_primary' });
+
+    const groups = await getGroups();
+    expect(result.groups_created).toEqual(groups.length);
+    expect(groups.every(group => group.is_system)).toBe(true);
+
+    const byName = new Map(groups.map(group => [group.name, group]));
+    const natures = resolveGroupNatures(groups);
+    expect(byName.get('Sundry Debtors')!.parent_group_id).toEqual(byName.get('Current Assets')!.id);
+    expect(natures.get(byName.get('Sundry Debtors')!.id)).toEqual('asset');
+    expect(natures.get(byName.get('Reserves & Surplus')!.id)).toEqual('equity');
+    expect(natures.get(byName.get('Duties & Taxes')!.id)).toEqual('liability');
+    expect(natures.get(byName.get('Sales Accounts')!.id)).toEqual('income');
+    expect(natures.get(byName.get('Indirect Expenses')!.id)).toEqual('expense');
+
+    const activities = resolveCashFlowActivities(groups);
+    expect(activities.get(byName.get('Investments')!.id)).toEqual('investing');
+    expect(activities.get(byName.get('Secured Loans')!.id)).toEqual('financing');
+    expect(activities.get(byName.get('Reserves & Surplus')!.id)).toEqual('financing');
+    expect(activities.get(byName.get('Sundry Creditors')!.id)).toEqual('operating');
+  });
+
+  it('should create the reserved system ledgers', async () => {
+    const result = await applyChartTemplate({ template: 'small_business' });
+
+    const [groups, ledgers] = await Promise.all([getGroups(), getLedgers()]);
+    const natures = resolveGroupNatures(groups);
+    const ledger = (name: string) => ledgers.find(l => l.name === name)!;
+
+    expect(result.ledgers_created).toEqual(4);
+    expect(ledgers.map(l => l.name).sort()).toEqual(['Cash', 'Profit & Loss', 'Retained Earnings', 'Round Off']);
+    expect(ledgers.every(l => l.is_system && l.opening_balance === 0)).toBe(true);
+    expect(ledger('Cash').ledger_type).toEqual('cash');
+    expect(natures.get(ledger('Cash').group_id)).toEqual('asset');
+    expect(natures.get(ledger('Retained Earnings').group_id)).toEqual('equity');
+    expect(natures.get(ledger('Round Off').group_id)).toEqual('expense');
+  });
+
+  it('should refuse a database that already has groups', async () => {
+    await createGroup({ name: 'Assets' });
+
+    await expect(applyChartTemplate({ template: 'small_business' }))
+      .rejects.toThrow(/before any groups or ledgers exist/i);
+    expect(await getGroups()).toHaveLength(1);
+  });
+
+  it('should refuse to apply a template twice', async () => {
+    await applyChartTemplate({ template: 'small_business' });
+
+    await expect(applyChartTemplate({ template: 'indian_primary' }))
+      .rejects.toThrow(/before any groups or ledgers exist/i);
+  });
+
+  it('should protect system groups and ledgers from deletion', async () => {
+    await applyChartTemplate({ template: 'small_business' });
+    const [groups, ledgers] = await Promise.all([getGroups(), getLedgers()]);
+
+    await expect(deleteGroup({ id: groups[0].id })).rejects.toThrow(/system groups cannot be deleted/i);
+    await expect(deleteLedger({ id: ledgers[0].id })).rejects.toThrow(/system ledgers cannot be deleted/i);
+    expect(await getGroups()).toHaveLength(groups.length);
+    expect(await getLedgers()).toHaveLength(ledgers.length);
+
+    // Entries added afterwards are ordinary ones
+    const petty = await createLedger({ name: 'Petty Cash', group_id: groups[0].id, opening_balance: 0, balance_type: 'debit', ledger_type: 'cash' });
+    expect(petty.is_system).toBe(false);
+    expect(await deleteLedger({ id: petty.id })).toEqual({ success: true });
+  });
+});
@@ -3,7 +3,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { contactsTable } from '../db/schema';
-import { type CreateContactInput, type UpdateContactInput, type SearchInput } from '../schema';
+import { type CreateContactInput, type UpdateContactInput, type SearchInput, createContactInputSchema } from '../schema';
 import { createContact, getContacts, getContact, updateContact, deleteContact, searchContacts } from '../handlers/contacts';
 import { eq } from 'drizzle-orm';
 
@@ -71,6 +71,25 @@ describe('contacts handlers', () => {
       expect(contacts[0].contact_type).toEqual('customer');
       expect(contacts[0].phone).toEqual('+1234567890');
     });
+
+    it('should take the state code from a GSTIN', async () => {
+      const result = await createContact({ ...testContactInput, tax_id: '27AAPFU0939F1ZV' });
+
+      expect(result.tax_id).toEqual('27AAPFU0939F1ZV');
+      expect(result.state_code).toEqual('27');
+      await expect(createContact({ ...testContactInput, tax_id: '27AAPFU0939F1ZV', state_code: '29' }))
+        .rejects.toThrow('GSTIN 27AAPFU0939F1ZV is registered in state 27, not 29');
+    });
+
+    it('should only accept GSTINs and VAT numbers as tax ids', () => {
+      const taxIdOf = (tax_id: string) => createContactInputSchema.safeParse({ ...testContactInput, tax_id }).success;
+
+      expect(taxIdOf('27AAPFU0939F1ZV')).toBe(true);
+      expect(taxIdOf('DE123456789')).toBe(true);
+      // Wrong check character
+      expect(taxIdOf('27AAPFU0939F1ZA')).toBe(false);
+      expect(taxIdOf('12-345')).toBe(false);
+    });
   });
 
   describe('getContacts', () => {
@@ -159,6 +178,17 @@ describe('contacts handlers', () => {
       expect(result.name).toEqual('Test Customer'); // Unchanged
     });
 
+    it('should check a new state code against the GSTIN on file', async () => {
+      const created = await createContact({ ...testContactInput, tax_id: '29AAGCB7383J1Z4' });
+
+      await expect(updateContact({ id: created.id, state_code: '27' }))
+        .rejects.toThrow('GSTIN 29AAGCB7383J1Z4 is registered in state 29, not 27');
+
+      const result = await updateContact({ id: created.id, tax_id: null, state_code: '27' });
+      expect(result.tax_id).toBeNull();
+      expect(result.state_code).toEqual('27');
+    });
+
     it('should throw error when contact not found', async () => {
       const updateInput: UpdateContactInput = {
         id: 999,
@@ -0,0 +1,328 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, ledgersTable, transactionEntriesTable, transactionDetailsTable, contactsTable, financialYearsTable } from '../db/schema';
+import { exportReport, exportContacts, exportContactStatement, exportInvoice } from '../handlers/exports';
+import { createInvoice } from '../handlers/invoices';
+import { crc32 } from '../export/zip';
+import { toCsv } from '../export/csv';
+import { type ExportFile } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const decode = (file: ExportFile): string => Buffer.from(file.content, 'base64').toString('latin1');
+
+// XLSX parts are stored uncompressed, so the sheet XML can be read from the file
+const sheetXml = (file: ExportFile): string => {
+  const text = Buffer.from(file.content, 'base64').toString('utf8');
+  return text.slice(text.indexOf('<worksheet'), text.indexOf('</worksheet>'));
+};
+
+describe('export handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const [assetsGroup] = await db.insert(groupsTable)
+      .values({ name: 'Assets', nature: 'asset' })
+      .returning()
+      .execute();
+    const [incomeGroup] = await db.insert(groupsTable)
+      .values({ name: 'Income', nature: 'income' })
+      .returning()
+      .execute();
+    const [equityGroup] = await db.insert(groupsTable)
+      .values({ name: 'Capital Account', nature: 'equity' })
+      .returning()
+      .execute();
+
+    const [cashLedger] = await db.insert(ledgersTable)
+      .values({ name: 'Cash', group_id: assetsGroup.id, opening_balance: '1000', balance_type: 'debit', ledger_type: 'cash' })
+      .returning()
+      .execute();
+    const [salesLedger] = await db.insert(ledgersTable)
+      .values({ name: 'Sales, Retail', group_id: incomeGroup.id, opening_balance: '0', balance_type: 'credit' })
+      .returning()
+      .execute();
+    await db.insert(ledgersTable)
+      .values({ name: 'Capital', group_id: equityGroup.id, opening_balance: '1000', balance_type: 'credit' })
+      .execute();
+
+    const sales = [{ date: '2024-01-15', number: 'SAL/001', amount: '500' }, { date: '2024-01-20', number: 'SAL/002', amount: '250.5' }];
+    for (const sale of sales) {
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: sale.number, voucher_type: 'sales', entry_date: new Date(sale.date), description: 'Counter sale', total_amount: sale.amount })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: cashLedger.id, debit_amount: sale.amount, credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: salesLedger.id, debit_amount: '0', credit_amount: sale.amount }
+        ])
+        .execute();
+    }
+
+    return { cashLedger, salesLedger };
+  };
+
+  const january = { start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') };
+
+  it('should export the daybook as CSV', async () => {
+    await createTestData();
+
+    const file = await exportReport({
+      format: 'csv',
+      report: { type: 'daybook', filter: { ...january, period: 'monthly', day_summary: false } }
+    });
+
+    expect(file.filename).toEqual('daybook-2024-01-01-2024-01-31.csv');
+    expect(file.mime_type).toEqual('text/csv');
+    expect(Buffer.from(file.content, 'base64').toString('utf8').split('\r\n')).toEqual([
+      '\ufeffDate,Voucher No.,Type,Particulars,Debit,Credit',
+      'Jan 2024,,,,,',
+      '2024-01-15,SAL/001,Sales,Counter sale,,',
+      ',,,Cash,500.00,',
+      ',,,"Sales, Retail",,500.00',
+      '2024-01-20,SAL/002,Sales,Counter sale,,',
+      ',,,Cash,250.50,',
+      ',,,"Sales, Retail",,250.50',
+      ',,,Total for Jan 2024 (2 vouchers),750.50,750.50',
+      ',,,Grand total (2 vouchers),750.50,750.50',
+      ''
+    ]);
+  });
+
+  it('should export the trial balance as XLSX with total formulas', async () => {
+    await createTestData();
+
+    const file = await exportReport({
+      format: 'xlsx',
+      report: { type: 'trial_balance', filter: { start_date: january.start_date, end_date: january.end_date, hide_zero_balances: false } }
+    });
+
+    expect(file.filename).toEqual('trial-balance-2024-01-31.xlsx');
+    expect(Buffer.from(file.content, 'base64').subarray(0, 2).toString()).toEqual('PK');
+
+    const sheet = sheetXml(file);
+    // Header rows, column headers on row 5, then groups and ledgers from row 6
+    expect(sheet).toContain('<t xml:space="preserve">Trial Balance</t>');
+    expect(sheet).toContain('<t xml:space="preserve">1 Jan 2024 to 31 Jan 2024</t>');
+    expect(sheet).toContain('<c r="B6" s="');
+    // Group rows are left out of the totals, which add up the ledger rows
+    expect(sheet).toContain('<f>SUM(B7:B7,B9:B9,B11:B11)</f><v>1000</v>');
+    expect(sheet).toContain('<f>SUM(F7:F7,F9:F9,F11:F11)</f><v>1750.5</v>');
+  });
+
+  it('should export the profit and loss as PDF', async () => {
+    await createTestData();
+    process.env['COMPANY_NAME'] = 'Test Traders';
+
+    try {
+      const file = await exportReport({ format: 'pdf', report: { type: 'profit_and_loss', filter: january } });
+      const pdf = decode(file);
+
+      expect(file.filename).toEqual('profit-and-loss-2024-01-01-2024-01-31.pdf');
+      expect(file.mime_type).toEqual('application/pdf');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Test Traders)');
+      expect(pdf).toContain('(Profit & Loss)');
+      expect(pdf).toContain('(1 Jan 2024 to 31 Jan 2024)');
+      expect(pdf).toContain('(750.50)');
+      expect(pdf).toContain('(Page 1 of 1)');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    } finally {
+      delete process.env['COMPANY_NAME'];
+    }
+  });
+
+  it('should add up profit for the year in the balance sheet equity total', async () => {
+    await createTestData();
+
+    const file = await exportReport({ format: 'xlsx', report: { type: 'balance_sheet', filter: { as_on_date: january.end_date } } });
+    const sheet = sheetXml(file);
+
+    expect(file.filename).toEqual('balance-sheet-2024-01-31.xlsx');
+    expect(sheet).toContain('<t xml:space="preserve">Profit &amp; Loss for the year</t>');
+    // Equity heading on row 11, Capital and the profit on rows 12 and 13
+    expect(sheet).toContain('<f>SUM(C12:C13)</f><v>1750.5</v>');
+  });
+
+  it('should page long PDF exports', async () => {
+    // The contact list is printed in landscape, 35 rows to a page
+    await db.insert(contactsTable)
+      .values(Array.from({ length: 50 }, (_, i) => ({ name: `Customer ${String(i).padStart(2, '0')}`, contact_type: 'customer' as const })))
+      .execute();
+
+    const pdf = decode(await exportContacts({ format: 'pdf' }));
+
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Page 1 of 2)');
+    expect(pdf).toContain('(Page 2 of 2)');
+  });
+
+  it('should name a single ledger statement after the ledger', async () => {
+    const { salesLedger } = await createTestData();
+
+    const file = await exportReport({
+      format: 'csv',
+      report: { type: 'ledger', filter: { ...january, ledger_id: salesLedger.id, period: 'monthly', ledger_summary: true } }
+    });
+
+    expect(file.filename).toEqual('ledger-sales-retail-2024-01-01-2024-01-31.csv');
+    expect(Buffer.from(file.content, 'base64').toString('utf8').split('\r\n').slice(1, 5)).toEqual([
+      '"Sales, Retail",,,,,,,',
+      '2024-01-01,,,Opening balance,,,0.00,Cr',
+      '2024-01-01,,,Jan 2024,0.00,750.50,750.50,Cr',
+      ',,,Closing balance,0.00,750.50,750.50,Cr'
+    ]);
+  });
+
+  it('should export contacts sorted by name', async () => {
+    await db.insert(contactsTable)
+      .values([
+        { name: 'Zenith Supplies', contact_type: 'supplier', address: '1 Main Street, Springfield' },
+        { name: 'Acme "Retail"', contact_type: 'customer', email: 'buy@acme.test' }
+      ])
+      .execute();
+
+    const file = await exportContacts({ format: 'csv' });
+    const lines = Buffer.from(file.content, 'base64').toString('utf8').split('\r\n');
+
+    expect(file.filename).toMatch(/^contacts-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(lines.slice(0, 3)).toEqual([
+      '\ufeffName,Type,Phone,Email,Address',
+      '"Acme ""Retail""",customer,,buy@acme.test,',
+      'Zenith Supplies,supplier,,,"1 Main Street, Springfield"'
+    ]);
+  });
+
+  it('should keep text cells from running as spreadsheet formulas', async () => {
+    await db.insert(contactsTable)
+      .values([
+        { name: '=HYPERLINK("http://evil.test","Click")', contact_type: 'customer' },
+        { name: '-Minus Traders', contact_type: 'supplier', phone: '+91 98400 12345' },
+        { name: '@Handle Co', contact_type: 'customer', address: '\tTabbed Street' }
+      ])
+      .execute();
+
+    const file = await exportContacts({ format: 'csv' });
+    const lines = Buffer.from(file.content, 'base64').toString('utf8').split('\r\n');
+
+    expect(lines.slice(1, 4)).toEqual([
+      "'-Minus Traders,supplier,'+91 98400 12345,,",
+      "'@Handle Co,customer,,,'\tTabbed Street",
+      '"\'=HYPERLINK(""http://evil.test"",""Click"")",customer,,,'
+    ]);
+  });
+
+  it('should leave negative amounts as numbers in CSV', () => {
+    const csv = toCsv({
+      company: 'Test',
+      title: 'Balances',
+      period: '2024',
+      filename: 'balances',
+      columns: [{ header: 'Ledger', type: 'text', width: 20 }, { header: 'Balance', type: 'amount', width: 12 }],
+      rows: [{ kind: 'line', cells: ['Suspense', -200] }]
+    });
+
+    expect(csv.toString('utf8').split('\r\n')[1]).toEqual('Suspense,-200.00');
+  });
+
+  const createContactData = async () => {
+    const { salesLedger } = await createTestData();
+    const [contact] = await db.insert(contactsTable)
+      .values({ name: 'Acme <Retail>', contact_type: 'customer', address: '1 Main Street\nSpringfield', email: 'buy@acme.test' })
+      .returning()
+      .execute();
+    const [debtorsGroup] = await db.insert(groupsTable)
+      .values({ name: 'Sundry Debtors', nature: 'asset' })
+      .returning()
+      .execute();
+    const [acmeLedger] = await db.insert(ledgersTable)
+      .values({ name: 'Acme', group_id: debtorsGroup.id, opening_balance: '100', balance_type: 'debit', contact_id: contact.id })
+      .returning()
+      .execute();
+
+    const [entry] = await db.insert(transactionEntriesTable)
+      .values({ entry_number: 'SAL/003', voucher_type: 'sales', entry_date: new Date('2024-01-22'), description: 'Credit sale', total_amount: '1234.5' })
+      .returning()
+      .execute();
+    await db.insert(transactionDetailsTable)
+      .values([
+        { entry_id: entry.id, ledger_id: acmeLedger.id, debit_amount: '1234.5', credit_amount: '0' },
+        { entry_id: entry.id, ledger_id: salesLedger.id, debit_amount: '0', credit_amount: '1234.5' }
+      ])
+      .execute();
+
+    return contact;
+  };
+
+  it('should export a contact statement as HTML addressed to the contact', async () => {
+    const contact = await createContactData();
+
+    const file = await exportContactStatement({ ...january, contact_id: contact.id, format: 'html' });
+    const html = Buffer.from(file.content, 'base64').toString('utf8');
+
+    expect(file.filename).toEqual('statement-acme-retail-2024-01-01-2024-01-31.html');
+    expect(file.mime_type).toEqual('text/html');
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<h2>Statement of Account: Acme &#60;Retail&#62;</h2>');
+    expect(html).toContain('<div class="recipient"><div>Acme &#60;Retail&#62;</div><div>1 Main Street</div><div>Springfield</div><div>buy@acme.test</div></div>');
+    expect(html).toContain('<td>22 Jan 2024</td><td>SAL/003</td><td>Sales</td><td>Sales, Retail</td><td class="right">1,234.50</td>');
+    expect(html).toContain('<td>Closing balance due on 31 Jan 2024</td><td class="right summed">1,234.50</td><td class="right summed">0.00</td><td class="right">1,334.50</td><td>Dr</td>');
+  });
+
+  it('should print the contact address on a PDF statement', async () => {
+    const contact = await createContactData();
+
+    const file = await exportContactStatement({ ...january, contact_id: contact.id, format: 'pdf' });
+    const pdf = decode(file);
+
+    expect(file.filename).toEqual('statement-acme-retail-2024-01-01-2024-01-31.pdf');
+    expect(pdf).toContain('(Statement of Account: Acme <Retail>)');
+    expect(pdf).toContain('(Springfield)');
+    expect(pdf).toContain('(1,334.50)');
+  });
+
+  it('should print an invoice with its lines and totals', async () => {
+    const contact = await createContactData();
+    const [acmeLedger] = await db.select().from(ledgersTable).where(eq(ledgersTable.contact_id, contact.id)).execute();
+    const [salesLedger] = await db.select().from(ledgersTable).where(eq(ledgersTable.name, 'Sales, Retail')).execute();
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+
+    const invoice = await createInvoice({
+      invoice_type: 'sales',
+      contact_id: contact.id,
+      ledger_id: acmeLedger.id,
+      invoice_date: new Date('2024-01-25'),
+      due_date: new Date('2024-02-24'),
+      reference: 'PO-17',
+      notes: 'Thank you for your business',
+      lines: [{ description: 'Consulting', ledger_id: salesLedger.id, quantity: 12, rate: 150, discount_percent: 0, tax_rate_id: null }]
+    });
+
+    const file = await exportInvoice({ id: invoice.id, format: 'pdf' });
+    const pdf = decode(file);
+
+    expect(file.filename).toEqual('invoice-inv-2024-0001.pdf');
+    expect(pdf).toContain('(Sales invoice INV/2024/0001)');
+    expect(pdf).toContain('(Dated 25 Jan 2024, due 24 Feb 2024, reference PO-17)');
+    expect(pdf).toContain('(Springfield)');
+    expect(pdf).toContain('(1,800.00)');
+    expect(pdf).toContain('(Thank you for your business)');
+  });
+
+  it('should pass on report errors', async () => {
+    await createTestData();
+
+    await expect(exportReport({
+      format: 'pdf',
+      report: { type: 'ledger', filter: { ...january, ledger_id: 9999, period: 'daily', ledger_summary: false } }
+    })).rejects.toThrow(/ledger not found/i);
+  });
+
+  it('should compute standard CRC-32 checksums for XLSX packages', () => {
+    expect(crc32(Buffer.from('123456789'))).toEqual(0xcbf43926);
+  });
+});
@@ -9,8 +9,17 @@ import {
   getFinancialYears, 
   getActiveFinancialYear, 
   setActiveFinancialYear, 
-  deleteFinancialYear 
+  deleteFinancialYear,
+  closeFinancialYear,
+  getFinancialYearOpeningBalances,
+  setLockDate,
+  setPeriodLock,
+  getLockedPeriods
 } from '../handlers/financial_years';
+import { createGroup } from '../handlers/groups';
+import { createLedger } from '../handlers/ledgers';
+import { createTransaction } from '../handlers/transactions';
+import { getTrialBalance, getLedgerReport, getBalanceSheet } from '../handlers/reports';
 import { eq } from 'drizzle-orm';
 
 const testInput: CreateFinancialYearInput = {
@@ -57,6 +66,27 @@ describe('Financial Years', () => {
       expect(financialYears[0].is_active).toEqual(false);
     });
 
+    it('should reject an end date on or before the start date', async () => {
+      await expect(createFinancialYear({ ...testInput, end_date: new Date('2023-04-01') }))
+        .rejects.toThrow(/end date must be after start date/i);
+    });
+
+    it('should reject years that overlap an existing year', async () => {
+      await createFinancialYear(testInput);
+
+      await expect(createFinancialYear({ ...testInput2, name: 'Overlap', start_date: new Date('2024-03-31') }))
+        .rejects.toThrow(/overlaps FY 2023-24/i);
+      await expect(createFinancialYear({ ...testInput2, name: 'Inside', start_date: new Date('2023-06-01'), end_date: new Date('2023-09-30') }))
+        .rejects.toThrow(/overlaps FY 2023-24/i);
+    });
+
+    it('should reject a name another year already has', async () => {
+      await createFinancialYear(testInput);
+
+      await expect(createFinancialYear({ ...testInput2, name: 'FY 2023-24' }))
+        .rejects.toThrow(/financial year named FY 2023-24 already exists/i);
+    });
+
     it('should create active financial year', async () => {
       const result = await createFinancialYear(testInput2);
 
@@ -186,4 +216,230 @@ describe('Financial Years', () => {
       expect(activeYear).toBeNull();
     });
   });
+
+  describe('period locks', () => {
+    it('should set and clear the lock date', async () => {
+      const fy = await createFinancialYear(testInput);
+
+      const locked = await setLockDate({ id: fy.id, lock_date: new Date('2023-09-30') });
+      expect(locked.lock_date).toEqual(new Date('2023-09-30'));
+
+      const cleared = await setLockDate({ id: fy.id, lock_date: null });
+      expect(cleared.lock_date).toBeNull();
+    });
+
+    it('should keep the lock date within the year', async () => {
+      const fy = await createFinancialYear(testInput);
+
+      await expect(setLockDate({ id: fy.id, lock_date: new Date('2024-04-01') }))
+        .rejects.toThrow(/must fall within FY 2023-24/i);
+      await expect(setLockDate({ id: 99999, lock_date: null })).rejects.toThrow(/not found/i);
+    });
+
+    it('should lock and unlock months', async () => {
+      const fy = await createFinancialYear(testInput);
+
+      await setPeriodLock({ id: fy.id, year: 2023, month: 4, locked: true });
+      await setPeriodLock({ id: fy.id, year: 2023, month: 5, locked: true });
+      await setPeriodLock({ id: fy.id, year: 2023, month: 5, locked: true });
+      expect((await getLockedPeriods()).map(p => p.month)).toEqual([4, 5]);
+
+      await setPeriodLock({ id: fy.id, year: 2023, month: 4, locked: false });
+      expect((await getLockedPeriods()).map(p => p.month)).toEqual([5]);
+    });
+
+    it('should reject months outside the year', async () => {
+      const fy = await createFinancialYear(testInput);
+
+      await expect(setPeriodLock({ id: fy.id, year: 2024, month: 4, locked: true }))
+        .rejects.toThrow(/outside FY 2023-24/i);
+    });
+  });
+
+  describe('closeFinancialYear', () => {
+    // Two consecutive years, opening capital in cash, a 500 sale and a 200
+    // rent payment in the first year: a profit of 300
+    const createClosingData = async () => {
+      const assets = await createGroup({ name: 'Assets', nature: 'asset' });
+      const liabilities = await createGroup({ name: 'Liabilities', nature: 'liability' });
+      const income = await createGroup({ name: 'Income', nature: 'income' });
+      const expenses = await createGroup({ name: 'Expenses', nature: 'expense' });
+
+      const cash = await createLedger({ name: 'Cash', group_id: assets.id, opening_balance: 1000, balance_type: 'debit', ledger_type: 'cash' });
+      const capital = await createLedger({ name: 'Capital', group_id: liabilities.id, opening_balance: 1000, balance_type: 'credit', ledger_type: 'general' });
+      const retained = await createLedger({ name: 'Retained Earnings', group_id: liabilities.id, opening_balance: 0, balance_type: 'credit', ledger_type: 'general' });
+      const sales = await createLedger({ name: 'Sales', group_id: income.id, opening_balance: 0, balance_type: 'credit', ledger_type: 'general' });
+      const rent = await createLedger({ name: 'Rent', group_id: expenses.id, opening_balance: 0, balance_type: 'debit', ledger_type: 'general' });
+
+      const fy1 = await createFinancialYear({ ...testInput, is_active: true });
+      const fy2 = await createFinancialYear({ ...testInput2, is_active: false });
+
+      await createTransaction({
+        voucher_type: 'receipt',
+        entry_date: new Date('2023-06-01'),
+        description: 'Cash sale',
+        details: [
+          { ledger_id: cash.id, debit_amount: 500, credit_amount: 0 },
+          { ledger_id: sales.id, debit_amount: 0, credit_amount: 500 }
+        ]
+      });
+      await createTransaction({
+        voucher_type: 'payment',
+        entry_date: new Date('2024-03-01'),
+        description: 'Rent',
+        details: [
+          { ledger_id: rent.id, debit_amount: 200, credit_amount: 0 },
+          { ledger_id: cash.id, debit_amount: 0, credit_amount: 200 }
+        ]
+      });
+
+      return { fy1, fy2, ledgers: { cash, capital, retained, sales, rent }, groups: { assets, liabilities } };
+    };
+
+    it('should carry balances forward and transfer the profit to retained earnings', async () => {
+      const { fy1, fy2, ledgers } = await createClosingData();
+
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      const openings = await getFinancialYearOpeningBalances({ id: fy2.id });
+      const opening = (ledgerId: number) => openings.find(o => o.ledger_id === ledgerId)!;
+
+      expect(opening(ledgers.cash.id)).toMatchObject({ opening_balance: 1300, balance_type: 'debit' });
+      expect(opening(ledgers.capital.id)).toMatchObject({ opening_balance: 1000, balance_type: 'credit' });
+      expect(opening(ledgers.retained.id)).toMatchObject({ opening_balance: 300, balance_type: 'credit' });
+      expect(opening(ledgers.sales.id).opening_balance).toEqual(0);
+      expect(opening(ledgers.rent.id).opening_balance).toEqual(0);
+    });
+
+    it('should carry a loss as a debit on retained earnings', async () => {
+      const { fy1, fy2, ledgers } = await createClosingData();
+
+      await createTransaction({
+        voucher_type: 'payment',
+        entry_date: new Date('2024-03-15'),
+        description: 'Rent',
+        details: [
+          { ledger_id: ledgers.rent.id, debit_amount: 450.5, credit_amount: 0 },
+          { ledger_id: ledgers.cash.id, debit_amount: 0, credit_amount: 450.5 }
+        ]
+      });
+
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      const openings = await getFinancialYearOpeningBalances({ id: fy2.id });
+      const retained = openings.find(o => o.ledger_id === ledgers.retained.id)!;
+      expect(retained).toMatchObject({ opening_balance: 150.5, balance_type: 'debit' });
+    });
+
+    it('should mark the year closed', async () => {
+      const { fy1, ledgers } = await createClosingData();
+
+      const result = await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      expect(result.is_closed).toEqual(true);
+      expect(result.closed_at).toBeInstanceOf(Date);
+      await expect(closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id }))
+        .rejects.toThrow(/FY 2023-24 is already closed/i);
+    });
+
+    it('should leave the closed year\'s reports unchanged', async () => {
+      const { fy1, ledgers } = await createClosingData();
+
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      const trialBalance = await getTrialBalance({ as_on_date: new Date('2024-03-31') });
+      const sales = trialBalance.find(r => r.ledger_id === ledgers.sales.id)!;
+      expect(sales.closing_balance).toEqual(500);
+      expect(sales.closing_balance_type).toEqual('credit');
+    });
+
+    it('should start the next year\'s reports from the carried balances', async () => {
+      const { fy1, fy2, ledgers } = await createClosingData();
+
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+      await setActiveFinancialYear({ id: fy2.id });
+
+      await createTransaction({
+        voucher_type: 'payment',
+        entry_date: new Date('2024-05-01'),
+        description: 'Rent',
+        details: [
+          { ledger_id: ledgers.rent.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: ledgers.cash.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      const trialBalance = await getTrialBalance({ as_on_date: new Date('2024-06-30') });
+      const cash = trialBalance.find(r => r.ledger_id === ledgers.cash.id)!;
+      expect(cash.opening_balance).toEqual(1300);
+      expect(cash.total_debit).toEqual(0);
+      expect(cash.total_credit).toEqual(100);
+      expect(cash.closing_balance).toEqual(1200);
+
+      const sales = trialBalance.find(r => r.ledger_id === ledgers.sales.id)!;
+      expect(sales.opening_balance).toEqual(0);
+      expect(sales.closing_balance).toEqual(0);
+
+      const balanceSheet = await getBalanceSheet({ as_on_date: new Date('2024-06-30') });
+      expect(balanceSheet.assets.find((a: any) => a.ledger_id === ledgers.cash.id)!.amount).toEqual(1200);
+      expect(balanceSheet.liabilities.find((l: any) => l.ledger_id === ledgers.retained.id)!.amount).toEqual(300);
+
+      const ledgerReport = await getLedgerReport({
+        ledger_id: ledgers.cash.id,
+        start_date: new Date('2024-05-01'),
+        end_date: new Date('2024-05-31'),
+        period: 'daily',
+        ledger_summary: false
+      });
+      expect(ledgerReport.ledgers[0].opening_balance).toEqual(1300);
+      expect(ledgerReport.ledgers[0].periods).toHaveLength(1);
+      expect(ledgerReport.ledgers[0].closing_balance).toEqual(1200);
+    });
+
+    it('should require the next financial year to exist', async () => {
+      const { fy1, fy2, ledgers } = await createClosingData();
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      await expect(closeFinancialYear({ id: fy2.id, retained_earnings_ledger_id: ledgers.retained.id }))
+        .rejects.toThrow(/create the financial year after FY 2024-25/i);
+    });
+
+    it('should close years in order', async () => {
+      const { fy2, ledgers } = await createClosingData();
+      await createFinancialYear({ name: 'FY 2025-26', start_date: new Date('2025-04-01'), end_date: new Date('2026-03-31'), is_active: false });
+
+      await expect(closeFinancialYear({ id: fy2.id, retained_earnings_ledger_id: ledgers.retained.id }))
+        .rejects.toThrow(/close financial year FY 2023-24 first/i);
+    });
+
+    it('should require an equity or liability ledger for retained earnings', async () => {
+      const { fy1, ledgers } = await createClosingData();
+
+      await expect(closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.cash.id }))
+        .rejects.toThrow(/must belong to an equity or liability group/i);
+      await expect(closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: 99999 }))
+        .rejects.toThrow(/retained earnings ledger not found/i);
+    });
+
+    it('should refuse ledgers with a balance in a group without a nature', async () => {
+      const { fy1, ledgers } = await createClosingData();
+      const suspenseGroup = await createGroup({ name: 'Suspense' });
+      await createLedger({ name: 'Suspense', group_id: suspenseGroup.id, opening_balance: 10, balance_type: 'debit', ledger_type: 'general' });
+
+      await expect(closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id }))
+        .rejects.toThrow(/set the nature of the group of ledger Suspense/i);
+
+      const [year] = await db.select().from(financialYearsTable).where(eq(financialYearsTable.id, fy1.id)).execute();
+      expect(year.is_closed).toEqual(false);
+    });
+
+    it('should not delete a closed year or the year it was carried into', async () => {
+      const { fy1, fy2, ledgers } = await createClosingData();
+
+      await closeFinancialYear({ id: fy1.id, retained_earnings_ledger_id: ledgers.retained.id });
+
+      await expect(deleteFinancialYear({ id: fy1.id })).rejects.toThrow(/cannot be deleted/i);
+      await expect(deleteFinancialYear({ id: fy2.id })).rejects.toThrow(/cannot be deleted/i);
+    });
+  });
 });
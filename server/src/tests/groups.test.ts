@@ -4,7 +4,10 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { groupsTable } from '../db/schema';
 import { type CreateGroupInput, type UpdateGroupInput, type DeleteInput, type SearchInput } from '../schema';
-import { createGroup, getGroups, getGroup, updateGroup, deleteGroup, searchGroups } from '../handlers/groups';
+import { createGroup, getGroups, getGroup, updateGroup, deleteGroup, searchGroups, resolveGroupNatures, moveGroup, mergeGroups, getGroupTree } from '../handlers/groups';
+import { createLedger, getLedger } from '../handlers/ledgers';
+import { createFinancialYear } from '../handlers/financial_years';
+import { createTransaction } from '../handlers/transactions';
 import { eq } from 'drizzle-orm';
 
 const testGroupInput: CreateGroupInput = {
@@ -64,6 +67,36 @@ describe('Groups handlers', () => {
     });
   });
 
+  describe('group nature', () => {
+    it('should store the nature of a group', async () => {
+      const result = await createGroup({ name: 'Assets', nature: 'asset' });
+      expect(result.nature).toEqual('asset');
+
+      const updated = await updateGroup({ id: result.id, nature: 'liability' });
+      expect(updated.nature).toEqual('liability');
+    });
+
+    it('should default the nature to null', async () => {
+      const result = await createGroup(testGroupInput);
+      expect(result.nature).toBeNull();
+    });
+
+    it('should inherit the nature of the nearest parent that has one', async () => {
+      const expenses = await createGroup({ name: 'Expenses', nature: 'expense' });
+      const indirect = await createGroup({ name: 'Indirect Expenses', parent_group_id: expenses.id });
+      const rent = await createGroup({ name: 'Rent', parent_group_id: indirect.id });
+      const income = await createGroup({ name: 'Other Income', parent_group_id: indirect.id, nature: 'income' });
+      const unclassified = await createGroup({ name: 'Suspense' });
+
+      const natures = resolveGroupNatures(await getGroups());
+
+      expect(natures.get(indirect.id)).toEqual('expense');
+      expect(natures.get(rent.id)).toEqual('expense');
+      expect(natures.get(income.id)).toEqual('income');
+      expect(natures.get(unclassified.id)).toBeNull();
+    });
+  });
+
   describe('getGroups', () => {
     it('should return empty array when no groups exist', async () => {
       const result = await getGroups();
@@ -145,6 +178,19 @@ describe('Groups handlers', () => {
       expect(result.parent_group_id).toEqual(parentGroup.id);
     });
 
+    it('should refuse to change the nature of a system group', async () => {
+      const [assets] = await db.insert(groupsTable)
+        .values({ name: 'Current Assets', nature: 'asset', is_system: true })
+        .returning()
+        .execute();
+
+      await expect(updateGroup({ id: assets.id, nature: 'expense' }))
+        .rejects.toThrow(/nature of system groups cannot be changed/i);
+
+      const renamed = await updateGroup({ id: assets.id, name: 'Assets', nature: 'asset' });
+      expect(renamed).toMatchObject({ name: 'Assets', nature: 'asset' });
+    });
+
     it('should throw error for non-existent group', async () => {
       const updateInput: UpdateGroupInput = {
         id: 999,
@@ -180,6 +226,139 @@ describe('Groups handlers', () => {
       await expect(deleteGroup(deleteInput))
         .rejects.toThrow(/group not found/i);
     });
+
+    it('should refuse groups that still have sub-groups or ledgers', async () => {
+      const parent = await createGroup({ name: 'Assets' });
+      const child = await createGroup({ name: 'Bank Accounts', parent_group_id: parent.id });
+      await createLedger({ name: 'HDFC', group_id: child.id, opening_balance: 0, balance_type: 'debit', ledger_type: 'bank' });
+
+      await expect(deleteGroup({ id: parent.id })).rejects.toThrow(/move or delete the sub-groups of Assets first/i);
+      await expect(deleteGroup({ id: child.id })).rejects.toThrow(/move or delete the ledgers of Bank Accounts first/i);
+      expect(await getGroups()).toHaveLength(2);
+    });
+  });
+
+  describe('moving groups', () => {
+    it('should refuse a missing parent', async () => {
+      await expect(createGroup({ name: 'Orphan', parent_group_id: 999 }))
+        .rejects.toThrow(/parent group not found/i);
+    });
+
+    it('should refuse to make a group its own parent', async () => {
+      const group = await createGroup({ name: 'Assets' });
+
+      await expect(updateGroup({ id: group.id, parent_group_id: group.id }))
+        .rejects.toThrow(/cannot be its own parent/i);
+    });
+
+    it('should refuse to move a group under its own sub-group', async () => {
+      const assets = await createGroup({ name: 'Assets' });
+      const current = await createGroup({ name: 'Current Assets', parent_group_id: assets.id });
+      const bank = await createGroup({ name: 'Bank Accounts', parent_group_id: current.id });
+
+      await expect(moveGroup({ id: assets.id, parent_group_id: bank.id }))
+        .rejects.toThrow(/under one of its own sub-groups/i);
+      await expect(updateGroup({ id: assets.id, parent_group_id: current.id }))
+        .rejects.toThrow(/under one of its own sub-groups/i);
+
+      const unchanged = await getGroup({ id: assets.id });
+      expect(unchanged.parent_group_id).toBeNull();
+    });
+
+    it('should move a group under another group or to the top level', async () => {
+      const assets = await createGroup({ name: 'Assets' });
+      const bank = await createGroup({ name: 'Bank Accounts' });
+
+      const moved = await moveGroup({ id: bank.id, parent_group_id: assets.id });
+      expect(moved.parent_group_id).toEqual(assets.id);
+
+      const primary = await moveGroup({ id: bank.id, parent_group_id: null });
+      expect(primary.parent_group_id).toBeNull();
+    });
+  });
+
+  describe('mergeGroups', () => {
+    it('should move sub-groups and ledgers to the target and delete the group', async () => {
+      const debtors = await createGroup({ name: 'Debtors', nature: 'asset' });
+      const customers = await createGroup({ name: 'Customers', nature: 'asset' });
+      const retail = await createGroup({ name: 'Retail', parent_group_id: customers.id });
+      const ledger = await createLedger({ name: 'Acme', group_id: customers.id, opening_balance: 0, balance_type: 'debit', ledger_type: 'general' });
+
+      const result = await mergeGroups({ id: customers.id, target_group_id: debtors.id });
+
+      expect(result.id).toEqual(debtors.id);
+      expect(result.updated_at.getTime()).toBeGreaterThan(debtors.updated_at.getTime());
+      expect((await getGroup({ id: retail.id })).parent_group_id).toEqual(debtors.id);
+      expect((await getLedger({ id: ledger.id })).group_id).toEqual(debtors.id);
+      await expect(getGroup({ id: customers.id })).rejects.toThrow(/group not found/i);
+    });
+
+    it('should refuse to merge a group into itself or its sub-groups', async () => {
+      const assets = await createGroup({ name: 'Assets' });
+      const bank = await createGroup({ name: 'Bank Accounts', parent_group_id: assets.id });
+
+      await expect(mergeGroups({ id: assets.id, target_group_id: assets.id }))
+        .rejects.toThrow(/cannot be merged into itself/i);
+      await expect(mergeGroups({ id: assets.id, target_group_id: bank.id }))
+        .rejects.toThrow(/into its own sub-group Bank Accounts/i);
+    });
+
+    it('should refuse to merge groups of different natures', async () => {
+      const sales = await createGroup({ name: 'Sales', nature: 'income' });
+      const rent = await createGroup({ name: 'Rent', nature: 'expense' });
+
+      await expect(mergeGroups({ id: rent.id, target_group_id: sales.id }))
+        .rejects.toThrow(/cannot merge Rent \(expense\) into Sales \(income\)/i);
+    });
+  });
+
+  describe('getGroupTree', () => {
+    it('should nest groups and roll up ledger counts and balances', async () => {
+      const assets = await createGroup({ name: 'Assets', nature: 'asset' });
+      const bankGroup = await createGroup({ name: 'Bank Accounts', parent_group_id: assets.id });
+      const capitalGroup = await createGroup({ name: 'Capital', nature: 'equity' });
+
+      const cash = await createLedger({ name: 'Cash', group_id: assets.id, opening_balance: 1000, balance_type: 'debit', ledger_type: 'cash' });
+      const bank = await createLedger({ name: 'Bank', group_id: bankGroup.id, opening_balance: 0, balance_type: 'debit', ledger_type: 'bank' });
+      await createLedger({ name: 'Capital', group_id: capitalGroup.id, opening_balance: 1000, balance_type: 'credit', ledger_type: 'general' });
+
+      await createFinancialYear({ name: 'FY 2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true });
+      const deposit = (date: string, amount: number) => createTransaction({
+        voucher_type: 'contra',
+        entry_date: new Date(date),
+        description: 'Deposit',
+        details: [
+          { ledger_id: bank.id, debit_amount: amount, credit_amount: 0 },
+          { ledger_id: cash.id, debit_amount: 0, credit_amount: amount }
+        ]
+      });
+      await deposit('2024-03-01', 400);
+      await deposit('2024-09-01', 100);
+
+      const tree = await getGroupTree({ as_on_date: new Date('2024-06-30') });
+
+      expect(tree.map(node => node.name)).toEqual(['Assets', 'Capital']);
+      const [assetsNode, capitalNode] = tree;
+
+      expect(assetsNode.children.map(node => node.name)).toEqual(['Bank Accounts']);
+      expect(assetsNode.children[0]).toMatchObject({
+        effective_nature: 'asset',
+        ledger_count: 1,
+        total_debit: 400,
+        total_credit: 0,
+        closing_balance: 400,
+        balance_type: 'debit'
+      });
+      // The deposit moves money within Assets, so only the opening remains
+      expect(assetsNode).toMatchObject({
+        ledger_count: 2,
+        total_debit: 400,
+        total_credit: 400,
+        closing_balance: 1000,
+        balance_type: 'debit'
+      });
+      expect(capitalNode).toMatchObject({ ledger_count: 1, closing_balance: 1000, balance_type: 'credit', children: [] });
+    });
   });
 
   describe('searchGroups', () => {
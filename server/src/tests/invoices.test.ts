@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, contactsTable, ledgersTable, financialYearsTable, transactionEntriesTable, transactionDetailsTable, invoiceLinesTable } from '../db/schema';
+import { createInvoice, getInvoices, getInvoice, updateInvoice, deleteInvoice } from '../handlers/invoices';
+import { getInvoiceSeries, updateInvoiceSeries } from '../handlers/voucher_series';
+import { correctTransaction, deleteTransaction, getCorrectionChain } from '../handlers/transactions';
+import { getBillwiseLedger } from '../handlers/bills';
+import { createTaxRate } from '../handlers/taxes';
+import { cleanCorrections, cleanEntireDatabase } from '../handlers/tools';
+import { eq } from 'drizzle-orm';
+import { type CreateInvoiceInput } from '../schema';
+
+describe('invoice handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+  });
+
+  const createTestData = async () => {
+    const [assets] = await db.insert(groupsTable).values({ name: 'Assets', nature: 'asset' }).returning().execute();
+    const [liabilities] = await db.insert(groupsTable).values({ name: 'Liabilities', nature: 'liability' }).returning().execute();
+    const [income] = await db.insert(groupsTable).values({ name: 'Income', nature: 'income' }).returning().execute();
+    const [expenses] = await db.insert(groupsTable).values({ name: 'Expenses', nature: 'expense' }).returning().execute();
+
+    const [acme] = await db.insert(contactsTable).values({ name: 'Acme Traders', contact_type: 'customer' }).returning().execute();
+    const [supplyco] = await db.insert(contactsTable).values({ name: 'Supplyco', contact_type: 'supplier' }).returning().execute();
+
+    const ledger = async (values: typeof ledgersTable.$inferInsert) => {
+      const [row] = await db.insert(ledgersTable).values(values).returning().execute();
+      return row;
+    };
+
+    const outputTax = await ledger({ name: 'Output Tax', group_id: liabilities.id, balance_type: 'credit' });
+    const inputTax = await ledger({ name: 'Input Tax', group_id: assets.id });
+    const vat = (rate: number) => createTaxRate({
+      name: `VAT ${rate}%`,
+      rate,
+      components: [{ head: 'vat', rate, output_ledger_id: outputTax.id, input_ledger_id: inputTax.id }]
+    });
+
+    return {
+      acme,
+      supplyco,
+      customer: await ledger({ name: 'Acme Traders', group_id: assets.id, contact_id: acme.id }),
+      supplier: await ledger({ name: 'Supplyco', group_id: liabilities.id, contact_id: supplyco.id, balance_type: 'credit' }),
+      sales: await ledger({ name: 'Sales', group_id: income.id, balance_type: 'credit' }),
+      services: await ledger({ name: 'Service Income', group_id: income.id, balance_type: 'credit' }),
+      purchases: await ledger({ name: 'Purchases', group_id: expenses.id }),
+      outputTax,
+      inputTax,
+      vat18: await vat(18),
+      vat5: await vat(5)
+    };
+  };
+
+  type TestData = Awaited<ReturnType<typeof createTestData>>;
+
+  const salesInvoice = (data: TestData): CreateInvoiceInput => ({
+    invoice_type: 'sales',
+    contact_id: data.acme.id,
+    ledger_id: data.customer.id,
+    invoice_date: new Date('2024-03-10'),
+    due_date: new Date('2024-04-09'),
+    reference: null,
+    notes: null,
+    lines: [
+      { description: 'Widgets', ledger_id: data.sales.id, quantity: 3, rate: 99.99, discount_percent: 10, tax_rate_id: data.vat18.id },
+      { description: 'Installation', ledger_id: data.services.id, quantity: 1.5, rate: 200, discount_percent: 0, tax_rate_id: null }
+    ]
+  });
+
+  // Ledger id to signed amount, debits positive, of a voucher's lines
+  const postingsOf = async (entryId: number) => {
+    const details = await db.select()
+      .from(transactionDetailsTable)
+      .where(eq(transactionDetailsTable.entry_id, entryId))
+      .execute();
+    return Object.fromEntries(details.map(detail => [detail.ledger_id, Number(detail.debit_amount) - Number(detail.credit_amount)]));
+  };
+
+  it('should price the lines and post a sales voucher', async () => {
+    const data = await createTestData();
+
+    const invoice = await createInvoice(salesInvoice(data));
+
+    expect(invoice.invoice_number).toEqual('INV/2024/0001');
+    expect(invoice.contact_name).toEqual('Acme Traders');
+    // 3 x 99.99 = 299.97, less 10% (30.00) is 269.97 with 48.59 of tax
+    expect(invoice.lines.map(line => [line.discount_amount, line.amount, line.tax_amount])).toEqual([
+      [30, 269.97, 48.59],
+      [0, 300, 0]
+    ]);
+    expect(invoice).toMatchObject({ discount_amount: 30, taxable_amount: 569.97, tax_amount: 48.59, total_amount: 618.56 });
+
+    const [entry] = await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, invoice.entry_id)).execute();
+    expect(entry.voucher_type).toEqual('sales');
+    expect(entry.description).toEqual('Sales invoice INV/2024/0001');
+    expect(await postingsOf(entry.id)).toEqual({
+      [data.customer.id]: 618.56,
+      [data.sales.id]: -269.97,
+      [data.services.id]: -300,
+      [data.outputTax.id]: -48.59
+    });
+  });
+
+  it('should post purchase bills the other way round', async () => {
+    const data = await createTestData();
+
+    const bill = await createInvoice({
+      invoice_type: 'purchase',
+      contact_id: data.supplyco.id,
+      ledger_id: data.supplier.id,
+      invoice_date: new Date('2024-03-12'),
+      due_date: new Date('2024-03-12'),
+      reference: 'SC-881',
+      notes: null,
+      lines: [{ description: 'Stock', ledger_id: data.purchases.id, quantity: 10, rate: 12.5, discount_percent: 0, tax_rate_id: data.vat5.id }]
+    });
+
+    expect(bill.invoice_number).toEqual('BILL/2024/0001');
+    const [entry] = await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, bill.entry_id)).execute();
+    expect(entry.voucher_type).toEqual('purchase');
+    expect(entry.description).toEqual('Purchase bill BILL/2024/0001 (SC-881)');
+    expect(await postingsOf(entry.id)).toEqual({
+      [data.supplier.id]: -131.25,
+      [data.purchases.id]: 125,
+      [data.inputTax.id]: 6.25
+    });
+
+    // The bill is open on the supplier's ledger
+    const billwise = await getBillwiseLedger({ ledger_id: data.supplier.id });
+    expect(billwise.items.map(item => [item.kind, item.entry_number, item.outstanding])).toEqual([['bill', entry.entry_number, -131.25]]);
+  });
+
+  it('should re-post an edited invoice as a correction and keep its number', async () => {
+    const data = await createTestData();
+    const invoice = await createInvoice(salesInvoice(data));
+
+    const edited = await updateInvoice({
+      ...salesInvoice(data),
+      id: invoice.id,
+      notes: 'Delivered in two lots',
+      lines: [{ description: 'Widgets', ledger_id: data.sales.id, quantity: 5, rate: 100, discount_percent: 0, tax_rate_id: data.vat18.id }]
+    });
+
+    expect(edited.invoice_number).toEqual(invoice.invoice_number);
+    expect(edited.notes).toEqual('Delivered in two lots');
+    expect(edited.total_amount).toEqual(590);
+    expect(edited.lines).toHaveLength(1);
+    expect(edited.entry_id).not.toEqual(invoice.entry_id);
+
+    const chain = await getCorrectionChain({ id: edited.entry_id });
+    expect(chain.map(entry => [entry.id, entry.status])).toEqual([
+      [invoice.entry_id, 'superseded'],
+      [expect.any(Number), 'reversal'],
+      [edited.entry_id, 'active']
+    ]);
+    expect(await postingsOf(edited.entry_id)).toEqual({
+      [data.customer.id]: 590,
+      [data.sales.id]: -500,
+      [data.outputTax.id]: -90
+    });
+  });
+
+  it('should only change invoice vouchers through the invoice', async () => {
+    const data = await createTestData();
+    const invoice = await createInvoice(salesInvoice(data));
+
+    await expect(correctTransaction({
+      id: invoice.entry_id,
+      correction_data: {
+        voucher_type: 'sales',
+        entry_date: new Date('2024-03-10'),
+        description: 'Changed',
+        details: [
+          { ledger_id: data.customer.id, debit_amount: 1, credit_amount: 0 },
+          { ledger_id: data.sales.id, debit_amount: 0, credit_amount: 1 }
+        ]
+      }
+    })).rejects.toThrow('This voucher was posted by sales invoice INV/2024/0001; edit the invoice instead');
+    await expect(deleteTransaction({ id: invoice.entry_id })).rejects.toThrow('delete the invoice instead');
+  });
+
+  it('should delete an invoice with its voucher', async () => {
+    const data = await createTestData();
+    const invoice = await createInvoice(salesInvoice(data));
+
+    expect(await deleteInvoice({ id: invoice.id })).toEqual({ success: true });
+
+    expect(await getInvoices({})).toEqual([]);
+    expect(await db.select().from(invoiceLinesTable).execute()).toEqual([]);
+    expect(await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, invoice.entry_id)).execute()).toEqual([]);
+    await expect(getInvoice({ id: invoice.id })).rejects.toThrow('Invoice not found');
+  });
+
+  it('should point edited invoices back at their first voucher when corrections are cleaned', async () => {
+    const data = await createTestData();
+    const invoice = await createInvoice(salesInvoice(data));
+    await updateInvoice({ ...salesInvoice(data), id: invoice.id, notes: 'First edit' });
+    await updateInvoice({ ...salesInvoice(data), id: invoice.id, notes: 'Second edit' });
+
+    expect((await cleanCorrections()).success).toBe(true);
+
+    const cleaned = await getInvoice({ id: invoice.id });
+    expect(cleaned.entry_id).toEqual(invoice.entry_id);
+    const [entry] = await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, cleaned.entry_id)).execute();
+    expect(entry.status).toEqual('active');
+
+    expect((await cleanEntireDatabase()).success).toBe(true);
+    expect(await getInvoices({})).toEqual([]);
+  });
+
+  it('should reject invoices that do not fit the contact or the lines', async () => {
+    const data = await createTestData();
+    const valid = salesInvoice(data);
+
+    await expect(createInvoice({ ...valid, ledger_id: data.supplier.id })).rejects.toThrow('Supplyco is not linked to Acme Traders');
+    await expect(createInvoice({ ...valid, contact_id: data.supplyco.id, ledger_id: data.supplier.id }))
+      .rejects.toThrow('Supplyco is a supplier; sales invoices are raised to customers');
+    await expect(createInvoice({ ...valid, due_date: new Date('2024-03-01') })).rejects.toThrow('Due date cannot be before the invoice date');
+    await expect(createInvoice({ ...valid, lines: [{ ...valid.lines[0], tax_rate_id: data.vat18.id + 100 }] }))
+      .rejects.toThrow('Line 1 has a tax rate that does not exist');
+    await expect(createInvoice({ ...valid, lines: [{ ...valid.lines[1], ledger_id: data.customer.id }] }))
+      .rejects.toThrow("Line 1 cannot be posted to Acme Traders, the contact's own ledger");
+    await expect(createInvoice({ ...valid, lines: [{ ...valid.lines[1], rate: 0 }] })).rejects.toThrow('The invoice total must be more than zero');
+
+    // Nothing was posted and no number was used up
+    expect(await db.select().from(transactionEntriesTable).execute()).toEqual([]);
+    expect((await createInvoice(valid)).invoice_number).toEqual('INV/2024/0001');
+  });
+
+  it('should list invoices by type and contact, newest first', async () => {
+    const data = await createTestData();
+    const first = await createInvoice(salesInvoice(data));
+    const second = await createInvoice({ ...salesInvoice(data), invoice_date: new Date('2024-03-20'), due_date: new Date('2024-03-20') });
+
+    expect((await getInvoices({ invoice_type: 'sales' })).map(invoice => invoice.id)).toEqual([second.id, first.id]);
+    expect(await getInvoices({ invoice_type: 'purchase' })).toEqual([]);
+    expect(await getInvoices({ contact_id: data.supplyco.id })).toEqual([]);
+  });
+
+  it('should number invoices from their own series', async () => {
+    const data = await createTestData();
+
+    const series = await getInvoiceSeries();
+    expect(series.map(item => [item.invoice_type, item.prefix])).toEqual([['sales', 'INV/{FY}/'], ['purchase', 'BILL/{FY}/']]);
+
+    const updated = await updateInvoiceSeries({ id: series[0].id, prefix: 'AC/', suffix: '/{FY}', padding: 3 });
+    expect(updated).toMatchObject({ prefix: 'AC/', suffix: '/{FY}', padding: 3 });
+    await expect(updateInvoiceSeries({ id: series[0].id, suffix: '' })).rejects.toThrow('Prefix or suffix must contain {FY}');
+    await expect(updateInvoiceSeries({ id: series[1].id, prefix: 'AC/', suffix: '/{FY}' }))
+      .rejects.toThrow('The Sales invoice series can issue the same numbers');
+
+    const invoice = await createInvoice(salesInvoice(data));
+    expect(invoice.invoice_number).toEqual('AC/001/2024');
+    // The voucher is numbered from the sales voucher series as before
+    const [entry] = await db.select().from(transactionEntriesTable).where(eq(transactionEntriesTable.id, invoice.entry_id)).execute();
+    expect(entry.entry_number).toEqual('SAL/2024/0001');
+  });
+});
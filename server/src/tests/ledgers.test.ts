@@ -2,7 +2,18 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { ledgersTable, groupsTable, contactsTable } from '../db/schema';
+import {
+  ledgersTable,
+  groupsTable,
+  contactsTable,
+  financialYearsTable,
+  ledgerOpeningBalancesTable,
+  transactionEntriesTable,
+  transactionDetailsTable,
+  taxRatesTable,
+  taxComponentsTable,
+  bankStatementsTable
+} from '../db/schema';
 import { type CreateLedgerInput, type UpdateLedgerInput, type SearchInput } from '../schema';
 import { createLedger, getLedgers, getLedger, updateLedger, deleteLedger, searchLedgers } from '../handlers/ledgers';
 import { eq } from 'drizzle-orm';
@@ -26,7 +37,8 @@ describe('Ledgers', () => {
         name: 'Cash Account',
         group_id: group[0].id,
         opening_balance: 1000.50,
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'general'
       };
 
       const result = await createLedger(testInput);
@@ -66,7 +78,8 @@ describe('Ledgers', () => {
         group_id: group[0].id,
         contact_id: contact[0].id,
         opening_balance: 500.00,
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'general'
       };
 
       const result = await createLedger(testInput);
@@ -92,7 +105,8 @@ describe('Ledgers', () => {
         name: 'Accounts Payable',
         group_id: group[0].id,
         opening_balance: 2000.00,
-        balance_type: 'credit'
+        balance_type: 'credit',
+        ledger_type: 'general'
       };
 
       const result = await createLedger(testInput);
@@ -114,7 +128,8 @@ describe('Ledgers', () => {
         name: 'Test Ledger',
         group_id: 999,
         opening_balance: 100.00,
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'general'
       };
 
       await expect(createLedger(testInput)).rejects.toThrow(/group not found/i);
@@ -135,7 +150,8 @@ describe('Ledgers', () => {
         group_id: group[0].id,
         contact_id: 999,
         opening_balance: 100.00,
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'general'
       };
 
       await expect(createLedger(testInput)).rejects.toThrow(/contact not found/i);
@@ -308,6 +324,23 @@ describe('Ledgers', () => {
 
       await expect(updateLedger(updateInput)).rejects.toThrow(/group not found/i);
     });
+
+    it('should keep a ledger with imported statements a bank ledger', async () => {
+      const [group] = await db.insert(groupsTable).values({ name: 'Bank Accounts' }).returning().execute();
+      const [bank] = await db.insert(ledgersTable)
+        .values({ name: 'Bank', group_id: group.id, ledger_type: 'bank' })
+        .returning()
+        .execute();
+      await db.insert(bankStatementsTable)
+        .values({ ledger_id: bank.id, format: 'csv', file_name: 'march.csv', start_date: new Date('2024-03-01'), end_date: new Date('2024-03-31') })
+        .execute();
+
+      await expect(updateLedger({ id: bank.id, ledger_type: 'general' }))
+        .rejects.toThrow(/must stay a bank ledger/i);
+
+      const renamed = await updateLedger({ id: bank.id, name: 'Main Bank', ledger_type: 'bank' });
+      expect(renamed.name).toEqual('Main Bank');
+    });
   });
 
   describe('deleteLedger', () => {
@@ -349,6 +382,65 @@ describe('Ledgers', () => {
       const result = await deleteLedger({ id: 999 });
       expect(result.success).toBe(false);
     });
+
+    const createInUseLedgers = async () => {
+      const [group] = await db.insert(groupsTable).values({ name: 'Test Group' }).returning().execute();
+      const [cash, sales] = await db.insert(ledgersTable)
+        .values([
+          { name: 'Cash', group_id: group.id },
+          { name: 'Sales', group_id: group.id }
+        ])
+        .returning()
+        .execute();
+
+      return { group, cash, sales };
+    };
+
+    it('should refuse to delete a ledger with postings', async () => {
+      const { cash, sales } = await createInUseLedgers();
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'JV/0001', voucher_type: 'journal', entry_date: new Date('2024-01-15'), description: 'Cash sale', total_amount: '100' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: cash.id, debit_amount: '100', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: sales.id, debit_amount: '0', credit_amount: '100' }
+        ])
+        .execute();
+
+      await expect(deleteLedger({ id: cash.id })).rejects.toThrow(/Cash is used by vouchers/);
+    });
+
+    it('should refuse to delete a ledger a tax rate posts to', async () => {
+      const { sales } = await createInUseLedgers();
+      const [vat] = await db.insert(taxRatesTable).values({ name: 'VAT 20%', rate: '20' }).returning().execute();
+      await db.insert(taxComponentsTable)
+        .values({ tax_rate_id: vat.id, head: 'vat', rate: '20', output_ledger_id: sales.id, input_ledger_id: sales.id })
+        .execute();
+
+      await expect(deleteLedger({ id: sales.id })).rejects.toThrow(/Sales is used by tax rates/);
+    });
+
+    it('should delete zero carried-forward balances with the ledger and refuse others', async () => {
+      const { cash, sales } = await createInUseLedgers();
+      const [year] = await db.insert(financialYearsTable)
+        .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31') })
+        .returning()
+        .execute();
+      await db.insert(ledgerOpeningBalancesTable)
+        .values([
+          { financial_year_id: year.id, ledger_id: cash.id, opening_balance: '250', balance_type: 'debit' },
+          { financial_year_id: year.id, ledger_id: sales.id, opening_balance: '0', balance_type: 'credit' }
+        ])
+        .execute();
+
+      await expect(deleteLedger({ id: cash.id })).rejects.toThrow(/Cash is used by carried-forward opening balances/);
+
+      expect((await deleteLedger({ id: sales.id })).success).toBe(true);
+      const openings = await db.select().from(ledgerOpeningBalancesTable).execute();
+      expect(openings.map(opening => opening.ledger_id)).toEqual([cash.id]);
+    });
   });
 
   describe('searchLedgers', () => {
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test';
+import { isValidMoney, parseMoney, formatMoney, moneyToNumber, sumMoney, absMoney, percentOf } from '../money';
+import { moneySchema, nonNegativeMoneySchema, createTransactionInputSchema } from '../schema';
+
+describe('money', () => {
+  describe('parseMoney', () => {
+    it('should parse numbers and numeric strings into minor units', () => {
+      expect(parseMoney(500)).toEqual(50000n);
+      expect(parseMoney(0.1)).toEqual(10n);
+      expect(parseMoney(-12.5)).toEqual(-1250n);
+      expect(parseMoney('1000.00')).toEqual(100000n);
+      expect(parseMoney('0.05')).toEqual(5n);
+    });
+
+    it('should treat null as zero', () => {
+      expect(parseMoney(null)).toEqual(0n);
+    });
+
+    it('should reject amounts with more than two decimals', () => {
+      expect(() => parseMoney(1.005)).toThrow(/Invalid amount/);
+      expect(() => parseMoney('10.125')).toThrow(/Invalid amount/);
+      expect(() => parseMoney(0.1 + 0.2)).toThrow(/Invalid amount/);
+    });
+
+    it('should reject amounts that do not fit numeric(15,2)', () => {
+      expect(() => parseMoney(10000000000000)).toThrow(/Invalid amount/);
+      expect(parseMoney(9999999999999.99)).toEqual(999999999999999n);
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should format minor units with two decimals', () => {
+      expect(formatMoney(50000n)).toEqual('500.00');
+      expect(formatMoney(5n)).toEqual('0.05');
+      expect(formatMoney(-1250n)).toEqual('-12.50');
+      expect(formatMoney(0n)).toEqual('0.00');
+    });
+  });
+
+  it('should sum without floating-point drift', () => {
+    const amounts = Array.from({ length: 1000 }, () => parseMoney(0.1));
+
+    expect(sumMoney(amounts)).toEqual(10000n);
+    expect(moneyToNumber(sumMoney(amounts))).toEqual(100);
+    expect(absMoney(-10n)).toEqual(10n);
+  });
+
+  it('should take percentages rounded to the nearest minor unit', () => {
+    expect(percentOf(parseMoney(269.97), 18)).toEqual(4859n);
+    expect(percentOf(parseMoney(269.97), 9)).toEqual(2430n);
+    expect(percentOf(parseMoney(0.5), 1)).toEqual(1n);
+    expect(percentOf(parseMoney(-0.5), 1)).toEqual(-1n);
+    expect(percentOf(parseMoney(100), 0)).toEqual(0n);
+  });
+
+  describe('schemas', () => {
+    it('should accept amounts with up to two decimals', () => {
+      expect(isValidMoney(12.34)).toBe(true);
+      expect(moneySchema.safeParse(-12.3).success).toBe(true);
+      expect(nonNegativeMoneySchema.safeParse(0).success).toBe(true);
+    });
+
+    it('should reject amounts with more than two decimals', () => {
+      expect(isValidMoney(12.345)).toBe(false);
+      expect(moneySchema.safeParse(12.345).success).toBe(false);
+      expect(nonNegativeMoneySchema.safeParse(-1).success).toBe(false);
+    });
+
+    it('should reject transaction lines with sub-paisa amounts', () => {
+      const result = createTransactionInputSchema.safeParse({
+        entry_date: '2024-01-15',
+        description: 'Sub-paisa entry',
+        details: [
+          { ledger_id: 1, debit_amount: 100.001 },
+          { ledger_id: 2, credit_amount: 100.001 }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+import { columnLabel, comparativeColumns } from '../periods';
+
+describe('periods', () => {
+  describe('comparativeColumns', () => {
+    it('should split a financial year into months', () => {
+      const columns = comparativeColumns('monthly', new Date('2024-04-01'), new Date('2025-03-31'));
+
+      expect(columns).toHaveLength(12);
+      expect(columns[0]).toEqual({ label: 'Apr 2024', start_date: new Date('2024-04-01'), end_date: new Date('2024-04-30') });
+      expect(columns[10].end_date).toEqual(new Date('2025-02-28'));
+      expect(columns[11]).toEqual({ label: 'Mar 2025', start_date: new Date('2025-03-01'), end_date: new Date('2025-03-31') });
+    });
+
+    it('should split a financial year into quarters', () => {
+      const columns = comparativeColumns('quarterly', new Date('2024-04-01'), new Date('2025-03-31'));
+
+      expect(columns.map(column => column.label)).toEqual(['Apr – Jun 2024', 'Jul – Sep 2024', 'Oct – Dec 2024', 'Jan – Mar 2025']);
+      expect(columns[3].start_date).toEqual(new Date('2025-01-01'));
+    });
+
+    it('should cut the first and last months to the period', () => {
+      const columns = comparativeColumns('monthly', new Date('2024-01-15'), new Date('2024-02-10'));
+
+      expect(columns).toEqual([
+        { label: '15 Jan 2024 – 31 Jan 2024', start_date: new Date('2024-01-15'), end_date: new Date('2024-01-31') },
+        { label: '1 Feb 2024 – 10 Feb 2024', start_date: new Date('2024-02-01'), end_date: new Date('2024-02-10') }
+      ]);
+    });
+
+    it('should put the same period a year earlier first', () => {
+      const columns = comparativeColumns('year_over_year', new Date('2024-01-01'), new Date('2024-02-29'));
+
+      expect(columns).toEqual([
+        { label: 'Jan – Feb 2023', start_date: new Date('2023-01-01'), end_date: new Date('2023-02-28') },
+        { label: 'Jan – Feb 2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-02-29') }
+      ]);
+    });
+  });
+
+  describe('columnLabel', () => {
+    it('should name periods spanning years by their months', () => {
+      expect(columnLabel(new Date('2024-04-01'), new Date('2025-03-31'))).toEqual('Apr 2024 – Mar 2025');
+    });
+  });
+});
@@ -1,19 +1,36 @@
 
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
+import { eq } from 'drizzle-orm';
 import { db } from '../db';
-import { groupsTable, contactsTable, ledgersTable, transactionEntriesTable, transactionDetailsTable } from '../db/schema';
+import { groupsTable, contactsTable, ledgersTable, transactionEntriesTable, transactionDetailsTable, financialYearsTable } from '../db/schema';
 import { 
   getDaybookReport, 
   getLedgerReport, 
+  getContactStatement,
   getTrialBalance, 
+  getGroupedTrialBalance,
   getProfitAndLoss, 
-  getBalanceSheet 
+  getBalanceSheet,
+  getComparativeTrialBalance,
+  getComparativeProfitAndLoss,
+  getComparativeBalanceSheet,
+  getCashFlowStatement
 } from '../handlers/reports';
-import type { 
-  DaybookReportInput, 
-  LedgerReportInput, 
-  TrialBalanceInput 
+import { closeFinancialYear } from '../handlers/financial_years';
+import {
+  daybookReportSchema,
+  ledgerReportSchema,
+  contactStatementSchema,
+  trialBalanceSchema,
+  groupedTrialBalanceSchema,
+  profitAndLossSchema,
+  balanceSheetSchema,
+  cashFlowStatementSchema,
+  type DaybookReportInput, 
+  type LedgerReportInput, 
+  type TrialBalanceInput,
+  type TrialBalanceGroupLine
 } from '../schema';
 
 describe('Reports', () => {
@@ -24,17 +41,17 @@ describe('Reports', () => {
   const createTestData = async () => {
     // Create groups
     const [assetsGroup] = await db.insert(groupsTable)
-      .values({ name: 'Assets', description: 'Asset accounts' })
+      .values({ name: 'Assets', description: 'Asset accounts', nature: 'asset' })
       .returning()
       .execute();
 
     const [liabilitiesGroup] = await db.insert(groupsTable)
-      .values({ name: 'Liabilities', description: 'Liability accounts' })
+      .values({ name: 'Liabilities', description: 'Liability accounts', nature: 'liability' })
       .returning()
       .execute();
 
     const [incomeGroup] = await db.insert(groupsTable)
-      .values({ name: 'Income', description: 'Income accounts' })
+      .values({ name: 'Income', description: 'Income accounts', nature: 'income' })
       .returning()
       .execute();
 
@@ -44,7 +61,8 @@ describe('Reports', () => {
         name: 'Cash',
         group_id: assetsGroup.id,
         opening_balance: '10000',
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'cash'
       })
       .returning()
       .execute();
@@ -54,7 +72,8 @@ describe('Reports', () => {
         name: 'Bank',
         group_id: assetsGroup.id,
         opening_balance: '25000',
-        balance_type: 'debit'
+        balance_type: 'debit',
+        ledger_type: 'bank'
       })
       .returning()
       .execute();
@@ -86,6 +105,7 @@ describe('Reports', () => {
     const [entry1] = await db.insert(transactionEntriesTable)
       .values({
         entry_number: 'TXN001',
+        voucher_type: 'sales',
         entry_date: testDate1,
         description: 'Cash sale',
         total_amount: '5000'
@@ -96,6 +116,7 @@ describe('Reports', () => {
     const [entry2] = await db.insert(transactionEntriesTable)
       .values({
         entry_number: 'TXN002',
+        voucher_type: 'contra',
         entry_date: testDate2,
         description: 'Bank deposit',
         total_amount: '3000'
@@ -145,6 +166,23 @@ describe('Reports', () => {
   };
 
   describe('getDaybookReport', () => {
+    it('should filter by voucher type', async () => {
+      const { entries } = await createTestData();
+
+      const result = await getDaybookReport({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        day_summary: false,
+        voucher_type: 'contra'
+      });
+
+      expect(result.periods).toHaveLength(1);
+      expect(result.periods[0].vouchers).toHaveLength(1);
+      expect(result.periods[0].vouchers[0].entry_id).toEqual(entries.entry2.id);
+      expect(result.periods[0].vouchers[0].voucher_type).toEqual('contra');
+    });
+
     it('should generate daybook report for date range', async () => {
       await createTestData();
 
@@ -157,13 +195,24 @@ describe('Reports', () => {
 
       const result = await getDaybookReport(input);
 
-      expect(result).toHaveLength(4); // 2 entries × 2 details each
-      expect(result[0].entry_number).toEqual('TXN001');
-      expect(result[0].description).toEqual('Cash sale');
-      expect(typeof result[0].total_amount).toBe('number');
-      expect(typeof result[0].debit_amount).toBe('number');
-      expect(typeof result[0].credit_amount).toBe('number');
-      expect(result[0].entry_date).toBeInstanceOf(Date);
+      expect(result.periods).toHaveLength(2);
+      const [first] = result.periods;
+      expect(first.period_start).toEqual(new Date('2024-01-15'));
+      expect(first.period_end).toEqual(new Date('2024-01-15'));
+      expect(first.voucher_count).toEqual(1);
+      expect(first.total_debit).toEqual(5000);
+      expect(first.total_credit).toEqual(5000);
+      expect(first.vouchers[0]).toMatchObject({
+        entry_number: 'TXN001',
+        description: 'Cash sale',
+        total_amount: 5000
+      });
+      expect(first.vouchers[0].entry_date).toBeInstanceOf(Date);
+      expect(first.vouchers[0].lines).toEqual([
+        expect.objectContaining({ ledger_name: 'Cash', description: 'Cash received', debit_amount: 5000, credit_amount: 0 }),
+        expect.objectContaining({ ledger_name: 'Sales', description: 'Sales recorded', debit_amount: 0, credit_amount: 5000 })
+      ]);
+      expect(result.totals).toEqual({ voucher_count: 2, total_debit: 8000, total_credit: 8000 });
     });
 
     it('should filter transactions by date range', async () => {
@@ -178,14 +227,62 @@ describe('Reports', () => {
 
       const result = await getDaybookReport(input);
 
-      expect(result).toHaveLength(2); // Only TXN002 should be included
-      expect(result.every(r => r.entry_number === 'TXN002')).toBe(true);
+      // Only TXN002 should be included
+      expect(result.periods.flatMap(period => period.vouchers.map(voucher => voucher.entry_number))).toEqual(['TXN002']);
+    });
+
+    it('should group vouchers by week and month', async () => {
+      await createTestData();
+
+      const weekly = await getDaybookReport({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'weekly',
+        day_summary: false
+      });
+
+      // 15 January 2024 is a Monday
+      expect(weekly.periods).toHaveLength(1);
+      expect(weekly.periods[0].period_start).toEqual(new Date('2024-01-15'));
+      expect(weekly.periods[0].period_end).toEqual(new Date('2024-01-21'));
+      expect(weekly.periods[0].vouchers.map(voucher => voucher.entry_number)).toEqual(['TXN001', 'TXN002']);
+
+      const monthly = await getDaybookReport({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'monthly',
+        day_summary: false
+      });
+
+      expect(monthly.periods).toHaveLength(1);
+      expect(monthly.periods[0].period_end).toEqual(new Date('2024-01-31'));
+      expect(monthly.periods[0].total_debit).toEqual(8000);
+    });
+
+    it('should return only period totals in day summary mode', async () => {
+      await createTestData();
+
+      const result = await getDaybookReport({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        day_summary: true
+      });
+
+      expect(result.periods.map(period => ({
+        voucher_count: period.voucher_count,
+        total_debit: period.total_debit,
+        vouchers: period.vouchers
+      }))).toEqual([
+        { voucher_count: 1, total_debit: 5000, vouchers: [] },
+        { voucher_count: 1, total_debit: 3000, vouchers: [] }
+      ]);
     });
   });
 
   describe('getLedgerReport', () => {
     it('should generate ledger report for all ledgers', async () => {
-      const testData = await createTestData();
+      await createTestData();
 
       const input: LedgerReportInput = {
         start_date: new Date('2024-01-01'),
@@ -196,15 +293,22 @@ describe('Reports', () => {
 
       const result = await getLedgerReport(input);
 
-      expect(result).toHaveLength(4);
-      expect(result[0].ledger_name).toBeDefined();
-      expect(typeof result[0].opening_balance).toBe('number');
-      expect(typeof result[0].debit_amount).toBe('number');
-      expect(typeof result[0].credit_amount).toBe('number');
-      expect(result[0].balance_type).toMatch(/^(debit|credit)$/);
+      expect(result.ledgers.map(statement => statement.ledger_name)).toEqual(['Bank', 'Capital', 'Cash', 'Sales']);
+      const sales = result.ledgers.find(statement => statement.ledger_name === 'Sales')!;
+      expect(sales).toMatchObject({
+        opening_balance: 0,
+        total_debit: 0,
+        total_credit: 5000,
+        closing_balance: 5000,
+        closing_balance_type: 'credit'
+      });
+      const capital = result.ledgers.find(statement => statement.ledger_name === 'Capital')!;
+      expect(capital.periods).toHaveLength(0);
+      expect(capital.closing_balance).toEqual(50000);
+      expect(capital.closing_balance_type).toEqual('credit');
     });
 
-    it('should filter by specific ledger', async () => {
+    it('should run the balance through each line with its contra ledgers', async () => {
       const testData = await createTestData();
 
       const input: LedgerReportInput = {
@@ -217,9 +321,84 @@ describe('Reports', () => {
 
       const result = await getLedgerReport(input);
 
-      expect(result.length).toBeGreaterThan(0);
-      expect(result.every(r => r.ledger_id === testData.ledgers.cashLedger.id)).toBe(true);
-      expect(result.every(r => r.ledger_name === 'Cash')).toBe(true);
+      expect(result.ledgers).toHaveLength(1);
+      const [cash] = result.ledgers;
+      expect(cash.opening_balance).toEqual(10000);
+      expect(cash.opening_balance_type).toEqual('debit');
+      expect(cash.periods).toHaveLength(2);
+      expect(cash.periods[0].lines).toEqual([expect.objectContaining({
+        entry_number: 'TXN001',
+        voucher_type: 'sales',
+        description: 'Cash received',
+        contra_ledgers: ['Sales'],
+        debit_amount: 5000,
+        credit_amount: 0,
+        balance: 15000,
+        balance_type: 'debit'
+      })]);
+      expect(cash.periods[1].lines[0]).toMatchObject({ contra_ledgers: ['Bank'], balance: 12000, balance_type: 'debit' });
+      expect(cash.periods[1].period_start).toEqual(new Date('2024-01-20'));
+      expect(cash.total_debit).toEqual(5000);
+      expect(cash.total_credit).toEqual(3000);
+      expect(cash.closing_balance).toEqual(12000);
+    });
+
+    it('should bring the balance forward to the start date', async () => {
+      const testData = await createTestData();
+
+      const result = await getLedgerReport({
+        ledger_id: testData.ledgers.cashLedger.id,
+        start_date: new Date('2024-01-16'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        ledger_summary: false
+      });
+
+      const [cash] = result.ledgers;
+      expect(cash.opening_balance).toEqual(15000);
+      expect(cash.periods).toHaveLength(1);
+      expect(cash.closing_balance).toEqual(12000);
+    });
+
+    it('should subtotal weekly and monthly periods', async () => {
+      const testData = await createTestData();
+
+      const weekly = await getLedgerReport({
+        ledger_id: testData.ledgers.cashLedger.id,
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'weekly',
+        ledger_summary: false
+      });
+
+      // 15 January 2024 is a Monday
+      expect(weekly.ledgers[0].periods).toHaveLength(1);
+      expect(weekly.ledgers[0].periods[0]).toMatchObject({
+        period_start: new Date('2024-01-15'),
+        period_end: new Date('2024-01-21'),
+        total_debit: 5000,
+        total_credit: 3000,
+        closing_balance: 12000
+      });
+      expect(weekly.ledgers[0].periods[0].lines).toHaveLength(2);
+
+      const monthly = await getLedgerReport({
+        ledger_id: testData.ledgers.cashLedger.id,
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'monthly',
+        ledger_summary: true
+      });
+
+      expect(monthly.ledgers[0].periods).toEqual([{
+        period_start: new Date('2024-01-01'),
+        period_end: new Date('2024-01-31'),
+        lines: [],
+        total_debit: 5000,
+        total_credit: 3000,
+        closing_balance: 12000,
+        closing_balance_type: 'debit'
+      }]);
     });
 
     it('should filter by group', async () => {
@@ -235,11 +414,193 @@ describe('Reports', () => {
 
       const result = await getLedgerReport(input);
 
-      expect(result.length).toBeGreaterThan(0);
       // Should only include Cash and Bank ledgers (both in Assets group)
-      const ledgerNames = [...new Set(result.map(r => r.ledger_name))];
-      expect(ledgerNames).toEqual(expect.arrayContaining(['Cash', 'Bank']));
-      expect(ledgerNames).not.toContain('Sales');
+      expect(result.ledgers.map(statement => statement.ledger_name)).toEqual(['Bank', 'Cash']);
+    });
+
+    it('should carry balances across financial years and restart income and expenses once closed', async () => {
+      const { ledgers } = await createTestData();
+      const [fy2023] = await db.insert(financialYearsTable)
+        .values([
+          { name: 'FY 2023', start_date: new Date('2023-01-01'), end_date: new Date('2023-12-31') },
+          { name: 'FY 2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31') }
+        ])
+        .returning()
+        .execute();
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'TXN000', voucher_type: 'sales', entry_date: new Date('2023-12-10'), description: 'Cash sale', total_amount: '1000' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: ledgers.cashLedger.id, debit_amount: '1000', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: ledgers.salesLedger.id, debit_amount: '0', credit_amount: '1000' }
+        ])
+        .execute();
+
+      const report = (startDate: string, endDate: string) => getLedgerReport({
+        start_date: new Date(startDate),
+        end_date: new Date(endDate),
+        period: 'monthly',
+        ledger_summary: false
+      });
+      const statement = (result: Awaited<ReturnType<typeof report>>, name: string) => result.ledgers.find(ledger => ledger.ledger_name === name)!;
+
+      // While FY 2023 is open, income carries into FY 2024 just as a
+      // statement starting in FY 2024 opens with it
+      const open = await report('2023-12-01', '2024-01-31');
+      expect(statement(open, 'Cash').periods.map(period => period.closing_balance)).toEqual([11000, 13000]);
+      expect(statement(open, 'Sales').periods.map(period => period.closing_balance)).toEqual([1000, 6000]);
+      expect(statement(open, 'Sales').closing_balance).toEqual(6000);
+
+      const openNewYear = await report('2024-01-01', '2024-01-31');
+      expect(statement(openNewYear, 'Sales').opening_balance).toEqual(1000);
+      expect(statement(openNewYear, 'Sales').closing_balance).toEqual(6000);
+
+      // Closing FY 2023 moves its income to capital, so FY 2024 starts Sales from zero
+      await closeFinancialYear({ id: fy2023.id, retained_earnings_ledger_id: ledgers.capitalLedger.id });
+
+      const closed = await report('2023-12-01', '2024-01-31');
+      expect(statement(closed, 'Cash').closing_balance).toEqual(13000);
+      expect(statement(closed, 'Sales').periods.map(period => period.closing_balance)).toEqual([1000, 5000]);
+      expect(statement(closed, 'Sales').closing_balance).toEqual(5000);
+      expect(statement(closed, 'Capital').closing_balance).toEqual(51000);
+
+      const closedNewYear = await report('2024-01-01', '2024-01-31');
+      expect(statement(closedNewYear, 'Sales').closing_balance).toEqual(5000);
+      expect(statement(closedNewYear, 'Capital').opening_balance).toEqual(51000);
+
+      // No sales yet in the new year
+      const early = await report('2023-12-01', '2024-01-10');
+      expect(statement(early, 'Sales').closing_balance).toEqual(0);
+    });
+
+    it('should reject a start date after the end date', async () => {
+      await createTestData();
+
+      await expect(getLedgerReport({
+        start_date: new Date('2024-02-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        ledger_summary: false
+      })).rejects.toThrow(/start date must not be after end date/i);
+    });
+  });
+
+  describe('getContactStatement', () => {
+    const createContactData = async () => {
+      const { groups, ledgers } = await createTestData();
+      const [contact] = await db.insert(contactsTable)
+        .values({ name: 'Acme Retail', contact_type: 'customer', address: '1 Main Street' })
+        .returning()
+        .execute();
+      const [tradeLedger] = await db.insert(ledgersTable)
+        .values({ name: 'Acme Trade', group_id: groups.assetsGroup.id, opening_balance: '1000', balance_type: 'debit', contact_id: contact.id })
+        .returning()
+        .execute();
+      const [depositLedger] = await db.insert(ledgersTable)
+        .values({ name: 'Acme Deposit', group_id: groups.liabilitiesGroup.id, opening_balance: '200', balance_type: 'credit', contact_id: contact.id })
+        .returning()
+        .execute();
+
+      const vouchers = [
+        { number: 'SAL/001', type: 'sales' as const, date: '2024-01-05', debit: tradeLedger.id, credit: ledgers.salesLedger.id, amount: '300' },
+        { number: 'SAL/002', type: 'sales' as const, date: '2024-01-15', debit: tradeLedger.id, credit: ledgers.salesLedger.id, amount: '500' },
+        { number: 'RCT/001', type: 'receipt' as const, date: '2024-01-20', debit: ledgers.cashLedger.id, credit: tradeLedger.id, amount: '700' },
+        { number: 'JV/001', type: 'journal' as const, date: '2024-01-25', debit: depositLedger.id, credit: tradeLedger.id, amount: '200' }
+      ];
+      for (const voucher of vouchers) {
+        const [entry] = await db.insert(transactionEntriesTable)
+          .values({ entry_number: voucher.number, voucher_type: voucher.type, entry_date: new Date(voucher.date), description: 'Acme', total_amount: voucher.amount })
+          .returning()
+          .execute();
+        await db.insert(transactionDetailsTable)
+          .values([
+            { entry_id: entry.id, ledger_id: voucher.debit, debit_amount: voucher.amount, credit_amount: '0' },
+            { entry_id: entry.id, ledger_id: voucher.credit, debit_amount: '0', credit_amount: voucher.amount }
+          ])
+          .execute();
+      }
+
+      return contact;
+    };
+
+    it('should run one balance through the vouchers of all the contact ledgers', async () => {
+      const contact = await createContactData();
+
+      const result = await getContactStatement({
+        contact_id: contact.id,
+        start_date: new Date('2024-01-10'),
+        end_date: new Date('2024-01-31')
+      });
+
+      expect(result.contact.name).toEqual('Acme Retail');
+      expect(result.ledger_names).toEqual(['Acme Deposit', 'Acme Trade']);
+      // 1000 Dr and 200 Cr of openings, and the sale before the period
+      expect(result.opening_balance).toEqual(1100);
+      expect(result.opening_balance_type).toEqual('debit');
+      expect(result.lines.map(line => [line.entry_number, line.contra_ledgers, line.debit_amount, line.credit_amount, line.balance, line.balance_type])).toEqual([
+        ['SAL/002', ['Sales'], 500, 0, 1600, 'debit'],
+        ['RCT/001', ['Cash'], 0, 700, 900, 'debit'],
+        // A transfer between the contact's own ledgers changes nothing
+        ['JV/001', [], 200, 200, 900, 'debit']
+      ]);
+      expect(result).toMatchObject({ total_debit: 700, total_credit: 900, closing_balance: 900, closing_balance_type: 'debit' });
+      expect(contactStatementSchema.parse(result)).toEqual(result);
+    });
+
+    it('should keep contra ledgers named like one of the contact ledgers', async () => {
+      const contact = await createContactData();
+      const [group] = await db.insert(groupsTable).values({ name: 'Deposits Held', nature: 'liability' }).returning().execute();
+      const [namesake] = await db.insert(ledgersTable)
+        .values({ name: 'Acme Deposit', group_id: group.id, opening_balance: '0', balance_type: 'credit' })
+        .returning()
+        .execute();
+      const [trade] = await db.select().from(ledgersTable).where(eq(ledgersTable.name, 'Acme Trade')).execute();
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'JV/002', voucher_type: 'journal', entry_date: new Date('2024-01-28'), description: 'Acme', total_amount: '50' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: namesake.id, debit_amount: '50', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: trade.id, debit_amount: '0', credit_amount: '50' }
+        ])
+        .execute();
+
+      const result = await getContactStatement({
+        contact_id: contact.id,
+        start_date: new Date('2024-01-26'),
+        end_date: new Date('2024-01-31')
+      });
+
+      expect(result.lines.map(line => [line.entry_number, line.contra_ledger_ids, line.contra_ledgers])).toEqual([
+        ['JV/002', [namesake.id], ['Acme Deposit']]
+      ]);
+    });
+
+    it('should show a nil balance for a contact without ledgers', async () => {
+      const [supplier] = await db.insert(contactsTable)
+        .values({ name: 'Zenith Supplies', contact_type: 'supplier' })
+        .returning()
+        .execute();
+
+      const result = await getContactStatement({
+        contact_id: supplier.id,
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31')
+      });
+
+      expect(result.lines).toHaveLength(0);
+      expect(result).toMatchObject({ opening_balance: 0, opening_balance_type: 'credit', closing_balance: 0, closing_balance_type: 'credit' });
+    });
+
+    it('should reject unknown contacts', async () => {
+      await expect(getContactStatement({
+        contact_id: 9999,
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31')
+      })).rejects.toThrow('Contact not found');
     });
   });
 
@@ -281,6 +642,216 @@ describe('Reports', () => {
       expect(cashResult!.closing_balance).toEqual(12000);
       expect(cashResult!.closing_balance_type).toEqual('debit');
     });
+    it('should total many small amounts without floating-point error', async () => {
+      const testData = await createTestData();
+
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({
+          entry_number: 'TXN003',
+          entry_date: new Date('2024-01-25'),
+          description: 'Many small receipts',
+          total_amount: '33.00'
+        })
+        .returning()
+        .execute();
+
+      // 330 lines of 0.10 each side
+      await db.insert(transactionDetailsTable)
+        .values(Array.from({ length: 330 }, () => [
+          { entry_id: entry.id, ledger_id: testData.ledgers.cashLedger.id, debit_amount: '0.10', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: testData.ledgers.salesLedger.id, debit_amount: '0', credit_amount: '0.10' }
+        ]).flat())
+        .execute();
+
+      const result = await getTrialBalance({ as_on_date: new Date('2024-01-31') });
+
+      const cashResult = result.find(r => r.ledger_name === 'Cash');
+      const salesResult = result.find(r => r.ledger_name === 'Sales');
+      expect(cashResult!.total_debit).toEqual(5033);
+      expect(cashResult!.closing_balance).toEqual(12033);
+      expect(salesResult!.closing_balance).toEqual(5033);
+    });
+
+    it('should ignore vouchers dated after the as-on date', async () => {
+      await createTestData();
+
+      const result = await getTrialBalance({ as_on_date: new Date('2024-01-16') });
+
+      // Only the 5000 cash sale of 15 Jan counts; the 20 Jan deposit does not
+      const cashResult = result.find(r => r.ledger_name === 'Cash');
+      expect(cashResult!.total_debit).toEqual(5000);
+      expect(cashResult!.total_credit).toEqual(0);
+      expect(cashResult!.closing_balance).toEqual(15000);
+    });
+
+    it('should leave out superseded vouchers and their reversals', async () => {
+      const testData = await createTestData();
+      const { cashLedger, salesLedger } = testData.ledgers;
+
+      const [superseded] = await db.insert(transactionEntriesTable)
+        .values({
+          entry_number: 'TXN003',
+          entry_date: new Date('2024-01-22'),
+          description: 'Wrong amount',
+          total_amount: '999',
+          status: 'superseded'
+        })
+        .returning()
+        .execute();
+
+      const [reversal] = await db.insert(transactionEntriesTable)
+        .values({
+          entry_number: 'TXN004',
+          entry_date: new Date('2024-01-22'),
+          description: 'Reversal of TXN003',
+          total_amount: '999',
+          is_correction: true,
+          original_entry_id: superseded.id,
+          status: 'reversal'
+        })
+        .returning()
+        .execute();
+
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: superseded.id, ledger_id: cashLedger.id, debit_amount: '999', credit_amount: '0' },
+          { entry_id: superseded.id, ledger_id: salesLedger.id, debit_amount: '0', credit_amount: '999' },
+          { entry_id: reversal.id, ledger_id: cashLedger.id, debit_amount: '0', credit_amount: '999' },
+          { entry_id: reversal.id, ledger_id: salesLedger.id, debit_amount: '999', credit_amount: '0' }
+        ])
+        .execute();
+
+      const trialBalance = await getTrialBalance({ as_on_date: new Date('2024-01-31') });
+      const cashResult = trialBalance.find(r => r.ledger_name === 'Cash');
+      expect(cashResult!.total_debit).toEqual(5000);
+      expect(cashResult!.total_credit).toEqual(3000);
+
+      const daybook = await getDaybookReport({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        day_summary: false
+      });
+      expect(daybook.totals.voucher_count).toEqual(2);
+      expect(daybook.totals.total_debit).toEqual(8000);
+
+      const ledgerReport = await getLedgerReport({
+        ledger_id: cashLedger.id,
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        period: 'daily',
+        ledger_summary: false
+      });
+      expect(ledgerReport.ledgers[0].total_debit).toEqual(5000);
+      expect(ledgerReport.ledgers[0].total_credit).toEqual(3000);
+    });
+  });
+
+  describe('getGroupedTrialBalance', () => {
+    const findGroup = (lines: TrialBalanceGroupLine[], name: string) => lines.find(line => line.group_name === name)!;
+
+    it('should subtotal ledgers by group and total both sides', async () => {
+      await createTestData();
+
+      const result = await getGroupedTrialBalance({ end_date: new Date('2024-01-31'), hide_zero_balances: false });
+
+      expect(result.groups.map(line => line.group_name)).toEqual(['Assets', 'Income', 'Liabilities']);
+      const assets = findGroup(result.groups, 'Assets');
+      expect(assets.ledgers.map(line => line.ledger_name)).toEqual(['Bank', 'Cash']);
+      expect(assets).toMatchObject({
+        opening_balance: 35000,
+        balance_type: 'debit',
+        total_debit: 8000,
+        total_credit: 3000,
+        closing_balance: 40000,
+        closing_balance_type: 'debit'
+      });
+
+      expect(result.totals).toEqual({
+        opening_debit: 35000,
+        opening_credit: 50000,
+        total_debit: 8000,
+        total_credit: 8000,
+        closing_debit: 40000,
+        closing_credit: 55000
+      });
+      // The ledger opening balances do not balance
+      expect(result.opening_difference).toEqual(-15000);
+      expect(result.closing_difference).toEqual(-15000);
+    });
+
+    it('should roll sub-group balances into their parent', async () => {
+      const { groups, ledgers } = await createTestData();
+      const [bankAccounts] = await db.insert(groupsTable)
+        .values({ name: 'Bank Accounts', parent_group_id: groups.assetsGroup.id })
+        .returning()
+        .execute();
+      await db.update(ledgersTable)
+        .set({ group_id: bankAccounts.id })
+        .where(eq(ledgersTable.id, ledgers.bankLedger.id))
+        .execute();
+
+      const result = await getGroupedTrialBalance({ end_date: new Date('2024-01-31'), hide_zero_balances: false });
+
+      const assets = findGroup(result.groups, 'Assets');
+      expect(assets.ledgers.map(line => line.ledger_name)).toEqual(['Cash']);
+      expect(assets.children.map(line => line.group_name)).toEqual(['Bank Accounts']);
+      expect(assets.children[0].closing_balance).toEqual(28000);
+      expect(assets.closing_balance).toEqual(40000);
+    });
+
+    it('should bring forward balances to the start of the period', async () => {
+      await createTestData();
+
+      const result = await getGroupedTrialBalance({
+        start_date: new Date('2024-01-16'),
+        end_date: new Date('2024-01-31'),
+        hide_zero_balances: false
+      });
+
+      expect(result.start_date).toEqual(new Date('2024-01-16'));
+      const cash = findGroup(result.groups, 'Assets').ledgers.find(line => line.ledger_name === 'Cash')!;
+      expect(cash).toMatchObject({ opening_balance: 15000, total_debit: 0, total_credit: 3000, closing_balance: 12000 });
+      const sales = findGroup(result.groups, 'Income').ledgers[0];
+      expect(sales).toMatchObject({ opening_balance: 5000, balance_type: 'credit', total_debit: 0, total_credit: 0 });
+    });
+
+    it('should hide ledgers and groups without balances', async () => {
+      const { groups } = await createTestData();
+      await db.insert(groupsTable).values({ name: 'Expenses', nature: 'expense' }).execute();
+      await db.insert(ledgersTable)
+        .values({ name: 'Commission', group_id: groups.incomeGroup.id, opening_balance: '0', balance_type: 'credit' })
+        .execute();
+
+      const all = await getGroupedTrialBalance({ end_date: new Date('2024-01-31'), hide_zero_balances: false });
+      expect(all.groups.map(line => line.group_name)).toContain('Expenses');
+      expect(findGroup(all.groups, 'Income').ledgers).toHaveLength(2);
+
+      const result = await getGroupedTrialBalance({ end_date: new Date('2024-01-31'), hide_zero_balances: true });
+      expect(result.groups.map(line => line.group_name)).toEqual(['Assets', 'Income', 'Liabilities']);
+      expect(findGroup(result.groups, 'Income').ledgers.map(line => line.ledger_name)).toEqual(['Sales']);
+      expect(result.totals).toEqual(all.totals);
+    });
+
+    it('should refuse periods that span financial years', async () => {
+      await db.insert(financialYearsTable)
+        .values([
+          { name: 'FY 2023', start_date: new Date('2023-01-01'), end_date: new Date('2023-12-31') },
+          { name: 'FY 2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31') }
+        ])
+        .execute();
+
+      await expect(getGroupedTrialBalance({
+        start_date: new Date('2023-12-01'),
+        end_date: new Date('2024-01-31'),
+        hide_zero_balances: false
+      })).rejects.toThrow(/spans financial years FY 2023 and FY 2024/i);
+      await expect(getGroupedTrialBalance({
+        start_date: new Date('2024-02-01'),
+        end_date: new Date('2024-01-31'),
+        hide_zero_balances: false
+      })).rejects.toThrow(/start date must not be after end date/i);
+    });
   });
 
   describe('getProfitAndLoss', () => {
@@ -321,6 +892,63 @@ describe('Reports', () => {
       expect(result.total_income).toBeGreaterThan(0);
       expect(result.net_profit).toEqual(result.total_income - result.total_expenses);
     });
+
+    it('should leave balance sheet ledgers out whatever their movement', async () => {
+      await createTestData();
+
+      const result = await getProfitAndLoss({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31')
+      });
+
+      // Cash and Bank both moved in January but are assets
+      expect(result.income.map((i: any) => i.ledger_name)).toEqual(['Sales']);
+      expect(result.expenses).toHaveLength(0);
+      expect(result.total_income).toEqual(5000);
+      expect(result.net_profit).toEqual(5000);
+    });
+
+    it('should net returns against the income ledger', async () => {
+      const { groups, ledgers } = await createTestData();
+      const [expenseGroup] = await db.insert(groupsTable)
+        .values({ name: 'Expenses', nature: 'expense' })
+        .returning()
+        .execute();
+      const [directExpenses] = await db.insert(groupsTable)
+        .values({ name: 'Direct Expenses', parent_group_id: expenseGroup.id })
+        .returning()
+        .execute();
+      const [wagesLedger] = await db.insert(ledgersTable)
+        .values({ name: 'Wages', group_id: directExpenses.id, opening_balance: '0', balance_type: 'debit' })
+        .returning()
+        .execute();
+
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'TXN003', voucher_type: 'journal', entry_date: new Date('2024-01-25'), description: 'Sales return and wages', total_amount: '1500' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: ledgers.salesLedger.id, debit_amount: '1000', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: wagesLedger.id, debit_amount: '500', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: ledgers.cashLedger.id, debit_amount: '0', credit_amount: '1500' }
+        ])
+        .execute();
+
+      const result = await getProfitAndLoss({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31')
+      });
+
+      expect(result.income).toEqual([
+        { ledger_id: ledgers.salesLedger.id, ledger_name: 'Sales', group_name: groups.incomeGroup.name, amount: 4000 }
+      ]);
+      // Wages inherits the expense nature of its parent group
+      expect(result.expenses).toEqual([
+        { ledger_id: wagesLedger.id, ledger_name: 'Wages', group_name: 'Direct Expenses', amount: 500 }
+      ]);
+      expect(result.net_profit).toEqual(3500);
+    });
   });
 
   describe('getBalanceSheet', () => {
@@ -362,5 +990,292 @@ describe('Reports', () => {
       expect(result.total_assets).toBeGreaterThan(0);
       expect(result.total_liabilities).toBeGreaterThan(0);
     });
+
+    it('should balance with retained profit and the opening balance difference', async () => {
+      await createTestData();
+
+      const result = await getBalanceSheet({ as_on_date: new Date('2024-01-31') });
+
+      // Sales is not a liability even though it has a credit balance
+      expect(result.liabilities.map((l: any) => l.ledger_name)).toEqual(['Capital']);
+      expect(result.total_assets).toEqual(40000);
+      expect(result.total_liabilities).toEqual(50000);
+      expect(result.retained_profit).toEqual(5000);
+      // Opening balances of 35000 Dr and 50000 Cr leave 15000 on the debit side
+      expect(result.opening_balance_difference).toEqual(-15000);
+      expect(result.total_equity).toEqual(-10000);
+      expect(result.difference).toEqual(0);
+    });
+
+    it('should place ledgers by nature and list unclassified ledgers apart', async () => {
+      const { ledgers } = await createTestData();
+      const [equityGroup] = await db.insert(groupsTable)
+        .values({ name: 'Equity', nature: 'equity' })
+        .returning()
+        .execute();
+      const [suspenseGroup] = await db.insert(groupsTable)
+        .values({ name: 'Suspense' })
+        .returning()
+        .execute();
+      await db.update(ledgersTable)
+        .set({ group_id: equityGroup.id })
+        .where(eq(ledgersTable.id, ledgers.capitalLedger.id))
+        .execute();
+      await db.insert(ledgersTable)
+        .values({ name: 'Suspense', group_id: suspenseGroup.id, opening_balance: '15000', balance_type: 'debit' })
+        .execute();
+
+      // An overdrawn bank account stays an asset, with a negative amount
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'TXN003', voucher_type: 'payment', entry_date: new Date('2024-01-25'), description: 'Drawings', total_amount: '30000' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: ledgers.capitalLedger.id, debit_amount: '30000', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: ledgers.bankLedger.id, debit_amount: '0', credit_amount: '30000' }
+        ])
+        .execute();
+
+      const result = await getBalanceSheet({ as_on_date: new Date('2024-01-31') });
+
+      expect(result.assets.find((a: any) => a.ledger_name === 'Bank')!.amount).toEqual(-2000);
+      expect(result.liabilities).toHaveLength(0);
+      expect(result.equity.map((e: any) => [e.ledger_name, e.amount])).toEqual([['Capital', 20000]]);
+      expect(result.unclassified.map((u: any) => [u.ledger_name, u.amount, u.balance_type])).toEqual([['Suspense', 15000, 'debit']]);
+      expect(result.opening_balance_difference).toEqual(0);
+      // The unclassified balance is the only thing keeping the sheet from balancing
+      expect(result.difference).toEqual(-15000);
+    });
+  });
+
+  describe('comparative statements', () => {
+    const january = { start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') };
+    const february = { start_date: new Date('2024-02-01'), end_date: new Date('2024-02-29') };
+
+    const createFebruarySale = async () => {
+      const testData = await createTestData();
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'TXN003', voucher_type: 'sales', entry_date: new Date('2024-02-10'), description: 'Cash sale', total_amount: '2000' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: testData.ledgers.cashLedger.id, debit_amount: '2000', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: testData.ledgers.salesLedger.id, debit_amount: '0', credit_amount: '2000' }
+        ])
+        .execute();
+      return testData;
+    };
+
+    it('should compare profit and loss across columns', async () => {
+      await createFebruarySale();
+
+      const result = await getComparativeProfitAndLoss({
+        columns: [{ label: 'December', start_date: new Date('2023-12-01'), end_date: new Date('2023-12-31') }, january, february]
+      });
+
+      expect(result.columns.map(column => column.label)).toEqual(['December', 'Jan 2024', 'Feb 2024']);
+      expect(result.income).toEqual([{
+        ledger_id: expect.any(Number),
+        ledger_name: 'Sales',
+        group_name: 'Income',
+        amounts: [0, 5000, 2000],
+        variances: [null, { amount: 5000, percent: null }, { amount: -3000, percent: -60 }]
+      }]);
+      expect(result.net_profit.amounts).toEqual([0, 5000, 2000]);
+    });
+
+    it('should compare balance sheets as on each column end', async () => {
+      await createFebruarySale();
+
+      const result = await getComparativeBalanceSheet({ columns: [january, february] });
+
+      const cash = result.assets.find(line => line.ledger_name === 'Cash')!;
+      expect(cash.amounts).toEqual([12000, 14000]);
+      expect(cash.variances[1]).toEqual({ amount: 2000, percent: 16.66 });
+      expect(result.difference.amounts).toEqual([0, 0]);
+    });
+
+    it('should compare trial balance closing balances', async () => {
+      await createFebruarySale();
+
+      const result = await getComparativeTrialBalance({ columns: [january, february] });
+
+      expect(result.ledgers.find(line => line.ledger_name === 'Sales')!.amounts).toEqual([-5000, -7000]);
+      expect(result.closing_debit.amounts).toEqual([40000, 42000]);
+      expect(result.closing_credit.amounts).toEqual([55000, 57000]);
+    });
+  });
+
+  describe('getCashFlowStatement', () => {
+    const createCashFlowData = async () => {
+      const [assets, fixedAssets, longTerm, equity, income, expenses] = await db.insert(groupsTable)
+        .values([
+          { name: 'Current Assets', nature: 'asset' },
+          { name: 'Fixed Assets', nature: 'asset', cash_flow_activity: 'investing' },
+          { name: 'Long-term Liabilities', nature: 'liability', cash_flow_activity: 'financing' },
+          { name: 'Capital Account', nature: 'equity' },
+          { name: 'Sales Accounts', nature: 'income' },
+          { name: 'Expenses', nature: 'expense' }
+        ])
+        .returning()
+        .execute();
+      const [loans] = await db.insert(groupsTable)
+        .values({ name: 'Bank Loans', parent_group_id: longTerm.id })
+        .returning()
+        .execute();
+
+      const [cash, bank, debtors, equipment, loan, capital, sales, rent, depreciation] = await db.insert(ledgersTable)
+        .values([
+          { name: 'Cash', group_id: assets.id, opening_balance: '1000', balance_type: 'debit', ledger_type: 'cash' },
+          { name: 'Bank', group_id: assets.id, opening_balance: '0', balance_type: 'debit', ledger_type: 'bank' },
+          { name: 'Debtors', group_id: assets.id, opening_balance: '0', balance_type: 'debit' },
+          { name: 'Equipment', group_id: fixedAssets.id, opening_balance: '0', balance_type: 'debit' },
+          { name: 'Term Loan', group_id: loans.id, opening_balance: '0', balance_type: 'credit' },
+          { name: 'Capital', group_id: equity.id, opening_balance: '1000', balance_type: 'credit' },
+          { name: 'Sales', group_id: income.id, opening_balance: '0', balance_type: 'credit' },
+          { name: 'Rent', group_id: expenses.id, opening_balance: '0', balance_type: 'debit' },
+          { name: 'Depreciation', group_id: expenses.id, opening_balance: '0', balance_type: 'debit' }
+        ])
+        .returning()
+        .execute();
+
+      const post = async (entryNumber: string, entryDate: string, lines: [number, string, string][]) => {
+        const [entry] = await db.insert(transactionEntriesTable)
+          .values({ entry_number: entryNumber, voucher_type: 'journal', entry_date: new Date(entryDate), description: entryNumber, total_amount: '0' })
+          .returning()
+          .execute();
+        await db.insert(transactionDetailsTable)
+          .values(lines.map(([ledger_id, debit_amount, credit_amount]) => ({ entry_id: entry.id, ledger_id, debit_amount, credit_amount })))
+          .execute();
+      };
+
+      await post('CF1', '2024-01-02', [[cash.id, '500', '0'], [capital.id, '0', '500']]);
+      await post('CF2', '2024-01-05', [[bank.id, '5000', '0'], [loan.id, '0', '5000']]);
+      await post('CF3', '2024-01-10', [[equipment.id, '3000', '0'], [bank.id, '0', '3000']]);
+      // Part cash sale; only the cash part is a receipt
+      await post('CF4', '2024-01-12', [[cash.id, '800', '0'], [debtors.id, '400', '0'], [sales.id, '0', '1200']]);
+      await post('CF5', '2024-01-15', [[rent.id, '200', '0'], [cash.id, '0', '200']]);
+      await post('CF6', '2024-01-20', [[depreciation.id, '300', '0'], [equipment.id, '0', '300']]);
+      // Moving cash to the bank is not a cash flow
+      await post('CF7', '2024-01-25', [[bank.id, '1000', '0'], [cash.id, '0', '1000']]);
+
+      return { groups: { assets, fixedAssets, loans, equity, income, expenses } };
+    };
+
+    it('should classify cash movements by activity of the contra group', async () => {
+      await createCashFlowData();
+
+      const result = await getCashFlowStatement({ start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') });
+
+      expect(result.opening_cash).toEqual(1000);
+      expect(result.net_change).toEqual(3100);
+      expect(result.closing_cash).toEqual(4100);
+
+      const [operating, investing, financing] = result.direct;
+      expect(operating.lines.map(line => [line.group_name, line.receipts, line.payments])).toEqual([
+        ['Expenses', 0, 200],
+        ['Sales Accounts', 800, 0]
+      ]);
+      expect(operating.total).toEqual(600);
+      expect(investing.lines.map(line => [line.group_name, line.net])).toEqual([['Fixed Assets', -3000]]);
+      expect(investing.total).toEqual(-3000);
+      // Bank Loans takes financing from its parent, capital is financing by default
+      expect(financing.lines.map(line => [line.group_name, line.net])).toEqual([['Bank Loans', 5000], ['Capital Account', 500]]);
+      expect(financing.total).toEqual(5500);
+    });
+
+    it('should reconcile net profit to operating cash flow', async () => {
+      await createCashFlowData();
+
+      const { indirect, net_change } = await getCashFlowStatement({ start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') });
+
+      expect(indirect.net_profit).toEqual(700);
+      expect(indirect.adjustments.map(adjustment => [adjustment.group_name, adjustment.kind, adjustment.amount])).toEqual([
+        ['Current Assets', 'working_capital', -400],
+        // Depreciation is added back
+        ['Fixed Assets', 'non_cash', 300]
+      ]);
+      expect(indirect.operating_total).toEqual(600);
+      expect(indirect.investing_total).toEqual(-3000);
+      expect(indirect.financing_total).toEqual(5500);
+      expect(indirect.operating_total + indirect.investing_total + indirect.financing_total).toEqual(net_change);
+    });
+
+    it('should share a receipt over several credited ledgers', async () => {
+      const { groups } = await createCashFlowData();
+      const [cash] = await db.select().from(ledgersTable).where(eq(ledgersTable.name, 'Cash')).execute();
+      const [other] = await db.insert(ledgersTable)
+        .values({ name: 'Other Income', group_id: groups.income.id, opening_balance: '0', balance_type: 'credit' })
+        .returning()
+        .execute();
+      const [loan] = await db.select().from(ledgersTable).where(eq(ledgersTable.name, 'Term Loan')).execute();
+
+      const [entry] = await db.insert(transactionEntriesTable)
+        .values({ entry_number: 'CF8', voucher_type: 'receipt', entry_date: new Date('2024-02-01'), description: 'Mixed receipt', total_amount: '100' })
+        .returning()
+        .execute();
+      await db.insert(transactionDetailsTable)
+        .values([
+          { entry_id: entry.id, ledger_id: cash.id, debit_amount: '100', credit_amount: '0' },
+          { entry_id: entry.id, ledger_id: other.id, debit_amount: '0', credit_amount: '75' },
+          { entry_id: entry.id, ledger_id: loan.id, debit_amount: '0', credit_amount: '25' }
+        ])
+        .execute();
+
+      const result = await getCashFlowStatement({ start_date: new Date('2024-02-01'), end_date: new Date('2024-02-29') });
+
+      expect(result.opening_cash).toEqual(4100);
+      expect(result.direct[0].total).toEqual(75);
+      expect(result.direct[2].total).toEqual(25);
+      expect(result.indirect.operating_total).toEqual(75);
+    });
+
+    it('should carry cash across financial years', async () => {
+      await createCashFlowData();
+      await db.insert(financialYearsTable)
+        .values([
+          { name: 'FY 2023', start_date: new Date('2023-01-01'), end_date: new Date('2023-12-31') },
+          { name: 'FY 2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31') }
+        ])
+        .execute();
+
+      const spanning = await getCashFlowStatement({ start_date: new Date('2023-06-01'), end_date: new Date('2024-01-31') });
+      const january = await getCashFlowStatement({ start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') });
+
+      expect(spanning.opening_cash).toEqual(1000);
+      expect(spanning.closing_cash).toEqual(4100);
+      expect(spanning.direct).toEqual(january.direct);
+    });
+  });
+
+  describe('output schemas', () => {
+    it('should match what every report returns', async () => {
+      await createTestData();
+      const start_date = new Date('2024-01-01');
+      const end_date = new Date('2024-01-31');
+
+      const daybook = await getDaybookReport({ start_date, end_date, period: 'daily', day_summary: false });
+      expect(daybookReportSchema.parse(daybook)).toEqual(daybook);
+
+      const ledgerReport = await getLedgerReport({ start_date, end_date, period: 'weekly', ledger_summary: false });
+      expect(ledgerReportSchema.parse(ledgerReport)).toEqual(ledgerReport);
+
+      const trialBalance = await getTrialBalance({ as_on_date: end_date });
+      expect(trialBalanceSchema.parse(trialBalance)).toEqual(trialBalance);
+
+      const groupedTrialBalance = await getGroupedTrialBalance({ end_date, hide_zero_balances: false });
+      expect(groupedTrialBalanceSchema.parse(groupedTrialBalance)).toEqual(groupedTrialBalance);
+
+      const profitAndLoss = await getProfitAndLoss({ start_date, end_date });
+      expect(profitAndLossSchema.parse(profitAndLoss)).toEqual(profitAndLoss);
+
+      const balanceSheet = await getBalanceSheet({ as_on_date: end_date });
+      expect(balanceSheetSchema.parse(balanceSheet)).toEqual(balanceSheet);
+
+      const cashFlow = await getCashFlowStatement({ start_date, end_date });
+      expect(cashFlowStatementSchema.parse(cashFlow)).toEqual(cashFlow);
+    });
   });
 });
@@ -0,0 +1,331 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, contactsTable, ledgersTable, financialYearsTable, transactionDetailsTable } from '../db/schema';
+import {
+  getTaxSettings,
+  updateTaxSettings,
+  createTaxRate,
+  getTaxRates,
+  updateTaxRate,
+  deleteTaxRate,
+  getTaxSummary,
+  exportTaxReturn
+} from '../handlers/taxes';
+import { createTransaction, correctTransaction } from '../handlers/transactions';
+import { createInvoice } from '../handlers/invoices';
+import { eq } from 'drizzle-orm';
+import { type CreateTransactionInput, type ExportFile } from '../schema';
+
+const decodeJson = (file: ExportFile) => JSON.parse(Buffer.from(file.content, 'base64').toString('utf8'));
+
+describe('tax handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+  });
+
+  const createTestData = async () => {
+    const [assets] = await db.insert(groupsTable).values({ name: 'Assets', nature: 'asset' }).returning().execute();
+    const [liabilities] = await db.insert(groupsTable).values({ name: 'Liabilities', nature: 'liability' }).returning().execute();
+    const [income] = await db.insert(groupsTable).values({ name: 'Income', nature: 'income' }).returning().execute();
+    const [expenses] = await db.insert(groupsTable).values({ name: 'Expenses', nature: 'expense' }).returning().execute();
+
+    // The business is registered in Tamil Nadu (33)
+    await updateTaxSettings({ tax_id: '33AAACH7409R1Z8' });
+
+    const [chennai] = await db.insert(contactsTable)
+      .values({ name: 'Chennai Stores', contact_type: 'customer', state_code: '33' })
+      .returning()
+      .execute();
+    const [pune] = await db.insert(contactsTable)
+      .values({ name: 'Pune Traders', contact_type: 'customer', tax_id: '27AAPFU0939F1ZV', state_code: '27' })
+      .returning()
+      .execute();
+    const [bengaluru] = await db.insert(contactsTable)
+      .values({ name: 'Bengaluru Supplies', contact_type: 'supplier', tax_id: '29AAGCB7383J1Z4', state_code: '29' })
+      .returning()
+      .execute();
+
+    const ledger = async (values: typeof ledgersTable.$inferInsert) => {
+      const [row] = await db.insert(ledgersTable).values(values).returning().execute();
+      return row;
+    };
+
+    const ledgers = {
+      chennai: await ledger({ name: 'Chennai Stores', group_id: assets.id, contact_id: chennai.id }),
+      pune: await ledger({ name: 'Pune Traders', group_id: assets.id, contact_id: pune.id }),
+      bengaluru: await ledger({ name: 'Bengaluru Supplies', group_id: liabilities.id, contact_id: bengaluru.id, balance_type: 'credit' }),
+      sales: await ledger({ name: 'Sales', group_id: income.id, balance_type: 'credit' }),
+      salesReturns: await ledger({ name: 'Sales Returns', group_id: expenses.id }),
+      purchases: await ledger({ name: 'Purchases', group_id: expenses.id }),
+      cgstOut: await ledger({ name: 'Output CGST', group_id: liabilities.id, balance_type: 'credit' }),
+      sgstOut: await ledger({ name: 'Output SGST', group_id: liabilities.id, balance_type: 'credit' }),
+      igstOut: await ledger({ name: 'Output IGST', group_id: liabilities.id, balance_type: 'credit' }),
+      cgstIn: await ledger({ name: 'Input CGST', group_id: assets.id }),
+      sgstIn: await ledger({ name: 'Input SGST', group_id: assets.id }),
+      igstIn: await ledger({ name: 'Input IGST', group_id: assets.id })
+    };
+
+    const gst18 = await createTaxRate({
+      name: 'GST 18%',
+      rate: 18,
+      components: [
+        { head: 'cgst', rate: 9, output_ledger_id: ledgers.cgstOut.id, input_ledger_id: ledgers.cgstIn.id },
+        { head: 'sgst', rate: 9, output_ledger_id: ledgers.sgstOut.id, input_ledger_id: ledgers.sgstIn.id },
+        { head: 'igst', rate: 18, output_ledger_id: ledgers.igstOut.id, input_ledger_id: ledgers.igstIn.id }
+      ]
+    });
+
+    return { contacts: { chennai, pune, bengaluru }, ...ledgers, gst18 };
+  };
+
+  type TestData = Awaited<ReturnType<typeof createTestData>>;
+
+  // Ledger id to signed amount, debits positive, of a voucher's lines
+  const postingsOf = async (entryId: number) => {
+    const details = await db.select()
+      .from(transactionDetailsTable)
+      .where(eq(transactionDetailsTable.entry_id, entryId))
+      .execute();
+    return Object.fromEntries(details.map(detail => [detail.ledger_id, Number(detail.debit_amount) - Number(detail.credit_amount)]));
+  };
+
+  const sale = (data: TestData, customerLedgerId: number, date: string, taxable: number): CreateTransactionInput => ({
+    voucher_type: 'sales',
+    entry_date: new Date(date),
+    description: 'Goods sold',
+    details: [
+      { ledger_id: customerLedgerId, debit_amount: taxable * 118 / 100, credit_amount: 0 },
+      { ledger_id: data.sales.id, debit_amount: 0, credit_amount: taxable, tax_rate_id: data.gst18.id }
+    ]
+  });
+
+  // A month of supplies: a local sale, a sale to Pune and a purchase from
+  // Bengaluru, both in other states, and goods returned from Pune
+  const postMonth = async (data: TestData) => ({
+    local: await createTransaction(sale(data, data.chennai.id, '2024-03-05', 1000)),
+    outstation: await createTransaction(sale(data, data.pune.id, '2024-03-15', 2000)),
+    purchase: await createTransaction({
+      voucher_type: 'purchase',
+      entry_date: new Date('2024-03-18'),
+      description: 'Stock bought',
+      details: [
+        { ledger_id: data.purchases.id, debit_amount: 500, credit_amount: 0, tax_rate_id: data.gst18.id },
+        { ledger_id: data.bengaluru.id, debit_amount: 0, credit_amount: 590 }
+      ]
+    }),
+    creditNote: await createTransaction({
+      voucher_type: 'credit_note',
+      entry_date: new Date('2024-03-25'),
+      description: 'Goods returned',
+      details: [
+        { ledger_id: data.salesReturns.id, debit_amount: 100, credit_amount: 0, tax_rate_id: data.gst18.id },
+        { ledger_id: data.pune.id, debit_amount: 0, credit_amount: 118 }
+      ]
+    })
+  });
+
+  const march = { start_date: new Date('2024-03-01'), end_date: new Date('2024-03-31') };
+
+  it('should keep the business GSTIN and its state', async () => {
+    expect(await getTaxSettings()).toMatchObject({ tax_id: null, state_code: null });
+
+    expect(await updateTaxSettings({ tax_id: '33AAACH7409R1Z8' })).toMatchObject({ tax_id: '33AAACH7409R1Z8', state_code: '33' });
+    await expect(updateTaxSettings({ state_code: '29' })).rejects.toThrow('GSTIN 33AAACH7409R1Z8 is registered in state 33, not 29');
+
+    // A VAT number carries no state, so the state code is kept as given
+    expect(await updateTaxSettings({ tax_id: 'DE123456789', state_code: 'BY' })).toMatchObject({ tax_id: 'DE123456789', state_code: 'BY' });
+  });
+
+  it('should check that the components add up to the rate', async () => {
+    const data = await createTestData();
+    const igst = { head: 'igst' as const, rate: 12, output_ledger_id: data.igstOut.id, input_ledger_id: data.igstIn.id };
+
+    await expect(createTaxRate({ name: 'GST 12%', rate: 12, components: [igst] }))
+      .rejects.toThrow('Intra-state components add up to 0.00%, not 12.00%');
+    await expect(createTaxRate({ name: 'GST 18%', rate: 18, components: [] })).rejects.toThrow('A tax rate named GST 18% already exists');
+    await expect(createTaxRate({ name: 'Nil', rate: 0, components: [igst] })).rejects.toThrow('A tax rate of 0% has no components');
+    await expect(createTaxRate({ name: 'GST 24%', rate: 24, components: [igst, igst] }))
+      .rejects.toThrow('Each tax head can appear only once in a tax rate');
+    await expect(createTaxRate({ name: 'VAT 12%', rate: 12, components: [{ ...igst, head: 'vat', output_ledger_id: 999 }] }))
+      .rejects.toThrow('Ledger with id 999 does not exist');
+
+    const vat = await createTaxRate({ name: 'VAT 12%', rate: 12, components: [{ ...igst, head: 'vat' }] });
+    const nil = await createTaxRate({ name: 'Nil', rate: 0, components: [] });
+
+    expect((await getTaxRates()).map(rate => [rate.name, rate.rate, rate.components.map(component => component.head)])).toEqual([
+      [nil.name, 0, []],
+      [vat.name, 12, ['vat']],
+      ['GST 18%', 18, ['cgst', 'sgst', 'igst']]
+    ]);
+  });
+
+  it('should post CGST and SGST within the state and IGST to other states', async () => {
+    const data = await createTestData();
+    const { local, outstation, purchase } = await postMonth(data);
+
+    expect(await postingsOf(local.id)).toEqual({
+      [data.chennai.id]: 1180,
+      [data.sales.id]: -1000,
+      [data.cgstOut.id]: -90,
+      [data.sgstOut.id]: -90
+    });
+    expect(await postingsOf(outstation.id)).toEqual({
+      [data.pune.id]: 2360,
+      [data.sales.id]: -2000,
+      [data.igstOut.id]: -360
+    });
+    expect(await postingsOf(purchase.id)).toEqual({
+      [data.purchases.id]: 500,
+      [data.bengaluru.id]: -590,
+      [data.igstIn.id]: 90
+    });
+  });
+
+  it('should only charge tax on taxable vouchers', async () => {
+    const data = await createTestData();
+
+    await expect(createTransaction({ ...sale(data, data.chennai.id, '2024-03-05', 1000), voucher_type: 'journal' }))
+      .rejects.toThrow('Tax can only be charged on sales, purchase, debit note and credit note vouchers');
+    await expect(createTransaction({
+      ...sale(data, data.chennai.id, '2024-03-05', 1000),
+      details: [
+        { ledger_id: data.chennai.id, debit_amount: 1180, credit_amount: 0 },
+        { ledger_id: data.sales.id, debit_amount: 0, credit_amount: 1000, tax_rate_id: 999 }
+      ]
+    })).rejects.toThrow('Tax rate with id 999 does not exist');
+  });
+
+  it('should charge invoice lines by the place of supply of the contact', async () => {
+    const data = await createTestData();
+    const invoiceTo = (contactId: number, ledgerId: number) => createInvoice({
+      invoice_type: 'sales',
+      contact_id: contactId,
+      ledger_id: ledgerId,
+      invoice_date: new Date('2024-03-10'),
+      due_date: new Date('2024-03-10'),
+      reference: null,
+      notes: null,
+      lines: [{ description: 'Widgets', ledger_id: data.sales.id, quantity: 2, rate: 250.5, discount_percent: 0, tax_rate_id: data.gst18.id }]
+    });
+
+    const local = await invoiceTo(data.contacts.chennai.id, data.chennai.id);
+    expect(local.lines[0]).toMatchObject({ amount: 501, tax_rate: 18, tax_rate_id: data.gst18.id, tax_amount: 90.18 });
+    expect(await postingsOf(local.entry_id)).toEqual({
+      [data.chennai.id]: 591.18,
+      [data.sales.id]: -501,
+      [data.cgstOut.id]: -45.09,
+      [data.sgstOut.id]: -45.09
+    });
+
+    const outstation = await invoiceTo(data.contacts.pune.id, data.pune.id);
+    expect(await postingsOf(outstation.entry_id)).toEqual({
+      [data.pune.id]: 591.18,
+      [data.sales.id]: -501,
+      [data.igstOut.id]: -90.18
+    });
+  });
+
+  it('should sum output tax, input credit and net payable for the period', async () => {
+    const data = await createTestData();
+    const { outstation } = await postMonth(data);
+
+    // A corrected voucher counts once, as corrected
+    await correctTransaction({ id: outstation.id, correction_data: sale(data, data.pune.id, '2024-03-15', 3000) });
+
+    const summary = await getTaxSummary(march);
+
+    expect(summary.rates).toEqual([{
+      tax_rate_id: data.gst18.id,
+      name: 'GST 18%',
+      rate: 18,
+      output_taxable: 3900,
+      output_tax: 702,
+      input_taxable: 500,
+      input_tax: 90
+    }]);
+    expect(summary.heads).toEqual([
+      { head: 'cgst', output_tax: 90, input_tax: 0, net_payable: 90 },
+      { head: 'sgst', output_tax: 90, input_tax: 0, net_payable: 90 },
+      { head: 'igst', output_tax: 522, input_tax: 90, net_payable: 432 }
+    ]);
+    expect(summary).toMatchObject({ total_output_tax: 702, total_input_tax: 90, net_payable: 612 });
+
+    expect(await getTaxSummary({ start_date: new Date('2024-04-01'), end_date: new Date('2024-04-30') }))
+      .toMatchObject({ rates: [], heads: [], net_payable: 0 });
+  });
+
+  it('should export GSTR-1 and GSTR-3B style returns', async () => {
+    const data = await createTestData();
+    const { outstation, creditNote } = await postMonth(data);
+
+    const gstr1File = await exportTaxReturn({ ...march, form: 'gstr1' });
+    expect(gstr1File.filename).toEqual('gstr1-032024.json');
+    expect(gstr1File.mime_type).toEqual('application/json');
+    expect(decodeJson(gstr1File)).toEqual({
+      gstin: '33AAACH7409R1Z8',
+      fp: '032024',
+      b2b: [{
+        ctin: '27AAPFU0939F1ZV',
+        inv: [{
+          inum: outstation.entry_number,
+          idt: '15-03-2024',
+          val: 2360,
+          pos: '27',
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms: [{ num: 1, itm_det: { rt: 18, txval: 2000, camt: 0, samt: 0, iamt: 360, csamt: 0 } }]
+        }]
+      }],
+      cdnr: [{
+        ctin: '27AAPFU0939F1ZV',
+        nt: [{
+          ntty: 'C',
+          nt_num: creditNote.entry_number,
+          nt_dt: '25-03-2024',
+          val: 118,
+          pos: '27',
+          itms: [{ num: 1, itm_det: { rt: 18, txval: 100, camt: 0, samt: 0, iamt: 18, csamt: 0 } }]
+        }]
+      }],
+      b2cs: [{ sply_ty: 'INTRA', pos: '33', typ: 'OE', rt: 18, txval: 1000, camt: 90, samt: 90, iamt: 0, csamt: 0 }]
+    });
+
+    const gstr3b = decodeJson(await exportTaxReturn({ ...march, form: 'gstr3b' }));
+    expect(gstr3b).toEqual({
+      gstin: '33AAACH7409R1Z8',
+      ret_period: '032024',
+      sup_details: { osup_det: { txval: 2900, camt: 90, samt: 90, iamt: 342, csamt: 0 } },
+      itc_elg: {
+        itc_avl: [{ ty: 'OTH', camt: 0, samt: 0, iamt: 90, csamt: 0 }],
+        itc_net: { camt: 0, samt: 0, iamt: 90, csamt: 0 }
+      },
+      tax_payable: { camt: 90, samt: 90, iamt: 252, csamt: 0 }
+    });
+  });
+
+  it('should keep posted tax heads and rates in use', async () => {
+    const data = await createTestData();
+    await createTransaction(sale(data, data.chennai.id, '2024-03-05', 1000));
+    const [cgst, sgst, igst] = data.gst18.components;
+    const input = { id: data.gst18.id, name: 'GST 18%', rate: 18 };
+
+    await expect(updateTaxRate({ ...input, components: [{ ...igst, head: 'vat' }] }))
+      .rejects.toThrow('CGST of GST 18% has been posted and cannot be removed');
+
+    // Components keep their ids, so posted tax lines still point at them
+    const renamed = await updateTaxRate({ ...input, name: 'GST 18% (goods)', components: [igst, cgst, sgst] });
+    expect(renamed.components.map(component => component.id)).toEqual([cgst.id, sgst.id, igst.id]);
+
+    await expect(deleteTaxRate({ id: data.gst18.id })).rejects.toThrow('GST 18% (goods) is used by vouchers or invoices and cannot be deleted');
+
+    const unused = await createTaxRate({ name: 'Nil', rate: 0, components: [] });
+    expect(await deleteTaxRate({ id: unused.id })).toEqual({ success: true });
+    await expect(deleteTaxRate({ id: unused.id })).rejects.toThrow('Tax rate not found');
+  });
+});
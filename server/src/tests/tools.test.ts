@@ -319,5 +319,67 @@ describe('Tools', () => {
       expect(entries[0].is_correction).toBe(false);
       expect(entries[0].entry_number).toBe('REG001');
     });
+    it('should not remove any correction when cleaning fails part-way', async () => {
+      const group = await db.insert(groupsTable)
+        .values({
+          name: 'Test Group',
+          description: 'Test group'
+        })
+        .returning()
+        .execute();
+
+      const ledger = await db.insert(ledgersTable)
+        .values({
+          name: 'Test Ledger',
+          group_id: group[0].id,
+          opening_balance: '1000.00',
+          balance_type: 'debit'
+        })
+        .returning()
+        .execute();
+
+      const correctionEntry = await db.insert(transactionEntriesTable)
+        .values({
+          entry_number: 'CORR001',
+          entry_date: new Date(),
+          description: 'Correction entry',
+          total_amount: '500.00',
+          is_correction: true
+        })
+        .returning()
+        .execute();
+
+      await db.insert(transactionDetailsTable)
+        .values({
+          entry_id: correctionEntry[0].id,
+          ledger_id: ledger[0].id,
+          debit_amount: '500.00',
+          credit_amount: '0.00'
+        })
+        .execute();
+
+      // Make deleting the entry header fail after its details were deleted
+      await db.execute(sql.raw(`
+        CREATE FUNCTION force_failure() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'forced failure';
+        END;
+        $$ LANGUAGE plpgsql
+      `));
+      await db.execute(sql.raw(`
+        CREATE TRIGGER force_failure BEFORE DELETE ON transaction_entries
+        FOR EACH ROW EXECUTE FUNCTION force_failure()
+      `));
+
+      const result = await cleanCorrections();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Failed to clean correction entries');
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      const details = await db.select().from(transactionDetailsTable).execute();
+      expect(entries.length).toBe(1);
+      expect(details.length).toBe(1);
+    });
   });
 });
@@ -2,7 +2,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { transactionEntriesTable, transactionDetailsTable, groupsTable, ledgersTable } from '../db/schema';
+import { transactionEntriesTable, transactionDetailsTable, groupsTable, ledgersTable, financialYearsTable, lockedPeriodsTable } from '../db/schema';
 import { type CreateTransactionInput } from '../schema';
 import { 
   createTransaction, 
@@ -10,14 +10,22 @@ import {
   getTransaction, 
   getTransactionsByDateRange, 
   correctTransaction, 
+  getCorrectionChain,
   deleteTransaction 
 } from '../handlers/transactions';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 
 describe('Transaction Handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
+  // Vouchers must be dated in the active financial year
+  beforeEach(async () => {
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+  });
+
   // Helper function to create test ledgers
   const createTestLedgers = async () => {
     // Create a test group first
@@ -58,11 +66,28 @@ describe('Transaction Handlers', () => {
     };
   };
 
+  // Installs a trigger that aborts the statement, used to force a failure
+  // part-way through a multi-statement posting
+  const installFailingTrigger = async (table: string, timing: string, condition: string) => {
+    await db.execute(sql.raw(`
+      CREATE FUNCTION force_failure() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'forced failure';
+      END;
+      $$ LANGUAGE plpgsql
+    `));
+    await db.execute(sql.raw(`
+      CREATE TRIGGER force_failure ${timing} ON ${table}
+      FOR EACH ROW WHEN (${condition}) EXECUTE FUNCTION force_failure()
+    `));
+  };
+
   describe('createTransaction', () => {
     it('should create a transaction with valid details', async () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       const testInput: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Cash sale transaction',
         details: [
@@ -88,7 +113,7 @@ describe('Transaction Handlers', () => {
       expect(typeof result.total_amount).toBe('number');
       expect(result.is_correction).toBe(false);
       expect(result.original_entry_id).toBeNull();
-      expect(result.entry_number).toMatch(/^TXN-/);
+      expect(result.entry_number).toEqual('JV/2024/0001');
       expect(result.id).toBeDefined();
       expect(result.entry_date).toBeInstanceOf(Date);
     });
@@ -97,6 +122,7 @@ describe('Transaction Handlers', () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       const testInput: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Test transaction',
         details: [
@@ -140,6 +166,7 @@ describe('Transaction Handlers', () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       const testInput: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Unbalanced transaction',
         details: [
@@ -159,10 +186,60 @@ describe('Transaction Handlers', () => {
       await expect(createTransaction(testInput)).rejects.toThrow(/Total debits must equal total credits/);
     });
 
+    it('should reject a one paisa difference between debits and credits', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      await expect(createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Off by one paisa',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100.01, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      })).rejects.toThrow(/Total debits must equal total credits/);
+    });
+
+    it('should balance amounts that do not add up exactly as floats', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      // 0.1 + 0.2 !== 0.3 in floating point
+      const result = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Split receipt',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 0.1, credit_amount: 0 },
+          { ledger_id: cashLedger.id, debit_amount: 0.2, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 0.3 }
+        ]
+      });
+
+      expect(result.total_amount).toEqual(0.3);
+    });
+
+    it('should reject amounts with more than two decimals', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      await expect(createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Sub-paisa amounts',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 10.005, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 10.005 }
+        ]
+      })).rejects.toThrow(/Invalid amount/);
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      expect(entries).toHaveLength(0);
+    });
+
     it('should reject transaction with non-existent ledger', async () => {
       const { salesLedger } = await createTestLedgers();
       
       const testInput: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Invalid ledger transaction',
         details: [
@@ -189,6 +266,7 @@ describe('Transaction Handlers', () => {
       
       // Create two transactions
       await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'First transaction',
         details: [
@@ -198,6 +276,7 @@ describe('Transaction Handlers', () => {
       });
 
       await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-16'),
         description: 'Second transaction',
         details: [
@@ -226,6 +305,7 @@ describe('Transaction Handlers', () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       const created = await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Test transaction',
         details: [
@@ -253,6 +333,7 @@ describe('Transaction Handlers', () => {
       
       // Create transactions on different dates
       await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-10'),
         description: 'Before range',
         details: [
@@ -262,6 +343,7 @@ describe('Transaction Handlers', () => {
       });
 
       await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'In range',
         details: [
@@ -271,6 +353,7 @@ describe('Transaction Handlers', () => {
       });
 
       await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-20'),
         description: 'After range',
         details: [
@@ -291,11 +374,92 @@ describe('Transaction Handlers', () => {
   });
 
   describe('correctTransaction', () => {
+    // Posts a 100 voucher and corrects it to 150
+    const createCorrectedTransaction = async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const original = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Original transaction',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      const correction = await correctTransaction({
+        id: original.id,
+        correction_data: {
+          voucher_type: 'journal',
+          entry_date: new Date('2024-01-16'),
+          description: 'Corrected transaction',
+          details: [
+            { ledger_id: cashLedger.id, debit_amount: 150, credit_amount: 0 },
+            { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 150 }
+          ]
+        }
+      });
+
+      return { cashLedger, salesLedger, original, correction };
+    };
+
+    it('should supersede the original and post a reversal', async () => {
+      const { cashLedger, original } = await createCorrectedTransaction();
+
+      const entries = await db.select().from(transactionEntriesTable).orderBy(transactionEntriesTable.id).execute();
+      expect(entries).toHaveLength(3);
+
+      const [superseded, reversal, replacement] = entries;
+      expect(superseded.id).toEqual(original.id);
+      expect(superseded.status).toEqual('superseded');
+
+      expect(reversal.status).toEqual('reversal');
+      expect(reversal.original_entry_id).toEqual(original.id);
+      expect(reversal.entry_date).toEqual(original.entry_date);
+      expect(reversal.description).toEqual(`Reversal of ${original.entry_number}`);
+
+      expect(replacement.status).toEqual('active');
+      expect(replacement.original_entry_id).toEqual(original.id);
+
+      const reversalDetails = await db.select()
+        .from(transactionDetailsTable)
+        .where(eq(transactionDetailsTable.entry_id, reversal.id))
+        .execute();
+      const cashLine = reversalDetails.find(detail => detail.ledger_id === cashLedger.id)!;
+      expect(cashLine.debit_amount).toEqual('0.00');
+      expect(cashLine.credit_amount).toEqual('100.00');
+    });
+
+    it('should only correct the latest version', async () => {
+      const { cashLedger, salesLedger, original, correction } = await createCorrectedTransaction();
+      const [, reversal] = await db.select().from(transactionEntriesTable).orderBy(transactionEntriesTable.id).execute();
+
+      const correctionData: CreateTransactionInput = {
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-17'),
+        description: 'Second correction',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 200, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 200 }
+        ]
+      };
+
+      await expect(correctTransaction({ id: original.id, correction_data: correctionData }))
+        .rejects.toThrow(/already been corrected/);
+      await expect(correctTransaction({ id: reversal.id, correction_data: correctionData }))
+        .rejects.toThrow('Reversal entries cannot be corrected');
+
+      const second = await correctTransaction({ id: correction.id, correction_data: correctionData });
+      expect(second.original_entry_id).toEqual(correction.id);
+    });
+
     it('should create correction transaction', async () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       // Create original transaction
       const original = await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'Original transaction',
         details: [
@@ -306,6 +470,7 @@ describe('Transaction Handlers', () => {
 
       // Create correction
       const correctionData: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-16'),
         description: 'Corrected transaction',
         details: [
@@ -323,12 +488,13 @@ describe('Transaction Handlers', () => {
       expect(result.total_amount).toEqual(150);
       expect(result.is_correction).toBe(true);
       expect(result.original_entry_id).toEqual(original.id);
-      expect(result.entry_number).toMatch(/^COR-/);
+      expect(result.entry_number).toEqual('JV/2024/0003');
       expect(typeof result.total_amount).toBe('number');
     });
 
     it('should throw error for non-existent original transaction', async () => {
       const correctionData: CreateTransactionInput = {
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-16'),
         description: 'Correction',
         details: [
@@ -349,6 +515,7 @@ describe('Transaction Handlers', () => {
       const { cashLedger, salesLedger } = await createTestLedgers();
       
       const created = await createTransaction({
+        voucher_type: 'journal',
         entry_date: new Date('2024-01-15'),
         description: 'To be deleted',
         details: [
@@ -381,5 +548,446 @@ describe('Transaction Handlers', () => {
     it('should throw error for non-existent transaction', async () => {
       await expect(deleteTransaction({ id: 99999 })).rejects.toThrow(/not found/i);
     });
+
+    it('should refuse to delete superseded vouchers and reversals', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const original = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Original transaction',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      await correctTransaction({
+        id: original.id,
+        correction_data: {
+          voucher_type: 'journal',
+          entry_date: new Date('2024-01-15'),
+          description: 'Corrected transaction',
+          details: [
+            { ledger_id: cashLedger.id, debit_amount: 150, credit_amount: 0 },
+            { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 150 }
+          ]
+        }
+      });
+
+      const [, reversal] = await db.select().from(transactionEntriesTable).orderBy(transactionEntriesTable.id).execute();
+
+      await expect(deleteTransaction({ id: original.id })).rejects.toThrow(/cannot be deleted/);
+      await expect(deleteTransaction({ id: reversal.id })).rejects.toThrow(/cannot be deleted/);
+    });
+  });
+
+  describe('getCorrectionChain', () => {
+    it('should return every version of a voucher from any of its entries', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const original = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Version 1',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      const version = (description: string, amount: number): CreateTransactionInput => ({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description,
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: amount, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: amount }
+        ]
+      });
+
+      const second = await correctTransaction({ id: original.id, correction_data: version('Version 2', 200) });
+      const third = await correctTransaction({ id: second.id, correction_data: version('Version 3', 300) });
+
+      const fromOriginal = await getCorrectionChain({ id: original.id });
+      const fromLatest = await getCorrectionChain({ id: third.id });
+
+      expect(fromOriginal.map(entry => entry.id)).toEqual(fromLatest.map(entry => entry.id));
+      expect(fromOriginal.map(entry => entry.status)).toEqual(['superseded', 'reversal', 'superseded', 'reversal', 'active']);
+      expect(fromOriginal[4].description).toEqual('Version 3');
+      expect(fromOriginal[4].details).toHaveLength(2);
+      expect(fromOriginal[4].details[0].debit_amount).toEqual(300);
+    });
+
+    it('should return a single entry for an uncorrected voucher', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const entry = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Never corrected',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      const chain = await getCorrectionChain({ id: entry.id });
+
+      expect(chain).toHaveLength(1);
+      expect(chain[0].id).toEqual(entry.id);
+    });
+
+    it('should throw error for non-existent transaction', async () => {
+      await expect(getCorrectionChain({ id: 99999 })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('atomic posting', () => {
+    it('should leave no rows behind when a detail insert fails', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      await installFailingTrigger('transaction_details', 'BEFORE INSERT', `NEW.description = 'fail here'`);
+
+      await expect(createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Half posted voucher',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100, description: 'fail here' }
+        ]
+      })).rejects.toThrow(/forced failure/);
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      const details = await db.select().from(transactionDetailsTable).execute();
+      expect(entries).toHaveLength(0);
+      expect(details).toHaveLength(0);
+    });
+
+    it('should leave no correction rows behind when a detail insert fails', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const original = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Original transaction',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      await installFailingTrigger('transaction_details', 'BEFORE INSERT', `NEW.description = 'fail here'`);
+
+      await expect(correctTransaction({
+        id: original.id,
+        correction_data: {
+          voucher_type: 'journal',
+          entry_date: new Date('2024-01-16'),
+          description: 'Corrected transaction',
+          details: [
+            { ledger_id: cashLedger.id, debit_amount: 150, credit_amount: 0 },
+            { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 150, description: 'fail here' }
+          ]
+        }
+      })).rejects.toThrow(/forced failure/);
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      const details = await db.select().from(transactionDetailsTable).execute();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].id).toEqual(original.id);
+      expect(details).toHaveLength(2);
+      expect(details.every(d => d.entry_id === original.id)).toBe(true);
+    });
+
+    it('should keep details when deleting the entry header fails', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      const created = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Undeletable',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: salesLedger.id, debit_amount: 0, credit_amount: 100 }
+        ]
+      });
+
+      await installFailingTrigger('transaction_entries', 'BEFORE DELETE', 'true');
+
+      await expect(deleteTransaction({ id: created.id })).rejects.toThrow(/forced failure/);
+
+      const details = await db.select()
+        .from(transactionDetailsTable)
+        .where(eq(transactionDetailsTable.entry_id, created.id))
+        .execute();
+      expect(details).toHaveLength(2);
+    });
+
+    it('should report the first missing ledger without inserting anything', async () => {
+      const { cashLedger } = await createTestLedgers();
+
+      await expect(createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-01-15'),
+        description: 'Missing ledgers',
+        details: [
+          { ledger_id: cashLedger.id, debit_amount: 100, credit_amount: 0 },
+          { ledger_id: 99998, debit_amount: 0, credit_amount: 50 },
+          { ledger_id: 99999, debit_amount: 0, credit_amount: 50 }
+        ]
+      })).rejects.toThrow('Ledger with id 99998 does not exist');
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      expect(entries).toHaveLength(0);
+    });
+  });
+
+  describe('voucher types', () => {
+    // Creates one ledger of each kind used by the voucher type rules
+    const createTypedLedgers = async () => {
+      const [group] = await db.insert(groupsTable)
+        .values({ name: 'Test Group' })
+        .returning()
+        .execute();
+
+      const [cash] = await db.insert(ledgersTable)
+        .values({ name: 'Cash', group_id: group.id, ledger_type: 'cash' })
+        .returning()
+        .execute();
+
+      const [bank] = await db.insert(ledgersTable)
+        .values({ name: 'Bank', group_id: group.id, ledger_type: 'bank' })
+        .returning()
+        .execute();
+
+      const [rent] = await db.insert(ledgersTable)
+        .values({ name: 'Rent', group_id: group.id })
+        .returning()
+        .execute();
+
+      const [customer] = await db.insert(ledgersTable)
+        .values({ name: 'Customer', group_id: group.id })
+        .returning()
+        .execute();
+
+      return { cash, bank, rent, customer };
+    };
+
+    const voucher = (
+      voucherType: CreateTransactionInput['voucher_type'],
+      debitLedgerId: number,
+      creditLedgerId: number
+    ): CreateTransactionInput => ({
+      voucher_type: voucherType,
+      entry_date: new Date('2024-01-15'),
+      description: `${voucherType} voucher`,
+      details: [
+        { ledger_id: debitLedgerId, debit_amount: 500, credit_amount: 0 },
+        { ledger_id: creditLedgerId, debit_amount: 0, credit_amount: 500 }
+      ]
+    });
+
+    it('should store the voucher type', async () => {
+      const { cash, rent } = await createTypedLedgers();
+
+      const result = await createTransaction(voucher('payment', rent.id, cash.id));
+
+      expect(result.voucher_type).toEqual('payment');
+    });
+
+    it('should require payments to credit a cash or bank ledger', async () => {
+      const { cash, bank, rent, customer } = await createTypedLedgers();
+
+      await expect(createTransaction(voucher('payment', rent.id, customer.id)))
+        .rejects.toThrow('Payment voucher must credit a cash or bank ledger');
+      await expect(createTransaction(voucher('payment', cash.id, rent.id)))
+        .rejects.toThrow('Payment voucher must credit a cash or bank ledger');
+
+      const result = await createTransaction(voucher('payment', rent.id, bank.id));
+      expect(result.voucher_type).toEqual('payment');
+    });
+
+    it('should require receipts to debit a cash or bank ledger', async () => {
+      const { cash, customer } = await createTypedLedgers();
+
+      await expect(createTransaction(voucher('receipt', customer.id, cash.id)))
+        .rejects.toThrow('Receipt voucher must debit a cash or bank ledger');
+
+      const result = await createTransaction(voucher('receipt', cash.id, customer.id));
+      expect(result.voucher_type).toEqual('receipt');
+    });
+
+    it('should only allow contra between cash and bank ledgers', async () => {
+      const { cash, bank, rent } = await createTypedLedgers();
+
+      await expect(createTransaction(voucher('contra', bank.id, rent.id)))
+        .rejects.toThrow('Contra voucher can only use cash and bank ledgers');
+
+      const result = await createTransaction(voucher('contra', bank.id, cash.id));
+      expect(result.voucher_type).toEqual('contra');
+    });
+
+    it('should keep cash and bank ledgers out of journals and notes', async () => {
+      const { cash, rent, customer } = await createTypedLedgers();
+
+      await expect(createTransaction(voucher('journal', rent.id, cash.id)))
+        .rejects.toThrow('Journal voucher cannot use cash or bank ledgers');
+      await expect(createTransaction(voucher('credit_note', cash.id, customer.id)))
+        .rejects.toThrow('Credit note voucher cannot use cash or bank ledgers');
+
+      const result = await createTransaction(voucher('debit_note', customer.id, rent.id));
+      expect(result.voucher_type).toEqual('debit_note');
+    });
+
+    it('should apply the rules to corrections', async () => {
+      const { cash, rent } = await createTypedLedgers();
+      const original = await createTransaction(voucher('payment', rent.id, cash.id));
+
+      await expect(correctTransaction({ id: original.id, correction_data: voucher('payment', cash.id, rent.id) }))
+        .rejects.toThrow('Payment voucher must credit a cash or bank ledger');
+    });
+
+    it('should filter vouchers by type in a date range', async () => {
+      const { cash, bank, rent, customer } = await createTypedLedgers();
+
+      await createTransaction(voucher('payment', rent.id, cash.id));
+      await createTransaction(voucher('receipt', bank.id, customer.id));
+      await createTransaction(voucher('payment', rent.id, bank.id));
+
+      const payments = await getTransactionsByDateRange({
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-01-31'),
+        voucher_type: 'payment'
+      });
+
+      expect(payments).toHaveLength(2);
+      expect(payments.every(entry => entry.voucher_type === 'payment')).toBe(true);
+    });
+  });
+
+  describe('period locks', () => {
+    const journal = (cashId: number, salesId: number, entryDate: string): CreateTransactionInput => ({
+      voucher_type: 'journal',
+      entry_date: new Date(entryDate),
+      description: 'Cash sale',
+      details: [
+        { ledger_id: cashId, debit_amount: 100, credit_amount: 0 },
+        { ledger_id: salesId, debit_amount: 0, credit_amount: 100 }
+      ]
+    });
+
+    const lockYear = async (values: Partial<typeof financialYearsTable.$inferInsert>) => {
+      await db.update(financialYearsTable).set(values).where(eq(financialYearsTable.name, '2024')).execute();
+    };
+
+    it('should refuse dates outside every financial year, even with an override', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+
+      await expect(createTransaction(journal(cashLedger.id, salesLedger.id, '2030-01-10')))
+        .rejects.toThrow(/no financial year covers 2030-01-10/i);
+      await expect(createTransaction({ ...journal(cashLedger.id, salesLedger.id, '2030-01-10'), override_lock: true }))
+        .rejects.toThrow(/no financial year covers/i);
+    });
+
+    it('should refuse dates outside the active financial year', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      await db.insert(financialYearsTable)
+        .values({ name: '2025', start_date: new Date('2025-01-01'), end_date: new Date('2025-12-31') })
+        .execute();
+
+      await expect(createTransaction(journal(cashLedger.id, salesLedger.id, '2025-02-01')))
+        .rejects.toThrow(/outside the active financial year/i);
+    });
+
+    it('should refuse dates outside the active financial year, even with an override', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      await db.insert(financialYearsTable)
+        .values({ name: '2025', start_date: new Date('2025-01-01'), end_date: new Date('2025-12-31') })
+        .execute();
+
+      await expect(createTransaction({ ...journal(cashLedger.id, salesLedger.id, '2025-02-01'), override_lock: true }))
+        .rejects.toThrow(/outside the active financial year/i);
+    });
+
+    it('should refuse closed years, even with an override', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      const entry = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-06-01'));
+      await lockYear({ is_closed: true });
+
+      await expect(createTransaction(journal(cashLedger.id, salesLedger.id, '2024-06-01')))
+        .rejects.toThrow(/financial year 2024 is closed/i);
+      await expect(createTransaction({ ...journal(cashLedger.id, salesLedger.id, '2024-06-01'), override_lock: true }))
+        .rejects.toThrow(/financial year 2024 is closed/i);
+      await expect(deleteTransaction({ id: entry.id, override_lock: true }))
+        .rejects.toThrow(/financial year 2024 is closed/i);
+    });
+
+    it('should refuse dates on or before the lock date', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      await lockYear({ lock_date: new Date('2024-03-31') });
+
+      await expect(createTransaction(journal(cashLedger.id, salesLedger.id, '2024-03-31')))
+        .rejects.toThrow(/entries up to 2024-03-31 are locked/i);
+
+      const entry = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-04-01'));
+      expect(entry.entry_date).toEqual(new Date('2024-04-01'));
+    });
+
+    it('should refuse locked months', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      const [year] = await db.select().from(financialYearsTable).execute();
+      await db.insert(lockedPeriodsTable).values({ financial_year_id: year.id, year: 2024, month: 2 }).execute();
+
+      await expect(createTransaction(journal(cashLedger.id, salesLedger.id, '2024-02-29')))
+        .rejects.toThrow(/2024-02 is locked in 2024/i);
+
+      const entry = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-03-01'));
+      expect(entry.id).toBeDefined();
+    });
+
+    it('should allow posting in a locked period with an override', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      await lockYear({ lock_date: new Date('2024-12-31') });
+
+      const entry = await createTransaction({ ...journal(cashLedger.id, salesLedger.id, '2024-06-01'), override_lock: true });
+      expect(entry.id).toBeDefined();
+    });
+
+    it('should refuse corrections touching a locked period', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      const original = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-02-10'));
+      const later = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-06-10'));
+      await lockYear({ lock_date: new Date('2024-03-31') });
+
+      // The reversal would land in the locked period
+      await expect(correctTransaction({ id: original.id, correction_data: journal(cashLedger.id, salesLedger.id, '2024-04-10') }))
+        .rejects.toThrow(/are locked/i);
+
+      // The replacement would land in the locked period
+      await expect(correctTransaction({ id: later.id, correction_data: journal(cashLedger.id, salesLedger.id, '2024-03-10') }))
+        .rejects.toThrow(/are locked/i);
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      expect(entries.every(entry => entry.status === 'active')).toBe(true);
+
+      const correction = await correctTransaction({
+        id: original.id,
+        correction_data: journal(cashLedger.id, salesLedger.id, '2024-04-10'),
+        override_lock: true
+      });
+      expect(correction.original_entry_id).toEqual(original.id);
+    });
+
+    it('should refuse deleting vouchers in a locked period', async () => {
+      const { cashLedger, salesLedger } = await createTestLedgers();
+      const entry = await createTransaction(journal(cashLedger.id, salesLedger.id, '2024-02-10'));
+      await lockYear({ lock_date: new Date('2024-03-31') });
+
+      await expect(deleteTransaction({ id: entry.id })).rejects.toThrow(/are locked/i);
+
+      const result = await deleteTransaction({ id: entry.id, override_lock: true });
+      expect(result.success).toBe(true);
+    });
   });
 });
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, groupsTable, ledgersTable, financialYearsTable, transactionDetailsTable, auditLogTable } from '../db/schema';
+import { login, hashPassword } from '../handlers/auth';
+import { router, publicProcedure, protectedProcedure, authorizedProcedure, createContext, type Context } from '../trpc';
+import { hasPermission } from '../permissions';
+import { createGroup, updateGroup, deleteGroup } from '../handlers/groups';
+import { createTransaction } from '../handlers/transactions';
+import { setClearingDate } from '../handlers/bank_reconciliation';
+import { z } from 'zod';
+import { eq, sql } from 'drizzle-orm';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+
+const testRouter = router({
+  open: publicProcedure.query(() => 'open'),
+  whoami: protectedProcedure.query(({ ctx }) => ctx.user.username),
+  deleteVoucher: authorizedProcedure('vouchers:modify').mutation(() => 'deleted'),
+  runTool: authorizedProcedure('tools:run').mutation(() => 'done'),
+  createGroup: protectedProcedure
+    .meta({ entity: 'group' })
+    .input(z.object({ name: z.string() }))
+    .mutation(({ input }) => createGroup(input)),
+  renameGroup: protectedProcedure
+    .meta({ entity: 'group' })
+    .input(z.object({ id: z.number(), name: z.string() }))
+    .mutation(({ input }) => updateGroup(input)),
+  deleteGroup: protectedProcedure
+    .meta({ entity: 'group' })
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteGroup(input)),
+  renameGroupInLockedPeriod: protectedProcedure
+    .meta({ entity: 'group' })
+    .input(z.object({ id: z.number(), name: z.string(), override_lock: z.boolean().optional() }))
+    .mutation(({ input }) => updateGroup({ id: input.id, name: input.name })),
+  clearBankLine: protectedProcedure
+    .meta({ entity: 'transaction', key: 'detail_id' })
+    .input(z.object({ detail_id: z.number(), cleared_date: z.date().nullable() }))
+    .mutation(({ input }) => setClearingDate(input))
+});
+
+const contextFor = (authorization?: string) => createContext({
+  req: { headers: { authorization } }
+} as CreateHTTPContextOptions);
+
+describe('tRPC context', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com',
+        password_hash: await hashPassword('test123'),
+        role: 'data_entry'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should put the session user in the context', async () => {
+    const { token } = await login({ username: 'testuser', password: 'test123' });
+
+    const ctx = await contextFor(`Bearer ${token}`);
+
+    expect(ctx.user!.username).toEqual('testuser');
+    expect(ctx.session_token).toEqual(token!);
+  });
+
+  it('should leave the context anonymous for invalid tokens', async () => {
+    const ctx = await contextFor('Bearer nope');
+
+    expect(ctx.user).toBeNull();
+    expect(ctx.session_token).toBeNull();
+  });
+
+  it('should allow protected procedures with a session', async () => {
+    const { token } = await login({ username: 'testuser', password: 'test123' });
+    const caller = testRouter.createCaller(await contextFor(`Bearer ${token}`));
+
+    expect(await caller.whoami()).toEqual('testuser');
+  });
+
+  it('should reject protected procedures without a session', async () => {
+    const anonymous: Context = { user: null, session_token: null };
+    const caller = testRouter.createCaller(anonymous);
+
+    expect(await caller.open()).toEqual('open');
+    await expect(caller.whoami()).rejects.toThrow(/Not logged in/);
+  });
+
+  it('should reject procedures outside the user role', async () => {
+    const { token } = await login({ username: 'testuser', password: 'test123' });
+    const caller = testRouter.createCaller(await contextFor(`Bearer ${token}`));
+
+    await expect(caller.deleteVoucher()).rejects.toThrow(/does not allow vouchers:modify/);
+    await expect(caller.runTool()).rejects.toThrow(/does not allow tools:run/);
+  });
+
+  it('should allow procedures granted to the user role', async () => {
+    await db.update(usersTable).set({ role: 'admin' }).execute();
+    const { token } = await login({ username: 'testuser', password: 'test123' });
+    const caller = testRouter.createCaller(await contextFor(`Bearer ${token}`));
+
+    expect(await caller.deleteVoucher()).toEqual('deleted');
+    expect(await caller.runTool()).toEqual('done');
+  });
+});
+
+describe('permissions', () => {
+  it('should restrict tools and user management to admins', () => {
+    expect(hasPermission('admin', 'tools:run')).toBe(true);
+    expect(hasPermission('accountant', 'tools:run')).toBe(false);
+    expect(hasPermission('accountant', 'users:manage')).toBe(false);
+  });
+
+  it('should let only admins override locked periods', () => {
+    expect(hasPermission('admin', 'periods:override')).toBe(true);
+    expect(hasPermission('accountant', 'periods:override')).toBe(false);
+  });
+
+  it('should let data-entry users post but not correct or delete vouchers', () => {
+    expect(hasPermission('data_entry', 'vouchers:create')).toBe(true);
+    expect(hasPermission('data_entry', 'vouchers:modify')).toBe(false);
+  });
+
+  it('should limit auditors to reports', () => {
+    expect(hasPermission('auditor', 'reports:read')).toBe(true);
+    expect(hasPermission('auditor', 'vouchers:read')).toBe(false);
+    expect(hasPermission('auditor', 'vouchers:create')).toBe(false);
+    expect(hasPermission('auditor', 'masters:write')).toBe(false);
+  });
+});
+
+describe('audit middleware', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com',
+        password_hash: await hashPassword('test123'),
+        role: 'accountant'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const loggedInCaller = async () => {
+    const { token } = await login({ username: 'testuser', password: 'test123' });
+    return testRouter.createCaller(await contextFor(`Bearer ${token}`));
+  };
+
+  it('should record create, update and delete with before/after snapshots', async () => {
+    const caller = await loggedInCaller();
+
+    const group = await caller.createGroup({ name: 'Assets' });
+    await caller.renameGroup({ id: group.id, name: 'Current Assets' });
+    await caller.deleteGroup({ id: group.id });
+
+    const rows = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+
+    expect(rows.map(r => r.procedure)).toEqual(['createGroup', 'renameGroup', 'deleteGroup']);
+    expect(rows.every(r => r.entity === 'group' && r.entity_id === group.id)).toBe(true);
+    expect(rows.every(r => r.username === 'testuser')).toBe(true);
+
+    expect(rows[0].before).toBeNull();
+    expect((rows[0].after as any).name).toEqual('Assets');
+    expect((rows[1].before as any).name).toEqual('Assets');
+    expect((rows[1].after as any).name).toEqual('Current Assets');
+    expect((rows[2].before as any).name).toEqual('Current Assets');
+    expect(rows[2].after).toBeNull();
+  });
+
+  it('should not record failed mutations or queries', async () => {
+    const caller = await loggedInCaller();
+
+    await expect(caller.renameGroup({ id: 99999, name: 'Missing' })).rejects.toThrow(/not found/i);
+    await caller.whoami();
+
+    const rows = await db.select().from(auditLogTable).execute();
+    expect(rows).toHaveLength(0);
+
+    const groups = await db.select().from(groupsTable).execute();
+    expect(groups).toHaveLength(0);
+  });
+
+  it('should audit mutations keyed by a voucher line as the voucher', async () => {
+    const caller = await loggedInCaller();
+    const [group] = await db.insert(groupsTable).values({ name: 'Assets' }).returning().execute();
+    const [bank] = await db.insert(ledgersTable).values({ name: 'Bank', group_id: group.id, ledger_type: 'bank' }).returning().execute();
+    const [sales] = await db.insert(ledgersTable).values({ name: 'Sales', group_id: group.id }).returning().execute();
+    await db.insert(financialYearsTable)
+      .values({ name: '2024', start_date: new Date('2024-01-01'), end_date: new Date('2024-12-31'), is_active: true })
+      .execute();
+    const entry = await createTransaction({
+      voucher_type: 'receipt',
+      entry_date: new Date('2024-01-15'),
+      description: 'Cash sale',
+      details: [
+        { ledger_id: bank.id, debit_amount: 100, credit_amount: 0 },
+        { ledger_id: sales.id, debit_amount: 0, credit_amount: 100 }
+      ]
+    });
+    const [bankLine] = await db.select()
+      .from(transactionDetailsTable)
+      .where(eq(transactionDetailsTable.ledger_id, bank.id))
+      .execute();
+
+    await caller.clearBankLine({ detail_id: bankLine.id, cleared_date: new Date('2024-01-20') });
+
+    const rows = await db.select().from(auditLogTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].entity_id).toEqual(entry.id);
+
+    const clearedDate = (snapshot: unknown) => (snapshot as any).details.find((detail: any) => detail.id === bankLine.id).cleared_date;
+    expect(clearedDate(rows[0].before)).toBeNull();
+    expect(clearedDate(rows[0].after)).toEqual('2024-01-20T00:00:00.000Z');
+  });
+
+  it('should undo the mutation when its audit entry cannot be written', async () => {
+    const caller = await loggedInCaller();
+    await db.execute(sql`ALTER TABLE audit_log ADD CONSTRAINT audit_log_refuse_all CHECK (false) NOT VALID`);
+
+    await expect(caller.createGroup({ name: 'Assets' })).rejects.toThrow();
+
+    const groups = await db.select().from(groupsTable).execute();
+    expect(groups).toHaveLength(0);
+  });
+
+  it('should refuse lock overrides from roles without periods:override', async () => {
+    const caller = await loggedInCaller();
+    const group = await caller.createGroup({ name: 'Assets' });
+
+    await expect(caller.renameGroupInLockedPeriod({ id: group.id, name: 'Renamed', override_lock: true }))
+      .rejects.toThrow(/periods:override/);
+
+    const rows = await db.select().from(auditLogTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should flag mutations made with a lock override', async () => {
+    await db.insert(usersTable)
+      .values({
+        username: 'admin',
+        email: 'admin@example.com',
+        password_hash: await hashPassword('admin123'),
+        role: 'admin'
+      })
+      .execute();
+    const { token } = await login({ username: 'admin', password: 'admin123' });
+    const caller = testRouter.createCaller(await contextFor(`Bearer ${token}`));
+
+    const group = await caller.createGroup({ name: 'Assets' });
+    await caller.renameGroupInLockedPeriod({ id: group.id, name: 'Renamed', override_lock: true });
+
+    const rows = await db.select().from(auditLogTable).orderBy(auditLogTable.id).execute();
+    expect(rows.map(r => r.lock_override)).toEqual([false, true]);
+  });
+});
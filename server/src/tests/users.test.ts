@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { createUser, getUsers, updateUser, resetUserPassword, changePassword } from '../handlers/users';
+import { login, getSessionUser } from '../handlers/auth';
+import { eq } from 'drizzle-orm';
+
+const adminInput: CreateUserInput = {
+  username: 'admin',
+  email: 'admin@example.com',
+  password: 'admin-password',
+  role: 'admin'
+};
+
+const clerkInput: CreateUserInput = {
+  username: 'clerk',
+  email: 'clerk@example.com',
+  password: 'clerk-password',
+  role: 'data_entry'
+};
+
+describe('User Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createUser', () => {
+    it('should create a user with a hashed password', async () => {
+      const result = await createUser(clerkInput);
+
+      expect(result.username).toEqual('clerk');
+      expect(result.role).toEqual('data_entry');
+      expect(result.is_active).toBe(true);
+      expect((result as any).password_hash).toBeUndefined();
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, result.id)).execute();
+      expect(users[0].password_hash).toStartWith('scrypt$');
+    });
+
+    it('should allow the new user to log in', async () => {
+      await createUser(clerkInput);
+
+      const result = await login({ username: 'clerk', password: 'clerk-password' });
+
+      expect(result.success).toBe(true);
+      expect(result.user!.role).toEqual('data_entry');
+    });
+
+    it('should reject duplicate usernames', async () => {
+      await createUser(clerkInput);
+
+      await expect(createUser({ ...clerkInput, email: 'other@example.com' })).rejects.toThrow();
+    });
+  });
+
+  describe('getUsers', () => {
+    it('should list users ordered by username without password hashes', async () => {
+      await createUser(clerkInput);
+      await createUser(adminInput);
+
+      const results = await getUsers();
+
+      expect(results.map(u => u.username)).toEqual(['admin', 'clerk']);
+      expect(results.every(u => (u as any).password_hash === undefined)).toBe(true);
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should change role and email', async () => {
+      const clerk = await createUser(clerkInput);
+
+      const result = await updateUser({ id: clerk.id, role: 'accountant', email: 'acct@example.com' });
+
+      expect(result.role).toEqual('accountant');
+      expect(result.email).toEqual('acct@example.com');
+    });
+
+    it('should sign out and block disabled users', async () => {
+      await createUser(adminInput);
+      const clerk = await createUser(clerkInput);
+      const { token } = await login({ username: 'clerk', password: 'clerk-password' });
+
+      const result = await updateUser({ id: clerk.id, is_active: false });
+
+      expect(result.is_active).toBe(false);
+      expect(await getSessionUser(token!)).toBeNull();
+
+      const loginResult = await login({ username: 'clerk', password: 'clerk-password' });
+      expect(loginResult.success).toBe(false);
+      expect(loginResult.message).toEqual('This account has been disabled');
+    });
+
+    it('should not remove the last active administrator', async () => {
+      const admin = await createUser(adminInput);
+
+      await expect(updateUser({ id: admin.id, role: 'accountant' })).rejects.toThrow(/last active administrator/);
+      await expect(updateUser({ id: admin.id, is_active: false })).rejects.toThrow(/last active administrator/);
+    });
+
+    it('should allow demoting an administrator when another remains', async () => {
+      const admin = await createUser(adminInput);
+      await createUser({ ...adminInput, username: 'admin2', email: 'admin2@example.com' });
+
+      const result = await updateUser({ id: admin.id, role: 'auditor' });
+
+      expect(result.role).toEqual('auditor');
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(updateUser({ id: 99999, role: 'auditor' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('resetUserPassword', () => {
+    it('should set a new password and end existing sessions', async () => {
+      const clerk = await createUser(clerkInput);
+      const { token } = await login({ username: 'clerk', password: 'clerk-password' });
+
+      await resetUserPassword({ id: clerk.id, new_password: 'fresh-password' });
+
+      expect(await getSessionUser(token!)).toBeNull();
+      expect((await login({ username: 'clerk', password: 'clerk-password' })).success).toBe(false);
+      expect((await login({ username: 'clerk', password: 'fresh-password' })).success).toBe(true);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password when the current one matches', async () => {
+      const clerk = await createUser(clerkInput);
+
+      const result = await changePassword(clerk.id, {
+        current_password: 'clerk-password',
+        new_password: 'better-password'
+      });
+
+      expect(result.success).toBe(true);
+      expect((await login({ username: 'clerk', password: 'better-password' })).success).toBe(true);
+    });
+
+    it('should reject a wrong current password', async () => {
+      const clerk = await createUser(clerkInput);
+
+      await expect(changePassword(clerk.id, {
+        current_password: 'wrong',
+        new_password: 'better-password'
+      })).rejects.toThrow(/Current password is incorrect/);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(0);
+    });
+  });
+});
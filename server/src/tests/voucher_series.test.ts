@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { groupsTable, ledgersTable, financialYearsTable, transactionEntriesTable, voucherSequencesTable } from '../db/schema';
+import { type CreateTransactionInput } from '../schema';
+import { getVoucherSeries, updateVoucherSeries, allocateVoucherNumber } from '../handlers/voucher_series';
+import { createTransaction, deleteTransaction } from '../handlers/transactions';
+import { createFinancialYear, deleteFinancialYear, setActiveFinancialYear } from '../handlers/financial_years';
+import { formatVoucherNumber, seriesNumbersOverlap } from '../vouchers';
+import { sql } from 'drizzle-orm';
+
+describe('Voucher Numbering', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestLedgers = async () => {
+    const [group] = await db.insert(groupsTable)
+      .values({ name: 'Test Group' })
+      .returning()
+      .execute();
+
+    const [cash] = await db.insert(ledgersTable)
+      .values({ name: 'Cash', group_id: group.id, ledger_type: 'cash' })
+      .returning()
+      .execute();
+
+    const [rent] = await db.insert(ledgersTable)
+      .values({ name: 'Rent', group_id: group.id })
+      .returning()
+      .execute();
+
+    const [sales] = await db.insert(ledgersTable)
+      .values({ name: 'Sales', group_id: group.id })
+      .returning()
+      .execute();
+
+    return { cash, rent, sales };
+  };
+
+  const createTestYears = async () => {
+    await db.insert(financialYearsTable)
+      .values([
+        { name: '2023-24', start_date: new Date('2023-04-01'), end_date: new Date('2024-03-31') },
+        { name: '2024-25', start_date: new Date('2024-04-01'), end_date: new Date('2025-03-31'), is_active: true }
+      ])
+      .execute();
+  };
+
+  const payment = (cashId: number, rentId: number, entryDate: string, description = 'Rent paid'): CreateTransactionInput => ({
+    voucher_type: 'payment',
+    entry_date: new Date(entryDate),
+    description,
+    details: [
+      { ledger_id: rentId, debit_amount: 100, credit_amount: 0 },
+      { ledger_id: cashId, debit_amount: 0, credit_amount: 100 }
+    ]
+  });
+
+  describe('formatVoucherNumber', () => {
+    it('should expand the year placeholder and pad the number', () => {
+      expect(formatVoucherNumber({ prefix: 'PMT/{FY}/', suffix: '', padding: 4 }, '2024-25', 7)).toEqual('PMT/2024-25/0007');
+      expect(formatVoucherNumber({ prefix: 'S-', suffix: '-{FY}', padding: 2 }, '2024-25', 123)).toEqual('S-123-2024-25');
+    });
+  });
+
+  describe('seriesNumbersOverlap', () => {
+    it('should find series that can issue the same number', () => {
+      const series = (prefix: string, padding: number, suffix = '') => ({ prefix, suffix, padding });
+
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/{FY}/', 6))).toBe(true);
+      // X/<year>/0001 from both
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/{FY}/0', 3))).toBe(true);
+      // X/<year>/12345 from the first once it outgrows its padding
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/{FY}/1', 4))).toBe(true);
+      expect(seriesNumbersOverlap(series('{FY}-', 2, '-A'), series('{FY}-1', 1, '-A'))).toBe(true);
+    });
+
+    it('should keep apart series that cannot', () => {
+      const series = (prefix: string, padding: number, suffix = '') => ({ prefix, suffix, padding });
+
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('Y/{FY}/', 4))).toBe(false);
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/{FY}/', 4, '/P'))).toBe(false);
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/{FY}/A', 4))).toBe(false);
+      expect(seriesNumbersOverlap(series('X/{FY}/', 4), series('X/', 4, '/{FY}'))).toBe(false);
+    });
+  });
+
+  describe('getVoucherSeries', () => {
+    it('should create a default series for every voucher type', async () => {
+      const series = await getVoucherSeries();
+
+      expect(series).toHaveLength(8);
+      expect(series.find(s => s.voucher_type === 'payment')?.prefix).toEqual('PMT/{FY}/');
+      expect(series.every(s => s.padding === 4 && s.suffix === '')).toBe(true);
+
+      // Calling again must not duplicate the defaults
+      expect(await getVoucherSeries()).toHaveLength(8);
+    });
+  });
+
+  describe('updateVoucherSeries', () => {
+    it('should change the format of new numbers', async () => {
+      const { cash, rent } = await createTestLedgers();
+      await createTestYears();
+
+      const series = await getVoucherSeries();
+      const paymentSeries = series.find(s => s.voucher_type === 'payment')!;
+
+      const updated = await updateVoucherSeries({ id: paymentSeries.id, prefix: 'PAY-', suffix: '/{FY}', padding: 6 });
+      expect(updated.prefix).toEqual('PAY-');
+      expect(updated.padding).toEqual(6);
+
+      const entry = await createTransaction(payment(cash.id, rent.id, '2024-05-01'));
+      expect(entry.entry_number).toEqual('PAY-000001/2024-25');
+    });
+
+    it('should require the financial year placeholder', async () => {
+      const series = await getVoucherSeries();
+
+      await expect(updateVoucherSeries({ id: series[0].id, prefix: 'JV-', suffix: '' }))
+        .rejects.toThrow(/must contain \{FY\}/);
+    });
+
+    it('should refuse a prefix and suffix another voucher type uses', async () => {
+      const series = await getVoucherSeries();
+      const paymentSeries = series.find(s => s.voucher_type === 'payment')!;
+
+      await expect(updateVoucherSeries({ id: paymentSeries.id, prefix: 'RCT/{FY}/' }))
+        .rejects.toThrow(/receipt series can issue the same numbers/i);
+
+      // The same prefix with another suffix issues different numbers
+      const updated = await updateVoucherSeries({ id: paymentSeries.id, prefix: 'RCT/{FY}/', suffix: '/P' });
+      expect(updated.prefix).toEqual('RCT/{FY}/');
+    });
+
+    it('should refuse a series whose padded numbers match another series', async () => {
+      const series = await getVoucherSeries();
+      const journalSeries = series.find(s => s.voucher_type === 'journal')!;
+      const paymentSeries = series.find(s => s.voucher_type === 'payment')!;
+
+      await updateVoucherSeries({ id: journalSeries.id, prefix: 'X/{FY}/', padding: 4 });
+
+      await expect(updateVoucherSeries({ id: paymentSeries.id, prefix: 'X/{FY}/0', padding: 3 }))
+        .rejects.toThrow(/journal series can issue the same numbers/i);
+      await expect(updateVoucherSeries({ id: paymentSeries.id, prefix: 'X/{FY}/', padding: 6 }))
+        .rejects.toThrow(/journal series can issue the same numbers/i);
+
+      // Changing only the padding is checked against the other series too
+      await updateVoucherSeries({ id: paymentSeries.id, prefix: 'X/{FY}/P' });
+      const updated = await updateVoucherSeries({ id: paymentSeries.id, padding: 2 });
+      expect(updated.padding).toEqual(2);
+    });
+
+    it('should throw for an unknown series', async () => {
+      await expect(updateVoucherSeries({ id: 99999, prefix: '{FY}-' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('allocation', () => {
+    it('should number sequentially per voucher type', async () => {
+      const { cash, rent, sales } = await createTestLedgers();
+      await createTestYears();
+
+      const first = await createTransaction(payment(cash.id, rent.id, '2024-05-01'));
+      const journal = await createTransaction({
+        voucher_type: 'journal',
+        entry_date: new Date('2024-05-02'),
+        description: 'Adjustment',
+        details: [
+          { ledger_id: rent.id, debit_amount: 10, credit_amount: 0 },
+          { ledger_id: sales.id, debit_amount: 0, credit_amount: 10 }
+        ]
+      });
+      const second = await createTransaction(payment(cash.id, rent.id, '2024-05-03'));
+
+      expect(first.entry_number).toEqual('PMT/2024-25/0001');
+      expect(journal.entry_number).toEqual('JV/2024-25/0001');
+      expect(second.entry_number).toEqual('PMT/2024-25/0002');
+    });
+
+    it('should restart the sequence in each financial year', async () => {
+      const { cash, rent } = await createTestLedgers();
+      await createTestYears();
+
+      const years = await db.select().from(financialYearsTable).orderBy(financialYearsTable.start_date).execute();
+
+      // Postings are only accepted in the active year
+      await setActiveFinancialYear({ id: years[0].id });
+      const march = await createTransaction(payment(cash.id, rent.id, '2024-03-15'));
+      await setActiveFinancialYear({ id: years[1].id });
+      const april = await createTransaction(payment(cash.id, rent.id, '2024-04-15'));
+      await setActiveFinancialYear({ id: years[0].id });
+      const lateMarch = await createTransaction(payment(cash.id, rent.id, '2024-03-20'));
+
+      expect(march.entry_number).toEqual('PMT/2023-24/0001');
+      expect(april.entry_number).toEqual('PMT/2024-25/0001');
+      expect(lateMarch.entry_number).toEqual('PMT/2023-24/0002');
+    });
+
+    it('should issue distinct gap-free numbers to concurrent postings', async () => {
+      const { cash, rent } = await createTestLedgers();
+      await createTestYears();
+
+      const entries = await Promise.all(
+        Array.from({ length: 8 }, (_, i) => createTransaction(payment(cash.id, rent.id, '2024-06-01', `Payment ${i}`)))
+      );
+
+      const numbers = entries.map(entry => entry.entry_number).sort();
+      expect(numbers).toEqual(Array.from({ length: 8 }, (_, i) => `PMT/2024-25/000${i + 1}`));
+    });
+
+    it('should give the number back when the posting rolls back', async () => {
+      const { cash, rent } = await createTestLedgers();
+      await createTestYears();
+
+      await db.execute(sql.raw(`
+        CREATE FUNCTION force_failure() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'forced failure';
+        END;
+        $$ LANGUAGE plpgsql
+      `));
+      await db.execute(sql.raw(`
+        CREATE TRIGGER force_failure BEFORE INSERT ON transaction_entries
+        FOR EACH ROW WHEN (NEW.description = 'fail here') EXECUTE FUNCTION force_failure()
+      `));
+
+      await expect(createTransaction(payment(cash.id, rent.id, '2024-06-01', 'fail here'))).rejects.toThrow(/forced failure/);
+      const entry = await createTransaction(payment(cash.id, rent.id, '2024-06-01'));
+
+      expect(entry.entry_number).toEqual('PMT/2024-25/0001');
+
+      const entries = await db.select().from(transactionEntriesTable).execute();
+      expect(entries).toHaveLength(1);
+    });
+
+    it('should keep a year that issued numbers from being deleted and its numbers reissued', async () => {
+      const { cash, rent } = await createTestLedgers();
+      const year = await createFinancialYear({
+        name: 'FY24',
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-12-31'),
+        is_active: true
+      });
+
+      const entry = await createTransaction(payment(cash.id, rent.id, '2024-06-01'));
+      expect(entry.entry_number).toEqual('PMT/FY24/0001');
+
+      await expect(deleteFinancialYear({ id: year.id })).rejects.toThrow(/issued voucher or invoice numbers/);
+
+      // The issued number stays taken after its voucher is deleted
+      await deleteTransaction({ id: entry.id });
+      await expect(deleteFinancialYear({ id: year.id })).rejects.toThrow(/issued voucher or invoice numbers/);
+
+      const next = await createTransaction(payment(cash.id, rent.id, '2024-06-02'));
+      expect(next.entry_number).toEqual('PMT/FY24/0002');
+    });
+
+    it('should label dates outside every financial year with the calendar year', async () => {
+      await db.transaction(async (tx) => {
+        expect(await allocateVoucherNumber(tx, 'payment', new Date('2030-01-10'))).toEqual('PMT/2030/0001');
+      });
+
+      const sequences = await db.select().from(voucherSequencesTable).execute();
+      expect(sequences).toHaveLength(1);
+      expect(sequences[0].financial_year_id).toBeNull();
+    });
+  });
+});
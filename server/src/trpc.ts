@@ -0,0 +1,143 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { sql, TransactionRollbackError } from 'drizzle-orm';
+import { runInTransaction } from './db';
+import { getSessionUser } from './handlers/auth';
+import { type AuditKey, loadAuditSnapshot, recordAuditEntry, resolveAuditEntityId } from './handlers/audit';
+import { type AuditEntity, type SessionUser } from './schema';
+import { type Permission, hasPermission } from './permissions';
+
+export interface Context {
+  user: SessionUser | null;
+  session_token: string | null;
+}
+
+// Every mutation declares the entity it changes so it can be audited, and
+// the input field naming the changed row when that is not input.id
+export interface Meta {
+  entity?: AuditEntity;
+  key?: AuditKey;
+}
+
+// Extracts the session token from an "Authorization: Bearer <token>" header
+const getBearerToken = (header: string | undefined): string | null => {
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1] : null;
+};
+
+export const createContext = async ({ req }: CreateHTTPContextOptions): Promise<Context> => {
+  const sessionToken = getBearerToken(req.headers.authorization);
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+
+  return {
+    user,
+    session_token: user ? sessionToken : null
+  };
+};
+
+const t = initTRPC.context<Context>().meta<Meta>().create({
+  transformer: superjson,
+});
+
+const getNumericId = (value: unknown, key: AuditKey = 'id'): number | null => {
+  if (typeof value === 'object' && value !== null && key in value) {
+    const id = (value as Record<AuditKey, unknown>)[key];
+    return typeof id === 'number' ? id : null;
+  }
+  return null;
+};
+
+const isLockOverride = (value: unknown): boolean => {
+  return typeof value === 'object' && value !== null && 'override_lock' in value && value.override_lock === true;
+};
+
+// Records actor, procedure and before/after snapshots of every successful
+// mutation on an entity. The audited row is the one named by input.id, or by
+// the input field the meta key names; the after snapshot follows the returned
+// row, so a correction shows the new entry.
+// Mutations made with override_lock are flagged as lock overrides.
+// The snapshots, the mutation and the audit row share one transaction: a
+// failed audit insert undoes the change, and the audited row is locked so a
+// concurrent mutation cannot slip in between the before snapshot and the change.
+const auditMiddleware = t.middleware(async ({ ctx, type, path, meta, getRawInput, next }) => {
+  if (type !== 'mutation' || !meta?.entity) {
+    return next();
+  }
+
+  const entity = meta.entity;
+  const rawInput = await getRawInput();
+  const keyValue = getNumericId(rawInput, meta.key);
+  const inputId = keyValue !== null ? await resolveAuditEntityId(meta.key ?? 'id', keyValue) : null;
+  let result: Awaited<ReturnType<typeof next>> | undefined;
+
+  try {
+    await runInTransaction(async (tx) => {
+      if (inputId !== null) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${entity}), ${inputId})`);
+      }
+
+      const before = inputId !== null ? await loadAuditSnapshot(entity, inputId) : null;
+
+      const outcome = await next();
+      result = outcome;
+
+      // A failed mutation leaves nothing behind, not even its partial writes
+      if (!outcome.ok) {
+        tx.rollback();
+        return;
+      }
+
+      const resultId = getNumericId(outcome.data) ?? inputId;
+
+      await recordAuditEntry({
+        user: ctx.user,
+        procedure: path,
+        entity,
+        entity_id: inputId ?? resultId,
+        before,
+        after: resultId !== null ? await loadAuditSnapshot(entity, resultId) : null,
+        lock_override: isLockOverride(rawInput)
+      });
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) {
+      throw error;
+    }
+  }
+
+  return result!;
+});
+
+export const router = t.router;
+export const publicProcedure = t.procedure;
+
+// Rejects calls without a valid, unexpired session
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.session_token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Not logged in or session expired' });
+  }
+
+  return next({
+    ctx: {
+      user: ctx.user,
+      session_token: ctx.session_token
+    }
+  });
+}).use(async ({ ctx, getRawInput, next }) => {
+  // Only roles allowed to override locked periods may ask for it
+  if (isLockOverride(await getRawInput()) && !hasPermission(ctx.user.role, 'periods:override')) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Your role does not allow periods:override' });
+  }
+
+  return next();
+}).use(auditMiddleware);
+
+// Rejects calls from users whose role lacks the given permission
+export const authorizedProcedure = (permission: Permission) => protectedProcedure.use(({ ctx, next }) => {
+  if (!hasPermission(ctx.user.role, permission)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Your role does not allow ${permission}` });
+  }
+
+  return next();
+});
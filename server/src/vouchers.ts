@@ -0,0 +1,117 @@
+// Voucher and invoice type metadata shared by the server and the client.
+
+import { type InvoiceType, type LedgerType, type VoucherType } from './schema';
+
+export const voucherTypeLabels: Record<VoucherType, string> = {
+  journal: 'Journal',
+  payment: 'Payment',
+  receipt: 'Receipt',
+  contra: 'Contra',
+  sales: 'Sales',
+  purchase: 'Purchase',
+  debit_note: 'Debit note',
+  credit_note: 'Credit note'
+};
+
+export const voucherTypes = Object.keys(voucherTypeLabels) as VoucherType[];
+
+// Placeholder for the financial year name in a series prefix or suffix
+export const FINANCIAL_YEAR_PLACEHOLDER = '{FY}';
+
+// Prefixes used until an administrator configures a series
+export const defaultVoucherPrefixes: Record<VoucherType, string> = {
+  journal: 'JV/{FY}/',
+  payment: 'PMT/{FY}/',
+  receipt: 'RCT/{FY}/',
+  contra: 'CTR/{FY}/',
+  sales: 'SAL/{FY}/',
+  purchase: 'PUR/{FY}/',
+  debit_note: 'DN/{FY}/',
+  credit_note: 'CN/{FY}/'
+};
+
+// Formats a voucher number, e.g. PMT/2024-25/0007
+export const formatVoucherNumber = (
+  series: { prefix: string; suffix: string; padding: number },
+  financialYearName: string,
+  sequenceNumber: number
+): string => {
+  const expand = (text: string) => text.split(FINANCIAL_YEAR_PLACEHOLDER).join(financialYearName);
+  return `${expand(series.prefix)}${String(sequenceNumber).padStart(series.padding, '0')}${expand(series.suffix)}`;
+};
+
+// Tokens of the numbers a series issues: the prefix and suffix characters,
+// the year as one token, and between them the padding digits followed by
+// any number of further digits
+const DIGIT = '\\d';
+const MORE_DIGITS = '\\d*';
+
+const numberTokens = (series: { prefix: string; suffix: string; padding: number }): string[] => {
+  const literal = (text: string) => text.split(FINANCIAL_YEAR_PLACEHOLDER)
+    .flatMap((part, index) => index === 0 ? [...part] : [FINANCIAL_YEAR_PLACEHOLDER, ...part]);
+  return [...literal(series.prefix), ...Array<string>(series.padding).fill(DIGIT), MORE_DIGITS, ...literal(series.suffix)];
+};
+
+// Whether two series can issue the same number in a year, e.g. X/{FY}/ with
+// padding 4 and X/{FY}/0 with padding 3 both issue X/<year>/0001. Walks both
+// formats side by side over every character either can take next.
+export const seriesNumbersOverlap = (
+  first: { prefix: string; suffix: string; padding: number },
+  second: { prefix: string; suffix: string; padding: number }
+): boolean => {
+  const tokens = [numberTokens(first), numberTokens(second)];
+  const symbols = [...new Set([...'0123456789', ...tokens.flat().filter(token => token !== DIGIT && token !== MORE_DIGITS)])];
+
+  // Positions a format can be at without taking a character: further digits are optional
+  const settle = (format: string[], position: number) => format[position] === MORE_DIGITS ? [position, position + 1] : [position];
+  const advance = (format: string[], position: number, symbol: string): number | null => {
+    const token = format[position];
+    if (token === DIGIT || token === MORE_DIGITS) {
+      return /^\d$/.test(symbol) ? (token === DIGIT ? position + 1 : position) : null;
+    }
+    return token === symbol ? position + 1 : null;
+  };
+
+  const seen = new Set<string>();
+  const pending: [number, number][] = [[0, 0]];
+  while (pending.length > 0) {
+    const [start, otherStart] = pending.pop()!;
+    for (const position of settle(tokens[0], start)) {
+      for (const otherPosition of settle(tokens[1], otherStart)) {
+        if (position === tokens[0].length && otherPosition === tokens[1].length) {
+          return true;
+        }
+        for (const symbol of symbols) {
+          const next = advance(tokens[0], position, symbol);
+          const otherNext = advance(tokens[1], otherPosition, symbol);
+          const key = `${next},${otherNext}`;
+          if (next !== null && otherNext !== null && !seen.has(key)) {
+            seen.add(key);
+            pending.push([next, otherNext]);
+          }
+        }
+      }
+    }
+  }
+  return false;
+};
+
+export const invoiceTypeLabels: Record<InvoiceType, string> = {
+  sales: 'Sales invoice',
+  purchase: 'Purchase bill'
+};
+
+export const invoiceTypes = Object.keys(invoiceTypeLabels) as InvoiceType[];
+
+// Invoices are numbered apart from vouchers, so that editing an invoice,
+// which posts a reversal and a replacement voucher, leaves no gaps
+export const defaultInvoicePrefixes: Record<InvoiceType, string> = {
+  sales: 'INV/{FY}/',
+  purchase: 'BILL/{FY}/'
+};
+
+// Cash and bank ledgers are the money accounts that payment, receipt and
+// contra vouchers move funds in and out of
+export const isMoneyLedgerType = (ledgerType: LedgerType | undefined): boolean => {
+  return ledgerType === 'cash' || ledgerType === 'bank';
+};